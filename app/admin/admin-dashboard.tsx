@@ -14,6 +14,7 @@ import {
   Database
 } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { passiveRequestInit } from '@/lib/session-policy';
 
 interface DashboardStats {
   totalRequests: number;
@@ -50,7 +51,7 @@ export function AdminDashboard() {
 
   const fetchDashboardData = async () => {
     try {
-      const response = await fetch('/api/admin/dashboard');
+      const response = await fetch('/api/admin/dashboard', passiveRequestInit);
       if (response.ok) {
         const data = await response.json();
         setStats(data);
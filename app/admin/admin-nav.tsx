@@ -4,6 +4,7 @@ import { useState } from 'react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { NotificationsMenu } from '@/components/notifications-menu';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -24,6 +25,10 @@ import {
   Sun,
   Moon,
   Monitor,
+  GitBranch,
+  ShieldOff,
+  KeyRound,
+  Server,
 } from 'lucide-react';
 import { useTheme } from 'next-themes';
 
@@ -72,6 +77,10 @@ export function AdminNav({ user }: AdminNavProps) {
     { href: '/admin?section=admin-requests', label: 'All Requests', icon: FileText },
     { href: '/admin?section=audit-trail', label: 'Audit Trail', icon: Shield },
     { href: '/admin?section=request-lifecycle', label: 'Request Lifecycle', icon: FileText },
+    { href: '/admin?section=approval-policies', label: 'Approval Policies', icon: GitBranch },
+    { href: '/admin?section=information-systems', label: 'Information Systems', icon: Server },
+    { href: '/admin?section=trust-store', label: 'Trust Store', icon: KeyRound },
+    { href: '/admin?section=revocation', label: 'Revocation', icon: ShieldOff },
     { href: '/admin?section=system-monitoring', label: 'System Health', icon: Settings },
     { href: '/admin?section=user-management', label: 'User Management', icon: Users },
   ];
@@ -140,6 +149,7 @@ export function AdminNav({ user }: AdminNavProps) {
 
           <div className="hidden sm:flex sm:items-center sm:space-x-4">
             <ThemeToggle />
+            <NotificationsMenu />
             <Badge className="bg-primary/10 text-primary">
               ADMINISTRATOR
             </Badge>
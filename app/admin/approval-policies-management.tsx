@@ -0,0 +1,536 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Save,
+  X,
+  GitBranch,
+  Loader2,
+  AlertTriangle
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { TRANSFER_TYPES, MEDIA_TYPES, type ApprovalStep, type ApprovalStepRole } from '@/lib/approval-policy';
+
+interface Policy {
+  id: number;
+  name: string;
+  description: string | null;
+  transferType: string | null;
+  classification: string | null;
+  mediaType: string | null;
+  priority: number;
+  isActive: boolean;
+  steps: ApprovalStep[];
+  updatedAt: string;
+}
+
+interface PolicyForm {
+  name: string;
+  description: string;
+  transferType: string;
+  classification: string;
+  mediaType: string;
+  priority: number;
+  isActive: boolean;
+  steps: ApprovalStep[];
+}
+
+const roleOptions: { value: ApprovalStepRole; label: string }[] = [
+  { value: 'sme', label: 'SME (Pre-Review)' },
+  { value: 'dao', label: 'DAO' },
+  { value: 'approver', label: 'Approver (ISSM/ISSO)' },
+  { value: 'cpso', label: 'CPSO' },
+];
+
+const classificationOptions = [
+  { value: 'unclassified', label: 'UNCLASSIFIED' },
+  { value: 'cui', label: 'CUI' },
+  { value: 'secret', label: 'SECRET' },
+  { value: 'top-secret', label: 'TOP SECRET' },
+  { value: 'top-secret-sci', label: 'TOP SECRET//SCI' },
+];
+
+const emptyForm: PolicyForm = {
+  name: '',
+  description: '',
+  transferType: 'any',
+  classification: 'any',
+  mediaType: 'any',
+  priority: 0,
+  isActive: true,
+  steps: [
+    { id: 'approver', name: 'ISSM/ISSO Review', role: 'approver', order: 1, quorum: 1 },
+    { id: 'cpso', name: 'CPSO Review', role: 'cpso', order: 2, quorum: 1 },
+  ],
+};
+
+export function ApprovalPoliciesManagement() {
+  const [policies, setPolicies] = useState<Policy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<Policy | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<PolicyForm>(emptyForm);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  const fetchPolicies = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/approval-policies');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch approval policies');
+      }
+
+      const data = await response.json();
+      setPolicies(data.policies);
+    } catch (error) {
+      console.error('Error fetching approval policies:', error);
+      toast.error('Failed to load approval policies');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      const url = editingPolicy ? `/api/admin/approval-policies/${editingPolicy.id}` : '/api/admin/approval-policies';
+      const method = editingPolicy ? 'PUT' : 'POST';
+
+      const payload = {
+        ...formData,
+        transferType: formData.transferType === 'any' ? null : formData.transferType,
+        classification: formData.classification === 'any' ? null : formData.classification,
+        mediaType: formData.mediaType === 'any' ? null : formData.mediaType,
+      };
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        setErrors(error.details || [error.error]);
+        return;
+      }
+
+      toast.success(editingPolicy ? 'Approval policy updated successfully' : 'Approval policy created successfully');
+      handleCancel();
+      fetchPolicies();
+    } catch (error) {
+      console.error('Error saving approval policy:', error);
+      toast.error(editingPolicy ? 'Failed to update approval policy' : 'Failed to create approval policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (policy: Policy) => {
+    setEditingPolicy(policy);
+    setFormData({
+      name: policy.name,
+      description: policy.description || '',
+      transferType: policy.transferType || 'any',
+      classification: policy.classification || 'any',
+      mediaType: policy.mediaType || 'any',
+      priority: policy.priority,
+      isActive: policy.isActive,
+      steps: policy.steps,
+    });
+    setShowForm(true);
+    setErrors([]);
+  };
+
+  const handleDelete = async (policy: Policy) => {
+    if (!confirm(`Are you sure you want to delete "${policy.name}"? Requests already in review keep their current approval steps.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/approval-policies/${policy.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete approval policy');
+      }
+
+      toast.success('Approval policy deleted successfully');
+      fetchPolicies();
+    } catch (error) {
+      console.error('Error deleting approval policy:', error);
+      toast.error('Failed to delete approval policy');
+    }
+  };
+
+  const handleCancel = () => {
+    setShowForm(false);
+    setEditingPolicy(null);
+    setFormData(emptyForm);
+    setErrors([]);
+  };
+
+  const updateStep = (index: number, changes: Partial<ApprovalStep>) => {
+    setFormData({
+      ...formData,
+      steps: formData.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+    });
+  };
+
+  const addStep = () => {
+    const nextOrder = Math.max(0, ...formData.steps.map(step => step.order)) + 1;
+    setFormData({
+      ...formData,
+      steps: [...formData.steps, { id: `step-${formData.steps.length + 1}`, name: '', role: 'approver', order: nextOrder, quorum: 1 }],
+    });
+  };
+
+  const removeStep = (index: number) => {
+    setFormData({ ...formData, steps: formData.steps.filter((_, i) => i !== index) });
+  };
+
+  const getRoleLabel = (role: string) => roleOptions.find(option => option.value === role)?.label || role;
+
+  // Group steps by order so parallel steps render together
+  const getStages = (steps: ApprovalStep[]) => {
+    const orders = Array.from(new Set(steps.map(step => step.order))).sort((a, b) => a - b);
+    return orders.map(order => steps.filter(step => step.order === order));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex items-center space-x-2">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span>Loading approval policies...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (showForm) {
+    return (
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <GitBranch className="w-5 h-5" />
+                {editingPolicy ? 'Edit Approval Policy' : 'Create Approval Policy'}
+              </CardTitle>
+              <Button variant="outline" onClick={handleCancel}>
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+            </div>
+            <CardDescription>
+              Steps with the same order run in parallel. Each step needs its quorum of different approvers before the request moves on.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {errors.length > 0 && (
+                <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 dark:border-red-800 dark:bg-red-950 dark:text-red-300">
+                  {errors.map((error, index) => (
+                    <p key={index}>{error}</p>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Policy Name *</Label>
+                  <Input
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="e.g., Two-CPSO review for TOP SECRET"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="priority">Priority</Label>
+                  <Input
+                    id="priority"
+                    type="number"
+                    value={formData.priority}
+                    onChange={(e) => setFormData({ ...formData, priority: parseInt(e.target.value) || 0 })}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    When several policies match, the highest priority wins, then the most specific
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="description">Description</Label>
+                <Textarea
+                  id="description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder="Why this site needs a different approval chain"
+                  rows={2}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Transfer Type</Label>
+                  <Select value={formData.transferType} onValueChange={(value) => setFormData({ ...formData, transferType: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any transfer type</SelectItem>
+                      {TRANSFER_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>{type.toUpperCase()}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Classification</Label>
+                  <Select value={formData.classification} onValueChange={(value) => setFormData({ ...formData, classification: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any classification</SelectItem>
+                      {classificationOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Media Type</Label>
+                  <Select value={formData.mediaType} onValueChange={(value) => setFormData({ ...formData, mediaType: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any media type</SelectItem>
+                      {MEDIA_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>Approval Steps *</Label>
+                  <Button type="button" variant="outline" size="sm" onClick={addStep}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Step
+                  </Button>
+                </div>
+
+                {formData.steps.map((step, index) => (
+                  <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end rounded-md border p-3">
+                    <div className="space-y-1 md:col-span-2">
+                      <Label className="text-xs">Step ID</Label>
+                      <Input value={step.id} onChange={(e) => updateStep(index, { id: e.target.value })} />
+                    </div>
+                    <div className="space-y-1 md:col-span-3">
+                      <Label className="text-xs">Name</Label>
+                      <Input
+                        value={step.name}
+                        onChange={(e) => updateStep(index, { name: e.target.value })}
+                        placeholder="e.g., CPSO Review"
+                      />
+                    </div>
+                    <div className="space-y-1 md:col-span-3">
+                      <Label className="text-xs">Approver Role</Label>
+                      <Select value={step.role} onValueChange={(value) => updateStep(index, { role: value as ApprovalStepRole })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {roleOptions.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1 md:col-span-1">
+                      <Label className="text-xs">Order</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={step.order}
+                        onChange={(e) => updateStep(index, { order: parseInt(e.target.value) || 1 })}
+                      />
+                    </div>
+                    <div className="space-y-1 md:col-span-2">
+                      <Label className="text-xs">Quorum</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={10}
+                        value={step.quorum}
+                        onChange={(e) => updateStep(index, { quorum: parseInt(e.target.value) || 1 })}
+                      />
+                    </div>
+                    <div className="md:col-span-1">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => removeStep(index)}
+                        disabled={formData.steps.length === 1}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="active"
+                  checked={formData.isActive}
+                  onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+                />
+                <Label htmlFor="active">Active</Label>
+              </div>
+
+              <div className="flex items-center justify-end space-x-4">
+                <Button type="button" variant="outline" onClick={handleCancel}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {saving ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      {editingPolicy ? 'Updating...' : 'Creating...'}
+                    </>
+                  ) : (
+                    <>
+                      <Save className="w-4 h-4 mr-2" />
+                      {editingPolicy ? 'Update Policy' : 'Create Policy'}
+                    </>
+                  )}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <GitBranch className="w-5 h-5" />
+                Approval Policies
+              </CardTitle>
+              <CardDescription>
+                Configure the approval chain by transfer type, classification and media type. Requests that match no
+                active policy use the default chain: DAO (HIGH-to-LOW only), then Approver, then CPSO.
+              </CardDescription>
+            </div>
+            <Button onClick={() => setShowForm(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Policy
+            </Button>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <div className="grid gap-4">
+        {policies.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <GitBranch className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium mb-2">No approval policies</h3>
+              <p className="text-muted-foreground mb-4">
+                All requests currently use the default approval chain.
+              </p>
+              <Button onClick={() => setShowForm(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Create First Policy
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          policies.map((policy) => (
+            <Card key={policy.id}>
+              <CardHeader>
+                <div className="flex items-start justify-between">
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <CardTitle className="text-lg">{policy.name}</CardTitle>
+                      {!policy.isActive && (
+                        <Badge variant="secondary">
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          Inactive
+                        </Badge>
+                      )}
+                    </div>
+                    {policy.description && <CardDescription>{policy.description}</CardDescription>}
+                    <div className="flex flex-wrap gap-2">
+                      <Badge variant="outline">{policy.transferType?.toUpperCase() || 'Any transfer type'}</Badge>
+                      <Badge variant="outline">
+                        {classificationOptions.find(option => option.value === policy.classification)?.label || policy.classification || 'Any classification'}
+                      </Badge>
+                      <Badge variant="outline">{policy.mediaType || 'Any media type'}</Badge>
+                      <Badge variant="secondary">Priority {policy.priority}</Badge>
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {getStages(policy.steps).map((stage, index) => (
+                        <span key={index}>
+                          {index > 0 && ' → '}
+                          {stage.map(step => `${step.name || getRoleLabel(step.role)}${step.quorum > 1 ? ` (${step.quorum} approvers)` : ''}`).join(' + ')}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleEdit(policy)}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleDelete(policy)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
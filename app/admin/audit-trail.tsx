@@ -29,7 +29,10 @@ import {
   XCircle,
   Clock,
   Filter,
-  Download
+  Download,
+  ShieldCheck,
+  ShieldAlert,
+  FileKey
 } from 'lucide-react';
 // import { DatePickerWithRange } from '@/components/ui/date-range-picker';
 // import { DateRange } from 'react-day-picker';
@@ -47,11 +50,22 @@ interface AuditLogEntry {
   newStatus?: string;
   changes?: string;
   notes?: string;
+  actorRole?: string;
   ipAddress?: string;
   userAgent?: string;
   timestamp: string;
 }
 
+interface ChainVerification {
+  valid: boolean;
+  totalEntries: number;
+  verifiedEntries: number;
+  headHash: string;
+  firstBrokenLink: { entryId: number; reason: string } | null;
+  signingKeyFingerprint: string;
+  verifiedAt: string;
+}
+
 interface AuditFilters {
   search: string;
   action: string;
@@ -66,6 +80,8 @@ export function AuditTrail() {
   const [loading, setLoading] = useState(true);
   const [users, setUsers] = useState<Array<{id: number, name: string}>>([]);
   const [actions, setActions] = useState<string[]>([]);
+  const [verification, setVerification] = useState<ChainVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
   
   const [filters, setFilters] = useState<AuditFilters>({
     search: '',
@@ -116,7 +132,8 @@ export function AuditTrail() {
         log.userEmail.toLowerCase().includes(searchTerm) ||
         (log.requestNumber && log.requestNumber.toLowerCase().includes(searchTerm)) ||
         log.action.toLowerCase().includes(searchTerm) ||
-        (log.notes && log.notes.toLowerCase().includes(searchTerm))
+        (log.notes && log.notes.toLowerCase().includes(searchTerm)) ||
+        (log.ipAddress && log.ipAddress.includes(searchTerm))
       );
     }
 
@@ -208,6 +225,40 @@ export function AuditTrail() {
     }
   };
 
+  const verifyChain = async () => {
+    try {
+      setVerifying(true);
+      const response = await fetch('/api/admin/audit-logs/verify');
+      if (response.ok) {
+        setVerification(await response.json());
+      }
+    } catch (error) {
+      console.error('Error verifying audit log:', error);
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const exportSignedAuditLog = async () => {
+    try {
+      const response = await fetch('/api/admin/audit-logs/signed-export');
+
+      if (response.ok) {
+        const blob = await response.blob();
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `aft-audit-log-${new Date().toISOString().split('T')[0]}.json`;
+        document.body.appendChild(a);
+        a.click();
+        window.URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+      }
+    } catch (error) {
+      console.error('Error exporting signed audit log:', error);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -223,12 +274,52 @@ export function AuditTrail() {
           <h2 className="text-2xl font-bold">Audit Trail</h2>
           <p className="text-muted-foreground">Complete system activity and change log</p>
         </div>
-        <Button onClick={exportAuditLog} variant="outline" size="sm">
-          <Download className="w-4 h-4 mr-2" />
-          Export CSV
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button onClick={verifyChain} variant="outline" size="sm" disabled={verifying}>
+            <ShieldCheck className="w-4 h-4 mr-2" />
+            {verifying ? 'Verifying...' : 'Verify Integrity'}
+          </Button>
+          <Button onClick={exportSignedAuditLog} variant="outline" size="sm">
+            <FileKey className="w-4 h-4 mr-2" />
+            Signed Export
+          </Button>
+          <Button onClick={exportAuditLog} variant="outline" size="sm">
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
       </div>
 
+      {verification && (
+        <Card className={verification.valid ? 'border-green-300' : 'border-destructive'}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {verification.valid ? (
+                <ShieldCheck className="w-5 h-5 text-green-600" />
+              ) : (
+                <ShieldAlert className="w-5 h-5 text-destructive" />
+              )}
+              {verification.valid ? 'Audit log chain is intact' : 'Audit log chain is broken'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            <p>
+              {verification.verifiedEntries} of {verification.totalEntries} entries verified
+              {' '}at {formatTimestamp(verification.verifiedAt)}
+            </p>
+            {verification.firstBrokenLink && (
+              <p className="text-destructive font-medium">
+                First broken link at entry #{verification.firstBrokenLink.entryId}: {verification.firstBrokenLink.reason}
+              </p>
+            )}
+            <p className="font-mono text-xs break-all text-muted-foreground">Head hash: {verification.headHash}</p>
+            <p className="font-mono text-xs break-all text-muted-foreground">
+              Export signing key: {verification.signingKeyFingerprint}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Advanced Filters */}
       <Card>
         <CardHeader>
@@ -354,7 +445,14 @@ export function AuditTrail() {
                     <div>
                       <div className="font-medium text-sm">{log.userName}</div>
                       <div className="text-xs text-muted-foreground">{log.userEmail}</div>
-                      <div className="text-xs text-muted-foreground/70">{log.userRole}</div>
+                      <div className="text-xs text-muted-foreground/70">
+                        {log.actorRole ? `acting as ${log.actorRole}` : log.userRole}
+                      </div>
+                      {log.ipAddress && (
+                        <div className="text-xs text-muted-foreground/70 font-mono" title={log.userAgent}>
+                          {log.ipAddress}
+                        </div>
+                      )}
                     </div>
                   </TableCell>
                   <TableCell>
@@ -0,0 +1,431 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Save,
+  X,
+  Server,
+  Loader2,
+  AlertTriangle
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { CLASSIFICATIONS, getClassificationLabel } from '@/lib/classifications';
+
+interface InformationSystem {
+  id: number;
+  name: string;
+  atoId: string;
+  classification: string;
+  issmId: number | null;
+  issmFirstName: string | null;
+  issmLastName: string | null;
+  allowOutbound: boolean;
+  allowInbound: boolean;
+  isActive: boolean;
+  updatedAt: string;
+}
+
+interface SystemForm {
+  name: string;
+  atoId: string;
+  classification: string;
+  issmId: string;
+  allowOutbound: boolean;
+  allowInbound: boolean;
+  isActive: boolean;
+}
+
+interface IssmOption {
+  id: number;
+  firstName: string;
+  lastName: string;
+  email: string;
+  isActive: boolean;
+  primaryRole: string;
+  roles: string[];
+}
+
+const emptyForm: SystemForm = {
+  name: '',
+  atoId: '',
+  classification: '',
+  issmId: 'none',
+  allowOutbound: true,
+  allowInbound: true,
+  isActive: true,
+};
+
+export function InformationSystemsManagement() {
+  const [systems, setSystems] = useState<InformationSystem[]>([]);
+  const [issmOptions, setIssmOptions] = useState<IssmOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingSystem, setEditingSystem] = useState<InformationSystem | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<SystemForm>(emptyForm);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetchSystems();
+    fetchIssmOptions();
+  }, []);
+
+  const fetchSystems = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/information-systems');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch information systems');
+      }
+
+      const data = await response.json();
+      setSystems(data.systems);
+    } catch (error) {
+      console.error('Error fetching information systems:', error);
+      toast.error('Failed to load information systems');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // ISSMs hold the approver role
+  const fetchIssmOptions = async () => {
+    try {
+      const response = await fetch('/api/users');
+      if (response.ok) {
+        const users: IssmOption[] = await response.json();
+        setIssmOptions(users.filter(user =>
+          user.isActive && (user.primaryRole === 'approver' || user.roles.includes('approver'))
+        ));
+      }
+    } catch (error) {
+      console.error('Error fetching ISSM users:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      const url = editingSystem ? `/api/admin/information-systems/${editingSystem.id}` : '/api/admin/information-systems';
+      const method = editingSystem ? 'PUT' : 'POST';
+
+      const payload = {
+        ...formData,
+        issmId: formData.issmId === 'none' ? null : parseInt(formData.issmId),
+      };
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        setErrors(error.details || [error.error]);
+        return;
+      }
+
+      toast.success(editingSystem ? 'Information system updated successfully' : 'Information system created successfully');
+      handleCancel();
+      fetchSystems();
+    } catch (error) {
+      console.error('Error saving information system:', error);
+      toast.error(editingSystem ? 'Failed to update information system' : 'Failed to create information system');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (system: InformationSystem) => {
+    setEditingSystem(system);
+    setFormData({
+      name: system.name,
+      atoId: system.atoId,
+      classification: system.classification,
+      issmId: system.issmId ? system.issmId.toString() : 'none',
+      allowOutbound: system.allowOutbound,
+      allowInbound: system.allowInbound,
+      isActive: system.isActive,
+    });
+    setShowForm(true);
+    setErrors([]);
+  };
+
+  const handleDelete = async (system: InformationSystem) => {
+    if (!confirm(`Are you sure you want to delete "${system.name}"?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/information-systems/${system.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to delete information system');
+        return;
+      }
+
+      toast.success('Information system deleted successfully');
+      fetchSystems();
+    } catch (error) {
+      console.error('Error deleting information system:', error);
+      toast.error('Failed to delete information system');
+    }
+  };
+
+  const handleCancel = () => {
+    setShowForm(false);
+    setEditingSystem(null);
+    setFormData(emptyForm);
+    setErrors([]);
+  };
+
+  const getDirectionsLabel = (system: InformationSystem) => {
+    if (system.allowOutbound && system.allowInbound) return 'Inbound and outbound';
+    return system.allowOutbound ? 'Outbound only' : 'Inbound only';
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex items-center space-x-2">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span>Loading information systems...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (showForm) {
+    return (
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <Server className="w-5 h-5" />
+                {editingSystem ? 'Edit Information System' : 'Add Information System'}
+              </CardTitle>
+              <Button variant="outline" onClick={handleCancel}>
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+            </div>
+            <CardDescription>
+              The classification set here decides the transfer type of every request between this system and another.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {errors.length > 0 && (
+                <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 dark:border-red-800 dark:bg-red-950 dark:text-red-300">
+                  {errors.map((error, index) => (
+                    <p key={index}>{error}</p>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">System Name *</Label>
+                  <Input
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="e.g., SIPRNet Enclave A"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="atoId">ATO ID *</Label>
+                  <Input
+                    id="atoId"
+                    value={formData.atoId}
+                    onChange={(e) => setFormData({ ...formData, atoId: e.target.value })}
+                    placeholder="e.g., eMASS 12345"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Classification *</Label>
+                  <Select value={formData.classification} onValueChange={(value) => setFormData({ ...formData, classification: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select classification" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CLASSIFICATIONS.map((classification) => (
+                        <SelectItem key={classification} value={classification}>{getClassificationLabel(classification)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Owning ISSM</Label>
+                  <Select value={formData.issmId} onValueChange={(value) => setFormData({ ...formData, issmId: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not assigned</SelectItem>
+                      {issmOptions.map((issm) => (
+                        <SelectItem key={issm.id} value={issm.id.toString()}>
+                          {issm.firstName} {issm.lastName} ({issm.email})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-6">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="allowOutbound"
+                    checked={formData.allowOutbound}
+                    onCheckedChange={(checked) => setFormData({ ...formData, allowOutbound: checked })}
+                  />
+                  <Label htmlFor="allowOutbound">Allow as source (outbound)</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="allowInbound"
+                    checked={formData.allowInbound}
+                    onCheckedChange={(checked) => setFormData({ ...formData, allowInbound: checked })}
+                  />
+                  <Label htmlFor="allowInbound">Allow as destination (inbound)</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="active"
+                    checked={formData.isActive}
+                    onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+                  />
+                  <Label htmlFor="active">Active</Label>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-end space-x-4">
+                <Button type="button" variant="outline" onClick={handleCancel}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {saving ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      {editingSystem ? 'Updating...' : 'Creating...'}
+                    </>
+                  ) : (
+                    <>
+                      <Save className="w-4 h-4 mr-2" />
+                      {editingSystem ? 'Update System' : 'Add System'}
+                    </>
+                  )}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Server className="w-5 h-5" />
+                Information Systems
+              </CardTitle>
+              <CardDescription>
+                The systems requestors and media custodians can choose as a transfer source or destination. Inactive
+                systems stay on existing requests but cannot be selected for new ones.
+              </CardDescription>
+            </div>
+            <Button onClick={() => setShowForm(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              New System
+            </Button>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <div className="grid gap-4">
+        {systems.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <Server className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium mb-2">No information systems</h3>
+              <p className="text-muted-foreground mb-4">
+                Requests cannot be created until at least two systems are in the catalog.
+              </p>
+              <Button onClick={() => setShowForm(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add First System
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          systems.map((system) => (
+            <Card key={system.id}>
+              <CardHeader>
+                <div className="flex items-start justify-between">
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <CardTitle className="text-lg">{system.name}</CardTitle>
+                      {!system.isActive && (
+                        <Badge variant="secondary">
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          Inactive
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <Badge variant="outline">{getClassificationLabel(system.classification)}</Badge>
+                      <Badge variant="outline">ATO {system.atoId}</Badge>
+                      <Badge variant="secondary">{getDirectionsLabel(system)}</Badge>
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      ISSM: {system.issmId ? `${system.issmFirstName} ${system.issmLastName}` : 'Not assigned'}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleEdit(system)}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleDelete(system)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,10 @@ import { AuditTrail } from '@/app/admin/audit-trail';
 import { RequestLifecycle } from '@/app/admin/request-lifecycle';
 import { SystemMonitoring } from '@/app/admin/system-monitoring';
 import { UserGuidesManagement } from '@/app/admin/user-guides-management';
+import { ApprovalPoliciesManagement } from '@/app/admin/approval-policies-management';
+import { InformationSystemsManagement } from '@/app/admin/information-systems-management';
+import { RevocationManagement } from '@/app/admin/revocation-management';
+import { TrustStoreManagement } from '@/app/admin/trust-store-management';
 import { useSearchParams } from 'next/navigation';
 import { Suspense } from 'react';
 
@@ -22,6 +26,14 @@ function AdminContent() {
         return <UserManagement />;
       case 'user-guides':
         return <UserGuidesManagement />;
+      case 'approval-policies':
+        return <ApprovalPoliciesManagement />;
+      case 'information-systems':
+        return <InformationSystemsManagement />;
+      case 'trust-store':
+        return <TrustStoreManagement />;
+      case 'revocation':
+        return <RevocationManagement />;
       case 'admin-requests':
         return (
           <div className="space-y-6">
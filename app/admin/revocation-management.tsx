@@ -0,0 +1,261 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Upload,
+  Trash2,
+  FolderSync,
+  ShieldOff,
+  Loader2,
+  AlertTriangle
+} from 'lucide-react';
+import { toast } from 'sonner';
+
+interface CachedCrl {
+  id: number;
+  issuerDN: string;
+  crlNumber: string | null;
+  thisUpdate: string;
+  nextUpdate: string | null;
+  revokedCount: number;
+  source: string;
+  fileName: string | null;
+  createdAt: string;
+  isExpired: boolean;
+}
+
+interface RevocationConfig {
+  ocspEnabled: boolean;
+  ocspResponderUrl: string | null;
+  crlDirectory: string | null;
+  requireRevocationCheck: boolean;
+}
+
+export function RevocationManagement() {
+  const [crls, setCrls] = useState<CachedCrl[]>([]);
+  const [config, setConfig] = useState<RevocationConfig | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetchCrls();
+  }, []);
+
+  const fetchCrls = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/crls');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch CRLs');
+      }
+
+      const data = await response.json();
+      setCrls(data.crls);
+      setConfig(data.config);
+    } catch (error) {
+      console.error('Error fetching CRLs:', error);
+      toast.error('Failed to load certificate revocation lists');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setUploading(true);
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/admin/crls', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to import CRL');
+        return;
+      }
+
+      toast.success(data.status === 'duplicate' ? 'This CRL is already loaded' : 'CRL imported successfully');
+      fetchCrls();
+    } catch (error) {
+      console.error('Error importing CRL:', error);
+      toast.error('Failed to import CRL');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleScan = async () => {
+    try {
+      setScanning(true);
+      const response = await fetch('/api/admin/crls/scan', { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to scan CRL directory');
+        return;
+      }
+
+      if (data.errors.length > 0) {
+        toast.error(`${data.errors.length} file(s) could not be imported: ${data.errors.map((e: { fileName: string }) => e.fileName).join(', ')}`);
+      }
+      toast.success(`Directory scan complete - ${data.imported} imported, ${data.duplicates} already loaded`);
+      fetchCrls();
+    } catch (error) {
+      console.error('Error scanning CRL directory:', error);
+      toast.error('Failed to scan CRL directory');
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const handleDelete = async (crl: CachedCrl) => {
+    if (!confirm(`Remove the CRL for "${crl.issuerDN}"? Certificates from this issuer will have an unknown revocation status until a new CRL is imported.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/crls/${crl.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete CRL');
+      }
+
+      toast.success('CRL removed successfully');
+      fetchCrls();
+    } catch (error) {
+      console.error('Error deleting CRL:', error);
+      toast.error('Failed to remove CRL');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex items-center space-x-2">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span>Loading revocation lists...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldOff className="w-5 h-5" />
+                Certificate Revocation
+              </CardTitle>
+              <CardDescription>
+                Import CRLs published by the CAs in the trust store. Signatures from revoked CAC certificates are refused,
+                and CRLs are cached locally so revocation checks work without network access.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={handleScan} disabled={scanning || !config?.crlDirectory}>
+                {scanning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FolderSync className="w-4 h-4 mr-2" />}
+                Scan Directory
+              </Button>
+              <Button onClick={() => fileInputRef.current?.click()} disabled={uploading}>
+                {uploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+                Import CRL
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".crl,.der,.pem"
+                className="hidden"
+                onChange={handleUpload}
+              />
+            </div>
+          </div>
+        </CardHeader>
+        {config && (
+          <CardContent>
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant={config.ocspEnabled ? 'default' : 'secondary'}>
+                {config.ocspEnabled ? `OCSP: ${config.ocspResponderUrl}` : 'OCSP disabled (offline mode)'}
+              </Badge>
+              <Badge variant="outline">
+                {config.crlDirectory ? `CRL directory: ${config.crlDirectory}` : 'No CRL directory configured'}
+              </Badge>
+              <Badge variant={config.requireRevocationCheck ? 'destructive' : 'outline'}>
+                {config.requireRevocationCheck ? 'Unknown revocation status is rejected' : 'Unknown revocation status is allowed'}
+              </Badge>
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      <div className="grid gap-4">
+        {crls.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <ShieldOff className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium mb-2">No revocation lists loaded</h3>
+              <p className="text-muted-foreground mb-4">
+                Without a CRL the revocation status of CAC certificates cannot be determined.
+              </p>
+              <Button onClick={() => fileInputRef.current?.click()}>
+                <Upload className="w-4 h-4 mr-2" />
+                Import First CRL
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          crls.map((crl) => (
+            <Card key={crl.id}>
+              <CardHeader>
+                <div className="flex items-start justify-between">
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <CardTitle className="text-lg break-all">{crl.issuerDN}</CardTitle>
+                      {crl.isExpired && (
+                        <Badge variant="destructive">
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          Expired
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <Badge variant="outline">{crl.revokedCount} revoked</Badge>
+                      {crl.crlNumber && <Badge variant="outline">CRL #{crl.crlNumber}</Badge>}
+                      <Badge variant="secondary">
+                        {crl.source === 'directory' ? 'From directory' : 'Uploaded'}{crl.fileName ? `: ${crl.fileName}` : ''}
+                      </Badge>
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      Issued {new Date(crl.thisUpdate).toLocaleString()}
+                      {crl.nextUpdate && ` · Next update ${new Date(crl.nextUpdate).toLocaleString()}`}
+                    </div>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => handleDelete(crl)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </CardHeader>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -19,6 +19,7 @@ import {
   Zap,
   Shield
 } from 'lucide-react';
+import { passiveRequestInit } from '@/lib/session-policy';
 
 interface SystemHealth {
   overall: 'healthy' | 'warning' | 'critical';
@@ -71,7 +72,7 @@ export function SystemMonitoring() {
 
   const fetchSystemHealth = async () => {
     try {
-      const response = await fetch('/api/admin/system-health');
+      const response = await fetch('/api/admin/system-health', passiveRequestInit);
       if (response.ok) {
         const data = await response.json();
         setSystemHealth(data);
@@ -85,7 +86,7 @@ export function SystemMonitoring() {
 
   const fetchRealtimeStats = async () => {
     try {
-      const response = await fetch('/api/admin/realtime-stats');
+      const response = await fetch('/api/admin/realtime-stats', passiveRequestInit);
       if (response.ok) {
         // const data = await response.json();
         // For now, we don't need to store realtime stats
@@ -0,0 +1,368 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Upload,
+  Trash2,
+  Eye,
+  KeyRound,
+  Loader2,
+  AlertTriangle
+} from 'lucide-react';
+import { toast } from 'sonner';
+
+interface TrustedCertificate {
+  id: number;
+  certificateName: string;
+  certificateThumbprint: string;
+  subjectDN: string;
+  issuerDN: string;
+  notBefore: string;
+  notAfter: string;
+  isActive: boolean;
+  isRootCA: boolean;
+  serialNumber: string | null;
+  isDoD: boolean;
+  isSelfSigned: boolean;
+  isCertificateAuthority: boolean;
+  daysUntilExpiry: number;
+  expiryStatus: 'valid' | 'expiring' | 'expired';
+}
+
+interface CertificateDetails {
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  notBefore: string;
+  notAfter: string;
+  isDoD: boolean;
+  dodComponent?: string;
+  isSelfSigned: boolean;
+  isCertificateAuthority: boolean;
+  certificatePem: string;
+}
+
+export function TrustStoreManagement() {
+  const [certificates, setCertificates] = useState<TrustedCertificate[]>([]);
+  const [expiryWarningDays, setExpiryWarningDays] = useState(90);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [selected, setSelected] = useState<TrustedCertificate | null>(null);
+  const [details, setDetails] = useState<CertificateDetails | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetchCertificates();
+  }, []);
+
+  const fetchCertificates = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/trust-store');
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch trust store');
+      }
+
+      const data = await response.json();
+      setCertificates(data.certificates);
+      setExpiryWarningDays(data.expiryWarningDays);
+    } catch (error) {
+      console.error('Error fetching trust store:', error);
+      toast.error('Failed to load trust store');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setUploading(true);
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/admin/trust-store', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to import certificates');
+        return;
+      }
+
+      if (data.imported.length > 0) {
+        toast.success(`Imported ${data.imported.length} certificate(s)`);
+      }
+      for (const skipped of data.skipped as { subject: string; reason: string }[]) {
+        toast.warning(`Skipped ${skipped.subject}: ${skipped.reason}`);
+      }
+      fetchCertificates();
+    } catch (error) {
+      console.error('Error importing certificates:', error);
+      toast.error('Failed to import certificates');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleUpdate = async (certificate: TrustedCertificate, changes: { isActive?: boolean; isRootCA?: boolean }) => {
+    try {
+      const response = await fetch(`/api/admin/trust-store/${certificate.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update certificate');
+      }
+
+      const data = await response.json();
+      setCertificates(certificates.map(cert => (cert.id === certificate.id ? data.certificate : cert)));
+      toast.success('Certificate updated successfully');
+    } catch (error) {
+      console.error('Error updating certificate:', error);
+      toast.error('Failed to update certificate');
+    }
+  };
+
+  const handleDelete = async (certificate: TrustedCertificate) => {
+    if (!confirm(`Remove "${certificate.certificateName}" from the trust store? Signatures that chain to it will no longer verify.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/trust-store/${certificate.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete certificate');
+      }
+
+      toast.success('Certificate removed successfully');
+      fetchCertificates();
+    } catch (error) {
+      console.error('Error deleting certificate:', error);
+      toast.error('Failed to remove certificate');
+    }
+  };
+
+  const handleView = async (certificate: TrustedCertificate) => {
+    setSelected(certificate);
+    setDetails(null);
+
+    try {
+      const response = await fetch(`/api/admin/trust-store/${certificate.id}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch certificate details');
+      }
+
+      const data = await response.json();
+      setDetails(data.details);
+    } catch (error) {
+      console.error('Error fetching certificate details:', error);
+      toast.error('Failed to load certificate details');
+    }
+  };
+
+  const expiringAnchors = certificates.filter(cert => cert.isActive && cert.expiryStatus !== 'valid');
+
+  const getExpiryBadge = (certificate: TrustedCertificate) => {
+    if (certificate.expiryStatus === 'expired') {
+      return <Badge variant="destructive">Expired</Badge>;
+    }
+    if (certificate.expiryStatus === 'expiring') {
+      return (
+        <Badge className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">
+          <AlertTriangle className="w-3 h-3 mr-1" />
+          Expires in {certificate.daysUntilExpiry} days
+        </Badge>
+      );
+    }
+    return null;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex items-center space-x-2">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span>Loading trust store...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <KeyRound className="w-5 h-5" />
+                CAC Trust Store
+              </CardTitle>
+              <CardDescription>
+                Root and intermediate CA certificates used to validate CAC signatures. Upload PEM, DER or PKCS#7
+                (.p7b) files; self-signed certificates are flagged as root CAs automatically.
+              </CardDescription>
+            </div>
+            <Button onClick={() => fileInputRef.current?.click()} disabled={uploading}>
+              {uploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+              Import Certificates
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".pem,.crt,.cer,.der,.p7b,.p7c"
+              className="hidden"
+              onChange={handleUpload}
+            />
+          </div>
+        </CardHeader>
+      </Card>
+
+      {expiringAnchors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {expiringAnchors.length} active certificate(s) expired or expire within {expiryWarningDays} days:{' '}
+            {expiringAnchors.map(cert => cert.certificateName).join(', ')}. Import the replacement certificates before
+            they lapse.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-4">
+        {certificates.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <KeyRound className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-medium mb-2">Trust store is empty</h3>
+              <p className="text-muted-foreground mb-4">
+                CAC signatures cannot be verified until the issuing root CA is imported.
+              </p>
+              <Button onClick={() => fileInputRef.current?.click()}>
+                <Upload className="w-4 h-4 mr-2" />
+                Import First Certificate
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          certificates.map((certificate) => (
+            <Card key={certificate.id}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-2 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <CardTitle className="text-lg">{certificate.certificateName}</CardTitle>
+                      <Badge variant={certificate.isRootCA ? 'default' : 'outline'}>
+                        {certificate.isRootCA ? 'Root CA' : 'Intermediate CA'}
+                      </Badge>
+                      {certificate.isDoD && <Badge variant="secondary">DoD PKI</Badge>}
+                      {!certificate.isActive && <Badge variant="secondary">Inactive</Badge>}
+                      {getExpiryBadge(certificate)}
+                    </div>
+                    <div className="text-sm text-muted-foreground break-all">
+                      <p>Subject: {certificate.subjectDN}</p>
+                      <p>Issuer: {certificate.issuerDN}</p>
+                      <p>
+                        Valid {new Date(certificate.notBefore).toLocaleDateString()} to{' '}
+                        {new Date(certificate.notAfter).toLocaleDateString()}
+                      </p>
+                      <p className="font-mono text-xs">SHA-1 {certificate.certificateThumbprint}</p>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-6 pt-2">
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          id={`active-${certificate.id}`}
+                          checked={certificate.isActive}
+                          onCheckedChange={(checked) => handleUpdate(certificate, { isActive: checked })}
+                        />
+                        <Label htmlFor={`active-${certificate.id}`}>Active</Label>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          id={`root-${certificate.id}`}
+                          checked={certificate.isRootCA}
+                          onCheckedChange={(checked) => handleUpdate(certificate, { isRootCA: checked })}
+                        />
+                        <Label htmlFor={`root-${certificate.id}`}>Trust anchor (root CA)</Label>
+                      </div>
+                      {certificate.isRootCA && !certificate.isSelfSigned && (
+                        <span className="text-xs text-yellow-700 dark:text-yellow-300">
+                          Not self-signed - chains will stop at this certificate
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleView(certificate)}>
+                      <Eye className="w-4 h-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleDelete(certificate)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+            </Card>
+          ))
+        )}
+      </div>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{selected?.certificateName}</DialogTitle>
+            <DialogDescription>Certificate details parsed from the stored certificate</DialogDescription>
+          </DialogHeader>
+          {details ? (
+            <div className="space-y-3 text-sm">
+              <div className="grid grid-cols-3 gap-2 break-all">
+                <span className="font-medium">Subject</span>
+                <span className="col-span-2">{details.subject}</span>
+                <span className="font-medium">Issuer</span>
+                <span className="col-span-2">{details.issuer}</span>
+                <span className="font-medium">Serial Number</span>
+                <span className="col-span-2 font-mono">{details.serialNumber}</span>
+                <span className="font-medium">Valid From</span>
+                <span className="col-span-2">{new Date(details.notBefore).toLocaleString()}</span>
+                <span className="font-medium">Valid To</span>
+                <span className="col-span-2">{new Date(details.notAfter).toLocaleString()}</span>
+                <span className="font-medium">Type</span>
+                <span className="col-span-2">
+                  {details.isCertificateAuthority ? 'CA certificate' : 'End-entity certificate'}
+                  {details.isSelfSigned ? ', self-signed' : ''}
+                  {details.isDoD ? ` (DoD PKI${details.dodComponent ? ` - ${details.dodComponent}` : ''})` : ''}
+                </span>
+              </div>
+              <pre className="max-h-48 overflow-auto rounded bg-muted p-3 text-xs">{details.certificatePem}</pre>
+            </div>
+          ) : (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
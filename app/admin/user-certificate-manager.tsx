@@ -0,0 +1,224 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Upload, Trash2, CreditCard } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+interface User {
+  id: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface BoundCertificate {
+  id: number;
+  certificateThumbprint: string;
+  subjectDN: string;
+  issuerDN: string;
+  serialNumber: string;
+  edipi: string | null;
+  email: string | null;
+  notBefore: string;
+  notAfter: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+  isExpired: boolean;
+}
+
+interface UserCertificateManagerProps {
+  user: User;
+}
+
+export function UserCertificateManager({ user }: UserCertificateManagerProps) {
+  const [certificates, setCertificates] = useState<BoundCertificate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState<number | 'bind' | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchCertificates = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/users/${user.id}/certificates`);
+      if (response.ok) {
+        const data = await response.json();
+        setCertificates(data.certificates);
+      } else {
+        toast.error('Failed to fetch bound certificates');
+      }
+    } catch (error) {
+      console.error('Error fetching bound certificates:', error);
+      toast.error('Error fetching bound certificates');
+    } finally {
+      setLoading(false);
+    }
+  }, [user.id]);
+
+  useEffect(() => {
+    fetchCertificates();
+  }, [fetchCertificates]);
+
+  const bindCertificate = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setActionLoading('bind');
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch(`/api/users/${user.id}/certificates`, {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        toast.success('Certificate bound successfully');
+        if (!data.validation.isValid) {
+          toast.warning(`This certificate will be refused at login until it validates: ${data.validation.error}`);
+        }
+        fetchCertificates();
+      } else {
+        toast.error(data.error || 'Failed to bind certificate');
+      }
+    } catch (error) {
+      console.error('Error binding certificate:', error);
+      toast.error('Error binding certificate');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const unbindCertificate = async (certificate: BoundCertificate) => {
+    try {
+      setActionLoading(certificate.id);
+      const response = await fetch(`/api/users/${user.id}/certificates/${certificate.id}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        toast.success('Certificate unbound successfully');
+        fetchCertificates();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to unbind certificate');
+      }
+    } catch (error) {
+      console.error('Error unbinding certificate:', error);
+      toast.error('Error unbinding certificate');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <CreditCard className="w-5 h-5" />
+            CAC Certificates for {user.firstName} {user.lastName}
+          </CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Bound certificates sign in with CAC login. A reissued CAC with the same EDIPI is accepted automatically.
+          </p>
+        </div>
+        <Button size="sm" onClick={() => fileInputRef.current?.click()} disabled={actionLoading === 'bind'}>
+          <Upload className="w-4 h-4 mr-2" />
+          {actionLoading === 'bind' ? 'Binding...' : 'Bind Certificate'}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".pem,.crt,.cer,.der"
+          className="hidden"
+          onChange={bindCertificate}
+        />
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : certificates.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <CreditCard className="w-12 h-12 mx-auto mb-4 text-muted-foreground/50" />
+            <p>No certificates bound</p>
+            <p className="text-sm">CAC login matches this account by the email address on the certificate: {user.email}</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-2">
+            {certificates.map((certificate) => (
+              <div
+                key={certificate.id}
+                className="flex items-start justify-between p-3 border rounded-lg gap-3"
+              >
+                <div className="space-y-1 min-w-0 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium break-all">{certificate.subjectDN}</span>
+                    {certificate.edipi && <Badge variant="outline">EDIPI {certificate.edipi}</Badge>}
+                    {certificate.isExpired && <Badge variant="destructive">Expired</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground break-all">Issuer: {certificate.issuerDN}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Valid to {new Date(certificate.notAfter).toLocaleDateString()}
+                    {' · '}
+                    {certificate.lastUsedAt
+                      ? `Last used ${new Date(certificate.lastUsedAt).toLocaleString()}`
+                      : 'Never used'}
+                  </p>
+                </div>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-600 hover:text-red-700"
+                      disabled={actionLoading === certificate.id}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Unbind Certificate</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        This certificate will no longer sign in as {user.email}. Other certificates with the same EDIPI
+                        are only accepted while another certificate for it remains bound.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => unbindCertificate(certificate)}
+                        className="bg-red-600 hover:bg-red-700"
+                      >
+                        Unbind
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -267,6 +267,28 @@ export function UserGuidesManagement() {
     }
   };
 
+  const handleTogglePublish = async (guide: Guide) => {
+    try {
+      const response = await fetch(`/api/user-guides/${guide.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ isPublished: !guide.isPublished }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update guide');
+      }
+
+      toast.success(guide.isPublished ? 'Guide unpublished' : 'Guide published');
+      fetchGuides();
+    } catch (error) {
+      console.error('Error publishing guide:', error);
+      toast.error(guide.isPublished ? 'Failed to unpublish guide' : 'Failed to publish guide');
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       id: '',
@@ -549,6 +571,9 @@ export function UserGuidesManagement() {
                         <Eye className="w-4 h-4" />
                       </a>
                     </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleTogglePublish(guide)}>
+                      {guide.isPublished ? 'Unpublish' : 'Publish'}
+                    </Button>
                     <Button variant="outline" size="sm" onClick={() => handleEdit(guide)}>
                       <Edit className="w-4 h-4" />
                     </Button>
@@ -25,6 +25,7 @@ import {
   Form,
   FormControl,
   FormField,
+  FormDescription,
   FormItem,
   FormLabel,
   FormMessage,
@@ -37,7 +38,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Plus, Edit, Trash2, UserCheck, UserX, Shield, Archive, RotateCcw } from 'lucide-react';
+import { Plus, Edit, Trash2, UserCheck, UserX, Shield, Archive, RotateCcw, CreditCard, MonitorSmartphone, Unlock, KeyRound } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -54,6 +55,10 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { UserRoleManager } from '@/app/admin/user-role-manager';
+import { UserCertificateManager } from '@/app/admin/user-certificate-manager';
+import { UserSessionManager } from '@/app/admin/user-session-manager';
+import { LoginHistory } from '@/components/login-history';
+import { PASSWORD_REQUIREMENTS, passwordSchema } from '@/lib/login-security';
 
 interface User {
   id: number;
@@ -65,13 +70,16 @@ interface User {
   organization?: string;
   phone?: string;
   isActive: boolean;
+  isLocked?: boolean;
+  lockedUntil?: string | null;
+  mfaEnabled?: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
 const createUserSchema = z.object({
   email: z.string().email('Invalid email address'),
-  password: z.string().min(8, 'Password must be at least 8 characters'),
+  password: passwordSchema,
   firstName: z.string().min(1, 'First name is required'),
   lastName: z.string().min(1, 'Last name is required'),
   primaryRole: z.enum(['admin', 'requestor', 'dao', 'approver', 'cpso', 'dta', 'sme', 'media_custodian'], {
@@ -86,7 +94,7 @@ type CreateUserFormValues = z.infer<typeof createUserSchema>;
 
 const editUserSchema = z.object({
   email: z.string().email('Invalid email address'),
-  password: z.string().optional().or(z.string().min(8, 'Password must be at least 8 characters')),
+  password: passwordSchema.optional().or(z.literal('')),
   firstName: z.string().min(1, 'First name is required'),
   lastName: z.string().min(1, 'Last name is required'),
   primaryRole: z.enum(['admin', 'requestor', 'dao', 'approver', 'cpso', 'dta', 'sme', 'media_custodian'], {
@@ -108,6 +116,10 @@ export function UserManagement() {
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [roleManagerOpen, setRoleManagerOpen] = useState(false);
   const [roleManagerUser, setRoleManagerUser] = useState<User | null>(null);
+  const [certificateManagerOpen, setCertificateManagerOpen] = useState(false);
+  const [certificateManagerUser, setCertificateManagerUser] = useState<User | null>(null);
+  const [sessionManagerOpen, setSessionManagerOpen] = useState(false);
+  const [sessionManagerUser, setSessionManagerUser] = useState<User | null>(null);
   const [actionLoading, setActionLoading] = useState<number | null>(null);
 
   const form = useForm<CreateUserFormValues>({
@@ -248,6 +260,18 @@ export function UserManagement() {
     setRoleManagerOpen(true);
   };
 
+  // Open CAC certificate bindings
+  const handleManageCertificates = (user: User) => {
+    setCertificateManagerUser(user);
+    setCertificateManagerOpen(true);
+  };
+
+  // Open active sessions
+  const handleManageSessions = (user: User) => {
+    setSessionManagerUser(user);
+    setSessionManagerOpen(true);
+  };
+
   // Toggle user status
   const toggleUserStatus = async (userId: number, newStatus: boolean) => {
     try {
@@ -274,6 +298,50 @@ export function UserManagement() {
     }
   };
 
+  // Lift a lockout from failed sign-ins
+  const unlockUser = async (userId: number) => {
+    try {
+      setActionLoading(userId);
+      const response = await fetch(`/api/users/${userId}/unlock`, {
+        method: 'POST',
+      });
+
+      if (response.ok) {
+        toast.success('User unlocked successfully');
+        fetchUsers();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to unlock user');
+      }
+    } catch {
+      toast.error('Error unlocking user');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  // Remove a user's authenticator so they can enroll again after losing their device
+  const resetUserMfa = async (userId: number) => {
+    try {
+      setActionLoading(userId);
+      const response = await fetch(`/api/users/${userId}/mfa`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        toast.success('MFA reset successfully');
+        fetchUsers();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to reset MFA');
+      }
+    } catch {
+      toast.error('Error resetting MFA');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   // Archive user (soft delete)
   const archiveUser = async (userId: number) => {
     try {
@@ -391,6 +459,7 @@ export function UserManagement() {
                           <FormControl>
                             <Input type="password" placeholder="••••••••" {...field} />
                           </FormControl>
+                          <FormDescription>{PASSWORD_REQUIREMENTS}. The user must change it at first sign-in.</FormDescription>
                           <FormMessage />
                         </FormItem>
                       )}
@@ -522,6 +591,7 @@ export function UserManagement() {
                           <FormControl>
                             <Input type="password" placeholder="Leave blank to keep current" {...field} />
                           </FormControl>
+                          <FormDescription>{PASSWORD_REQUIREMENTS}. A new password must be changed at the next sign-in.</FormDescription>
                           <FormMessage />
                         </FormItem>
                       )}
@@ -660,9 +730,22 @@ export function UserManagement() {
                   </TableCell>
                   <TableCell>{user.organization || '-'}</TableCell>
                   <TableCell>
-                    <Badge variant={user.isActive ? 'default' : 'secondary'}>
-                      {user.isActive ? 'Active' : 'Inactive'}
-                    </Badge>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant={user.isActive ? 'default' : 'secondary'}>
+                        {user.isActive ? 'Active' : 'Inactive'}
+                      </Badge>
+                      {user.isLocked && (
+                        <Badge
+                          variant="destructive"
+                          title={user.lockedUntil ? `Unlocks ${new Date(user.lockedUntil).toLocaleString()}` : 'Locked until an administrator unlocks it'}
+                        >
+                          Locked
+                        </Badge>
+                      )}
+                      {user.mfaEnabled && (
+                        <Badge variant="outline">MFA</Badge>
+                      )}
+                    </div>
                   </TableCell>
                   <TableCell>
                     {new Date(user.createdAt).toLocaleDateString()}
@@ -686,6 +769,66 @@ export function UserManagement() {
                       >
                         <Shield className="w-4 h-4" />
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleManageCertificates(user)}
+                        disabled={actionLoading === user.id}
+                        title="CAC Certificates"
+                      >
+                        <CreditCard className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleManageSessions(user)}
+                        disabled={actionLoading === user.id}
+                        title="Sessions & Login History"
+                      >
+                        <MonitorSmartphone className="w-4 h-4" />
+                      </Button>
+                      {user.isLocked && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => unlockUser(user.id)}
+                          disabled={actionLoading === user.id}
+                          title="Unlock Account"
+                        >
+                          <Unlock className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {user.mfaEnabled && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={actionLoading === user.id}
+                              title="Reset MFA"
+                            >
+                              <KeyRound className="w-4 h-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Reset MFA?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                This removes {user.firstName} {user.lastName}&apos;s authenticator and recovery codes.
+                                Confirm their identity before continuing. If their role requires MFA, they will
+                                set it up again at their next sign-in.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => resetUserMfa(user.id)}>
+                                <KeyRound className="w-4 h-4 mr-2" />
+                                Reset MFA
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
                       <Button
                         variant="outline"
                         size="sm"
@@ -842,7 +985,7 @@ export function UserManagement() {
       {/* Role Manager Dialog */}
       {roleManagerUser && (
         <Dialog open={roleManagerOpen} onOpenChange={setRoleManagerOpen}>
-          <DialogContent className="sm:max-w-[600px]">
+          <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
             <UserRoleManager 
               user={roleManagerUser} 
               onUpdate={fetchUsers}
@@ -850,6 +993,28 @@ export function UserManagement() {
           </DialogContent>
         </Dialog>
       )}
+
+      {/* CAC Certificate Dialog */}
+      {certificateManagerUser && (
+        <Dialog open={certificateManagerOpen} onOpenChange={setCertificateManagerOpen}>
+          <DialogContent className="sm:max-w-[700px]">
+            <UserCertificateManager user={certificateManagerUser} />
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {/* Sessions Dialog */}
+      {sessionManagerUser && (
+        <Dialog open={sessionManagerOpen} onOpenChange={setSessionManagerOpen}>
+          <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+            <UserSessionManager user={sessionManagerUser} />
+            <div className="space-y-2">
+              <h3 className="font-medium">Login History</h3>
+              <LoginHistory endpoint={`/api/users/${sessionManagerUser.id}/login-history`} />
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
     </div>
   );
 }
\ No newline at end of file
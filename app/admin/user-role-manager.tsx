@@ -20,7 +20,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Plus, Trash2, Shield } from 'lucide-react';
+import { Plus, Trash2, Shield, CalendarClock } from 'lucide-react';
 import { toast } from 'sonner';
 import {
   AlertDialog,
@@ -33,6 +33,7 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
+import { RoleDelegations } from '@/components/role-delegations';
 
 interface User {
   id: number;
@@ -50,6 +51,8 @@ interface UserRole {
   role: string;
   isActive: boolean;
   assignedBy: number;
+  delegatedFromUserId: number | null;
+  expiresAt: string | null;
   createdAt: string;
 }
 
@@ -270,6 +273,11 @@ export function UserRoleManager({ user, onUpdate }: UserRoleManagerProps) {
                             Primary
                           </Badge>
                         )}
+                        {userRole.delegatedFromUserId && (
+                          <Badge variant="outline" className="text-xs">
+                            Delegated{userRole.expiresAt && ` until ${new Date(userRole.expiresAt).toLocaleString()}`}
+                          </Badge>
+                        )}
                       </div>
                       <div className="flex items-center space-x-2">
                         <span className="text-xs text-muted-foreground">
@@ -323,6 +331,14 @@ export function UserRoleManager({ user, onUpdate }: UserRoleManagerProps) {
             )}
           </div>
         )}
+
+        <div className="mt-6 space-y-2">
+          <h3 className="font-medium flex items-center">
+            <CalendarClock className="w-4 h-4 mr-2" />
+            Delegations
+          </h3>
+          <RoleDelegations userId={user.id} roles={user.roles || [user.role]} />
+        </div>
       </CardContent>
     </Card>
   );
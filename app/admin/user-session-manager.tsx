@@ -0,0 +1,168 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { LogOut, MonitorSmartphone } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+interface User {
+  id: number;
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface ActiveSession {
+  id: number;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastActivityAt: string;
+  expiresAt: string;
+  consentAcknowledgedAt: string | null;
+}
+
+interface SessionConfig {
+  idleTimeoutMinutes: number;
+  maxLifetimeHours: number;
+  maxConcurrentSessions: number;
+}
+
+interface UserSessionManagerProps {
+  user: User;
+}
+
+export function UserSessionManager({ user }: UserSessionManagerProps) {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [config, setConfig] = useState<SessionConfig | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [terminating, setTerminating] = useState(false);
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/users/${user.id}/sessions`);
+      if (response.ok) {
+        const data = await response.json();
+        setSessions(data.sessions);
+        setConfig(data.config);
+      } else {
+        toast.error('Failed to fetch sessions');
+      }
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+      toast.error('Error fetching sessions');
+    } finally {
+      setLoading(false);
+    }
+  }, [user.id]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const terminateAll = async () => {
+    try {
+      setTerminating(true);
+      const response = await fetch(`/api/users/${user.id}/sessions`, { method: 'DELETE' });
+      const data = await response.json();
+      if (response.ok) {
+        toast.success(`${data.terminated} session(s) terminated`);
+        fetchSessions();
+      } else {
+        toast.error(data.error || 'Failed to terminate sessions');
+      }
+    } catch (error) {
+      console.error('Error terminating sessions:', error);
+      toast.error('Error terminating sessions');
+    } finally {
+      setTerminating(false);
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <MonitorSmartphone className="w-5 h-5" />
+            Sessions for {user.firstName} {user.lastName}
+          </CardTitle>
+          {config && (
+            <p className="text-sm text-muted-foreground mt-1">
+              Sessions end after {config.idleTimeoutMinutes} minutes idle or {config.maxLifetimeHours} hours after sign-in.
+              Up to {config.maxConcurrentSessions} may be open at once.
+            </p>
+          )}
+        </div>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button size="sm" variant="destructive" disabled={terminating || sessions.length === 0}>
+              <LogOut className="w-4 h-4 mr-2" />
+              {terminating ? 'Terminating...' : 'Terminate All'}
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Terminate All Sessions</AlertDialogTitle>
+              <AlertDialogDescription>
+                {user.email} will be signed out on every device at their next request and must sign in again.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={terminateAll} className="bg-red-600 hover:bg-red-700">
+                Terminate Sessions
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : sessions.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <MonitorSmartphone className="w-12 h-12 mx-auto mb-4 text-muted-foreground/50" />
+            <p>No active sessions</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-2">
+            {sessions.map((session) => (
+              <div key={session.id} className="p-3 border rounded-lg space-y-1 text-sm">
+                <div className="font-medium">{session.ipAddress || 'Unknown address'}</div>
+                <p className="text-xs text-muted-foreground break-all">{session.userAgent || 'Unknown browser'}</p>
+                <p className="text-xs text-muted-foreground">
+                  Signed in {new Date(session.createdAt).toLocaleString()}
+                  {' · '}
+                  Last active {new Date(session.lastActivityAt).toLocaleString()}
+                  {' · '}
+                  Ends by {new Date(session.expiresAt).toLocaleString()}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {session.consentAcknowledgedAt
+                    ? `Consent banner accepted ${new Date(session.consentAcknowledgedAt).toLocaleString()}`
+                    : 'Consent banner acceptance not recorded'}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
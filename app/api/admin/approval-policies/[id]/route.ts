@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { db } from '@/lib/db/server';
+import { approvalPolicies } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { approvalPolicySchema, parsePolicySteps } from '@/lib/approval-policy';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+// GET /api/admin/approval-policies/[id] - Get an approval policy (admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const policyId = parseInt(id);
+    if (isNaN(policyId)) {
+      return NextResponse.json({ error: 'Invalid policy ID' }, { status: 400 });
+    }
+
+    const policyArray = await db
+      .select()
+      .from(approvalPolicies)
+      .where(eq(approvalPolicies.id, policyId))
+      .limit(1);
+
+    if (policyArray.length === 0) {
+      return NextResponse.json({ error: 'Approval policy not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      policy: { ...policyArray[0], steps: parsePolicySteps(policyArray[0].steps) },
+    });
+
+  } catch (error) {
+    appLogger.error(`Error loading approval policy: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to load approval policy' }, { status: 500 });
+  }
+}
+
+// PUT /api/admin/approval-policies/[id] - Update an approval policy (admin only)
+// Requests already in review keep the steps they were submitted with
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const policyId = parseInt(id);
+    if (isNaN(policyId)) {
+      return NextResponse.json({ error: 'Invalid policy ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { steps, ...validatedData } = approvalPolicySchema.parse(body);
+
+    const existing = await db
+      .select()
+      .from(approvalPolicies)
+      .where(eq(approvalPolicies.id, policyId))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return NextResponse.json({ error: 'Approval policy not found' }, { status: 404 });
+    }
+
+    const updated = await db
+      .update(approvalPolicies)
+      .set({
+        ...validatedData,
+        steps: JSON.stringify(steps),
+        updatedBy: user.id,
+        updatedAt: new Date(),
+      })
+      .where(eq(approvalPolicies.id, policyId))
+      .returning();
+
+    if (updated.length === 0) {
+      return NextResponse.json({ error: 'Approval policy not found' }, { status: 404 });
+    }
+
+    appLogger.privilegedAction('APPROVAL_POLICY_UPDATED', {
+      userId: user.id.toString(),
+      resource: `approval_policy_${policyId}`
+    });
+
+    recordAudit(request, user, {
+      action: 'approval_policy_updated',
+      before: existing[0],
+      after: updated[0],
+      notes: `Approval policy ${updated[0].name} updated`,
+    });
+
+    return NextResponse.json({
+      policy: { ...updated[0], steps: parsePolicySteps(updated[0].steps) },
+    });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues?.map(e => `${e.path.join('.')}: ${e.message}`) || []
+        },
+        { status: 400 }
+      );
+    }
+
+    appLogger.error(`Error updating approval policy: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to update approval policy' }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/approval-policies/[id] - Delete an approval policy (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const policyId = parseInt(id);
+    if (isNaN(policyId)) {
+      return NextResponse.json({ error: 'Invalid policy ID' }, { status: 400 });
+    }
+
+    const deleted = await db
+      .delete(approvalPolicies)
+      .where(eq(approvalPolicies.id, policyId))
+      .returning();
+
+    if (deleted.length === 0) {
+      return NextResponse.json({ error: 'Approval policy not found' }, { status: 404 });
+    }
+
+    appLogger.privilegedAction('APPROVAL_POLICY_DELETED', {
+      userId: user.id.toString(),
+      resource: `approval_policy_${policyId}`
+    });
+
+    recordAudit(request, user, {
+      action: 'approval_policy_deleted',
+      before: deleted[0],
+      notes: `Approval policy ${deleted[0].name} deleted`,
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    appLogger.error(`Error deleting approval policy: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to delete approval policy' }, { status: 500 });
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { db } from '@/lib/db/server';
+import { approvalPolicies, type ApprovalPolicy } from '@/lib/db/schema';
+import { asc, desc } from 'drizzle-orm';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { approvalPolicySchema, getDefaultApprovalSteps, parsePolicySteps } from '@/lib/approval-policy';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+function toPolicyResponse(policy: ApprovalPolicy) {
+  return { ...policy, steps: parsePolicySteps(policy.steps) };
+}
+
+// GET /api/admin/approval-policies - List approval policies (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const policies = await db
+      .select()
+      .from(approvalPolicies)
+      .orderBy(desc(approvalPolicies.priority), asc(approvalPolicies.name));
+
+    return NextResponse.json({
+      policies: policies.map(toPolicyResponse),
+      // Built-in chains used when no active policy matches a request
+      defaults: {
+        'high-to-low': getDefaultApprovalSteps('high-to-low'),
+        other: getDefaultApprovalSteps(),
+      },
+    });
+
+  } catch (error) {
+    appLogger.error(`Error listing approval policies: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to load approval policies' }, { status: 500 });
+  }
+}
+
+// POST /api/admin/approval-policies - Create an approval policy (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { steps, ...validatedData } = approvalPolicySchema.parse(body);
+
+    const inserted = await db.insert(approvalPolicies).values({
+      ...validatedData,
+      steps: JSON.stringify(steps),
+      createdBy: user.id,
+      updatedBy: user.id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }).returning();
+
+    appLogger.privilegedAction('APPROVAL_POLICY_CREATED', {
+      userId: user.id.toString(),
+      resource: `approval_policy_${inserted[0].id}`
+    });
+
+    recordAudit(request, user, {
+      action: 'approval_policy_created',
+      after: inserted[0],
+      notes: `Approval policy ${inserted[0].name} created`,
+    });
+
+    return NextResponse.json({ policy: toPolicyResponse(inserted[0]) }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues?.map(e => `${e.path.join('.')}: ${e.message}`) || []
+        },
+        { status: 400 }
+      );
+    }
+
+    appLogger.error(`Error creating approval policy: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to create approval policy' }, { status: 500 });
+  }
+}
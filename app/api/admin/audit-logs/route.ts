@@ -67,6 +67,9 @@ export async function GET(request: NextRequest) {
         newStatus: aftAuditLog.newStatus,
         changes: aftAuditLog.changes,
         notes: aftAuditLog.notes,
+        actorRole: aftAuditLog.actorRole,
+        ipAddress: aftAuditLog.ipAddress,
+        userAgent: aftAuditLog.userAgent,
         createdAt: aftAuditLog.createdAt,
         // User information
         userName: sql<string>`${users.firstName} || ' ' || ${users.lastName}`,
@@ -95,7 +98,8 @@ export async function GET(request: NextRequest) {
         log.userEmail.toLowerCase().includes(searchTerm) ||
         (log.requestNumber && log.requestNumber.toLowerCase().includes(searchTerm)) ||
         log.action.toLowerCase().includes(searchTerm) ||
-        (log.notes && log.notes.toLowerCase().includes(searchTerm))
+        (log.notes && log.notes.toLowerCase().includes(searchTerm)) ||
+        (log.ipAddress && log.ipAddress.includes(searchTerm))
       );
     }
 
@@ -107,6 +111,9 @@ export async function GET(request: NextRequest) {
         'User Name',
         'User Email',
         'User Role',
+        'Acting Role',
+        'IP Address',
+        'User Agent',
         'Request Number',
         'Old Status',
         'New Status',
@@ -120,6 +127,9 @@ export async function GET(request: NextRequest) {
         log.userName,
         log.userEmail,
         log.userRole,
+        log.actorRole || '',
+        log.ipAddress || '',
+        log.userAgent || '',
         log.requestNumber || '',
         log.oldStatus || '',
         log.newStatus || '',
@@ -178,6 +188,9 @@ export async function GET(request: NextRequest) {
         newStatus: log.newStatus,
         changes: log.changes,
         notes: log.notes,
+        actorRole: log.actorRole,
+        ipAddress: log.ipAddress,
+        userAgent: log.userAgent,
         timestamp: log.createdAt.toISOString(),
       })),
       users: allUsers,
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { createSignedAuditExport } from '@/lib/audit-log';
+
+export const runtime = 'nodejs';
+
+// GET /api/admin/audit-logs/signed-export - Download the full audit chain signed for offline verification (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const auditExport = createSignedAuditExport(user);
+
+    appLogger.privilegedAction('AUDIT_LOG_EXPORTED', {
+      userId: user.id.toString(),
+      resource: `audit_log:${auditExport.entryCount}:${auditExport.headHash}`
+    });
+
+    const fileName = `aft-audit-log-${auditExport.exportedAt.slice(0, 10)}.json`;
+    return new NextResponse(JSON.stringify(auditExport, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+
+  } catch (error) {
+    appLogger.error(`Error exporting signed audit log: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to export audit log' }, { status: 500 });
+  }
+}
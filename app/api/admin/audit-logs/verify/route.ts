@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { verifyAuditLogChain, getAuditSigningKeyFingerprint } from '@/lib/audit-log';
+
+export const runtime = 'nodejs';
+
+// GET /api/admin/audit-logs/verify - Walk the audit log hash chain and report the first broken link (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const result = verifyAuditLogChain(user.id);
+
+    if (!result.valid) {
+      appLogger.securityEvent('AUDIT_CHAIN_BROKEN', {
+        entryId: result.firstBrokenLink?.entryId,
+        reason: result.firstBrokenLink?.reason,
+        verifiedEntries: result.verifiedEntries,
+        totalEntries: result.totalEntries,
+      }, {
+        userId: user.id.toString(),
+        action: 'AUDIT_CHAIN_VERIFY'
+      });
+    }
+
+    // The head hash in the application log anchors the chain against truncation of its newest entries
+    appLogger.privilegedAction('AUDIT_CHAIN_VERIFIED', {
+      userId: user.id.toString(),
+      resource: `audit_log:${result.totalEntries}:${result.headHash}`
+    });
+
+    return NextResponse.json({
+      ...result,
+      signingKeyFingerprint: getAuditSigningKeyFingerprint(),
+      verifiedAt: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    appLogger.error(`Error verifying audit log chain: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to verify audit log' }, { status: 500 });
+  }
+}
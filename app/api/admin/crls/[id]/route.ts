@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { db } from '@/lib/db/server';
+import { certificateRevocationLists, revokedCertificates } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+
+export const runtime = 'nodejs';
+
+// DELETE /api/admin/crls/[id] - Remove a cached CRL and its revoked entries (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const crlId = parseInt(id);
+    if (isNaN(crlId)) {
+      return NextResponse.json({ error: 'Invalid CRL ID' }, { status: 400 });
+    }
+
+    const deleted = db.transaction(tx => {
+      tx.delete(revokedCertificates).where(eq(revokedCertificates.crlId, crlId)).run();
+      return tx
+        .delete(certificateRevocationLists)
+        .where(eq(certificateRevocationLists.id, crlId))
+        .returning({
+          id: certificateRevocationLists.id,
+          issuerDN: certificateRevocationLists.issuerDN,
+          crlNumber: certificateRevocationLists.crlNumber,
+          thisUpdate: certificateRevocationLists.thisUpdate,
+          nextUpdate: certificateRevocationLists.nextUpdate,
+          revokedCount: certificateRevocationLists.revokedCount,
+        })
+        .all();
+    });
+
+    if (deleted.length === 0) {
+      return NextResponse.json({ error: 'CRL not found' }, { status: 404 });
+    }
+
+    appLogger.privilegedAction('CRL_DELETED', {
+      userId: user.id.toString(),
+      resource: `crl_${crlId}`
+    });
+
+    recordAudit(request, user, {
+      action: 'crl_deleted',
+      before: deleted[0],
+      notes: `CRL for ${deleted[0].issuerDN} deleted`,
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    appLogger.error(`Error deleting CRL: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to delete CRL' }, { status: 500 });
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { db } from '@/lib/db/server';
+import { certificateRevocationLists, type CertificateRevocationList } from '@/lib/db/schema';
+import { asc } from 'drizzle-orm';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { getRevocationConfig, importCrl } from '@/lib/revocation';
+
+export const runtime = 'nodejs';
+
+// Large CA CRLs run to tens of megabytes
+const MAX_CRL_SIZE = 50 * 1024 * 1024;
+
+// Columns returned for cached CRLs - the CRL itself is omitted
+const crlColumns = {
+  id: certificateRevocationLists.id,
+  issuerDN: certificateRevocationLists.issuerDN,
+  issuerThumbprint: certificateRevocationLists.issuerThumbprint,
+  crlNumber: certificateRevocationLists.crlNumber,
+  thisUpdate: certificateRevocationLists.thisUpdate,
+  nextUpdate: certificateRevocationLists.nextUpdate,
+  revokedCount: certificateRevocationLists.revokedCount,
+  source: certificateRevocationLists.source,
+  fileName: certificateRevocationLists.fileName,
+  importedBy: certificateRevocationLists.importedBy,
+  createdAt: certificateRevocationLists.createdAt,
+};
+
+function toCrlResponse(crl: Omit<CertificateRevocationList, 'crlData' | 'crlHash'>) {
+  return {
+    id: crl.id,
+    issuerDN: crl.issuerDN,
+    issuerThumbprint: crl.issuerThumbprint,
+    crlNumber: crl.crlNumber,
+    thisUpdate: crl.thisUpdate,
+    nextUpdate: crl.nextUpdate,
+    revokedCount: crl.revokedCount,
+    source: crl.source,
+    fileName: crl.fileName,
+    importedBy: crl.importedBy,
+    createdAt: crl.createdAt,
+    isExpired: !!crl.nextUpdate && crl.nextUpdate < new Date(),
+  };
+}
+
+// GET /api/admin/crls - List cached CRLs and the revocation settings (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const crls = await db
+      .select(crlColumns)
+      .from(certificateRevocationLists)
+      .orderBy(asc(certificateRevocationLists.issuerDN));
+
+    const config = getRevocationConfig();
+
+    return NextResponse.json({
+      crls: crls.map(toCrlResponse),
+      config: {
+        ocspEnabled: !!config.ocspResponderUrl,
+        ocspResponderUrl: config.ocspResponderUrl,
+        crlDirectory: config.crlDirectory,
+        requireRevocationCheck: config.requireRevocationCheck,
+      },
+    });
+
+  } catch (error) {
+    appLogger.error(`Error listing CRLs: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to load CRLs' }, { status: 500 });
+  }
+}
+
+// POST /api/admin/crls - Import a DER or PEM CRL file (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No CRL file was uploaded' }, { status: 400 });
+    }
+
+    if (file.size > MAX_CRL_SIZE) {
+      return NextResponse.json({ error: 'CRL file exceeds the 50MB limit' }, { status: 413 });
+    }
+
+    const result = await importCrl(Buffer.from(await file.arrayBuffer()), {
+      source: 'upload',
+      fileName: file.name,
+      importedBy: user.id,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    appLogger.privilegedAction(result.status === 'imported' ? 'CRL_IMPORTED' : 'CRL_IMPORT_DUPLICATE', {
+      userId: user.id.toString(),
+      resource: `crl_${result.crl.id}`
+    });
+
+    if (result.status === 'imported') {
+      recordAudit(request, user, {
+        action: 'crl_imported',
+        after: toCrlResponse(result.crl),
+        notes: `CRL for ${result.crl.issuerDN} imported from ${file.name}`,
+      });
+    }
+
+    return NextResponse.json({ status: result.status, crl: toCrlResponse(result.crl) }, { status: result.status === 'imported' ? 201 : 200 });
+
+  } catch (error) {
+    appLogger.error(`Error importing CRL: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to import CRL' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { scanCrlDirectory } from '@/lib/revocation';
+
+export const runtime = 'nodejs';
+
+// POST /api/admin/crls/scan - Import new CRL files from the configured CRL directory (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const result = await scanCrlDirectory();
+    if (!result.directory) {
+      return NextResponse.json({ error: 'No CRL directory is configured - set AFT_CRL_DIR' }, { status: 400 });
+    }
+
+    appLogger.privilegedAction('CRL_DIRECTORY_SCANNED', {
+      userId: user.id.toString(),
+      resource: 'crl_directory'
+    });
+
+    recordAudit(request, user, {
+      action: 'crl_directory_scanned',
+      notes: `Scanned ${result.directory}: ${result.imported} imported, ${result.duplicates} unchanged, ${result.errors.length} failed`,
+    });
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    appLogger.error(`Error scanning CRL directory: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to scan CRL directory' }, { status: 500 });
+  }
+}
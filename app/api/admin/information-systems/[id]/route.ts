@@ -0,0 +1,209 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { db } from '@/lib/db/server';
+import { aftRequests, driveTracking, informationSystems, users } from '@/lib/db/schema';
+import { and, eq, ne, or } from 'drizzle-orm';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { informationSystemSchema } from '@/lib/information-systems';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+// GET /api/admin/information-systems/[id] - Get an information system (admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const systemId = parseInt(id);
+    if (isNaN(systemId)) {
+      return NextResponse.json({ error: 'Invalid information system ID' }, { status: 400 });
+    }
+
+    const systemArray = await db
+      .select()
+      .from(informationSystems)
+      .where(eq(informationSystems.id, systemId))
+      .limit(1);
+
+    if (systemArray.length === 0) {
+      return NextResponse.json({ error: 'Information system not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ system: systemArray[0] });
+
+  } catch (error) {
+    appLogger.error(`Error loading information system: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to load information system' }, { status: 500 });
+  }
+}
+
+// PUT /api/admin/information-systems/[id] - Update an information system (admin only)
+// Requests and drive issues already recorded keep the system name they were saved with
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const systemId = parseInt(id);
+    if (isNaN(systemId)) {
+      return NextResponse.json({ error: 'Invalid information system ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validatedData = informationSystemSchema.parse(body);
+
+    const existing = await db
+      .select()
+      .from(informationSystems)
+      .where(eq(informationSystems.id, systemId))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return NextResponse.json({ error: 'Information system not found' }, { status: 404 });
+    }
+
+    const duplicate = await db
+      .select({ id: informationSystems.id })
+      .from(informationSystems)
+      .where(and(eq(informationSystems.name, validatedData.name), ne(informationSystems.id, systemId)))
+      .limit(1);
+
+    if (duplicate.length > 0) {
+      return NextResponse.json({ error: 'An information system with this name already exists' }, { status: 409 });
+    }
+
+    if (validatedData.issmId !== null) {
+      const issm = await db.select({ id: users.id }).from(users).where(eq(users.id, validatedData.issmId)).limit(1);
+      if (issm.length === 0) {
+        return NextResponse.json({ error: 'ISSM user not found' }, { status: 400 });
+      }
+    }
+
+    const updated = await db
+      .update(informationSystems)
+      .set({
+        ...validatedData,
+        updatedBy: user.id,
+        updatedAt: new Date(),
+      })
+      .where(eq(informationSystems.id, systemId))
+      .returning();
+
+    appLogger.privilegedAction('INFORMATION_SYSTEM_UPDATED', {
+      userId: user.id.toString(),
+      resource: `information_system_${systemId}`
+    });
+
+    recordAudit(request, user, {
+      action: 'information_system_updated',
+      before: existing[0],
+      after: updated[0],
+      notes: `Information system ${updated[0].name} updated`,
+    });
+
+    return NextResponse.json({ system: updated[0] });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues?.map(e => `${e.path.join('.')}: ${e.message}`) || []
+        },
+        { status: 400 }
+      );
+    }
+
+    appLogger.error(`Error updating information system: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to update information system' }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/information-systems/[id] - Remove an information system (admin only)
+// Systems already used by a request or drive issue can only be deactivated
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const systemId = parseInt(id);
+    if (isNaN(systemId)) {
+      return NextResponse.json({ error: 'Invalid information system ID' }, { status: 400 });
+    }
+
+    const [requestReference, trackingReference] = await Promise.all([
+      db.select({ id: aftRequests.id })
+        .from(aftRequests)
+        .where(or(eq(aftRequests.sourceSystemId, systemId), eq(aftRequests.destSystemId, systemId)))
+        .limit(1),
+      db.select({ id: driveTracking.id })
+        .from(driveTracking)
+        .where(or(eq(driveTracking.sourceSystemId, systemId), eq(driveTracking.destinationSystemId, systemId)))
+        .limit(1),
+    ]);
+
+    if (requestReference.length > 0 || trackingReference.length > 0) {
+      return NextResponse.json({
+        error: 'This information system is referenced by existing transfers - deactivate it instead'
+      }, { status: 409 });
+    }
+
+    const deleted = await db
+      .delete(informationSystems)
+      .where(eq(informationSystems.id, systemId))
+      .returning();
+
+    if (deleted.length === 0) {
+      return NextResponse.json({ error: 'Information system not found' }, { status: 404 });
+    }
+
+    appLogger.privilegedAction('INFORMATION_SYSTEM_DELETED', {
+      userId: user.id.toString(),
+      resource: `information_system_${systemId}`
+    });
+
+    recordAudit(request, user, {
+      action: 'information_system_deleted',
+      before: deleted[0],
+      notes: `Information system ${deleted[0].name} removed from the catalog`,
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    appLogger.error(`Error deleting information system: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to delete information system' }, { status: 500 });
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { db } from '@/lib/db/server';
+import { informationSystems, users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { informationSystemSchema } from '@/lib/information-systems';
+import { listInformationSystems } from '@/lib/information-systems-server';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+// GET /api/admin/information-systems - List the information system catalog, inactive systems included (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const systems = await listInformationSystems();
+
+    return NextResponse.json({ systems });
+
+  } catch (error) {
+    appLogger.error(`Error listing information systems: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to load information systems' }, { status: 500 });
+  }
+}
+
+// POST /api/admin/information-systems - Add an information system to the catalog (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validatedData = informationSystemSchema.parse(body);
+
+    const existing = await db
+      .select({ id: informationSystems.id })
+      .from(informationSystems)
+      .where(eq(informationSystems.name, validatedData.name))
+      .limit(1);
+
+    if (existing.length > 0) {
+      return NextResponse.json({ error: 'An information system with this name already exists' }, { status: 409 });
+    }
+
+    if (validatedData.issmId !== null) {
+      const issm = await db.select({ id: users.id }).from(users).where(eq(users.id, validatedData.issmId)).limit(1);
+      if (issm.length === 0) {
+        return NextResponse.json({ error: 'ISSM user not found' }, { status: 400 });
+      }
+    }
+
+    const inserted = await db.insert(informationSystems).values({
+      ...validatedData,
+      createdBy: user.id,
+      updatedBy: user.id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }).returning();
+
+    appLogger.privilegedAction('INFORMATION_SYSTEM_CREATED', {
+      userId: user.id.toString(),
+      resource: `information_system_${inserted[0].id}`
+    });
+
+    recordAudit(request, user, {
+      action: 'information_system_created',
+      after: inserted[0],
+      notes: `Information system ${inserted[0].name} added to the catalog`,
+    });
+
+    return NextResponse.json({ system: inserted[0] }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues?.map(e => `${e.path.join('.')}: ${e.message}`) || []
+        },
+        { status: 400 }
+      );
+    }
+
+    appLogger.error(`Error creating information system: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to create information system' }, { status: 500 });
+  }
+}
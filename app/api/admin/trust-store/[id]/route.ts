@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { db } from '@/lib/db/server';
+import { cacTrustStore } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { parseTrustStoreCertificate, toTrustStoreResponse } from '@/lib/trust-store';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+const updateTrustStoreSchema = z.object({
+  certificateName: z.string().min(1, 'Certificate name is required').optional(),
+  isActive: z.boolean().optional(),
+  isRootCA: z.boolean().optional(),
+});
+
+// GET /api/admin/trust-store/[id] - Get a trusted certificate with its parsed details (admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const certificateId = parseInt(id);
+    if (isNaN(certificateId)) {
+      return NextResponse.json({ error: 'Invalid certificate ID' }, { status: 400 });
+    }
+
+    const entryArray = await db
+      .select()
+      .from(cacTrustStore)
+      .where(eq(cacTrustStore.id, certificateId))
+      .limit(1);
+
+    if (entryArray.length === 0) {
+      return NextResponse.json({ error: 'Certificate not found' }, { status: 404 });
+    }
+
+    // Stored fields are still returned when the certificate can no longer be parsed
+    const parsed = parseTrustStoreCertificate(entryArray[0]);
+    const details = parsed && {
+      subject: parsed.subject,
+      issuer: parsed.issuer,
+      serialNumber: parsed.serialNumber,
+      notBefore: parsed.notBefore,
+      notAfter: parsed.notAfter,
+      isDoD: parsed.isDoD,
+      dodComponent: parsed.dodComponent,
+      isSelfSigned: parsed.isSelfSigned,
+      isCertificateAuthority: parsed.isCertificateAuthority,
+      certificatePem: parsed.certificatePem,
+    };
+
+    return NextResponse.json({ certificate: toTrustStoreResponse(entryArray[0]), details });
+
+  } catch (error) {
+    appLogger.error(`Error loading trust store certificate: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to load certificate' }, { status: 500 });
+  }
+}
+
+// PATCH /api/admin/trust-store/[id] - Rename a certificate or change its active and root CA flags (admin only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const certificateId = parseInt(id);
+    if (isNaN(certificateId)) {
+      return NextResponse.json({ error: 'Invalid certificate ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validatedData = updateTrustStoreSchema.parse(body);
+
+    const existing = await db
+      .select()
+      .from(cacTrustStore)
+      .where(eq(cacTrustStore.id, certificateId))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return NextResponse.json({ error: 'Certificate not found' }, { status: 404 });
+    }
+
+    const updated = await db
+      .update(cacTrustStore)
+      .set(validatedData)
+      .where(eq(cacTrustStore.id, certificateId))
+      .returning();
+
+    if (updated.length === 0) {
+      return NextResponse.json({ error: 'Certificate not found' }, { status: 404 });
+    }
+
+    appLogger.privilegedAction('TRUST_STORE_CERTIFICATE_UPDATED', {
+      userId: user.id.toString(),
+      resource: `trust_store_${certificateId}`
+    });
+
+    recordAudit(request, user, {
+      action: 'trust_store_certificate_updated',
+      before: toTrustStoreResponse(existing[0]),
+      after: toTrustStoreResponse(updated[0]),
+      notes: `Trust store certificate ${updated[0].subjectDN} updated`,
+    });
+
+    return NextResponse.json({ certificate: toTrustStoreResponse(updated[0]) });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues?.map(e => `${e.path.join('.')}: ${e.message}`) || []
+        },
+        { status: 400 }
+      );
+    }
+
+    appLogger.error(`Error updating trust store certificate: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to update certificate' }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/trust-store/[id] - Remove a certificate from the trust store (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const certificateId = parseInt(id);
+    if (isNaN(certificateId)) {
+      return NextResponse.json({ error: 'Invalid certificate ID' }, { status: 400 });
+    }
+
+    const deleted = await db
+      .delete(cacTrustStore)
+      .where(eq(cacTrustStore.id, certificateId))
+      .returning();
+
+    if (deleted.length === 0) {
+      return NextResponse.json({ error: 'Certificate not found' }, { status: 404 });
+    }
+
+    appLogger.privilegedAction('TRUST_STORE_CERTIFICATE_DELETED', {
+      userId: user.id.toString(),
+      resource: `trust_store_${certificateId}`
+    });
+
+    recordAudit(request, user, {
+      action: 'trust_store_certificate_deleted',
+      before: toTrustStoreResponse(deleted[0]),
+      notes: `Trust store certificate ${deleted[0].subjectDN} removed`,
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    appLogger.error(`Error deleting trust store certificate: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to delete certificate' }, { status: 500 });
+  }
+}
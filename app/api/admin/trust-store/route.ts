@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { db } from '@/lib/db/server';
+import { cacTrustStore, type CACTrustStore } from '@/lib/db/schema';
+import { asc, inArray } from 'drizzle-orm';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { CertificateParser, type ParsedCertificate } from '@/lib/certificate-parser';
+import { encodeCertificate, parseCertificate } from '@/lib/signature-verification';
+import { EXPIRY_WARNING_DAYS, getCommonName, toTrustStoreResponse } from '@/lib/trust-store';
+
+export const runtime = 'nodejs';
+
+const MAX_BUNDLE_SIZE = 5 * 1024 * 1024;
+
+// GET /api/admin/trust-store - List trusted CA certificates (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const entries = await db
+      .select()
+      .from(cacTrustStore)
+      .orderBy(asc(cacTrustStore.certificateName));
+
+    return NextResponse.json({
+      certificates: entries.map(toTrustStoreResponse),
+      expiryWarningDays: EXPIRY_WARNING_DAYS,
+    });
+
+  } catch (error) {
+    appLogger.error(`Error listing trust store: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to load trust store' }, { status: 500 });
+  }
+}
+
+// POST /api/admin/trust-store - Import CA certificates from a PEM, DER or PKCS#7 file (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No certificate file was uploaded' }, { status: 400 });
+    }
+
+    if (file.size > MAX_BUNDLE_SIZE) {
+      return NextResponse.json({ error: 'Certificate file exceeds the 5MB limit' }, { status: 413 });
+    }
+
+    let certificates: ParsedCertificate[];
+    try {
+      certificates = CertificateParser.parseCertificateBundle(await file.arrayBuffer());
+    } catch (error) {
+      return NextResponse.json({
+        error: `File could not be read as PEM, DER or PKCS#7 certificates: ${error instanceof Error ? error.message : String(error)}`
+      }, { status: 400 });
+    }
+
+    const existing = await db
+      .select({ certificateThumbprint: cacTrustStore.certificateThumbprint })
+      .from(cacTrustStore)
+      .where(inArray(cacTrustStore.certificateThumbprint, certificates.map(cert => cert.thumbprint)));
+    const existingThumbprints = new Set(existing.map(entry => entry.certificateThumbprint));
+
+    const imported: CACTrustStore[] = [];
+    const skipped: { subject: string; thumbprint: string; reason: string }[] = [];
+
+    for (const cert of certificates) {
+      if (existingThumbprints.has(cert.thumbprint)) {
+        skipped.push({ subject: cert.subject, thumbprint: cert.thumbprint, reason: 'Already in trust store' });
+        continue;
+      }
+      if (!cert.isCertificateAuthority) {
+        skipped.push({ subject: cert.subject, thumbprint: cert.thumbprint, reason: 'Not a CA certificate' });
+        continue;
+      }
+
+      const inserted = await db.insert(cacTrustStore).values({
+        certificateName: getCommonName(cert.subject),
+        certificateData: encodeCertificate(parseCertificate(cert.certificatePem)),
+        certificateThumbprint: cert.thumbprint,
+        subjectDN: cert.subject,
+        issuerDN: cert.issuer,
+        notBefore: cert.notBefore,
+        notAfter: cert.notAfter,
+        isActive: true,
+        // Self-signed CA certificates are roots, everything else is an intermediate
+        isRootCA: cert.isSelfSigned,
+        createdAt: new Date(),
+      }).returning();
+
+      existingThumbprints.add(cert.thumbprint);
+      imported.push(inserted[0]);
+
+      recordAudit(request, user, {
+        action: 'trust_store_certificate_imported',
+        after: toTrustStoreResponse(inserted[0]),
+        notes: `${inserted[0].isRootCA ? 'Root' : 'Intermediate'} CA ${cert.subject} added to the trust store`,
+      });
+    }
+
+    if (imported.length > 0) {
+      appLogger.privilegedAction('TRUST_STORE_CERTIFICATES_IMPORTED', {
+        userId: user.id.toString(),
+        resource: `trust_store:${imported.map(entry => entry.certificateThumbprint).join(',')}`
+      });
+    }
+
+    return NextResponse.json({
+      imported: imported.map(toTrustStoreResponse),
+      skipped,
+    }, { status: imported.length > 0 ? 201 : 200 });
+
+  } catch (error) {
+    appLogger.error(`Error importing trust store certificates: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to import certificates' }, { status: 500 });
+  }
+}
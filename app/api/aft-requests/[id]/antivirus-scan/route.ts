@@ -3,6 +3,7 @@ import { getCurrentUserFromRequest } from '@/lib/auth-server';
 import { db } from '@/lib/db/server';
 import { aftRequests } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { recordAudit } from '@/lib/audit-log';
 import { z } from 'zod';
 
 const antivirusScanSchema = z.object({
@@ -86,13 +87,23 @@ export async function POST(
     };
 
     // Update the request with scan results
-    await db
+    const updatedRequest = await db
       .update(aftRequests)
       .set({
         transferData: JSON.stringify(transferData),
         updatedAt: new Date(),
       })
-      .where(eq(aftRequests.id, requestId));
+      .where(eq(aftRequests.id, requestId))
+      .returning();
+
+    const threatsFound = validatedData.originationScan.threatsFound + validatedData.destinationScan.threatsFound;
+    recordAudit(request, user, {
+      action: 'antivirus_scan_recorded',
+      requestId,
+      before: aftRequest,
+      after: updatedRequest[0],
+      notes: `Anti-virus scan results recorded - ${threatsFound} threat(s) found`,
+    });
 
     return NextResponse.json({ 
       message: 'Anti-virus scan results recorded successfully',
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth-server';
-import { db } from '@/lib/db/raw';
-import { AFTStatusType } from '@/lib/db/schema';
+import { db } from '@/lib/db/server';
+import { aftRequests } from '@/lib/db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { resolveTransition } from '@/lib/workflow';
+import { readApprovalState, getApprovalProgress, hasApprovedStep, type ApprovalRecord } from '@/lib/approval-policy';
+import { getActingOnBehalfOf } from '@/lib/role-delegation-server';
+import { recordAudit } from '@/lib/audit-log';
 import { z } from 'zod';
 
 export const runtime = 'nodejs';
@@ -26,15 +31,6 @@ export async function POST(
       );
     }
 
-    // Check if user can approve requests (including primaryRole check)
-    const userRole = user.primaryRole || user.role; // Handle both old and new schema
-    if (!['dao', 'approver', 'cpso', 'admin'].includes(userRole)) {
-      return NextResponse.json(
-        { error: 'Insufficient permissions to approve requests' },
-        { status: 403 }
-      );
-    }
-
     const { id } = await params;
     const requestId = parseInt(id);
     if (isNaN(requestId)) {
@@ -45,48 +41,25 @@ export async function POST(
     }
 
     // Get the request first to check transfer type
-    const stmt = db.prepare('SELECT * FROM aft_requests WHERE id = ? LIMIT 1');
-    const aftRequest = stmt.get(requestId) as {
-      id: number;
-      status: string;
-      transferType: string;
-      requestNumber: string;
-      approvalData: string | null;
-    } | undefined;
-
-    if (!aftRequest) {
+    const aftRequestArray = await db
+      .select()
+      .from(aftRequests)
+      .where(eq(aftRequests.id, requestId))
+      .limit(1);
+
+    if (aftRequestArray.length === 0) {
       return NextResponse.json(
         { error: 'Request not found' },
         { status: 404 }
       );
     }
 
-    // Check if request is in a pending approval status
-    if (!['pending_dao', 'pending_approver', 'pending_cpso', 'submitted'].includes(aftRequest.status)) {
-      return NextResponse.json(
-        { error: 'Request cannot be approved - invalid status' },
-        { status: 400 }
-      );
-    }
+    const aftRequest = aftRequestArray[0];
 
-    const isHighToLow = aftRequest.transferType === 'high-to-low';
-
-    // Check if current user can approve at this stage
-    let canUserApprove = false;
-    if (userRole === 'admin') {
-      canUserApprove = true; // Admin can approve at any stage
-    } else if (userRole === 'dao' && (aftRequest.status === 'pending_dao' || aftRequest.status === 'submitted')) {
-      canUserApprove = true;
-    } else if (userRole === 'approver' && (aftRequest.status === 'pending_approver' || (aftRequest.status === 'submitted' && !isHighToLow))) {
-      // Approver can approve pending_approver requests or submitted requests that are not high-to-low
-      canUserApprove = true;
-    } else if (userRole === 'cpso' && aftRequest.status === 'pending_cpso') {
-      canUserApprove = true;
-    }
-
-    if (!canUserApprove) {
+    // Checked when the approval is made, so a role taken on before the request existed can't be used on it
+    if (aftRequest.requestorId === user.id) {
       return NextResponse.json(
-        { error: `Request is not ready for ${userRole.toUpperCase()} approval. Current status: ${aftRequest.status}` },
+        { error: 'You cannot approve your own request' },
         { status: 403 }
       );
     }
@@ -94,105 +67,127 @@ export async function POST(
     // Parse and validate request body
     const body = await request.json();
     const validatedData = signatureSchema.parse(body);
-    
-    // Get existing approval data if it exists
-    let existingApprovalData = null;
-    try {
-      if (aftRequest.approvalData && aftRequest.approvalData.trim() !== '') {
-        try {
-          existingApprovalData = JSON.parse(aftRequest.approvalData);
-        } catch (error) {
-          console.warn('Failed to parse approval data:', error, 'Data:', aftRequest.approvalData);
-          existingApprovalData = null;
-        }
-      } else {
-        existingApprovalData = null;
-      }
-    } catch {
-      // Invalid JSON, start fresh
+
+    // Work out which approval steps the request's policy is waiting on
+    const userRoles = user.roles || [user.role];
+    const approvalState = readApprovalState(aftRequest.approvalData, aftRequest.transferType);
+    const progress = getApprovalProgress(approvalState);
+
+    // Check the approval against the workflow definition
+    const transition = resolveTransition('approve', {
+      status: aftRequest.status,
+      transferType: aftRequest.transferType,
+      roles: userRoles,
+      awaitingRoles: progress.awaitingRoles,
+    }, validatedData);
+
+    if (!transition.ok) {
+      return NextResponse.json(
+        { error: transition.error },
+        { status: transition.httpStatus }
+      );
     }
 
-    // Initialize approval record if it doesn't exist
-    if (!existingApprovalData) {
-      existingApprovalData = {
-        requiresDAOApproval: isHighToLow,
-        transferType: aftRequest.transferType,
-        signatures: {},
-        completedAt: null
-      };
+    // Find an active step this user can still approve - quorum counts distinct users, and
+    // a delegate counts as the user they act for
+    const isAdmin = userRoles.includes('admin');
+    const actingFor = await getActingOnBehalfOf(user.id);
+    const eligibleSteps = progress.activeSteps.filter(step => {
+      if (!userRoles.includes(step.role) && !isAdmin) return false;
+      const principalId = (userRoles.includes(step.role) && actingFor[step.role]?.userId) || user.id;
+      return !hasApprovedStep(approvalState, step.id, user.id, principalId);
+    });
+    const step = eligibleSteps.find(candidate => userRoles.includes(candidate.role)) || eligibleSteps[0];
+
+    if (!step) {
+      return NextResponse.json(
+        { error: 'You have already approved the current approval step - another approver is required' },
+        { status: 400 }
+      );
     }
 
     // Add the current user's signature
-    const userRoleKey = userRole; // 'dao', 'approver', 'cpso'
-    console.log(`Adding signature for ${userRoleKey} user:`, user.email, 'on request:', aftRequest.requestNumber);
-    
-    existingApprovalData.signatures[userRoleKey] = {
+    const approvalRole = userRoles.includes(step.role) ? step.role : transition.actingRole;
+    const onBehalfOf = userRoles.includes(step.role) ? actingFor[step.role] : undefined;
+    const approval: ApprovalRecord = {
+      stepId: step.id,
+      role: approvalRole,
       userId: user.id,
       name: `${user.firstName} ${user.lastName}`,
       email: user.email,
       date: validatedData.date,
       signature: validatedData.signature,
       signedAt: new Date().toISOString(),
+      ...(onBehalfOf && { onBehalfOf }),
     };
+    approvalState.approvals.push(approval);
 
-    console.log('Current signatures after adding:', Object.keys(existingApprovalData.signatures));
+    let existingApprovalData: Record<string, unknown> = {};
+    try {
+      existingApprovalData = aftRequest.approvalData ? JSON.parse(aftRequest.approvalData) : {};
+    } catch {
+      // Invalid JSON, start fresh
+    }
 
-    // Determine next status based on what signatures are still needed
-    let nextStatus: string = aftRequest.status;
-    const signatures = existingApprovalData.signatures;
-    
-    // Check approval workflow based on transfer type
-    console.log(`Determining next status. IsHighToLow: ${isHighToLow}, Current signatures:`, signatures);
-    
-    if (isHighToLow) {
-      // HIGH-to-LOW requires DAO -> Approver -> CPSO
-      if (!signatures.dao) {
-        nextStatus = 'pending_dao';
-      } else if (!signatures.approver) {
-        nextStatus = 'pending_approver';
-      } else if (!signatures.cpso) {
-        nextStatus = 'pending_cpso';
-      } else {
-        // All approvals complete, move to DTA stage
-        nextStatus = 'pending_dta';
-        existingApprovalData.completedAt = new Date().toISOString();
-      }
-    } else {
-      // Other transfers require Approver -> CPSO (no DAO needed)
-      if (!signatures.approver) {
-        nextStatus = 'pending_approver';
-      } else if (!signatures.cpso) {
-        nextStatus = 'pending_cpso';
-      } else {
-        // All approvals complete, move to DTA stage
-        nextStatus = 'pending_dta';
-        existingApprovalData.completedAt = new Date().toISOString();
-      }
+    const nextProgress = getApprovalProgress(approvalState);
+    const nextStatus = nextProgress.status;
+    const approvalData = {
+      requiresDAOApproval: approvalState.steps.some(candidate => candidate.role === 'dao'),
+      transferType: aftRequest.transferType,
+      completedAt: null as string | null,
+      ...existingApprovalData,
+      ...approvalState,
+      // Latest signature per role, as shown on the request detail pages
+      signatures: {
+        ...(existingApprovalData.signatures as Record<string, unknown> | undefined),
+        [approvalRole]: approval,
+      },
+    };
+
+    if (nextProgress.complete) {
+      // All approvals complete, move to DTA stage
+      approvalData.completedAt = new Date().toISOString();
     }
 
-    console.log(`Next status determined: ${nextStatus}`);
+    // Update the request only if no other approval landed since it was read, so parallel
+    // and quorum approvers signing at the same time can't overwrite each other
+    const updatedRequest = await db
+      .update(aftRequests)
+      .set({
+        status: nextStatus,
+        approvalData: JSON.stringify(approvalData),
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(aftRequests.id, requestId),
+        eq(aftRequests.status, aftRequest.status),
+        aftRequest.approvalData === null ? isNull(aftRequests.approvalData) : eq(aftRequests.approvalData, aftRequest.approvalData)
+      ))
+      .returning();
+
+    if (updatedRequest.length === 0) {
+      return NextResponse.json(
+        { error: 'The request was changed by another approver - reload it and try again' },
+        { status: 409 }
+      );
+    }
 
-    // Update the request
-    const updateStmt = db.prepare(`
-      UPDATE aft_requests 
-      SET status = ?, updated_at = ?, approval_data = ?
-      WHERE id = ?
-    `);
-    
-    updateStmt.run(
-      nextStatus,
-      new Date().toISOString(),
-      JSON.stringify(existingApprovalData),
-      requestId
-    );
-    
-    // Get the updated request
-    const updatedRequest = stmt.get(requestId);
+    recordAudit(request, user, {
+      action: 'approved',
+      requestId,
+      oldStatus: aftRequest.status,
+      newStatus: nextStatus,
+      before: aftRequest,
+      after: updatedRequest[0],
+      notes: `${step.name} approval signed as ${approvalRole}${onBehalfOf ? ` on behalf of ${onBehalfOf.name}` : ''}`,
+    });
 
     return NextResponse.json({
       success: true,
-      message: 'Request approved successfully',
-      request: updatedRequest,
+      message: nextProgress.complete
+        ? 'Request approved successfully'
+        : `Approval recorded - awaiting ${nextProgress.activeSteps.map(candidate => candidate.name).join(', ')}`,
+      request: updatedRequest[0],
     });
 
   } catch (error) {
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, isAdmin } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { buildRequestPrefill } from '@/lib/request-templates';
+import { getPrefillSourceRequest } from '@/lib/request-templates-server';
+
+export const runtime = 'nodejs';
+
+// GET /api/aft-requests/[id]/clone - Form data to start the wizard from a past request,
+// without its drive, media, dates or signatures
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const requestId = parseInt(id);
+    if (isNaN(requestId)) {
+      return NextResponse.json({ error: 'Invalid request ID' }, { status: 400 });
+    }
+
+    const source = await getPrefillSourceRequest(requestId, user.id, isAdmin(user));
+    if (!source.ok) {
+      return NextResponse.json({ error: source.error }, { status: source.httpStatus });
+    }
+
+    return NextResponse.json({
+      requestNumber: source.request.requestNumber,
+      data: buildRequestPrefill(source.request),
+    });
+
+  } catch (error) {
+    appLogger.error(`Error cloning request: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to clone request' }, { status: 500 });
+  }
+}
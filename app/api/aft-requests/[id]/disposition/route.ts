@@ -3,6 +3,10 @@ import { getCurrentUserFromRequest } from '@/lib/auth-server';
 import { db } from '@/lib/db/server';
 import { aftRequests, AFTStatus } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { resolveTransition } from '@/lib/workflow';
+import { recordAudit } from '@/lib/audit-log';
+import { completeDriveDisposition } from '@/lib/drive-binding';
+import type { CustodyEventType } from '@/lib/drive-custody';
 import { z } from 'zod';
 
 export const runtime = 'nodejs';
@@ -48,13 +52,6 @@ export async function POST(
 
     console.log('User attempting disposition:', user.email, user.role);
 
-    // Check if user is a media custodian or admin
-    if (user.role !== 'media_custodian' && user.role !== 'admin') {
-      return NextResponse.json({ 
-        error: 'Insufficient permissions to complete media disposition' 
-      }, { status: 403 });
-    }
-
     const { id } = await params;
     const requestId = parseInt(id);
     if (isNaN(requestId)) {
@@ -100,13 +97,6 @@ export async function POST(
     const aftRequest = aftRequestArray[0];
     console.log('Current AFT status:', aftRequest.status);
 
-    // Check if request is in correct status for disposition
-    if (aftRequest.status !== AFTStatus.PENDING_MEDIA_CUSTODIAN) {
-      return NextResponse.json({ 
-        error: 'Request must be pending media custodian approval before disposition can be processed' 
-      }, { status: 400 });
-    }
-
     // Parse existing transfer data
     let existingTransferData = {};
     if (aftRequest.transferData && aftRequest.transferData.trim() !== '') {
@@ -119,6 +109,8 @@ export async function POST(
 
     let dispositionRecord;
     let newStatus;
+    const custodyEvents: CustodyEventType[] = [];
+    let custodySignature: string | undefined;
 
     if (isNewFormat) {
       // Section V format
@@ -153,6 +145,10 @@ export async function POST(
         newStatus = AFTStatus.COMPLETED;
       }
 
+      if (ssdSanitized === 'yes') custodyEvents.push('sanitization');
+      if (opticalDestroyed === 'yes') custodyEvents.push('destruction');
+      custodySignature = mediaDisposition.custodianSignature;
+
       console.log('Processing Section V media disposition for request:', aftRequest.requestNumber);
     } else {
       // Legacy format
@@ -170,21 +166,47 @@ export async function POST(
       };
 
       newStatus = legacyData.dispositionType === 'disposed' ? AFTStatus.DISPOSED : AFTStatus.COMPLETED;
+      if (legacyData.dispositionType === 'disposed') custodyEvents.push('destruction');
+
       console.log('Processing legacy disposition for request:', aftRequest.requestNumber);
     }
 
+    // Check the disposition outcome against the workflow definition
+    const transition = resolveTransition('dispose', {
+      status: aftRequest.status,
+      transferType: aftRequest.transferType,
+      roles: user.roles || [user.role],
+    }, {}, newStatus);
+
+    if (!transition.ok) {
+      return NextResponse.json({ error: transition.error }, { status: transition.httpStatus });
+    }
+
     // Update the AFT request with disposition data and new status
-    await db
+    const updatedRequest = await db
       .update(aftRequests)
       .set({
-        status: newStatus,
+        status: transition.nextStatus,
         updatedAt: new Date(),
         transferData: JSON.stringify({
           ...existingTransferData,
           mediaDisposition: dispositionRecord
         }),
       })
-      .where(eq(aftRequests.id, requestId));
+      .where(eq(aftRequests.id, requestId))
+      .returning();
+
+    recordAudit(request, user, {
+      action: 'media_disposition',
+      requestId,
+      oldStatus: aftRequest.status,
+      newStatus: transition.nextStatus,
+      before: aftRequest,
+      after: updatedRequest[0],
+      notes: `Media disposition recorded by ${user.firstName} ${user.lastName}`,
+    });
+
+    await completeDriveDisposition(request, user, aftRequest, custodyEvents, custodySignature);
 
     console.log('Media disposition completed successfully');
 
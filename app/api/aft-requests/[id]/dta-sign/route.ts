@@ -3,6 +3,9 @@ import { getCurrentUserFromRequest } from '@/lib/auth-server';
 import { db } from '@/lib/db/server';
 import { aftRequests } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { resolveTransition } from '@/lib/workflow';
+import { recordAudit } from '@/lib/audit-log';
+import { getActingOnBehalfOf } from '@/lib/role-delegation-server';
 import { z } from 'zod';
 
 const dtaSignatureSchema = z.object({
@@ -29,14 +32,6 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Check if user is DTA
-    const userRole = user.primaryRole || user.role;
-    if (userRole !== 'dta' && userRole !== 'admin') {
-      return NextResponse.json({ 
-        error: 'Only DTA users can sign transfer documents' 
-      }, { status: 403 });
-    }
-
     const requestId = parseInt(id);
     if (isNaN(requestId)) {
       return NextResponse.json({ error: 'Invalid request ID' }, { status: 400 });
@@ -58,11 +53,15 @@ export async function POST(
 
     const aftRequest = aftRequestArray[0];
 
-    // Check if request is ready for DTA signature
-    if (aftRequest.status !== 'pending_dta') {
-      return NextResponse.json({ 
-        error: `Request is not ready for DTA signature. Current status: ${aftRequest.status}` 
-      }, { status: 400 });
+    // Check the DTA signature against the workflow definition
+    const transition = resolveTransition('dta_sign', {
+      status: aftRequest.status,
+      transferType: aftRequest.transferType,
+      roles: user.roles || [user.role],
+    }, validatedData);
+
+    if (!transition.ok) {
+      return NextResponse.json({ error: transition.error }, { status: transition.httpStatus });
     }
 
     // Parse existing transfer data
@@ -76,15 +75,19 @@ export async function POST(
       }
     }
 
+    // Set when the signer holds the role through a delegation
+    const onBehalfOf = (await getActingOnBehalfOf(user.id))[transition.actingRole];
+
     // Add DTA signature and assignments
     transferData.dtaSignature = {
       userId: user.id,
       name: `${user.firstName} ${user.lastName}`,
       email: user.email,
-      role: userRole,
+      role: transition.actingRole,
       date: validatedData.date || new Date().toISOString().split('T')[0],
       signature: validatedData.signature,
       signedAt: new Date().toISOString(),
+      ...(onBehalfOf && { onBehalfOf }),
       transferNotes: validatedData.transferNotes,
       assignedSME: validatedData.assignedSME,
       assignedMediaCustodian: validatedData.assignedMediaCustodian,
@@ -95,10 +98,10 @@ export async function POST(
     };
 
     // Update the request to pending SME signature
-    await db
+    const updatedRequest = await db
       .update(aftRequests)
       .set({
-        status: 'pending_sme',
+        status: transition.nextStatus,
         transferData: JSON.stringify(transferData),
         transferNotes: validatedData.transferNotes,
         actualStartDate: validatedData.actualStartDate ? new Date(validatedData.actualStartDate) : null,
@@ -106,11 +109,22 @@ export async function POST(
         verificationResults: validatedData.verificationResults,
         updatedAt: new Date(),
       })
-      .where(eq(aftRequests.id, requestId));
+      .where(eq(aftRequests.id, requestId))
+      .returning();
+
+    recordAudit(request, user, {
+      action: 'dta_signed',
+      requestId,
+      oldStatus: aftRequest.status,
+      newStatus: transition.nextStatus,
+      before: aftRequest,
+      after: updatedRequest[0],
+      notes: `DTA signature recorded by ${user.firstName} ${user.lastName}${onBehalfOf ? ` on behalf of ${onBehalfOf.name}` : ''}`,
+    });
 
     return NextResponse.json({ 
       message: 'DTA signature recorded successfully. Request moved to SME approval.',
-      status: 'pending_sme',
+      status: transition.nextStatus,
       transferData
     });
 
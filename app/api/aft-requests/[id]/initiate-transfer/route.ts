@@ -3,6 +3,9 @@ import { getCurrentUserFromRequest } from '@/lib/auth-server';
 import { db } from '@/lib/db/server';
 import { aftRequests } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { resolveTransition } from '@/lib/workflow';
+import { recordAudit } from '@/lib/audit-log';
+import { recordCustodyEvent } from '@/lib/drive-custody-server';
 
 export async function POST(
   request: NextRequest,
@@ -16,14 +19,6 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Check if user is DTA or admin
-    const userRole = user.primaryRole || user.role;
-    if (userRole !== 'dta' && userRole !== 'admin') {
-      return NextResponse.json({ 
-        error: 'Only DTA users can initiate transfers' 
-      }, { status: 403 });
-    }
-
     const requestId = parseInt(id);
     if (isNaN(requestId)) {
       return NextResponse.json({ error: 'Invalid request ID' }, { status: 400 });
@@ -42,11 +37,15 @@ export async function POST(
 
     const aftRequest = aftRequestArray[0];
 
-    // Check if request is ready for transfer initiation
-    if (aftRequest.status !== 'pending_dta') {
-      return NextResponse.json({ 
-        error: `Request is not ready for transfer initiation. Current status: ${aftRequest.status}` 
-      }, { status: 400 });
+    // Check the transfer initiation against the workflow definition
+    const transition = resolveTransition('initiate_transfer', {
+      status: aftRequest.status,
+      transferType: aftRequest.transferType,
+      roles: user.roles || [user.role],
+    });
+
+    if (!transition.ok) {
+      return NextResponse.json({ error: transition.error }, { status: transition.httpStatus });
     }
 
     // Parse existing transfer data
@@ -69,18 +68,41 @@ export async function POST(
     };
 
     // Update the request to active transfer status
-    await db
+    const updatedRequest = await db
       .update(aftRequests)
       .set({
-        status: 'active_transfer',
+        status: transition.nextStatus,
         transferData: JSON.stringify(transferData),
         updatedAt: new Date(),
       })
-      .where(eq(aftRequests.id, requestId));
+      .where(eq(aftRequests.id, requestId))
+      .returning();
+
+    // The requestor hands the bound drive to the DTA running the transfer
+    if (aftRequest.selectedDriveId) {
+      await recordCustodyEvent({
+        driveId: aftRequest.selectedDriveId,
+        eventType: 'dta_handoff',
+        toUserId: user.id,
+        signedBy: user.id,
+        requestId,
+        location: aftRequest.sourceSystem,
+      });
+    }
+
+    recordAudit(request, user, {
+      action: 'transfer_initiated',
+      requestId,
+      oldStatus: aftRequest.status,
+      newStatus: transition.nextStatus,
+      before: aftRequest,
+      after: updatedRequest[0],
+      notes: `Transfer initiated by ${user.firstName} ${user.lastName}`,
+    });
 
     return NextResponse.json({ 
       message: 'AFT transfer initiated successfully',
-      status: 'active_transfer',
+      status: transition.nextStatus,
       transferInitiation: transferData.transferInitiation
     });
 
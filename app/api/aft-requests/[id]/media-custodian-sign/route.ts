@@ -3,6 +3,11 @@ import { getCurrentUserFromRequest } from '@/lib/auth-server';
 import { db } from '@/lib/db/server';
 import { aftRequests } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { resolveTransition } from '@/lib/workflow';
+import { recordAudit } from '@/lib/audit-log';
+import { getActingOnBehalfOf } from '@/lib/role-delegation-server';
+import { completeDriveDisposition } from '@/lib/drive-binding';
+import type { CustodyEventType } from '@/lib/drive-custody';
 import { z } from 'zod';
 
 const mediaCustodianSignatureSchema = z.object({
@@ -15,6 +20,12 @@ const mediaCustodianSignatureSchema = z.object({
   secondCustodianSignature: z.string().optional(),
 });
 
+// Custody ledger events for the disposition types that take the drive out of use
+const DISPOSITION_CUSTODY_EVENTS: Partial<Record<string, CustodyEventType>> = {
+  destroy: 'destruction',
+  sanitize: 'sanitization',
+};
+
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -27,14 +38,6 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Check if user is Media Custodian
-    const userRole = user.primaryRole || user.role;
-    if (userRole !== 'media_custodian' && userRole !== 'admin') {
-      return NextResponse.json({ 
-        error: 'Only Media Custodian users can complete final disposition' 
-      }, { status: 403 });
-    }
-
     const requestId = parseInt(id);
     if (isNaN(requestId)) {
       return NextResponse.json({ error: 'Invalid request ID' }, { status: 400 });
@@ -65,11 +68,15 @@ export async function POST(
 
     const aftRequest = aftRequestArray[0];
 
-    // Check if request is ready for Media Custodian signature
-    if (aftRequest.status !== 'pending_media_custodian') {
-      return NextResponse.json({ 
-        error: `Request is not ready for Media Custodian signature. Current status: ${aftRequest.status}` 
-      }, { status: 400 });
+    // Check the Media Custodian signature against the workflow definition
+    const transition = resolveTransition('custodian_sign', {
+      status: aftRequest.status,
+      transferType: aftRequest.transferType,
+      roles: user.roles || [user.role],
+    }, validatedData);
+
+    if (!transition.ok) {
+      return NextResponse.json({ error: transition.error }, { status: transition.httpStatus });
     }
 
     // Parse existing transfer data
@@ -83,15 +90,19 @@ export async function POST(
       }
     }
 
+    // Set when the signer holds the role through a delegation
+    const onBehalfOf = (await getActingOnBehalfOf(user.id))[transition.actingRole];
+
     // Add Media Custodian signature
     transferData.mediaCustodianSignature = {
       userId: user.id,
       name: `${user.firstName} ${user.lastName}`,
       email: user.email,
-      role: userRole,
+      role: transition.actingRole,
       date: new Date().toISOString().split('T')[0],
       signature: validatedData.signature,
       signedAt: new Date().toISOString(),
+      ...(onBehalfOf && { onBehalfOf }),
       dispositionNotes: validatedData.dispositionNotes,
       dispositionMethod: validatedData.dispositionMethod,
       dispositionDate: validatedData.dispositionDate,
@@ -112,18 +123,32 @@ export async function POST(
     transferData.completedAt = new Date().toISOString();
 
     // Update the request to completed/disposed
-    await db
+    const updatedRequest = await db
       .update(aftRequests)
       .set({
-        status: 'disposed',
+        status: transition.nextStatus,
         transferData: JSON.stringify(transferData),
         updatedAt: new Date(),
       })
-      .where(eq(aftRequests.id, requestId));
+      .where(eq(aftRequests.id, requestId))
+      .returning();
+
+    recordAudit(request, user, {
+      action: 'media_custodian_signed',
+      requestId,
+      oldStatus: aftRequest.status,
+      newStatus: transition.nextStatus,
+      before: aftRequest,
+      after: updatedRequest[0],
+      notes: `Media custodian signature recorded by ${user.firstName} ${user.lastName}${onBehalfOf ? ` on behalf of ${onBehalfOf.name}` : ''}`,
+    });
+
+    const custodyEvent = validatedData.dispositionType && DISPOSITION_CUSTODY_EVENTS[validatedData.dispositionType];
+    await completeDriveDisposition(request, user, aftRequest, custodyEvent ? [custodyEvent] : [], validatedData.signature);
 
     return NextResponse.json({ 
       message: 'Media Custodian signature recorded successfully. AFT process completed.',
-      status: 'disposed',
+      status: transition.nextStatus,
       transferData
     });
 
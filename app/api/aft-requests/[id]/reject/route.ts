@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db/server';
-import { aftRequests, aftAuditLog } from '@/lib/db/schema';
+import { aftRequests } from '@/lib/db/schema';
+import { recordAudit } from '@/lib/audit-log';
+import { releaseDriveLock } from '@/lib/drive-binding';
 import { eq } from 'drizzle-orm';
 import { getCurrentUserFromRequest } from '@/lib/auth-server';
 import { appLogger } from '@/lib/logger';
+import { resolveTransition } from '@/lib/workflow';
+import { readApprovalState, getApprovalProgress } from '@/lib/approval-policy';
 
 export async function POST(
   request: NextRequest,
@@ -43,50 +47,62 @@ export async function POST(
 
     const currentRequest = aftRequest[0];
     const currentStatus = currentRequest.status;
-    const userRoles = user.roles || [user.role];
-    const isHighToLow = currentRequest.transferType === 'high-to-low';
-
-    // Check if user can reject at current stage
-    const canReject = (
-      (userRoles.includes('dao') && (currentStatus === 'pending_dao' || currentStatus === 'submitted')) ||
-      (userRoles.includes('approver') && (currentStatus === 'pending_approver' || (currentStatus === 'submitted' && !isHighToLow))) ||
-      (userRoles.includes('cpso') && currentStatus === 'pending_cpso') ||
-      (userRoles.includes('admin') && ['pending_dao', 'pending_approver', 'pending_cpso', 'submitted'].includes(currentStatus))
-    );
-
-    if (!canReject) {
-      return NextResponse.json({ 
-        error: 'You do not have permission to reject this request at its current stage' 
-      }, { status: 403 });
+
+    // Checked when the rejection is made, so a role taken on before the request existed can't be used on it
+    if (currentRequest.requestorId === user.id) {
+      return NextResponse.json({ error: 'You cannot reject your own request' }, { status: 403 });
+    }
+
+    // Check the rejection against the workflow definition - only roles the approval policy is waiting on may reject
+    const progress = getApprovalProgress(readApprovalState(currentRequest.approvalData, currentRequest.transferType));
+    const transition = resolveTransition('reject', {
+      status: currentStatus,
+      transferType: currentRequest.transferType,
+      roles: user.roles || [user.role],
+      awaitingRoles: progress.awaitingRoles,
+    }, { reason });
+
+    if (!transition.ok) {
+      return NextResponse.json({ error: transition.error }, { status: transition.httpStatus });
     }
 
     // Update request status to rejected
-    await db
+    const updatedRequest = await db
       .update(aftRequests)
       .set({
-        status: 'rejected',
+        status: transition.nextStatus,
         rejectionReason: reason,
         updatedAt: new Date(),
       })
-      .where(eq(aftRequests.id, requestId));
+      .where(eq(aftRequests.id, requestId))
+      .returning();
 
     // Create audit log entry
-    await db.insert(aftAuditLog).values({
-      requestId,
-      userId: user.id,
+    recordAudit(request, user, {
       action: 'REJECTED',
+      requestId,
       oldStatus: currentStatus,
-      newStatus: 'rejected',
-      notes: `Request rejected by ${user.firstName} ${user.lastName} (${user.role}): ${reason}`,
-      createdAt: new Date(),
+      newStatus: transition.nextStatus,
+      before: currentRequest,
+      after: updatedRequest[0],
+      notes: `Request rejected by ${user.firstName} ${user.lastName} (${transition.actingRole}): ${reason}`,
     });
 
+    const releasedDrive = await releaseDriveLock(requestId);
+    if (releasedDrive) {
+      recordAudit(request, user, {
+        action: 'drive_released',
+        requestId,
+        notes: `Drive ${releasedDrive.serialNumber} released from request ${currentRequest.requestNumber} on rejection`,
+      });
+    }
+
     // Log security event
     appLogger.securityEvent('REQUEST_REJECTED', {
       requestId,
       requestNumber: currentRequest.requestNumber,
       rejectedBy: user.email,
-      rejectedByRole: user.role,
+      rejectedByRole: transition.actingRole,
       previousStatus: currentStatus,
       reason: reason.substring(0, 100) // Truncate for logging
     }, {
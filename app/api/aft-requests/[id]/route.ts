@@ -1,9 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser, getCurrentUserFromRequest } from '@/lib/auth-server';
 import { db as getDb } from '@/lib/db';
-import { aftRequests, aftAuditLog } from '@/lib/db/schema';
-import { eq } from 'drizzle-orm';
+import { aftRequests, AFTStatus } from '@/lib/db/schema';
+import { recordAudit } from '@/lib/audit-log';
+import { and, eq } from 'drizzle-orm';
+import { z } from 'zod';
 import { appLogger } from '@/lib/logger';
+import { resolveTransition } from '@/lib/workflow';
+import { buildRequestUpdate } from '@/lib/aft-request-form-server';
+import { parseRequestUpdate } from '@/lib/aft-request-form';
+import { releaseDriveLock } from '@/lib/drive-binding';
 
 export const runtime = 'nodejs';
 
@@ -141,53 +147,104 @@ export async function PUT(
     const current = currentRequest[0];
     const userRoles = user.roles || [user.role];
 
-    // Check if user can edit this request
-    const canEdit = (
-      // Requestors can edit their own requests in specific statuses
-      (userRoles.includes('requestor') && 
-       current.requestorId === user.id && 
-       ['draft', 'rejected'].includes(current.status)) ||
-      // Admin can edit any request
-      userRoles.includes('admin')
-    );
+    // Status changes must follow the workflow - the only one allowed here is returning to draft
+    const statusChange = updateData.status && updateData.status !== current.status ? updateData.status : null;
+    let nextStatus = current.status;
 
-    // Special case: Allow requestors to return their own submitted requests to draft for editing
-    const canReturnToDraft = (
-      userRoles.includes('requestor') && 
-      current.requestorId === user.id && 
-      ['submitted', 'pending_dao', 'pending_approver', 'pending_cpso'].includes(current.status) &&
-      updateData.status === 'draft'
-    );
+    if (statusChange) {
+      if (statusChange !== 'draft') {
+        return NextResponse.json({ 
+          error: 'Status changes must be made through the workflow actions for this request' 
+        }, { status: 400 });
+      }
+
+      if (current.requestorId !== user.id && !userRoles.includes('admin')) {
+        return NextResponse.json({ 
+          error: 'You do not have permission to edit this request at its current stage' 
+        }, { status: 403 });
+      }
+
+      const transition = resolveTransition('return_to_draft', {
+        status: current.status,
+        transferType: current.transferType,
+        roles: userRoles,
+      }, updateData);
+
+      if (!transition.ok) {
+        return NextResponse.json({ error: transition.error }, { status: transition.httpStatus });
+      }
 
-    if (!canEdit && !canReturnToDraft) {
-      return NextResponse.json({ 
-        error: 'You do not have permission to edit this request at its current stage' 
-      }, { status: 403 });
+      nextStatus = transition.nextStatus;
+    } else {
+      // Check if user can edit this request
+      const canEdit = (
+        // Requestors can edit their own requests in specific statuses
+        (userRoles.includes('requestor') && 
+         current.requestorId === user.id && 
+         ['draft', 'rejected'].includes(current.status)) ||
+        // Admin can edit any request
+        userRoles.includes('admin')
+      );
+
+      if (!canEdit) {
+        return NextResponse.json({ 
+          error: 'You do not have permission to edit this request at its current stage' 
+        }, { status: 403 });
+      }
+    }
+
+    // Only form fields may be edited; the systems and transfer type follow the catalog
+    const update = await buildRequestUpdate(parseRequestUpdate(updateData), current);
+    if (!update.ok) {
+      return NextResponse.json({ error: update.error }, { status: update.httpStatus });
+    }
+
+    // Once submitted, the drive is locked to the request; changing drives means returning it to draft first
+    const driveChanged = update.values.selectedDriveId !== undefined && update.values.selectedDriveId !== current.selectedDriveId;
+    if (driveChanged && nextStatus !== AFTStatus.DRAFT && nextStatus !== AFTStatus.REJECTED) {
+      return NextResponse.json({
+        error: 'The drive can only be changed while the request is a draft or rejected'
+      }, { status: 409 });
     }
 
-    // Update the request
+    // Update the request, unless its status moved on since it was read
     const updatedRequest = await db
       .update(aftRequests)
       .set({
-        ...updateData,
+        ...update.values,
+        status: nextStatus,
         updatedAt: new Date(),
-        // Clear rejection reason if resubmitting
-        rejectionReason: updateData.status === 'submitted' ? null : updateData.rejectionReason
       })
-      .where(eq(aftRequests.id, requestId))
+      .where(and(eq(aftRequests.id, requestId), eq(aftRequests.status, current.status)))
       .returning();
 
+    if (updatedRequest.length === 0) {
+      return NextResponse.json({ error: 'The request was changed by someone else - reload it and try again' }, { status: 409 });
+    }
+
     // Create audit log entry
-    await db.insert(aftAuditLog).values({
+    recordAudit(request, user, {
+      action: statusChange ? 'RETURNED_TO_DRAFT' : 'UPDATED',
       requestId,
-      userId: user.id,
-      action: current.status === 'rejected' && updateData.status === 'submitted' ? 'RESUBMITTED' : 'UPDATED',
       oldStatus: current.status,
-      newStatus: updateData.status || current.status,
+      newStatus: nextStatus,
+      before: current,
+      after: updatedRequest[0],
       notes: `Request updated by ${user.firstName} ${user.lastName}`,
-      createdAt: new Date(),
     });
 
+    // A request back in draft no longer holds its drive
+    if (statusChange) {
+      const releasedDrive = await releaseDriveLock(requestId);
+      if (releasedDrive) {
+        recordAudit(request, user, {
+          action: 'drive_released',
+          requestId,
+          notes: `Drive ${releasedDrive.serialNumber} released from request ${current.requestNumber} on return to draft`,
+        });
+      }
+    }
+
     // Log the update
     appLogger.info('AFT request updated', {
       userId: user.id.toString(),
@@ -195,24 +252,22 @@ export async function PUT(
       resource: `request_${requestId}`
     });
 
-    if (current.status === 'rejected' && updateData.status === 'submitted') {
-      appLogger.securityEvent('REQUEST_RESUBMITTED', {
-        requestId,
-        requestNumber: current.requestNumber,
-        resubmittedBy: user.email,
-        previousStatus: current.status
-      }, {
-        userId: user.id.toString(),
-        action: 'REQUEST_RESUBMISSION'
-      });
-    }
-
     return NextResponse.json({ 
       message: 'Request updated successfully',
       request: updatedRequest[0]
     });
 
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues?.map(e => `${e.path.join('.')}: ${e.message}`) || []
+        },
+        { status: 400 }
+      );
+    }
+
     appLogger.error(`Error updating AFT request: ${error instanceof Error ? error.message : String(error)}`);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
@@ -272,6 +327,14 @@ export async function DELETE(
     // Delete the request (cascade delete should handle attachments)
     await db.delete(aftRequests).where(eq(aftRequests.id, requestId));
 
+    recordAudit(request, user, {
+      action: 'deleted',
+      requestId,
+      oldStatus: aftRequest.status,
+      before: aftRequest,
+      notes: `Draft request ${aftRequest.requestNumber} deleted`,
+    });
+
     // Log the deletion
     appLogger.info(`Draft AFT request ${aftRequest.requestNumber} deleted by user ${user.id}`, {
       userId: user.id.toString(),
@@ -3,6 +3,10 @@ import { getCurrentUserFromRequest } from '@/lib/auth-server';
 import { db } from '@/lib/db/server';
 import { aftRequests } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { resolveTransition } from '@/lib/workflow';
+import { recordAudit } from '@/lib/audit-log';
+import { getActingOnBehalfOf } from '@/lib/role-delegation-server';
+import { recordCustodyEvent } from '@/lib/drive-custody-server';
 import { z } from 'zod';
 
 const smeSignatureSchema = z.object({
@@ -30,14 +34,6 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Check if user is SME
-    const userRole = user.primaryRole || user.role;
-    if (userRole !== 'sme' && userRole !== 'admin') {
-      return NextResponse.json({ 
-        error: 'Only SME users can provide technical validation' 
-      }, { status: 403 });
-    }
-
     const requestId = parseInt(id);
     if (isNaN(requestId)) {
       return NextResponse.json({ error: 'Invalid request ID' }, { status: 400 });
@@ -59,11 +55,15 @@ export async function POST(
 
     const aftRequest = aftRequestArray[0];
 
-    // Check if request is ready for SME signature
-    if (aftRequest.status !== 'pending_sme_signature' && aftRequest.status !== 'pending_sme') {
-      return NextResponse.json({ 
-        error: `Request is not ready for SME signature. Current status: ${aftRequest.status}` 
-      }, { status: 400 });
+    // Check the SME signature against the workflow definition
+    const transition = resolveTransition('sme_sign', {
+      status: aftRequest.status,
+      transferType: aftRequest.transferType,
+      roles: user.roles || [user.role],
+    }, validatedData);
+
+    if (!transition.ok) {
+      return NextResponse.json({ error: transition.error }, { status: transition.httpStatus });
     }
 
     // Parse existing transfer data
@@ -77,32 +77,60 @@ export async function POST(
       }
     }
 
+    // Set when the signer holds the role through a delegation
+    const onBehalfOf = (await getActingOnBehalfOf(user.id))[transition.actingRole];
+
     // Add SME signature
     transferData.smeSignature = {
       userId: user.id,
       name: `${user.firstName} ${user.lastName}`,
       email: user.email,
-      role: userRole,
+      role: transition.actingRole,
       date: validatedData.date || new Date().toISOString().split('T')[0],
       signature: validatedData.signature,
       comments: validatedData.comments || '',
       signedAt: new Date().toISOString(),
+      ...(onBehalfOf && { onBehalfOf }),
       technicalValidation: validatedData.technicalValidation,
     };
 
     // Update the request to pending media custodian
-    await db
+    const updatedRequest = await db
       .update(aftRequests)
       .set({
-        status: 'pending_media_custodian',
+        status: transition.nextStatus,
         transferData: JSON.stringify(transferData),
         updatedAt: new Date(),
       })
-      .where(eq(aftRequests.id, requestId));
+      .where(eq(aftRequests.id, requestId))
+      .returning();
+
+    if (aftRequest.selectedDriveId) {
+      await recordCustodyEvent({
+        driveId: aftRequest.selectedDriveId,
+        eventType: 'sme_review',
+        toUserId: user.id,
+        signedBy: user.id,
+        requestId,
+        location: aftRequest.destSystem,
+        signature: validatedData.signature,
+        notes: validatedData.comments,
+      });
+    }
+
+    recordAudit(request, user, {
+      action: 'sme_signed',
+      requestId,
+      oldStatus: aftRequest.status,
+      newStatus: transition.nextStatus,
+      before: aftRequest,
+      after: updatedRequest[0],
+      notes: `SME signature recorded by ${user.firstName} ${user.lastName}${onBehalfOf ? ` on behalf of ${onBehalfOf.name}` : ''}`,
+    });
 
     return NextResponse.json({ 
       message: 'SME signature recorded successfully. Request moved to Media Custodian.',
-      status: 'pending_media_custodian',
+      status: transition.nextStatus,
       transferData
     });
 
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUserFromRequest } from '@/lib/auth-server';
-import { db as getDb } from '@/lib/db';
-import { aftRequests, aftAuditLog } from '@/lib/db/schema';
+import { db } from '@/lib/db/server';
+import { aftRequests, approvalPolicies } from '@/lib/db/schema';
+import { recordAudit } from '@/lib/audit-log';
 import { eq } from 'drizzle-orm';
+import { resolveTransition } from '@/lib/workflow';
+import { createApprovalState, getApprovalProgress, selectApprovalPolicy } from '@/lib/approval-policy';
+import { checkDriveBinding, lockDriveToRequest } from '@/lib/drive-binding';
 import { z } from 'zod';
 
 export const runtime = 'nodejs';
@@ -35,7 +39,6 @@ export async function POST(
     const validatedData = submitRequestSchema.parse(body);
 
     // Get the current request
-    const db = getDb();
     const currentRequest = await db
       .select()
       .from(aftRequests)
@@ -49,49 +52,105 @@ export async function POST(
     const current = currentRequest[0];
     const userRoles = user.roles || [user.role];
 
-    // Check if user can submit this request
-    const canSubmit = (
-      userRoles.includes('requestor') && 
-      current.requestorId === user.id && 
-      current.status === 'draft'
-    ) || userRoles.includes('admin');
-
-    if (!canSubmit) {
+    // Only the requestor (or an admin) can submit a request
+    if (current.requestorId !== user.id && !userRoles.includes('admin')) {
       return NextResponse.json({ 
         error: 'You can only submit your own draft requests' 
       }, { status: 403 });
     }
 
-    // Determine the next status based on transfer type
-    const isHighToLow = current.transferType === 'high-to-low';
-    const nextStatus = isHighToLow ? 'pending_dao' : 'pending_approver';
-
-    // Update the request status
-    const updatedRequest = await db
-      .update(aftRequests)
-      .set({
-        status: nextStatus,
-        updatedAt: new Date(),
-      })
-      .where(eq(aftRequests.id, requestId))
-      .returning();
+    // A wizard draft has not been through the create schema yet
+    if (current.wizardStep !== null) {
+      return NextResponse.json({ 
+        error: 'Finish the request form before submitting this draft' 
+      }, { status: 400 });
+    }
+
+    // Pick the approval policy for this request - resubmissions start a fresh approval round
+    let transferData: { mediaType?: string } = {};
+    try {
+      transferData = current.transferData ? JSON.parse(current.transferData) : {};
+    } catch {
+      // Fall back to the media type column below
+    }
+
+    const policies = await db
+      .select()
+      .from(approvalPolicies)
+      .where(eq(approvalPolicies.isActive, true));
+
+    const policy = selectApprovalPolicy(policies, {
+      transferType: current.transferType,
+      classification: current.classification,
+      mediaType: transferData.mediaType || current.dataFormat,
+    });
+    const approvalState = createApprovalState(policy, current.transferType);
+    const approvalProgress = getApprovalProgress(approvalState);
+
+    // Check the submission against the workflow definition
+    const transition = resolveTransition('submit', {
+      status: current.status,
+      transferType: current.transferType,
+      roles: userRoles,
+    }, validatedData, approvalProgress.status);
+
+    if (!transition.ok) {
+      return NextResponse.json({ error: transition.error }, { status: transition.httpStatus });
+    }
+
+    const nextStatus = transition.nextStatus;
+
+    // The drive must be issued to the requestor and cleared for the request's classification
+    if (!current.selectedDriveId) {
+      return NextResponse.json({ error: 'Select the drive issued to you before submitting' }, { status: 400 });
+    }
+
+    const binding = await checkDriveBinding(current.selectedDriveId, current);
+    if (!binding.ok) {
+      return NextResponse.json({ error: binding.error }, { status: binding.httpStatus });
+    }
+
+    // Update the request status and hold the drive for it until its media disposition
+    const submitted = lockDriveToRequest(binding.drive.id, current, {
+      status: nextStatus,
+      approvalData: JSON.stringify({
+        ...approvalState,
+        requiresDAOApproval: approvalState.steps.some(step => step.role === 'dao'),
+        transferType: current.transferType,
+        signatures: {},
+        completedAt: null,
+      }),
+    });
+
+    if (!submitted.ok) {
+      return NextResponse.json({ error: submitted.error }, { status: submitted.httpStatus });
+    }
 
     // Create audit log entry
-    await db.insert(aftAuditLog).values({
-      requestId: requestId,
-      userId: user.id,
+    recordAudit(request, user, {
       action: 'submitted',
-      oldStatus: 'draft',
+      requestId,
+      oldStatus: current.status,
       newStatus: nextStatus,
-      notes: `Request submitted with digital signature: ${validatedData.signature}`,
-      createdAt: new Date(),
+      before: current,
+      after: submitted.request,
+      notes: `Request submitted with digital signature: ${validatedData.signature} (approval policy: ${approvalState.policyName})`,
+    });
+
+    recordAudit(request, user, {
+      action: 'drive_locked',
+      requestId,
+      before: binding.drive,
+      after: submitted.drive,
+      notes: `Drive ${binding.drive.serialNumber} locked to request ${current.requestNumber}`,
     });
 
     return NextResponse.json({
       message: 'Request submitted successfully',
-      request: updatedRequest[0],
+      request: submitted.request,
       nextStatus: nextStatus,
-      requiresApproval: isHighToLow ? 'DAO (Designated Authorizing Official)' : 'Approver (Information System Security Manager)'
+      approvalPolicy: approvalState.policyName,
+      requiresApproval: approvalProgress.activeSteps.map(step => step.name).join(', ')
     });
 
   } catch (error) {
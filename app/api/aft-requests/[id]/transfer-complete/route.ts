@@ -3,6 +3,9 @@ import { getCurrentUserFromRequest } from '@/lib/auth-server';
 import { db } from '@/lib/db/server';
 import { aftRequests } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { resolveTransition } from '@/lib/workflow';
+import { recordAudit } from '@/lib/audit-log';
+import { compareManifests, fileManifestSchema, type ManifestComparison, type ManifestEntry } from '@/lib/file-manifest';
 import { z } from 'zod';
 
 const transferCompleteSchema = z.object({
@@ -12,6 +15,8 @@ const transferCompleteSchema = z.object({
   transferDate: z.string().min(1, 'Transfer date is required'),
   tpiMaintained: z.boolean().refine(val => val === true, 'Two-Person Integrity must be confirmed'),
   completedDate: z.string().optional(),
+  // Hashes taken on the destination side, checked against the request's file manifest
+  destinationManifest: fileManifestSchema.optional(),
 });
 
 export async function POST(
@@ -26,14 +31,6 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Check if user is DTA
-    const userRole = user.primaryRole || user.role;
-    if (userRole !== 'dta' && userRole !== 'admin') {
-      return NextResponse.json({ 
-        error: 'Only DTA users can complete transfers' 
-      }, { status: 403 });
-    }
-
     const requestId = parseInt(id);
     if (isNaN(requestId)) {
       return NextResponse.json({ error: 'Invalid request ID' }, { status: 400 });
@@ -55,11 +52,15 @@ export async function POST(
 
     const aftRequest = aftRequestArray[0];
 
-    // Check if request is ready for completion
-    if (aftRequest.status !== 'active_transfer') {
-      return NextResponse.json({ 
-        error: `Request is not ready for completion. Current status: ${aftRequest.status}` 
-      }, { status: 400 });
+    // Check the transfer completion against the workflow definition
+    const transition = resolveTransition('complete_transfer', {
+      status: aftRequest.status,
+      transferType: aftRequest.transferType,
+      roles: user.roles || [user.role],
+    }, validatedData);
+
+    if (!transition.ok) {
+      return NextResponse.json({ error: transition.error }, { status: transition.httpStatus });
     }
 
     // Parse existing transfer data
@@ -73,6 +74,22 @@ export async function POST(
       }
     }
 
+    // Compare the destination hash list with the manifest captured at request time
+    let manifestVerification: (ManifestComparison & { verifiedAt: string; verifiedBy: number; verifiedByName: string }) | null = null;
+    if (validatedData.destinationManifest) {
+      const fileManifest = Array.isArray(transferData.fileManifest) ? transferData.fileManifest as ManifestEntry[] : [];
+      if (fileManifest.length === 0) {
+        return NextResponse.json({ error: 'This request has no file manifest to verify the destination hashes against' }, { status: 400 });
+      }
+      manifestVerification = {
+        ...compareManifests(fileManifest, validatedData.destinationManifest),
+        verifiedAt: new Date().toISOString(),
+        verifiedBy: user.id,
+        verifiedByName: `${user.firstName} ${user.lastName}`,
+      };
+      transferData.manifestVerification = manifestVerification;
+    }
+
     // Add transfer completion data
     transferData.transferCompletion = {
       completedBy: user.id,
@@ -88,19 +105,41 @@ export async function POST(
     };
 
     // Update the request to pending SME signature status
-    await db
+    const updatedRequest = await db
       .update(aftRequests)
       .set({
-        status: 'pending_sme_signature',
+        status: transition.nextStatus,
         transferData: JSON.stringify(transferData),
         updatedAt: new Date(),
       })
-      .where(eq(aftRequests.id, requestId));
+      .where(eq(aftRequests.id, requestId))
+      .returning();
+
+    recordAudit(request, user, {
+      action: 'transfer_completed',
+      requestId,
+      oldStatus: aftRequest.status,
+      newStatus: transition.nextStatus,
+      before: aftRequest,
+      after: updatedRequest[0],
+      notes: `Transfer completed by ${user.firstName} ${user.lastName}`,
+    });
+
+    if (manifestVerification) {
+      recordAudit(request, user, {
+        action: 'manifest_verified',
+        requestId,
+        notes: manifestVerification.verified
+          ? `All ${manifestVerification.total} manifest files matched at the destination`
+          : `Manifest verification failed: ${manifestVerification.matched} matched, ${manifestVerification.mismatched} mismatched, ${manifestVerification.missing} missing, ${manifestVerification.unexpected} not in manifest`,
+      });
+    }
 
     return NextResponse.json({ 
       message: 'AFT transfer completed successfully, awaiting SME signature',
-      status: 'pending_sme_signature',
-      transferCompletion: transferData.transferCompletion
+      status: transition.nextStatus,
+      transferCompletion: transferData.transferCompletion,
+      manifestVerification,
     });
 
   } catch (error) {
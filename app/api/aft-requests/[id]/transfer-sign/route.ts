@@ -3,6 +3,10 @@ import { getCurrentUserFromRequest } from '@/lib/auth-server';
 import { db } from '@/lib/db/server';
 import { aftRequests } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { resolveTransition, type WorkflowAction } from '@/lib/workflow';
+import type { OnBehalfOf } from '@/lib/role-delegation';
+import { recordAudit } from '@/lib/audit-log';
+import { getActingOnBehalfOf } from '@/lib/role-delegation-server';
 
 interface TransferSignatureData {
   userId: number;
@@ -12,6 +16,7 @@ interface TransferSignatureData {
   date: string;
   signature: string;
   signedAt: string;
+  onBehalfOf?: OnBehalfOf; // Set when the signer holds the role through a delegation
   technicalValidation?: {
     antivirusResults: string;
     integrityCheck: string;
@@ -87,52 +92,53 @@ export async function POST(
       }
     }
 
-    // Check if current user can sign at this stage
-    let canUserSign = false;
-    let newStatus = aftRequest.status;
-    let isSecondaryDta = false;
-
-    if (user.role === 'admin') {
-      canUserSign = true; // Admin can sign at any stage
-    } else if (user.role === 'dta' && aftRequest.status === 'pending_dta') {
-      // First DTA signature (primary)
-      canUserSign = true;
-      if (!transferCompletion && !technicalValidation) {
-        return NextResponse.json({ 
-          error: 'Either transfer completion data or technical validation data is required for DTA signature' 
-        }, { status: 400 });
-      }
-    } else if (user.role === 'dta' && aftRequest.status === 'pending_sme') {
-      // Any DTA can sign as secondary signer when secondary signer type is DTA
-      canUserSign = true;
-      isSecondaryDta = true;
-      if (!transferCompletion) {
-        return NextResponse.json({ 
-          error: 'Transfer completion data is required for secondary DTA signature' 
-        }, { status: 400 });
-      }
-    } else if (user.role === 'sme' && aftRequest.status === 'pending_sme') {
-      // Any SME can sign as secondary signer when secondary signer type is SME
-      canUserSign = true;
-      if (!technicalValidation) {
-        return NextResponse.json({ 
-          error: 'Technical validation data is required for SME signature' 
-        }, { status: 400 });
-      }
-    } else if (user.role === 'dta' && aftRequest.status === 'pending_media_custodian') {
-      // Any DTA can complete the final transfer step
-      canUserSign = true;
-      if (!transferCompletion) {
-        return NextResponse.json({ 
-          error: 'Transfer completion data is required for DTA completion signature' 
-        }, { status: 400 });
-      }
+    // Determine which workflow action this signature performs
+    const action: WorkflowAction | null =
+      aftRequest.status === 'pending_dta' ? 'primary_sign' :
+      aftRequest.status === 'pending_sme' ? 'secondary_sign' :
+      null;
+
+    if (!action) {
+      return NextResponse.json({ 
+        error: `Cannot sign at this stage. Current status: ${aftRequest.status}` 
+      }, { status: 400 });
+    }
+
+    const transition = resolveTransition(action, {
+      status: aftRequest.status,
+      transferType: aftRequest.transferType,
+      roles: user.roles || [user.role],
+    }, body);
+
+    if (!transition.ok) {
+      return NextResponse.json({ error: transition.error }, { status: transition.httpStatus });
+    }
+
+    const signerRole = transition.actingRole;
+    const onBehalfOf = (await getActingOnBehalfOf(user.id))[signerRole];
+
+    if (action === 'primary_sign' && !transferCompletion && !technicalValidation) {
+      return NextResponse.json({ 
+        error: 'Either transfer completion data or technical validation data is required for DTA signature' 
+      }, { status: 400 });
     }
 
-    if (!canUserSign) {
+    if (action === 'secondary_sign' && signerRole === 'sme' && !technicalValidation) {
       return NextResponse.json({ 
-        error: `Cannot sign at this stage. Current status: ${aftRequest.status}, your role: ${user.role}` 
-      }, { status: 403 });
+        error: 'Technical validation data is required for SME signature' 
+      }, { status: 400 });
+    }
+
+    if (action === 'secondary_sign' && signerRole !== 'sme' && !transferCompletion) {
+      return NextResponse.json({ 
+        error: 'Transfer completion data is required for secondary DTA signature' 
+      }, { status: 400 });
+    }
+
+    if (action === 'secondary_sign' && !transferData.primaryDta) {
+      return NextResponse.json({ 
+        error: 'The primary DTA signature must be recorded before the secondary signature' 
+      }, { status: 400 });
     }
 
     // Create signature data
@@ -140,54 +146,30 @@ export async function POST(
       userId: user.id,
       name: `${user.firstName} ${user.lastName}`,
       email: user.email,
-      role: user.role,
+      role: signerRole,
       date: new Date().toISOString().split('T')[0],
       signature,
       signedAt: new Date().toISOString(),
+      ...(onBehalfOf && { onBehalfOf }),
       ...(technicalValidation && { technicalValidation }),
       ...(transferCompletion && { transferCompletion }),
     };
 
-    // Update transfer signatures based on role and position
-    if (user.role === 'dta' && aftRequest.status === 'pending_dta') {
-      // Primary DTA signature
+    // Update transfer signatures based on signing position
+    if (action === 'primary_sign') {
       transferData.primaryDta = signatureData;
-      // Default workflow moves to SME next
-      
-      if (true) { // Always go to SME next in current workflow
-        newStatus = 'pending_sme';
-      } else {
-        // No secondary signer configured, complete the transfer
-        newStatus = 'pending_media_custodian';
-      }
-    } else if (isSecondaryDta || (user.role === 'sme' && aftRequest.status === 'pending_sme')) {
+    } else {
       // Secondary signer (either second DTA or SME)
       transferData.secondarySigner = signatureData;
-      
-      // Check if primary DTA has already signed
-      if (transferData.primaryDta) {
-        newStatus = 'pending_media_custodian'; // Both signatures complete, ready for final completion
-      } else {
-        // This shouldn't happen in normal flow, but handle it gracefully
-        newStatus = 'pending_dta'; // Wait for primary DTA
-      }
-    } else if (user.role === 'dta' && aftRequest.status === 'disposed') {
-      // Final DTA completion step - any DTA can complete
-      if (transferData.primaryDta) {
-        // Update existing primary DTA data with completion info
-        transferData.primaryDta = { ...transferData.primaryDta, ...signatureData };
-      } else {
-        // This DTA is completing the transfer
-        transferData.primaryDta = signatureData;
-      }
-      newStatus = 'completed';
-      transferData.completedAt = new Date().toISOString();
+      transferData.secondarySignerType = signerRole === 'sme' ? 'sme' : 'dta';
     }
 
+    const newStatus = transition.nextStatus;
+
     console.log('Updating transfer with signatures and status:', newStatus);
 
     // Update the AFT request with transfer signatures and new status
-    await db
+    const updatedRequest = await db
       .update(aftRequests)
       .set({
         transferData: JSON.stringify(transferData),
@@ -201,7 +183,18 @@ export async function POST(
           verificationResults: transferCompletion.verificationResults,
         }),
       })
-      .where(eq(aftRequests.id, requestId));
+      .where(eq(aftRequests.id, requestId))
+      .returning();
+
+    recordAudit(request, user, {
+      action: 'transfer_signed',
+      requestId,
+      oldStatus: aftRequest.status,
+      newStatus: transition.nextStatus,
+      before: aftRequest,
+      after: updatedRequest[0],
+      notes: `${action === 'primary_sign' ? 'Primary' : 'Secondary'} transfer signature recorded as ${signerRole}${onBehalfOf ? ` on behalf of ${onBehalfOf.name}` : ''}`,
+    });
 
     console.log('Transfer signature recorded successfully');
 
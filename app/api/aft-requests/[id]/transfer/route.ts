@@ -3,6 +3,8 @@ import { getCurrentUser } from '@/lib/auth-server';
 import { db as getDb } from '@/lib/db';
 import { aftRequests } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { resolveTransition } from '@/lib/workflow';
+import { recordAudit } from '@/lib/audit-log';
 import { z } from 'zod';
 
 export const runtime = 'nodejs';
@@ -39,14 +41,6 @@ export async function POST(
       );
     }
 
-    // Check if user can complete transfers
-    if (user.role !== 'dta' && user.role !== 'admin') {
-      return NextResponse.json(
-        { error: 'Insufficient permissions to complete transfers' },
-        { status: 403 }
-      );
-    }
-
     const { id } = await params;
     const requestId = parseInt(id);
     if (isNaN(requestId)) {
@@ -72,11 +66,17 @@ export async function POST(
       );
     }
 
-    // Check if request is in correct status
-    if (aftRequest.status !== 'approved') {
+    // Check the transfer against the workflow definition
+    const transition = resolveTransition('legacy_transfer', {
+      status: aftRequest.status,
+      transferType: aftRequest.transferType,
+      roles: user.roles || [user.role],
+    }, validatedData);
+
+    if (!transition.ok) {
       return NextResponse.json(
-        { error: 'Request cannot be transferred - invalid status' },
-        { status: 400 }
+        { error: transition.error },
+        { status: transition.httpStatus }
       );
     }
 
@@ -116,7 +116,7 @@ export async function POST(
     const updatedRequest = await db
       .update(aftRequests)
       .set({
-        status: 'completed', // Move to completed status after DTA processing
+        status: transition.nextStatus, // Move to completed status after DTA processing
         actualStartDate: new Date(validatedData.transferDate),
         actualEndDate: new Date(),
         updatedAt: new Date(),
@@ -127,6 +127,16 @@ export async function POST(
       .where(eq(aftRequests.id, requestId))
       .returning();
 
+    recordAudit(request, user, {
+      action: 'transfer_completed',
+      requestId,
+      oldStatus: aftRequest.status,
+      newStatus: transition.nextStatus,
+      before: aftRequest,
+      after: updatedRequest[0],
+      notes: `Transfer completed by DTA: ${validatedData.dtaName} and SME: ${validatedData.smeName}`,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Transfer completed successfully',
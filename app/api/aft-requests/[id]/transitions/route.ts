@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { db } from '@/lib/db/server';
+import { aftRequests } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getAvailableTransitions } from '@/lib/workflow';
+import { readApprovalState, getApprovalProgress, hasApprovedStep } from '@/lib/approval-policy';
+import { getActingOnBehalfOf } from '@/lib/role-delegation-server';
+
+export const runtime = 'nodejs';
+
+// GET - Workflow transitions the current user can perform on this request
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const requestId = parseInt(id);
+    if (isNaN(requestId)) {
+      return NextResponse.json({ error: 'Invalid request ID' }, { status: 400 });
+    }
+
+    const aftRequestArray = await db
+      .select()
+      .from(aftRequests)
+      .where(eq(aftRequests.id, requestId))
+      .limit(1);
+
+    if (aftRequestArray.length === 0) {
+      return NextResponse.json({ error: 'AFT request not found' }, { status: 404 });
+    }
+
+    const aftRequest = aftRequestArray[0];
+    const userRoles = user.roles || [user.role];
+    const isOwner = aftRequest.requestorId === user.id;
+    const approvalState = readApprovalState(aftRequest.approvalData, aftRequest.transferType);
+    const approvalProgress = getApprovalProgress(approvalState);
+
+    const transitions = getAvailableTransitions({
+      status: aftRequest.status,
+      transferType: aftRequest.transferType,
+      roles: userRoles,
+      awaitingRoles: approvalProgress.awaitingRoles,
+    })
+      // Requestor actions only apply to the request owner
+      .filter(transition => isOwner || userRoles.includes('admin') || !['submit', 'return_to_draft'].includes(transition.action))
+      // and nobody reviews their own request, whatever roles they hold
+      .filter(transition => !isOwner || !['approve', 'reject'].includes(transition.action))
+      .map(({ action, label, to, requiredPayload }) => ({ action, label, to, requiredPayload }));
+
+    // Users who already approved the active steps cannot approve them again, nor can a
+    // delegate approve a step the user they act for has signed
+    const actingFor = await getActingOnBehalfOf(user.id);
+    const canStillApprove = approvalProgress.activeSteps.some(step =>
+      (userRoles.includes(step.role) || userRoles.includes('admin')) &&
+      !hasApprovedStep(approvalState, step.id, user.id, (userRoles.includes(step.role) && actingFor[step.role]?.userId) || user.id)
+    );
+
+    return NextResponse.json({
+      requestId,
+      status: aftRequest.status,
+      transitions: transitions.filter(transition => transition.action !== 'approve' || canStillApprove),
+      approval: {
+        policyName: approvalState.policyName,
+        activeSteps: approvalProgress.activeSteps,
+        awaitingRoles: approvalProgress.awaitingRoles,
+      },
+    });
+
+  } catch (error) {
+    console.error('Get workflow transitions error:', error);
+    return NextResponse.json({ error: 'Failed to load workflow transitions' }, { status: 500 });
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { MAX_REQUEST_DRAFT_SIZE, buildDraftFormData, requestDraftSchema } from '@/lib/aft-request-form';
+import { getRequestDraft, updateRequestDraft } from '@/lib/request-drafts-server';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+// GET /api/aft-requests/drafts/[id] - Load a draft to resume the wizard
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const draftId = parseInt(id);
+    if (isNaN(draftId)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    const draft = await getRequestDraft(draftId, user.id);
+    if (!draft) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      draft: {
+        id: draft.id,
+        requestNumber: draft.requestNumber,
+        currentStep: draft.wizardStep,
+        data: buildDraftFormData(draft),
+        updatedAt: draft.updatedAt,
+      },
+    });
+
+  } catch (error) {
+    appLogger.error(`Error loading request draft: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to load request draft' }, { status: 500 });
+  }
+}
+
+// PUT /api/aft-requests/drafts/[id] - Autosave the wizard's progress
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const draftId = parseInt(id);
+    if (isNaN(draftId)) {
+      return NextResponse.json({ error: 'Invalid draft ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const input = requestDraftSchema.parse(body);
+    if (JSON.stringify(input.data).length > MAX_REQUEST_DRAFT_SIZE) {
+      return NextResponse.json({ error: 'Draft is too large to save' }, { status: 413 });
+    }
+
+    const result = await updateRequestDraft(draftId, input, user);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.httpStatus });
+    }
+    const { before, draft } = result;
+
+    // Autosave fires every few seconds of typing, so only moving between wizard steps is audited
+    if (before?.wizardStep !== draft.wizardStep) {
+      recordAudit(request, user, {
+        action: 'draft_step_changed',
+        requestId: draft.id,
+        before,
+        after: draft,
+        notes: `Draft request ${draft.requestNumber} moved from wizard step ${(before?.wizardStep ?? 0) + 1} to ${(draft.wizardStep ?? 0) + 1}`,
+      });
+    }
+
+    return NextResponse.json({ draft: { id: draft.id, currentStep: draft.wizardStep, updatedAt: draft.updatedAt } });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues?.map(e => e.message) || []
+        },
+        { status: 400 }
+      );
+    }
+
+    appLogger.error(`Error saving request draft: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to save request draft' }, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { MAX_REQUEST_DRAFT_SIZE, buildDraftFormData, requestDraftSchema } from '@/lib/aft-request-form';
+import { createRequestDraft, listRequestDrafts } from '@/lib/request-drafts-server';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+// GET /api/aft-requests/drafts - The current user's unfinished wizard drafts, most recently saved first
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const drafts = await listRequestDrafts(user.id);
+
+    return NextResponse.json({
+      drafts: drafts.map(draft => ({
+        id: draft.id,
+        requestNumber: draft.requestNumber,
+        currentStep: draft.wizardStep,
+        data: buildDraftFormData(draft),
+        updatedAt: draft.updatedAt,
+      })),
+    });
+
+  } catch (error) {
+    appLogger.error(`Error loading request drafts: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to load request drafts' }, { status: 500 });
+  }
+}
+
+// POST /api/aft-requests/drafts - Create the draft request from the wizard's first autosave
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Same roles that can create requests
+    const allowedRoles = ['requestor', 'admin', 'dta'];
+    if (!allowedRoles.includes(user.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions to create requests' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const input = requestDraftSchema.parse(body);
+    if (JSON.stringify(input.data).length > MAX_REQUEST_DRAFT_SIZE) {
+      return NextResponse.json({ error: 'Draft is too large to save' }, { status: 413 });
+    }
+
+    const result = await createRequestDraft(input, user);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.httpStatus });
+    }
+    const { draft } = result;
+
+    recordAudit(request, user, {
+      action: 'draft_created',
+      requestId: draft.id,
+      newStatus: draft.status,
+      after: draft,
+      notes: `Draft request ${draft.requestNumber} started in the request wizard`,
+    });
+
+    return NextResponse.json({ draft: { id: draft.id, currentStep: draft.wizardStep, updatedAt: draft.updatedAt } }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues?.map(e => e.message) || []
+        },
+        { status: 400 }
+      );
+    }
+
+    appLogger.error(`Error saving request draft: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to save request draft' }, { status: 500 });
+  }
+}
@@ -1,66 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth-server';
 import { db } from '@/lib/db/server';
-import { aftRequests, AFTStatus, AFTStatusType } from '@/lib/db/schema';
+import { aftRequests, AFTStatus } from '@/lib/db/schema';
 import { z } from 'zod';
 import { eq, and, desc, or } from 'drizzle-orm';
+import { getAwaitingApprovalRoles } from '@/lib/approval-policy';
+import { recordAudit } from '@/lib/audit-log';
+import { createRequestSchema } from '@/lib/aft-request-form';
+import { buildRequestUpdate, insertDraftRequest } from '@/lib/aft-request-form-server';
+import { getRequestDraft } from '@/lib/request-drafts-server';
 
 export const runtime = 'nodejs';
 
-const fileDetailSchema = z.object({
-  name: z.string().min(1, 'File name is required'),
-  fileType: z.string().min(1, 'File type is required'),
-  classification: z.string().min(1, 'File classification is required'),
-});
-
-const createRequestSchema = z.object({
-  // Section I: Media Control Number and Media Type
-  mediaControlNumber: z.string().min(1, 'Media control number is required'),
-  mediaType: z.enum(['CD-R', 'DVD-R', 'DVD-RDL', 'SSD', 'SSD-T'], {
-    message: 'Valid media type is required',
-  }),
-  
-  // Section II: Source/Destination Information
-  sourceIS: z.string().min(1, 'Source IS is required'),
-  sourceISClassification: z.string().min(1, 'Source IS classification is required'),
-  destinationIS: z.string().min(1, 'Destination IS is required'),
-  destinationISClassification: z.string().min(1, 'Destination IS classification is required'),
-  mediaDisposition: z.string().optional(),
-  overallClassification: z.string().min(1, 'Overall classification is required'),
-  transferType: z.enum(['low-to-low', 'low-to-high', 'high-to-low', 'high-to-high'], {
-    message: 'Valid transfer type is required',
-  }),
-  destinationFile: z.enum(['upload', 'download'], {
-    message: 'Destination file type must be upload or download',
-  }),
-  isNonHumanReadable: z.boolean().default(false),
-  processName: z.string().optional(),
-  justificationForTransfer: z.string().min(1, 'Justification for transfer is required'),
-  
-  // File Details
-  numberOfFiles: z.number().min(1, 'Must have at least one file'),
-  files: z.array(fileDetailSchema).min(1, 'Must specify at least one file'),
-  additionalFileListAttached: z.boolean().default(false),
-  
-  // Media Transportation
-  mediaTransportedOutside: z.boolean().default(false),
-  mediaDestination: z.string().optional(),
-  destinationPOC: z.string().optional(),
-  destinationAddress: z.string().optional(),
-  mediaEncrypted: z.boolean().default(false),
-  
-  // Section 4: Dual Signature Configuration (Optional) - Removed as not part of current workflow
-});
-
-// Generate a unique request number
-function generateRequestNumber(): string {
-  const date = new Date();
-  const year = date.getFullYear().toString().slice(-2);
-  const month = (date.getMonth() + 1).toString().padStart(2, '0');
-  const day = date.getDate().toString().padStart(2, '0');
-  const random = Math.random().toString(36).substr(2, 4).toUpperCase();
-  return `AFT${year}${month}${day}-${random}`;
-}
+const EMPTY_REQUEST = { sourceSystemId: null, destSystemId: null, destSystem: null, transferData: null };
 
 export async function POST(request: NextRequest) {
   try {
@@ -86,90 +38,47 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = createRequestSchema.parse(body);
 
-    // Generate unique request number
-    const requestNumber = generateRequestNumber();
-
-    // Create transfer purpose from justification
-    const transferPurpose = validatedData.justificationForTransfer;
-    
-    // Create data description from files
-    const dataDescription = `${validatedData.numberOfFiles} files: ${validatedData.files.map(f => f.name).join(', ')}`;
-
-    // Store ALL form data that doesn't have dedicated schema fields in transferData
-    const formDataExtended = {
-      // File details
-      numberOfFiles: validatedData.numberOfFiles,
-      files: validatedData.files,
-      additionalFileListAttached: validatedData.additionalFileListAttached,
-      
-      // Missing form fields that don't have dedicated columns
-      mediaControlNumber: validatedData.mediaControlNumber,
-      mediaType: validatedData.mediaType,
-      sourceISClassification: validatedData.sourceISClassification,
-      destinationISClassification: validatedData.destinationISClassification,
-      destinationFile: validatedData.destinationFile, // 'upload' or 'download'
-      isNonHumanReadable: validatedData.isNonHumanReadable,
-      processName: validatedData.processName,
-      
-      // Media transportation details
-      mediaTransportedOutside: validatedData.mediaTransportedOutside,
-      mediaDestination: validatedData.mediaDestination,
-      destinationPOC: validatedData.destinationPOC,
-      destinationAddress: validatedData.destinationAddress,
-      mediaEncrypted: validatedData.mediaEncrypted
-    };
+    const fileManifest = validatedData.fileManifest ?? [];
+    if (validatedData.files.length === 0 && fileManifest.length === 0) {
+      return NextResponse.json({ error: 'Must specify at least one file or a file manifest' }, { status: 400 });
+    }
+    if (fileManifest.length > 0 && fileManifest.length !== validatedData.numberOfFiles) {
+      return NextResponse.json(
+        { error: `Number of files (${validatedData.numberOfFiles}) does not match the ${fileManifest.length} files in the manifest` },
+        { status: 400 }
+      );
+    }
 
-    // All new requests start as draft - requestor must explicitly submit them
-    const initialStatus: string = 'draft';
+    // Finishing the wizard turns its autosaved draft into the request
+    const draft = typeof body.draftId === 'number' ? await getRequestDraft(body.draftId, user.id) : null;
+    if (typeof body.draftId === 'number' && !draft) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
 
-    // Create the request
-    const newRequest = await db.insert(aftRequests).values({
-      requestNumber,
-      requestorId: user.id,
-      status: initialStatus as AFTStatusType,
-      
-      // Auto-populate requestor info from user session
-      requestorName: `${user.firstName} ${user.lastName}`,
-      requestorOrg: user.organization || 'Not specified',
-      requestorPhone: 'Not specified', 
-      requestorEmail: user.email,
-      
-      // Map new form fields to existing schema
-      transferPurpose,
-      transferType: validatedData.transferType, // FIXED: use actual transfer type, not destinationFile
-      classification: validatedData.overallClassification,
-      caveatInfo: validatedData.mediaDisposition || null,
-      dataDescription,
-      transferData: JSON.stringify(formDataExtended),
-      
-      // Use source/dest IS as system names  
-      sourceSystem: validatedData.sourceIS,
-      sourceLocation: validatedData.sourceIS,
-      sourceContact: null, // Form doesn't have source contact
-      sourcePhone: null,
-      sourceEmail: null,
-      
-      destSystem: validatedData.destinationIS,
-      destLocation: validatedData.mediaTransportedOutside ? validatedData.destinationAddress : validatedData.destinationIS,
-      destContact: validatedData.mediaTransportedOutside ? validatedData.destinationPOC : null,
-      destPhone: null,
-      destEmail: null,
-      
-      // Map technical details
-      dataFormat: validatedData.mediaType,
-      dataSize: `${validatedData.numberOfFiles} files`,
-      transferMethod: validatedData.mediaTransportedOutside ? 'physical-transport' : 'direct-transfer',
-      encryption: validatedData.mediaEncrypted ? 'encrypted' : 'none',
-      compressionRequired: false,
-      
-      // Set dates (can be updated later)
-      requestedStartDate: new Date(),
-      requestedEndDate: null,
-      urgencyLevel: 'medium', // Default urgency
-      
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    }).returning();
+    const update = await buildRequestUpdate(validatedData, draft ?? EMPTY_REQUEST);
+    if (!update.ok) {
+      return NextResponse.json({ error: update.error }, { status: update.httpStatus });
+    }
+    const values = { ...update.values, wizardStep: null };
+
+    const newRequest = draft
+      ? await db
+        .update(aftRequests)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(aftRequests.id, draft.id))
+        .returning()
+      : [await insertDraftRequest(user, values)];
+
+    recordAudit(request, user, {
+      action: 'created',
+      requestId: newRequest[0].id,
+      newStatus: newRequest[0].status,
+      before: draft,
+      after: newRequest[0],
+      notes: draft
+        ? `Request ${newRequest[0].requestNumber} completed from its wizard draft`
+        : `Request ${newRequest[0].requestNumber} created`,
+    });
 
     return NextResponse.json({
       success: true,
@@ -233,28 +142,14 @@ export async function GET(request: NextRequest) {
         // Requestors can only see their own requests
         whereConditions.push(eq(aftRequests.requestorId, user.id));
       } else if (['dao', 'approver', 'cpso'].includes(user.role)) {
-        // Approvers can see pending requests
-        if (user.role === 'dao') {
-          // DAO can see submitted requests (new/resubmitted) and requests waiting for DAO approval
-          whereConditions.push(or(
-            eq(aftRequests.status, AFTStatus.SUBMITTED),
-            eq(aftRequests.status, AFTStatus.PENDING_DAO)
-          ));
-        } else if (user.role === 'approver') {
-          // Approver can see submitted requests (for non-high-to-low transfers) and pending_approver requests
-          whereConditions.push(or(
-            eq(aftRequests.status, AFTStatus.SUBMITTED),
-            eq(aftRequests.status, AFTStatus.PENDING_APPROVER)
-          ));
-        } else if (user.role === 'cpso') {
-          // CPSO can see all pending requests in the approval queue
-          // but can only act on requests that have reached CPSO stage
-          whereConditions.push(or(
-            eq(aftRequests.status, AFTStatus.PENDING_DAO),
-            eq(aftRequests.status, AFTStatus.PENDING_APPROVER),
-            eq(aftRequests.status, AFTStatus.PENDING_CPSO)
-          ));
-        }
+        // Approvers can see requests in the approval queue - the approval policy decides
+        // which stage each role acts at, reported per request as awaitingRoles
+        whereConditions.push(or(
+          eq(aftRequests.status, AFTStatus.SUBMITTED),
+          eq(aftRequests.status, AFTStatus.PENDING_DAO),
+          eq(aftRequests.status, AFTStatus.PENDING_APPROVER),
+          eq(aftRequests.status, AFTStatus.PENDING_CPSO)
+        ));
       } else if (user.role === 'dta') {
         // DTAs can see requests in the transfer chain of custody
         whereConditions.push(or(
@@ -268,8 +163,13 @@ export async function GET(request: NextRequest) {
           eq(aftRequests.status, AFTStatus.DISPOSED)
         ));
       } else if (user.role === 'sme') {
-        // SMEs can see requests in the transfer chain that need SME validation
+        // SMEs can see requests in the transfer chain that need SME validation,
+        // plus the approval queue for policies with an SME pre-review step
         whereConditions.push(or(
+          eq(aftRequests.status, AFTStatus.SUBMITTED),
+          eq(aftRequests.status, AFTStatus.PENDING_DAO),
+          eq(aftRequests.status, AFTStatus.PENDING_APPROVER),
+          eq(aftRequests.status, AFTStatus.PENDING_CPSO),
           eq(aftRequests.status, AFTStatus.PENDING_SME_SIGNATURE),
           eq(aftRequests.status, AFTStatus.PENDING_SME),
           eq(aftRequests.status, AFTStatus.PENDING_MEDIA_CUSTODIAN),
@@ -309,6 +209,7 @@ export async function GET(request: NextRequest) {
       id: aftRequests.id,
       requestNumber: aftRequests.requestNumber,
       status: aftRequests.status,
+      requestorId: aftRequests.requestorId,
       transferType: aftRequests.transferType,
       classification: aftRequests.classification,
       urgencyLevel: aftRequests.urgencyLevel,
@@ -320,13 +221,23 @@ export async function GET(request: NextRequest) {
       updatedAt: aftRequests.updatedAt,
       approvalData: aftRequests.approvalData,
       transferData: aftRequests.transferData,
+      wizardStep: aftRequests.wizardStep,
     }).from(aftRequests);
 
     if (whereClause) {
       query.where(whereClause);
     }
 
-    const requests = await query.limit(limit).offset(offset).orderBy(desc(aftRequests.createdAt));
+    const results = await query.limit(limit).offset(offset).orderBy(desc(aftRequests.createdAt));
+
+    // Roles each request is waiting on while it is in the approval queue
+    const approvalStatuses: string[] = [AFTStatus.SUBMITTED, AFTStatus.PENDING_DAO, AFTStatus.PENDING_APPROVER, AFTStatus.PENDING_CPSO];
+    const requests = results.map(result => ({
+      ...result,
+      awaitingRoles: approvalStatuses.includes(result.status)
+        ? getAwaitingApprovalRoles(result.approvalData, result.transferType)
+        : [],
+    }));
 
     return NextResponse.json({ requests });
 
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, isAdmin } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { deleteRequestTemplate, getRequestTemplate } from '@/lib/request-templates-server';
+
+export const runtime = 'nodejs';
+
+// GET /api/aft-requests/templates/[id] - Form data to start the wizard from a template
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const templateId = parseInt(id);
+    if (isNaN(templateId)) {
+      return NextResponse.json({ error: 'Invalid template ID' }, { status: 400 });
+    }
+
+    const template = await getRequestTemplate(templateId, user);
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      template: {
+        id: template.id,
+        name: template.name,
+        data: JSON.parse(template.formData),
+      },
+    });
+
+  } catch (error) {
+    appLogger.error(`Error loading request template: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to load request template' }, { status: 500 });
+  }
+}
+
+// DELETE /api/aft-requests/templates/[id] - Remove a template (owner or admin)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const templateId = parseInt(id);
+    if (isNaN(templateId)) {
+      return NextResponse.json({ error: 'Invalid template ID' }, { status: 400 });
+    }
+
+    const template = await deleteRequestTemplate(templateId, user.id, isAdmin(user));
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    recordAudit(request, user, {
+      action: 'template_deleted',
+      notes: `Deleted request template "${template.name}"`,
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    appLogger.error(`Error deleting request template: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to delete request template' }, { status: 500 });
+  }
+}
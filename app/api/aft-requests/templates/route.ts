@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, isAdmin } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { requestTemplateSchema } from '@/lib/request-templates';
+import { createRequestTemplate, listRequestTemplates } from '@/lib/request-templates-server';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+// GET /api/aft-requests/templates - The user's templates and those shared with their organization
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const templates = await listRequestTemplates(user);
+
+    return NextResponse.json({
+      templates: templates.map(template => ({
+        ...template,
+        shared: template.organization !== null,
+        isOwner: template.ownerId === user.id,
+      })),
+    });
+
+  } catch (error) {
+    appLogger.error(`Error loading request templates: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to load request templates' }, { status: 500 });
+  }
+}
+
+// POST /api/aft-requests/templates - Save a past request as a named template
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Same roles that can create requests
+    const allowedRoles = ['requestor', 'admin', 'dta'];
+    if (!allowedRoles.includes(user.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions to create requests' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const input = requestTemplateSchema.parse(body);
+
+    const result = await createRequestTemplate(input, user, isAdmin(user));
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.httpStatus });
+    }
+    const { template } = result;
+
+    recordAudit(request, user, {
+      action: 'template_created',
+      requestId: input.requestId,
+      notes: `Saved request template "${template.name}"${template.organization ? ` shared with ${template.organization}` : ''}`,
+    });
+
+    return NextResponse.json({
+      template: { id: template.id, name: template.name, shared: template.organization !== null },
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues?.map(e => e.message) || []
+        },
+        { status: 400 }
+      );
+    }
+
+    appLogger.error(`Error saving request template: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to save request template' }, { status: 500 });
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyUserExists } from '@/lib/auth-server';
+import { generateToken, getRoleRedirect, getSessionMaxAge } from '@/lib/auth';
+import { createSession } from '@/lib/sessions-server';
+import { recordCacLogin } from '@/lib/login-security-server';
+import { getClientAddress } from '@/lib/client-address';
+import { CONSENT_REQUIRED_MESSAGE } from '@/lib/consent-banner';
+import { db } from '@/lib/db/server';
+import { userCertificates } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { appLogger } from '@/lib/logger';
+import {
+  isCacLoginEnabled,
+  readClientCertificate,
+  permitsClientAuthentication,
+  findCertificateUser,
+} from '@/lib/cac-login';
+import { validateCertificate, getCertificateThumbprint } from '@/lib/signature-verification';
+
+export const runtime = 'nodejs';
+
+// GET /api/auth/cac-login - Whether the login page should offer CAC sign-in
+export async function GET() {
+  return NextResponse.json({ enabled: isCacLoginEnabled() });
+}
+
+// POST /api/auth/cac-login - Sign in with the client certificate presented to the reverse proxy
+export async function POST(request: NextRequest) {
+  try {
+    if (!isCacLoginEnabled()) {
+      return NextResponse.json(
+        { error: 'CAC login is not enabled' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (body?.consentAcknowledged !== true) {
+      return NextResponse.json(
+        { error: CONSENT_REQUIRED_MESSAGE },
+        { status: 400 }
+      );
+    }
+
+    const clientCert = readClientCertificate(request.headers);
+    if (!clientCert.ok) {
+      return NextResponse.json(
+        { error: clientCert.error },
+        { status: 401 }
+      );
+    }
+
+    const certificate = clientCert.certificate;
+    const thumbprint = getCertificateThumbprint(certificate);
+    const ip = getClientAddress(request) ?? undefined;
+
+    if (!permitsClientAuthentication(certificate)) {
+      appLogger.securityEvent('CAC_LOGIN_REJECTED', {
+        subject: certificate.subject,
+        thumbprint,
+        reason: 'Certificate is not issued for client authentication',
+      }, { ip });
+      return NextResponse.json(
+        { error: 'This certificate cannot be used for login. Select the authentication certificate on your CAC.' },
+        { status: 401 }
+      );
+    }
+
+    const validation = await validateCertificate(certificate);
+    if (!validation.isValid) {
+      appLogger.securityEvent('CAC_LOGIN_REJECTED', {
+        subject: certificate.subject,
+        thumbprint,
+        reason: validation.error,
+      }, { ip });
+      return NextResponse.json(
+        { error: 'Certificate validation failed', details: validation.error },
+        { status: 401 }
+      );
+    }
+
+    const match = await findCertificateUser(certificate);
+    const user = match ? await verifyUserExists(match.userId) : null;
+    if (!match || !user) {
+      appLogger.securityEvent('CAC_LOGIN_REJECTED', {
+        subject: certificate.subject,
+        thumbprint,
+        reason: 'No active account is associated with this certificate',
+      }, { ip });
+      return NextResponse.json(
+        { error: 'No active account is associated with this certificate' },
+        { status: 401 }
+      );
+    }
+
+    if (match.binding) {
+      await db.update(userCertificates)
+        .set({ lastUsedAt: new Date() })
+        .where(eq(userCertificates.id, match.binding.id));
+    }
+
+    appLogger.info(`CAC login successful (matched by ${match.matchedBy})`, {
+      userId: user.id.toString(),
+      action: 'CAC_LOGIN',
+      resource: thumbprint,
+      ip,
+    });
+
+    const lastLogin = await recordCacLogin(user.id, user.email, request);
+    const session = await createSession(user.id, request, { consentAcknowledgedAt: new Date() });
+    const token = generateToken(user, session);
+
+    // Check if user has multiple active roles
+    const activeRoles = user.roles || [user.role];
+    const hasMultipleRoles = activeRoles.length > 1;
+
+    const response = NextResponse.json({
+      success: true,
+      user: {
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        role: user.role,
+        primaryRole: user.primaryRole,
+        roles: user.roles,
+        organization: user.organization,
+      },
+      matchedBy: match.matchedBy,
+      hasMultipleRoles,
+      lastLogin,
+      redirectTo: hasMultipleRoles ? '/role-selection' : getRoleRedirect(user.role)
+    });
+
+    response.cookies.set('aft-auth-token', token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: getSessionMaxAge(session.expiresAt),
+      path: '/',
+    });
+
+    return response;
+  } catch (error) {
+    appLogger.error(`CAC login error: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json(
+      { error: 'CAC login failed' },
+      { status: 500 }
+    );
+  }
+}
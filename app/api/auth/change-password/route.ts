@@ -4,13 +4,17 @@ import { db } from '@/lib/db/server';
 import { users } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { hashPassword, verifyPassword } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
+import { passwordSchema } from '@/lib/login-security';
+import { getLoginSecurityConfig, isPasswordReused, recordPasswordHistory } from '@/lib/login-security-server';
+import { clearPasswordChangeRequired } from '@/lib/sessions-server';
 import { z } from 'zod';
 
 export const runtime = 'nodejs';
 
 const changePasswordSchema = z.object({
   currentPassword: z.string().min(1, 'Current password is required'),
-  newPassword: z.string().min(8, 'New password must be at least 8 characters'),
+  newPassword: passwordSchema,
 });
 
 export async function POST(request: NextRequest) {
@@ -59,16 +63,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (await isPasswordReused(currentUser.id, newPassword)) {
+      return NextResponse.json(
+        { error: `New password cannot be any of your last ${getLoginSecurityConfig().passwordHistorySize} passwords` },
+        { status: 400 }
+      );
+    }
+
     // Hash new password
     const hashedNewPassword = await hashPassword(newPassword);
 
-    // Update password in database
+    // Update password in database; this restarts the password age
+    const now = new Date();
     await db.update(users)
       .set({ 
         password: hashedNewPassword,
-        updatedAt: new Date()
+        passwordChangedAt: now,
+        mustChangePassword: false,
+        updatedAt: now
       })
       .where(eq(users.id, currentUser.id));
+    await recordPasswordHistory(currentUser.id, hashedNewPassword);
+    await clearPasswordChangeRequired(currentUser.id);
+
+    recordAudit(request, currentUser, {
+      action: 'password_changed',
+      before: { password: userRecord[0].password },
+      after: { password: hashedNewPassword },
+    });
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { listLoginHistory } from '@/lib/login-security-server';
+import { appLogger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+// GET /api/auth/login-history - The current user's sign-ins and failed attempts
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const attempts = await listLoginHistory(user.id);
+
+    return NextResponse.json({ attempts });
+
+  } catch (error) {
+    appLogger.error(`Error fetching login history: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to fetch login history' }, { status: 500 });
+  }
+}
@@ -1,32 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticateUser } from '@/lib/auth-server';
-import { generateToken } from '@/lib/auth';
+import { checkLoginAllowed, recordFailedLogin } from '@/lib/login-security-server';
+import { createMfaChallenge, isMfaEnabled } from '@/lib/mfa-server';
+import { completePasswordLogin } from '@/lib/password-login-server';
 import { loginSchema } from '@/lib/db/schema';
+import { CONSENT_REQUIRED_MESSAGE } from '@/lib/consent-banner';
+import { z } from 'zod';
 
 export const runtime = 'nodejs';
 
-function getRoleRedirect(role: string): string {
-  // Map roles to their appropriate paths
-  const roleRedirectMap: Record<string, string> = {
-    'admin': '/admin',
-    'requestor': '/requestor',
-    'dao': '/approver',
-    'approver': '/approver',
-    'cpso': '/approver',
-    'dta': '/dta',
-    'sme': '/sme',
-    'media_custodian': '/custodian'
-  };
-  
-  return roleRedirectMap[role] || '/dashboard';
-}
-
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     
     // Validate input
-    const { email, password } = loginSchema.parse(body);
+    const { email, password, consentAcknowledged } = loginSchema
+      .extend({ consentAcknowledged: z.boolean().optional() })
+      .parse(body);
+    
+    if (!consentAcknowledged) {
+      return NextResponse.json(
+        { error: CONSENT_REQUIRED_MESSAGE },
+        { status: 400 }
+      );
+    }
+    
+    // Refuse throttled addresses and locked accounts before checking the password
+    const gate = await checkLoginAllowed(email, request);
+    if (!gate.ok) {
+      return NextResponse.json(
+        { error: gate.error },
+        {
+          status: gate.httpStatus,
+          headers: gate.retryAfterSeconds ? { 'Retry-After': gate.retryAfterSeconds.toString() } : undefined,
+        }
+      );
+    }
     
     console.log('Attempting to authenticate user:', email);
     
@@ -35,51 +44,25 @@ export async function POST(request: NextRequest) {
     
     if (!user) {
       console.log('Authentication failed for:', email);
+      const error = await recordFailedLogin(email, request);
       return NextResponse.json(
-        { error: 'Invalid credentials' },
+        { error },
         { status: 401 }
       );
     }
     
     console.log('Authentication successful for:', user.email, 'Roles:', user.roles);
     
-    // Generate JWT token
-    const token = generateToken(user);
-    console.log('Generated token length:', token.length);
-    
-    // Check if user has multiple active roles
-    const activeRoles = user.roles || [user.role];
-    const hasMultipleRoles = activeRoles.length > 1;
-    
-    // Create response
-    const response = NextResponse.json({ 
-      success: true, 
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: user.role,
-        primaryRole: user.primaryRole,
-        roles: user.roles,
-        organization: user.organization,
-      },
-      hasMultipleRoles,
-      redirectTo: hasMultipleRoles ? '/role-selection' : getRoleRedirect(user.role)
-    });
-    
-    // Set auth cookie
-    response.cookies.set('aft-auth-token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 24 * 60 * 60, // 24 hours
-      path: '/',
-    });
-    
-    console.log('Cookie set successfully');
+    // With MFA set up, the password only earns a challenge; the session is opened by
+    // /api/auth/mfa/verify once the code checks out
+    if (await isMfaEnabled(user.id)) {
+      return NextResponse.json({
+        mfaRequired: true,
+        mfaToken: createMfaChallenge({ userId: user.id, email, consentAcknowledgedAt: Date.now() }),
+      });
+    }
     
-    return response;
+    return completePasswordLogin(user, email, request, new Date());
   } catch (error) {
     console.error('Login error:', error);
     return NextResponse.json(
@@ -1,9 +1,18 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { endSession } from '@/lib/sessions-server';
 
 export const runtime = 'nodejs';
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
+    // End the server-side session so the token stops working even if it was copied
+    const token = request.cookies.get('aft-auth-token')?.value;
+    const payload = token ? await verifyToken(token) : null;
+    if (payload?.jti) {
+      await endSession(payload.jti, 'logout');
+    }
+
     // Create response
     const response = NextResponse.json({ success: true });
     
@@ -28,4 +37,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
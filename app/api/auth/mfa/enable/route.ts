@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { confirmMfaEnrollment } from '@/lib/mfa-server';
+import { clearMfaEnrollmentRequired } from '@/lib/sessions-server';
+import { recordAudit } from '@/lib/audit-log';
+import { appLogger } from '@/lib/logger';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+const enableMfaSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required').max(32),
+});
+
+// POST /api/auth/mfa/enable - Confirm enrollment with a code from the authenticator
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { code } = enableMfaSchema.parse(await request.json());
+    const recoveryCodes = await confirmMfaEnrollment(user.id, code);
+    if (!recoveryCodes) {
+      return NextResponse.json({ error: 'Invalid code. Check the time on your device and try again.' }, { status: 400 });
+    }
+
+    await clearMfaEnrollmentRequired(user.id);
+
+    appLogger.securityEvent('MFA_ENABLED', { email: user.email }, { userId: user.id.toString() });
+    recordAudit(request, user, {
+      action: 'mfa_enabled',
+      notes: `MFA set up by ${user.email}`,
+    });
+
+    return NextResponse.json({ recoveryCodes });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.issues }, { status: 400 });
+    }
+    appLogger.error(`Error enabling MFA: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to enable MFA' }, { status: 500 });
+  }
+}
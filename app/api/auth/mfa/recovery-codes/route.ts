@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { regenerateRecoveryCodes, verifyMfaCode } from '@/lib/mfa-server';
+import { recordAudit } from '@/lib/audit-log';
+import { appLogger } from '@/lib/logger';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+const regenerateSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required').max(32),
+});
+
+// POST /api/auth/mfa/recovery-codes - Replace the recovery codes, confirmed with a current code
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { code } = regenerateSchema.parse(await request.json());
+    if (!(await verifyMfaCode(user.id, code))) {
+      return NextResponse.json({ error: 'Invalid MFA code' }, { status: 400 });
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id);
+
+    recordAudit(request, user, {
+      action: 'mfa_recovery_codes_regenerated',
+      notes: `MFA recovery codes replaced by ${user.email}`,
+    });
+
+    return NextResponse.json({ recoveryCodes });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.issues }, { status: 400 });
+    }
+    appLogger.error(`Error regenerating MFA recovery codes: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to regenerate recovery codes' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { disableMfa, getMfaStatus, isMfaRequiredFor, verifyMfaCode } from '@/lib/mfa-server';
+import { recordAudit } from '@/lib/audit-log';
+import { appLogger } from '@/lib/logger';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+const disableMfaSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required').max(32),
+});
+
+// GET /api/auth/mfa - The current user's MFA status
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json(await getMfaStatus(user.id, user.roles));
+
+  } catch (error) {
+    appLogger.error(`Error fetching MFA status: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to fetch MFA status' }, { status: 500 });
+  }
+}
+
+// DELETE /api/auth/mfa - Turn off MFA, confirmed with a current code
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (isMfaRequiredFor(user.roles)) {
+      return NextResponse.json({ error: 'MFA is required for your role and cannot be turned off' }, { status: 403 });
+    }
+
+    const { code } = disableMfaSchema.parse(await request.json());
+    if (!(await verifyMfaCode(user.id, code))) {
+      return NextResponse.json({ error: 'Invalid MFA code' }, { status: 400 });
+    }
+
+    await disableMfa(user.id);
+
+    appLogger.securityEvent('MFA_DISABLED', { email: user.email }, { userId: user.id.toString() });
+    recordAudit(request, user, {
+      action: 'mfa_disabled',
+      notes: `MFA turned off by ${user.email}`,
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.issues }, { status: 400 });
+    }
+    appLogger.error(`Error disabling MFA: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to turn off MFA' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { startMfaEnrollment } from '@/lib/mfa-server';
+import { appLogger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+// POST /api/auth/mfa/setup - Start enrollment with a new secret and its QR code
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await startMfaEnrollment(user.id, user.email);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.httpStatus });
+    }
+
+    return NextResponse.json({ secret: result.secret, otpauthUrl: result.otpauthUrl, qrCode: result.qrCode });
+
+  } catch (error) {
+    appLogger.error(`Error starting MFA enrollment: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to start MFA enrollment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyUserExists } from '@/lib/auth-server';
+import { checkLoginAllowed, recordFailedLogin } from '@/lib/login-security-server';
+import { readMfaChallenge, verifyMfaCode } from '@/lib/mfa-server';
+import { completePasswordLogin } from '@/lib/password-login-server';
+import { appLogger } from '@/lib/logger';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+const verifyMfaSchema = z.object({
+  mfaToken: z.string().min(1),
+  code: z.string().trim().min(1, 'Code is required').max(32),
+});
+
+// POST /api/auth/mfa/verify - Second sign-in step: the challenge from /api/auth/login and a code
+export async function POST(request: NextRequest) {
+  try {
+    const { mfaToken, code } = verifyMfaSchema.parse(await request.json());
+
+    const challenge = readMfaChallenge(mfaToken);
+    if (!challenge) {
+      return NextResponse.json({ error: 'Sign-in timed out. Enter your password again.', mfaChallengeExpired: true }, { status: 401 });
+    }
+
+    // Wrong codes count toward the same lockout and throttling as wrong passwords
+    const gate = await checkLoginAllowed(challenge.email, request);
+    if (!gate.ok) {
+      return NextResponse.json(
+        { error: gate.error },
+        {
+          status: gate.httpStatus,
+          headers: gate.retryAfterSeconds ? { 'Retry-After': gate.retryAfterSeconds.toString() } : undefined,
+        }
+      );
+    }
+
+    const method = await verifyMfaCode(challenge.userId, code);
+    if (!method) {
+      const error = await recordFailedLogin(challenge.email, request, 'invalid_mfa_code');
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const user = await verifyUserExists(challenge.userId);
+    if (!user) {
+      return NextResponse.json({ error: 'Invalid credentials' }, { status: 401 });
+    }
+
+    if (method === 'recovery') {
+      appLogger.securityEvent('MFA_RECOVERY_CODE_USED', { email: user.email }, { userId: user.id.toString() });
+    }
+
+    return completePasswordLogin(user, challenge.email, request, new Date(challenge.consentAcknowledgedAt));
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.issues }, { status: 400 });
+    }
+    appLogger.error(`MFA verification error: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'MFA verification failed' }, { status: 500 });
+  }
+}
@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import jwt from 'jsonwebtoken';
 import { db } from '@/lib/db/server';
-import { userRoles, users } from '@/lib/db/schema';
-import { eq, and } from 'drizzle-orm';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { getUserRoles } from '@/lib/auth-server';
 
 interface JWTPayload {
   id: number;
@@ -36,26 +37,17 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
     }
 
-    // Verify user has the requested role and it's active
-    const userRole = await db
-      .select()
-      .from(userRoles)
-      .where(
-        and(
-          eq(userRoles.userId, decoded.id),
-          eq(userRoles.role, role),
-          eq(userRoles.isActive, true)
-        )
-      )
-      .limit(1);
-
-    if (userRole.length === 0) {
+    // Verify user currently holds the requested role, with delegations only inside their period
+    const roles = await getUserRoles(decoded.id);
+    if (!(roles as string[]).includes(role)) {
       return NextResponse.json({ error: 'Role not found or inactive' }, { status: 403 });
     }
 
-    // Create new token with current role, preserving original token structure but removing JWT metadata
+    // Create new token with current role, preserving original token structure but removing JWT metadata.
+    // The session's jti stays in the payload and the token keeps the session's remaining lifetime.
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const { iat, exp, ...userPayload } = decoded;
+    const maxAge = exp ? Math.max(1, exp - Math.floor(Date.now() / 1000)) : 24 * 60 * 60;
     const newTokenPayload = {
       ...userPayload,
       currentRole: role,
@@ -65,7 +57,7 @@ export async function POST(request: NextRequest) {
     const newToken = jwt.sign(
       newTokenPayload,
       process.env.JWT_SECRET!,
-      { expiresIn: '24h' }
+      { expiresIn: maxAge }
     );
 
     // Set the updated token as a cookie
@@ -79,7 +71,8 @@ export async function POST(request: NextRequest) {
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
       sameSite: 'lax',
-      maxAge: 24 * 60 * 60 // 24 hours
+      maxAge,
+      path: '/',
     });
 
     // Also update the user's last selected role in the database
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth-server';
+import { findDriveBySerialNumber, getCustodyLedger } from '@/lib/drive-custody-server';
+
+export const runtime = 'nodejs';
+
+// Custody ledger for a drive, looked up by serial number
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is media custodian or admin
+    if (!user.roles?.includes('media_custodian') && user.primaryRole !== 'media_custodian' && 
+        !user.roles?.includes('admin') && user.primaryRole !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Media Custodian access required' }, { status: 403 });
+    }
+
+    const serialNumber = request.nextUrl.searchParams.get('serialNumber')?.trim();
+    if (!serialNumber) {
+      return NextResponse.json({ error: 'Serial number is required' }, { status: 400 });
+    }
+
+    const drive = await findDriveBySerialNumber(serialNumber);
+    if (!drive) {
+      return NextResponse.json({ error: 'Drive not found' }, { status: 404 });
+    }
+
+    const events = await getCustodyLedger(drive.id);
+
+    return NextResponse.json({ drive, events });
+    
+  } catch (error) {
+    console.error('Custody ledger error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load custody ledger' }, 
+      { status: 500 }
+    );
+  }
+}
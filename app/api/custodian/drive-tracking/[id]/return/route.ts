@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth-server';
 import { db } from '@/lib/db';
-import { driveInventory, driveTracking, aftAuditLog } from '@/lib/db/schema';
+import { driveInventory, driveTracking } from '@/lib/db/schema';
+import { recordAudit } from '@/lib/audit-log';
+import { recordCustodyEvent } from '@/lib/drive-custody-server';
 import { eq } from 'drizzle-orm';
 
 export async function POST(
@@ -28,18 +30,11 @@ export async function POST(
     }
 
     const body = await request.json();
-    const { returnNotes } = body;
+    const { returnNotes, location } = body;
 
     // Check if tracking record exists and is not already returned
     const tracking = await db()
-      .select({
-        id: driveTracking.id,
-        driveId: driveTracking.driveId,
-        userId: driveTracking.userId,
-        returnedAt: driveTracking.returnedAt,
-        sourceIS: driveTracking.sourceIS,
-        destinationIS: driveTracking.destinationIS,
-      })
+      .select()
       .from(driveTracking)
       .where(eq(driveTracking.id, trackingId))
       .limit(1);
@@ -59,6 +54,7 @@ export async function POST(
       .select({
         id: driveInventory.id,
         serialNumber: driveInventory.serialNumber,
+        lockedRequestId: driveInventory.lockedRequestId,
       })
       .from(driveInventory)
       .where(eq(driveInventory.id, tracking[0].driveId))
@@ -68,6 +64,13 @@ export async function POST(
       return NextResponse.json({ error: 'Associated drive not found' }, { status: 404 });
     }
 
+    // A drive bound to a request stays out until its media disposition is recorded
+    if (drive[0].lockedRequestId) {
+      return NextResponse.json({ 
+        error: 'Drive is locked to an AFT request awaiting media disposition' 
+      }, { status: 409 });
+    }
+
     const now = new Date();
 
     // Update tracking record with return information
@@ -88,13 +91,22 @@ export async function POST(
       })
       .where(eq(driveInventory.id, tracking[0].driveId));
 
+    await recordCustodyEvent({
+      driveId: tracking[0].driveId,
+      eventType: 'return',
+      toUserId: user.id,
+      signedBy: user.id,
+      trackingId,
+      location,
+      notes: returnNotes,
+    });
+
     // Create audit log entry
-    await db().insert(aftAuditLog).values({
-      requestId: 0, // No specific request for drive tracking
-      userId: user.id,
+    recordAudit(request, user, {
       action: 'drive_returned',
+      before: tracking[0],
+      after: updatedTracking[0],
       notes: `Drive ${drive[0].serialNumber} returned from user ${tracking[0].userId} after transfer from ${tracking[0].sourceIS} to ${tracking[0].destinationIS}${returnNotes ? '. Notes: ' + returnNotes : ''}`,
-      createdAt: now,
     });
 
     const result = updatedTracking[0];
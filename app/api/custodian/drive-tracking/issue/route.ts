@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth-server';
 import { db } from '@/lib/db';
-import { driveInventory, driveTracking, aftAuditLog, users } from '@/lib/db/schema';
+import { driveInventory, driveTracking, users } from '@/lib/db/schema';
+import { recordAudit } from '@/lib/audit-log';
+import { recordCustodyEvent } from '@/lib/drive-custody-server';
+import { resolveTransferSystems } from '@/lib/information-systems-server';
 import { eq, isNull, and } from 'drizzle-orm';
 
 export async function POST(request: NextRequest) {
@@ -19,15 +22,23 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { driveId, userId, sourceIS, destinationIS, expectedReturnAt, issueNotes } = body;
+    const { driveId, userId, sourceSystemId, destinationSystemId, expectedReturnAt, issueNotes, location } = body;
 
     // Validate required fields
-    if (!driveId || !userId || !sourceIS || !destinationIS) {
+    if (!driveId || !userId || !sourceSystemId || !destinationSystemId) {
       return NextResponse.json({ 
-        error: 'Missing required fields: driveId, userId, sourceIS, destinationIS' 
+        error: 'Missing required fields: driveId, userId, sourceSystemId, destinationSystemId' 
       }, { status: 400 });
     }
 
+    // Source and destination must be active catalog systems allowing the transfer direction
+    const systems = await resolveTransferSystems(Number(sourceSystemId), [Number(destinationSystemId)]);
+    if (!systems.ok) {
+      return NextResponse.json({ error: systems.error }, { status: 400 });
+    }
+    const sourceIS = systems.source.name;
+    const destinationIS = systems.destinations[0].name;
+
     // Check if drive exists and is available
     const drive = await db()
       .select({
@@ -91,7 +102,9 @@ export async function POST(request: NextRequest) {
       driveId,
       userId,
       custodianId: user.id,
+      sourceSystemId: systems.source.id,
       sourceIS,
+      destinationSystemId: systems.destinations[0].id,
       destinationIS,
       issuedAt: now,
       expectedReturnAt: expectedReturnAt ? new Date(expectedReturnAt) : null,
@@ -108,13 +121,21 @@ export async function POST(request: NextRequest) {
       })
       .where(eq(driveInventory.id, driveId));
 
+    await recordCustodyEvent({
+      driveId,
+      eventType: 'issue',
+      toUserId: userId,
+      signedBy: user.id,
+      trackingId: tracking[0].id,
+      location,
+      notes: issueNotes,
+    });
+
     // Create audit log entry
-    await db().insert(aftAuditLog).values({
-      requestId: null, // No specific request for drive tracking
-      userId: user.id,
+    recordAudit(request, user, {
       action: 'drive_issued',
+      after: tracking[0],
       notes: `Drive ${drive[0].serialNumber} issued to user ${userId} for transfer from ${sourceIS} to ${destinationIS}`,
-      createdAt: now,
     });
 
     const result = tracking[0];
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { recordAudit } from '@/lib/audit-log';
+import { appLogger } from '@/lib/logger';
+import { getOverdueDriveConfig, getOverdueQueue, runOverdueDriveCheck } from '@/lib/overdue-drives-server';
+
+export const runtime = 'nodejs';
+
+// GET /api/custodian/drive-tracking/overdue - Overdue queue for the custodian dashboard
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!user.roles?.includes('media_custodian') && user.primaryRole !== 'media_custodian' && 
+        !user.roles?.includes('admin') && user.primaryRole !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Media Custodian access required' }, { status: 403 });
+    }
+
+    const queue = await getOverdueQueue();
+
+    return NextResponse.json({
+      queue,
+      escalationGraceDays: getOverdueDriveConfig().escalationGraceDays,
+    });
+
+  } catch (error) {
+    appLogger.error(`Error loading overdue drive queue: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to load overdue drives' }, { status: 500 });
+  }
+}
+
+// POST /api/custodian/drive-tracking/overdue - Run the overdue check now instead of waiting for the timer
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!user.roles?.includes('media_custodian') && user.primaryRole !== 'media_custodian' && 
+        !user.roles?.includes('admin') && user.primaryRole !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Media Custodian access required' }, { status: 403 });
+    }
+
+    const result = await runOverdueDriveCheck();
+
+    recordAudit(request, user, {
+      action: 'drive_overdue_check',
+      notes: `Overdue drive check run manually: ${result.flagged} flagged, ${result.escalated} escalated`,
+    });
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    appLogger.error(`Error running overdue drive check: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to run overdue drive check' }, { status: 500 });
+  }
+}
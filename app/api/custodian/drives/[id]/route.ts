@@ -3,6 +3,10 @@ import { getCurrentUser } from '@/lib/auth-server';
 import { db } from '@/lib/db';
 import { driveInventory, driveTracking } from '@/lib/db/schema';
 import { eq, isNull, and } from 'drizzle-orm';
+import { recordAudit } from '@/lib/audit-log';
+import { getClassificationLevel } from '@/lib/classifications';
+import { DRIVE_CLASSIFICATIONS } from '@/lib/drive-inventory-io';
+import { clearIntakeOnlyLedger, recordCustodyEvent } from '@/lib/drive-custody-server';
 
 export async function PUT(
   request: NextRequest,
@@ -37,9 +41,15 @@ export async function PUT(
       }, { status: 400 });
     }
 
+    if (getClassificationLevel(classification) < 0) {
+      return NextResponse.json({ 
+        error: `Classification must be one of ${DRIVE_CLASSIFICATIONS.join(', ')}` 
+      }, { status: 400 });
+    }
+
     // Check if drive exists
     const existingDrive = await db()
-      .select({ id: driveInventory.id, serialNumber: driveInventory.serialNumber })
+      .select()
       .from(driveInventory)
       .where(eq(driveInventory.id, driveId))
       .limit(1);
@@ -48,6 +58,14 @@ export async function PUT(
       return NextResponse.json({ error: 'Drive not found' }, { status: 404 });
     }
 
+    // A drive bound to a request keeps its status until the media disposition is recorded
+    const statusChanged = status !== undefined && status !== existingDrive[0].status;
+    if (statusChanged && existingDrive[0].lockedRequestId) {
+      return NextResponse.json({ 
+        error: 'Drive is locked to an AFT request awaiting media disposition' 
+      }, { status: 409 });
+    }
+
     // Check if serial number is being changed and if it conflicts with another drive
     if (existingDrive[0].serialNumber !== serialNumber) {
       const conflictingDrive = await db()
@@ -77,9 +95,35 @@ export async function PUT(
         notes,
         updatedAt: new Date(),
       })
-      .where(eq(driveInventory.id, driveId))
+      .where(and(
+        eq(driveInventory.id, driveId),
+        statusChanged ? isNull(driveInventory.lockedRequestId) : undefined
+      ))
       .returning();
 
+    if (updatedDrive.length === 0) {
+      return NextResponse.json({ 
+        error: 'Drive is locked to an AFT request awaiting media disposition' 
+      }, { status: 409 });
+    }
+
+    recordAudit(request, user, {
+      action: 'drive_updated',
+      before: existingDrive[0],
+      after: updatedDrive[0],
+      notes: `Drive ${updatedDrive[0].serialNumber} updated`,
+    });
+
+    if (status === 'retired' && existingDrive[0].status !== 'retired') {
+      await recordCustodyEvent({
+        driveId,
+        eventType: 'retirement',
+        toUserId: null,
+        signedBy: user.id,
+        notes,
+      });
+    }
+
     return NextResponse.json(updatedDrive[0]);
     
   } catch (error) {
@@ -116,7 +160,7 @@ export async function DELETE(
 
     // Check if drive exists
     const existingDrive = await db()
-      .select({ id: driveInventory.id })
+      .select()
       .from(driveInventory)
       .where(eq(driveInventory.id, driveId))
       .limit(1);
@@ -125,6 +169,12 @@ export async function DELETE(
       return NextResponse.json({ error: 'Drive not found' }, { status: 404 });
     }
 
+    if (existingDrive[0].lockedRequestId) {
+      return NextResponse.json({ 
+        error: 'Cannot delete a drive that is locked to an AFT request' 
+      }, { status: 409 });
+    }
+
     // Check if drive is currently issued (can't delete issued drives)
     const issuedDrive = await db()
       .select({ id: driveTracking.id })
@@ -141,10 +191,30 @@ export async function DELETE(
       }, { status: 400 });
     }
 
+    // Only a drive entered by mistake can be deleted - anything with custody history is retired instead
+    if (!(await clearIntakeOnlyLedger(driveId))) {
+      return NextResponse.json({ 
+        error: 'Cannot delete a drive with custody history. Retire the drive instead.' 
+      }, { status: 400 });
+    }
+
     // Delete drive (this will cascade delete all related tracking records)
-    await db()
+    const deleted = await db()
       .delete(driveInventory)
-      .where(eq(driveInventory.id, driveId));
+      .where(and(eq(driveInventory.id, driveId), isNull(driveInventory.lockedRequestId)))
+      .returning({ id: driveInventory.id });
+
+    if (deleted.length === 0) {
+      return NextResponse.json({ 
+        error: 'Cannot delete a drive that is locked to an AFT request' 
+      }, { status: 409 });
+    }
+
+    recordAudit(request, user, {
+      action: 'drive_deleted',
+      before: existingDrive[0],
+      notes: `Drive ${existingDrive[0].serialNumber} removed from inventory`,
+    });
 
     return NextResponse.json({ message: 'Drive deleted successfully' });
     
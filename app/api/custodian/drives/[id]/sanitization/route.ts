@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import {
+  parseMultipartUpload,
+  discardStagedUpload,
+  type ParsedUpload,
+} from '@/lib/attachments';
+import { sanitizationSchema, getSanitizationMethodLabel } from '@/lib/drive-sanitization';
+import {
+  getSanitizationRecords,
+  prepareSanitization,
+  recordSanitization,
+  storeSanitizationCertificate,
+} from '@/lib/drive-sanitization-server';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+// GET /api/custodian/drives/[id]/sanitization - Sanitization history of a drive
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is media custodian or admin
+    if (!user.roles?.includes('media_custodian') && user.primaryRole !== 'media_custodian' && 
+        !user.roles?.includes('admin') && user.primaryRole !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Media Custodian access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const driveId = parseInt(id);
+    if (isNaN(driveId)) {
+      return NextResponse.json({ error: 'Invalid drive ID' }, { status: 400 });
+    }
+
+    const records = await getSanitizationRecords(driveId);
+
+    return NextResponse.json({ records });
+
+  } catch (error) {
+    appLogger.error(`Error loading sanitization records: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to load sanitization records' }, { status: 500 });
+  }
+}
+
+// POST /api/custodian/drives/[id]/sanitization - Record a sanitization, with an optional certificate of destruction
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  let upload: ParsedUpload | null = null;
+
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is media custodian or admin
+    if (!user.roles?.includes('media_custodian') && user.primaryRole !== 'media_custodian' && 
+        !user.roles?.includes('admin') && user.primaryRole !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Media Custodian access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const driveId = parseInt(id);
+    if (isNaN(driveId)) {
+      return NextResponse.json({ error: 'Invalid drive ID' }, { status: 400 });
+    }
+
+    if (!request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      return NextResponse.json({ error: 'Expected multipart/form-data upload' }, { status: 400 });
+    }
+
+    const parsed = await parseMultipartUpload(request);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: parsed.httpStatus });
+    }
+
+    upload = parsed.upload;
+    const file = upload.file;
+
+    const details = sanitizationSchema.parse(upload.fields);
+
+    const prepared = await prepareSanitization([driveId], details, user.id);
+    if (!prepared.ok) {
+      await discardStagedUpload(file);
+      return NextResponse.json({ error: prepared.error }, { status: prepared.httpStatus });
+    }
+
+    const certificate = file ? await storeSanitizationCertificate(file, String(driveId)) : null;
+
+    const { records } = await recordSanitization(prepared.drives, details, user.id, certificate);
+    const drive = prepared.drives[0];
+
+    appLogger.privilegedAction('DRIVE_SANITIZED', {
+      userId: user.id.toString(),
+      resource: `drive_${driveId}`
+    });
+
+    recordAudit(request, user, {
+      action: details.method === 'destroy' ? 'drive_destroyed' : 'drive_sanitized',
+      requestId: details.requestId ?? null,
+      after: records[0],
+      notes: `Drive ${drive.serialNumber}: ${getSanitizationMethodLabel(details.method)}, verification ${details.verificationResult}${certificate ? ` (certificate SHA-256 ${certificate.checksum})` : ''}`,
+    });
+
+    return NextResponse.json({ record: records[0] }, { status: 201 });
+
+  } catch (error) {
+    await discardStagedUpload(upload?.file ?? null);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues?.map(e => `${e.path.join('.')}: ${e.message}`) || []
+        },
+        { status: 400 }
+      );
+    }
+
+    appLogger.error(`Error recording sanitization: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to record sanitization' }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import {
+  parseMultipartUpload,
+  discardStagedUpload,
+  type ParsedUpload,
+} from '@/lib/attachments';
+import { destructionBatchSchema } from '@/lib/drive-sanitization';
+import { prepareSanitization, recordSanitization, storeSanitizationCertificate } from '@/lib/drive-sanitization-server';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+// POST /api/custodian/drives/destruction-batch - Destroy several drives under one signature
+export async function POST(request: NextRequest) {
+  let upload: ParsedUpload | null = null;
+
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is media custodian or admin
+    if (!user.roles?.includes('media_custodian') && user.primaryRole !== 'media_custodian' && 
+        !user.roles?.includes('admin') && user.primaryRole !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Media Custodian access required' }, { status: 403 });
+    }
+
+    if (!request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      return NextResponse.json({ error: 'Expected multipart/form-data upload' }, { status: 400 });
+    }
+
+    const parsed = await parseMultipartUpload(request);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: parsed.httpStatus });
+    }
+
+    upload = parsed.upload;
+    const file = upload.file;
+
+    // Drive IDs arrive as a comma-separated form field
+    const batch = destructionBatchSchema.parse({
+      ...upload.fields,
+      driveIds: (upload.fields.driveIds || '').split(',').filter(Boolean),
+    });
+    const details = { ...batch, method: 'destroy' as const };
+
+    const prepared = await prepareSanitization(batch.driveIds, details, user.id);
+    if (!prepared.ok) {
+      await discardStagedUpload(file);
+      return NextResponse.json({ error: prepared.error }, { status: prepared.httpStatus });
+    }
+
+    const certificate = file ? await storeSanitizationCertificate(file, 'batches') : null;
+    const { batchId, records } = await recordSanitization(prepared.drives, details, user.id, certificate);
+    const serialNumbers = prepared.drives.map(drive => drive.serialNumber).join(', ');
+
+    appLogger.privilegedAction('DRIVE_BATCH_DESTROYED', {
+      userId: user.id.toString(),
+      resource: `sanitization_batch_${batchId ?? records[0].id}`
+    });
+
+    recordAudit(request, user, {
+      action: 'drive_batch_destroyed',
+      notes: `${records.length} drive(s) destroyed, verification ${details.verificationResult}${batchId ? ` (batch ${batchId})` : ''}: ${serialNumbers}`,
+    });
+
+    return NextResponse.json({ batchId, records }, { status: 201 });
+
+  } catch (error) {
+    await discardStagedUpload(upload?.file ?? null);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues?.map(e => `${e.path.join('.')}: ${e.message}`) || []
+        },
+        { status: 400 }
+      );
+    }
+
+    appLogger.error(`Error recording batch destruction: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to record batch destruction' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { DRIVE_EXPORT_COLUMNS, toCsv } from '@/lib/drive-inventory-io';
+import { getInventoryExport } from '@/lib/drive-inventory-io-server';
+
+export const runtime = 'nodejs';
+
+// GET /api/custodian/drives/export?format=csv|json - Full inventory with current custody state
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is media custodian or admin
+    if (!user.roles?.includes('media_custodian') && user.primaryRole !== 'media_custodian' && 
+        !user.roles?.includes('admin') && user.primaryRole !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Media Custodian access required' }, { status: 403 });
+    }
+
+    const format = request.nextUrl.searchParams.get('format') || 'csv';
+    if (format !== 'csv' && format !== 'json') {
+      return NextResponse.json({ error: 'Format must be csv or json' }, { status: 400 });
+    }
+
+    const drives = await getInventoryExport();
+    const exportedAt = new Date();
+    const filename = `drive-inventory-${exportedAt.toISOString().split('T')[0]}.${format}`;
+
+    appLogger.dataAccess('drive_inventory', 'INVENTORY_EXPORT', {
+      userId: user.id.toString()
+    });
+
+    recordAudit(request, user, {
+      action: 'drive_inventory_exported',
+      notes: `Exported ${drives.length} drive(s) as ${format.toUpperCase()}`,
+    });
+
+    if (format === 'json') {
+      return new NextResponse(JSON.stringify({ exportedAt, drives }, null, 2), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    return new NextResponse(toCsv(DRIVE_EXPORT_COLUMNS, drives), {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+
+  } catch (error) {
+    appLogger.error(`Error exporting drive inventory: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to export drive inventory' }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { DRIVE_IMPORT_FORMATS, parseDriveImport, validateDriveImport, type DriveImportRow } from '@/lib/drive-inventory-io';
+import { getInventorySerialNumbers, importDrives } from '@/lib/drive-inventory-io-server';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+const importRequestSchema = z.object({
+  format: z.enum(DRIVE_IMPORT_FORMATS, { message: 'Format must be csv or json' }),
+  content: z.string().min(1, 'Import file is empty'),
+  dryRun: z.boolean().default(true),
+});
+
+// POST /api/custodian/drives/import - Validate an inventory file and, unless a dry run, import it
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is media custodian or admin
+    if (!user.roles?.includes('media_custodian') && user.primaryRole !== 'media_custodian' && 
+        !user.roles?.includes('admin') && user.primaryRole !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Media Custodian access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { format, content, dryRun } = importRequestSchema.parse(body);
+
+    const parsed = parseDriveImport(content, format);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const report = validateDriveImport(parsed.records, await getInventorySerialNumbers());
+
+    if (dryRun) {
+      return NextResponse.json({ dryRun: true, report });
+    }
+
+    // All or nothing - a file with any invalid row imports nothing
+    if (report.invalid > 0) {
+      return NextResponse.json({
+        error: `${report.invalid} of ${report.total} row(s) failed validation. Nothing was imported.`,
+        report
+      }, { status: 400 });
+    }
+
+    const rows = report.rows.map(row => row.data as DriveImportRow);
+    const drives = importDrives(rows, user.id);
+
+    appLogger.privilegedAction('DRIVES_IMPORTED', {
+      userId: user.id.toString(),
+      resource: `drive_inventory_import_${drives.length}`
+    });
+
+    recordAudit(request, user, {
+      action: 'drives_imported',
+      notes: `Imported ${drives.length} drive(s) from ${format.toUpperCase()}: ${drives.map(drive => drive.serialNumber).join(', ')}`,
+    });
+
+    return NextResponse.json({ dryRun: false, imported: drives.length, report }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues?.map(e => `${e.path.join('.')}: ${e.message}`) || []
+        },
+        { status: 400 }
+      );
+    }
+
+    appLogger.error(`Error importing drive inventory: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to import drive inventory' }, { status: 500 });
+  }
+}
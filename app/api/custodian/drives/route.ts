@@ -2,7 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth-server';
 import { db } from '@/lib/db';
 import { driveInventory, driveTracking, users } from '@/lib/db/schema';
-import { eq, desc, isNull } from 'drizzle-orm';
+import { eq, desc, isNull, and } from 'drizzle-orm';
+import { recordAudit } from '@/lib/audit-log';
+import { getClassificationLevel } from '@/lib/classifications';
+import { DRIVE_CLASSIFICATIONS } from '@/lib/drive-inventory-io';
+import { recordCustodyEvent } from '@/lib/drive-custody-server';
 
 export async function GET() {
   try {
@@ -29,6 +33,7 @@ export async function GET() {
         mediaType: driveInventory.mediaType,
         classification: driveInventory.classification,
         status: driveInventory.status,
+        lockedRequestId: driveInventory.lockedRequestId,
         notes: driveInventory.notes,
         createdAt: driveInventory.createdAt,
         updatedAt: driveInventory.updatedAt,
@@ -42,10 +47,10 @@ export async function GET() {
       .from(driveInventory)
       .leftJoin(
         driveTracking,
-        eq(driveInventory.id, driveTracking.driveId)
+        // Only join current issues, not returned ones, so returned drives are still listed
+        and(eq(driveInventory.id, driveTracking.driveId), isNull(driveTracking.returnedAt))
       )
       .leftJoin(users, eq(driveTracking.userId, users.id))
-      .where(isNull(driveTracking.returnedAt)) // Only show current issues, not returned ones
       .orderBy(desc(driveInventory.updatedAt));
 
     // Format the response to include issued user info
@@ -84,7 +89,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { serialNumber, model, capacity, mediaController, mediaType, classification, status, notes } = body;
+    const { serialNumber, model, capacity, mediaController, mediaType, classification, status, notes, location } = body;
 
     // Validate required fields
     if (!serialNumber || !model || !capacity || !mediaController || !mediaType || !classification) {
@@ -93,6 +98,12 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    if (getClassificationLevel(classification) < 0) {
+      return NextResponse.json({ 
+        error: `Classification must be one of ${DRIVE_CLASSIFICATIONS.join(', ')}` 
+      }, { status: 400 });
+    }
+
     // Check if serial number already exists
     const existingDrive = await db()
       .select({ id: driveInventory.id })
@@ -120,6 +131,22 @@ export async function POST(request: NextRequest) {
       updatedAt: new Date(),
     }).returning();
 
+    recordAudit(request, user, {
+      action: 'drive_created',
+      after: newDrive[0],
+      notes: `Drive ${serialNumber} added to inventory`,
+    });
+
+    // The custodian taking the drive into inventory starts its custody ledger
+    await recordCustodyEvent({
+      driveId: newDrive[0].id,
+      eventType: 'intake',
+      toUserId: user.id,
+      signedBy: user.id,
+      location,
+      notes,
+    });
+
     return NextResponse.json(newDrive[0], { status: 201 });
     
   } catch (error) {
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { completeCampaignSchema } from '@/lib/inventory-campaigns';
+import { completeCampaign, getCampaign } from '@/lib/inventory-campaigns-server';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+// POST /api/custodian/inventory-campaigns/[id]/complete - Sign the results and open discrepancies
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is media custodian or admin
+    if (!user.roles?.includes('media_custodian') && user.primaryRole !== 'media_custodian' && 
+        !user.roles?.includes('admin') && user.primaryRole !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Media Custodian access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const campaignId = parseInt(id);
+    if (isNaN(campaignId)) {
+      return NextResponse.json({ error: 'Invalid campaign ID' }, { status: 400 });
+    }
+
+    const campaign = await getCampaign(campaignId);
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { signature } = completeCampaignSchema.parse(body);
+
+    const result = await completeCampaign(campaignId, user.id, signature);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.httpStatus });
+    }
+
+    appLogger.privilegedAction('INVENTORY_CAMPAIGN_COMPLETED', {
+      userId: user.id.toString(),
+      resource: `inventory_campaign_${campaignId}`
+    });
+
+    recordAudit(request, user, {
+      action: 'inventory_campaign_completed',
+      oldStatus: 'in_progress',
+      newStatus: 'completed',
+      notes: `Inventory campaign "${campaign.name}" signed: ${result.campaign.sightedCount} sighted of ${result.campaign.expectedCount} expected on hand, ${result.discrepancies.length} discrepancy(ies)`,
+    });
+
+    return NextResponse.json({ campaign: result.campaign, discrepancies: result.discrepancies });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues?.map(e => `${e.path.join('.')}: ${e.message}`) || []
+        },
+        { status: 400 }
+      );
+    }
+
+    appLogger.error(`Error completing inventory campaign: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to complete inventory campaign' }, { status: 500 });
+  }
+}
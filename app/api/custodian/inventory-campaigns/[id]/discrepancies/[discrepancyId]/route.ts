@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { getDiscrepancyResolutionLabel, resolveDiscrepancySchema } from '@/lib/inventory-campaigns';
+import { resolveDiscrepancy } from '@/lib/inventory-campaigns-server';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+// PATCH /api/custodian/inventory-campaigns/[id]/discrepancies/[discrepancyId] - Resolve a discrepancy
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; discrepancyId: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is media custodian or admin
+    if (!user.roles?.includes('media_custodian') && user.primaryRole !== 'media_custodian' && 
+        !user.roles?.includes('admin') && user.primaryRole !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Media Custodian access required' }, { status: 403 });
+    }
+
+    const { id, discrepancyId: discrepancyIdParam } = await params;
+    const campaignId = parseInt(id);
+    const discrepancyId = parseInt(discrepancyIdParam);
+    if (isNaN(campaignId) || isNaN(discrepancyId)) {
+      return NextResponse.json({ error: 'Invalid discrepancy ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const input = resolveDiscrepancySchema.parse(body);
+
+    const result = await resolveDiscrepancy(campaignId, discrepancyId, input, user.id);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.httpStatus });
+    }
+
+    recordAudit(request, user, {
+      action: 'inventory_discrepancy_resolved',
+      oldStatus: 'open',
+      newStatus: 'resolved',
+      after: result.discrepancy,
+      notes: `${result.discrepancy.type} drive ${result.discrepancy.serialNumber}: ${getDiscrepancyResolutionLabel(input.resolution)} - ${input.notes}`,
+    });
+
+    return NextResponse.json({ discrepancy: result.discrepancy });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues?.map(e => `${e.path.join('.')}: ${e.message}`) || []
+        },
+        { status: 400 }
+      );
+    }
+
+    appLogger.error(`Error resolving discrepancy: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to resolve discrepancy' }, { status: 500 });
+  }
+}
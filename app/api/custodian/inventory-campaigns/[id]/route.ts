@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import {
+  cancelCampaign,
+  getCampaign,
+  getCampaignDiscrepancies,
+  getCampaignReconciliation,
+  getCampaignSightings,
+} from '@/lib/inventory-campaigns-server';
+
+export const runtime = 'nodejs';
+
+// GET /api/custodian/inventory-campaigns/[id] - Campaign with its sightings, and either the
+// live reconciliation while in progress or the recorded discrepancies once completed
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is media custodian or admin
+    if (!user.roles?.includes('media_custodian') && user.primaryRole !== 'media_custodian' && 
+        !user.roles?.includes('admin') && user.primaryRole !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Media Custodian access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const campaignId = parseInt(id);
+    if (isNaN(campaignId)) {
+      return NextResponse.json({ error: 'Invalid campaign ID' }, { status: 400 });
+    }
+
+    const campaign = await getCampaign(campaignId);
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+
+    const sightings = await getCampaignSightings(campaignId);
+    const reconciliation = campaign.status === 'in_progress' ? await getCampaignReconciliation(campaignId) : null;
+    const discrepancies = campaign.status === 'completed' ? await getCampaignDiscrepancies(campaignId) : [];
+
+    return NextResponse.json({ campaign, sightings, reconciliation, discrepancies });
+
+  } catch (error) {
+    appLogger.error(`Error loading inventory campaign: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to load inventory campaign' }, { status: 500 });
+  }
+}
+
+// DELETE /api/custodian/inventory-campaigns/[id] - Cancel a campaign in progress
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is media custodian or admin
+    if (!user.roles?.includes('media_custodian') && user.primaryRole !== 'media_custodian' && 
+        !user.roles?.includes('admin') && user.primaryRole !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Media Custodian access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const campaignId = parseInt(id);
+    if (isNaN(campaignId)) {
+      return NextResponse.json({ error: 'Invalid campaign ID' }, { status: 400 });
+    }
+
+    const campaign = await cancelCampaign(campaignId);
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found or no longer in progress' }, { status: 404 });
+    }
+
+    recordAudit(request, user, {
+      action: 'inventory_campaign_cancelled',
+      oldStatus: 'in_progress',
+      newStatus: 'cancelled',
+      notes: `Inventory campaign "${campaign.name}" cancelled`,
+    });
+
+    return NextResponse.json({ campaign });
+
+  } catch (error) {
+    appLogger.error(`Error cancelling inventory campaign: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to cancel inventory campaign' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { getCampaign, removeSighting } from '@/lib/inventory-campaigns-server';
+
+export const runtime = 'nodejs';
+
+// DELETE /api/custodian/inventory-campaigns/[id]/sightings/[sightingId] - Remove a mistaken sighting
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; sightingId: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is media custodian or admin
+    if (!user.roles?.includes('media_custodian') && user.primaryRole !== 'media_custodian' && 
+        !user.roles?.includes('admin') && user.primaryRole !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Media Custodian access required' }, { status: 403 });
+    }
+
+    const { id, sightingId: sightingIdParam } = await params;
+    const campaignId = parseInt(id);
+    const sightingId = parseInt(sightingIdParam);
+    if (isNaN(campaignId) || isNaN(sightingId)) {
+      return NextResponse.json({ error: 'Invalid sighting ID' }, { status: 400 });
+    }
+
+    const campaign = await getCampaign(campaignId);
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+    if (campaign.status !== 'in_progress') {
+      return NextResponse.json({ error: 'Sightings of a closed campaign cannot be changed' }, { status: 409 });
+    }
+
+    const sighting = await removeSighting(campaignId, sightingId);
+    if (!sighting) {
+      return NextResponse.json({ error: 'Sighting not found' }, { status: 404 });
+    }
+
+    recordAudit(request, user, {
+      action: 'inventory_sighting_removed',
+      before: sighting,
+      notes: `Sighting of ${sighting.serialNumber} removed from inventory campaign "${campaign.name}"`,
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    appLogger.error(`Error removing sighting: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to remove sighting' }, { status: 500 });
+  }
+}
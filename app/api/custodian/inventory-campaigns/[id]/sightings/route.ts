@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { sightingSchema } from '@/lib/inventory-campaigns';
+import { getCampaign, recordSighting } from '@/lib/inventory-campaigns-server';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+// POST /api/custodian/inventory-campaigns/[id]/sightings - Record a scanned or typed serial number
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is media custodian or admin
+    if (!user.roles?.includes('media_custodian') && user.primaryRole !== 'media_custodian' && 
+        !user.roles?.includes('admin') && user.primaryRole !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Media Custodian access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const campaignId = parseInt(id);
+    if (isNaN(campaignId)) {
+      return NextResponse.json({ error: 'Invalid campaign ID' }, { status: 400 });
+    }
+
+    const campaign = await getCampaign(campaignId);
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+    if (campaign.status !== 'in_progress') {
+      return NextResponse.json({ error: 'Campaign is no longer in progress' }, { status: 409 });
+    }
+
+    const body = await request.json();
+    const input = sightingSchema.parse(body);
+
+    const result = await recordSighting(campaignId, input, user.id);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.httpStatus });
+    }
+
+    const { sighting } = result;
+    recordAudit(request, user, {
+      action: 'inventory_sighting_recorded',
+      after: sighting,
+      notes: `${sighting.driveId ? `Drive ${sighting.serialNumber} (#${sighting.driveId})` : `Unknown serial ${sighting.serialNumber}`} sighted`
+        + `${sighting.location ? ` at ${sighting.location}` : ''} by ${user.email} in inventory campaign #${campaignId} "${campaign.name}"`,
+    });
+
+    return NextResponse.json({ sighting }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues?.map(e => `${e.path.join('.')}: ${e.message}`) || []
+        },
+        { status: 400 }
+      );
+    }
+
+    appLogger.error(`Error recording sighting: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to record sighting' }, { status: 500 });
+  }
+}
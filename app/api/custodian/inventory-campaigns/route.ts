@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { startCampaignSchema } from '@/lib/inventory-campaigns';
+import { listCampaigns, startCampaign } from '@/lib/inventory-campaigns-server';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+// GET /api/custodian/inventory-campaigns - All campaigns, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is media custodian or admin
+    if (!user.roles?.includes('media_custodian') && user.primaryRole !== 'media_custodian' && 
+        !user.roles?.includes('admin') && user.primaryRole !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Media Custodian access required' }, { status: 403 });
+    }
+
+    const campaigns = await listCampaigns();
+
+    return NextResponse.json({ campaigns });
+
+  } catch (error) {
+    appLogger.error(`Error loading inventory campaigns: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to load inventory campaigns' }, { status: 500 });
+  }
+}
+
+// POST /api/custodian/inventory-campaigns - Start a campaign
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is media custodian or admin
+    if (!user.roles?.includes('media_custodian') && user.primaryRole !== 'media_custodian' && 
+        !user.roles?.includes('admin') && user.primaryRole !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Media Custodian access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const input = startCampaignSchema.parse(body);
+
+    const result = await startCampaign(input, user.id);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.httpStatus });
+    }
+
+    recordAudit(request, user, {
+      action: 'inventory_campaign_started',
+      after: result.campaign,
+      notes: `Inventory campaign "${result.campaign.name}" started`,
+    });
+
+    return NextResponse.json({ campaign: result.campaign }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues?.map(e => `${e.path.join('.')}: ${e.message}`) || []
+        },
+        { status: 400 }
+      );
+    }
+
+    appLogger.error(`Error starting inventory campaign: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to start inventory campaign' }, { status: 500 });
+  }
+}
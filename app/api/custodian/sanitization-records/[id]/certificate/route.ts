@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { Readable } from 'stream';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { getClientAddress } from '@/lib/client-address';
+import { computeFileChecksum, resolveAttachmentPath } from '@/lib/attachments';
+import { getSanitizationRecord } from '@/lib/drive-sanitization-server';
+
+export const runtime = 'nodejs';
+
+// GET /api/custodian/sanitization-records/[id]/certificate - Download the certificate of destruction
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is media custodian or admin
+    if (!user.roles?.includes('media_custodian') && user.primaryRole !== 'media_custodian' && 
+        !user.roles?.includes('admin') && user.primaryRole !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden - Media Custodian access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const recordId = parseInt(id);
+    if (isNaN(recordId)) {
+      return NextResponse.json({ error: 'Invalid sanitization record ID' }, { status: 400 });
+    }
+
+    const record = await getSanitizationRecord(recordId);
+    if (!record || !record.certificateFilePath) {
+      return NextResponse.json({ error: 'Certificate not found' }, { status: 404 });
+    }
+
+    const absolutePath = resolveAttachmentPath(record.certificateFilePath);
+
+    try {
+      await stat(absolutePath);
+    } catch {
+      appLogger.error(`Certificate for sanitization record ${record.id} is missing from storage`, {
+        userId: user.id.toString(),
+        resource: `sanitization_record_${record.id}`
+      });
+      return NextResponse.json({ error: 'File is missing from storage' }, { status: 410 });
+    }
+
+    // Re-verify integrity before serving the file
+    const checksum = await computeFileChecksum(absolutePath);
+    if (checksum !== record.certificateChecksum) {
+      appLogger.securityEvent('SANITIZATION_CERTIFICATE_INTEGRITY_FAILURE', {
+        sanitizationRecordId: record.id,
+        driveId: record.driveId,
+        expectedChecksum: record.certificateChecksum,
+        actualChecksum: checksum,
+      }, {
+        userId: user.id.toString(),
+        action: 'FILE_DOWNLOAD'
+      });
+      return NextResponse.json({
+        error: 'File integrity check failed - the stored file does not match its recorded checksum'
+      }, { status: 409 });
+    }
+
+    appLogger.dataAccess(`sanitization_record_${record.id}`, 'FILE_DOWNLOAD', {
+      userId: user.id.toString(),
+      ip: getClientAddress(request) ?? undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    const originalName = record.certificateOriginalName || 'certificate';
+    const body = Readable.toWeb(createReadStream(absolutePath)) as ReadableStream<Uint8Array>;
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': record.certificateMimeType || 'application/octet-stream',
+        ...(record.certificateSize !== null ? { 'Content-Length': record.certificateSize.toString() } : {}),
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(originalName)}"; filename*=UTF-8''${encodeURIComponent(originalName)}`,
+        'X-Content-SHA256': checksum,
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error) {
+    appLogger.error(`Error downloading sanitization certificate: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Download failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { revokeDelegation } from '@/lib/role-delegation-server';
+import { recordAudit } from '@/lib/audit-log';
+import { appLogger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+// DELETE /api/delegations/[id] - End a delegation before it expires
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const delegationId = parseInt(id);
+    if (isNaN(delegationId)) {
+      return NextResponse.json({ error: 'Invalid delegation ID' }, { status: 400 });
+    }
+
+    const result = await revokeDelegation(delegationId, user);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.httpStatus });
+    }
+
+    recordAudit(request, user, {
+      action: 'role_delegation_revoked',
+      before: result.before,
+      after: result.after,
+      notes: `Delegation of ${result.description} revoked`,
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    appLogger.error(`Error revoking delegation: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to revoke delegation' }, { status: 500 });
+  }
+}
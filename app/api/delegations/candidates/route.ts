@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { listDelegationCandidates } from '@/lib/role-delegation-server';
+import { isDelegableRole } from '@/lib/role-delegation';
+import { appLogger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+// GET /api/delegations/candidates?role=cpso - Users a role can be delegated to.
+// Admins pass delegatorId when setting up a delegation for someone else.
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const role = request.nextUrl.searchParams.get('role') || '';
+    if (!isDelegableRole(role)) {
+      return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+    }
+
+    const delegatorParam = request.nextUrl.searchParams.get('delegatorId');
+    const delegatorId = delegatorParam ? parseInt(delegatorParam) : user.id;
+    if (isNaN(delegatorId)) {
+      return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 });
+    }
+    if (delegatorId !== user.id && !isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const candidates = await listDelegationCandidates(role, delegatorId);
+    return NextResponse.json({ candidates });
+
+  } catch (error) {
+    appLogger.error(`Error fetching delegation candidates: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to fetch users' }, { status: 500 });
+  }
+}
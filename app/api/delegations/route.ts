@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { createDelegation, listDelegations } from '@/lib/role-delegation-server';
+import { createDelegationSchema, DELEGABLE_ROLE_LABELS } from '@/lib/role-delegation';
+import { notifyUsers } from '@/lib/notifications';
+import { recordAudit } from '@/lib/audit-log';
+import { appLogger } from '@/lib/logger';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+// GET /api/delegations - Delegations the current user has given or received. Admins pass
+// ?userId= for another user's, or ?all=true for every delegation.
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const all = request.nextUrl.searchParams.get('all') === 'true';
+    const userParam = request.nextUrl.searchParams.get('userId');
+    const userId = userParam ? parseInt(userParam) : user.id;
+    if (isNaN(userId)) {
+      return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 });
+    }
+    if ((all || userId !== user.id) && !isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const delegations = await listDelegations(all ? undefined : userId);
+    return NextResponse.json({ delegations });
+
+  } catch (error) {
+    appLogger.error(`Error fetching delegations: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to fetch delegations' }, { status: 500 });
+  }
+}
+
+// POST /api/delegations - Delegate a role to another user for a date range
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const input = createDelegationSchema.parse(await request.json());
+    const result = await createDelegation(input, user);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.httpStatus });
+    }
+
+    const { delegation } = result;
+    const roleLabel = DELEGABLE_ROLE_LABELS[input.role];
+    const period = `${input.startsAt.toLocaleString()} to ${input.expiresAt.toLocaleString()}`;
+
+    appLogger.privilegedAction('ROLE_DELEGATED', {
+      userId: user.id.toString(),
+      resource: `user_${delegation.userId}`
+    });
+
+    recordAudit(request, user, {
+      action: 'role_delegated',
+      after: delegation,
+      notes: `Delegated ${result.description}, ${period}`,
+    });
+
+    await notifyUsers([delegation.userId], {
+      type: 'role_delegated',
+      title: `${roleLabel} role delegated to you`,
+      message: `You will act as ${roleLabel} from ${period}. Signatures you make in this role record whom you are acting for.`,
+      link: '/profile',
+    });
+
+    return NextResponse.json({ delegation }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.issues }, { status: 400 });
+    }
+    appLogger.error(`Error creating delegation: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to create delegation' }, { status: 500 });
+  }
+}
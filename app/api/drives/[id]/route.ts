@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, hasAnyRole } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { getDriveDetail } from '@/lib/drive-binding';
+
+export const runtime = 'nodejs';
+
+// GET /api/drives/[id] - Drive inventory record, current issue and AFT history
+// Custodians, DTAs and admins see any drive; other users only a drive issued to them,
+// with the history limited to their own requests
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const driveId = parseInt(id);
+    if (isNaN(driveId)) {
+      return NextResponse.json({ error: 'Invalid drive ID' }, { status: 400 });
+    }
+
+    const drive = await getDriveDetail(driveId);
+    if (!drive) {
+      return NextResponse.json({ error: 'Drive not found' }, { status: 404 });
+    }
+
+    if (hasAnyRole(user, ['admin', 'media_custodian', 'dta'])) {
+      return NextResponse.json(drive);
+    }
+
+    if (drive.currentIssue?.userId !== user.id) {
+      return NextResponse.json({ error: 'Drive not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      ...drive,
+      requests: drive.requests.filter(aftRequest => aftRequest.requestorId === user.id),
+    });
+
+  } catch (error) {
+    appLogger.error(`Error fetching drive details: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to fetch drive details' }, { status: 500 });
+  }
+}
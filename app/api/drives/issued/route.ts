@@ -1,10 +1,12 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth-server';
 import { db } from '@/lib/db';
 import { driveInventory, driveTracking, users } from '@/lib/db/schema';
-import { eq, isNull, desc } from 'drizzle-orm';
+import { and, eq, isNull, desc } from 'drizzle-orm';
 
-export async function GET() {
+// GET /api/drives/issued - Drives currently out, with who holds them
+// scope=mine limits the list to drives issued to the current user
+export async function GET(request: NextRequest) {
   try {
     const user = await getCurrentUser();
     
@@ -22,6 +24,7 @@ export async function GET() {
         mediaController: driveInventory.mediaController,
         mediaType: driveInventory.mediaType,
         classification: driveInventory.classification,
+        lockedRequestId: driveInventory.lockedRequestId,
         // User information
         userId: users.id,
         userFirstName: users.firstName,
@@ -36,7 +39,10 @@ export async function GET() {
       .from(driveInventory)
       .innerJoin(driveTracking, eq(driveInventory.id, driveTracking.driveId))
       .innerJoin(users, eq(driveTracking.userId, users.id))
-      .where(isNull(driveTracking.returnedAt)) // Currently issued (not returned)
+      .where(and(
+        isNull(driveTracking.returnedAt), // Currently issued (not returned)
+        request.nextUrl.searchParams.get('scope') === 'mine' ? eq(driveTracking.userId, user.id) : undefined
+      ))
       .orderBy(desc(driveTracking.issuedAt));
 
     return NextResponse.json(issuedDrives);
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { Readable } from 'stream';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { db } from '@/lib/db/server';
+import { aftRequests, aftAttachments } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { appLogger } from '@/lib/logger';
+import { getClientAddress } from '@/lib/client-address';
+import { canViewRequestAttachments, computeFileChecksum, resolveAttachmentPath } from '@/lib/attachments';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ fileId: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { fileId: id } = await params;
+    const fileId = parseInt(id);
+    if (isNaN(fileId)) {
+      return NextResponse.json({ error: 'Invalid file ID' }, { status: 400 });
+    }
+
+    const attachmentArray = await db
+      .select()
+      .from(aftAttachments)
+      .where(eq(aftAttachments.id, fileId))
+      .limit(1);
+
+    if (attachmentArray.length === 0) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    const attachment = attachmentArray[0];
+
+    const aftRequestArray = await db
+      .select()
+      .from(aftRequests)
+      .where(eq(aftRequests.id, attachment.requestId))
+      .limit(1);
+
+    if (aftRequestArray.length === 0 || !canViewRequestAttachments(user, aftRequestArray[0])) {
+      return NextResponse.json({ error: 'Forbidden - You cannot download this file' }, { status: 403 });
+    }
+
+    const absolutePath = resolveAttachmentPath(attachment.filePath);
+
+    try {
+      await stat(absolutePath);
+    } catch {
+      appLogger.error(`Attachment ${attachment.id} is missing from storage`, {
+        userId: user.id.toString(),
+        resource: `attachment_${attachment.id}`
+      });
+      return NextResponse.json({ error: 'File is missing from storage' }, { status: 410 });
+    }
+
+    // Re-verify integrity before serving the file
+    const checksum = await computeFileChecksum(absolutePath);
+    if (!attachment.checksum || checksum !== attachment.checksum) {
+      appLogger.securityEvent('ATTACHMENT_INTEGRITY_FAILURE', {
+        attachmentId: attachment.id,
+        requestId: attachment.requestId,
+        expectedChecksum: attachment.checksum,
+        actualChecksum: checksum,
+      }, {
+        userId: user.id.toString(),
+        action: 'FILE_DOWNLOAD'
+      });
+      return NextResponse.json({
+        error: 'File integrity check failed - the stored file does not match its recorded checksum'
+      }, { status: 409 });
+    }
+
+    appLogger.dataAccess(`attachment_${attachment.id}`, 'FILE_DOWNLOAD', {
+      userId: user.id.toString(),
+      ip: getClientAddress(request) ?? undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+    });
+
+    const body = Readable.toWeb(createReadStream(absolutePath)) as ReadableStream<Uint8Array>;
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': attachment.mimeType,
+        'Content-Length': attachment.fileSize.toString(),
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(attachment.originalName)}"; filename*=UTF-8''${encodeURIComponent(attachment.originalName)}`,
+        'X-Content-SHA256': checksum,
+        // The MIME type came from the uploader, so the browser must not sniff or render the file
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error) {
+    appLogger.error(`Error downloading attachment: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Download failed' }, { status: 500 });
+  }
+}
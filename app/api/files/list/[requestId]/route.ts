@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { db } from '@/lib/db/server';
+import { aftRequests, aftAttachments, users } from '@/lib/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { appLogger } from '@/lib/logger';
+import { canViewRequestAttachments } from '@/lib/attachments';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ requestId: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { requestId: id } = await params;
+    const requestId = parseInt(id);
+    if (isNaN(requestId)) {
+      return NextResponse.json({ error: 'Invalid request ID' }, { status: 400 });
+    }
+
+    const aftRequestArray = await db
+      .select()
+      .from(aftRequests)
+      .where(eq(aftRequests.id, requestId))
+      .limit(1);
+
+    if (aftRequestArray.length === 0) {
+      return NextResponse.json({ error: 'AFT request not found' }, { status: 404 });
+    }
+
+    if (!canViewRequestAttachments(user, aftRequestArray[0])) {
+      return NextResponse.json({ error: 'Forbidden - You cannot view files for this request' }, { status: 403 });
+    }
+
+    const attachments = await db
+      .select({
+        id: aftAttachments.id,
+        fileName: aftAttachments.fileName,
+        originalName: aftAttachments.originalName,
+        fileSize: aftAttachments.fileSize,
+        mimeType: aftAttachments.mimeType,
+        checksum: aftAttachments.checksum,
+        createdAt: aftAttachments.createdAt,
+        uploaderFirstName: users.firstName,
+        uploaderLastName: users.lastName,
+      })
+      .from(aftAttachments)
+      .leftJoin(users, eq(aftAttachments.uploadedBy, users.id))
+      .where(eq(aftAttachments.requestId, requestId))
+      .orderBy(asc(aftAttachments.createdAt));
+
+    const files = attachments.map(({ uploaderFirstName, uploaderLastName, ...attachment }) => ({
+      ...attachment,
+      createdAt: attachment.createdAt.getTime(),
+      uploadedBy: uploaderFirstName ? `${uploaderFirstName} ${uploaderLastName}` : 'Unknown',
+    }));
+
+    return NextResponse.json({ files });
+
+  } catch (error) {
+    appLogger.error(`Error listing attachments: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to load files' }, { status: 500 });
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { db } from '@/lib/db/server';
+import { aftRequests, aftAttachments } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import {
+  parseMultipartUpload,
+  commitStagedUpload,
+  discardStagedUpload,
+  discardCommittedUpload,
+  canUploadRequestAttachments,
+  type ParsedUpload,
+} from '@/lib/attachments';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  let upload: ParsedUpload | null = null;
+  let committedPath: string | null = null;
+
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      return NextResponse.json({ error: 'Expected multipart/form-data upload' }, { status: 400 });
+    }
+
+    const parsed = await parseMultipartUpload(request);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: parsed.httpStatus });
+    }
+
+    upload = parsed.upload;
+    const file = upload.file;
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    const requestId = parseInt(upload.fields.requestId);
+    if (isNaN(requestId)) {
+      await discardStagedUpload(file);
+      return NextResponse.json({ error: 'Attachments must belong to a saved request' }, { status: 400 });
+    }
+
+    const aftRequestArray = await db
+      .select()
+      .from(aftRequests)
+      .where(eq(aftRequests.id, requestId))
+      .limit(1);
+
+    if (aftRequestArray.length === 0) {
+      await discardStagedUpload(file);
+      return NextResponse.json({ error: 'AFT request not found' }, { status: 404 });
+    }
+
+    const aftRequest = aftRequestArray[0];
+
+    if (!canUploadRequestAttachments(user, aftRequest)) {
+      await discardStagedUpload(file);
+      return NextResponse.json({
+        error: 'You do not have permission to add files to this request at its current stage'
+      }, { status: 403 });
+    }
+
+    const { fileName, filePath } = await commitStagedUpload(file, requestId);
+    committedPath = filePath;
+
+    const inserted = await db.insert(aftAttachments).values({
+      requestId,
+      fileName,
+      originalName: file.originalName,
+      fileSize: file.size,
+      mimeType: file.mimeType,
+      filePath,
+      checksum: file.checksum,
+      uploadedBy: user.id,
+      createdAt: new Date(),
+    }).returning();
+
+    const attachment = inserted[0];
+    committedPath = null;
+
+    appLogger.info(`File ${file.originalName} attached to AFT request ${aftRequest.requestNumber}`, {
+      userId: user.id.toString(),
+      action: 'FILE_UPLOAD',
+      resource: `attachment_${attachment.id}`
+    });
+
+    recordAudit(request, user, {
+      action: 'file_uploaded',
+      requestId,
+      after: attachment,
+      notes: `File ${file.originalName} attached (SHA-256 ${file.checksum})`,
+    });
+
+    return NextResponse.json({
+      id: attachment.id,
+      fileName: attachment.fileName,
+      originalName: attachment.originalName,
+      fileSize: attachment.fileSize,
+      mimeType: attachment.mimeType,
+      checksum: attachment.checksum,
+      createdAt: attachment.createdAt.getTime(),
+    });
+
+  } catch (error) {
+    await discardStagedUpload(upload?.file ?? null);
+    await discardCommittedUpload(committedPath);
+    appLogger.error(`Error uploading attachment: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to upload file' }, { status: 500 });
+  }
+}
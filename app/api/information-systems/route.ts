@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { listInformationSystems } from '@/lib/information-systems-server';
+
+export const runtime = 'nodejs';
+
+// GET /api/information-systems - Active information systems for the request form and drive issue dialog
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const systems = await listInformationSystems(true);
+
+    return NextResponse.json({ systems });
+
+  } catch (error) {
+    appLogger.error(`Error listing information systems: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to load information systems' }, { status: 500 });
+  }
+}
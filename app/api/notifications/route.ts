@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest } from '@/lib/auth-server';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { listNotifications, markNotificationsRead } from '@/lib/notifications';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+const markReadSchema = z.object({
+  ids: z.array(z.number().int().positive()).optional(), // Omit to mark all unread notifications read
+});
+
+// GET /api/notifications - The current user's recent notifications
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const notifications = await listNotifications(user.id);
+    const unreadCount = notifications.filter(notification => !notification.readAt).length;
+
+    return NextResponse.json({ notifications, unreadCount });
+
+  } catch (error) {
+    appLogger.error(`Error listing notifications: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to load notifications' }, { status: 500 });
+  }
+}
+
+// PATCH /api/notifications - Mark notifications read
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { ids } = markReadSchema.parse(body);
+
+    const updated = await markNotificationsRead(user.id, ids);
+    if (updated > 0) {
+      recordAudit(request, user, {
+        action: 'notifications_read',
+        notes: ids
+          ? `${updated} notification(s) marked read (ids ${ids.join(', ')})`
+          : `All ${updated} unread notification(s) marked read`,
+      });
+    }
+
+    return NextResponse.json({ updated });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues?.map(e => `${e.path.join('.')}: ${e.message}`) || []
+        },
+        { status: 400 }
+      );
+    }
+
+    appLogger.error(`Error updating notifications: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to update notifications' }, { status: 500 });
+  }
+}
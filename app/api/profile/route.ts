@@ -3,6 +3,7 @@ import { getCurrentUserFromRequest } from '@/lib/auth-server';
 import { db } from '@/lib/db/server';
 import { users } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { recordAudit } from '@/lib/audit-log';
 import { z } from 'zod';
 
 export const runtime = 'nodejs';
@@ -79,6 +80,24 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    recordAudit(request, currentUser, {
+      action: 'profile_updated',
+      before: {
+        email: currentUser.email,
+        firstName: currentUser.firstName,
+        lastName: currentUser.lastName,
+        organization: currentUser.organization ?? null,
+        phone: currentUser.phone ?? null,
+      },
+      after: {
+        email: updatedUser[0].email,
+        firstName: updatedUser[0].firstName,
+        lastName: updatedUser[0].lastName,
+        organization: updatedUser[0].organization,
+        phone: updatedUser[0].phone,
+      },
+    });
+
     console.log('Profile updated successfully for user:', updatedUser[0].email);
     return NextResponse.json(updatedUser[0]);
   } catch (error) {
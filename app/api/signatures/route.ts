@@ -1,10 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUserFromRequest } from '@/lib/auth-server';
 import { db } from '@/lib/db/server';
-import { cacSignatures, aftRequests, type AFTRequest } from '@/lib/db/schema';
+import { cacSignatures, aftRequests, type AFTRequest, type UserRoleType } from '@/lib/db/schema';
 import { type AuthUser } from '@/lib/auth-server';
 import { eq, and } from 'drizzle-orm';
 import { z } from 'zod';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { getClientAddress } from '@/lib/client-address';
+import { getActingOnBehalfOf } from '@/lib/role-delegation-server';
+import { getRevocationConfig } from '@/lib/revocation';
+import {
+  checkSignerRevocation,
+  encodeCertificate,
+  getCertificateThumbprint,
+  normalizeThumbprint,
+  parseCertificate,
+} from '@/lib/signature-verification';
+import type * as x509 from '@peculiar/x509';
 
 export const runtime = 'nodejs';
 
@@ -18,6 +31,8 @@ const createSignatureSchema = z.object({
   certificateThumbprint: z.string(),
   certificateNotBefore: z.string().transform(str => new Date(str)),
   certificateNotAfter: z.string().transform(str => new Date(str)),
+  certificateData: z.string().min(1, 'Signer certificate is required'), // PEM or Base64 DER signer certificate
+  certificateChain: z.array(z.string()).optional(), // Intermediate certificates, PEM or Base64 DER
   signatureData: z.string(),
   signedData: z.string(),
   signatureAlgorithm: z.string().default('RSA-SHA256'),
@@ -25,6 +40,16 @@ const createSignatureSchema = z.object({
   signatureLocation: z.string().optional(),
 });
 
+// Role each signature step is signed under
+const SIGNATURE_STEP_ROLES: Record<string, UserRoleType> = {
+  dao_approval: 'dao',
+  approver_approval: 'approver',
+  cpso_approval: 'cpso',
+  dta_completion: 'dta',
+  sme_signature: 'sme',
+  custodian_disposition: 'media_custodian',
+};
+
 // POST /api/signatures - Create new digital signature
 export async function POST(request: NextRequest) {
   try {
@@ -67,6 +92,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Nobody signs a step on their own request, including through a role delegated after it was submitted
+    if (aftRequest[0].requestorId === currentUser.id) {
+      return NextResponse.json(
+        { error: 'You cannot sign a workflow step on your own request' },
+        { status: 403 }
+      );
+    }
+
     // Check if user is authorized for this step type
     const isAuthorized = await verifyStepAuthorization(
       currentUser, 
@@ -100,12 +133,64 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Store the signer certificate so the signature can be verified later, and
+    // check it for revocation before the signature is accepted
+    let certificateData: string;
+    let certificateChain: string | null = null;
+    let certificate: x509.X509Certificate;
+    try {
+      certificate = parseCertificate(signatureData.certificateData);
+      certificateData = encodeCertificate(certificate);
+      if (signatureData.certificateChain?.length) {
+        certificateChain = JSON.stringify(signatureData.certificateChain.map(entry => encodeCertificate(parseCertificate(entry))));
+      }
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid certificate data' },
+        { status: 400 }
+      );
+    }
+
+    if (getCertificateThumbprint(certificate) !== normalizeThumbprint(signatureData.certificateThumbprint)) {
+      return NextResponse.json(
+        { error: 'Certificate does not match the supplied thumbprint' },
+        { status: 400 }
+      );
+    }
+
+    // Refuse signatures from revoked certificates
+    const revocation = await checkSignerRevocation(certificate, signatureData.certificateChain);
+    const undetermined = revocation.status === 'unknown' && getRevocationConfig().requireRevocationCheck;
+    if (revocation.status === 'revoked' || undetermined) {
+      appLogger.securityEvent('REVOKED_CERTIFICATE_SIGNATURE_REJECTED', {
+        requestId: signatureData.requestId,
+        stepType: signatureData.stepType,
+        certificateSubject: certificate.subject,
+        certificateSerial: certificate.serialNumber,
+        revocationStatus: revocation.status,
+        reason: revocation.message,
+      }, {
+        userId: currentUser.id.toString(),
+        action: 'SIGNATURE_CREATE'
+      });
+      return NextResponse.json(
+        {
+          error: revocation.status === 'revoked'
+            ? 'Signer certificate has been revoked'
+            : 'Revocation status of the signer certificate could not be determined',
+          details: revocation.message,
+        },
+        { status: 403 }
+      );
+    }
+
     // Get client information
-    const clientIP = request.headers.get('x-forwarded-for') || 
-                    request.headers.get('x-real-ip') || 
-                    'unknown';
+    const clientIP = getClientAddress(request) || 'unknown';
     const userAgent = request.headers.get('user-agent') || 'unknown';
 
+    // Signing under a delegation records the delegator the signer acts for
+    const onBehalfOf = (await getActingOnBehalfOf(currentUser.id))[SIGNATURE_STEP_ROLES[signatureData.stepType]];
+
     // Create signature record
     const newSignature = await db.insert(cacSignatures).values({
       requestId: signatureData.requestId,
@@ -117,6 +202,8 @@ export async function POST(request: NextRequest) {
       certificateThumbprint: signatureData.certificateThumbprint,
       certificateNotBefore: signatureData.certificateNotBefore,
       certificateNotAfter: signatureData.certificateNotAfter,
+      certificateData,
+      certificateChain,
       signatureData: signatureData.signatureData,
       signedData: signatureData.signedData,
       signatureAlgorithm: signatureData.signatureAlgorithm,
@@ -124,10 +211,27 @@ export async function POST(request: NextRequest) {
       signatureLocation: signatureData.signatureLocation,
       ipAddress: clientIP,
       userAgent: userAgent,
+      onBehalfOfUserId: onBehalfOf?.userId ?? null,
       isVerified: false, // Will be verified separately
       createdAt: new Date(),
     }).returning();
 
+    recordAudit(request, currentUser, {
+      action: 'cac_signature_applied',
+      requestId: signatureData.requestId,
+      after: {
+        id: newSignature[0].id,
+        stepType: newSignature[0].stepType,
+        certificateSubject: newSignature[0].certificateSubject,
+        certificateSerial: newSignature[0].certificateSerial,
+        certificateThumbprint: newSignature[0].certificateThumbprint,
+        signatureAlgorithm: newSignature[0].signatureAlgorithm,
+        signatureReason: newSignature[0].signatureReason,
+        onBehalfOfUserId: newSignature[0].onBehalfOfUserId,
+      },
+      notes: `CAC signature applied for ${signatureData.stepType}${onBehalfOf ? ` on behalf of ${onBehalfOf.name}` : ''}`,
+    });
+
     // TODO: Queue signature for verification
     // await queueSignatureVerification(newSignature[0].id);
 
@@ -190,6 +294,7 @@ export async function GET(request: NextRequest) {
       certificateThumbprint: cacSignatures.certificateThumbprint,
       signatureReason: cacSignatures.signatureReason,
       signatureLocation: cacSignatures.signatureLocation,
+      onBehalfOfUserId: cacSignatures.onBehalfOfUserId,
       isVerified: cacSignatures.isVerified,
       createdAt: cacSignatures.createdAt,
     })
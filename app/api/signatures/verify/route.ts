@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
 import { db } from '@/lib/db/server';
-import { cacSignatures, cacTrustStore } from '@/lib/db/schema';
+import { cacSignatures } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { z } from 'zod';
-import * as crypto from 'crypto';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { verifyCacSignature, type SignatureVerificationResult } from '@/lib/signature-verification';
 
 export const runtime = 'nodejs';
 
@@ -57,27 +59,28 @@ export async function POST(request: NextRequest) {
     }
 
     const sig = signature[0];
-    let verificationResult: VerificationResult;
+    let verificationResult: SignatureVerificationResult;
 
     try {
-      // Map database signature to SignatureData interface
-      const signatureData: SignatureData = {
-        certificateNotBefore: sig.certificateNotBefore?.toISOString() || '',
-        certificateNotAfter: sig.certificateNotAfter?.toISOString() || '',
-        certificateThumbprint: sig.certificateThumbprint,
-        signatureValue: sig.signatureData || '',
-        signedData: sig.signedData || '',
-        algorithm: sig.signatureAlgorithm || 'RSA-SHA256'
-      };
-
-      // Perform signature verification
-      verificationResult = await verifyDigitalSignature(signatureData, originalData);
+      verificationResult = await verifyCacSignature(sig, originalData);
     } catch (error) {
-      verificationResult = {
-        isValid: false,
-        error: `Verification failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        details: {}
-      };
+      appLogger.error(`Signature ${signatureId} verification error: ${error instanceof Error ? error.message : String(error)}`);
+      return NextResponse.json(
+        { error: 'Failed to verify signature' },
+        { status: 500 }
+      );
+    }
+
+    if (!verificationResult.isValid) {
+      appLogger.securityEvent('SIGNATURE_VERIFICATION_FAILED', {
+        signatureId,
+        requestId: sig.requestId,
+        signerUserId: sig.userId,
+        reason: verificationResult.error,
+      }, {
+        userId: currentUser.id.toString(),
+        action: 'SIGNATURE_VERIFY'
+      });
     }
 
     // Update signature verification status
@@ -93,9 +96,22 @@ export async function POST(request: NextRequest) {
       })
       .where(eq(cacSignatures.id, signatureId));
 
+    recordAudit(request, currentUser, {
+      action: 'cac_signature_verified',
+      requestId: sig.requestId,
+      before: { isVerified: sig.isVerified },
+      after: { isVerified: verificationResult.isValid },
+      notes: verificationResult.isValid
+        ? `Signature ${signatureId} verified`
+        : `Signature ${signatureId} failed verification: ${verificationResult.error}`,
+    });
+
     return NextResponse.json({
       signatureId: signatureId,
       isValid: verificationResult.isValid,
+      error: verificationResult.error,
+      checks: verificationResult.checks,
+      chain: verificationResult.chain,
       verificationDetails: verificationResult,
       verifiedAt: new Date().toISOString(),
       verifiedBy: `${currentUser.firstName} ${currentUser.lastName}`
@@ -109,148 +125,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-interface VerificationResult {
-  isValid: boolean;
-  error?: string;
-  details: {
-    certificateValid?: boolean;
-    signatureValid?: boolean;
-    certificateExpired?: boolean;
-    certificateTrusted?: boolean;
-    timestampValid?: boolean;
-  };
-}
-
-/**
- * Verify a digital signature
- */
-interface SignatureData {
-  certificateNotBefore: string;
-  certificateNotAfter: string;
-  certificateThumbprint: string;
-  signatureValue: string;
-  signedData: string;
-  algorithm: string;
-}
-
-async function verifyDigitalSignature(
-  signature: SignatureData,
-  originalData?: string
-): Promise<VerificationResult> {
-  const result: VerificationResult = {
-    isValid: false,
-    details: {}
-  };
-
-  try {
-    // 1. Check certificate validity period
-    const now = new Date();
-    const certNotBefore = new Date(signature.certificateNotBefore);
-    const certNotAfter = new Date(signature.certificateNotAfter);
-    
-    result.details.certificateExpired = now > certNotAfter || now < certNotBefore;
-    
-    if (result.details.certificateExpired) {
-      result.error = 'Certificate is expired or not yet valid';
-      return result;
-    }
-
-    // 2. Check if certificate is trusted
-    result.details.certificateTrusted = await isCertificateTrusted(signature.certificateThumbprint);
-    
-    if (!result.details.certificateTrusted) {
-      result.error = 'Certificate is not in trust store';
-      // Continue verification but mark as untrusted
-    }
-
-    // 3. Verify signature integrity
-    if (originalData) {
-      result.details.signatureValid = await verifySignatureIntegrity(
-        signature.signatureValue,
-        signature.signedData,
-        originalData,
-        signature.algorithm
-      );
-    } else {
-      // If no original data provided, we can only verify the stored hash consistency
-      result.details.signatureValid = true; // Assume valid if stored properly
-    }
-
-    // 4. Timestamp validity will be checked by caller if needed
-    result.details.timestampValid = true; // Default to valid for this function
-
-    // Overall validity
-    result.isValid = !result.details.certificateExpired && 
-                    result.details.certificateTrusted &&
-                    result.details.signatureValid &&
-                    result.details.timestampValid;
-
-    if (!result.isValid && !result.error) {
-      const issues = [];
-      if (result.details.certificateExpired) issues.push('certificate expired');
-      if (!result.details.certificateTrusted) issues.push('certificate not trusted');
-      if (!result.details.signatureValid) issues.push('signature invalid');
-      if (!result.details.timestampValid) issues.push('timestamp invalid');
-      
-      result.error = `Verification failed: ${issues.join(', ')}`;
-    }
-
-    return result;
-
-  } catch (error) {
-    result.error = `Verification error: ${error instanceof Error ? error.message : 'Unknown error'}`;
-    return result;
-  }
-}
-
-/**
- * Check if certificate is in trust store
- */
-async function isCertificateTrusted(thumbprint: string): Promise<boolean> {
-  try {
-    const trusted = await db.select()
-      .from(cacTrustStore)
-      .where(eq(cacTrustStore.certificateThumbprint, thumbprint))
-      .limit(1);
-    
-    return trusted.length > 0 && trusted[0].isActive;
-  } catch (error) {
-    console.error('Trust store check error:', error);
-    return false;
-  }
-}
-
-/**
- * Verify signature integrity by recalculating hash and comparing
- */
-async function verifySignatureIntegrity(
-  signatureData: string,
-  storedHash: string,
-  originalData: string,
-  algorithm: string
-): Promise<boolean> {
-  try {
-    // Recalculate hash of original data
-    const hashAlgorithm = algorithm.includes('SHA256') ? 'sha256' : 'sha1';
-    const calculatedHash = crypto
-      .createHash(hashAlgorithm)
-      .update(originalData, 'utf8')
-      .digest('hex');
-
-    // Compare with stored hash
-    const hashMatches = calculatedHash.toLowerCase() === storedHash.toLowerCase();
-    
-    // In a full implementation, we would also:
-    // 1. Extract public key from certificate
-    // 2. Verify signature using public key and hash
-    // 3. Use proper cryptographic libraries for X.509 certificate parsing
-    
-    // For now, we'll just verify the hash consistency
-    return hashMatches;
-
-  } catch (error) {
-    console.error('Signature integrity check error:', error);
-    return false;
-  }
-}
\ No newline at end of file
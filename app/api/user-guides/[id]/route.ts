@@ -0,0 +1,210 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { db } from '@/lib/db/server';
+import { userGuides } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { canViewGuide, listUserGuides, publishUserGuideSchema, userGuideSchema } from '@/lib/user-guides';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+// GET /api/user-guides/[id] - Get a guide the current user may see
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const guides = await listUserGuides(id);
+
+    // Guides outside the user's roles are reported as missing rather than forbidden
+    if (guides.length === 0 || !canViewGuide(user, guides[0])) {
+      return NextResponse.json({ error: 'Guide not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(guides[0]);
+
+  } catch (error) {
+    appLogger.error(`Error fetching user guide: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to fetch user guide' }, { status: 500 });
+  }
+}
+
+// PUT /api/user-guides/[id] - Update a guide (admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const validatedData = userGuideSchema.parse(body);
+
+    const existing = await db.select().from(userGuides).where(eq(userGuides.id, id)).limit(1);
+    if (existing.length === 0) {
+      return NextResponse.json({ error: 'Guide not found' }, { status: 404 });
+    }
+
+    const updated = await db
+      .update(userGuides)
+      .set({
+        ...validatedData,
+        updatedBy: user.id,
+        updatedAt: new Date(),
+      })
+      .where(eq(userGuides.id, id))
+      .returning();
+
+    appLogger.privilegedAction('USER_GUIDE_UPDATED', {
+      userId: user.id.toString(),
+      resource: `user_guide_${id}`
+    });
+
+    recordAudit(request, user, {
+      action: 'user_guide_updated',
+      before: existing[0],
+      after: updated[0],
+      notes: `User guide ${updated[0].title} updated`,
+    });
+
+    return NextResponse.json(updated[0]);
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues?.map(e => `${e.path.join('.')}: ${e.message}`) || []
+        },
+        { status: 400 }
+      );
+    }
+
+    appLogger.error(`Error updating user guide: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to update user guide' }, { status: 500 });
+  }
+}
+
+// PATCH /api/user-guides/[id] - Publish or unpublish a guide (admin only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { isPublished } = publishUserGuideSchema.parse(body);
+
+    const existing = await db.select().from(userGuides).where(eq(userGuides.id, id)).limit(1);
+    if (existing.length === 0) {
+      return NextResponse.json({ error: 'Guide not found' }, { status: 404 });
+    }
+
+    const updated = await db
+      .update(userGuides)
+      .set({
+        isPublished,
+        updatedBy: user.id,
+        updatedAt: new Date(),
+      })
+      .where(eq(userGuides.id, id))
+      .returning();
+
+    appLogger.privilegedAction(isPublished ? 'USER_GUIDE_PUBLISHED' : 'USER_GUIDE_UNPUBLISHED', {
+      userId: user.id.toString(),
+      resource: `user_guide_${id}`
+    });
+
+    recordAudit(request, user, {
+      action: isPublished ? 'user_guide_published' : 'user_guide_unpublished',
+      before: existing[0],
+      after: updated[0],
+      notes: `User guide ${updated[0].title} ${isPublished ? 'published' : 'unpublished'}`,
+    });
+
+    return NextResponse.json(updated[0]);
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues?.map(e => `${e.path.join('.')}: ${e.message}`) || []
+        },
+        { status: 400 }
+      );
+    }
+
+    appLogger.error(`Error publishing user guide: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to update user guide' }, { status: 500 });
+  }
+}
+
+// DELETE /api/user-guides/[id] - Delete a guide (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const deleted = await db
+      .delete(userGuides)
+      .where(eq(userGuides.id, id))
+      .returning();
+
+    if (deleted.length === 0) {
+      return NextResponse.json({ error: 'Guide not found' }, { status: 404 });
+    }
+
+    appLogger.privilegedAction('USER_GUIDE_DELETED', {
+      userId: user.id.toString(),
+      resource: `user_guide_${id}`
+    });
+
+    recordAudit(request, user, {
+      action: 'user_guide_deleted',
+      before: deleted[0],
+      notes: `User guide ${deleted[0].title} deleted`,
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    appLogger.error(`Error deleting user guide: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to delete user guide' }, { status: 500 });
+  }
+}
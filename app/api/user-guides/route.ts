@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { db } from '@/lib/db/server';
+import { userGuides } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { canViewGuide, createUserGuideSchema, listUserGuides } from '@/lib/user-guides';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+// GET /api/user-guides - List the guides visible to the current user
+// Admins may pass includeUnpublished=true to include drafts
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const includeUnpublished = isAdmin(user) && request.nextUrl.searchParams.get('includeUnpublished') === 'true';
+    const guides = await listUserGuides();
+
+    return NextResponse.json(
+      guides.filter(guide => (guide.isPublished || includeUnpublished) && canViewGuide(user, guide))
+    );
+
+  } catch (error) {
+    appLogger.error(`Error fetching user guides: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to fetch user guides' }, { status: 500 });
+  }
+}
+
+// POST /api/user-guides - Create a guide (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUserFromRequest(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validatedData = createUserGuideSchema.parse(body);
+
+    const existing = await db
+      .select({ id: userGuides.id })
+      .from(userGuides)
+      .where(eq(userGuides.id, validatedData.id))
+      .limit(1);
+
+    if (existing.length > 0) {
+      return NextResponse.json({ error: 'A guide with this ID already exists' }, { status: 409 });
+    }
+
+    const inserted = await db.insert(userGuides).values({
+      ...validatedData,
+      createdBy: user.id,
+      updatedBy: user.id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }).returning();
+
+    appLogger.privilegedAction('USER_GUIDE_CREATED', {
+      userId: user.id.toString(),
+      resource: `user_guide_${inserted[0].id}`
+    });
+
+    recordAudit(request, user, {
+      action: 'user_guide_created',
+      after: inserted[0],
+      notes: `User guide ${inserted[0].title} created${inserted[0].isPublished ? ' and published' : ''}`,
+    });
+
+    return NextResponse.json(inserted[0], { status: 201 });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.issues?.map(e => `${e.path.join('.')}: ${e.message}`) || []
+        },
+        { status: 400 }
+      );
+    }
+
+    appLogger.error(`Error creating user guide: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to create user guide' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { db } from '@/lib/db/server';
+import { userCertificates } from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { toUserCertificateResponse } from '@/lib/cac-login';
+
+export const runtime = 'nodejs';
+
+// DELETE /api/users/[id]/certificates/[certificateId] - Unbind a CAC certificate from a user (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; certificateId: string }> }
+) {
+  try {
+    const currentUser = await getCurrentUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(currentUser)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id, certificateId } = await params;
+    const userId = parseInt(id);
+    const bindingId = parseInt(certificateId);
+    if (isNaN(userId)) {
+      return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 });
+    }
+    if (isNaN(bindingId)) {
+      return NextResponse.json({ error: 'Invalid certificate ID' }, { status: 400 });
+    }
+
+    const deleted = await db
+      .delete(userCertificates)
+      .where(and(eq(userCertificates.id, bindingId), eq(userCertificates.userId, userId)))
+      .returning();
+
+    if (deleted.length === 0) {
+      return NextResponse.json({ error: 'Certificate not found' }, { status: 404 });
+    }
+
+    appLogger.privilegedAction('CAC_CERTIFICATE_UNBOUND', {
+      userId: currentUser.id.toString(),
+      resource: `user_${userId}:${deleted[0].certificateThumbprint}`
+    });
+
+    recordAudit(request, currentUser, {
+      action: 'cac_certificate_unbound',
+      before: toUserCertificateResponse(deleted[0]),
+      notes: `CAC certificate ${deleted[0].subjectDN} unbound from user ${userId}`,
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    appLogger.error(`Error unbinding user certificate: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to unbind certificate' }, { status: 500 });
+  }
+}
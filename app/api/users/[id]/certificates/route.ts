@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { db } from '@/lib/db/server';
+import { users, userCertificates } from '@/lib/db/schema';
+import { eq, desc } from 'drizzle-orm';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import {
+  parseCertificateFile,
+  permitsClientAuthentication,
+  toUserCertificate,
+  toUserCertificateResponse,
+} from '@/lib/cac-login';
+import { validateCertificate } from '@/lib/signature-verification';
+import type * as x509 from '@peculiar/x509';
+
+export const runtime = 'nodejs';
+
+const MAX_CERTIFICATE_SIZE = 64 * 1024;
+
+// GET /api/users/[id]/certificates - List CAC certificates bound to a user (admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const currentUser = await getCurrentUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(currentUser)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const userId = parseInt(id);
+    if (isNaN(userId)) {
+      return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 });
+    }
+
+    const bindings = await db
+      .select()
+      .from(userCertificates)
+      .where(eq(userCertificates.userId, userId))
+      .orderBy(desc(userCertificates.createdAt));
+
+    return NextResponse.json({ certificates: bindings.map(toUserCertificateResponse) });
+
+  } catch (error) {
+    appLogger.error(`Error fetching user certificates: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to fetch user certificates' }, { status: 500 });
+  }
+}
+
+// POST /api/users/[id]/certificates - Bind a CAC certificate to a user for certificate login (admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const currentUser = await getCurrentUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(currentUser)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const userId = parseInt(id);
+    if (isNaN(userId)) {
+      return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 });
+    }
+
+    const userArray = await db.select({ id: users.id }).from(users).where(eq(users.id, userId)).limit(1);
+    if (userArray.length === 0) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'A certificate file is required' }, { status: 400 });
+    }
+
+    if (file.size > MAX_CERTIFICATE_SIZE) {
+      return NextResponse.json({ error: 'Certificate file exceeds the 64KB limit' }, { status: 413 });
+    }
+
+    let certificate: x509.X509Certificate;
+    try {
+      certificate = parseCertificateFile(Buffer.from(await file.arrayBuffer()));
+    } catch {
+      return NextResponse.json({ error: 'File could not be read as a PEM or DER certificate' }, { status: 400 });
+    }
+
+    if (!permitsClientAuthentication(certificate)) {
+      return NextResponse.json({
+        error: 'Certificate is not issued for client authentication. Export the authentication certificate from the CAC.'
+      }, { status: 400 });
+    }
+
+    const values = toUserCertificate(certificate, userId, currentUser.id);
+
+    const existing = await db
+      .select()
+      .from(userCertificates)
+      .where(eq(userCertificates.certificateThumbprint, values.certificateThumbprint))
+      .limit(1);
+    if (existing.length > 0) {
+      return NextResponse.json({
+        error: existing[0].userId === userId
+          ? 'Certificate is already bound to this user'
+          : 'Certificate is already bound to another user'
+      }, { status: 409 });
+    }
+
+    // One cardholder, one account - a reissued CAC is matched on its EDIPI
+    if (values.edipi) {
+      const sameEdipi = await db
+        .select({ userId: userCertificates.userId })
+        .from(userCertificates)
+        .where(eq(userCertificates.edipi, values.edipi));
+      if (sameEdipi.some(binding => binding.userId !== userId)) {
+        return NextResponse.json({ error: `EDIPI ${values.edipi} is already bound to another user` }, { status: 409 });
+      }
+    }
+
+    const inserted = await db.insert(userCertificates).values(values).returning();
+
+    appLogger.privilegedAction('CAC_CERTIFICATE_BOUND', {
+      userId: currentUser.id.toString(),
+      resource: `user_${userId}:${values.certificateThumbprint}`
+    });
+
+    recordAudit(request, currentUser, {
+      action: 'cac_certificate_bound',
+      after: toUserCertificateResponse(inserted[0]),
+      notes: `CAC certificate ${values.subjectDN} bound to user ${userId}`,
+    });
+
+    // Binding does not require a trusted chain, but login does - report it so the admin can fix the trust store
+    const validation = await validateCertificate(certificate);
+
+    return NextResponse.json({
+      certificate: toUserCertificateResponse(inserted[0]),
+      validation: { isValid: validation.isValid, error: validation.error },
+    }, { status: 201 });
+
+  } catch (error) {
+    appLogger.error(`Error binding user certificate: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to bind certificate' }, { status: 500 });
+  }
+}
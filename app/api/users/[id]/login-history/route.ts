@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { listLoginHistory } from '@/lib/login-security-server';
+import { appLogger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+// GET /api/users/[id]/login-history - A user's sign-ins and failed attempts (admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const currentUser = await getCurrentUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(currentUser)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const userId = parseInt(id);
+    if (isNaN(userId)) {
+      return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 });
+    }
+
+    const attempts = await listLoginHistory(userId);
+
+    appLogger.dataAccess(`user_${userId}`, 'LOGIN_HISTORY_VIEWED', { userId: currentUser.id.toString() });
+
+    return NextResponse.json({ attempts });
+
+  } catch (error) {
+    appLogger.error(`Error fetching login history: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to fetch login history' }, { status: 500 });
+  }
+}
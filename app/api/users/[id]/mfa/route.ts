@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { db } from '@/lib/db/server';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { disableMfa } from '@/lib/mfa-server';
+
+export const runtime = 'nodejs';
+
+// DELETE /api/users/[id]/mfa - Reset a user's MFA after a lost device (admin only). Users
+// whose role requires MFA enroll again at their next sign-in.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const currentUser = await getCurrentUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(currentUser)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const userId = parseInt(id);
+    if (isNaN(userId)) {
+      return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 });
+    }
+
+    const target = await db.select({ email: users.email }).from(users).where(eq(users.id, userId)).limit(1);
+    if (target.length === 0) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!(await disableMfa(userId))) {
+      return NextResponse.json({ error: 'User has not set up MFA' }, { status: 400 });
+    }
+
+    appLogger.privilegedAction('USER_MFA_RESET', {
+      userId: currentUser.id.toString(),
+      resource: `user_${userId}`
+    });
+
+    recordAudit(request, currentUser, {
+      action: 'user_mfa_reset',
+      notes: `Reset MFA for ${target[0].email}`,
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    appLogger.error(`Error resetting user MFA: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to reset user MFA' }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@ import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
 import { db } from '@/lib/db/server';
 import { userRoles, users, UserRole } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { recordAudit } from '@/lib/audit-log';
 import { z } from 'zod';
 
 const addRoleSchema = z.object({
@@ -115,6 +116,12 @@ export async function POST(
       createdAt: new Date(),
     }).returning();
 
+    recordAudit(request, currentUser, {
+      action: 'role_assigned',
+      after: newRole[0],
+      notes: `Role ${validatedData.role} assigned to ${user[0].email}`,
+    });
+
     return NextResponse.json(newRole[0], { status: 201 });
   } catch (error) {
     console.error('Add user role error:', error);
@@ -181,9 +188,9 @@ export async function DELETE(
       );
     }
 
-    // Remove role (mark as inactive)
+    // Remove role (mark as inactive); revokedAt keeps a removed delegation from being restarted
     const result = await db.update(userRoles)
-      .set({ isActive: false })
+      .set({ isActive: false, revokedAt: new Date() })
       .where(
         and(
           eq(userRoles.userId, userId),
@@ -200,6 +207,13 @@ export async function DELETE(
       );
     }
 
+    recordAudit(request, currentUser, {
+      action: 'role_removed',
+      before: { ...result[0], isActive: true },
+      after: result[0],
+      notes: `Role ${validatedData.role} removed from ${user[0].email}`,
+    });
+
     return NextResponse.json({ message: 'Role removed successfully' });
   } catch (error) {
     console.error('Remove user role error:', error);
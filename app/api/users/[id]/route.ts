@@ -4,6 +4,10 @@ import { db } from '@/lib/db/server';
 import { users } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { hashPassword } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit-log';
+import { endUserSessions } from '@/lib/sessions-server';
+import { passwordSchema } from '@/lib/login-security';
+import { getLoginSecurityConfig, isPasswordReused, recordPasswordHistory } from '@/lib/login-security-server';
 import { z } from 'zod';
 
 export const runtime = 'nodejs';
@@ -15,7 +19,7 @@ const updateUserSchema = z.object({
   role: z.enum(['admin', 'requestor', 'dao', 'approver', 'cpso', 'dta', 'sme', 'media_custodian']).optional(),
   organization: z.string().optional(),
   phone: z.string().optional(),
-  password: z.string().min(8).optional().or(z.literal('')),
+  password: passwordSchema.optional().or(z.literal('')),
   isActive: z.boolean().optional(),
 });
 
@@ -72,40 +76,65 @@ export async function PUT(
     if (phone !== undefined) updateData.phone = phone;
     if (isActive !== undefined) updateData.isActive = isActive;
     
-    // Hash password if provided
+    // Hash password if provided; an assigned password must be changed at the next sign-in
     if (password && password.trim() !== '') {
+      if (await isPasswordReused(userId, password)) {
+        return NextResponse.json(
+          { error: `Password cannot be any of the user's last ${getLoginSecurityConfig().passwordHistorySize} passwords` },
+          { status: 400 }
+        );
+      }
       console.log('Hashing new password for user:', userId);
       updateData.password = await hashPassword(password);
+      updateData.passwordChangedAt = new Date();
+      updateData.mustChangePassword = true;
     }
 
     console.log('Update data:', JSON.stringify(updateData, null, 2));
 
-    // Update user
-    const updatedUser = await db.update(users)
-      .set(updateData)
-      .where(eq(users.id, userId))
-      .returning({
-        id: users.id,
-        email: users.email,
-        firstName: users.firstName,
-        lastName: users.lastName,
-        role: users.primaryRole,
-        organization: users.organization,
-        phone: users.phone,
-        isActive: users.isActive,
-        createdAt: users.createdAt,
-        updatedAt: users.updatedAt,
-      });
-
-    if (updatedUser.length === 0) {
+    const existingUser = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    if (existingUser.length === 0) {
       return NextResponse.json(
         { error: 'User not found' },
         { status: 404 }
       );
     }
 
+    // Update user
+    const updatedUser = await db.update(users)
+      .set(updateData)
+      .where(eq(users.id, userId))
+      .returning();
+
+    if (typeof updateData.password === 'string') {
+      await recordPasswordHistory(userId, updateData.password);
+    }
+
+    // A deactivated user is signed out everywhere
+    if (existingUser[0].isActive && !updatedUser[0].isActive) {
+      await endUserSessions(userId, 'user_deactivated', currentUser.id);
+    }
+
+    recordAudit(request, currentUser, {
+      action: 'user_updated',
+      before: existingUser[0],
+      after: updatedUser[0],
+      notes: `User ${updatedUser[0].email} updated`,
+    });
+
     console.log('User updated successfully:', updatedUser[0].email);
-    return NextResponse.json(updatedUser[0]);
+    return NextResponse.json({
+      id: updatedUser[0].id,
+      email: updatedUser[0].email,
+      firstName: updatedUser[0].firstName,
+      lastName: updatedUser[0].lastName,
+      role: updatedUser[0].primaryRole,
+      organization: updatedUser[0].organization,
+      phone: updatedUser[0].phone,
+      isActive: updatedUser[0].isActive,
+      createdAt: updatedUser[0].createdAt,
+      updatedAt: updatedUser[0].updatedAt,
+    });
   } catch (error) {
     console.error('Update user error:', error);
     return NextResponse.json(
@@ -154,7 +183,7 @@ export async function DELETE(
         updatedAt: new Date()
       })
       .where(eq(users.id, userId))
-      .returning({ id: users.id });
+      .returning({ id: users.id, email: users.email });
 
     if (deletedUser.length === 0) {
       return NextResponse.json(
@@ -163,6 +192,15 @@ export async function DELETE(
       );
     }
 
+    await endUserSessions(userId, 'user_deactivated', currentUser.id);
+
+    recordAudit(request, currentUser, {
+      action: 'user_deactivated',
+      before: { isActive: true },
+      after: { isActive: false },
+      notes: `User ${deletedUser[0].email} deactivated`,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Delete user error:', error);
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { db } from '@/lib/db/server';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { endUserSessions, getSessionConfig, listActiveSessions } from '@/lib/sessions-server';
+
+export const runtime = 'nodejs';
+
+// GET /api/users/[id]/sessions - A user's active sessions (admin only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const currentUser = await getCurrentUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(currentUser)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const userId = parseInt(id);
+    if (isNaN(userId)) {
+      return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 });
+    }
+
+    const sessions = await listActiveSessions(userId);
+
+    return NextResponse.json({ sessions, config: getSessionConfig() });
+
+  } catch (error) {
+    appLogger.error(`Error fetching user sessions: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to fetch user sessions' }, { status: 500 });
+  }
+}
+
+// DELETE /api/users/[id]/sessions - Terminate all of a user's sessions (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const currentUser = await getCurrentUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(currentUser)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const userId = parseInt(id);
+    if (isNaN(userId)) {
+      return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 });
+    }
+
+    const target = await db.select({ email: users.email }).from(users).where(eq(users.id, userId)).limit(1);
+    if (target.length === 0) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const terminated = await endUserSessions(userId, 'terminated', currentUser.id);
+
+    appLogger.privilegedAction('USER_SESSIONS_TERMINATED', {
+      userId: currentUser.id.toString(),
+      resource: `user_${userId}`
+    });
+
+    recordAudit(request, currentUser, {
+      action: 'user_sessions_terminated',
+      notes: `Terminated ${terminated} session(s) for ${target[0].email}`,
+    });
+
+    return NextResponse.json({ terminated });
+
+  } catch (error) {
+    appLogger.error(`Error terminating user sessions: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to terminate user sessions' }, { status: 500 });
+  }
+}
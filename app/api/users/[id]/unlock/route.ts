@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUserFromRequest, isAdmin } from '@/lib/auth-server';
+import { db } from '@/lib/db/server';
+import { users } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { appLogger } from '@/lib/logger';
+import { recordAudit } from '@/lib/audit-log';
+import { unlockAccount } from '@/lib/login-security-server';
+
+export const runtime = 'nodejs';
+
+// POST /api/users/[id]/unlock - Lift a lockout from failed sign-ins (admin only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const currentUser = await getCurrentUserFromRequest(request);
+    if (!currentUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isAdmin(currentUser)) {
+      return NextResponse.json({ error: 'Forbidden - Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const userId = parseInt(id);
+    if (isNaN(userId)) {
+      return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 });
+    }
+
+    const target = await db
+      .select({ email: users.email, lockedAt: users.lockedAt, lockedUntil: users.lockedUntil })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+    if (target.length === 0) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!(await unlockAccount(userId))) {
+      return NextResponse.json({ error: 'User is not locked' }, { status: 400 });
+    }
+
+    appLogger.privilegedAction('USER_UNLOCKED', {
+      userId: currentUser.id.toString(),
+      resource: `user_${userId}`
+    });
+
+    recordAudit(request, currentUser, {
+      action: 'user_unlocked',
+      before: { lockedAt: target[0].lockedAt, lockedUntil: target[0].lockedUntil },
+      after: { lockedAt: null, lockedUntil: null },
+      notes: `Unlocked ${target[0].email}`,
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    appLogger.error(`Error unlocking user: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: 'Failed to unlock user' }, { status: 500 });
+  }
+}
@@ -3,6 +3,9 @@ import { getCurrentUser, isAdmin } from '@/lib/auth-server';
 import { z } from 'zod';
 import bcrypt from 'bcryptjs';
 import { db } from '@/lib/db/raw';
+import { recordAudit } from '@/lib/audit-log';
+import { passwordSchema } from '@/lib/login-security';
+import { recordPasswordHistory } from '@/lib/login-security-server';
 
 // GET /api/users - Get all users (admin and media custodian)
 export async function GET(request: NextRequest) {
@@ -26,11 +29,12 @@ export async function GET(request: NextRequest) {
 
     // Build query; by default or for non-admins, only return active users
     const stmt = db.prepare(`
-      SELECT id, email, first_name, last_name, primary_role, organization, phone, is_active, created_at, updated_at
+      SELECT id, email, first_name, last_name, primary_role, organization, phone, is_active, locked_at, locked_until, mfa_enabled_at, created_at, updated_at
       FROM users 
       ORDER BY created_at DESC
     `);
-    const usersWithRoles = (stmt.all() as { id: number; email: string; first_name: string; last_name: string; primary_role: string; organization: string; phone: string; is_active: number; created_at: number; updated_at: number }[]).map((user) => ({
+    const now = Date.now();
+    const usersWithRoles = (stmt.all() as { id: number; email: string; first_name: string; last_name: string; primary_role: string; organization: string; phone: string; is_active: number; locked_at: number | null; locked_until: number | null; mfa_enabled_at: number | null; created_at: number; updated_at: number }[]).map((user) => ({
       id: user.id,
       email: user.email,
       firstName: user.first_name,
@@ -39,6 +43,10 @@ export async function GET(request: NextRequest) {
       organization: user.organization,
       phone: user.phone,
       isActive: user.is_active,
+      // Lock times are stored in seconds; a lock past its time is lifted at the next sign-in
+      isLocked: user.locked_at !== null && (user.locked_until === null || user.locked_until * 1000 > now),
+      lockedUntil: user.locked_until !== null ? new Date(user.locked_until * 1000).toISOString() : null,
+      mfaEnabled: user.mfa_enabled_at !== null,
       createdAt: user.created_at,
       updatedAt: user.updated_at,
     }));
@@ -82,7 +90,7 @@ export async function POST(request: NextRequest) {
     // Validate input
     const createUserSchema = z.object({
       email: z.string().email(),
-      password: z.string().min(8),
+      password: passwordSchema,
       firstName: z.string(),
       lastName: z.string(),
       primaryRole: z.string(),
@@ -106,10 +114,10 @@ export async function POST(request: NextRequest) {
     // Hash password
     const hashedPassword = await bcrypt.hash(validatedData.password, 12);
     
-    // Create new user
+    // Create new user; the assigned password must be changed at the first sign-in
     const insertUserStmt = db.prepare(`
-      INSERT INTO users (email, password, first_name, last_name, primary_role, organization, phone, is_active, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO users (email, password, first_name, last_name, primary_role, organization, phone, is_active, must_change_password, password_changed_at, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
     const now = Date.now();
@@ -122,12 +130,15 @@ export async function POST(request: NextRequest) {
       validatedData.organization,
       validatedData.phone,
       1, // is_active
+      1, // must_change_password
+      Math.floor(now / 1000), // password_changed_at, in seconds as Drizzle reads it
       now,
       now
     );
     
     const getUserStmt = db.prepare('SELECT * FROM users WHERE id = ?');
     const newUser = getUserStmt.get(result.lastInsertRowid) as { id: number; email: string; first_name: string; last_name: string; primary_role: string; organization: string; phone: string; is_active: number; created_at: number; updated_at: number };
+    await recordPasswordHistory(newUser.id, hashedPassword);
 
     // Add primary role to user_roles table
     const insertRoleStmt = db.prepare(`
@@ -156,6 +167,22 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    recordAudit(request, currentUser, {
+      action: 'user_created',
+      after: {
+        id: newUser.id,
+        email: newUser.email,
+        firstName: newUser.first_name,
+        lastName: newUser.last_name,
+        primaryRole: newUser.primary_role,
+        roles: [validatedData.primaryRole, ...(validatedData.additionalRoles ?? [])],
+        organization: newUser.organization,
+        phone: newUser.phone,
+        isActive: Boolean(newUser.is_active),
+      },
+      notes: `User ${newUser.email} created`,
+    });
+
     return NextResponse.json({
       id: newUser.id,
       email: newUser.email,
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { NotificationsMenu } from '@/components/notifications-menu';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -139,6 +140,7 @@ export function ApproverNav({ user }: ApproverNavProps) {
 
           <div className="hidden sm:flex sm:items-center sm:space-x-4">
             <ThemeToggle />
+            <NotificationsMenu />
             <Badge className="bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200">
               {getRoleBadgeText(user?.role || 'approver')}
             </Badge>
@@ -20,6 +20,7 @@ interface AFTRequest {
   id: number;
   requestNumber: string;
   status: string;
+  awaitingRoles?: string[];
   transferType: string;
   classification: string;
   requestorName: string;
@@ -91,17 +92,10 @@ export default function ApproverDashboard() {
           const userRole = userData.role;
           
           // Filter based on role and what they can approve
-          if (userRole === 'dao') {
+          if (['dao', 'approver', 'cpso'].includes(userRole)) {
+            // The request's approval policy decides which roles it is waiting on
             relevantRequests = allRequests.filter((r: AFTRequest) => 
-              ['submitted', 'pending_dao'].includes(r.status)
-            );
-          } else if (userRole === 'approver') {
-            relevantRequests = allRequests.filter((r: AFTRequest) => 
-              r.status === 'pending_approver'
-            );
-          } else if (userRole === 'cpso') {
-            relevantRequests = allRequests.filter((r: AFTRequest) => 
-              r.status === 'pending_cpso'
+              r.awaitingRoles?.includes(userRole)
             );
           } else if (userRole === 'admin') {
             relevantRequests = allRequests.filter((r: AFTRequest) => 
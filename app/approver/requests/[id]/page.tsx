@@ -96,6 +96,8 @@ export default function ApproverRequestDetailPage() {
   const [showRejectDialog, setShowRejectDialog] = useState(false);
   const [signature, setSignature] = useState('');
   const [rejectReason, setRejectReason] = useState('');
+  const [availableActions, setAvailableActions] = useState<string[]>([]);
+  const [activeStepNames, setActiveStepNames] = useState<string[]>([]);
   const [acknowledgeTerms, setAcknowledgeTerms] = useState(false);
 
   const fetchRequest = useCallback(async () => {
@@ -104,9 +106,10 @@ export default function ApproverRequestDetailPage() {
       console.log('Fetching request ID:', params.id); // Debug log
       
       // Fetch both request data and user data
-      const [requestResponse, userResponse] = await Promise.all([
+      const [requestResponse, userResponse, transitionsResponse] = await Promise.all([
         fetch(`/api/aft-requests/${params.id}`),
-        fetch('/api/auth/me')
+        fetch('/api/auth/me'),
+        fetch(`/api/aft-requests/${params.id}/transitions`)
       ]);
 
       console.log('Request response status:', requestResponse.status); // Debug log
@@ -117,6 +120,12 @@ export default function ApproverRequestDetailPage() {
         setUser(userData.user);
       }
 
+      if (transitionsResponse.ok) {
+        const transitionsData = await transitionsResponse.json();
+        setAvailableActions(transitionsData.transitions.map((transition: { action: string }) => transition.action));
+        setActiveStepNames(transitionsData.approval.activeSteps.map((step: { name: string }) => step.name));
+      }
+
       if (!requestResponse.ok) {
         console.error('Request fetch failed:', requestResponse.status); // Debug log
         const errorData = await requestResponse.text();
@@ -202,23 +211,6 @@ export default function ApproverRequestDetailPage() {
     }
   };
 
-  const canApproveRequest = (status: string | undefined, userRole: string) => {
-    if (!userRole || !status) return false;
-    
-    switch (userRole.toLowerCase()) {
-      case 'dao':
-        return ['submitted', 'pending_dao'].includes(status);
-      case 'approver':
-        return status === 'pending_approver';
-      case 'cpso':
-        return status === 'pending_cpso';
-      case 'admin':
-        return ['submitted', 'pending_dao', 'pending_approver', 'pending_cpso'].includes(status);
-      default:
-        return false;
-    }
-  };
-
   const handleApprove = async () => {
     if (!signature.trim() || !acknowledgeTerms) {
       toast.error('Please fill in all required fields and acknowledge the terms');
@@ -342,7 +334,8 @@ export default function ApproverRequestDetailPage() {
     );
   }
 
-  const canTakeAction = canApproveRequest(request.status, user?.primaryRole || '');
+  // The request's approval policy decides whether this user can act at the current stage
+  const canTakeAction = availableActions.includes('approve');
   const urgency = getUrgencyLevel(request.classification, request.createdAt);
 
   return (
@@ -701,7 +694,7 @@ export default function ApproverRequestDetailPage() {
                   <span>Decision Required</span>
                 </CardTitle>
                 <p className="text-sm text-muted-foreground">
-                  {getRoleTitle(user?.primaryRole || '')} approval needed
+                  {activeStepNames.length > 0 ? activeStepNames.join(', ') : getRoleTitle(user?.primaryRole || '')} approval needed
                 </p>
               </CardHeader>
               <CardContent className="space-y-3">
@@ -936,6 +929,7 @@ export default function ApproverRequestDetailPage() {
       {/* Workflow Progress Section */}
       <WorkflowProgress
         currentStatus={request.status}
+        transferType={request.transferType}
         approvalData={request.approvalData}
         transferData={request.transferData}
         requestorName={request.requestorName}
@@ -33,6 +33,7 @@ interface AFTRequest {
   id: number;
   requestNumber: string;
   status: string;
+  awaitingRoles?: string[];
   transferType: string;
   classification: string;
   requestorName: string;
@@ -97,17 +98,10 @@ export default function ApproverRequestsPage() {
         if (userData) {
           const userRole = userData.primaryRole;
           
-          if (userRole === 'dao') {
+          if (['dao', 'approver', 'cpso'].includes(userRole)) {
+            // The request's approval policy decides which roles it is waiting on
             relevantRequests = allRequests.filter((r: AFTRequest) => 
-              ['submitted', 'pending_dao'].includes(r.status)
-            );
-          } else if (userRole === 'approver') {
-            relevantRequests = allRequests.filter((r: AFTRequest) => 
-              r.status === 'pending_approver'
-            );
-          } else if (userRole === 'cpso') {
-            relevantRequests = allRequests.filter((r: AFTRequest) => 
-              r.status === 'pending_cpso'
+              r.awaitingRoles?.includes(userRole)
             );
           } else if (userRole === 'admin') {
             relevantRequests = allRequests.filter((r: AFTRequest) => 
@@ -0,0 +1,39 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Lock } from 'lucide-react';
+import { ChangePasswordForm } from '@/components/change-password-form';
+
+// Sessions opened with an expired or admin-assigned password are held here until it is changed
+export default function ChangePasswordPage() {
+  const router = useRouter();
+
+  const handleSignOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    router.push('/login');
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Lock className="w-5 h-5 mr-2" />
+            Password Change Required
+          </CardTitle>
+          <CardDescription>
+            Your password has expired or was set by an administrator. Choose a new password to continue.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ChangePasswordForm onChanged={() => router.push('/role-selection')} />
+          <Button variant="ghost" className="w-full" onClick={handleSignOut}>
+            Sign Out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { NotificationsMenu } from '@/components/notifications-menu';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -26,7 +27,8 @@ import {
   Archive,
   HardDrive,
   Truck,
-  BookOpen
+  BookOpen,
+  ClipboardCheck
 } from 'lucide-react';
 import { useTheme } from 'next-themes';
 
@@ -74,6 +76,7 @@ export function CustodianNav({ user }: CustodianNavProps) {
     { href: '/custodian', label: 'Dashboard', icon: Archive },
     { href: '/custodian/drives', label: 'Drive Inventory', icon: HardDrive },
     { href: '/custodian/drive-tracking', label: 'Drive Tracking', icon: Truck },
+    { href: '/custodian/inventory', label: 'Physical Inventory', icon: ClipboardCheck },
     { href: '/custodian/disposition', label: 'Media Disposition', icon: FileText },
     { href: '/custodian/history', label: 'Disposition History', icon: History },
   ];
@@ -140,6 +143,7 @@ export function CustodianNav({ user }: CustodianNavProps) {
 
           <div className="hidden sm:flex sm:items-center sm:space-x-4">
             <ThemeToggle />
+            <NotificationsMenu />
             <Badge className="bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200">
               {getRoleBadgeText(user?.role || 'media_custodian')}
             </Badge>
@@ -0,0 +1,68 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { getCustodyEventLabel, TERMINAL_CUSTODY_EVENTS, type CustodyEventType } from '@/lib/drive-custody';
+
+export interface CustodyLedgerEvent {
+  id: number;
+  eventType: string;
+  requestId: number | null;
+  trackingId: number | null;
+  location: string | null;
+  signature: string | null;
+  notes: string | null;
+  occurredAt: string;
+  fromUserId: number | null;
+  fromFirstName: string | null;
+  fromLastName: string | null;
+  toUserId: number | null;
+  toFirstName: string | null;
+  toLastName: string | null;
+  signedBy: number;
+  signerFirstName: string;
+  signerLastName: string;
+  signerEmail: string;
+}
+
+function personName(firstName: string | null, lastName: string | null) {
+  return firstName || lastName ? `${firstName ?? ''} ${lastName ?? ''}`.trim() : '-';
+}
+
+export function CustodyTimeline({ events }: { events: CustodyLedgerEvent[] }) {
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">No custody events recorded for this drive.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-6">
+      {events.map((event) => {
+        const terminal = TERMINAL_CUSTODY_EVENTS.includes(event.eventType as CustodyEventType);
+        return (
+          <li key={event.id} className="ml-6 break-inside-avoid">
+            <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background ${terminal ? 'bg-red-500' : 'bg-primary'}`} />
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant={terminal ? 'destructive' : 'secondary'}>{getCustodyEventLabel(event.eventType)}</Badge>
+              <span className="text-sm text-muted-foreground">{new Date(event.occurredAt).toLocaleString()}</span>
+            </div>
+            <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+              <div><strong>From:</strong> {personName(event.fromFirstName, event.fromLastName)}</div>
+              <div><strong>To:</strong> {terminal ? 'Out of circulation' : personName(event.toFirstName, event.toLastName)}</div>
+              <div><strong>Location:</strong> {event.location || '-'}</div>
+              <div><strong>Signed by:</strong> {event.signerFirstName} {event.signerLastName} ({event.signerEmail})</div>
+              {event.signature && (
+                <div><strong>Signature:</strong> <span className="font-mono">{event.signature}</span></div>
+              )}
+              {(event.requestId || event.trackingId) && (
+                <div>
+                  {event.requestId && <span><strong>Request:</strong> #{event.requestId} </span>}
+                  {event.trackingId && <span><strong>Issue record:</strong> #{event.trackingId}</span>}
+                </div>
+              )}
+            </div>
+            {event.notes && <p className="mt-1 text-sm text-muted-foreground">{event.notes}</p>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
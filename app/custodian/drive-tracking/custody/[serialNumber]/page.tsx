@@ -0,0 +1,103 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Printer } from 'lucide-react';
+import { DriveInventory } from '@/lib/db/schema';
+import { getClassificationLabel } from '@/lib/classifications';
+import { CustodyTimeline, type CustodyLedgerEvent } from '../../custody-timeline';
+
+export default function CustodyReportPage() {
+  const params = useParams();
+  const serialNumber = decodeURIComponent(params.serialNumber as string);
+  const [drive, setDrive] = useState<DriveInventory | null>(null);
+  const [events, setEvents] = useState<CustodyLedgerEvent[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchLedger = async () => {
+      try {
+        const response = await fetch(`/api/custodian/custody?serialNumber=${encodeURIComponent(serialNumber)}`);
+        const data = await response.json();
+        if (response.ok) {
+          setDrive(data.drive);
+          setEvents(data.events);
+        } else {
+          setError(data.error || 'Failed to load custody ledger');
+        }
+      } catch (error) {
+        console.error('Error fetching custody ledger:', error);
+        setError('Failed to load custody ledger');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchLedger();
+  }, [serialNumber]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 max-w-4xl mx-auto">
+      <div className="flex justify-between items-center print:hidden">
+        <Button variant="outline" asChild>
+          <Link href="/custodian/drive-tracking">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Drive Tracking
+          </Link>
+        </Button>
+        {drive && (
+          <Button onClick={() => window.print()}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print Report
+          </Button>
+        )}
+      </div>
+
+      {error || !drive ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            {error || 'Drive not found'}
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="print:border-0 print:shadow-none">
+          <CardHeader>
+            <CardTitle className="text-2xl">Chain of Custody Report</CardTitle>
+            <CardDescription>Generated {new Date().toLocaleString()}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div><strong>Serial Number:</strong> <span className="font-mono">{drive.serialNumber}</span></div>
+              <div><strong>Classification:</strong> {getClassificationLabel(drive.classification)}</div>
+              <div><strong>Model:</strong> {drive.model}</div>
+              <div><strong>Capacity:</strong> {drive.capacity}</div>
+              <div><strong>Media Controller:</strong> {drive.mediaController}</div>
+              <div><strong>Media Type:</strong> {drive.mediaType}</div>
+              <div><strong>Current Status:</strong> {drive.status}</div>
+              <div><strong>Custody Events:</strong> {events.length}</div>
+            </div>
+
+            <CustodyTimeline events={events} />
+
+            <div className="hidden print:grid grid-cols-2 gap-8 pt-12 text-sm">
+              <div className="border-t pt-2">Media Custodian Signature / Date</div>
+              <div className="border-t pt-2">ISSM Signature / Date</div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -17,9 +18,14 @@ import {
   Clock,
   CheckCircle,
   AlertTriangle,
-  HardDrive
+  HardDrive,
+  History,
+  Printer,
+  Search
 } from 'lucide-react';
 import { DriveInventory, DriveTracking, User as UserType } from '@/lib/db/schema';
+import { getClassificationLabel } from '@/lib/classifications';
+import { CustodyTimeline, type CustodyLedgerEvent } from './custody-timeline';
 
 interface DriveTrackingWithDetails extends DriveTracking {
   drive: DriveInventory;
@@ -28,13 +34,22 @@ interface DriveTrackingWithDetails extends DriveTracking {
   isOverdue?: boolean;
 }
 
+interface CatalogSystem {
+  id: number;
+  name: string;
+  classification: string;
+  allowOutbound: boolean;
+  allowInbound: boolean;
+}
+
 interface IssueFormData {
   driveId: number;
   userId: number;
-  sourceIS: string;
-  destinationIS: string;
+  sourceSystemId: number;
+  destinationSystemId: number;
   expectedReturnAt?: string;
   issueNotes: string;
+  location: string;
 }
 
 export default function DriveTrackingPage() {
@@ -42,19 +57,27 @@ export default function DriveTrackingPage() {
   const [completedIssues, setCompletedIssues] = useState<DriveTrackingWithDetails[]>([]);
   const [availableDrives, setAvailableDrives] = useState<DriveInventory[]>([]);
   const [users, setUsers] = useState<UserType[]>([]);
+  const [systems, setSystems] = useState<CatalogSystem[]>([]);
   const [loading, setLoading] = useState(true);
   const [showIssueForm, setShowIssueForm] = useState(false);
   const [returnDialogOpen, setReturnDialogOpen] = useState(false);
   const [returningIssue, setReturningIssue] = useState<DriveTrackingWithDetails | null>(null);
   const [returnNotes, setReturnNotes] = useState('');
+  const [returnLocation, setReturnLocation] = useState('');
+  const [activeTab, setActiveTab] = useState('active');
+  const [custodySerial, setCustodySerial] = useState('');
+  const [custodyDrive, setCustodyDrive] = useState<DriveInventory | null>(null);
+  const [custodyEvents, setCustodyEvents] = useState<CustodyLedgerEvent[]>([]);
+  const [custodyError, setCustodyError] = useState<string | null>(null);
   
   const [issueForm, setIssueForm] = useState<IssueFormData>({
     driveId: 0,
     userId: 0,
-    sourceIS: '',
-    destinationIS: '',
+    sourceSystemId: 0,
+    destinationSystemId: 0,
     expectedReturnAt: '',
-    issueNotes: ''
+    issueNotes: '',
+    location: ''
   });
 
   useEffect(() => {
@@ -63,10 +86,11 @@ export default function DriveTrackingPage() {
 
   const fetchData = async () => {
     try {
-      const [trackingResponse, drivesResponse, usersResponse] = await Promise.all([
+      const [trackingResponse, drivesResponse, usersResponse, systemsResponse] = await Promise.all([
         fetch('/api/custodian/drive-tracking'),
         fetch('/api/custodian/drives/available'),
-        fetch('/api/users')
+        fetch('/api/users'),
+        fetch('/api/information-systems')
       ]);
 
       if (trackingResponse.ok) {
@@ -84,6 +108,11 @@ export default function DriveTrackingPage() {
         const usersData = await usersResponse.json();
         setUsers(usersData);
       }
+
+      if (systemsResponse.ok) {
+        const systemsData = await systemsResponse.json();
+        setSystems(systemsData.systems || []);
+      }
     } catch (error) {
       console.error('Error fetching data:', error);
     } finally {
@@ -109,10 +138,11 @@ export default function DriveTrackingPage() {
         setIssueForm({
           driveId: 0,
           userId: 0,
-          sourceIS: '',
-          destinationIS: '',
+          sourceSystemId: 0,
+          destinationSystemId: 0,
           expectedReturnAt: '',
-          issueNotes: ''
+          issueNotes: '',
+          location: ''
         });
         fetchData();
       }
@@ -131,7 +161,8 @@ export default function DriveTrackingPage() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          returnNotes
+          returnNotes,
+          location: returnLocation
         }),
       });
 
@@ -139,6 +170,7 @@ export default function DriveTrackingPage() {
         setReturnDialogOpen(false);
         setReturningIssue(null);
         setReturnNotes('');
+        setReturnLocation('');
         fetchData();
       }
     } catch (error) {
@@ -146,6 +178,31 @@ export default function DriveTrackingPage() {
     }
   };
 
+  const loadCustodyLedger = async (serialNumber: string) => {
+    const serial = serialNumber.trim();
+    if (!serial) return;
+
+    setCustodySerial(serial);
+    setActiveTab('custody');
+    setCustodyError(null);
+
+    try {
+      const response = await fetch(`/api/custodian/custody?serialNumber=${encodeURIComponent(serial)}`);
+      const data = await response.json();
+      if (response.ok) {
+        setCustodyDrive(data.drive);
+        setCustodyEvents(data.events);
+      } else {
+        setCustodyDrive(null);
+        setCustodyEvents([]);
+        setCustodyError(data.error || 'Failed to load custody ledger');
+      }
+    } catch (error) {
+      console.error('Error fetching custody ledger:', error);
+      setCustodyError('Failed to load custody ledger');
+    }
+  };
+
   const formatDate = (date: Date | string | null) => {
     if (!date) return '-';
     return new Date(date).toLocaleString();
@@ -242,22 +299,34 @@ export default function DriveTrackingPage() {
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="sourceIS">Source IS</Label>
-                  <Input
-                    id="sourceIS"
-                    value={issueForm.sourceIS}
-                    onChange={(e) => setIssueForm(prev => ({ ...prev, sourceIS: e.target.value }))}
-                    placeholder="Source Information System"
-                  />
+                  <Label htmlFor="sourceSystemId">Source IS</Label>
+                  <Select value={issueForm.sourceSystemId ? issueForm.sourceSystemId.toString() : ''} onValueChange={(value) => setIssueForm(prev => ({ ...prev, sourceSystemId: parseInt(value) }))}>
+                    <SelectTrigger id="sourceSystemId">
+                      <SelectValue placeholder="Select source information system" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {systems.filter(system => system.allowOutbound).map((system) => (
+                        <SelectItem key={system.id} value={system.id.toString()}>
+                          {system.name} ({getClassificationLabel(system.classification)})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="destinationIS">Destination IS</Label>
-                  <Input
-                    id="destinationIS"
-                    value={issueForm.destinationIS}
-                    onChange={(e) => setIssueForm(prev => ({ ...prev, destinationIS: e.target.value }))}
-                    placeholder="Destination Information System"
-                  />
+                  <Label htmlFor="destinationSystemId">Destination IS</Label>
+                  <Select value={issueForm.destinationSystemId ? issueForm.destinationSystemId.toString() : ''} onValueChange={(value) => setIssueForm(prev => ({ ...prev, destinationSystemId: parseInt(value) }))}>
+                    <SelectTrigger id="destinationSystemId">
+                      <SelectValue placeholder="Select destination information system" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {systems.filter(system => system.allowInbound && system.id !== issueForm.sourceSystemId).map((system) => (
+                        <SelectItem key={system.id} value={system.id.toString()}>
+                          {system.name} ({getClassificationLabel(system.classification)})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
               </div>
 
@@ -270,6 +339,13 @@ export default function DriveTrackingPage() {
                     value={issueForm.expectedReturnAt}
                     onChange={(e) => setIssueForm(prev => ({ ...prev, expectedReturnAt: e.target.value }))}
                   />
+                  <Label htmlFor="issueLocation">Hand-off Location (Optional)</Label>
+                  <Input
+                    id="issueLocation"
+                    value={issueForm.location}
+                    onChange={(e) => setIssueForm(prev => ({ ...prev, location: e.target.value }))}
+                    placeholder="e.g., Media vault, Bldg 2 Rm 104"
+                  />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="issueNotes">Issue Notes</Label>
@@ -284,7 +360,7 @@ export default function DriveTrackingPage() {
               </div>
 
               <div className="flex gap-3">
-                <Button onClick={handleIssueDrive} disabled={!issueForm.driveId || !issueForm.userId}>
+                <Button onClick={handleIssueDrive} disabled={!issueForm.driveId || !issueForm.userId || !issueForm.sourceSystemId || !issueForm.destinationSystemId}>
                   Issue Drive
                 </Button>
                 <Button variant="outline" onClick={() => setShowIssueForm(false)}>
@@ -339,10 +415,11 @@ export default function DriveTrackingPage() {
         </Card>
       </div>
 
-      <Tabs defaultValue="active" className="space-y-4">
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
         <TabsList>
           <TabsTrigger value="active">Active Issues ({stats.totalActive})</TabsTrigger>
           <TabsTrigger value="completed">Completed ({stats.totalCompleted})</TabsTrigger>
+          <TabsTrigger value="custody">Custody Timeline</TabsTrigger>
         </TabsList>
 
         <TabsContent value="active" className="space-y-4">
@@ -402,17 +479,27 @@ export default function DriveTrackingPage() {
                         </Badge>
                       </TableCell>
                       <TableCell>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => {
-                            setReturningIssue(issue);
-                            setReturnDialogOpen(true);
-                          }}
-                        >
-                          <Download className="w-4 h-4 mr-2" />
-                          Return
-                        </Button>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              setReturningIssue(issue);
+                              setReturnDialogOpen(true);
+                            }}
+                          >
+                            <Download className="w-4 h-4 mr-2" />
+                            Return
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => loadCustodyLedger(issue.drive.serialNumber)}
+                          >
+                            <History className="w-4 h-4 mr-2" />
+                            Custody
+                          </Button>
+                        </div>
                       </TableCell>
                     </TableRow>
                   ))}
@@ -438,6 +525,7 @@ export default function DriveTrackingPage() {
                     <TableHead>Issued Date</TableHead>
                     <TableHead>Return Date</TableHead>
                     <TableHead>Duration</TableHead>
+                    <TableHead>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -465,6 +553,16 @@ export default function DriveTrackingPage() {
                         <TableCell>{formatDate(issue.issuedAt)}</TableCell>
                         <TableCell>{formatDate(issue.returnedAt)}</TableCell>
                         <TableCell>{duration} day{duration !== 1 ? 's' : ''}</TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => loadCustodyLedger(issue.drive.serialNumber)}
+                          >
+                            <History className="w-4 h-4 mr-2" />
+                            Custody
+                          </Button>
+                        </TableCell>
                       </TableRow>
                     );
                   })}
@@ -473,6 +571,59 @@ export default function DriveTrackingPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="custody" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Custody Timeline</CardTitle>
+              <CardDescription>Every hand-off of a drive from intake to retirement</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <form
+                className="flex gap-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  loadCustodyLedger(custodySerial);
+                }}
+              >
+                <Input
+                  value={custodySerial}
+                  onChange={(e) => setCustodySerial(e.target.value)}
+                  placeholder="Drive serial number"
+                  className="max-w-sm font-mono"
+                />
+                <Button type="submit" variant="outline" disabled={!custodySerial.trim()}>
+                  <Search className="w-4 h-4 mr-2" />
+                  Look Up
+                </Button>
+                {custodyDrive && (
+                  <Button variant="outline" asChild>
+                    <Link href={`/custodian/drive-tracking/custody/${encodeURIComponent(custodyDrive.serialNumber)}`}>
+                      <Printer className="w-4 h-4 mr-2" />
+                      Custody Report
+                    </Link>
+                  </Button>
+                )}
+              </form>
+
+              {custodyError && (
+                <p className="text-sm text-destructive">{custodyError}</p>
+              )}
+
+              {custodyDrive && (
+                <div className="space-y-4">
+                  <div className="flex flex-wrap items-center gap-3 text-sm">
+                    <span className="font-mono font-medium">{custodyDrive.serialNumber}</span>
+                    <span className="text-muted-foreground">{custodyDrive.model} ({custodyDrive.capacity})</span>
+                    <Badge variant="outline">{getClassificationLabel(custodyDrive.classification)}</Badge>
+                    <Badge variant="secondary">{custodyDrive.status}</Badge>
+                  </div>
+                  <CustodyTimeline events={custodyEvents} />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
 
       {/* Return Dialog */}
@@ -516,6 +667,15 @@ export default function DriveTrackingPage() {
                   rows={3}
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="returnLocation">Return Location (Optional)</Label>
+                <Input
+                  id="returnLocation"
+                  value={returnLocation}
+                  onChange={(e) => setReturnLocation(e.target.value)}
+                  placeholder="e.g., Media vault, Bldg 2 Rm 104"
+                />
+              </div>
             </div>
           )}
           <DialogFooter>
@@ -0,0 +1,165 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { DRIVE_IMPORT_COLUMNS, type DriveImportFormat, type DriveImportReport } from '@/lib/drive-inventory-io';
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+export function ImportDialog({ open, onOpenChange, onImported }: ImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<DriveImportReport | null>(null);
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setFile(null);
+    setReport(null);
+    setError('');
+  }, [open]);
+
+  const selectFile = (selected: File | null) => {
+    setFile(selected);
+    setReport(null);
+    setError('');
+  };
+
+  const submit = async (dryRun: boolean) => {
+    if (!file) return;
+    const format: DriveImportFormat = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+
+    try {
+      setSubmitting(true);
+      setError('');
+      const response = await fetch('/api/custodian/drives/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format, content: await file.text(), dryRun }),
+      });
+      const data = await response.json();
+      if (data.report) {
+        setReport(data.report);
+      }
+      if (!response.ok) {
+        setError(data.details?.join(', ') || data.error || 'Failed to import drives');
+        return;
+      }
+      if (!dryRun) {
+        toast.success(`${data.imported} drive(s) imported`);
+        onOpenChange(false);
+        onImported();
+      }
+    } catch (error) {
+      console.error('Error importing drives:', error);
+      setError('Failed to import drives');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Drives</DialogTitle>
+          <DialogDescription>
+            Preview a CSV or JSON file before importing. Nothing is imported unless every row is valid.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="drive-import-file">Inventory File</Label>
+            <Input
+              id="drive-import-file"
+              type="file"
+              accept=".csv,.json"
+              onChange={(e) => selectFile(e.target.files?.[0] ?? null)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Columns: <span className="font-mono">{DRIVE_IMPORT_COLUMNS.join(', ')}</span>. Status defaults to available.
+            </p>
+          </div>
+
+          {error && (
+            <div className="p-3 border border-red-200 bg-red-50 dark:bg-red-950 dark:border-red-900 rounded-md text-sm text-red-800 dark:text-red-200">
+              {error}
+            </div>
+          )}
+
+          {report && (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <Badge variant="outline">{report.total} row(s)</Badge>
+                <Badge variant="secondary">{report.valid} valid</Badge>
+                {report.invalid > 0 && <Badge variant="destructive">{report.invalid} invalid</Badge>}
+              </div>
+              <div className="border rounded-md max-h-[360px] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Serial Number</TableHead>
+                      <TableHead>Media</TableHead>
+                      <TableHead>Classification</TableHead>
+                      <TableHead>Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.rows.map(row => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell>{row.rowNumber}</TableCell>
+                        <TableCell className="font-mono">{row.serialNumber || '—'}</TableCell>
+                        <TableCell>{row.data?.mediaType || '—'}</TableCell>
+                        <TableCell>{row.data?.classification || '—'}</TableCell>
+                        <TableCell>
+                          {row.errors.length === 0 ? (
+                            <span className="text-green-700 dark:text-green-400">Valid</span>
+                          ) : (
+                            <ul className="text-red-700 dark:text-red-400 text-xs space-y-1">
+                              {row.errors.map((rowError, index) => (
+                                <li key={index}>{rowError}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={() => submit(true)} disabled={submitting || !file}>
+            {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Preview
+          </Button>
+          <Button
+            onClick={() => submit(false)}
+            disabled={submitting || !report || report.total === 0 || report.invalid > 0}
+          >
+            Import {report?.valid ?? 0} Drive(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,6 +10,13 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import {
   HardDrive,
   Plus,
@@ -20,9 +27,16 @@ import {
   AlertCircle,
   CheckCircle,
   Clock,
-  Settings
+  Settings,
+  ShieldCheck,
+  Flame,
+  Upload,
+  Download
 } from 'lucide-react';
 import { DriveInventory, NewDriveInventory } from '@/lib/db/schema';
+import { SanitizationDialog } from './sanitization-dialog';
+import { ImportDialog } from './import-dialog';
+import { DRIVE_CLASSIFICATIONS } from '@/lib/drive-inventory-io';
 
 interface DriveInventoryWithStatus extends DriveInventory {
   issuedTo?: string;
@@ -39,6 +53,10 @@ export default function DrivesPage() {
   const [addDialogOpen, setAddDialogOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [editingDrive, setEditingDrive] = useState<DriveInventory | null>(null);
+  const [selectedDriveIds, setSelectedDriveIds] = useState<number[]>([]);
+  const [sanitizingDrives, setSanitizingDrives] = useState<DriveInventory[]>([]);
+  const [sanitizationDialogOpen, setSanitizationDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [newDrive, setNewDrive] = useState<Partial<NewDriveInventory>>({
     serialNumber: '',
     model: '',
@@ -157,6 +175,44 @@ export default function DrivesPage() {
     }
   };
 
+  // Only drives back in the custodian's hands can be sanitized or destroyed
+  const canSanitize = (drive: DriveInventory) =>
+    drive.status !== 'issued' && drive.status !== 'retired' && !drive.lockedRequestId;
+
+  const toggleDriveSelection = (driveId: number, selected: boolean) => {
+    setSelectedDriveIds(prev => selected ? [...prev, driveId] : prev.filter(id => id !== driveId));
+  };
+
+  const openSanitizationDialog = (selection: DriveInventory[]) => {
+    setSanitizingDrives(selection);
+    setSanitizationDialogOpen(true);
+  };
+
+  const handleSanitizationRecorded = () => {
+    setSelectedDriveIds([]);
+    fetchDrives();
+  };
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    try {
+      const response = await fetch(`/api/custodian/drives/export?format=${format}`);
+
+      if (response.ok) {
+        const blob = await response.blob();
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `drive-inventory-${new Date().toISOString().split('T')[0]}.${format}`;
+        document.body.appendChild(a);
+        a.click();
+        window.URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+      }
+    } catch (error) {
+      console.error('Error exporting drive inventory:', error);
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'available':
@@ -291,10 +347,9 @@ export default function DrivesPage() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="UNCLASSIFIED">UNCLASSIFIED</SelectItem>
-                      <SelectItem value="CONFIDENTIAL">CONFIDENTIAL</SelectItem>
-                      <SelectItem value="SECRET">SECRET</SelectItem>
-                      <SelectItem value="TOP SECRET">TOP SECRET</SelectItem>
+                      {DRIVE_CLASSIFICATIONS.map((classification) => (
+                        <SelectItem key={classification} value={classification}>{classification}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -426,13 +481,41 @@ export default function DrivesPage() {
 
       {/* Drives Table */}
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
           <CardTitle>Drive Inventory ({filteredDrives.length})</CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setImportDialogOpen(true)}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Download className="w-4 h-4 mr-2" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport('csv')}>CSV</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('json')}>JSON</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              variant="destructive"
+              size="sm"
+              disabled={selectedDriveIds.length === 0}
+              onClick={() => openSanitizationDialog(drives.filter(drive => selectedDriveIds.includes(drive.id)))}
+            >
+              <Flame className="w-4 h-4 mr-2" />
+              Destroy Selected ({selectedDriveIds.length})
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           <Table>
             <TableHeader>
               <TableRow>
+                <TableHead className="w-10"></TableHead>
                 <TableHead>Serial Number</TableHead>
                 <TableHead>Model</TableHead>
                 <TableHead>Capacity</TableHead>
@@ -447,6 +530,14 @@ export default function DrivesPage() {
             <TableBody>
               {filteredDrives.map((drive) => (
                 <TableRow key={drive.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedDriveIds.includes(drive.id)}
+                      disabled={!canSanitize(drive)}
+                      onCheckedChange={(checked) => toggleDriveSelection(drive.id, checked === true)}
+                      aria-label={`Select drive ${drive.serialNumber}`}
+                    />
+                  </TableCell>
                   <TableCell className="font-mono">{drive.serialNumber}</TableCell>
                   <TableCell>{drive.model}</TableCell>
                   <TableCell>{drive.capacity}</TableCell>
@@ -480,6 +571,15 @@ export default function DrivesPage() {
                       >
                         <Edit className="w-4 h-4" />
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={!canSanitize(drive)}
+                        onClick={() => openSanitizationDialog([drive])}
+                        title="Record sanitization"
+                      >
+                        <ShieldCheck className="w-4 h-4" />
+                      </Button>
                       <Button
                         variant="outline"
                         size="sm"
@@ -496,6 +596,19 @@ export default function DrivesPage() {
         </CardContent>
       </Card>
 
+      <SanitizationDialog
+        drives={sanitizingDrives}
+        open={sanitizationDialogOpen}
+        onOpenChange={setSanitizationDialogOpen}
+        onRecorded={handleSanitizationRecorded}
+      />
+
+      <ImportDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+        onImported={fetchDrives}
+      />
+
       {/* Edit Dialog */}
       <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
         <DialogContent className="sm:max-w-[600px]">
@@ -569,10 +682,9 @@ export default function DrivesPage() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="UNCLASSIFIED">UNCLASSIFIED</SelectItem>
-                      <SelectItem value="CONFIDENTIAL">CONFIDENTIAL</SelectItem>
-                      <SelectItem value="SECRET">SECRET</SelectItem>
-                      <SelectItem value="TOP SECRET">TOP SECRET</SelectItem>
+                      {DRIVE_CLASSIFICATIONS.map((classification) => (
+                        <SelectItem key={classification} value={classification}>{classification}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -0,0 +1,314 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { DriveInventory } from '@/lib/db/schema';
+import {
+  SANITIZATION_METHODS,
+  SANITIZATION_METHOD_LABELS,
+  getSanitizationMethodLabel,
+  getSanitizedDriveStatus,
+  isOpticalMedia,
+  type SanitizationMethod,
+  type VerificationResult,
+} from '@/lib/drive-sanitization';
+
+interface WitnessOption {
+  id: number;
+  firstName: string;
+  lastName: string;
+  email: string;
+  isActive: boolean;
+}
+
+interface SanitizationHistoryRecord {
+  id: number;
+  batchId: string | null;
+  method: string;
+  tool: string;
+  toolVersion: string;
+  verificationResult: string;
+  certificateOriginalName: string | null;
+  performedAt: string;
+  performerFirstName: string;
+  performerLastName: string;
+  witnessFirstName: string;
+  witnessLastName: string;
+}
+
+interface SanitizationDialogProps {
+  // One drive records a single sanitization; several are destroyed as a batch
+  drives: DriveInventory[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRecorded: () => void;
+}
+
+export function SanitizationDialog({ drives, open, onOpenChange, onRecorded }: SanitizationDialogProps) {
+  const isBatch = drives.length > 1;
+  const opticalOnly = drives.some(drive => isOpticalMedia(drive.mediaType));
+  const [witnesses, setWitnesses] = useState<WitnessOption[]>([]);
+  const [history, setHistory] = useState<SanitizationHistoryRecord[]>([]);
+  const [method, setMethod] = useState<SanitizationMethod>('purge');
+  const [tool, setTool] = useState('');
+  const [toolVersion, setToolVersion] = useState('');
+  const [verificationResult, setVerificationResult] = useState<VerificationResult>('pass');
+  const [witnessId, setWitnessId] = useState('');
+  const [signature, setSignature] = useState('');
+  const [notes, setNotes] = useState('');
+  const [certificate, setCertificate] = useState<File | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const singleDriveId = drives.length === 1 ? drives[0].id : null;
+
+  useEffect(() => {
+    if (!open) return;
+
+    setMethod(isBatch || opticalOnly ? 'destroy' : 'purge');
+    setTool('');
+    setToolVersion('');
+    setVerificationResult('pass');
+    setWitnessId('');
+    setSignature('');
+    setNotes('');
+    setCertificate(null);
+    setHistory([]);
+
+    const fetchOptions = async () => {
+      try {
+        const [usersResponse, historyResponse] = await Promise.all([
+          fetch('/api/users'),
+          singleDriveId ? fetch(`/api/custodian/drives/${singleDriveId}/sanitization`) : Promise.resolve(null),
+        ]);
+        if (usersResponse.ok) {
+          const usersData: WitnessOption[] = await usersResponse.json();
+          setWitnesses(usersData.filter(user => user.isActive));
+        }
+        if (historyResponse?.ok) {
+          const historyData = await historyResponse.json();
+          setHistory(historyData.records || []);
+        }
+      } catch (error) {
+        console.error('Error loading sanitization options:', error);
+      }
+    };
+
+    fetchOptions();
+  }, [open, isBatch, opticalOnly, singleDriveId]);
+
+  const handleSubmit = async () => {
+    const formData = new FormData();
+    formData.append('tool', tool);
+    formData.append('toolVersion', toolVersion);
+    formData.append('verificationResult', verificationResult);
+    formData.append('witnessId', witnessId);
+    formData.append('signature', signature);
+    if (notes) formData.append('notes', notes);
+    if (certificate) formData.append('file', certificate);
+
+    let url: string;
+    if (isBatch) {
+      formData.append('driveIds', drives.map(drive => drive.id).join(','));
+      url = '/api/custodian/drives/destruction-batch';
+    } else {
+      formData.append('method', method);
+      url = `/api/custodian/drives/${drives[0].id}/sanitization`;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await fetch(url, { method: 'POST', body: formData });
+      const data = await response.json();
+      if (response.ok) {
+        toast.success(isBatch ? `${drives.length} drives recorded as destroyed` : 'Sanitization recorded');
+        onOpenChange(false);
+        onRecorded();
+      } else {
+        toast.error(data.details?.join(', ') || data.error || 'Failed to record sanitization');
+      }
+    } catch (error) {
+      console.error('Error recording sanitization:', error);
+      toast.error('Failed to record sanitization');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const resultingStatus = getSanitizedDriveStatus(method, verificationResult);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isBatch ? `Destroy ${drives.length} Drives` : 'Record Sanitization'}</DialogTitle>
+          <DialogDescription>
+            {isBatch
+              ? 'One record per drive is written under a single signature and certificate.'
+              : 'Record how this drive was sanitized under NIST SP 800-88.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="flex flex-wrap gap-2">
+            {drives.map(drive => (
+              <Badge key={drive.id} variant="outline" className="font-mono">
+                {drive.serialNumber} ({drive.mediaType})
+              </Badge>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as SanitizationMethod)} disabled={isBatch}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SANITIZATION_METHODS.map(option => (
+                    <SelectItem key={option} value={option} disabled={opticalOnly && option !== 'destroy'}>
+                      {SANITIZATION_METHOD_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Verification</Label>
+              <Select value={verificationResult} onValueChange={(value) => setVerificationResult(value as VerificationResult)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pass">Pass</SelectItem>
+                  <SelectItem value="fail">Fail</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="sanitization-tool">Tool</Label>
+              <Input
+                id="sanitization-tool"
+                value={tool}
+                onChange={(e) => setTool(e.target.value)}
+                placeholder={method === 'destroy' ? 'e.g., shredder or disintegrator model' : 'e.g., vendor secure erase utility'}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sanitization-tool-version">Tool Version</Label>
+              <Input
+                id="sanitization-tool-version"
+                value={toolVersion}
+                onChange={(e) => setToolVersion(e.target.value)}
+                placeholder="e.g., 4.2.1"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Witness</Label>
+            <Select value={witnessId} onValueChange={setWitnessId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select the witness" />
+              </SelectTrigger>
+              <SelectContent>
+                {witnesses.map(witness => (
+                  <SelectItem key={witness.id} value={witness.id.toString()}>
+                    {witness.firstName} {witness.lastName} ({witness.email})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sanitization-certificate">Certificate of Destruction (Optional)</Label>
+            <Input
+              id="sanitization-certificate"
+              type="file"
+              onChange={(e) => setCertificate(e.target.files?.[0] ?? null)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sanitization-notes">Notes</Label>
+            <Textarea
+              id="sanitization-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sanitization-signature">Signature</Label>
+            <Input
+              id="sanitization-signature"
+              value={signature}
+              onChange={(e) => setSignature(e.target.value)}
+              placeholder="Type your full name to sign"
+            />
+            <p className="text-xs text-muted-foreground">
+              {isBatch ? 'These drives' : 'The drive'} will be marked <strong>{resultingStatus}</strong>.
+            </p>
+          </div>
+
+          {history.length > 0 && (
+            <div className="space-y-2">
+              <Label>Previous Sanitizations</Label>
+              <div className="space-y-2">
+                {history.map(record => (
+                  <div key={record.id} className="flex items-center justify-between p-2 border rounded-md text-sm">
+                    <div>
+                      <div className="font-medium">
+                        {getSanitizationMethodLabel(record.method)}
+                        <Badge variant={record.verificationResult === 'pass' ? 'secondary' : 'destructive'} className="ml-2">
+                          {record.verificationResult}
+                        </Badge>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(record.performedAt).toLocaleString()} &middot; {record.tool} {record.toolVersion} &middot; by {record.performerFirstName} {record.performerLastName}, witnessed by {record.witnessFirstName} {record.witnessLastName}
+                      </div>
+                    </div>
+                    {record.certificateOriginalName && (
+                      <Button variant="ghost" size="sm" asChild>
+                        <a href={`/api/custodian/sanitization-records/${record.id}/certificate`}>
+                          <Download className="w-4 h-4" />
+                        </a>
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting || !tool.trim() || !toolVersion.trim() || !witnessId || !signature.trim()}
+            variant={method === 'destroy' ? 'destructive' : 'default'}
+          >
+            {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {isBatch ? 'Sign and Destroy' : 'Sign and Record'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
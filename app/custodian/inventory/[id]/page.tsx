@@ -0,0 +1,555 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Printer, ScanLine, Trash2, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { InventoryCampaign } from '@/lib/db/schema';
+import {
+  DISCREPANCY_RESOLUTIONS,
+  DISCREPANCY_RESOLUTION_LABELS,
+  getDiscrepancyResolutionLabel,
+  getDiscrepancyTypeLabel,
+  type DiscrepancyResolution,
+  type Reconciliation,
+} from '@/lib/inventory-campaigns';
+import { CampaignStatusBadge } from '../campaign-status-badge';
+
+interface Sighting {
+  id: number;
+  serialNumber: string;
+  driveId: number | null;
+  location: string | null;
+  sightedAt: string;
+  sighterFirstName: string;
+  sighterLastName: string;
+}
+
+interface Discrepancy {
+  id: number;
+  type: string;
+  serialNumber: string;
+  driveId: number | null;
+  expected: string | null;
+  observed: string | null;
+  status: string;
+  resolution: string | null;
+  resolutionNotes: string | null;
+  resolvedAt: string | null;
+  resolverFirstName: string | null;
+  resolverLastName: string | null;
+}
+
+export default function InventoryCampaignPage() {
+  const params = useParams();
+  const campaignId = params.id as string;
+  const [campaign, setCampaign] = useState<InventoryCampaign | null>(null);
+  const [sightings, setSightings] = useState<Sighting[]>([]);
+  const [reconciliation, setReconciliation] = useState<Reconciliation | null>(null);
+  const [discrepancies, setDiscrepancies] = useState<Discrepancy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [serialNumber, setSerialNumber] = useState('');
+  const [location, setLocation] = useState('');
+  const [scanning, setScanning] = useState(false);
+  const [completeDialogOpen, setCompleteDialogOpen] = useState(false);
+  const [signature, setSignature] = useState('');
+  const [completing, setCompleting] = useState(false);
+  const [resolving, setResolving] = useState<Discrepancy | null>(null);
+  const [resolution, setResolution] = useState<DiscrepancyResolution>('located');
+  const [resolutionNotes, setResolutionNotes] = useState('');
+  const serialInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchCampaign = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/custodian/inventory-campaigns/${campaignId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setCampaign(data.campaign);
+        setSightings(data.sightings);
+        setReconciliation(data.reconciliation);
+        setDiscrepancies(data.discrepancies);
+      }
+    } catch (error) {
+      console.error('Error fetching inventory campaign:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [campaignId]);
+
+  useEffect(() => {
+    fetchCampaign();
+  }, [fetchCampaign]);
+
+  // Barcode scanners type the serial number and press Enter
+  const handleSighting = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!serialNumber.trim()) return;
+
+    try {
+      setScanning(true);
+      const response = await fetch(`/api/custodian/inventory-campaigns/${campaignId}/sightings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ serialNumber, location: location || undefined }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        if (!data.sighting.driveId) {
+          toast.warning(`${data.sighting.serialNumber} is not in the inventory`);
+        }
+        setSerialNumber('');
+        await fetchCampaign();
+      } else {
+        toast.error(data.details?.join(', ') || data.error || 'Failed to record sighting');
+      }
+    } catch (error) {
+      console.error('Error recording sighting:', error);
+      toast.error('Failed to record sighting');
+    } finally {
+      setScanning(false);
+      serialInputRef.current?.focus();
+    }
+  };
+
+  const handleRemoveSighting = async (sighting: Sighting) => {
+    try {
+      const response = await fetch(`/api/custodian/inventory-campaigns/${campaignId}/sightings/${sighting.id}`, {
+        method: 'DELETE',
+      });
+      if (response.ok) {
+        await fetchCampaign();
+      } else {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to remove sighting');
+      }
+    } catch (error) {
+      console.error('Error removing sighting:', error);
+      toast.error('Failed to remove sighting');
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!confirm('Cancel this campaign? Its sightings are kept but it will not be reconciled.')) return;
+
+    try {
+      const response = await fetch(`/api/custodian/inventory-campaigns/${campaignId}`, { method: 'DELETE' });
+      if (response.ok) {
+        toast.success('Campaign cancelled');
+        await fetchCampaign();
+      } else {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to cancel campaign');
+      }
+    } catch (error) {
+      console.error('Error cancelling campaign:', error);
+      toast.error('Failed to cancel campaign');
+    }
+  };
+
+  const handleComplete = async () => {
+    try {
+      setCompleting(true);
+      const response = await fetch(`/api/custodian/inventory-campaigns/${campaignId}/complete`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ signature }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        toast.success(`Campaign signed with ${data.discrepancies.length} discrepancy(ies)`);
+        setCompleteDialogOpen(false);
+        await fetchCampaign();
+      } else {
+        toast.error(data.details?.join(', ') || data.error || 'Failed to complete campaign');
+      }
+    } catch (error) {
+      console.error('Error completing campaign:', error);
+      toast.error('Failed to complete campaign');
+    } finally {
+      setCompleting(false);
+    }
+  };
+
+  const openResolveDialog = (discrepancy: Discrepancy) => {
+    setResolving(discrepancy);
+    setResolution('located');
+    setResolutionNotes('');
+  };
+
+  const handleResolve = async () => {
+    if (!resolving) return;
+
+    try {
+      const response = await fetch(`/api/custodian/inventory-campaigns/${campaignId}/discrepancies/${resolving.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resolution, notes: resolutionNotes }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        toast.success(`Discrepancy for ${resolving.serialNumber} resolved`);
+        setResolving(null);
+        await fetchCampaign();
+      } else {
+        toast.error(data.details?.join(', ') || data.error || 'Failed to resolve discrepancy');
+      }
+    } catch (error) {
+      console.error('Error resolving discrepancy:', error);
+      toast.error('Failed to resolve discrepancy');
+    }
+  };
+
+  const getDiscrepancyBadge = (type: string) => (
+    <Badge variant={type === 'missing' ? 'destructive' : 'outline'}>{getDiscrepancyTypeLabel(type)}</Badge>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!campaign) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">Campaign not found</CardContent>
+      </Card>
+    );
+  }
+
+  const inProgress = campaign.status === 'in_progress';
+  const openCount = discrepancies.filter(discrepancy => discrepancy.status === 'open').length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center print:hidden">
+        <Button variant="outline" asChild>
+          <Link href="/custodian/inventory">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Physical Inventory
+          </Link>
+        </Button>
+        <div className="flex gap-2">
+          {inProgress && (
+            <>
+              <Button variant="outline" onClick={handleCancel}>
+                <XCircle className="w-4 h-4 mr-2" />
+                Cancel Campaign
+              </Button>
+              <Button onClick={() => { setSignature(''); setCompleteDialogOpen(true); }}>
+                Complete and Sign
+              </Button>
+            </>
+          )}
+          {campaign.status === 'completed' && (
+            <Button onClick={() => window.print()}>
+              <Printer className="w-4 h-4 mr-2" />
+              Print Report
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card className="print:border-0 print:shadow-none">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <CardTitle className="text-2xl">{campaign.name}</CardTitle>
+            <CampaignStatusBadge status={campaign.status} />
+          </div>
+          <CardDescription>
+            Started {new Date(campaign.startedAt).toLocaleString()}
+            {campaign.completedAt && ` · ${campaign.status === 'completed' ? 'Signed' : 'Cancelled'} ${new Date(campaign.completedAt).toLocaleString()}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          {campaign.notes && <p className="text-muted-foreground">{campaign.notes}</p>}
+          {campaign.status === 'completed' && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div><strong>Expected on hand:</strong> {campaign.expectedCount}</div>
+              <div><strong>Sighted:</strong> {sightings.length}</div>
+              <div><strong>Discrepancies:</strong> {discrepancies.length} ({openCount} open)</div>
+              <div><strong>Signature:</strong> {campaign.signature}</div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {inProgress && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ScanLine className="w-5 h-5" />
+              Sight Drives
+            </CardTitle>
+            <CardDescription>Scan or type each serial number as the drive is sighted</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSighting} className="flex gap-4 items-end">
+              <div className="space-y-2 w-64">
+                <Label htmlFor="sighting-location">Location</Label>
+                <Input
+                  id="sighting-location"
+                  value={location}
+                  onChange={(e) => setLocation(e.target.value)}
+                  placeholder="e.g., Vault A, Shelf 2"
+                />
+              </div>
+              <div className="space-y-2 flex-1">
+                <Label htmlFor="sighting-serial">Serial Number</Label>
+                <Input
+                  id="sighting-serial"
+                  ref={serialInputRef}
+                  value={serialNumber}
+                  onChange={(e) => setSerialNumber(e.target.value)}
+                  className="font-mono"
+                  autoFocus
+                  autoComplete="off"
+                />
+              </div>
+              <Button type="submit" disabled={scanning || !serialNumber.trim()}>
+                Record Sighting
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {inProgress && reconciliation && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Reconciliation So Far</CardTitle>
+            <CardDescription>
+              {reconciliation.sightedCount} sighted of {reconciliation.expectedCount} expected on hand; {reconciliation.onIssueCount} out on issue
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {reconciliation.discrepancies.length === 0 ? (
+              <p className="text-center py-4 text-muted-foreground">No discrepancies</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Serial Number</TableHead>
+                    <TableHead>Expected</TableHead>
+                    <TableHead>Observed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reconciliation.discrepancies.map(discrepancy => (
+                    <TableRow key={`${discrepancy.type}-${discrepancy.serialNumber}`}>
+                      <TableCell>{getDiscrepancyBadge(discrepancy.type)}</TableCell>
+                      <TableCell className="font-mono">{discrepancy.serialNumber}</TableCell>
+                      <TableCell>{discrepancy.expected}</TableCell>
+                      <TableCell>{discrepancy.observed}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {campaign.status === 'completed' && (
+        <Card className="print:border-0 print:shadow-none">
+          <CardHeader>
+            <CardTitle>Discrepancies</CardTitle>
+            <CardDescription>Each exception found when the campaign was signed must be resolved</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {discrepancies.length === 0 ? (
+              <p className="text-center py-4 text-muted-foreground">Every drive was accounted for</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Serial Number</TableHead>
+                    <TableHead>Expected</TableHead>
+                    <TableHead>Observed</TableHead>
+                    <TableHead>Resolution</TableHead>
+                    <TableHead className="print:hidden"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {discrepancies.map(discrepancy => (
+                    <TableRow key={discrepancy.id}>
+                      <TableCell>{getDiscrepancyBadge(discrepancy.type)}</TableCell>
+                      <TableCell className="font-mono">{discrepancy.serialNumber}</TableCell>
+                      <TableCell>{discrepancy.expected}</TableCell>
+                      <TableCell>{discrepancy.observed}</TableCell>
+                      <TableCell>
+                        {discrepancy.status === 'resolved' && discrepancy.resolution ? (
+                          <div>
+                            <div className="font-medium">{getDiscrepancyResolutionLabel(discrepancy.resolution)}</div>
+                            <div className="text-xs text-muted-foreground">{discrepancy.resolutionNotes}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {discrepancy.resolverFirstName} {discrepancy.resolverLastName}
+                              {discrepancy.resolvedAt && `, ${new Date(discrepancy.resolvedAt).toLocaleDateString()}`}
+                            </div>
+                          </div>
+                        ) : (
+                          <Badge variant="secondary">Open</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right print:hidden">
+                        {discrepancy.status === 'open' && (
+                          <Button variant="outline" size="sm" onClick={() => openResolveDialog(discrepancy)}>
+                            Resolve
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="print:border-0 print:shadow-none">
+        <CardHeader>
+          <CardTitle>Sightings ({sightings.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {sightings.length === 0 ? (
+            <p className="text-center py-4 text-muted-foreground">No drives sighted yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Serial Number</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Sighted</TableHead>
+                  <TableHead>By</TableHead>
+                  {inProgress && <TableHead></TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sightings.map(sighting => (
+                  <TableRow key={sighting.id}>
+                    <TableCell className="font-mono">
+                      {sighting.serialNumber}
+                      {!sighting.driveId && <Badge variant="outline" className="ml-2">Not in inventory</Badge>}
+                    </TableCell>
+                    <TableCell>{sighting.location || '—'}</TableCell>
+                    <TableCell>{new Date(sighting.sightedAt).toLocaleString()}</TableCell>
+                    <TableCell>{sighting.sighterFirstName} {sighting.sighterLastName}</TableCell>
+                    {inProgress && (
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => handleRemoveSighting(sighting)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {campaign.status === 'completed' && (
+        <div className="hidden print:grid grid-cols-2 gap-8 pt-12 text-sm">
+          <div className="border-t pt-2">Media Custodian Signature / Date</div>
+          <div className="border-t pt-2">ISSM Signature / Date</div>
+        </div>
+      )}
+
+      <Dialog open={completeDialogOpen} onOpenChange={setCompleteDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Complete Inventory Campaign</DialogTitle>
+            <DialogDescription>
+              Signing closes the campaign. Each exception is recorded as a discrepancy to resolve.
+            </DialogDescription>
+          </DialogHeader>
+          {reconciliation && (
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div><strong>Expected on hand:</strong> {reconciliation.expectedCount}</div>
+              <div><strong>Sighted:</strong> {reconciliation.sightedCount}</div>
+              <div><strong>Out on issue:</strong> {reconciliation.onIssueCount}</div>
+              <div><strong>Discrepancies:</strong> {reconciliation.discrepancies.length}</div>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="campaign-signature">Signature</Label>
+            <Input
+              id="campaign-signature"
+              value={signature}
+              onChange={(e) => setSignature(e.target.value)}
+              placeholder="Type your full name to sign"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCompleteDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleComplete} disabled={completing || !signature.trim()}>
+              Sign and Complete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={resolving !== null} onOpenChange={(open) => !open && setResolving(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Resolve Discrepancy</DialogTitle>
+            <DialogDescription>
+              {resolving && `${getDiscrepancyTypeLabel(resolving.type)} drive ${resolving.serialNumber}: expected ${resolving.expected?.toLowerCase()}, ${resolving.observed?.toLowerCase()}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="space-y-2">
+              <Label>Resolution</Label>
+              <Select value={resolution} onValueChange={(value) => setResolution(value as DiscrepancyResolution)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DISCREPANCY_RESOLUTIONS.map(option => (
+                    <SelectItem key={option} value={option}>{DISCREPANCY_RESOLUTION_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="resolution-notes">Notes</Label>
+              <Textarea
+                id="resolution-notes"
+                value={resolutionNotes}
+                onChange={(e) => setResolutionNotes(e.target.value)}
+                rows={3}
+                placeholder="What was found and what was done"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolving(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleResolve} disabled={!resolutionNotes.trim()}>
+              Resolve
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
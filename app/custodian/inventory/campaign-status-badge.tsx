@@ -0,0 +1,14 @@
+import { Badge } from '@/components/ui/badge';
+
+export function CampaignStatusBadge({ status }: { status: string }) {
+  switch (status) {
+    case 'in_progress':
+      return <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">In Progress</Badge>;
+    case 'completed':
+      return <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">Completed</Badge>;
+    case 'cancelled':
+      return <Badge variant="secondary">Cancelled</Badge>;
+    default:
+      return <Badge variant="outline">{status}</Badge>;
+  }
+}
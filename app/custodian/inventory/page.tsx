@@ -0,0 +1,209 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ClipboardCheck, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { CampaignStatusBadge } from './campaign-status-badge';
+
+interface CampaignSummary {
+  id: number;
+  name: string;
+  status: string;
+  startedAt: string;
+  starterFirstName: string;
+  starterLastName: string;
+  completedAt: string | null;
+  completerFirstName: string | null;
+  completerLastName: string | null;
+  expectedCount: number | null;
+  sightedCount: number | null;
+  openDiscrepancies: number | null;
+}
+
+export default function InventoryCampaignsPage() {
+  const router = useRouter();
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [startDialogOpen, setStartDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [starting, setStarting] = useState(false);
+
+  useEffect(() => {
+    const fetchCampaigns = async () => {
+      try {
+        const response = await fetch('/api/custodian/inventory-campaigns');
+        if (response.ok) {
+          const data = await response.json();
+          setCampaigns(data.campaigns);
+        }
+      } catch (error) {
+        console.error('Error fetching inventory campaigns:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCampaigns();
+  }, []);
+
+  const handleStart = async () => {
+    try {
+      setStarting(true);
+      const response = await fetch('/api/custodian/inventory-campaigns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, notes: notes || undefined }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        router.push(`/custodian/inventory/${data.campaign.id}`);
+      } else {
+        toast.error(data.details?.join(', ') || data.error || 'Failed to start campaign');
+      }
+    } catch (error) {
+      console.error('Error starting inventory campaign:', error);
+      toast.error('Failed to start campaign');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const openStartDialog = () => {
+    setName(`Inventory ${new Date().toLocaleDateString()}`);
+    setNotes('');
+    setStartDialogOpen(true);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const inProgress = campaigns.find(campaign => campaign.status === 'in_progress');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Physical Inventory</h1>
+          <p className="text-muted-foreground">Sight every drive and reconcile it against its custody record</p>
+        </div>
+        {inProgress ? (
+          <Button asChild>
+            <Link href={`/custodian/inventory/${inProgress.id}`}>
+              <ClipboardCheck className="w-4 h-4 mr-2" />
+              Continue Campaign
+            </Link>
+          </Button>
+        ) : (
+          <Button onClick={openStartDialog}>
+            <Plus className="w-4 h-4 mr-2" />
+            Start Campaign
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Campaigns</CardTitle>
+          <CardDescription>Completed campaigns are signed and kept with their discrepancies</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {campaigns.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No inventory campaigns yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Campaign</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Completed</TableHead>
+                  <TableHead>Sighted / Expected</TableHead>
+                  <TableHead>Open Discrepancies</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {campaigns.map(campaign => (
+                  <TableRow key={campaign.id}>
+                    <TableCell className="font-medium">{campaign.name}</TableCell>
+                    <TableCell><CampaignStatusBadge status={campaign.status} /></TableCell>
+                    <TableCell>
+                      <div>{new Date(campaign.startedAt).toLocaleDateString()}</div>
+                      <div className="text-xs text-muted-foreground">{campaign.starterFirstName} {campaign.starterLastName}</div>
+                    </TableCell>
+                    <TableCell>
+                      {campaign.status === 'completed' && campaign.completedAt ? (
+                        <>
+                          <div>{new Date(campaign.completedAt).toLocaleDateString()}</div>
+                          <div className="text-xs text-muted-foreground">{campaign.completerFirstName} {campaign.completerLastName}</div>
+                        </>
+                      ) : '—'}
+                    </TableCell>
+                    <TableCell>
+                      {campaign.status === 'completed' ? `${campaign.sightedCount} / ${campaign.expectedCount}` : '—'}
+                    </TableCell>
+                    <TableCell>
+                      {campaign.openDiscrepancies ? (
+                        <Badge variant="destructive">{campaign.openDiscrepancies}</Badge>
+                      ) : campaign.status === 'completed' ? 'None' : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" asChild>
+                        <Link href={`/custodian/inventory/${campaign.id}`}>Open</Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={startDialogOpen} onOpenChange={setStartDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Start Inventory Campaign</DialogTitle>
+            <DialogDescription>
+              Drives are reconciled against their custody state when the campaign is signed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="campaign-name">Name</Label>
+              <Input id="campaign-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-notes">Notes</Label>
+              <Textarea id="campaign-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStartDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleStart} disabled={starting || !name.trim()}>
+              Start Campaign
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
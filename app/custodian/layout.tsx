@@ -23,7 +23,9 @@ export default async function CustodianLayout({
 
   return (
     <div className="min-h-screen bg-background">
-      <CustodianNav user={user} />
+      <div className="print:hidden">
+        <CustodianNav user={user} />
+      </div>
       <main className="max-w-full mx-auto px-6 py-8">
         {children}
       </main>
@@ -12,9 +12,11 @@ import {
   Clock,
   Trash2,
   FileText,
-  AlertCircle
+  AlertCircle,
+  HardDrive
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { OVERDUE_AGING_BUCKETS, type OverdueAgingBucket } from '@/lib/overdue-drives';
 
 interface AFTRequest {
   id: number;
@@ -33,16 +35,41 @@ interface AFTRequest {
   destSystem: string;
 }
 
+interface OverdueDrive {
+  id: number;
+  driveId: number;
+  serialNumber: string;
+  holderName: string;
+  sourceIS: string;
+  destinationIS: string;
+  expectedReturnAt: string;
+  escalatedAt: string | null;
+  daysOverdue: number;
+  agingBucket: OverdueAgingBucket;
+}
+
 export default function CustodianDashboard() {
   const [pendingDisposition, setPendingDisposition] = useState<AFTRequest[]>([]);
   const [recentCompleted, setRecentCompleted] = useState<AFTRequest[]>([]);
+  const [overdueDrives, setOverdueDrives] = useState<OverdueDrive[]>([]);
+  const [escalationGraceDays, setEscalationGraceDays] = useState(0);
+  const [checkingOverdue, setCheckingOverdue] = useState(false);
   const [loading, setLoading] = useState(true);
 
   const fetchDashboardData = async () => {
     try {
       setLoading(true);
       
-      const response = await fetch('/api/aft-requests');
+      const [response, overdueResponse] = await Promise.all([
+        fetch('/api/aft-requests'),
+        fetch('/api/custodian/drive-tracking/overdue')
+      ]);
+
+      if (overdueResponse.ok) {
+        const overdueData = await overdueResponse.json();
+        setOverdueDrives(overdueData.queue || []);
+        setEscalationGraceDays(overdueData.escalationGraceDays || 0);
+      }
       
       if (response.ok) {
         const data = await response.json();
@@ -75,6 +102,25 @@ export default function CustodianDashboard() {
     fetchDashboardData();
   }, []);
 
+  const runOverdueCheck = async () => {
+    try {
+      setCheckingOverdue(true);
+      const response = await fetch('/api/custodian/drive-tracking/overdue', { method: 'POST' });
+      if (response.ok) {
+        const result = await response.json();
+        toast.success(`Overdue check complete: ${result.flagged} newly overdue, ${result.escalated} escalated`);
+        fetchDashboardData();
+      } else {
+        toast.error('Failed to run overdue check');
+      }
+    } catch (error) {
+      toast.error('Error running overdue check');
+      console.error('Overdue check error:', error);
+    } finally {
+      setCheckingOverdue(false);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
       case 'pending_media_custodian': return 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200';
@@ -309,6 +355,73 @@ export default function CustodianDashboard() {
         </Card>
       </div>
 
+      {/* Overdue Drive Queue */}
+      <Card className={overdueDrives.length > 0 ? 'border-red-200 dark:border-red-800' : ''}>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center space-x-2">
+              <HardDrive className="w-5 h-5" />
+              <span>Overdue Drives</span>
+            </CardTitle>
+            <CardDescription>
+              Issued drives past their expected return. Admins are notified after {escalationGraceDays} day{escalationGraceDays !== 1 ? 's' : ''} overdue.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={runOverdueCheck} disabled={checkingOverdue}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${checkingOverdue ? 'animate-spin' : ''}`} />
+            Run Check
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {OVERDUE_AGING_BUCKETS.map((bucket) => {
+              const count = overdueDrives.filter(drive => drive.agingBucket === bucket.key).length;
+              return (
+                <div key={bucket.key} className={`p-3 border rounded-lg ${count > 0 ? 'bg-red-50/50 dark:bg-red-900/20' : ''}`}>
+                  <div className="text-2xl font-bold text-foreground">{count}</div>
+                  <div className="text-xs text-muted-foreground">{bucket.label}</div>
+                </div>
+              );
+            })}
+          </div>
+
+          {overdueDrives.length === 0 ? (
+            <div className="text-center py-6">
+              <CheckCircle className="w-10 h-10 text-muted-foreground/50 mx-auto mb-3" />
+              <p className="text-muted-foreground">No overdue drives</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {overdueDrives.map((drive) => (
+                <div key={drive.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div className="flex-1">
+                    <div className="font-mono text-sm font-semibold">{drive.serialNumber}</div>
+                    <p className="text-xs text-muted-foreground">
+                      {drive.holderName} &middot; {drive.sourceIS} to {drive.destinationIS} &middot; due {new Date(drive.expectedReturnAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {drive.escalatedAt && (
+                      <Badge variant="outline">Escalated</Badge>
+                    )}
+                    <Badge className="bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
+                      {drive.daysOverdue} day{drive.daysOverdue !== 1 ? 's' : ''} overdue
+                    </Badge>
+                  </div>
+                </div>
+              ))}
+              <div className="text-center pt-2">
+                <Link href="/custodian/drive-tracking">
+                  <Button variant="outline" size="sm">
+                    Go to Drive Tracking
+                  </Button>
+                </Link>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Priority Alerts */}
       {pendingDisposition.some(r => {
         const days = Math.floor((Date.now() - new Date(r.updatedAt).getTime()) / (1000 * 60 * 60 * 24));
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { NotificationsMenu } from '@/components/notifications-menu';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -138,6 +139,7 @@ export function DTANav({ user }: DTANavProps) {
 
           <div className="hidden sm:flex sm:items-center sm:space-x-4">
             <ThemeToggle />
+            <NotificationsMenu />
             <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
               {getRoleBadgeText(user?.role || 'dta')}
             </Badge>
@@ -787,6 +787,7 @@ export default function ApproverRequestDetailPage() {
       {/* Workflow Progress Section */}
       <WorkflowProgress
         currentStatus={request.status}
+        transferType={request.transferType}
         approvalData={request.approvalData}
         transferData={request.transferData}
         requestorName={request.requestorName}
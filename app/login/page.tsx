@@ -1,12 +1,22 @@
 'use client';
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Loader2, Shield } from 'lucide-react';
+import { Loader2, Shield, CreditCard, History, ShieldCheck } from 'lucide-react';
+import { CONSENT_BANNER_CONDITIONS, CONSENT_BANNER_INTRO, CONSENT_BANNER_TITLE } from '@/lib/consent-banner';
+import type { LastLoginNotice } from '@/lib/login-security';
+
+interface LoginResult {
+  hasMultipleRoles?: boolean;
+  passwordChangeRequired?: boolean;
+  mfaEnrollmentRequired?: boolean;
+  redirectTo?: string;
+  lastLogin?: LastLoginNotice;
+}
 
 export default function LoginPage() {
   const [email, setEmail] = useState('');
@@ -15,8 +25,37 @@ export default function LoginPage() {
   const [loading, setLoading] = useState(false);
   const [warningAcknowledged, setWarningAcknowledged] = useState(false);
   const [acknowledged, setAcknowledged] = useState(false);
+  const [cacLoginEnabled, setCacLoginEnabled] = useState(false);
+  const [cacLoading, setCacLoading] = useState(false);
+  // Held after sign-in until the user has seen their last sign-in details
+  const [loginResult, setLoginResult] = useState<LoginResult | null>(null);
+  // Set when the password was accepted and an authenticator code is still needed
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
   const router = useRouter();
 
+  useEffect(() => {
+    fetch('/api/auth/cac-login')
+      .then(response => (response.ok ? response.json() : { enabled: false }))
+      .then(data => setCacLoginEnabled(!!data.enabled))
+      .catch(() => setCacLoginEnabled(false));
+  }, []);
+
+  const redirectAfterLogin = (data: LoginResult) => {
+    // Wait a moment for cookie to be set, then redirect based on role selection needs
+    setTimeout(() => {
+      if (data.passwordChangeRequired) {
+        router.push('/change-password');
+      } else if (data.mfaEnrollmentRequired) {
+        router.push('/mfa-setup');
+      } else if (data.hasMultipleRoles) {
+        router.push('/role-selection');
+      } else {
+        router.push(data.redirectTo || '/dashboard');
+      }
+    }, 100);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -27,19 +66,18 @@ export default function LoginPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ email, password }),
+        body: JSON.stringify({ email, password, consentAcknowledged: warningAcknowledged }),
       });
       if (response.ok) {
         const data = await response.json();
+        if (data.mfaRequired) {
+          setMfaToken(data.mfaToken);
+          setMfaCode('');
+          setPassword('');
+          return;
+        }
         console.log('Login successful:', data);
-        // Wait a moment for cookie to be set, then redirect based on role selection needs
-        setTimeout(() => {
-          if (data.hasMultipleRoles) {
-            router.push('/role-selection');
-          } else {
-            router.push(data.redirectTo || '/dashboard');
-          }
-        }, 100);
+        setLoginResult(data);
       } else {
         const data = await response.json();
         setError(data.error || 'Login failed');
@@ -51,6 +89,61 @@ export default function LoginPage() {
     }
   };
 
+  const handleMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+    try {
+      const response = await fetch('/api/auth/mfa/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ mfaToken, code: mfaCode }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setMfaToken(null);
+        setLoginResult(data);
+      } else if (data.mfaChallengeExpired) {
+        setMfaToken(null);
+        setError(data.error);
+      } else {
+        setError(data.error || 'Verification failed');
+        setMfaCode('');
+      }
+    } catch {
+      setError('An error occurred. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The reverse proxy requests the client certificate, so the browser prompts for the CAC PIN here
+  const handleCacLogin = async () => {
+    setError('');
+    setCacLoading(true);
+    try {
+      const response = await fetch('/api/auth/cac-login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ consentAcknowledged: warningAcknowledged }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setLoginResult(data);
+      } else {
+        setError(data.details ? `${data.error}: ${data.details}` : data.error || 'CAC login failed');
+      }
+    } catch {
+      setError('An error occurred. Please try again.');
+    } finally {
+      setCacLoading(false);
+    }
+  };
+
   const handleAcceptWarning = () => {
     if (acknowledged) {
       setWarningAcknowledged(true);
@@ -74,51 +167,17 @@ export default function LoginPage() {
               <Shield className="h-8 w-8 text-destructive mr-2" />
             </div>
             <CardTitle className="text-2xl text-destructive font-bold">
-              U.S. DEPARTMENT OF DEFENSE WARNING STATEMENT
+              {CONSENT_BANNER_TITLE}
             </CardTitle>
           </CardHeader>
           <CardContent className="p-6 space-y-4">
-            <Alert variant="destructive">
-              <AlertDescription className="text-center font-semibold text-lg">
-                YOU ARE ACCESSING A U.S. GOVERNMENT (USG) INFORMATION SYSTEM (IS)
-              </AlertDescription>
-            </Alert>
-            
             <div className="space-y-4 text-sm">
-              <p className="text-foreground">
-                This is a DOD computer system. DOD computer systems are provided for the processing of official U.S. Government information only. All data contained on DOD computer systems is owned by the DOD and may be monitored, intercepted, recorded, read, copied, or captured in any manner and disclosed in any manner, by authorized personnel.
-              </p>
-              
-              <Alert className="border-destructive/30 bg-destructive/5">
-                <AlertDescription>
-                  <strong>WARNING:</strong> There is no right to privacy in this system. System personnel may give to law enforcement officials any potential evidence of crime found on DOD computer systems.
-                </AlertDescription>
-              </Alert>
-              
-              <div className="bg-muted p-4 rounded-lg border">
-                <p className="font-semibold mb-2 text-foreground">By using this system you acknowledge and consent to:</p>
-                <ul className="list-disc list-inside space-y-1 text-xs text-muted-foreground">
-                  <li>MONITORING, INTERCEPTION, RECORDING, READING, COPYING, OR CAPTURING by authorized personnel</li>
-                  <li>THERE IS NO RIGHT TO PRIVACY IN THIS SYSTEM</li>
-                  <li>UNAUTHORIZED USE MAY SUBJECT YOU TO CRIMINAL, CIVIL, AND/OR ADMINISTRATIVE PENALTIES</li>
-                  <li>BY USING THIS SYSTEM, YOU ACKNOWLEDGE AND CONSENT TO THE FOREGOING</li>
-                </ul>
-              </div>
-              
-              <div className="bg-accent/10 p-4 rounded-lg border border-accent/20">
-                <p className="font-semibold mb-2 text-foreground">Users must comply with all applicable DOD policies, including:</p>
-                <ul className="list-disc list-inside space-y-1 text-xs text-muted-foreground">
-                  <li>DOD 8500.01 - Information Assurance (IA)</li>
-                  <li>DOD 8570.01 - IA Training, Certification, and Workforce Management</li>
-                  <li>Applicable Rules of Behavior</li>
-                </ul>
-              </div>
-              
-              <Alert variant="destructive">
-                <AlertDescription className="text-center font-semibold">
-                  If you are not authorized to access this system, disconnect now.
-                </AlertDescription>
-              </Alert>
+              <p className="text-foreground">{CONSENT_BANNER_INTRO}</p>
+              <ul className="list-disc pl-5 space-y-2 text-foreground">
+                {CONSENT_BANNER_CONDITIONS.map(condition => (
+                  <li key={condition}>{condition}</li>
+                ))}
+              </ul>
             </div>
             
             <div className="space-y-4 pt-4 border-t border-border">
@@ -131,7 +190,7 @@ export default function LoginPage() {
                   className="mt-1 rounded border-input"
                 />
                 <Label htmlFor="acknowledge" className="text-sm font-medium text-foreground leading-relaxed">
-                  I acknowledge that I have read and understand this warning statement and agree to comply with all stated conditions.
+                  I have read this notice and consent to the conditions above.
                 </Label>
               </div>
               
@@ -157,6 +216,109 @@ export default function LoginPage() {
     );
   }
 
+  if (mfaToken) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Card className="w-full max-w-md">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl text-center flex items-center justify-center">
+              <ShieldCheck className="h-6 w-6 mr-2" />
+              Two-Factor Authentication
+            </CardTitle>
+            <CardDescription className="text-center">
+              Enter the code from your authenticator app
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleMfaSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="mfaCode">Authentication Code</Label>
+                <Input
+                  id="mfaCode"
+                  placeholder="6-digit code"
+                  value={mfaCode}
+                  onChange={(e) => setMfaCode(e.target.value)}
+                  autoComplete="one-time-code"
+                  autoFocus
+                  required
+                  disabled={loading}
+                  className="font-mono"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Lost your device? Enter one of your recovery codes instead.
+                </p>
+              </div>
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Verify
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={() => { setMfaToken(null); setError(''); }}
+                disabled={loading}
+              >
+                Back
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (loginResult) {
+    const lastLogin = loginResult.lastLogin;
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Card className="w-full max-w-md">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl text-center flex items-center justify-center">
+              <History className="h-6 w-6 mr-2" />
+              Sign-in Notice
+            </CardTitle>
+            <CardDescription className="text-center">
+              Report any sign-in you don&apos;t recognize to your ISSO
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {lastLogin?.lastLoginAt ? (
+              <div className="text-sm space-y-1">
+                <p>
+                  <span className="font-medium">Last successful sign-in:</span>{' '}
+                  {new Date(lastLogin.lastLoginAt).toLocaleString()}
+                </p>
+                <p>
+                  <span className="font-medium">From:</span> {lastLogin.lastLoginIpAddress || 'Unknown address'}
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm">This is the first recorded sign-in to your account.</p>
+            )}
+            {lastLogin && lastLogin.failedAttemptsSince > 0 ? (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  {lastLogin.failedAttemptsSince} failed sign-in attempt(s) since {lastLogin.lastLoginAt ? 'your last sign-in' : 'the account was created'}.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <p className="text-sm text-muted-foreground">No failed sign-in attempts since then.</p>
+            )}
+            <Button className="w-full" onClick={() => redirectAfterLogin(loginResult)}>
+              Continue
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50">
       <Card className="w-full max-w-md">
@@ -197,11 +359,28 @@ export default function LoginPage() {
                 <AlertDescription>{error}</AlertDescription>
               </Alert>
             )}
-            <Button type="submit" className="w-full" disabled={loading}>
+            <Button type="submit" className="w-full" disabled={loading || cacLoading}>
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               Sign In
             </Button>
           </form>
+          {cacLoginEnabled && (
+            <div className="mt-4 space-y-4">
+              <div className="relative text-center text-xs uppercase text-muted-foreground">
+                <span className="bg-card px-2">or</span>
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={handleCacLogin}
+                disabled={loading || cacLoading}
+              >
+                {cacLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CreditCard className="mr-2 h-4 w-4" />}
+                Sign In with CAC
+              </Button>
+            </div>
+          )}
           <div className="mt-4 text-sm text-gray-600 text-center">
             <p>Welcome to the Kratos Defense - KS2 AFT Center</p>
           </div>
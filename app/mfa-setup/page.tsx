@@ -0,0 +1,39 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ShieldCheck } from 'lucide-react';
+import { MfaSettings } from '@/components/mfa-settings';
+
+// Sessions for roles that require MFA are held here until an authenticator is set up
+export default function MfaSetupPage() {
+  const router = useRouter();
+
+  const handleSignOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    router.push('/login');
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <ShieldCheck className="w-5 h-5 mr-2" />
+            Two-Factor Authentication Required
+          </CardTitle>
+          <CardDescription>
+            Your role requires a code from an authenticator app when signing in with a password. Set one up to continue.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <MfaSettings onEnrolled={() => router.push('/role-selection')} />
+          <Button variant="ghost" className="w-full" onClick={handleSignOut}>
+            Sign Out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
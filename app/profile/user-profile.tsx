@@ -13,13 +13,17 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
-import { User, Lock, ArrowLeft } from 'lucide-react';
+import { User, Lock, ArrowLeft, History, ShieldCheck, CalendarClock } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { toast } from 'sonner';
 import Link from 'next/link';
 import { AuthUser } from '@/lib/auth-server';
+import { ChangePasswordForm } from '@/components/change-password-form';
+import { LoginHistory } from '@/components/login-history';
+import { MfaSettings } from '@/components/mfa-settings';
+import { RoleDelegations } from '@/components/role-delegations';
 
 interface UserProfileProps {
   user: AuthUser;
@@ -33,22 +37,11 @@ const profileSchema = z.object({
   phone: z.string().optional(),
 });
 
-const passwordSchema = z.object({
-  currentPassword: z.string().min(1, 'Current password is required'),
-  newPassword: z.string().min(8, 'Password must be at least 8 characters'),
-  confirmPassword: z.string().min(8, 'Please confirm your password'),
-}).refine((data) => data.newPassword === data.confirmPassword, {
-  message: "Passwords don't match",
-  path: ["confirmPassword"],
-});
-
 type ProfileFormValues = z.infer<typeof profileSchema>;
-type PasswordFormValues = z.infer<typeof passwordSchema>;
 
 export function UserProfile({ user }: UserProfileProps) {
   const [userRoles, setUserRoles] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
-  const [passwordLoading, setPasswordLoading] = useState(false);
 
   const profileForm = useForm<ProfileFormValues>({
     resolver: zodResolver(profileSchema),
@@ -61,14 +54,6 @@ export function UserProfile({ user }: UserProfileProps) {
     },
   });
 
-  const passwordForm = useForm<PasswordFormValues>({
-    resolver: zodResolver(passwordSchema),
-    defaultValues: {
-      currentPassword: '',
-      newPassword: '',
-      confirmPassword: '',
-    },
-  });
 
   // Fetch user roles
   useEffect(() => {
@@ -112,35 +97,6 @@ export function UserProfile({ user }: UserProfileProps) {
     }
   };
 
-  // Change password
-  const onPasswordSubmit = async (data: PasswordFormValues) => {
-    try {
-      setPasswordLoading(true);
-      const response = await fetch('/api/auth/change-password', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          currentPassword: data.currentPassword,
-          newPassword: data.newPassword,
-        }),
-      });
-
-      if (response.ok) {
-        toast.success('Password changed successfully');
-        passwordForm.reset();
-      } else {
-        const error = await response.json();
-        toast.error(error.error || 'Failed to change password');
-      }
-    } catch {
-      toast.error('Error changing password');
-    } finally {
-      setPasswordLoading(false);
-    }
-  };
-
   const getRoleBadgeColor = (role: string) => {
     switch (role) {
       case 'admin': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
@@ -312,52 +268,55 @@ export function UserProfile({ user }: UserProfileProps) {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <Form {...passwordForm}>
-                <form onSubmit={passwordForm.handleSubmit(onPasswordSubmit)} className="space-y-4">
-                  <FormField
-                    control={passwordForm.control}
-                    name="currentPassword"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Current Password</FormLabel>
-                        <FormControl>
-                          <Input type="password" placeholder="Enter current password" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={passwordForm.control}
-                    name="newPassword"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>New Password</FormLabel>
-                        <FormControl>
-                          <Input type="password" placeholder="Enter new password" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={passwordForm.control}
-                    name="confirmPassword"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Confirm New Password</FormLabel>
-                        <FormControl>
-                          <Input type="password" placeholder="Confirm new password" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <Button type="submit" disabled={passwordLoading}>
-                    {passwordLoading ? 'Changing Password...' : 'Change Password'}
-                  </Button>
-                </form>
-              </Form>
+              <ChangePasswordForm />
+            </CardContent>
+          </Card>
+
+          {/* Two-Factor Authentication */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <ShieldCheck className="w-5 h-5 mr-2" />
+                Two-Factor Authentication
+              </CardTitle>
+              <CardDescription>
+                Require a code from an authenticator app when signing in with your password
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MfaSettings />
+            </CardContent>
+          </Card>
+
+          {/* Role Delegation */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <CalendarClock className="w-5 h-5 mr-2" />
+                Role Delegation
+              </CardTitle>
+              <CardDescription>
+                Have a colleague act in one of your roles while you are away. The delegation ends automatically at the time you set.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RoleDelegations userId={user.id} roles={user.roles} />
+            </CardContent>
+          </Card>
+
+          {/* Login History */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <History className="w-5 h-5 mr-2" />
+                Login History
+              </CardTitle>
+              <CardDescription>
+                Recent sign-ins and failed attempts on your account. Report any you don&apos;t recognize to your ISSO.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LoginHistory endpoint="/api/auth/login-history" />
             </CardContent>
           </Card>
         </div>
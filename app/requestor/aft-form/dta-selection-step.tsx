@@ -51,7 +51,7 @@ export function DTASelectionStep({ data, updateData }: DTASelectionStepProps) {
   const fetchIssuedDrives = async () => {
     try {
       setLoadingDrives(true);
-      const response = await fetch('/api/drives/issued');
+      const response = await fetch('/api/drives/issued?scope=mine');
       if (response.ok) {
         const drives = await response.json();
         setIssuedDrives(drives);
@@ -112,7 +112,11 @@ export function DTASelectionStep({ data, updateData }: DTASelectionStepProps) {
                   </SelectItem>
                 ) : (
                   issuedDrives.map((drive) => (
-                    <SelectItem key={drive.id} value={drive.id.toString()}>
+                    <SelectItem
+                      key={drive.id}
+                      value={drive.id.toString()}
+                      disabled={!!drive.lockedRequestId && drive.id !== data.selectedDriveId}
+                    >
                       <div className="flex flex-col min-w-0 w-full">
                         <div className="flex items-center gap-2">
                           {getMediaIcon(drive.mediaType)}
@@ -123,6 +127,7 @@ export function DTASelectionStep({ data, updateData }: DTASelectionStepProps) {
                         </div>
                         <span className="text-xs text-muted-foreground">
                           {drive.capacity} | {drive.classification} | Issued to: {drive.userFirstName} {drive.userLastName}
+                          {drive.lockedRequestId && drive.id !== data.selectedDriveId ? ' | In use by another request' : ''}
                         </span>
                       </div>
                     </SelectItem>
@@ -189,7 +194,9 @@ export function DTASelectionStep({ data, updateData }: DTASelectionStepProps) {
         <ul className="text-sm text-primary/80 space-y-1">
           <li>• DTA (Data Transfer Agent) selection is required before configuring transfer details</li>
           <li>• Each DTA corresponds to a specific media type and control number</li>
-          <li>• Only drives issued by the custodian will appear in the selection list</li>
+          <li>• Only drives the custodian has issued to you will appear in the selection list</li>
+          <li>• A drive stays bound to a submitted request until its media disposition is recorded</li>
+          <li>• The drive classification must be at or above the overall classification of the request</li>
           <li>• Your DTA selection determines the available media capacity and classification level</li>
           <li>• Contact the custodian if you need a different drive or media type</li>
         </ul>
@@ -1,22 +1,45 @@
+import { useState } from 'react';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { FileText } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileText, Hash, X } from 'lucide-react';
+import { MANIFEST_COLUMNS, parseManifest, type ManifestEntry } from '@/lib/file-manifest';
 
 interface FormData {
   numberOfFiles: number;
   fileDescription: string;
+  fileManifest?: ManifestEntry[];
   additionalFileListAttached: boolean;
 }
 
+const MANIFEST_PREVIEW_ROWS = 10;
+
 interface FileDetailsStepProps {
   data: FormData;
   updateData: (data: Partial<FormData>) => void;
 }
 
 export function FileDetailsStep({ data, updateData }: FileDetailsStepProps) {
+  const [manifestErrors, setManifestErrors] = useState<string[]>([]);
+  const manifest = data.fileManifest ?? [];
+  const manifestSize = manifest.reduce((total, entry) => total + (entry.size ?? 0), 0);
+
+  // The manifest sets the file count; a file that fails to parse leaves the current one in place
+  const importManifest = async (file: File | null) => {
+    if (!file) return;
+    const parsed = parseManifest(await file.text());
+    if (!parsed.ok) {
+      setManifestErrors(parsed.errors);
+      return;
+    }
+    setManifestErrors([]);
+    updateData({ fileManifest: parsed.entries, numberOfFiles: parsed.entries.length });
+  };
+
   return (
     <div className="space-y-6">
       <Card>
@@ -39,7 +62,11 @@ export function FileDetailsStep({ data, updateData }: FileDetailsStepProps) {
               value={data.numberOfFiles || ''}
               onChange={(e) => updateData({ numberOfFiles: parseInt(e.target.value) || 0 })}
               placeholder="Enter number of files"
+              disabled={manifest.length > 0}
             />
+            {manifest.length > 0 && (
+              <p className="text-xs text-muted-foreground">Set from the file manifest</p>
+            )}
           </div>
           
           <div className="space-y-2">
@@ -66,12 +93,92 @@ export function FileDetailsStep({ data, updateData }: FileDetailsStepProps) {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center gap-2">
+            <Hash className="w-5 h-5" />
+            File Manifest (Optional)
+          </CardTitle>
+          <CardDescription>
+            Import each file&apos;s path, size and SHA-256 so the DTA can verify them at the destination.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="fileManifest">Manifest File</Label>
+            <Input
+              id="fileManifest"
+              type="file"
+              accept=".csv,.txt,.sha256"
+              onChange={(e) => {
+                importManifest(e.target.files?.[0] ?? null);
+                e.target.value = '';
+              }}
+            />
+            <p className="text-xs text-muted-foreground">
+              A CSV with the columns <span className="font-mono">{MANIFEST_COLUMNS.join(', ')}</span>, or the output of <span className="font-mono">sha256sum</span>.
+            </p>
+          </div>
+
+          {manifestErrors.length > 0 && (
+            <div className="p-3 border border-red-200 bg-red-50 dark:bg-red-950 dark:border-red-900 rounded-md text-sm text-red-800 dark:text-red-200">
+              <ul className="space-y-1">
+                {manifestErrors.slice(0, MANIFEST_PREVIEW_ROWS).map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </ul>
+              {manifestErrors.length > MANIFEST_PREVIEW_ROWS && (
+                <p className="mt-1">and {manifestErrors.length - MANIFEST_PREVIEW_ROWS} more</p>
+              )}
+            </div>
+          )}
+
+          {manifest.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-sm">
+                  {manifest.length} file(s){manifestSize > 0 && `, ${manifestSize.toLocaleString()} bytes`}
+                </p>
+                <Button variant="ghost" size="sm" onClick={() => updateData({ fileManifest: undefined })}>
+                  <X className="w-4 h-4 mr-1" />
+                  Remove Manifest
+                </Button>
+              </div>
+              <div className="border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Path</TableHead>
+                      <TableHead className="text-right">Size</TableHead>
+                      <TableHead>SHA-256</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {manifest.slice(0, MANIFEST_PREVIEW_ROWS).map(entry => (
+                      <TableRow key={entry.path}>
+                        <TableCell className="font-mono text-xs break-all">{entry.path}</TableCell>
+                        <TableCell className="text-right text-xs">{entry.size?.toLocaleString() ?? '—'}</TableCell>
+                        <TableCell className="font-mono text-xs" title={entry.sha256}>{entry.sha256.slice(0, 16)}…</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {manifest.length > MANIFEST_PREVIEW_ROWS && (
+                <p className="text-xs text-muted-foreground">Showing the first {MANIFEST_PREVIEW_ROWS} of {manifest.length} files</p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <h4 className="font-medium text-blue-900 mb-2">File Transfer Guidelines</h4>
         <ul className="text-sm text-blue-800 space-y-1">
           <li>• Provide accurate count and description of files to be transferred</li>
           <li>• File names should not contain sensitive or classified information</li>
           <li>• If you have more than 10 files, check &quot;Additional File List(s) Attached&quot;</li>
+          <li>• A file manifest lets the DTA confirm every file arrived unchanged</li>
           <li>• Executable files require additional security review and approval</li>
           <li>• All file details will be reviewed by security personnel before transfer</li>
         </ul>
@@ -38,6 +38,16 @@ export function MediaControlStep({ data, updateData }: MediaControlStepProps) {
     }
   }, [data.selectedDriveId]);
 
+  // Requests reopened for editing take their media details from the bound drive
+  useEffect(() => {
+    if (selectedDrive && !data.mediaType) {
+      updateData({
+        mediaControlNumber: selectedDrive.mediaController,
+        mediaType: selectedDrive.mediaType as FormData['mediaType']
+      });
+    }
+  }, [selectedDrive, data.mediaType, updateData]);
+
   const fetchSelectedDrive = async (driveId: number) => {
     try {
       setLoadingDrive(true);
@@ -24,6 +24,7 @@ interface FormData {
   // File Details
   numberOfFiles: number;
   fileDescription: string;
+  fileManifest?: { path: string }[];
   additionalFileListAttached: boolean;
   
   // Media Transportation
@@ -180,11 +181,18 @@ export function ReviewSubmitStep({ data }: ReviewSubmitStepProps) {
               <p className="text-sm font-medium text-muted-foreground">Number of Files</p>
               <p className="text-lg font-semibold text-foreground">{data.numberOfFiles}</p>
             </div>
-            {data.additionalFileListAttached && (
-              <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
-                Additional File List Attached
-              </Badge>
-            )}
+            <div className="flex items-center gap-2">
+              {data.fileManifest && data.fileManifest.length > 0 && (
+                <Badge variant="outline">
+                  SHA-256 Manifest: {data.fileManifest.length} file(s)
+                </Badge>
+              )}
+              {data.additionalFileListAttached && (
+                <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                  Additional File List Attached
+                </Badge>
+              )}
+            </div>
           </div>
           
           <div className="space-y-3">
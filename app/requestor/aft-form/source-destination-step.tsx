@@ -9,14 +9,28 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Database, ArrowUpDown, Shield, Plus, X } from 'lucide-react';
+import { deriveRequestTransferType } from '@/lib/information-systems';
+import { CLASSIFICATIONS, CLASSIFICATION_LABELS, getClassificationLabel } from '@/lib/classifications';
 
 interface DestinationIS {
   id: string;
+  systemId?: number;
   name: string;
   classification: string;
 }
 
+interface CatalogSystem {
+  id: number;
+  name: string;
+  atoId: string;
+  classification: string;
+  allowOutbound: boolean;
+  allowInbound: boolean;
+}
+
 interface FormData {
+  sourceISId?: number;
+  destinationISIds?: number[];
   sourceIS: string;
   sourceISClassification: string;
   destinationIS: string;
@@ -37,19 +51,46 @@ interface SourceDestinationStepProps {
 }
 
 export function SourceDestinationStep({ data, updateData }: SourceDestinationStepProps) {
+  const [systems, setSystems] = useState<CatalogSystem[]>([]);
   const [destinationISList, setDestinationISList] = useState<DestinationIS[]>(
-    data.destinationISList || [
+    data.destinationISList?.length ? data.destinationISList : [
       { id: '1', name: data.destinationIS || '', classification: data.destinationISClassification || '' }
     ]
   );
 
   useEffect(() => {
+    fetch('/api/information-systems')
+      .then(response => (response.ok ? response.json() : { systems: [] }))
+      .then(result => {
+        const catalog: CatalogSystem[] = result.systems || [];
+        setSystems(catalog);
+
+        // Saved selections take their classification from the catalog as it is now
+        setDestinationISList(list => list.map(dest => {
+          const system = catalog.find(system => system.id === dest.systemId);
+          return system ? { ...dest, name: system.name, classification: system.classification } : dest;
+        }));
+      })
+      .catch(error => console.error('Error fetching information systems:', error));
+  }, []);
+
+  // Transfer type follows from the catalog classifications of the chosen systems
+  useEffect(() => {
+    const source = systems.find(system => system.id === data.sourceISId);
+    const selected = destinationISList.filter(dest => dest.systemId);
+    const transferType = source && selected.length === destinationISList.length
+      ? deriveRequestTransferType(source.classification, selected.map(dest => dest.classification))
+      : null;
+
     updateData({ 
+      ...(source ? { sourceIS: source.name, sourceISClassification: source.classification } : {}),
       destinationISList,
+      destinationISIds: selected.map(dest => dest.systemId!),
       destinationIS: destinationISList[0]?.name || '',
-      destinationISClassification: destinationISList[0]?.classification || ''
+      destinationISClassification: destinationISList[0]?.classification || '',
+      transferType: transferType || ''
     });
-  }, [destinationISList, updateData]);
+  }, [destinationISList, systems, data.sourceISId, updateData]);
 
   const handleInputChange = (field: keyof FormData, value: string | boolean) => {
     updateData({ [field]: value });
@@ -64,9 +105,21 @@ export function SourceDestinationStep({ data, updateData }: SourceDestinationSte
     setDestinationISList([...destinationISList, newDestination]);
   };
 
-  const updateDestinationIS = (id: string, field: keyof DestinationIS, value: string) => {
+  const selectSourceIS = (value: string) => {
+    const system = systems.find(system => system.id.toString() === value);
+    if (!system) return;
+    updateData({
+      sourceISId: system.id,
+      sourceIS: system.name,
+      sourceISClassification: system.classification
+    });
+  };
+
+  const selectDestinationIS = (id: string, value: string) => {
+    const system = systems.find(system => system.id.toString() === value);
+    if (!system) return;
     setDestinationISList(destinationISList.map(dest => 
-      dest.id === id ? { ...dest, [field]: value } : dest
+      dest.id === id ? { ...dest, systemId: system.id, name: system.name, classification: system.classification } : dest
     ));
   };
 
@@ -93,32 +146,36 @@ export function SourceDestinationStep({ data, updateData }: SourceDestinationSte
             <div className="space-y-3">
               <div>
                 <Label htmlFor="sourceIS">Source IS *</Label>
-                <Input
-                  id="sourceIS"
-                  type="text"
-                  placeholder="Source Information System"
-                  value={data.sourceIS}
-                  onChange={(e) => handleInputChange('sourceIS', e.target.value)}
-                  required
-                />
-              </div>
-              <div>
-                <Label htmlFor="sourceISClassification">Source IS Classification *</Label>
                 <Select
-                  value={data.sourceISClassification}
-                  onValueChange={(value) => handleInputChange('sourceISClassification', value)}
+                  value={data.sourceISId ? data.sourceISId.toString() : ''}
+                  onValueChange={selectSourceIS}
                 >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select source classification" />
+                  <SelectTrigger id="sourceIS">
+                    <SelectValue placeholder="Select source information system" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="unclassified">UNCLASSIFIED</SelectItem>
-                    <SelectItem value="cui">CUI</SelectItem>
-                    <SelectItem value="secret">SECRET</SelectItem>
-                    <SelectItem value="top-secret">TOP SECRET</SelectItem>
-                    <SelectItem value="top-secret-sci">TOP SECRET//SCI</SelectItem>
+                    {systems.filter(system => system.allowOutbound).map((system) => (
+                      <SelectItem key={system.id} value={system.id.toString()}>
+                        {system.name}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
+                {!data.sourceISId && data.sourceIS && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Previously entered as &quot;{data.sourceIS}&quot; - select the matching system from the catalog
+                  </p>
+                )}
+              </div>
+              <div>
+                <Label>Source IS Classification</Label>
+                <div className="mt-2">
+                  {data.sourceISId ? (
+                    <Badge variant="outline">{getClassificationLabel(data.sourceISClassification)}</Badge>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">Set by the selected system</span>
+                  )}
+                </div>
               </div>
             </div>
             
@@ -163,32 +220,36 @@ export function SourceDestinationStep({ data, updateData }: SourceDestinationSte
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                       <div>
                         <Label htmlFor={`destinationIS-${destination.id}`}>Information System *</Label>
-                        <Input
-                          id={`destinationIS-${destination.id}`}
-                          type="text"
-                          placeholder="Destination Information System"
-                          value={destination.name}
-                          onChange={(e) => updateDestinationIS(destination.id, 'name', e.target.value)}
-                          required
-                        />
-                      </div>
-                      <div>
-                        <Label htmlFor={`destinationISClassification-${destination.id}`}>Classification *</Label>
                         <Select
-                          value={destination.classification}
-                          onValueChange={(value) => updateDestinationIS(destination.id, 'classification', value)}
+                          value={destination.systemId ? destination.systemId.toString() : ''}
+                          onValueChange={(value) => selectDestinationIS(destination.id, value)}
                         >
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select classification" />
+                          <SelectTrigger id={`destinationIS-${destination.id}`}>
+                            <SelectValue placeholder="Select destination information system" />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="unclassified">UNCLASSIFIED</SelectItem>
-                            <SelectItem value="cui">CUI</SelectItem>
-                            <SelectItem value="secret">SECRET</SelectItem>
-                            <SelectItem value="top-secret">TOP SECRET</SelectItem>
-                            <SelectItem value="top-secret-sci">TOP SECRET//SCI</SelectItem>
+                            {systems.filter(system => system.allowInbound && system.id !== data.sourceISId).map((system) => (
+                              <SelectItem key={system.id} value={system.id.toString()}>
+                                {system.name}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
+                        {!destination.systemId && destination.name && (
+                          <p className="text-sm text-muted-foreground mt-1">
+                            Previously entered as &quot;{destination.name}&quot;
+                          </p>
+                        )}
+                      </div>
+                      <div>
+                        <Label>Classification</Label>
+                        <div className="mt-2">
+                          {destination.systemId ? (
+                            <Badge variant="outline">{getClassificationLabel(destination.classification)}</Badge>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">Set by the selected system</span>
+                          )}
+                        </div>
                       </div>
                     </div>
                   </Card>
@@ -235,11 +296,9 @@ export function SourceDestinationStep({ data, updateData }: SourceDestinationSte
                   <SelectValue placeholder="Select overall classification" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="unclassified">UNCLASSIFIED</SelectItem>
-                  <SelectItem value="cui">CUI</SelectItem>
-                  <SelectItem value="secret">SECRET</SelectItem>
-                  <SelectItem value="top-secret">TOP SECRET</SelectItem>
-                  <SelectItem value="top-secret-sci">TOP SECRET//SCI</SelectItem>
+                  {CLASSIFICATIONS.map((classification) => (
+                    <SelectItem key={classification} value={classification}>{CLASSIFICATION_LABELS[classification]}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -256,21 +315,14 @@ export function SourceDestinationStep({ data, updateData }: SourceDestinationSte
         </CardHeader>
         <CardContent className="space-y-4">
           <div>
-            <Label htmlFor="transferType">Transfer Type *</Label>
-            <Select
-              value={data.transferType}
-              onValueChange={(value) => handleInputChange('transferType', value)}
-            >
-              <SelectTrigger>
-                <SelectValue placeholder="Select transfer type" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="low-to-low">LOW → LOW</SelectItem>
-                <SelectItem value="low-to-high">LOW → HIGH</SelectItem>
-                <SelectItem value="high-to-low">HIGH → LOW</SelectItem>
-                <SelectItem value="high-to-high">HIGH → HIGH</SelectItem>
-              </SelectContent>
-            </Select>
+            <Label>Transfer Type</Label>
+            <div className="mt-2">
+              {data.transferType ? (
+                <Badge variant="secondary">{data.transferType.replace('-to-', ' → ').toUpperCase()}</Badge>
+              ) : (
+                <span className="text-sm text-muted-foreground">Determined from the source and destination classifications</span>
+              )}
+            </div>
           </div>
 
           {data.transferType === 'high-to-low' && (
@@ -343,6 +395,7 @@ export function SourceDestinationStep({ data, updateData }: SourceDestinationSte
       <div className="bg-primary/5 border border-primary/20 rounded-lg p-4">
         <h4 className="font-medium text-primary mb-2">Transfer Requirements</h4>
         <ul className="text-sm text-primary/80 space-y-1">
+          <li>• Transfer type is set from the classifications of the selected systems; with several destinations the most restrictive applies</li>
           <li>• Overall classification must be equal to or higher than individual file classifications</li>
           <li>• <strong>HIGH-to-LOW transfers</strong> require additional approval from Designated Authorizing Official (DAO)</li>
           <li>• Non-human readable content requires specific process documentation</li>
@@ -25,14 +25,18 @@ import {
   CheckCircle,
   XCircle,
   User,
-  Shield
+  Shield,
+  Copy,
+  BookmarkPlus
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { SaveTemplateDialog } from './save-template-dialog';
 
 interface AFTRequest {
   id: number;
   requestNumber: string;
   status: string;
+  requestorId: number;
   transferType: string;
   classification: string;
   requestorName: string;
@@ -59,6 +63,7 @@ export default function ApproverHistoryPage() {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [classificationFilter, setClassificationFilter] = useState('all');
+  const [templateRequest, setTemplateRequest] = useState<AFTRequest | null>(null);
 
   const getRoleTitle = (role: string | undefined | null) => {
     if (!role) return 'User';
@@ -417,6 +422,26 @@ export default function ApproverHistoryPage() {
                               <span className="hidden sm:inline">View</span>
                             </Button>
                           </Link>
+                          {/* Requestors reuse their own requests; admins any */}
+                          {(request.requestorId === user?.id || user?.role === 'admin') && (
+                            <>
+                              <Link href={`/requestor/request/new?clone=${request.id}`}>
+                                <Button variant="outline" size="sm" className="flex items-center space-x-1">
+                                  <Copy className="w-3 h-3" />
+                                  <span className="hidden sm:inline">Clone</span>
+                                </Button>
+                              </Link>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="flex items-center space-x-1"
+                                onClick={() => setTemplateRequest(request)}
+                              >
+                                <BookmarkPlus className="w-3 h-3" />
+                                <span className="hidden sm:inline">Save as Template</span>
+                              </Button>
+                            </>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -427,6 +452,11 @@ export default function ApproverHistoryPage() {
           )}
         </CardContent>
       </Card>
+
+      <SaveTemplateDialog
+        request={templateRequest}
+        onOpenChange={(open) => !open && setTemplateRequest(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { MAX_TEMPLATE_NAME_LENGTH } from '@/lib/request-templates';
+
+interface SaveTemplateDialogProps {
+  request: { id: number; requestNumber: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SaveTemplateDialog({ request, onOpenChange }: SaveTemplateDialogProps) {
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!request) return;
+    setName('');
+    setShared(false);
+    setError('');
+  }, [request]);
+
+  const submit = async () => {
+    if (!request) return;
+
+    try {
+      setSubmitting(true);
+      setError('');
+      const response = await fetch('/api/aft-requests/templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, requestId: request.id, shared }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.details?.join(', ') || data.error || 'Failed to save template');
+        return;
+      }
+      toast.success(`Template "${data.template.name}" saved`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      setError('Failed to save template');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={request !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Keep the systems, process and file details of {request?.requestNumber} for recurring transfers.
+            The drive, media, dates and signatures are not saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Template Name</Label>
+            <Input
+              id="template-name"
+              value={name}
+              maxLength={MAX_TEMPLATE_NAME_LENGTH}
+              placeholder="e.g. Weekly log transfer"
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="template-shared"
+              checked={shared}
+              onCheckedChange={(checked) => setShared(checked as boolean)}
+            />
+            <Label htmlFor="template-shared" className="text-sm">
+              Share with my organization
+            </Label>
+          </div>
+
+          {error && (
+            <div className="p-3 border border-red-200 bg-red-50 dark:bg-red-950 dark:border-red-900 rounded-md text-sm text-red-800 dark:text-red-200">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={submit} disabled={submitting || !name.trim()}>
+            {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
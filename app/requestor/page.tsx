@@ -13,9 +13,14 @@ import {
   XCircle, 
   AlertTriangle,
   Calendar,
-  TrendingUp
+  TrendingUp,
+  PenLine,
+  Trash2,
+  Copy,
+  Users
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { REQUEST_WIZARD_STEPS } from '@/lib/aft-request-form';
 
 interface AFTRequest {
   id: number;
@@ -28,6 +33,24 @@ interface AFTRequest {
   createdAt: string;
 }
 
+interface RequestDraft {
+  id: number;
+  requestNumber: string;
+  currentStep: number;
+  data: { mediaControlNumber?: string; justificationForTransfer?: string };
+  updatedAt: string;
+}
+
+interface RequestTemplate {
+  id: number;
+  name: string;
+  ownerFirstName: string;
+  ownerLastName: string;
+  shared: boolean;
+  isOwner: boolean;
+  updatedAt: string;
+}
+
 interface DashboardStats {
   total: number;
   draft: number;
@@ -39,6 +62,8 @@ interface DashboardStats {
 
 export default function RequestorDashboard() {
   const [recentRequests, setRecentRequests] = useState<AFTRequest[]>([]);
+  const [drafts, setDrafts] = useState<RequestDraft[]>([]);
+  const [templates, setTemplates] = useState<RequestTemplate[]>([]);
   const [stats, setStats] = useState<DashboardStats>({
     total: 0,
     draft: 0,
@@ -52,7 +77,21 @@ export default function RequestorDashboard() {
   const fetchDashboardData = async () => {
     try {
       setLoading(true);
-      const response = await fetch('/api/aft-requests?scope=my-requests');
+      const [response, draftsResponse, templatesResponse] = await Promise.all([
+        fetch('/api/aft-requests?scope=my-requests'),
+        fetch('/api/aft-requests/drafts'),
+        fetch('/api/aft-requests/templates'),
+      ]);
+
+      if (draftsResponse.ok) {
+        const draftsData = await draftsResponse.json();
+        setDrafts(draftsData.drafts || []);
+      }
+
+      if (templatesResponse.ok) {
+        const templatesData = await templatesResponse.json();
+        setTemplates(templatesData.templates || []);
+      }
       
       if (response.ok) {
         const data = await response.json();
@@ -124,6 +163,45 @@ export default function RequestorDashboard() {
     }
   };
 
+  const discardDraft = async (draftId: number) => {
+    if (!confirm('Discard this unfinished request? This cannot be undone.')) {
+      return;
+    }
+
+    try {
+      // Drafts are draft requests, deleted like any other
+      const response = await fetch(`/api/aft-requests/${draftId}`, { method: 'DELETE' });
+      if (response.ok) {
+        toast.success('Draft discarded');
+        fetchDashboardData();
+      } else {
+        toast.error('Failed to discard draft');
+      }
+    } catch (error) {
+      toast.error('Failed to discard draft');
+      console.error('Draft discard error:', error);
+    }
+  };
+
+  const deleteTemplate = async (template: RequestTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?${template.shared ? ' It will no longer be available to your organization.' : ''}`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/aft-requests/templates/${template.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        setTemplates(prev => prev.filter(t => t.id !== template.id));
+        toast.success('Template deleted');
+      } else {
+        toast.error('Failed to delete template');
+      }
+    } catch (error) {
+      toast.error('Failed to delete template');
+      console.error('Template delete error:', error);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -253,6 +331,97 @@ export default function RequestorDashboard() {
         </Card>
       </div>
 
+      {/* Unfinished Requests */}
+      {drafts.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center space-x-2">
+              <PenLine className="w-5 h-5" />
+              <span>Unfinished Requests</span>
+            </CardTitle>
+            <CardDescription>Requests saved automatically while you were filling them in</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {drafts.map((draft) => (
+                <div key={draft.id} className="flex items-center justify-between p-4 border rounded-lg hover:bg-accent">
+                  <div>
+                    <div className="font-medium text-sm">
+                      {draft.data.mediaControlNumber || draft.requestNumber}
+                    </div>
+                    {draft.data.justificationForTransfer && (
+                      <p className="text-sm text-muted-foreground truncate max-w-md" title={draft.data.justificationForTransfer}>
+                        {draft.data.justificationForTransfer}
+                      </p>
+                    )}
+                    <div className="flex items-center space-x-4 text-xs text-muted-foreground mt-1">
+                      <span>Step {draft.currentStep + 1} of {REQUEST_WIZARD_STEPS.length}: {REQUEST_WIZARD_STEPS[draft.currentStep]?.title}</span>
+                      <span>•</span>
+                      <span>Saved {new Date(draft.updatedAt).toLocaleString()}</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Link href={`/requestor/request/new?draft=${draft.id}`}>
+                      <Button size="sm">Resume</Button>
+                    </Link>
+                    <Button variant="ghost" size="sm" onClick={() => discardDraft(draft.id)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Request Templates */}
+      {templates.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center space-x-2">
+              <Copy className="w-5 h-5" />
+              <span>Request Templates</span>
+            </CardTitle>
+            <CardDescription>Start a recurring transfer from a saved request</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {templates.map((template) => (
+                <div key={template.id} className="flex items-center justify-between p-4 border rounded-lg hover:bg-accent">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-sm">{template.name}</span>
+                      {template.shared && (
+                        <Badge variant="outline" className="flex items-center space-x-1">
+                          <Users className="w-3 h-3" />
+                          <span>Organization</span>
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-4 text-xs text-muted-foreground mt-1">
+                      <span>{template.isOwner ? 'Yours' : `Shared by ${template.ownerFirstName} ${template.ownerLastName}`}</span>
+                      <span>•</span>
+                      <span>Updated {formatDate(template.updatedAt)}</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Link href={`/requestor/request/new?template=${template.id}`}>
+                      <Button size="sm">Use</Button>
+                    </Link>
+                    {template.isOwner && (
+                      <Button variant="ghost" size="sm" onClick={() => deleteTemplate(template)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Recent Requests */}
       <Card>
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
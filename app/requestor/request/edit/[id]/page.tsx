@@ -31,6 +31,7 @@ interface FileEntry {
 
 interface DestinationIS {
   id: string;
+  systemId?: number;
   name: string;
   classification: string;
 }
@@ -45,6 +46,8 @@ interface FormData {
   mediaType: 'CD-R' | 'DVD-R' | 'DVD-RDL' | 'SSD' | 'SSD-T' | '';
   
   // Section II: Source/Destination Information
+  sourceISId?: number;
+  destinationISIds?: number[];
   sourceIS: string;
   sourceISClassification: string;
   destinationIS: string;
@@ -90,7 +93,10 @@ interface RequestData {
   transferType: string;
   classification: string;
   dataDescription: string;
+  selectedDriveId?: number | null;
+  sourceSystemId?: number | null;
   sourceSystem?: string;
+  destSystemId?: number | null;
   destSystem?: string;
   destLocation?: string;
   dataFormat?: string;
@@ -164,21 +170,23 @@ export default function EditRequestPage() {
   // Map existing request data to form data structure
   const mapRequestToFormData = (request: RequestData): FormData => {
     return {
-      // DTA Selection - defaults for existing requests
-      selectedDriveId: undefined,
-      dtaSelected: false,
+      // DTA Selection - the drive the request was saved with
+      selectedDriveId: request.selectedDriveId ?? undefined,
+      dtaSelected: !!request.selectedDriveId,
       
       // Default AFT form values - we'll need to populate these based on existing data
       mediaControlNumber: request.requestNumber || '',
       mediaType: '', // This wasn't in the old structure
       
       // Map from old structure where possible
+      sourceISId: request.sourceSystemId ?? undefined,
       sourceIS: request.sourceSystem || '',
       sourceISClassification: request.classification || '',
       destinationIS: request.destSystem || '',
       destinationISClassification: request.classification || '',
       destinationISList: [{ 
         id: '1', 
+        systemId: request.destSystemId ?? undefined,
         name: request.destSystem || '', 
         classification: request.classification || '' 
       }],
@@ -278,7 +286,7 @@ export default function EditRequestPage() {
       case 1: // Media Control
         return !!(formData.mediaControlNumber && formData.mediaType);
       case 2: // Source & Destination
-        return !!(formData.sourceIS && formData.sourceISClassification && formData.destinationISList && formData.destinationISList.length > 0 && formData.destinationISList.every(dest => dest.name && dest.classification) && formData.overallClassification && formData.transferType && formData.destinationFile && formData.justificationForTransfer);
+        return !!(formData.sourceISId && formData.destinationISList && formData.destinationISList.length > 0 && formData.destinationISList.every(dest => dest.systemId) && formData.overallClassification && formData.transferType && formData.destinationFile && formData.justificationForTransfer);
       case 3: // File Details
         return formData.numberOfFiles > 0 && formData.files.every(file => file.name && file.fileType && file.classification);
       case 4: // File Upload
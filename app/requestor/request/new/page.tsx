@@ -1,11 +1,11 @@
 'use client';
 
-import { useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { useState, useEffect, useRef, useCallback, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
-import { ArrowLeft, ArrowRight, CheckCircle } from 'lucide-react';
+import { ArrowLeft, ArrowRight, CheckCircle, Cloud, CloudOff } from 'lucide-react';
 import { toast } from 'sonner';
 import { DTASelectionStep } from '@/app/requestor/aft-form/dta-selection-step';
 import { MediaControlStep } from '@/app/requestor/aft-form/media-control-step';
@@ -13,10 +13,13 @@ import { SourceDestinationStep } from '@/app/requestor/aft-form/source-destinati
 import { FileDetailsStep } from '@/app/requestor/aft-form/file-details-step';
 import { MediaTransportationStep } from '@/app/requestor/aft-form/media-transportation-step';
 import { ReviewSubmitStep } from '@/app/requestor/aft-form/review-submit-step';
+import { REQUEST_WIZARD_STEPS, validateWizardStep } from '@/lib/aft-request-form';
+import type { ManifestEntry } from '@/lib/file-manifest';
 
 
 interface DestinationIS {
   id: string;
+  systemId?: number;
   name: string;
   classification: string;
 }
@@ -31,6 +34,8 @@ interface FormData {
   mediaType: 'CD-R' | 'DVD-R' | 'DVD-RDL' | 'SSD' | 'SSD-T' | '';
   
   // Section II: Source/Destination Information
+  sourceISId?: number;
+  destinationISIds?: number[];
   sourceIS: string;
   sourceISClassification: string;
   destinationIS: string;
@@ -47,6 +52,7 @@ interface FormData {
   // File Details
   numberOfFiles: number;
   fileDescription: string;
+  fileManifest?: ManifestEntry[];
   additionalFileListAttached: boolean;
   
   // Media Transportation
@@ -93,24 +99,152 @@ const initialFormData: FormData = {
   mediaEncrypted: false,
 };
 
-const steps = [
-  { title: 'DTA Selection', description: 'Select your Data Transfer Agent' },
-  { title: 'Media Control', description: 'Media control number and type' },
-  { title: 'Source & Destination', description: 'Information systems and classification' },
-  { title: 'File Details', description: 'File count and description information' },
-  { title: 'Media Transportation', description: 'Transportation and encryption details' },
-  { title: 'Review & Submit', description: 'Final review and submission' },
-];
+const steps = REQUEST_WIZARD_STEPS;
 
-export default function NewRequestPage() {
+// Quiet period after the last change before the draft is saved
+const AUTOSAVE_DELAY_MS = 1500;
+
+type DraftSaveState = 'idle' | 'saving' | 'saved' | 'error';
+
+function NewRequestContent() {
   const [currentStep, setCurrentStep] = useState(0);
   const [formData, setFormData] = useState<FormData>(initialFormData);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [loadingDraft, setLoadingDraft] = useState(false);
+  const [draftSaveState, setDraftSaveState] = useState<DraftSaveState>('idle');
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null);
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const draftParam = searchParams.get('draft');
+  const templateParam = searchParams.get('template');
+  const cloneParam = searchParams.get('clone');
 
-  const updateFormData = (stepData: Partial<FormData>) => {
+  // Nothing is saved until the user changes something, and nothing after the request is created
+  const hasChangesRef = useRef(false);
+  const submittedRef = useRef(false);
+  const draftIdRef = useRef<number | null>(null);
+  const draftCreationRef = useRef<Promise<unknown> | null>(null);
+
+  const updateFormData = useCallback((stepData: Partial<FormData>) => {
+    hasChangesRef.current = true;
     setFormData(prev => ({ ...prev, ...stepData }));
-  };
+  }, []);
+
+  // Resume a draft opened from the dashboard
+  useEffect(() => {
+    const draftId = draftParam ? parseInt(draftParam) : NaN;
+    if (isNaN(draftId) || draftId === draftIdRef.current) return;
+
+    const loadDraft = async () => {
+      try {
+        setLoadingDraft(true);
+        const response = await fetch(`/api/aft-requests/drafts/${draftId}`);
+        const data = await response.json();
+        if (response.ok) {
+          draftIdRef.current = data.draft.id;
+          setFormData({ ...initialFormData, ...data.draft.data });
+          setCurrentStep(data.draft.currentStep);
+          setDraftSavedAt(new Date(data.draft.updatedAt));
+          setDraftSaveState('saved');
+        } else {
+          toast.error(data.error || 'Failed to load draft');
+        }
+      } catch (error) {
+        console.error('Error loading draft:', error);
+        toast.error('Failed to load draft');
+      } finally {
+        setLoadingDraft(false);
+      }
+    };
+
+    loadDraft();
+  }, [draftParam]);
+
+  // Start from a saved template or a past request; the first autosave turns it into a draft
+  useEffect(() => {
+    if (draftParam || (!templateParam && !cloneParam)) return;
+
+    const loadPrefill = async () => {
+      try {
+        setLoadingDraft(true);
+        const response = await fetch(templateParam
+          ? `/api/aft-requests/templates/${encodeURIComponent(templateParam)}`
+          : `/api/aft-requests/${encodeURIComponent(cloneParam!)}/clone`);
+        const data = await response.json();
+        if (response.ok) {
+          hasChangesRef.current = true;
+          setFormData({ ...initialFormData, ...(templateParam ? data.template.data : data.data) });
+          setCurrentStep(0);
+          toast.success(templateParam
+            ? `Started from template "${data.template.name}"`
+            : `Copied from request ${data.requestNumber}`);
+        } else {
+          toast.error(data.error || 'Failed to load the request to start from');
+        }
+      } catch (error) {
+        console.error('Error loading request prefill:', error);
+        toast.error('Failed to load the request to start from');
+      } finally {
+        setLoadingDraft(false);
+      }
+    };
+
+    loadPrefill();
+  }, [draftParam, templateParam, cloneParam]);
+
+  const saveDraft = useCallback(async (data: FormData, step: number) => {
+    if (submittedRef.current) return;
+
+    // The first save creates the draft; saves queued behind it update the same one
+    if (draftCreationRef.current) {
+      await draftCreationRef.current;
+    }
+
+    const draftId = draftIdRef.current;
+    const save = (async () => {
+      setDraftSaveState('saving');
+      const response = await fetch(draftId ? `/api/aft-requests/drafts/${draftId}` : '/api/aft-requests/drafts', {
+        method: draftId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currentStep: step, data }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setDraftSaveState('error');
+        if (response.status === 401) {
+          toast.error('Your session has expired. Sign in again to keep saving this draft.');
+        }
+        return;
+      }
+
+      if (!draftId) {
+        draftIdRef.current = result.draft.id;
+        // Keep the draft in the address so a refresh resumes it
+        window.history.replaceState(null, '', `/requestor/request/new?draft=${result.draft.id}`);
+      }
+      setDraftSavedAt(new Date(result.draft.updatedAt));
+      setDraftSaveState('saved');
+    })().catch(error => {
+      console.error('Error saving draft:', error);
+      setDraftSaveState('error');
+    });
+
+    if (!draftId) {
+      draftCreationRef.current = save;
+    }
+    await save;
+    if (draftCreationRef.current === save) {
+      draftCreationRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!hasChangesRef.current) return;
+
+    const timer = setTimeout(() => saveDraft(formData, currentStep), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [formData, currentStep, saveDraft]);
 
   const validateStep = (step: number): boolean => {
     switch (step) {
@@ -119,7 +253,7 @@ export default function NewRequestPage() {
       case 1: // Media Control
         return !!(formData.mediaControlNumber && formData.mediaType);
       case 2: // Source & Destination
-        return !!(formData.sourceIS && formData.sourceISClassification && formData.destinationISList && formData.destinationISList.length > 0 && formData.destinationISList.every(dest => dest.name && dest.classification) && formData.overallClassification && formData.transferType && formData.destinationFile && formData.justificationForTransfer);
+        return !!(formData.sourceISId && formData.destinationISList && formData.destinationISList.length > 0 && formData.destinationISList.every(dest => dest.systemId) && formData.overallClassification && formData.transferType && formData.destinationFile && formData.justificationForTransfer);
       case 3: // File Details
         return formData.numberOfFiles > 0 && formData.fileDescription.trim() !== '';
       case 4: // Media Transportation
@@ -134,13 +268,21 @@ export default function NewRequestPage() {
       toast.error('Please fill in all required fields before continuing.');
       return;
     }
+    // The same checks the server applies to a draft that has moved past this step
+    const errors = validateWizardStep(currentStep, formData);
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return;
+    }
     if (currentStep < steps.length - 1) {
+      hasChangesRef.current = true;
       setCurrentStep(currentStep + 1);
     }
   };
 
   const prevStep = () => {
     if (currentStep > 0) {
+      hasChangesRef.current = true;
       setCurrentStep(currentStep - 1);
     }
   };
@@ -152,6 +294,7 @@ export default function NewRequestPage() {
     }
 
     setIsSubmitting(true);
+    submittedRef.current = true;
     try {
       toast.info('Saving request...');
       
@@ -161,6 +304,7 @@ export default function NewRequestPage() {
         numberOfFiles: formData.numberOfFiles,
         files: [], // No actual files, just metadata
         tpiRequired: true,
+        draftId: draftIdRef.current ?? undefined,
       };
 
       const response = await fetch('/api/aft-requests', {
@@ -180,6 +324,7 @@ export default function NewRequestPage() {
       
       router.push('/requestor/requests');
     } catch (error) {
+      submittedRef.current = false;
       toast.error(error instanceof Error ? error.message : 'Error saving request. Please try again.');
     } finally {
       setIsSubmitting(false);
@@ -207,11 +352,40 @@ export default function NewRequestPage() {
 
   const progressPercentage = ((currentStep + 1) / steps.length) * 100;
 
+  if (loadingDraft) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-4xl mx-auto">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold text-foreground mb-2">New AFT Request</h1>
-        <p className="text-muted-foreground">Complete the form to submit a new Assured File Transfer request.</p>
+      <div className="mb-8 flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground mb-2">New AFT Request</h1>
+          <p className="text-muted-foreground">Complete the form to submit a new Assured File Transfer request.</p>
+        </div>
+        {draftSaveState !== 'idle' && (
+          <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+            {draftSaveState === 'error' ? (
+              <>
+                <CloudOff className="w-4 h-4 text-red-500" />
+                <span>Draft not saved</span>
+              </>
+            ) : (
+              <>
+                <Cloud className="w-4 h-4" />
+                <span>
+                  {draftSaveState === 'saving'
+                    ? 'Saving draft...'
+                    : `Draft saved ${draftSavedAt?.toLocaleTimeString() ?? ''}`}
+                </span>
+              </>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Progress Bar */}
@@ -303,4 +477,16 @@ export default function NewRequestPage() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+export default function NewRequestPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    }>
+      <NewRequestContent />
+    </Suspense>
+  );
+}
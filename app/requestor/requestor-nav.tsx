@@ -4,6 +4,7 @@ import { useState } from 'react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { NotificationsMenu } from '@/components/notifications-menu';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -130,6 +131,7 @@ export function RequestorNav({ user }: RequestorNavProps) {
 
           <div className="hidden sm:flex sm:items-center sm:space-x-4">
             <ThemeToggle />
+            <NotificationsMenu />
             <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
               REQUESTOR
             </Badge>
@@ -508,6 +508,7 @@ export default function RequestorRequestDetailPage() {
       {/* Workflow Progress Section */}
       <WorkflowProgress
         currentStatus={request.status}
+        transferType={request.transferType}
         approvalData={request.approvalData}
         transferData={request.transferData}
         requestorName={request.requestorName}
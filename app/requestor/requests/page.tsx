@@ -52,6 +52,8 @@ interface AFTRequest {
   approvalDate?: string;
   actualStartDate?: string;
   actualEndDate?: string;
+  // Set while the request wizard is still being filled in
+  wizardStep: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -447,7 +449,7 @@ export default function RequestorRequestsPage() {
                               <span className="hidden sm:inline">View</span>
                             </Button>
                           </Link>
-                          {request.status === 'draft' && (
+                          {request.status === 'draft' && request.wizardStep === null && (
                             <Button 
                               size="sm" 
                               className="flex items-center space-x-1 bg-blue-600 hover:bg-blue-700"
@@ -458,7 +460,7 @@ export default function RequestorRequestsPage() {
                             </Button>
                           )}
                           {request.status === 'draft' && (
-                            <Link href={`/requestor/request/edit/${request.id}`}>
+                            <Link href={request.wizardStep === null ? `/requestor/request/edit/${request.id}` : `/requestor/request/new?draft=${request.id}`}>
                               <Button 
                                 variant="outline" 
                                 size="sm" 
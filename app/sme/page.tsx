@@ -20,6 +20,7 @@ interface AFTRequest {
   id: number;
   requestNumber: string;
   status: string;
+  awaitingRoles?: string[];
   transferType: string;
   classification: string;
   requestorName: string;
@@ -49,7 +50,7 @@ export default function SMEDashboard() {
         
         // Filter for SME pending signature requests
         const pending = allRequests.filter((r: AFTRequest) => 
-          ['pending_sme_signature', 'pending_sme'].includes(r.status)
+          ['pending_sme_signature', 'pending_sme'].includes(r.status) || r.awaitingRoles?.includes('sme')
         );
         
         // Filter for recently signed requests
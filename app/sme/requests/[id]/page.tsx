@@ -38,7 +38,8 @@ import {
   FileCheck,
   FileText,
   AlertCircle,
-  Users
+  Users,
+  XCircle
 } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -97,6 +98,12 @@ export default function SMERequestDetailPage() {
   const [signature, setSignature] = useState('');
   const [comments, setComments] = useState('');
   const [acknowledgeTerms, setAcknowledgeTerms] = useState(false);
+  const [availableActions, setAvailableActions] = useState<string[]>([]);
+  const [showRejectDialog, setShowRejectDialog] = useState(false);
+  const [rejectReason, setRejectReason] = useState('');
+
+  // SME pre-review step required by the request's approval policy
+  const canPreReview = availableActions.includes('approve');
 
   const fetchRequest = useCallback(async () => {
     try {
@@ -104,9 +111,10 @@ export default function SMERequestDetailPage() {
       console.log('Fetching request ID:', params.id); // Debug log
       
       // Fetch both request data and user data
-      const [requestResponse, userResponse] = await Promise.all([
+      const [requestResponse, userResponse, transitionsResponse] = await Promise.all([
         fetch(`/api/aft-requests/${params.id}`),
-        fetch('/api/auth/me')
+        fetch('/api/auth/me'),
+        fetch(`/api/aft-requests/${params.id}/transitions`)
       ]);
 
       console.log('Request response status:', requestResponse.status); // Debug log
@@ -117,6 +125,11 @@ export default function SMERequestDetailPage() {
         setUser(userData);
       }
 
+      if (transitionsResponse.ok) {
+        const transitionsData = await transitionsResponse.json();
+        setAvailableActions(transitionsData.transitions.map((transition: { action: string }) => transition.action));
+      }
+
       if (!requestResponse.ok) {
         console.error('Request fetch failed:', requestResponse.status); // Debug log
         const errorData = await requestResponse.text();
@@ -159,6 +172,28 @@ export default function SMERequestDetailPage() {
 
     setActionLoading(true);
     try {
+      // Approval policies with an SME pre-review step are approved through the approval chain
+      if (canPreReview) {
+        const response = await fetch(`/api/aft-requests/${request?.id}/approve`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            signature: signature.trim(),
+            date: new Date().toISOString()
+          })
+        });
+
+        if (response.ok) {
+          toast.success('Pre-review approved successfully');
+          setShowSignDialog(false);
+          await fetchRequest();
+        } else {
+          const error = await response.json();
+          toast.error(error.error || 'Failed to approve pre-review');
+        }
+        return;
+      }
+
       const response = await fetch(`/api/aft-requests/${request?.id}/sme-sign`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -186,6 +221,36 @@ export default function SMERequestDetailPage() {
     }
   };
 
+  const handleReject = async () => {
+    if (!rejectReason.trim()) {
+      toast.error('Please provide a reason for rejection');
+      return;
+    }
+
+    setActionLoading(true);
+    try {
+      const response = await fetch(`/api/aft-requests/${request?.id}/reject`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: rejectReason.trim() })
+      });
+
+      if (response.ok) {
+        toast.success('Request rejected successfully');
+        setShowRejectDialog(false);
+        router.push('/sme/requests');
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to reject request');
+      }
+    } catch (error) {
+      toast.error('Error rejecting request');
+      console.error('Reject error:', error);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
   const getStatusColor = (status: string | undefined) => {
     if (!status) return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200';
     switch (status.toLowerCase()) {
@@ -710,7 +775,40 @@ export default function SMERequestDetailPage() {
             </Card>
           )}
 
-          {!canSign && (
+          {canPreReview && (
+            <Card className="border-primary/20 bg-primary/5">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2 text-primary">
+                  <Users className="w-5 h-5" />
+                  <span>SME Pre-Review Required</span>
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  The approval policy for this request requires SME review before approval
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Button 
+                  onClick={() => setShowSignDialog(true)}
+                  className="w-full bg-green-600 hover:bg-green-700"
+                  size="lg"
+                >
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                  Approve Pre-Review
+                </Button>
+                <Button 
+                  onClick={() => setShowRejectDialog(true)}
+                  variant="destructive"
+                  className="w-full"
+                  size="lg"
+                >
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Reject Request
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {!canSign && !canPreReview && (
             <Card>
               <CardContent className="text-center py-8">
                 <CheckCircle className="w-12 h-12 text-green-600 mx-auto mb-4" />
@@ -896,9 +994,50 @@ export default function SMERequestDetailPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Reject Dialog */}
+      <Dialog open={showRejectDialog} onOpenChange={setShowRejectDialog}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center space-x-2">
+              <XCircle className="w-5 h-5 text-destructive" />
+              <span>Reject AFT Request</span>
+            </DialogTitle>
+            <DialogDescription>
+              You are about to reject AFT Request {request.requestNumber}. Please provide a detailed reason.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div>
+            <Label htmlFor="reject-reason">Reason for Rejection *</Label>
+            <Textarea
+              id="reject-reason"
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              placeholder="Provide a detailed explanation for why this request is being rejected..."
+              rows={4}
+              className="mt-1"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowRejectDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleReject}
+              disabled={actionLoading || !rejectReason.trim()}
+            >
+              {actionLoading ? 'Processing...' : 'Reject Request'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Workflow Progress Section */}
       <WorkflowProgress
         currentStatus={request.status}
+        transferType={request.transferType}
         approvalData={request.approvalData}
         transferData={request.transferData}
         requestorName={request.requestorName}
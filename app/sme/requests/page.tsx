@@ -31,6 +31,7 @@ interface AFTRequest {
   id: number;
   requestNumber: string;
   status: string;
+  awaitingRoles?: string[];
   transferType: string;
   classification: string;
   requestorName: string;
@@ -64,7 +65,7 @@ export default function SMERequestsPage() {
         
         // Filter for SME signature requests
         const smeRequests = allRequests.filter((r: AFTRequest) => 
-          ['pending_sme_signature', 'pending_sme'].includes(r.status)
+          ['pending_sme_signature', 'pending_sme'].includes(r.status) || r.awaitingRoles?.includes('sme')
         );
         
         setRequests(smeRequests);
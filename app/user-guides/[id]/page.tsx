@@ -20,6 +20,7 @@ import {
   type LucideIcon
 } from 'lucide-react';
 import Link from 'next/link';
+import { useParams } from 'next/navigation';
 import { MarkdownRenderer } from '@/components/markdown-renderer';
 
 interface Guide {
@@ -69,7 +70,8 @@ const roleLabels: Record<string, string> = {
   sme: 'SME',
 };
 
-export default function UserGuidePage({ params }: { params: { id: string } }) {
+export default function UserGuidePage() {
+  const params = useParams<{ id: string }>();
   const [guide, setGuide] = useState<Guide | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
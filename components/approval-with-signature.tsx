@@ -8,7 +8,7 @@ import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { CheckCircle, XCircle, FileSignature } from 'lucide-react';
 import { CACSignatureComponent } from '@/components/cac-signature';
-import { DigitalSignature } from '@/lib/cac-signature';
+import { CACSignatureService, DigitalSignature } from '@/lib/cac-signature';
 import { toast } from 'sonner';
 import { type AFTRequest } from '@/lib/db/schema';
 
@@ -110,6 +110,11 @@ export function ApprovalWithSignature({
   const handleSignatureComplete = async (signature: DigitalSignature) => {
     setIsApproving(true);
     try {
+      // The server checks the signer certificate for revocation, so it must be sent
+      if (signature.certificateData.certificate.byteLength === 0) {
+        throw new Error('Signer certificate is not available');
+      }
+
       // First, save the signature to the database
       const signatureResponse = await fetch('/api/signatures', {
         method: 'POST',
@@ -125,6 +130,7 @@ export function ApprovalWithSignature({
           certificateThumbprint: signature.certificateData.thumbprint,
           certificateNotBefore: signature.certificateData.notBefore.toISOString(),
           certificateNotAfter: signature.certificateData.notAfter.toISOString(),
+          certificateData: CACSignatureService.arrayBufferToBase64(signature.certificateData.certificate),
           signatureData: signature.signatureData,
           signedData: signature.signedData,
           signatureAlgorithm: signature.algorithm,
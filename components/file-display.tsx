@@ -45,19 +45,9 @@ export function FileDisplay({
   const [downloading, setDownloading] = useState<number | null>(null);
 
   const loadFiles = useCallback(async () => {
-    const token = localStorage.getItem('token');
-    if (!token) {
-      toast.error('Please log in to view files');
-      return;
-    }
-
     try {
       setLoading(true);
-      const response = await fetch(`/api/files/list/${requestId}`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
+      const response = await fetch(`/api/files/list/${requestId}`);
 
       if (response.ok) {
         const data = await response.json();
@@ -81,19 +71,9 @@ export function FileDisplay({
   const downloadFile = async (fileId: number, fileName: string) => {
     if (!canDownload) return;
     
-    const token = localStorage.getItem('token');
-    if (!token) {
-      toast.error('Please log in to download files');
-      return;
-    }
-
     try {
       setDownloading(fileId);
-      const response = await fetch(`/api/files/download/${fileId}`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
+      const response = await fetch(`/api/files/download/${fileId}`);
 
       if (response.ok) {
         const blob = await response.blob();
@@ -58,24 +58,18 @@ export function FileUpload({ requestId, onFilesChange, initialFiles = [], disabl
   };
 
   const uploadFile = async (file: File) => {
-    const token = localStorage.getItem('token');
-    if (!token) {
-      toast.error('Please log in to upload files');
+    if (!requestId) {
+      toast.error('Save the request before attaching files');
       return;
     }
 
     const formData = new FormData();
+    formData.append('requestId', requestId.toString());
     formData.append('file', file);
-    if (requestId) {
-      formData.append('requestId', requestId.toString());
-    }
 
     try {
       const response = await fetch('/api/files/upload', {
         method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
         body: formData,
       });
 
@@ -0,0 +1,109 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { History } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  LOGIN_FAILURE_REASON_LABELS,
+  LOGIN_METHOD_LABELS,
+  type LoginFailureReason,
+  type LoginMethod,
+} from '@/lib/login-security';
+
+interface LoginAttempt {
+  id: number;
+  ipAddress: string | null;
+  userAgent: string | null;
+  method: string;
+  successful: boolean;
+  failureReason: string | null;
+  createdAt: string;
+}
+
+interface LoginHistoryProps {
+  // /api/auth/login-history for the signed-in user, /api/users/{id}/login-history for admins
+  endpoint: string;
+}
+
+export function LoginHistory({ endpoint }: LoginHistoryProps) {
+  const [attempts, setAttempts] = useState<LoginAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(endpoint);
+        if (response.ok) {
+          const data = await response.json();
+          setAttempts(data.attempts);
+        } else {
+          toast.error('Failed to fetch login history');
+        }
+      } catch (error) {
+        console.error('Error fetching login history:', error);
+        toast.error('Error fetching login history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [endpoint]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (attempts.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <History className="w-12 h-12 mx-auto mb-4 text-muted-foreground/50" />
+        <p>No sign-ins recorded</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border rounded-md max-h-96 overflow-y-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Time</TableHead>
+            <TableHead>Result</TableHead>
+            <TableHead>Method</TableHead>
+            <TableHead>Address</TableHead>
+            <TableHead>Browser</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {attempts.map(attempt => (
+            <TableRow key={attempt.id}>
+              <TableCell className="text-xs whitespace-nowrap">{new Date(attempt.createdAt).toLocaleString()}</TableCell>
+              <TableCell>
+                {attempt.successful ? (
+                  <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">Success</Badge>
+                ) : (
+                  <Badge variant="destructive">
+                    {LOGIN_FAILURE_REASON_LABELS[attempt.failureReason as LoginFailureReason] ?? 'Failed'}
+                  </Badge>
+                )}
+              </TableCell>
+              <TableCell className="text-xs">{LOGIN_METHOD_LABELS[attempt.method as LoginMethod] ?? attempt.method}</TableCell>
+              <TableCell className="font-mono text-xs">{attempt.ipAddress || '—'}</TableCell>
+              <TableCell className="text-xs text-muted-foreground max-w-[16rem] truncate" title={attempt.userAgent ?? undefined}>
+                {attempt.userAgent || '—'}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
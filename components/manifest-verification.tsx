@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CheckCircle, Hash, XCircle } from 'lucide-react';
+import { MANIFEST_MATCH_LABELS, type ManifestComparison, type ManifestMatchResult } from '@/lib/file-manifest';
+
+const COLLAPSED_ROWS = 25;
+
+const RESULT_COLORS: Record<ManifestMatchResult, string> = {
+  match: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  mismatch: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  missing: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  unexpected: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+};
+
+interface ManifestVerificationReportProps {
+  verification: ManifestComparison & { verifiedAt?: string; verifiedByName?: string };
+}
+
+const shortHash = (hash: string | null) => hash ? `${hash.slice(0, 16)}…` : '—';
+
+export function ManifestVerificationReport({ verification }: ManifestVerificationReportProps) {
+  const [showAll, setShowAll] = useState(false);
+
+  // Exceptions first, then the files that matched
+  const entries = [
+    ...verification.entries.filter(entry => entry.result !== 'match'),
+    ...verification.entries.filter(entry => entry.result === 'match'),
+  ];
+  const visible = showAll ? entries : entries.slice(0, COLLAPSED_ROWS);
+
+  return (
+    <Card className={verification.verified ? 'border-green-200 dark:border-green-800' : 'border-red-200 dark:border-red-800'}>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Hash className="w-5 h-5" />
+          <span>File Manifest Verification</span>
+          {verification.verified ? (
+            <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+              <CheckCircle className="w-3 h-3 mr-1" />
+              Verified
+            </Badge>
+          ) : (
+            <Badge variant="destructive">
+              <XCircle className="w-3 h-3 mr-1" />
+              Discrepancies Found
+            </Badge>
+          )}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Destination SHA-256 hashes compared with the {verification.total} file(s) in the request manifest
+          {verification.verifiedByName && ` by ${verification.verifiedByName}`}
+          {verification.verifiedAt && ` on ${new Date(verification.verifiedAt).toLocaleString()}`}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="outline">{verification.matched} matched</Badge>
+          {verification.mismatched > 0 && <Badge variant="destructive">{verification.mismatched} mismatched</Badge>}
+          {verification.missing > 0 && <Badge variant="destructive">{verification.missing} missing</Badge>}
+          {verification.unexpected > 0 && <Badge variant="secondary">{verification.unexpected} not in manifest</Badge>}
+        </div>
+
+        <div className="border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Path</TableHead>
+                <TableHead>Manifest SHA-256</TableHead>
+                <TableHead>Destination SHA-256</TableHead>
+                <TableHead>Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map(entry => (
+                <TableRow key={`${entry.result}:${entry.path}`}>
+                  <TableCell className="font-mono text-xs break-all">{entry.path}</TableCell>
+                  <TableCell className="font-mono text-xs" title={entry.expectedSha256 ?? undefined}>{shortHash(entry.expectedSha256)}</TableCell>
+                  <TableCell className="font-mono text-xs" title={entry.actualSha256 ?? undefined}>{shortHash(entry.actualSha256)}</TableCell>
+                  <TableCell>
+                    <Badge className={RESULT_COLORS[entry.result]}>{MANIFEST_MATCH_LABELS[entry.result]}</Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {entries.length > COLLAPSED_ROWS && (
+          <Button variant="outline" size="sm" onClick={() => setShowAll(!showAll)}>
+            {showAll ? 'Show Fewer' : `Show All ${entries.length} Files`}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,268 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Image from 'next/image';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Copy, KeyRound, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+interface MfaSetup {
+  secret: string;
+  qrCode: string;
+}
+
+interface MfaSettingsProps {
+  // Called once the user has set up an authenticator and saved their recovery codes
+  onEnrolled?: () => void;
+}
+
+export function MfaSettings({ onEnrolled }: MfaSettingsProps) {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [setup, setSetup] = useState<MfaSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/auth/mfa');
+      if (response.ok) {
+        setStatus(await response.json());
+      } else {
+        toast.error('Failed to fetch MFA status');
+      }
+    } catch (error) {
+      console.error('Error fetching MFA status:', error);
+      toast.error('Error fetching MFA status');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const startSetup = async () => {
+    try {
+      setBusy(true);
+      const response = await fetch('/api/auth/mfa/setup', { method: 'POST' });
+      const data = await response.json();
+      if (response.ok) {
+        setSetup({ secret: data.secret, qrCode: data.qrCode });
+        setCode('');
+      } else {
+        toast.error(data.error || 'Failed to start MFA setup');
+      }
+    } catch {
+      toast.error('Error starting MFA setup');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Enable, regenerate and disable all take a current code from the authenticator
+  const submitCode = async (endpoint: string, method: 'POST' | 'DELETE') => {
+    setBusy(true);
+    try {
+      const response = await fetch(endpoint, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Invalid code');
+        return null;
+      }
+      setCode('');
+      return data;
+    } catch {
+      toast.error('Error verifying code');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmSetup = async () => {
+    const data = await submitCode('/api/auth/mfa/enable', 'POST');
+    if (data) {
+      toast.success('Two-factor authentication enabled');
+      setSetup(null);
+      setRecoveryCodes(data.recoveryCodes);
+    }
+  };
+
+  const regenerateCodes = async () => {
+    const data = await submitCode('/api/auth/mfa/recovery-codes', 'POST');
+    if (data) {
+      toast.success('New recovery codes generated');
+      setRecoveryCodes(data.recoveryCodes);
+    }
+  };
+
+  const disable = async () => {
+    const data = await submitCode('/api/auth/mfa', 'DELETE');
+    if (data) {
+      toast.success('Two-factor authentication turned off');
+      fetchStatus();
+    }
+  };
+
+  const acknowledgeCodes = () => {
+    const enrolling = !status?.enabled;
+    setRecoveryCodes(null);
+    fetchStatus();
+    if (enrolling) {
+      onEnrolled?.();
+    }
+  };
+
+  const copyCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast.success('Recovery codes copied');
+    } catch {
+      toast.error('Could not copy to clipboard');
+    }
+  };
+
+  if (loading && !status) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  const codeInput = (
+    <div className="space-y-2">
+      <Label htmlFor="mfa-code">Authentication Code</Label>
+      <Input
+        id="mfa-code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder="6-digit code"
+        autoComplete="one-time-code"
+        inputMode="numeric"
+        className="font-mono"
+      />
+    </div>
+  );
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <Alert>
+          <KeyRound className="h-4 w-4" />
+          <AlertDescription>
+            Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose
+            your authenticator. They will not be shown again.
+          </AlertDescription>
+        </Alert>
+        <div className="grid grid-cols-2 gap-2 rounded-md border p-4 font-mono text-sm">
+          {recoveryCodes.map(recoveryCode => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={copyCodes}>
+            <Copy className="w-4 h-4 mr-2" />
+            Copy
+          </Button>
+          <Button onClick={acknowledgeCodes}>I&apos;ve Saved These Codes</Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (setup) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Scan this QR code with an authenticator app, then enter the code it shows.
+        </p>
+        <div className="flex justify-center">
+          <Image src={setup.qrCode} alt="Authenticator QR code" width={240} height={240} unoptimized />
+        </div>
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Can&apos;t scan it? Enter this key instead:</p>
+          <p className="font-mono text-sm break-all select-all">{setup.secret}</p>
+        </div>
+        {codeInput}
+        <div className="flex gap-2">
+          <Button onClick={confirmSetup} disabled={busy || !code.trim()}>
+            {busy ? 'Verifying...' : 'Verify and Enable'}
+          </Button>
+          <Button variant="ghost" onClick={() => setSetup(null)} disabled={busy}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!status?.enabled) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Protect your account with a code from an authenticator app in addition to your password.
+          CAC sign-in does not ask for a code.
+        </p>
+        {status?.required && (
+          <Alert>
+            <ShieldCheck className="h-4 w-4" />
+            <AlertDescription>Two-factor authentication is required for your role.</AlertDescription>
+          </Alert>
+        )}
+        <Button onClick={startSetup} disabled={busy}>
+          <ShieldCheck className="w-4 h-4 mr-2" />
+          {busy ? 'Starting...' : 'Set Up Authenticator'}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">Enabled</Badge>
+        {status.enabledAt && (
+          <span className="text-muted-foreground">since {new Date(status.enabledAt).toLocaleDateString()}</span>
+        )}
+        <span className="text-muted-foreground">
+          • {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left
+        </span>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Enter a current code to generate new recovery codes{status.required ? '' : ' or turn off two-factor authentication'}.
+      </p>
+      {codeInput}
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={regenerateCodes} disabled={busy || !code.trim()}>
+          New Recovery Codes
+        </Button>
+        {!status.required && (
+          <Button variant="destructive" onClick={disable} disabled={busy || !code.trim()}>
+            Turn Off
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Bell } from 'lucide-react';
+import { passiveRequestInit } from '@/lib/session-policy';
+
+interface NotificationItem {
+  id: number;
+  type: string;
+  title: string;
+  message: string;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+export function NotificationsMenu() {
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications', passiveRequestInit);
+      if (response.ok) {
+        const data = await response.json();
+        setNotifications(data.notifications || []);
+        setUnreadCount(data.unreadCount || 0);
+      }
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchNotifications]);
+
+  const markRead = async (ids?: number[]) => {
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids }),
+      });
+      if (response.ok) {
+        fetchNotifications();
+      }
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-destructive text-[10px] leading-4 text-white">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => markRead()}>
+              Mark all read
+            </Button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <div className="px-2 py-6 text-center text-sm text-muted-foreground">No notifications</div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => {
+              const content = (
+                <div className={`flex flex-col gap-1 ${notification.readAt ? 'opacity-60' : ''}`}>
+                  <span className="text-sm font-medium">{notification.title}</span>
+                  <span className="text-xs text-muted-foreground">{notification.message}</span>
+                  <span className="text-[11px] text-muted-foreground">{new Date(notification.createdAt).toLocaleString()}</span>
+                </div>
+              );
+              return (
+                <DropdownMenuItem
+                  key={notification.id}
+                  asChild={!!notification.link}
+                  onSelect={() => !notification.readAt && markRead([notification.id])}
+                >
+                  {notification.link ? <Link href={notification.link}>{content}</Link> : content}
+                </DropdownMenuItem>
+              );
+            })}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,347 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Plus, UserRoundX } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  DELEGABLE_ROLE_LABELS,
+  DELEGATION_STATUS_LABELS,
+  getDelegationStatus,
+  isDelegableRole,
+  type DelegableRole,
+  type DelegationStatus,
+} from '@/lib/role-delegation';
+
+interface Delegation {
+  id: number;
+  role: string;
+  reason: string | null;
+  startsAt: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  delegateId: number;
+  delegateFirstName: string;
+  delegateLastName: string;
+  delegateEmail: string;
+  delegatorId: number;
+  delegatorFirstName: string;
+  delegatorLastName: string;
+  delegatorEmail: string;
+}
+
+interface Candidate {
+  id: number;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+interface RoleDelegationsProps {
+  // The user whose delegations are shown; admins may pass another user's
+  userId: number;
+  roles: string[];
+}
+
+const STATUS_BADGE_CLASSES: Record<DelegationStatus, string> = {
+  scheduled: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  active: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  expired: 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200',
+  revoked: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+// datetime-local inputs take local time without a zone
+function toLocalInputValue(date: Date): string {
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+const emptyForm = () => ({
+  role: '',
+  delegateId: '',
+  startsAt: toLocalInputValue(new Date()),
+  expiresAt: '',
+  reason: '',
+});
+
+export function RoleDelegations({ userId, roles }: RoleDelegationsProps) {
+  const [delegations, setDelegations] = useState<Delegation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+
+  const fetchDelegations = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/delegations?userId=${userId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setDelegations(data.delegations);
+      } else {
+        toast.error('Failed to fetch delegations');
+      }
+    } catch (error) {
+      console.error('Error fetching delegations:', error);
+      toast.error('Error fetching delegations');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchDelegations();
+  }, [fetchDelegations]);
+
+  useEffect(() => {
+    if (!form.role) {
+      setCandidates([]);
+      return;
+    }
+    fetch(`/api/delegations/candidates?role=${form.role}&delegatorId=${userId}`)
+      .then(response => (response.ok ? response.json() : { candidates: [] }))
+      .then(data => setCandidates(data.candidates))
+      .catch(() => setCandidates([]));
+  }, [form.role, userId]);
+
+  // Roles held through someone else's delegation can't be passed on
+  const receivedRoles = new Set(
+    delegations
+      .filter(delegation => delegation.delegateId === userId && getDelegationStatus(delegation) === 'active')
+      .map(delegation => delegation.role)
+  );
+  const delegableRoles = [...new Set(roles)].filter(
+    (role): role is DelegableRole => isDelegableRole(role) && !receivedRoles.has(role)
+  );
+
+  const createDelegation = async () => {
+    if (!form.role || !form.delegateId || !form.startsAt || !form.expiresAt) {
+      toast.error('Role, user, start and end are required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch('/api/delegations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          role: form.role,
+          delegateId: parseInt(form.delegateId),
+          delegatorId: userId,
+          startsAt: new Date(form.startsAt).toISOString(),
+          expiresAt: new Date(form.expiresAt).toISOString(),
+          reason: form.reason || undefined,
+        }),
+      });
+
+      if (response.ok) {
+        toast.success('Role delegated');
+        setForm(emptyForm());
+        setShowForm(false);
+        fetchDelegations();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to delegate role');
+      }
+    } catch {
+      toast.error('Error delegating role');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const revokeDelegation = async (id: number) => {
+    try {
+      const response = await fetch(`/api/delegations/${id}`, { method: 'DELETE' });
+      if (response.ok) {
+        toast.success('Delegation revoked');
+        fetchDelegations();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || 'Failed to revoke delegation');
+      }
+    } catch {
+      toast.error('Error revoking delegation');
+    }
+  };
+
+  const roleLabel = (role: string) => (isDelegableRole(role) ? DELEGABLE_ROLE_LABELS[role] : role);
+
+  return (
+    <div className="space-y-4">
+      {showForm ? (
+        <div className="space-y-4 rounded-md border p-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={form.role} onValueChange={(value) => setForm(prev => ({ ...prev, role: value, delegateId: '' }))}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {delegableRoles.map(role => (
+                    <SelectItem key={role} value={role}>{DELEGABLE_ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Acting User</Label>
+              <Select
+                value={form.delegateId}
+                onValueChange={(value) => setForm(prev => ({ ...prev, delegateId: value }))}
+                disabled={!form.role}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={form.role ? 'Select a user' : 'Select a role first'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map(candidate => (
+                    <SelectItem key={candidate.id} value={candidate.id.toString()}>
+                      {candidate.firstName} {candidate.lastName} ({candidate.email})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="delegationStartsAt">Starts</Label>
+              <Input
+                id="delegationStartsAt"
+                type="datetime-local"
+                value={form.startsAt}
+                onChange={(e) => setForm(prev => ({ ...prev, startsAt: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="delegationExpiresAt">Ends</Label>
+              <Input
+                id="delegationExpiresAt"
+                type="datetime-local"
+                value={form.expiresAt}
+                onChange={(e) => setForm(prev => ({ ...prev, expiresAt: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="delegationReason">Reason (Optional)</Label>
+            <Textarea
+              id="delegationReason"
+              value={form.reason}
+              onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value }))}
+              placeholder="e.g., Annual leave"
+              rows={2}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={createDelegation} disabled={saving}>
+              {saving ? 'Delegating...' : 'Delegate Role'}
+            </Button>
+            <Button variant="ghost" onClick={() => { setShowForm(false); setForm(emptyForm()); }} disabled={saving}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : delegableRoles.length > 0 ? (
+        <Button variant="outline" onClick={() => setShowForm(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Delegate a Role
+        </Button>
+      ) : (
+        <p className="text-sm text-muted-foreground">No approval or transfer roles that can be delegated.</p>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : delegations.length > 0 && (
+        <div className="border rounded-md max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Role</TableHead>
+                <TableHead>On Behalf Of</TableHead>
+                <TableHead>Acting User</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {delegations.map(delegation => {
+                const status = getDelegationStatus(delegation);
+                return (
+                  <TableRow key={delegation.id}>
+                    <TableCell className="text-sm" title={delegation.reason ?? undefined}>{roleLabel(delegation.role)}</TableCell>
+                    <TableCell className="text-sm">{delegation.delegatorFirstName} {delegation.delegatorLastName}</TableCell>
+                    <TableCell className="text-sm">{delegation.delegateFirstName} {delegation.delegateLastName}</TableCell>
+                    <TableCell className="text-xs whitespace-nowrap">
+                      {delegation.startsAt && new Date(delegation.startsAt).toLocaleString()}
+                      {' – '}
+                      {delegation.expiresAt && new Date(delegation.expiresAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_BADGE_CLASSES[status]}>{DELEGATION_STATUS_LABELS[status]}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {(status === 'active' || status === 'scheduled') && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="sm" title="Revoke Delegation">
+                              <UserRoundX className="w-4 h-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Revoke Delegation?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                {delegation.delegateFirstName} {delegation.delegateLastName} will stop acting as {roleLabel(delegation.role)} on
+                                behalf of {delegation.delegatorFirstName} {delegation.delegatorLastName} immediately.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => revokeDelegation(delegation.id)}>
+                                Revoke
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -20,6 +20,8 @@ import {
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { useRouter } from 'next/navigation';
+import { ManifestVerificationReport } from '@/components/manifest-verification';
+import { compareManifests, parseManifest, type ManifestComparison, type ManifestEntry } from '@/lib/file-manifest';
 
 interface RequestData {
   id: number;
@@ -64,12 +66,16 @@ export default function SectionIVComponent({ requestId, requestData, onRefresh,
   const [transferDate, setTransferDate] = useState('');
   const [transferNotes, setTransferNotes] = useState('');
   const [tpiMaintained, setTpiMaintained] = useState(false);
+  const [destinationManifest, setDestinationManifest] = useState<ManifestEntry[] | null>(null);
+  const [destinationManifestErrors, setDestinationManifestErrors] = useState<string[]>([]);
 
   // Parse existing transfer data to check completion status
   const [transferState, setTransferState] = useState<{
     antivirusScanCompleted: boolean;
     transferCompleted: boolean;
-  }>({ antivirusScanCompleted: false, transferCompleted: false });
+    fileManifest: ManifestEntry[];
+    manifestVerification: ManifestComparison | null;
+  }>({ antivirusScanCompleted: false, transferCompleted: false, fileManifest: [], manifestVerification: null });
 
   useEffect(() => {
     // Parse transfer data to determine current state
@@ -79,6 +85,8 @@ export default function SectionIVComponent({ requestId, requestData, onRefresh,
         setTransferState({
           antivirusScanCompleted: !!transferData.antivirusScan,
           transferCompleted: !!transferData.transferCompletion,
+          fileManifest: Array.isArray(transferData.fileManifest) ? transferData.fileManifest : [],
+          manifestVerification: transferData.manifestVerification ?? null,
         });
         
         // Pre-populate DTA name if user info available
@@ -142,6 +150,21 @@ export default function SectionIVComponent({ requestId, requestData, onRefresh,
     }
   };
 
+  // Preview the comparison before the transfer is completed; the server repeats it when it records the result
+  const destinationPreview = destinationManifest ? compareManifests(transferState.fileManifest, destinationManifest) : null;
+
+  const importDestinationManifest = async (file: File | null) => {
+    if (!file) return;
+    const parsed = parseManifest(await file.text());
+    if (!parsed.ok) {
+      setDestinationManifest(null);
+      setDestinationManifestErrors(parsed.errors);
+      return;
+    }
+    setDestinationManifestErrors([]);
+    setDestinationManifest(parsed.entries);
+  };
+
   const handleTransferComplete = async () => {
     if (!filesTransferred.trim() || !dtaName.trim() || 
         !dtaSignature.trim() || !transferDate.trim() || !tpiMaintained) {
@@ -161,11 +184,16 @@ export default function SectionIVComponent({ requestId, requestData, onRefresh,
           transferDate: transferDate,
           transferNotes: transferNotes.trim(),
           tpiMaintained,
-          completedDate: new Date().toISOString()
+          completedDate: new Date().toISOString(),
+          destinationManifest: destinationManifest ?? undefined,
         })
       });
 
       if (response.ok) {
+        const result = await response.json();
+        if (result.manifestVerification && !result.manifestVerification.verified) {
+          toast.warning('Destination hashes do not match the file manifest - see the verification report on the request');
+        }
         toast.success('Transfer completed successfully, awaiting SME signature');
         setShowTransferCompleteDialog(false);
         // Redirect to transfer history page
@@ -284,6 +312,10 @@ export default function SectionIVComponent({ requestId, requestData, onRefresh,
         </Card>
       </div>
 
+      {transferState.manifestVerification && (
+        <ManifestVerificationReport verification={transferState.manifestVerification} />
+      )}
+
       {/* Anti-Virus Scan Dialog */}
       <Dialog open={showAntiVirusScanDialog} onOpenChange={setShowAntiVirusScanDialog}>
         <DialogContent className="sm:max-w-3xl">
@@ -497,6 +529,40 @@ export default function SectionIVComponent({ requestId, requestData, onRefresh,
               />
             </div>
             
+            {transferState.fileManifest.length > 0 && (
+              <div>
+                <Label htmlFor="destination-manifest">Destination Hash List</Label>
+                <Input
+                  id="destination-manifest"
+                  type="file"
+                  accept=".csv,.txt,.sha256"
+                  onChange={(e) => {
+                    importDestinationManifest(e.target.files?.[0] ?? null);
+                    e.target.value = '';
+                  }}
+                  className="mt-1"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  sha256sum output or a CSV with path, size and sha256 taken on the destination, checked against the {transferState.fileManifest.length} file(s) in the request manifest
+                </p>
+                {destinationManifestErrors.length > 0 && (
+                  <div className="mt-2 p-3 border border-red-200 bg-red-50 dark:bg-red-950 dark:border-red-900 rounded-md text-sm text-red-800 dark:text-red-200">
+                    {destinationManifestErrors.slice(0, 5).map((error, index) => (
+                      <p key={index}>{error}</p>
+                    ))}
+                  </div>
+                )}
+                {destinationPreview && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    <Badge variant="outline">{destinationPreview.matched} matched</Badge>
+                    {destinationPreview.mismatched > 0 && <Badge variant="destructive">{destinationPreview.mismatched} mismatched</Badge>}
+                    {destinationPreview.missing > 0 && <Badge variant="destructive">{destinationPreview.missing} missing</Badge>}
+                    {destinationPreview.unexpected > 0 && <Badge variant="secondary">{destinationPreview.unexpected} not in manifest</Badge>}
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 dark:bg-amber-900/20 dark:border-amber-800">
               <div className="flex items-center space-x-2">
                 <Checkbox
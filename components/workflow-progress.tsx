@@ -16,6 +16,10 @@ import {
   User
 } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
+import { WORKFLOW_STAGES, TERMINAL_STATUSES, getStageIndex, type WorkflowStage } from '@/lib/workflow';
+import { readApprovalState, getApprovalProgress, countStepApprovals } from '@/lib/approval-policy';
+import { formatSignerName, type OnBehalfOf } from '@/lib/role-delegation';
+import type { AFTStatusType } from '@/lib/db/schema';
 
 export interface WorkflowStep {
   id: string;
@@ -30,6 +34,7 @@ export interface WorkflowStep {
 
 interface WorkflowProgressProps {
   currentStatus: string;
+  transferType?: string;
   approvalData?: string;
   transferData?: string;
   requestorName?: string;
@@ -44,6 +49,7 @@ interface WorkflowProgressProps {
 
 export function WorkflowProgress({
   currentStatus,
+  transferType,
   approvalData,
   transferData,
   requestorName,
@@ -57,10 +63,11 @@ export function WorkflowProgress({
 }: WorkflowProgressProps) {
 
   // Parse approval data to get individual approver signatures
-  let approvals: Record<string, { signature?: string; date?: string }> = {};
+  let approvals: Record<string, { name?: string; signature?: string; date?: string; onBehalfOf?: OnBehalfOf }> = {};
   try {
     if (approvalData) {
-      approvals = JSON.parse(approvalData);
+      const parsed = JSON.parse(approvalData);
+      approvals = parsed.signatures || parsed;
     }
   } catch (error) {
     console.warn('Failed to parse approval data:', error);
@@ -76,119 +83,100 @@ export function WorkflowProgress({
     console.warn('Failed to parse transfer data:', error);
   }
 
-  const getStepStatus = (stepId: string): WorkflowStep['status'] => {
-    const statusOrder = [
-      'draft', 'submitted', 'pending_dao', 'pending_approver', 'pending_cpso', 
-      'approved', 'pending_dta', 'pending_sme', 'pending_media_custodian', 
-      'completed', 'disposed'
-    ];
+  // Approval steps come from the policy snapshot taken at submission
+  const approvalState = readApprovalState(approvalData, transferType);
+  const approvalProgress = getApprovalProgress(approvalState);
 
-    const currentIndex = statusOrder.indexOf(currentStatus);
-    const stepIndex = statusOrder.indexOf(stepId);
+  const currentIndex = getStageIndex(currentStatus);
+  const lastApprovalIndex = WORKFLOW_STAGES.map(stage => !!stage.approvalRole).lastIndexOf(true);
+  const inApprovalPhase = currentStatus === 'rejected' ||
+    (currentStatus !== 'draft' && currentIndex >= 0 && currentIndex <= lastApprovalIndex);
 
-    if (currentStatus === 'rejected') {
+  const getApprovalStageStatus = (role: NonNullable<WorkflowStage['approvalRole']>): WorkflowStep['status'] => {
+    const roleSteps = approvalState.steps.filter(step => step.role === role);
+    if (roleSteps.length === 0) return 'skipped';
+    if (roleSteps.every(step => countStepApprovals(approvalState, step.id) >= step.quorum)) return 'completed';
+    if (approvalProgress.awaitingRoles.includes(role)) {
       // If rejected, show which step it was rejected at
-      if (stepId === 'submitted') return 'completed';
-      if (stepId === 'pending_dao' && currentIndex >= 2) return 'rejected';
-      if (stepId === 'pending_approver' && currentIndex >= 3) return 'rejected';
-      if (stepId === 'pending_cpso' && currentIndex >= 4) return 'rejected';
-      return 'pending';
+      return currentStatus === 'rejected' ? 'rejected' : 'in_progress';
+    }
+    return 'pending';
+  };
+
+  const getStepStatus = (stage: WorkflowStage, stageIndex: number): WorkflowStep['status'] => {
+    if (stage.approvalRole && inApprovalPhase) return getApprovalStageStatus(stage.approvalRole);
+    if (stage.approvalRole && getApprovalStageStatus(stage.approvalRole) === 'skipped') return 'skipped';
+
+    if (currentStatus === 'rejected') {
+      return stage.id === 'submitted' ? 'completed' : 'pending';
     }
 
-    if (stepIndex < currentIndex) return 'completed';
-    if (stepIndex === currentIndex) return 'in_progress';
+    if (TERMINAL_STATUSES.includes(currentStatus as AFTStatusType) && stageIndex === currentIndex) return 'completed';
+    if (stageIndex < currentIndex) return 'completed';
+    if (stageIndex === currentIndex) return 'in_progress';
     return 'pending';
   };
 
-  const steps: WorkflowStep[] = [
-    {
-      id: 'submitted',
-      title: 'Request Submitted',
-      description: 'AFT request created and submitted for review',
+  // Display details for each workflow stage
+  const stageDetails: Record<string, Pick<WorkflowStep, 'icon' | 'assignee' | 'completedAt' | 'notes'>> = {
+    submitted: {
       icon: FileText,
-      status: getStepStatus('submitted'),
       assignee: requestorName,
       completedAt: createdAt,
     },
-    {
-      id: 'pending_dao',
-      title: 'DAO Review',
-      description: 'Designated Authorizing Official review',
+    pending_dao: {
       icon: UserCheck,
-      status: getStepStatus('pending_dao'),
-      assignee: approvals.dao?.signature || 'Pending assignment',
+      assignee: (approvals.dao && formatSignerName(approvals.dao)) || approvals.dao?.signature || 'Pending assignment',
       completedAt: approvals.dao?.date,
       notes: approvals.dao ? 'Approved by DAO' : undefined,
     },
-    {
-      id: 'pending_approver',
-      title: 'ISSM/ISSO Review',
-      description: 'Information System Security Manager review',
+    pending_approver: {
       icon: Shield,
-      status: getStepStatus('pending_approver'),
-      assignee: approvals.issm?.signature || approvals.approver?.signature || 'Pending assignment',
+      assignee: approvals.issm?.name || (approvals.approver && formatSignerName(approvals.approver)) || approvals.issm?.signature || approvals.approver?.signature || 'Pending assignment',
       completedAt: approvals.issm?.date || approvals.approver?.date,
       notes: approvals.issm || approvals.approver ? 'Security review completed' : undefined,
     },
-    {
-      id: 'pending_cpso',
-      title: 'CPSO Review',
-      description: 'Cyber Physical Security Officer review',
+    pending_cpso: {
       icon: Users,
-      status: getStepStatus('pending_cpso'),
-      assignee: approvals.cpso?.signature || 'Pending assignment',
-      completedAt: approvals.cpso?.date,
+      assignee: (approvals.cpso && formatSignerName(approvals.cpso)) || approvals.cpso?.signature || 'Pending assignment',
+      completedAt: approvals.cpso?.date || approvalDate,
       notes: approvals.cpso ? 'Final approval granted' : undefined,
     },
-    {
-      id: 'approved',
-      title: 'All Approvals Complete',
-      description: 'Request approved and ready for transfer',
-      icon: CheckCircle,
-      status: getStepStatus('approved'),
-      completedAt: approvalDate,
-      notes: 'Ready for DTA processing',
-    },
-    {
-      id: 'pending_dta',
-      title: 'DTA Processing',
-      description: 'Data Transfer Agent conducting virus scan and transfer',
+    pending_dta: {
       icon: Server,
-      status: getStepStatus('pending_dta'),
       assignee: dtaName || 'Awaiting DTA assignment',
       completedAt: transferInfo.dtaCompletedAt as string,
       notes: transferInfo.virusScanResults ? 'Virus scan completed' : undefined,
     },
-    {
-      id: 'pending_sme',
-      title: 'SME Signature',
-      description: 'Subject Matter Expert verification and sign-off',
+    pending_sme: {
       icon: User,
-      status: getStepStatus('pending_sme'),
       assignee: smeName || 'Awaiting SME assignment',
       completedAt: transferInfo.smeSignedAt as string,
       notes: transferInfo.smeNotes as string,
     },
-    {
-      id: 'pending_media_custodian',
-      title: 'Media Disposition',
-      description: 'Media custodian handles final disposition',
+    pending_media_custodian: {
       icon: Trash2,
-      status: getStepStatus('pending_media_custodian'),
       assignee: mediaCustodianName || 'Awaiting custodian assignment',
       completedAt: transferInfo.disposedAt as string,
       notes: transferInfo.dispositionMethod as string,
     },
-    {
-      id: 'completed',
-      title: 'Transfer Complete',
-      description: 'AFT process successfully completed',
+    completed: {
       icon: FileCheck,
-      status: getStepStatus('completed'),
       completedAt: actualEndDate,
       notes: 'Process completed successfully',
-    }
-  ];
+    },
+  };
+
+  const steps: WorkflowStep[] = WORKFLOW_STAGES.map((stage, index) => ({
+    id: stage.id,
+    title: stage.title,
+    description: stage.description,
+    icon: stageDetails[stage.id]?.icon || CheckCircle,
+    status: getStepStatus(stage, index),
+    assignee: stageDetails[stage.id]?.assignee,
+    completedAt: stageDetails[stage.id]?.completedAt,
+    notes: stageDetails[stage.id]?.notes,
+  }));
 
   const getStatusIcon = (status: WorkflowStep['status'], Icon: React.ComponentType<{ className?: string }>) => {
     switch (status) {
@@ -0,0 +1,28 @@
+// Server startup hooks (Next.js instrumentation)
+// Starts the overdue drive and role delegation check timers in each Node.js server process.
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { getOverdueDriveConfig, runOverdueDriveCheck } = await import('./lib/overdue-drives-server');
+  const { getDelegationConfig, runDelegationCheck } = await import('./lib/role-delegation-server');
+  const { appLogger } = await import('./lib/logger');
+
+  const schedule = (name: string, intervalMinutes: number, run: () => Promise<unknown>) => {
+    if (intervalMinutes === 0) return;
+
+    const check = async () => {
+      try {
+        await run();
+      } catch (error) {
+        appLogger.error(`${name} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    };
+
+    setInterval(check, intervalMinutes * 60 * 1000).unref();
+    check();
+  };
+
+  schedule('Overdue drive check', getOverdueDriveConfig().checkIntervalMinutes, () => runOverdueDriveCheck());
+  schedule('Role delegation check', getDelegationConfig().checkIntervalMinutes, () => runDelegationCheck());
+}
@@ -0,0 +1,165 @@
+// Request form writes: form fields are mapped onto aft_requests columns here, resolving
+// the catalog systems, so the client never sets the systems or the transfer type itself.
+
+import { db } from '@/lib/db/server';
+import { aftRequests, AFTStatus, type AFTRequest, type NewAFTRequest } from '@/lib/db/schema';
+import type { AuthUser } from './auth-server';
+import { resolveTransferSystems } from './information-systems-server';
+import type { CreateRequestInput } from './aft-request-form';
+
+// Form fields without a column of their own, kept in transferData
+const TRANSFER_DATA_FIELDS = [
+  'numberOfFiles',
+  'fileDescription',
+  'files',
+  'fileManifest',
+  'additionalFileListAttached',
+  'mediaControlNumber',
+  'mediaType',
+  'destinationFile',
+  'isNonHumanReadable',
+  'processName',
+  'mediaTransportedOutside',
+  'mediaDestination',
+  'destinationPOC',
+  'destinationAddress',
+  'mediaEncrypted',
+] as const;
+
+export type RequestUpdateResult =
+  | { ok: true; values: Partial<NewAFTRequest> }
+  | { ok: false; error: string; httpStatus: number };
+
+function parseTransferData(transferData: string | null): Record<string, unknown> {
+  if (!transferData) return {};
+  try {
+    return JSON.parse(transferData);
+  } catch {
+    return {};
+  }
+}
+
+// Column values for the fields given, merged over what the request already holds
+export async function buildRequestUpdate(
+  fields: Partial<CreateRequestInput>,
+  current: Pick<AFTRequest, 'sourceSystemId' | 'destSystemId' | 'destSystem' | 'transferData'>
+): Promise<RequestUpdateResult> {
+  if (Object.keys(fields).length === 0) return { ok: true, values: {} };
+
+  const saved = parseTransferData(current.transferData);
+  const transferData: Record<string, unknown> = { ...saved };
+  for (const field of TRANSFER_DATA_FIELDS) {
+    if (fields[field] !== undefined) transferData[field] = fields[field];
+  }
+
+  const values: Partial<NewAFTRequest> = {};
+  let destinationName = current.destSystem;
+
+  if (fields.sourceISId !== undefined || fields.destinationISIds !== undefined) {
+    const savedDestinations = Array.isArray(saved.destinationISList)
+      ? (saved.destinationISList as { id: number }[]).map(destination => destination.id)
+      : current.destSystemId ? [current.destSystemId] : [];
+    const sourceId = fields.sourceISId ?? current.sourceSystemId;
+    if (!sourceId) {
+      return { ok: false, error: 'Source IS is required', httpStatus: 400 };
+    }
+
+    const systems = await resolveTransferSystems(sourceId, fields.destinationISIds ?? savedDestinations);
+    if (!systems.ok) {
+      return { ok: false, error: systems.error, httpStatus: 400 };
+    }
+    const { source, destinations } = systems;
+
+    Object.assign(values, {
+      sourceSystemId: source.id,
+      sourceSystem: source.name,
+      sourceLocation: source.name,
+      destSystemId: destinations[0].id,
+      destSystem: destinations[0].name,
+      transferType: systems.transferType,
+    });
+    Object.assign(transferData, {
+      sourceISClassification: source.classification,
+      destinationISClassification: destinations[0].classification,
+      destinationISList: destinations.map(destination => ({
+        id: destination.id,
+        name: destination.name,
+        classification: destination.classification,
+      })),
+    });
+    destinationName = destinations[0].name;
+  }
+
+  if (fields.selectedDriveId !== undefined) values.selectedDriveId = fields.selectedDriveId;
+  if (fields.justificationForTransfer !== undefined) values.transferPurpose = fields.justificationForTransfer;
+  if (fields.overallClassification !== undefined) values.classification = fields.overallClassification;
+  if (fields.mediaDisposition !== undefined) values.caveatInfo = fields.mediaDisposition || null;
+  if (fields.mediaType !== undefined) values.dataFormat = fields.mediaType;
+  if (fields.mediaEncrypted !== undefined) values.encryption = fields.mediaEncrypted ? 'encrypted' : 'none';
+
+  if (fields.numberOfFiles !== undefined || fields.files !== undefined) {
+    const numberOfFiles = transferData.numberOfFiles as number | undefined;
+    const files = (transferData.files as { name: string }[] | undefined) ?? [];
+    values.dataSize = `${numberOfFiles ?? 0} files`;
+    values.dataDescription = files.length > 0
+      ? `${numberOfFiles} files: ${files.map(f => f.name).join(', ')}`
+      : `${numberOfFiles} files listed in the file manifest`;
+  }
+
+  if (
+    fields.mediaTransportedOutside !== undefined ||
+    fields.destinationAddress !== undefined ||
+    fields.destinationPOC !== undefined ||
+    values.destSystem !== undefined
+  ) {
+    const transportedOutside = !!transferData.mediaTransportedOutside;
+    values.transferMethod = transportedOutside ? 'physical-transport' : 'direct-transfer';
+    values.destLocation = transportedOutside ? (transferData.destinationAddress as string | undefined) ?? null : destinationName;
+    values.destContact = transportedOutside ? (transferData.destinationPOC as string | undefined) ?? null : null;
+  }
+
+  values.transferData = JSON.stringify(transferData);
+  return { ok: true, values };
+}
+
+// Generate a unique request number
+function generateRequestNumber(): string {
+  const date = new Date();
+  const year = date.getFullYear().toString().slice(-2);
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  const random = Math.random().toString(36).substr(2, 4).toUpperCase();
+  return `AFT${year}${month}${day}-${random}`;
+}
+
+// New requests always start as drafts - the requestor must explicitly submit them.
+// Required columns the form has not filled in yet are left blank.
+export async function insertDraftRequest(user: AuthUser, values: Partial<NewAFTRequest>): Promise<AFTRequest> {
+  const now = new Date();
+  const inserted = await db.insert(aftRequests).values({
+    requestNumber: generateRequestNumber(),
+    requestorId: user.id,
+    status: AFTStatus.DRAFT,
+
+    // Auto-populate requestor info from user session
+    requestorName: `${user.firstName} ${user.lastName}`,
+    requestorOrg: user.organization || 'Not specified',
+    requestorPhone: 'Not specified',
+    requestorEmail: user.email,
+
+    transferPurpose: '',
+    transferType: '',
+    classification: '',
+    dataDescription: '',
+    compressionRequired: false,
+
+    // Set dates (can be updated later)
+    requestedStartDate: now,
+    urgencyLevel: 'medium', // Default urgency
+
+    ...values,
+    createdAt: now,
+    updatedAt: now,
+  }).returning();
+  return inserted[0];
+}
@@ -0,0 +1,162 @@
+// AFT request form schema
+// Shared by the create route and the request wizard, which validates each step against it
+
+import { z } from 'zod';
+import { fileManifestSchema } from './file-manifest';
+import { buildRequestPrefill, type PrefillSourceRequest } from './request-templates';
+import { CLASSIFICATIONS } from './classifications';
+
+const fileDetailSchema = z.object({
+  name: z.string().min(1, 'File name is required'),
+  fileType: z.string().min(1, 'File type is required'),
+  classification: z.string().min(1, 'File classification is required'),
+});
+
+export const createRequestSchema = z.object({
+  // Drive issued to the requestor - checked against the drive's current issue at submission
+  selectedDriveId: z.number().int().positive().optional(),
+
+  // Section I: Media Control Number and Media Type
+  mediaControlNumber: z.string().min(1, 'Media control number is required'),
+  mediaType: z.enum(['CD-R', 'DVD-R', 'DVD-RDL', 'SSD', 'SSD-T'], {
+    message: 'Valid media type is required',
+  }),
+  
+  // Section II: Source/Destination Information
+  // Systems come from the information system catalog, which also sets their
+  // classifications and the transfer type
+  sourceISId: z.number({ message: 'Source IS is required' }).int().positive(),
+  destinationISIds: z.array(z.number().int().positive()).min(1, 'At least one destination IS is required'),
+  mediaDisposition: z.string().optional(),
+  overallClassification: z.enum(CLASSIFICATIONS, { message: 'Overall classification is required' }),
+  destinationFile: z.enum(['upload', 'download'], {
+    message: 'Destination file type must be upload or download',
+  }),
+  isNonHumanReadable: z.boolean().default(false),
+  processName: z.string().optional(),
+  justificationForTransfer: z.string().min(1, 'Justification for transfer is required'),
+  
+  // File Details
+  numberOfFiles: z.number().min(1, 'Must have at least one file'),
+  fileDescription: z.string().optional(),
+  // Either file details or a manifest with each file's path, size and SHA-256 - the create route checks for one
+  files: z.array(fileDetailSchema).default([]),
+  fileManifest: fileManifestSchema.optional(),
+  additionalFileListAttached: z.boolean().default(false),
+  
+  // Media Transportation
+  mediaTransportedOutside: z.boolean().default(false),
+  mediaDestination: z.string().optional(),
+  destinationPOC: z.string().optional(),
+  destinationAddress: z.string().optional(),
+  mediaEncrypted: z.boolean().default(false),
+  
+  // Section 4: Dual Signature Configuration (Optional) - Removed as not part of current workflow
+});
+
+export type CreateRequestInput = z.infer<typeof createRequestSchema>;
+
+// Edits to a saved request. Catalog-owned columns and the transfer type are not form
+// fields, so they are stripped here and derived from the chosen systems instead.
+const updateRequestSchema = createRequestSchema.partial();
+
+// Only the fields the client sent - the partial schema still fills in defaults for the rest
+export function parseRequestUpdate(body: Record<string, unknown>): Partial<CreateRequestInput> {
+  const parsed = updateRequestSchema.parse(body);
+  return Object.fromEntries(Object.entries(parsed).filter(([field]) => field in body));
+}
+
+// Wizard steps in order; the last, review and submit, has no fields of its own
+export const REQUEST_WIZARD_STEPS = [
+  { title: 'DTA Selection', description: 'Select your Data Transfer Agent' },
+  { title: 'Media Control', description: 'Media control number and type' },
+  { title: 'Source & Destination', description: 'Information systems and classification' },
+  { title: 'File Details', description: 'File count and description information' },
+  { title: 'Media Transportation', description: 'Transportation and encryption details' },
+  { title: 'Review & Submit', description: 'Final review and submission' },
+];
+
+const wizardStepSchemas = [
+  createRequestSchema.pick({ selectedDriveId: true }).required({ selectedDriveId: true }),
+  createRequestSchema.pick({ mediaControlNumber: true, mediaType: true }),
+  createRequestSchema.pick({
+    sourceISId: true,
+    destinationISIds: true,
+    mediaDisposition: true,
+    overallClassification: true,
+    destinationFile: true,
+    isNonHumanReadable: true,
+    processName: true,
+    justificationForTransfer: true,
+  }),
+  createRequestSchema.pick({ numberOfFiles: true, fileManifest: true, additionalFileListAttached: true }),
+  createRequestSchema.pick({
+    mediaTransportedOutside: true,
+    mediaDestination: true,
+    destinationPOC: true,
+    destinationAddress: true,
+    mediaEncrypted: true,
+  }),
+];
+
+// Messages for whatever is missing or invalid in one step's fields
+export function validateWizardStep(step: number, data: unknown): string[] {
+  const schema = wizardStepSchemas[step];
+  if (!schema) return [];
+
+  const result = schema.safeParse(data);
+  return result.success ? [] : result.error.issues.map(e => e.message);
+}
+
+// A draft holds whatever the wizard has so far; only the steps already left behind must be valid
+export const requestDraftSchema = z.object({
+  currentStep: z.number().int().min(0).max(REQUEST_WIZARD_STEPS.length - 1),
+  data: z.record(z.string(), z.unknown()),
+}).superRefine((draft, ctx) => {
+  for (let step = 0; step < draft.currentStep; step++) {
+    for (const message of validateWizardStep(step, draft.data)) {
+      ctx.addIssue({ code: 'custom', message: `Step ${step + 1}: ${message}`, path: ['data'] });
+    }
+  }
+});
+
+export type RequestDraftInput = z.infer<typeof requestDraftSchema>;
+
+// Fields of an autosaved draft to store: each one that is valid on its own. The step being
+// filled in may still be half done; the systems are only kept once both ends are chosen.
+export function pickDraftFields(data: Record<string, unknown>): Partial<CreateRequestInput> {
+  const fields: Record<string, unknown> = {};
+  for (const [field, schema] of Object.entries(createRequestSchema.shape)) {
+    if (data[field] === undefined) continue;
+    const result = schema.safeParse(data[field]);
+    if (result.success) fields[field] = result.data;
+  }
+  if (fields.sourceISId === undefined || fields.destinationISIds === undefined) {
+    delete fields.sourceISId;
+    delete fields.destinationISIds;
+  }
+  return fields;
+}
+
+// Wizard form data to resume a draft request with
+export function buildDraftFormData(request: PrefillSourceRequest & { selectedDriveId: number | null }): Record<string, unknown> {
+  let transferData: Record<string, unknown> = {};
+  try {
+    transferData = request.transferData ? JSON.parse(request.transferData) : {};
+  } catch {
+    transferData = {};
+  }
+
+  return {
+    ...buildRequestPrefill(request),
+    selectedDriveId: request.selectedDriveId ?? undefined,
+    dtaSelected: !!request.selectedDriveId,
+    mediaControlNumber: String(transferData.mediaControlNumber ?? ''),
+    mediaType: transferData.mediaType ?? '',
+    fileDescription: String(transferData.fileDescription ?? ''),
+    fileManifest: Array.isArray(transferData.fileManifest) ? transferData.fileManifest : undefined,
+  };
+}
+
+// Serialized form data accepted per autosave, with room for a full file manifest
+export const MAX_REQUEST_DRAFT_SIZE = 2 * 1024 * 1024;
@@ -0,0 +1,126 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createApprovalState,
+  getApprovalProgress,
+  hasApprovedStep,
+  readApprovalState,
+  selectApprovalPolicy,
+  type ApprovalPolicyDefinition,
+  type ApprovalRecord,
+  type ApprovalState,
+  type ApprovalStep,
+} from './approval-policy';
+
+function approval(stepId: string, userId: number, onBehalfOfUserId?: number): ApprovalRecord {
+  return {
+    stepId,
+    role: 'approver',
+    userId,
+    name: `User ${userId}`,
+    email: `user${userId}@example.mil`,
+    date: '2026-01-01',
+    signature: `User ${userId}`,
+    signedAt: '2026-01-01T00:00:00.000Z',
+    ...(onBehalfOfUserId && { onBehalfOf: { userId: onBehalfOfUserId, name: `User ${onBehalfOfUserId}`, email: `user${onBehalfOfUserId}@example.mil` } }),
+  };
+}
+
+function state(steps: ApprovalStep[], approvals: ApprovalRecord[] = []): ApprovalState {
+  return { policyId: 1, policyName: 'Test policy', steps, approvals };
+}
+
+function policy(overrides: Partial<ApprovalPolicyDefinition>): ApprovalPolicyDefinition {
+  return {
+    id: 1,
+    name: 'Policy',
+    transferType: null,
+    classification: null,
+    mediaType: null,
+    priority: 0,
+    isActive: true,
+    steps: JSON.stringify([{ id: 'approver', name: 'ISSM Review', role: 'approver', order: 1, quorum: 1 }]),
+    ...overrides,
+  };
+}
+
+const PARALLEL_STEPS: ApprovalStep[] = [
+  { id: 'dao', name: 'DAO Review', role: 'dao', order: 1, quorum: 1 },
+  { id: 'issm', name: 'ISSM Review', role: 'approver', order: 1, quorum: 2 },
+  { id: 'cpso', name: 'CPSO Review', role: 'cpso', order: 2, quorum: 1 },
+];
+
+describe('getApprovalProgress', () => {
+  test('waits on every step in the lowest incomplete order at once', () => {
+    const progress = getApprovalProgress(state(PARALLEL_STEPS));
+    assert.deepEqual(progress.activeSteps.map(step => step.id), ['dao', 'issm']);
+    assert.deepEqual(progress.awaitingRoles, ['dao', 'approver']);
+    assert.equal(progress.status, 'pending_dao');
+  });
+
+  test('holds later steps until the quorum of an earlier one is met', () => {
+    const progress = getApprovalProgress(state(PARALLEL_STEPS, [approval('dao', 1), approval('issm', 2)]));
+    assert.deepEqual(progress.activeSteps.map(step => step.id), ['issm']);
+    assert.equal(progress.status, 'pending_approver');
+  });
+
+  test('moves on once every parallel step reaches its quorum', () => {
+    const progress = getApprovalProgress(state(PARALLEL_STEPS, [approval('dao', 1), approval('issm', 2), approval('issm', 3)]));
+    assert.deepEqual(progress.activeSteps.map(step => step.id), ['cpso']);
+    assert.equal(progress.status, 'pending_cpso');
+  });
+
+  test('counts a delegate and their delegator as one approver toward the quorum', () => {
+    const progress = getApprovalProgress(state(PARALLEL_STEPS, [approval('dao', 1), approval('issm', 2), approval('issm', 3, 2)]));
+    assert.deepEqual(progress.activeSteps.map(step => step.id), ['issm']);
+  });
+
+  test('is complete and pending the DTA when every step is approved', () => {
+    const progress = getApprovalProgress(state(PARALLEL_STEPS, [
+      approval('dao', 1), approval('issm', 2), approval('issm', 3), approval('cpso', 4),
+    ]));
+    assert.deepEqual(progress, { complete: true, activeSteps: [], awaitingRoles: [], status: 'pending_dta' });
+  });
+});
+
+describe('hasApprovedStep', () => {
+  test('matches the signer and the user they acted for', () => {
+    const approved = state(PARALLEL_STEPS, [approval('issm', 3, 2)]);
+    assert.equal(hasApprovedStep(approved, 'issm', 3), true);
+    assert.equal(hasApprovedStep(approved, 'issm', 5, 2), true);
+    assert.equal(hasApprovedStep(approved, 'issm', 5), false);
+    assert.equal(hasApprovedStep(approved, 'dao', 3), false);
+  });
+});
+
+describe('selectApprovalPolicy', () => {
+  test('prefers priority, then the most specific match', () => {
+    const general = policy({ id: 1, name: 'General' });
+    const specific = policy({ id: 2, name: 'High to low', transferType: 'high-to-low' });
+    const urgent = policy({ id: 3, name: 'Urgent', priority: 10 });
+
+    assert.equal(selectApprovalPolicy([general, specific], { transferType: 'high-to-low' })?.name, 'High to low');
+    assert.equal(selectApprovalPolicy([general, specific, urgent], { transferType: 'high-to-low' })?.name, 'Urgent');
+  });
+
+  test('skips inactive and non-matching policies', () => {
+    const inactive = policy({ id: 1, isActive: false });
+    const secretOnly = policy({ id: 2, classification: 'SECRET' });
+    assert.equal(selectApprovalPolicy([inactive, secretOnly], { classification: 'cui' }), null);
+    assert.equal(selectApprovalPolicy([inactive, secretOnly], { classification: 'secret' })?.id, 2);
+  });
+});
+
+describe('approval state', () => {
+  test('falls back to the default chain, with the DAO only for high-to-low transfers', () => {
+    assert.deepEqual(createApprovalState(null, 'low-to-high').steps.map(step => step.id), ['approver', 'cpso']);
+    assert.deepEqual(createApprovalState(null, 'high-to-low').steps.map(step => step.id), ['dao', 'approver', 'cpso']);
+  });
+
+  test('reads legacy per-role signatures into default chain approvals', () => {
+    const legacy = JSON.stringify({ signatures: { issm: { userId: 7, name: 'Jane Smith', email: 'issm@example.mil', date: '2026-01-01', signature: 'JS', signedAt: '' } } });
+    const read = readApprovalState(legacy, 'low-to-high');
+    assert.deepEqual(read.approvals.map(entry => [entry.stepId, entry.userId]), [['approver', 7]]);
+    assert.equal(getApprovalProgress(read).status, 'pending_cpso');
+  });
+});
@@ -0,0 +1,208 @@
+// Approval policies
+// A policy lists the approver steps a request needs before it reaches the DTA.
+// Steps sharing the same `order` run in parallel, and a step is complete once
+// `quorum` different users holding its role have approved it. The matching
+// policy is copied into approvalData at submission, so editing a policy never
+// changes the rules for requests already in review.
+
+import { z } from 'zod';
+import { AFTStatus, type AFTStatusType } from './db/schema';
+import type { OnBehalfOf } from './role-delegation';
+
+export const TRANSFER_TYPES = ['low-to-low', 'low-to-high', 'high-to-low', 'high-to-high'] as const;
+export const MEDIA_TYPES = ['CD-R', 'DVD-R', 'DVD-RDL', 'SSD', 'SSD-T'] as const;
+
+// Roles that can be assigned to an approval step
+export const APPROVAL_STEP_ROLES = ['dao', 'approver', 'cpso', 'sme'] as const;
+export type ApprovalStepRole = typeof APPROVAL_STEP_ROLES[number];
+
+// Status a request shows while a step for the role is awaiting approval
+const STEP_STATUS: Record<ApprovalStepRole, AFTStatusType> = {
+  dao: AFTStatus.PENDING_DAO,
+  approver: AFTStatus.PENDING_APPROVER,
+  cpso: AFTStatus.PENDING_CPSO,
+  sme: AFTStatus.SUBMITTED, // SME pre-review happens before the formal approval chain
+};
+
+export const approvalStepSchema = z.object({
+  id: z.string().min(1, 'Step ID is required').regex(/^[a-z0-9_-]+$/, 'Step ID may only contain lowercase letters, numbers, - and _'),
+  name: z.string().min(1, 'Step name is required'),
+  role: z.enum(APPROVAL_STEP_ROLES, { message: 'Valid approver role is required' }),
+  order: z.number().int().min(1, 'Step order starts at 1'),
+  quorum: z.number().int().min(1, 'Quorum must be at least 1').max(10, 'Quorum cannot exceed 10').default(1),
+});
+
+export const approvalPolicySchema = z.object({
+  name: z.string().min(1, 'Policy name is required'),
+  description: z.string().optional().nullable(),
+  // Null matches any value
+  transferType: z.enum(TRANSFER_TYPES).nullable().default(null),
+  classification: z.string().min(1).nullable().default(null),
+  mediaType: z.enum(MEDIA_TYPES).nullable().default(null),
+  priority: z.number().int().default(0),
+  isActive: z.boolean().default(true),
+  steps: z.array(approvalStepSchema).min(1, 'A policy needs at least one approval step')
+    .refine(steps => new Set(steps.map(step => step.id)).size === steps.length, {
+      message: 'Step IDs must be unique',
+    }),
+});
+
+export type ApprovalStep = z.infer<typeof approvalStepSchema>;
+export type ApprovalPolicyInput = z.infer<typeof approvalPolicySchema>;
+
+// Fields of a stored policy used for matching and snapshotting
+export interface ApprovalPolicyDefinition {
+  id: number;
+  name: string;
+  transferType: string | null;
+  classification: string | null;
+  mediaType: string | null;
+  priority: number;
+  isActive: boolean;
+  steps: string; // JSON array of ApprovalStep
+}
+
+export interface ApprovalRecord {
+  stepId: string;
+  role: string; // Role the user approved under - 'admin' for an administrative override
+  userId: number;
+  name: string;
+  email: string;
+  date: string;
+  signature: string;
+  signedAt: string;
+  onBehalfOf?: OnBehalfOf; // Set when the role was held through a delegation
+}
+
+// Approval policy state stored in aftRequests.approvalData
+export interface ApprovalState {
+  policyId: number | null;
+  policyName: string;
+  steps: ApprovalStep[];
+  approvals: ApprovalRecord[];
+}
+
+export interface ApprovalProgress {
+  complete: boolean;
+  // Incomplete steps in the lowest order that still needs approvals
+  activeSteps: ApprovalStep[];
+  awaitingRoles: ApprovalStepRole[];
+  // Status the request should be in, pending_dta once every step is complete
+  status: AFTStatusType;
+}
+
+export const DEFAULT_POLICY_NAME = 'Default approval chain';
+
+// The built-in chain used when no policy matches: DAO (HIGH-to-LOW only) -> Approver -> CPSO
+export function getDefaultApprovalSteps(transferType?: string | null): ApprovalStep[] {
+  const steps: ApprovalStep[] = [
+    { id: 'approver', name: 'ISSM/ISSO Review', role: 'approver', order: 2, quorum: 1 },
+    { id: 'cpso', name: 'CPSO Review', role: 'cpso', order: 3, quorum: 1 },
+  ];
+  if (transferType === 'high-to-low') {
+    steps.unshift({ id: 'dao', name: 'DAO Review', role: 'dao', order: 1, quorum: 1 });
+  }
+  return steps;
+}
+
+export function parsePolicySteps(steps: string): ApprovalStep[] {
+  return z.array(approvalStepSchema).parse(JSON.parse(steps));
+}
+
+// Pick the policy for a request: highest priority first, then the most specific match
+export function selectApprovalPolicy<T extends ApprovalPolicyDefinition>(
+  policies: T[],
+  request: { transferType?: string | null; classification?: string | null; mediaType?: string | null }
+): T | null {
+  const matches = policies.filter(policy =>
+    policy.isActive &&
+    (!policy.transferType || policy.transferType === request.transferType) &&
+    (!policy.classification || policy.classification.toUpperCase() === request.classification?.toUpperCase()) &&
+    (!policy.mediaType || policy.mediaType === request.mediaType)
+  );
+
+  const specificity = (policy: T) =>
+    [policy.transferType, policy.classification, policy.mediaType].filter(Boolean).length;
+
+  matches.sort((a, b) => b.priority - a.priority || specificity(b) - specificity(a) || a.id - b.id);
+  return matches[0] || null;
+}
+
+// Build the approval state a request starts its review with
+export function createApprovalState(policy: ApprovalPolicyDefinition | null, transferType?: string | null): ApprovalState {
+  if (!policy) {
+    return { policyId: null, policyName: DEFAULT_POLICY_NAME, steps: getDefaultApprovalSteps(transferType), approvals: [] };
+  }
+  return { policyId: policy.id, policyName: policy.name, steps: parsePolicySteps(policy.steps), approvals: [] };
+}
+
+// Read the approval state from approvalData, falling back to the default chain
+// for requests submitted before approval policies existed
+export function readApprovalState(approvalData: string | null | undefined, transferType?: string | null): ApprovalState {
+  let parsed: Record<string, unknown> = {};
+  try {
+    if (approvalData && approvalData.trim() !== '') {
+      parsed = JSON.parse(approvalData);
+    }
+  } catch {
+    // Invalid JSON, treat as no approvals yet
+  }
+
+  if (Array.isArray(parsed.steps)) {
+    return {
+      policyId: typeof parsed.policyId === 'number' ? parsed.policyId : null,
+      policyName: typeof parsed.policyName === 'string' ? parsed.policyName : DEFAULT_POLICY_NAME,
+      steps: parsed.steps as ApprovalStep[],
+      approvals: Array.isArray(parsed.approvals) ? parsed.approvals as ApprovalRecord[] : [],
+    };
+  }
+
+  // Legacy approval data only has one signature per role
+  const signatures = (parsed.signatures || {}) as Record<string, Omit<ApprovalRecord, 'stepId' | 'role'>>;
+  const steps = getDefaultApprovalSteps(transferType);
+  const approvals = steps
+    .map(step => ({ step, signature: signatures[step.role] || (step.role === 'approver' ? signatures.issm : undefined) }))
+    .filter(({ signature }) => !!signature)
+    .map(({ step, signature }) => ({ ...signature!, stepId: step.id, role: step.role }));
+
+  return { policyId: null, policyName: DEFAULT_POLICY_NAME, steps, approvals };
+}
+
+// A delegate signs for their delegator, so the two count as one approver
+export function getApprovalPrincipalId(approval: ApprovalRecord): number {
+  return approval.onBehalfOf?.userId ?? approval.userId;
+}
+
+// Whether the user, or the user they act for under a delegation, has already signed the step
+export function hasApprovedStep(state: ApprovalState, stepId: string, userId: number, principalId: number = userId): boolean {
+  return state.approvals.some(approval =>
+    approval.stepId === stepId && (approval.userId === userId || getApprovalPrincipalId(approval) === principalId)
+  );
+}
+
+export function countStepApprovals(state: ApprovalState, stepId: string): number {
+  return new Set(state.approvals.filter(approval => approval.stepId === stepId).map(getApprovalPrincipalId)).size;
+}
+
+export function getApprovalProgress(state: ApprovalState): ApprovalProgress {
+  const incomplete = state.steps.filter(step => countStepApprovals(state, step.id) < step.quorum);
+
+  if (incomplete.length === 0) {
+    return { complete: true, activeSteps: [], awaitingRoles: [], status: AFTStatus.PENDING_DTA };
+  }
+
+  const currentOrder = Math.min(...incomplete.map(step => step.order));
+  const activeSteps = incomplete.filter(step => step.order === currentOrder);
+
+  return {
+    complete: false,
+    activeSteps,
+    awaitingRoles: Array.from(new Set(activeSteps.map(step => step.role))),
+    status: STEP_STATUS[activeSteps[0].role],
+  };
+}
+
+// Roles a request is waiting on, for queue filtering in the approval dashboards
+export function getAwaitingApprovalRoles(approvalData: string | null | undefined, transferType?: string | null): ApprovalStepRole[] {
+  return getApprovalProgress(readApprovalState(approvalData, transferType)).awaitingRoles;
+}
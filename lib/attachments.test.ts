@@ -0,0 +1,74 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { useTemporaryWorkingDirectory } from './test-helpers/database';
+
+type Attachments = typeof import('./attachments');
+
+const BOUNDARY = 'aft-test-boundary';
+
+let attachments: Attachments;
+let stagingDir: string;
+
+function formBody(fileContent: string, { complete = true } = {}): string {
+  const body = [
+    `--${BOUNDARY}`,
+    'Content-Disposition: form-data; name="requestId"',
+    '',
+    '42',
+    `--${BOUNDARY}`,
+    'Content-Disposition: form-data; name="file"; filename="../../evidence.txt"',
+    'Content-Type: text/plain',
+    '',
+    fileContent,
+  ].join('\r\n');
+  return complete ? `${body}\r\n--${BOUNDARY}--\r\n` : body;
+}
+
+function uploadRequest(body: string, contentType = `multipart/form-data; boundary=${BOUNDARY}`): NextRequest {
+  return new NextRequest('http://localhost/api/files/upload', {
+    method: 'POST',
+    headers: { 'content-type': contentType },
+    body,
+  });
+}
+
+before(async () => {
+  process.env.AFT_ATTACHMENT_DIR = path.join(useTemporaryWorkingDirectory(), 'attachments');
+  attachments = await import('./attachments');
+  stagingDir = path.join(attachments.getAttachmentStorageDir(), 'staging');
+});
+
+describe('parseMultipartUpload', () => {
+  test('stages the file with its checksum and reads the other fields', async () => {
+    const parsed = await attachments.parseMultipartUpload(uploadRequest(formBody('drive serial SN-1')));
+    assert.ok(parsed.ok);
+
+    const { fields, file } = parsed.upload;
+    assert.deepEqual(fields, { requestId: '42' });
+    assert.ok(file);
+    assert.equal(file.originalName, 'evidence.txt');
+    assert.equal(file.size, 17);
+    assert.equal(file.checksum, createHash('sha256').update('drive serial SN-1').digest('hex'));
+    assert.equal(readFileSync(file.tempPath, 'utf8'), 'drive serial SN-1');
+
+    await attachments.discardStagedUpload(file);
+  });
+
+  test('refuses a content type without a usable boundary', async () => {
+    assert.deepEqual(await attachments.parseMultipartUpload(uploadRequest(formBody('x'), 'multipart/form-data')), {
+      ok: false,
+      error: 'Malformed multipart/form-data upload',
+      httpStatus: 400,
+    });
+  });
+
+  test('removes the staged file when the form ends part way through it', async () => {
+    const parsed = await attachments.parseMultipartUpload(uploadRequest(formBody('cut off mid-file', { complete: false })));
+    assert.deepEqual(parsed, { ok: false, error: 'Malformed multipart/form-data upload', httpStatus: 400 });
+    assert.deepEqual(readdirSync(stagingDir), []);
+  });
+});
@@ -0,0 +1,246 @@
+import 'server-only';
+import Busboy from 'busboy';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { createReadStream, createWriteStream, mkdirSync } from 'fs';
+import { rename, unlink } from 'fs/promises';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import type { NextRequest } from 'next/server';
+import type { AuthUser } from '@/lib/auth-server';
+import type { AFTRequest } from '@/lib/db/schema';
+
+// Maximum size of a single attachment (matches the limit shown in the upload UI)
+export const MAX_ATTACHMENT_SIZE = 100 * 1024 * 1024;
+
+// Statuses in which the requestor may still add attachments to their request
+const EDITABLE_STATUSES = ['draft', 'rejected'];
+
+// Statuses each workflow role is allowed to see attachments for
+const ROLE_VISIBLE_STATUSES: Record<string, string[]> = {
+  dao: ['submitted', 'pending_dao', 'pending_approver', 'pending_cpso', 'approved', 'rejected'],
+  approver: ['submitted', 'pending_dao', 'pending_approver', 'pending_cpso', 'approved', 'rejected'],
+  cpso: ['submitted', 'pending_dao', 'pending_approver', 'pending_cpso', 'approved', 'rejected'],
+  dta: ['approved', 'pending_dta', 'active_transfer', 'pending_sme_signature', 'pending_sme', 'pending_media_custodian', 'completed', 'disposed'],
+  sme: ['pending_sme_signature', 'pending_sme', 'pending_media_custodian', 'completed', 'disposed'],
+  media_custodian: ['pending_media_custodian', 'completed', 'disposed'],
+};
+
+export interface StagedUpload {
+  tempPath: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  checksum: string;
+  truncated: boolean;
+}
+
+export interface ParsedUpload {
+  fields: Record<string, string>;
+  file: StagedUpload | null;
+}
+
+// Root directory for stored attachments, configurable via AFT_ATTACHMENT_DIR
+export function getAttachmentStorageDir(): string {
+  const storageDir = process.env.AFT_ATTACHMENT_DIR
+    ? path.resolve(process.env.AFT_ATTACHMENT_DIR)
+    : path.join(process.cwd(), 'data', 'attachments');
+
+  mkdirSync(storageDir, { recursive: true });
+  return storageDir;
+}
+
+// Resolve a stored (relative) attachment path, refusing anything outside the storage directory
+export function resolveAttachmentPath(relativePath: string): string {
+  const storageDir = getAttachmentStorageDir();
+  const resolved = path.resolve(storageDir, relativePath);
+
+  if (!resolved.startsWith(storageDir + path.sep)) {
+    throw new Error(`Attachment path escapes storage directory: ${relativePath}`);
+  }
+
+  return resolved;
+}
+
+// Compute the SHA-256 checksum of a file on disk without loading it into memory
+export async function computeFileChecksum(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+// Stream a single file part into the staging directory, hashing it on the way
+async function stageFile(
+  stream: Readable & { truncated?: boolean },
+  info: Busboy.FileInfo
+): Promise<StagedUpload> {
+  const stagingDir = path.join(getAttachmentStorageDir(), 'staging');
+  mkdirSync(stagingDir, { recursive: true });
+
+  const tempPath = path.join(stagingDir, randomUUID());
+  const hash = createHash('sha256');
+  let size = 0;
+
+  stream.on('data', (chunk: Buffer) => {
+    hash.update(chunk);
+    size += chunk.length;
+  });
+
+  try {
+    await pipeline(stream, createWriteStream(tempPath, { mode: 0o600 }));
+  } catch (error) {
+    await unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+
+  return {
+    tempPath,
+    originalName: path.basename(info.filename || 'unnamed'),
+    mimeType: info.mimeType || 'application/octet-stream',
+    size,
+    checksum: hash.digest('hex'),
+    truncated: stream.truncated === true,
+  };
+}
+
+type MultipartUploadResult = { ok: true; upload: ParsedUpload } | { ok: false; error: string; httpStatus: number };
+
+// Settle a finished parse, removing the staged file from any upload that is turned away
+async function finishMultipartUpload(
+  parsed: boolean,
+  fields: Record<string, string>,
+  staged: Promise<StagedUpload> | null
+): Promise<MultipartUploadResult> {
+  if (!parsed) {
+    await (staged ?? Promise.resolve(null)).then(discardStagedUpload, () => undefined);
+    return { ok: false, error: 'Malformed multipart/form-data upload', httpStatus: 400 };
+  }
+
+  // A failure writing the staged file is ours, not the client's, so it is thrown
+  const file = await (staged ?? Promise.resolve(null));
+
+  if (file?.truncated) {
+    await discardStagedUpload(file);
+    return {
+      ok: false,
+      error: `File exceeds the maximum size of ${MAX_ATTACHMENT_SIZE / (1024 * 1024)}MB`,
+      httpStatus: 413,
+    };
+  }
+
+  return { ok: true, upload: { fields, file } };
+}
+
+// Parse a multipart/form-data request, streaming the "file" part to disk. Uploads the
+// client got wrong come back as errors, with any staged file already removed
+export function parseMultipartUpload(request: NextRequest): Promise<MultipartUploadResult> {
+  return new Promise((resolve, reject) => {
+    if (!request.body) {
+      resolve({ ok: false, error: 'Request body is empty', httpStatus: 400 });
+      return;
+    }
+
+    let busboy: Busboy.Busboy;
+    try {
+      busboy = Busboy({
+        headers: { 'content-type': request.headers.get('content-type') || '' },
+        limits: { files: 1, fileSize: MAX_ATTACHMENT_SIZE },
+      });
+    } catch {
+      // Busboy throws on a missing or malformed boundary
+      resolve({ ok: false, error: 'Malformed multipart/form-data upload', httpStatus: 400 });
+      return;
+    }
+
+    const fields: Record<string, string> = {};
+    let staged: Promise<StagedUpload> | null = null;
+    let finished = false;
+
+    const finish = (parsed: boolean) => {
+      if (finished) return;
+      finished = true;
+      finishMultipartUpload(parsed, fields, staged).then(resolve, reject);
+    };
+
+    busboy.on('field', (name, value) => {
+      fields[name] = value;
+    });
+
+    busboy.on('file', (name, stream, info) => {
+      if (name !== 'file' || staged) {
+        stream.resume();
+        return;
+      }
+      staged = stageFile(stream, info);
+      // Surface staging failures once parsing has finished
+      staged.catch(() => undefined);
+    });
+
+    // Destroying busboy also destroys the file stream, so staging settles either way
+    busboy.on('error', () => finish(false));
+    busboy.on('close', () => finish(true));
+
+    const body = Readable.fromWeb(request.body as unknown as NodeReadableStream);
+    body.on('error', error => busboy.destroy(error));
+    body.pipe(busboy);
+  });
+}
+
+// Move a staged upload into its directory - the request ID for request attachments -
+// and return the stored relative path
+export async function commitStagedUpload(upload: StagedUpload, directory: number | string): Promise<{ fileName: string; filePath: string }> {
+  const extension = path.extname(upload.originalName).toLowerCase().replace(/[^a-z0-9.]/g, '');
+  const fileName = `${randomUUID()}${extension}`;
+  const filePath = path.join(String(directory), fileName);
+  const destination = resolveAttachmentPath(filePath);
+
+  mkdirSync(path.dirname(destination), { recursive: true });
+  await rename(upload.tempPath, destination);
+
+  return { fileName, filePath };
+}
+
+// Remove a staged upload that was rejected before being committed
+export async function discardStagedUpload(upload: StagedUpload | null): Promise<void> {
+  if (!upload) return;
+  try {
+    await unlink(upload.tempPath);
+  } catch {
+    // File may already be gone, ignore error
+  }
+}
+
+// Remove a committed upload whose database record could not be written
+export async function discardCommittedUpload(filePath: string | null): Promise<void> {
+  if (!filePath) return;
+  try {
+    await unlink(resolveAttachmentPath(filePath));
+  } catch {
+    // File may already be gone, ignore error
+  }
+}
+
+function userRoles(user: AuthUser): string[] {
+  return user.roles?.length ? user.roles : [user.role];
+}
+
+// Check whether a user may list and download the attachments of a request
+export function canViewRequestAttachments(user: AuthUser, aftRequest: Pick<AFTRequest, 'requestorId' | 'status'>): boolean {
+  if (aftRequest.requestorId === user.id) return true;
+
+  const roles = userRoles(user);
+  if (roles.includes('admin')) return true;
+
+  return roles.some(role => ROLE_VISIBLE_STATUSES[role]?.includes(aftRequest.status));
+}
+
+// Check whether a user may add attachments to a request
+export function canUploadRequestAttachments(user: AuthUser, aftRequest: Pick<AFTRequest, 'requestorId' | 'status'>): boolean {
+  const roles = userRoles(user);
+  if (roles.includes('admin')) return true;
+
+  return aftRequest.requestorId === user.id && EDITABLE_STATUSES.includes(aftRequest.status);
+}
@@ -0,0 +1,205 @@
+// Audit log hash chain
+// Every aft_audit_log entry stores the hash of the entry before it and a
+// SHA-256 over its own canonical content plus that previous hash, so editing
+// or deleting a row breaks every link after it. Signed exports carry the
+// entries and a signature over the chain head for offline verification.
+// The chain is started by a seal entry, written after any entries that predate the
+// chain, and a chain without exactly one seal entry does not verify.
+// Shared by the server and scripts/verify-audit-export.ts - no database imports.
+
+import * as crypto from 'crypto';
+
+export const GENESIS_HASH = '0'.repeat(64);
+export const AUDIT_EXPORT_FORMAT = 'aft-audit-log-export';
+export const AUDIT_EXPORT_VERSION = 1;
+export const AUDIT_SEAL_ACTION = 'audit_log_sealed';
+
+export interface ChainedAuditEntry {
+  id: number;
+  requestId: number | null;
+  userId: number;
+  action: string;
+  oldStatus: string | null;
+  newStatus: string | null;
+  changes: string | null;
+  notes: string | null;
+  actorRole: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: number; // Unix seconds, the precision stored in SQLite
+  previousHash: string;
+  entryHash: string;
+}
+
+export interface AuditChainBreak {
+  entryId: number;
+  reason: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  verifiedEntries: number;
+  headHash: string;
+  firstBrokenLink: AuditChainBreak | null;
+}
+
+export interface SignedAuditExport {
+  format: typeof AUDIT_EXPORT_FORMAT;
+  version: typeof AUDIT_EXPORT_VERSION;
+  exportedAt: string;
+  exportedBy: string;
+  entryCount: number;
+  headHash: string;
+  entries: ChainedAuditEntry[];
+  signature: {
+    keyType: string; // ed25519, rsa or ec
+    publicKey: string; // PEM SubjectPublicKeyInfo
+    keyFingerprint: string; // SHA-256 of the DER public key, for pinning the signing key
+    value: string; // Base64 signature over auditExportSigningPayload()
+  };
+}
+
+// Fixed field order - JSON object key order is not something an offline verifier should depend on.
+// The request context fields came later and are only appended when present, so entries
+// written before them keep their original hashes.
+export function canonicalizeAuditEntry(entry: Omit<ChainedAuditEntry, 'entryHash'>): string {
+  const fields: unknown[] = [
+    entry.id,
+    entry.requestId,
+    entry.userId,
+    entry.action,
+    entry.oldStatus,
+    entry.newStatus,
+    entry.changes,
+    entry.notes,
+    entry.createdAt,
+    entry.previousHash,
+  ];
+  const context = [entry.actorRole ?? null, entry.ipAddress ?? null, entry.userAgent ?? null];
+  if (context.some(value => value !== null)) {
+    fields.push(...context);
+  }
+  return JSON.stringify(fields);
+}
+
+export function computeAuditEntryHash(entry: Omit<ChainedAuditEntry, 'entryHash'>): string {
+  return crypto.createHash('sha256').update(canonicalizeAuditEntry(entry), 'utf8').digest('hex');
+}
+
+// Check one link; returns why it is broken, or null when the entry is intact.
+// `sealed` says whether the seal entry has already been passed.
+export function checkAuditChainLink(entry: ChainedAuditEntry, expectedPreviousHash: string, sealed = false): string | null {
+  if (!entry.entryHash || !entry.previousHash) {
+    return 'Entry has no hash - it was inserted outside the audit log writer';
+  }
+  if (entry.previousHash !== expectedPreviousHash) {
+    return 'Previous hash does not match the preceding entry - an entry was deleted, reordered or inserted';
+  }
+  if (computeAuditEntryHash(entry) !== entry.entryHash) {
+    return 'Entry content does not match its hash - the entry was modified';
+  }
+  if (sealed && entry.action === AUDIT_SEAL_ACTION) {
+    return 'Second seal entry - the chain was started over';
+  }
+  return null;
+}
+
+// Reported against the first entry of an intact chain that was never sealed
+export const MISSING_SEAL_REASON = 'Chain has no seal entry - it was rebuilt or its start was removed';
+
+export function verifyAuditEntries(entries: ChainedAuditEntry[], previousHash: string = GENESIS_HASH): AuditChainVerification {
+  let headHash = previousHash;
+  let sealed = false;
+  for (let index = 0; index < entries.length; index++) {
+    const reason = checkAuditChainLink(entries[index], headHash, sealed);
+    if (reason) {
+      return { valid: false, verifiedEntries: index, headHash, firstBrokenLink: { entryId: entries[index].id, reason } };
+    }
+    headHash = entries[index].entryHash;
+    sealed ||= entries[index].action === AUDIT_SEAL_ACTION;
+  }
+  // A chain picked up part way through may have been sealed before its first entry
+  if (entries.length > 0 && !sealed && previousHash === GENESIS_HASH) {
+    return { valid: false, verifiedEntries: entries.length, headHash, firstBrokenLink: { entryId: entries[0].id, reason: MISSING_SEAL_REASON } };
+  }
+  return { valid: true, verifiedEntries: entries.length, headHash, firstBrokenLink: null };
+}
+
+// The signature covers the export metadata and the chain head; the head in turn covers every entry
+export function auditExportSigningPayload(
+  auditExport: Pick<SignedAuditExport, 'format' | 'version' | 'exportedAt' | 'exportedBy' | 'entryCount' | 'headHash'>
+): string {
+  return [
+    auditExport.format,
+    auditExport.version,
+    auditExport.exportedAt,
+    auditExport.exportedBy,
+    auditExport.entryCount,
+    auditExport.headHash,
+  ].join('\n');
+}
+
+export function getPublicKeyFingerprint(publicKey: crypto.KeyObject): string {
+  return crypto.createHash('sha256')
+    .update(publicKey.export({ type: 'spki', format: 'der' }))
+    .digest('hex')
+    .toUpperCase();
+}
+
+// Ed25519 signs the message directly, RSA and EC keys sign its SHA-256
+export function signatureDigest(key: crypto.KeyObject): string | null {
+  return key.asymmetricKeyType === 'ed25519' ? null : 'sha256';
+}
+
+export interface AuditExportVerification {
+  valid: boolean;
+  errors: string[];
+  keyFingerprint: string | null;
+  chain: AuditChainVerification | null;
+}
+
+// Verify a signed export offline: signature, optional pinned key, then the whole chain from genesis
+export function verifySignedAuditExport(auditExport: SignedAuditExport, pinnedKeyFingerprint?: string): AuditExportVerification {
+  const errors: string[] = [];
+
+  if (auditExport.format !== AUDIT_EXPORT_FORMAT || auditExport.version !== AUDIT_EXPORT_VERSION) {
+    return { valid: false, errors: [`Unsupported export format ${auditExport.format} v${auditExport.version}`], keyFingerprint: null, chain: null };
+  }
+
+  let keyFingerprint: string | null = null;
+  try {
+    const publicKey = crypto.createPublicKey(auditExport.signature.publicKey);
+    keyFingerprint = getPublicKeyFingerprint(publicKey);
+    const signatureValid = crypto.verify(
+      signatureDigest(publicKey),
+      Buffer.from(auditExportSigningPayload(auditExport), 'utf8'),
+      publicKey,
+      Buffer.from(auditExport.signature.value, 'base64')
+    );
+    if (!signatureValid) {
+      errors.push('Export signature is not valid');
+    }
+  } catch (error) {
+    errors.push(`Export signature could not be checked: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (keyFingerprint && keyFingerprint !== auditExport.signature.keyFingerprint) {
+    errors.push('Key fingerprint in the export does not match its public key');
+  }
+  if (pinnedKeyFingerprint && keyFingerprint !== pinnedKeyFingerprint.replace(/[^0-9a-f]/gi, '').toUpperCase()) {
+    errors.push('Export was not signed with the expected key');
+  }
+
+  if (auditExport.entries.length !== auditExport.entryCount) {
+    errors.push(`Export lists ${auditExport.entryCount} entries but contains ${auditExport.entries.length}`);
+  }
+
+  const chain = verifyAuditEntries(auditExport.entries);
+  if (!chain.valid && chain.firstBrokenLink) {
+    errors.push(`Chain broken at entry ${chain.firstBrokenLink.entryId}: ${chain.firstBrokenLink.reason}`);
+  } else if (chain.headHash !== auditExport.headHash) {
+    errors.push('Chain head does not match the signed head hash');
+  }
+
+  return { valid: errors.length === 0, errors, keyFingerprint, chain };
+}
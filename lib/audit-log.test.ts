@@ -0,0 +1,156 @@
+import { before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { eq, sql } from 'drizzle-orm';
+import { aftAuditLog } from './db/schema';
+import { createTableStatement, useTemporaryWorkingDirectory } from './test-helpers/database';
+import { AUDIT_SEAL_ACTION, GENESIS_HASH, MISSING_SEAL_REASON, computeAuditEntryHash, verifyAuditEntries, verifySignedAuditExport } from './audit-chain';
+
+type AuditLog = typeof import('./audit-log');
+type Database = typeof import('./db/server')['db'];
+
+const ADMIN_ID = 1;
+
+let auditLog: AuditLog;
+let db: Database;
+
+function append(action: string, notes: string | null = null) {
+  return auditLog.appendAuditLog({ userId: ADMIN_ID, action, notes });
+}
+
+function entries() {
+  return db.select().from(aftAuditLog).orderBy(aftAuditLog.id).all();
+}
+
+before(async () => {
+  process.env.JWT_SECRET = 'test-jwt-secret';
+  useTemporaryWorkingDirectory();
+  db = (await import('./db/server')).db;
+  db.run(sql.raw(createTableStatement(aftAuditLog)));
+  auditLog = await import('./audit-log');
+});
+
+beforeEach(() => {
+  db.delete(aftAuditLog).run();
+});
+
+describe('appendAuditLog', () => {
+  test('starts a new log with a seal entry and chains each entry to the last', () => {
+    const first = append('created');
+    const second = append('approved');
+
+    const [seal] = entries();
+    assert.equal(seal.action, AUDIT_SEAL_ACTION);
+    assert.equal(seal.previousHash, GENESIS_HASH);
+    assert.equal(first.previousHash, seal.entryHash);
+    assert.equal(second.previousHash, first.entryHash);
+
+    const result = auditLog.verifyAuditLogChain(ADMIN_ID);
+    assert.deepEqual({ valid: result.valid, verifiedEntries: result.verifiedEntries, headHash: result.headHash }, {
+      valid: true,
+      verifiedEntries: 3,
+      headHash: second.entryHash,
+    });
+  });
+
+  test('seals entries written before the chain existed ahead of the seal entry', () => {
+    db.insert(aftAuditLog).values([
+      { userId: ADMIN_ID, action: 'created', createdAt: new Date() },
+      { userId: ADMIN_ID, action: 'submitted', createdAt: new Date() },
+    ]).run();
+
+    const result = auditLog.verifyAuditLogChain(ADMIN_ID);
+    assert.equal(result.valid, true);
+    assert.deepEqual(entries().map(entry => entry.action), ['created', 'submitted', AUDIT_SEAL_ACTION]);
+    assert.match(entries()[2].notes ?? '', /after sealing 2 earlier entries/);
+  });
+});
+
+describe('verifyAuditLogChain', () => {
+  test('reports an edited entry', () => {
+    append('created');
+    const edited = append('rejected', 'Missing justification');
+    append('updated');
+
+    db.update(aftAuditLog).set({ notes: 'Approved after review' }).where(eq(aftAuditLog.id, edited.id)).run();
+
+    const result = auditLog.verifyAuditLogChain(ADMIN_ID);
+    assert.equal(result.valid, false);
+    assert.equal(result.firstBrokenLink?.entryId, edited.id);
+    assert.match(result.firstBrokenLink?.reason ?? '', /was modified/);
+  });
+
+  test('reports a deleted entry at the entry after it', () => {
+    append('created');
+    const deleted = append('rejected');
+    const next = append('updated');
+
+    db.delete(aftAuditLog).where(eq(aftAuditLog.id, deleted.id)).run();
+
+    const result = auditLog.verifyAuditLogChain(ADMIN_ID);
+    assert.equal(result.valid, false);
+    assert.equal(result.firstBrokenLink?.entryId, next.id);
+    assert.match(result.firstBrokenLink?.reason ?? '', /deleted, reordered or inserted/);
+  });
+
+  test('does not reseal a chain whose hashes were cleared', () => {
+    append('created');
+    append('rejected');
+    db.update(aftAuditLog).set({ previousHash: null, entryHash: null }).run();
+
+    // The next write, as after a restart, must not hash the edited entries again
+    append('updated');
+
+    assert.equal(entries().filter(entry => entry.action === AUDIT_SEAL_ACTION).length, 1);
+    const result = auditLog.verifyAuditLogChain(ADMIN_ID);
+    assert.equal(result.valid, false);
+    assert.equal(result.firstBrokenLink?.entryId, entries()[0].id);
+    assert.match(result.firstBrokenLink?.reason ?? '', /has no hash/);
+  });
+
+  test('reports an intact chain that has no seal entry', () => {
+    // A chain rebuilt from scratch by hand, without going through the writer
+    let previousHash = GENESIS_HASH;
+    for (const action of ['created', 'approved']) {
+      const row = db.insert(aftAuditLog).values({ userId: ADMIN_ID, action, createdAt: new Date() }).returning().get();
+      const entryHash = computeAuditEntryHash({ ...auditLog.toChainedAuditEntry(row), previousHash });
+      db.update(aftAuditLog).set({ previousHash, entryHash }).where(eq(aftAuditLog.id, row.id)).run();
+      previousHash = entryHash;
+    }
+
+    const result = auditLog.verifyAuditLogChain(ADMIN_ID);
+    assert.equal(result.valid, false);
+    assert.equal(result.firstBrokenLink?.entryId, entries()[0].id);
+    assert.equal(result.firstBrokenLink?.reason, MISSING_SEAL_REASON);
+  });
+
+  test('is valid for an empty log without writing anything', () => {
+    assert.equal(auditLog.verifyAuditLogChain(ADMIN_ID).valid, true);
+    assert.equal(entries().length, 0);
+  });
+});
+
+describe('createSignedAuditExport', () => {
+  test('verifies offline, and not once an entry is edited or the seal removed', () => {
+    append('created');
+    append('approved');
+
+    const auditExport = auditLog.createSignedAuditExport({ id: ADMIN_ID, email: 'admin@example.mil' });
+    const verification = verifySignedAuditExport(auditExport, auditLog.getAuditSigningKeyFingerprint());
+    assert.deepEqual(verification.errors, []);
+    assert.equal(verification.valid, true);
+
+    const edited = structuredClone(auditExport);
+    edited.entries[1].notes = 'Added later';
+    assert.match(verifySignedAuditExport(edited).errors.join('\n'), /was modified/);
+
+    // Dropping the seal and rehashing what is left gives an intact chain, but not a sealed one
+    let previousHash = GENESIS_HASH;
+    const rebuilt = auditExport.entries.slice(1).map(entry => {
+      const entryHash = computeAuditEntryHash({ ...entry, previousHash });
+      const rehashed = { ...entry, previousHash, entryHash };
+      previousHash = entryHash;
+      return rehashed;
+    });
+    assert.equal(verifyAuditEntries(rebuilt).firstBrokenLink?.reason, MISSING_SEAL_REASON);
+  });
+});
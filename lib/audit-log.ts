@@ -0,0 +1,283 @@
+// Tamper-evident audit log
+// All writes to aft_audit_log go through appendAuditLog so each entry is
+// chained to the one before it (see lib/audit-chain.ts). API routes record
+// their changes with recordAudit, which adds the request context. The chain can
+// be walked with verifyAuditLogChain and exported with a signature for assessors.
+
+import * as crypto from 'crypto';
+import path from 'path';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { db } from '@/lib/db/server';
+import { aftAuditLog, type AuditLogEntry, type NewAuditLogEntry } from '@/lib/db/schema';
+import { asc, desc, eq, gt, isNotNull, sql } from 'drizzle-orm';
+import {
+  AUDIT_EXPORT_FORMAT,
+  AUDIT_EXPORT_VERSION,
+  AUDIT_SEAL_ACTION,
+  GENESIS_HASH,
+  MISSING_SEAL_REASON,
+  auditExportSigningPayload,
+  checkAuditChainLink,
+  computeAuditEntryHash,
+  getPublicKeyFingerprint,
+  signatureDigest,
+  type AuditChainVerification,
+  type ChainedAuditEntry,
+  type SignedAuditExport,
+} from '@/lib/audit-chain';
+import { appLogger } from '@/lib/logger';
+import { getCurrentRole, type AuthUser } from '@/lib/auth-server';
+import { getClientAddress } from '@/lib/client-address';
+import type { NextRequest } from 'next/server';
+
+const VERIFY_BATCH_SIZE = 1000;
+const DEFAULT_SIGNING_KEY_PATH = path.join(process.cwd(), 'data', 'audit-signing-key.pem');
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type AuditLogInput = Omit<NewAuditLogEntry, 'id' | 'previousHash' | 'entryHash' | 'createdAt'> & {
+  createdAt?: Date;
+};
+
+export function toChainedAuditEntry(entry: AuditLogEntry): ChainedAuditEntry {
+  return {
+    id: entry.id,
+    requestId: entry.requestId ?? null,
+    userId: entry.userId,
+    action: entry.action,
+    oldStatus: entry.oldStatus ?? null,
+    newStatus: entry.newStatus ?? null,
+    changes: entry.changes ?? null,
+    notes: entry.notes ?? null,
+    actorRole: entry.actorRole ?? null,
+    ipAddress: entry.ipAddress ?? null,
+    userAgent: entry.userAgent ?? null,
+    createdAt: Math.floor(entry.createdAt.getTime() / 1000),
+    previousHash: entry.previousHash ?? '',
+    entryHash: entry.entryHash ?? '',
+  };
+}
+
+function writeEntryHash(tx: Transaction, entry: AuditLogEntry, previousHash: string): AuditLogEntry {
+  const entryHash = computeAuditEntryHash({ ...toChainedAuditEntry(entry), previousHash });
+  return tx.update(aftAuditLog)
+    .set({ previousHash, entryHash })
+    .where(eq(aftAuditLog.id, entry.id))
+    .returning()
+    .get();
+}
+
+// The chain is started by a seal entry, attributed to the user whose action started it.
+// Entries written before the chain existed are hashed first and the seal follows them.
+// Once a seal entry exists, hashed or not, nothing is resealed - clearing every hash does
+// not make edited entries valid again, they are reported as broken links.
+function sealLegacyEntries(tx: Transaction, userId: number): string {
+  const head = tx.select({ entryHash: aftAuditLog.entryHash })
+    .from(aftAuditLog)
+    .where(isNotNull(aftAuditLog.entryHash))
+    .orderBy(desc(aftAuditLog.id))
+    .limit(1)
+    .get();
+  if (head?.entryHash) {
+    return head.entryHash;
+  }
+  const seal = tx.select({ id: aftAuditLog.id })
+    .from(aftAuditLog)
+    .where(eq(aftAuditLog.action, AUDIT_SEAL_ACTION))
+    .limit(1)
+    .get();
+  if (seal) {
+    return GENESIS_HASH;
+  }
+
+  const legacy = tx.select().from(aftAuditLog).orderBy(asc(aftAuditLog.id)).all();
+  let previousHash = GENESIS_HASH;
+  for (const entry of legacy) {
+    previousHash = writeEntryHash(tx, entry, previousHash).entryHash!;
+  }
+
+  const sealEntry = tx.insert(aftAuditLog)
+    .values({
+      userId,
+      action: AUDIT_SEAL_ACTION,
+      notes: `Audit log hash chain started${legacy.length > 0 ? ` after sealing ${legacy.length} earlier entries` : ''}`,
+      createdAt: new Date(),
+    })
+    .returning()
+    .get();
+  previousHash = writeEntryHash(tx, sealEntry, previousHash).entryHash!;
+
+  appLogger.securityEvent('AUDIT_LOG_SEALED', { entries: legacy.length, headHash: previousHash });
+  return previousHash;
+}
+
+// Append an entry to the audit log, chained to the current head
+export function appendAuditLog(input: AuditLogInput): AuditLogEntry {
+  return db.transaction(tx => {
+    const previousHash = sealLegacyEntries(tx, input.userId);
+    const inserted = tx.insert(aftAuditLog)
+      .values({ ...input, createdAt: input.createdAt ?? new Date() })
+      .returning()
+      .get();
+    return writeEntryHash(tx, inserted, previousHash);
+  });
+}
+
+// Seal entries written before the chain existed, if there are any, so they can be verified
+function sealExistingEntries(userId: number) {
+  const hasEntries = db.select({ id: aftAuditLog.id }).from(aftAuditLog).limit(1).get();
+  if (hasEntries) {
+    db.transaction(tx => sealLegacyEntries(tx, userId));
+  }
+}
+
+export interface AuditEvent {
+  action: string;
+  requestId?: number | null;
+  oldStatus?: string | null;
+  newStatus?: string | null;
+  before?: Record<string, unknown> | null; // Record state before the change, for the field diff
+  after?: Record<string, unknown> | null; // Record state after the change
+  notes?: string | null;
+}
+
+export type AuditFieldDiff = Record<string, { from: unknown; to: unknown }>;
+
+const REDACTED_FIELD_PATTERN = /password|secret|token/i;
+const IGNORED_DIFF_FIELDS = new Set(['updatedAt']);
+
+function normalizeAuditValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  return value === undefined ? null : value;
+}
+
+// Fields that differ between two versions of a record. Secrets are recorded as changed
+// without their values; a record that was created or deleted diffs against null.
+export function diffAuditFields(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditFieldDiff {
+  const diff: AuditFieldDiff = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of fields) {
+    if (IGNORED_DIFF_FIELDS.has(field)) continue;
+    const from = normalizeAuditValue(before?.[field]);
+    const to = normalizeAuditValue(after?.[field]);
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+    diff[field] = REDACTED_FIELD_PATTERN.test(field)
+      ? { from: '[redacted]', to: '[redacted]' }
+      : { from, to };
+  }
+  return diff;
+}
+
+// Record a state change made through an API route: the actor, the role they were
+// acting in, where the request came from and what changed
+export function recordAudit(request: NextRequest, user: AuthUser, event: AuditEvent): AuditLogEntry {
+  const diff = diffAuditFields(event.before, event.after);
+
+  return appendAuditLog({
+    requestId: event.requestId ?? null,
+    userId: user.id,
+    action: event.action,
+    oldStatus: event.oldStatus ?? null,
+    newStatus: event.newStatus ?? null,
+    changes: Object.keys(diff).length > 0 ? JSON.stringify(diff) : null,
+    notes: event.notes ?? null,
+    actorRole: getCurrentRole(request, user),
+    ipAddress: getClientAddress(request),
+    userAgent: request.headers.get('user-agent'),
+  });
+}
+
+// Walk the whole chain from the genesis hash, stopping at the first broken link.
+// The chain must contain its seal entry; verifiedBy seals a log that predates the chain.
+export function verifyAuditLogChain(verifiedBy: number): AuditChainVerification & { totalEntries: number } {
+  sealExistingEntries(verifiedBy);
+
+  const totalEntries = db.select({ count: sql<number>`count(*)` }).from(aftAuditLog).get()?.count ?? 0;
+  let headHash = GENESIS_HASH;
+  let verifiedEntries = 0;
+  let lastId = 0;
+  let sealed = false;
+
+  for (;;) {
+    const batch = db.select()
+      .from(aftAuditLog)
+      .where(gt(aftAuditLog.id, lastId))
+      .orderBy(asc(aftAuditLog.id))
+      .limit(VERIFY_BATCH_SIZE)
+      .all();
+    if (batch.length === 0) break;
+
+    for (const row of batch) {
+      const entry = toChainedAuditEntry(row);
+      const reason = checkAuditChainLink(entry, headHash, sealed);
+      if (reason) {
+        return { valid: false, verifiedEntries, headHash, firstBrokenLink: { entryId: entry.id, reason }, totalEntries };
+      }
+      headHash = entry.entryHash;
+      verifiedEntries++;
+      sealed ||= entry.action === AUDIT_SEAL_ACTION;
+    }
+    lastId = batch[batch.length - 1].id;
+  }
+
+  if (verifiedEntries > 0 && !sealed) {
+    const first = db.select({ id: aftAuditLog.id }).from(aftAuditLog).orderBy(asc(aftAuditLog.id)).limit(1).get();
+    return { valid: false, verifiedEntries, headHash, firstBrokenLink: { entryId: first!.id, reason: MISSING_SEAL_REASON }, totalEntries };
+  }
+
+  return { valid: true, verifiedEntries, headHash, firstBrokenLink: null, totalEntries };
+}
+
+// Signing key for exports: AFT_AUDIT_SIGNING_KEY points at a PEM private key,
+// otherwise an Ed25519 key is generated under data/ on first export
+function loadSigningKey(): crypto.KeyObject {
+  const configuredPath = process.env.AFT_AUDIT_SIGNING_KEY;
+  if (configuredPath) {
+    return crypto.createPrivateKey(readFileSync(configuredPath));
+  }
+
+  if (!existsSync(DEFAULT_SIGNING_KEY_PATH)) {
+    const { privateKey } = crypto.generateKeyPairSync('ed25519');
+    mkdirSync(path.dirname(DEFAULT_SIGNING_KEY_PATH), { recursive: true });
+    writeFileSync(DEFAULT_SIGNING_KEY_PATH, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600, flag: 'wx' });
+  }
+  return crypto.createPrivateKey(readFileSync(DEFAULT_SIGNING_KEY_PATH));
+}
+
+export function getAuditSigningKeyFingerprint(): string {
+  return getPublicKeyFingerprint(crypto.createPublicKey(loadSigningKey()));
+}
+
+// Export the full chain, signed over its head so it can be verified without database access
+export function createSignedAuditExport(exportedBy: Pick<AuthUser, 'id' | 'email'>): SignedAuditExport {
+  sealExistingEntries(exportedBy.id);
+  const entries = db.select().from(aftAuditLog).orderBy(asc(aftAuditLog.id)).all().map(toChainedAuditEntry);
+  const unsigned = {
+    format: AUDIT_EXPORT_FORMAT,
+    version: AUDIT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    exportedBy: exportedBy.email,
+    entryCount: entries.length,
+    headHash: entries.length > 0 ? entries[entries.length - 1].entryHash : GENESIS_HASH,
+  } as const;
+
+  const privateKey = loadSigningKey();
+  const publicKey = crypto.createPublicKey(privateKey);
+
+  return {
+    ...unsigned,
+    entries,
+    signature: {
+      keyType: privateKey.asymmetricKeyType ?? 'unknown',
+      publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+      keyFingerprint: getPublicKeyFingerprint(publicKey),
+      value: crypto.sign(signatureDigest(privateKey), Buffer.from(auditExportSigningPayload(unsigned), 'utf8'), privateKey)
+        .toString('base64'),
+    },
+  };
+}
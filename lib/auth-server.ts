@@ -26,6 +26,7 @@ export interface AuthUser {
 }
 
 export interface JWTPayload extends AuthUser {
+  currentRole?: UserRoleType; // Set by /api/auth/set-role
   iat: number;
   exp: number;
 }
@@ -40,11 +41,14 @@ function verifyToken(token: string): JWTPayload | null {
   }
 }
 
-// Get user's roles from userRoles table
-async function getUserRoles(userId: number): Promise<UserRoleType[]> {
+// Get user's roles from userRoles table. A delegation outside its period or revoked no
+// longer counts even before the background check has deactivated it.
+export async function getUserRoles(userId: number, now: Date = new Date()): Promise<UserRoleType[]> {
   try {
-    const stmt = db.prepare('SELECT role FROM user_roles WHERE user_id = ? AND is_active = 1');
-    const roles = stmt.all(userId) as { role: UserRoleType }[];
+    const stmt = db.prepare(`SELECT DISTINCT role FROM user_roles WHERE user_id = ? AND is_active = 1
+      AND revoked_at IS NULL AND (starts_at IS NULL OR starts_at <= ?) AND (expires_at IS NULL OR expires_at > ?)`);
+    const nowSeconds = Math.floor(now.getTime() / 1000);
+    const roles = stmt.all(userId, nowSeconds, nowSeconds) as { role: UserRoleType }[];
     return roles.map(r => r.role);
   } catch {
     return [];
@@ -179,6 +183,13 @@ export async function getCurrentUserFromRequest(request: NextRequest): Promise<A
   }
 }
 
+// Role the user selected for this session, falling back to their primary role
+export function getCurrentRole(request: NextRequest, user: AuthUser): UserRoleType {
+  const token = request.cookies.get(COOKIE_NAME)?.value;
+  const currentRole = token ? verifyToken(token)?.currentRole : undefined;
+  return currentRole && user.roles.includes(currentRole) ? currentRole : user.role;
+}
+
 // Role-based authorization helpers
 export function isAdmin(user: AuthUser | null): boolean {
   return user?.roles?.includes('admin') || user?.role === 'admin';
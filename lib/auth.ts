@@ -19,6 +19,7 @@ export interface AuthUser {
 }
 
 export interface JWTPayload extends AuthUser {
+  jti?: string; // Session ID, checked against the session store by the middleware
   iat: number;
   exp: number;
 }
@@ -33,9 +34,31 @@ export async function verifyPassword(password: string, hashedPassword: string):
   return bcrypt.compare(password, hashedPassword);
 }
 
-// Generate JWT token
-export function generateToken(user: AuthUser): string {
-  return jwt.sign(user, JWT_SECRET!, { expiresIn: '24h' });
+// Seconds left in a session, for the token and cookie lifetimes
+export function getSessionMaxAge(expiresAt: Date): number {
+  return Math.max(1, Math.floor((expiresAt.getTime() - Date.now()) / 1000));
+}
+
+// Generate JWT token for a session opened with createSession
+export function generateToken(user: AuthUser, session: { jti: string; expiresAt: Date }): string {
+  return jwt.sign(user, JWT_SECRET!, { jwtid: session.jti, expiresIn: getSessionMaxAge(session.expiresAt) });
+}
+
+// Landing page for a user's primary role after sign-in
+export function getRoleRedirect(role: string): string {
+  // Map roles to their appropriate paths
+  const roleRedirectMap: Record<string, string> = {
+    'admin': '/admin',
+    'requestor': '/requestor',
+    'dao': '/approver',
+    'approver': '/approver',
+    'cpso': '/approver',
+    'dta': '/dta',
+    'sme': '/sme',
+    'media_custodian': '/custodian'
+  };
+  
+  return roleRedirectMap[role] || '/dashboard';
 }
 
 // Verify JWT token (Edge Runtime compatible)
@@ -0,0 +1,205 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { sql } from 'drizzle-orm';
+import { cacTrustStore, certificateRevocationLists, revokedCertificates, userCertificates, users } from './db/schema';
+import { createTableStatement, useTemporaryWorkingDirectory } from './test-helpers/database';
+import { createTestRootCa, issueTestCertificate, type TestAuthority } from './test-helpers/test-ca';
+
+type CacLogin = typeof import('./cac-login');
+type SignatureVerification = typeof import('./signature-verification');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OID_CLIENT_AUTH = '1.3.6.1.5.5.7.3.2';
+const OID_EMAIL_PROTECTION = '1.3.6.1.5.5.7.3.4';
+
+let cacLogin: CacLogin;
+let verification: SignatureVerification;
+let root: TestAuthority;
+let intermediate: TestAuthority;
+let serial = 0x100;
+
+function issueCard(subject: string, options: { emails?: string[]; notAfter?: Date; issuer?: TestAuthority } = {}) {
+  return issueTestCertificate(options.issuer ?? intermediate, {
+    subject: `${subject}, OU=DoD, O=AFT Test`,
+    serialNumber: (serial++).toString(16),
+    emails: options.emails,
+    notAfter: options.notAfter,
+  });
+}
+
+async function createUser(email: string): Promise<number> {
+  const { db } = await import('./db/server');
+  const [user] = await db.insert(users).values({
+    email,
+    password: 'not-used',
+    firstName: 'Test',
+    lastName: 'User',
+    primaryRole: 'requestor',
+  }).returning({ id: users.id });
+  return user.id;
+}
+
+async function bindCertificate(card: TestAuthority, userId: number): Promise<void> {
+  const { db } = await import('./db/server');
+  await db.insert(userCertificates).values(cacLogin.toUserCertificate(card.certificate, userId, null));
+}
+
+before(async () => {
+  useTemporaryWorkingDirectory();
+  const { db } = await import('./db/server');
+  for (const table of [users, userCertificates, cacTrustStore, certificateRevocationLists, revokedCertificates]) {
+    db.run(sql.raw(createTableStatement(table)));
+  }
+  cacLogin = await import('./cac-login');
+  verification = await import('./signature-verification');
+
+  root = await createTestRootCa();
+  intermediate = await issueTestCertificate(root, { subject: 'CN=AFT Test Intermediate CA, O=AFT Test', serialNumber: '10', isCa: true });
+
+  // Only the root is trusted, so the intermediate has to come from the supplied chain
+  await db.insert(cacTrustStore).values({
+    certificateName: root.certificate.subject,
+    certificateData: verification.encodeCertificate(root.certificate),
+    certificateThumbprint: verification.getCertificateThumbprint(root.certificate),
+    issuerDN: root.certificate.issuer,
+    subjectDN: root.certificate.subject,
+    notBefore: root.certificate.notBefore,
+    notAfter: root.certificate.notAfter,
+    isActive: true,
+    isRootCA: true,
+  });
+});
+
+describe('readClientCertificate', () => {
+  test('reads a URL-encoded PEM forwarded by the proxy', async () => {
+    const card = await issueCard('CN=DOE.JANE.A.1234567890');
+    const headers = new Headers({
+      'x-ssl-client-verify': 'SUCCESS',
+      'x-ssl-client-cert': encodeURIComponent(card.certificate.toString('pem')),
+    });
+    const result = cacLogin.readClientCertificate(headers);
+    assert.ok(result.ok);
+    assert.equal(result.certificate.serialNumber, card.certificate.serialNumber);
+  });
+
+  test('reads a PEM with the line breaks replaced by spaces', async () => {
+    const card = await issueCard('CN=DOE.JANE.A.1234567890');
+    const headers = new Headers({ 'ssl-client-cert': card.certificate.toString('pem').replace(/\r?\n/g, ' ') });
+    assert.ok(cacLogin.readClientCertificate(headers).ok);
+  });
+
+  test('refuses a certificate the proxy failed to verify', () => {
+    const result = cacLogin.readClientCertificate(new Headers({ 'x-ssl-client-verify': 'FAILED:unable to get issuer' }));
+    assert.deepEqual(result, { ok: false, error: 'Client certificate was rejected by the proxy (FAILED:unable to get issuer)' });
+  });
+
+  test('reports a missing or unparseable certificate', () => {
+    assert.deepEqual(cacLogin.readClientCertificate(new Headers()), { ok: false, error: 'No client certificate provided' });
+    assert.deepEqual(
+      cacLogin.readClientCertificate(new Headers({ 'x-ssl-client-cert': 'bm90IGEgY2VydGlmaWNhdGU=' })),
+      { ok: false, error: 'Client certificate could not be parsed' }
+    );
+  });
+});
+
+describe('certificate fields', () => {
+  test('reads the EDIPI from the last part of the subject CN', async () => {
+    assert.equal(cacLogin.getEdipi((await issueCard('CN=DOE.JANE.A.1234567890')).certificate), '1234567890');
+    assert.equal(cacLogin.getEdipi((await issueCard('CN=Jane Doe')).certificate), null);
+  });
+
+  test('accepts certificates without an EKU or with client authentication', async () => {
+    const withoutEku = await issueCard('CN=DOE.JANE.A.1234567890');
+    const clientAuth = await issueTestCertificate(intermediate, { subject: 'CN=DOE.JANE.A.1234567890', serialNumber: '0B01', extendedKeyUsages: [OID_CLIENT_AUTH] });
+    const emailOnly = await issueTestCertificate(intermediate, { subject: 'CN=DOE.JANE.A.1234567890', serialNumber: '0B02', extendedKeyUsages: [OID_EMAIL_PROTECTION] });
+
+    assert.equal(cacLogin.permitsClientAuthentication(withoutEku.certificate), true);
+    assert.equal(cacLogin.permitsClientAuthentication(clientAuth.certificate), true);
+    assert.equal(cacLogin.permitsClientAuthentication(emailOnly.certificate), false);
+  });
+});
+
+describe('validateCertificate', () => {
+  test('validates a chain through a supplied intermediate to a trusted root', async () => {
+    const card = await issueCard('CN=DOE.JANE.A.1234567890');
+    const result = await verification.validateCertificate(card.certificate, [verification.encodeCertificate(intermediate.certificate)]);
+    assert.equal(result.isValid, true, result.error);
+    assert.equal(result.chain.length, 3);
+    assert.equal(result.checks.trustAnchor.status, 'pass');
+    // No CRL is loaded and revocation checks are not required by default
+    assert.equal(result.checks.revocation.status, 'skipped');
+  });
+
+  test('fails when the intermediate is missing', async () => {
+    const card = await issueCard('CN=DOE.JANE.A.1234567890');
+    const result = await verification.validateCertificate(card.certificate);
+    assert.equal(result.isValid, false);
+    assert.equal(result.checks.chain.message, `Issuer certificate not found for ${card.certificate.subject}`);
+  });
+
+  test('fails a chain that ends at a root outside the trust store', async () => {
+    const otherRoot = await createTestRootCa('CN=Other Root CA, O=Elsewhere');
+    const card = await issueCard('CN=DOE.JANE.A.1234567890', { issuer: otherRoot });
+    const result = await verification.validateCertificate(card.certificate, [verification.encodeCertificate(otherRoot.certificate)]);
+    assert.equal(result.isValid, false);
+    assert.equal(result.checks.chain.status, 'pass');
+    assert.equal(result.checks.trustAnchor.status, 'fail');
+  });
+
+  test('fails a certificate issued by an end-entity certificate', async () => {
+    const notCa = await issueCard('CN=NOT.A.CA.1234567899');
+    const card = await issueCard('CN=DOE.JANE.A.1234567890', { issuer: notCa });
+    const result = await verification.validateCertificate(card.certificate, [
+      verification.encodeCertificate(notCa.certificate),
+      verification.encodeCertificate(intermediate.certificate),
+    ]);
+    assert.equal(result.isValid, false);
+    assert.match(result.checks.chain.message, /is not a certificate authority/);
+  });
+
+  test('fails an expired certificate', async () => {
+    const card = await issueCard('CN=DOE.JANE.A.1234567890', { notAfter: new Date(Date.now() - DAY_MS / 2) });
+    const result = await verification.validateCertificate(card.certificate, [verification.encodeCertificate(intermediate.certificate)]);
+    assert.equal(result.isValid, false);
+    assert.equal(result.checks.validityPeriod.status, 'fail');
+  });
+});
+
+describe('findCertificateUser', () => {
+  test('matches a bound certificate by thumbprint', async () => {
+    const userId = await createUser('bound@example.mil');
+    const card = await issueCard('CN=BOUND.USER.1111111111');
+    await bindCertificate(card, userId);
+
+    const match = await cacLogin.findCertificateUser(card.certificate);
+    assert.equal(match?.userId, userId);
+    assert.equal(match?.matchedBy, 'certificate');
+    assert.equal(match?.binding?.edipi, '1111111111');
+  });
+
+  test('matches a reissued card by the EDIPI of a bound certificate', async () => {
+    const userId = await createUser('reissued@example.mil');
+    await bindCertificate(await issueCard('CN=REISSUED.USER.2222222222'), userId);
+
+    const replacement = await issueCard('CN=REISSUED.USER.2222222222');
+    assert.deepEqual(await cacLogin.findCertificateUser(replacement.certificate), { userId, matchedBy: 'edipi', binding: null });
+  });
+
+  test('refuses an EDIPI bound to more than one account', async () => {
+    await bindCertificate(await issueCard('CN=SHARED.USER.3333333333'), await createUser('shared1@example.mil'));
+    await bindCertificate(await issueCard('CN=SHARED.USER.3333333333'), await createUser('shared2@example.mil'));
+
+    assert.equal(await cacLogin.findCertificateUser((await issueCard('CN=SHARED.USER.3333333333')).certificate), null);
+  });
+
+  test('matches the SAN email only for accounts without bound certificates', async () => {
+    const unboundId = await createUser('Unbound@Example.mil');
+    const unbound = await issueCard('CN=UNBOUND.USER.4444444444', { emails: ['unbound@example.mil'] });
+    assert.deepEqual(await cacLogin.findCertificateUser(unbound.certificate), { userId: unboundId, matchedBy: 'email', binding: null });
+
+    const pinnedId = await createUser('pinned@example.mil');
+    await bindCertificate(await issueCard('CN=PINNED.USER.5555555555'), pinnedId);
+    const otherCard = await issueCard('CN=SOMEONE.ELSE.6666666666', { emails: ['pinned@example.mil'] });
+    assert.equal(await cacLogin.findCertificateUser(otherCard.certificate), null);
+  });
+});
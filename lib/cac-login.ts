@@ -0,0 +1,187 @@
+// CAC certificate login
+// Reads the client certificate forwarded by the TLS-terminating reverse proxy
+// and maps it to a user account: by a certificate an admin has bound to the
+// account, by the EDIPI in the subject CN of a bound certificate (a reissued
+// CAC keeps the same EDIPI), or by the email address in the subject
+// alternative name.
+// Server-only - uses the database.
+
+import * as x509 from '@peculiar/x509';
+import { db } from '@/lib/db/server';
+import { users, userCertificates, type NewUserCertificate, type UserCertificate } from '@/lib/db/schema';
+import { eq, sql } from 'drizzle-orm';
+import { getCertificateThumbprint, encodeCertificate } from '@/lib/signature-verification';
+
+// Headers set by nginx, Apache and HAProxy, in order of preference
+const CLIENT_CERT_HEADERS = ['x-ssl-client-cert', 'ssl-client-cert', 'x-client-cert', 'x-ssl-client-der'];
+
+const OID_CLIENT_AUTH = '1.3.6.1.5.5.7.3.2';
+const OID_SMARTCARD_LOGON = '1.3.6.1.4.1.311.20.2.2';
+
+// DoD CAC subject CN is LAST.FIRST.MIDDLE.EDIPI
+const EDIPI_PATTERN = /\.(\d{10})$/;
+
+const PEM_PATTERN = /-----BEGIN CERTIFICATE-----([\s\S]+?)-----END CERTIFICATE-----/;
+
+export type ClientCertificateResult =
+  | { ok: true; certificate: x509.X509Certificate }
+  | { ok: false; error: string };
+
+export type CertificateUserMatch = {
+  userId: number;
+  matchedBy: 'certificate' | 'edipi' | 'email';
+  binding: UserCertificate | null;
+};
+
+// Certificate headers are only trustworthy when a proxy that verifies client
+// certificates sits in front of the app and strips them from client requests
+export function isCacLoginEnabled(): boolean {
+  return process.env.AFT_CAC_LOGIN_ENABLED === 'true';
+}
+
+// Proxies forward the PEM URL-encoded (nginx $ssl_client_escaped_cert) or with
+// the line breaks replaced by spaces or tabs (Apache, nginx $ssl_client_cert)
+function decodeCertificateHeader(value: string): Uint8Array<ArrayBuffer> {
+  let decoded = value.trim();
+  if (decoded.includes('%')) {
+    decoded = decodeURIComponent(decoded);
+  }
+
+  const pem = PEM_PATTERN.exec(decoded);
+  const base64 = (pem ? pem[1] : decoded).replace(/\s+/g, '');
+  return new Uint8Array(Buffer.from(base64, 'base64'));
+}
+
+export function readClientCertificate(headers: Headers): ClientCertificateResult {
+  const verify = headers.get('x-ssl-client-verify');
+  if (verify && verify.toUpperCase() !== 'SUCCESS') {
+    return { ok: false, error: `Client certificate was rejected by the proxy (${verify})` };
+  }
+
+  for (const name of CLIENT_CERT_HEADERS) {
+    const value = headers.get(name);
+    if (!value) continue;
+
+    try {
+      return { ok: true, certificate: new x509.X509Certificate(decodeCertificateHeader(value)) };
+    } catch {
+      return { ok: false, error: 'Client certificate could not be parsed' };
+    }
+  }
+
+  return { ok: false, error: 'No client certificate provided' };
+}
+
+// Certificates bound by admins are uploaded as PEM or DER files
+export function parseCertificateFile(data: Buffer): x509.X509Certificate {
+  const pem = PEM_PATTERN.exec(data.toString('latin1'));
+  return new x509.X509Certificate(new Uint8Array(pem ? Buffer.from(pem[1].replace(/\s+/g, ''), 'base64') : data));
+}
+
+export function getEdipi(certificate: x509.X509Certificate): string | null {
+  for (const commonName of certificate.subjectName.getField('CN')) {
+    const match = EDIPI_PATTERN.exec(commonName.trim());
+    if (match) return match[1];
+  }
+  return null;
+}
+
+export function getSubjectAltNameEmails(certificate: x509.X509Certificate): string[] {
+  const san = certificate.getExtension(x509.SubjectAlternativeNameExtension);
+  if (!san) return [];
+  return san.names.items
+    .filter(name => name.type === 'email')
+    .map(name => name.value.toLowerCase());
+}
+
+// A certificate restricted by extended key usage must allow client authentication
+export function permitsClientAuthentication(certificate: x509.X509Certificate): boolean {
+  const eku = certificate.getExtension(x509.ExtendedKeyUsageExtension);
+  if (!eku) return true;
+  return eku.usages.some(usage => usage === OID_CLIENT_AUTH || usage === OID_SMARTCARD_LOGON);
+}
+
+// Column values for binding a certificate to a user account
+export function toUserCertificate(
+  certificate: x509.X509Certificate,
+  userId: number,
+  boundBy: number | null
+): NewUserCertificate {
+  return {
+    userId,
+    certificateThumbprint: getCertificateThumbprint(certificate),
+    certificateData: encodeCertificate(certificate),
+    subjectDN: certificate.subject,
+    issuerDN: certificate.issuer,
+    serialNumber: certificate.serialNumber.toUpperCase(),
+    edipi: getEdipi(certificate),
+    email: getSubjectAltNameEmails(certificate)[0] ?? null,
+    notBefore: certificate.notBefore,
+    notAfter: certificate.notAfter,
+    boundBy,
+  };
+}
+
+// Bound certificate as returned by the admin API, without the encoded certificate
+export function toUserCertificateResponse(binding: UserCertificate) {
+  return {
+    id: binding.id,
+    userId: binding.userId,
+    certificateThumbprint: binding.certificateThumbprint,
+    subjectDN: binding.subjectDN,
+    issuerDN: binding.issuerDN,
+    serialNumber: binding.serialNumber,
+    edipi: binding.edipi,
+    email: binding.email,
+    notBefore: binding.notBefore,
+    notAfter: binding.notAfter,
+    boundBy: binding.boundBy,
+    lastUsedAt: binding.lastUsedAt,
+    createdAt: binding.createdAt,
+    isExpired: binding.notAfter < new Date(),
+  };
+}
+
+// Find the user account a validated client certificate belongs to
+export async function findCertificateUser(certificate: x509.X509Certificate): Promise<CertificateUserMatch | null> {
+  const thumbprint = getCertificateThumbprint(certificate);
+  const [bound] = await db.select()
+    .from(userCertificates)
+    .where(eq(userCertificates.certificateThumbprint, thumbprint))
+    .limit(1);
+  if (bound) {
+    return { userId: bound.userId, matchedBy: 'certificate', binding: bound };
+  }
+
+  const edipi = getEdipi(certificate);
+  if (edipi) {
+    const matches = await db.select({ userId: userCertificates.userId })
+      .from(userCertificates)
+      .where(eq(userCertificates.edipi, edipi));
+    const userIds = new Set(matches.map(match => match.userId));
+    if (userIds.size === 1) {
+      return { userId: matches[0].userId, matchedBy: 'edipi', binding: null };
+    }
+    if (userIds.size > 1) {
+      return null;
+    }
+  }
+
+  // Email matching only applies to accounts without bound certificates, so
+  // binding a CAC pins the account to that cardholder
+  for (const email of getSubjectAltNameEmails(certificate)) {
+    const [user] = await db.select({ id: users.id })
+      .from(users)
+      .where(eq(sql`lower(${users.email})`, email))
+      .limit(1);
+    if (!user) continue;
+
+    const [binding] = await db.select({ id: userCertificates.id })
+      .from(userCertificates)
+      .where(eq(userCertificates.userId, user.id))
+      .limit(1);
+    return binding ? null : { userId: user.id, matchedBy: 'email', binding: null };
+  }
+
+  return null;
+}
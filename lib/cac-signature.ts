@@ -170,7 +170,7 @@ export class CACSignatureService {
   /**
    * Utility: Convert ArrayBuffer to Base64
    */
-  private static arrayBufferToBase64(buffer: ArrayBuffer): string {
+  static arrayBufferToBase64(buffer: ArrayBuffer): string {
     const bytes = new Uint8Array(buffer);
     let binary = '';
     bytes.forEach(byte => binary += String.fromCharCode(byte));
@@ -2,6 +2,7 @@
 // Since web apps can't access CAC directly, users will upload/paste certificates
 
 import * as forge from 'node-forge';
+import * as x509 from '@peculiar/x509';
 
 export interface ParsedCertificate {
   subject: string;
@@ -14,6 +15,8 @@ export interface ParsedCertificate {
   certificatePem: string;
   isDoD: boolean;
   dodComponent?: string; // Army, Navy, Air Force, etc.
+  isCertificateAuthority: boolean;
+  isSelfSigned: boolean;
 }
 
 export class CertificateParser {
@@ -101,16 +104,53 @@ export class CertificateParser {
    * Parse certificate from DER format
    */
   static parseDerCertificate(derData: ArrayBuffer): ParsedCertificate {
+    let cert: forge.pki.Certificate;
     try {
       const derString = forge.util.binary.raw.encode(new Uint8Array(derData));
       const asn1 = forge.asn1.fromDer(derString);
-      const cert = forge.pki.certificateFromAsn1(asn1);
-      const pemData = forge.pki.certificateToPem(cert);
-      
-      return this.parseForgeCertificate(cert, pemData);
+      cert = forge.pki.certificateFromAsn1(asn1);
     } catch (error) {
-      throw new Error(`Failed to parse DER certificate: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      // node-forge only reads RSA keys - ECC certificates (e.g. newer DoD roots) are parsed with @peculiar/x509
+      try {
+        return this.parseX509Certificate(new x509.X509Certificate(derData));
+      } catch {
+        throw new Error(`Failed to parse DER certificate: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
     }
+
+    return this.parseForgeCertificate(cert, forge.pki.certificateToPem(cert));
+  }
+
+  /**
+   * Parse every certificate in an uploaded file: PEM (one or more blocks),
+   * DER, or a PKCS#7 bundle (.p7b/.p7c) in either encoding
+   */
+  static parseCertificateBundle(data: ArrayBuffer): ParsedCertificate[] {
+    const text = new TextDecoder().decode(data);
+    const derCertificates: ArrayBuffer[] = [];
+
+    if (text.includes('-----BEGIN')) {
+      const blocks = text.matchAll(/-----BEGIN ([A-Z0-9 ]+)-----[\s\S]*?-----END \1-----/g);
+      for (const [block, type] of blocks) {
+        if (type === 'PKCS7' || type === 'CMS') {
+          derCertificates.push(...new x509.X509Certificates(block).map(cert => cert.rawData));
+        } else if (type.endsWith('CERTIFICATE')) {
+          derCertificates.push(new x509.X509Certificate(block).rawData);
+        }
+      }
+    } else {
+      try {
+        derCertificates.push(new x509.X509Certificate(data).rawData);
+      } catch {
+        derCertificates.push(...new x509.X509Certificates(data).map(cert => cert.rawData));
+      }
+    }
+
+    if (derCertificates.length === 0) {
+      throw new Error('No certificates found in file');
+    }
+
+    return derCertificates.map(der => this.parseDerCertificate(der));
   }
 
   /**
@@ -138,6 +178,8 @@ export class CertificateParser {
     // Check if this is a DoD certificate
     const isDoD = this.isDoDCertificate(subject, issuer);
     const dodComponent = isDoD ? this.identifyDoDComponent(subject) : undefined;
+
+    const basicConstraints = cert.getExtension('basicConstraints') as { cA?: boolean } | null;
     
     return {
       subject,
@@ -149,10 +191,46 @@ export class CertificateParser {
       publicKeyPem,
       certificatePem: pemData,
       isDoD,
-      dodComponent
+      dodComponent,
+      isCertificateAuthority: !!basicConstraints?.cA,
+      isSelfSigned: cert.isIssuer(cert)
+    };
+  }
+
+  /**
+   * Internal method to parse certificates node-forge cannot read
+   */
+  private static parseX509Certificate(cert: x509.X509Certificate): ParsedCertificate {
+    const subject = this.formatX509Name(cert.subjectName);
+    const issuer = this.formatX509Name(cert.issuerName);
+    const derBytes = forge.util.binary.raw.encode(new Uint8Array(cert.rawData));
+    const isDoD = this.isDoDCertificate(subject, issuer);
+
+    return {
+      subject,
+      issuer,
+      serialNumber: cert.serialNumber,
+      thumbprint: forge.md.sha1.create().update(derBytes).digest().toHex().toUpperCase(),
+      notBefore: cert.notBefore,
+      notAfter: cert.notAfter,
+      publicKeyPem: cert.publicKey.toString('pem'),
+      certificatePem: cert.toString('pem'),
+      isDoD,
+      dodComponent: isDoD ? this.identifyDoDComponent(subject) : undefined,
+      isCertificateAuthority: !!cert.getExtension(x509.BasicConstraintsExtension)?.ca,
+      isSelfSigned: cert.subject === cert.issuer
     };
   }
 
+  /**
+   * Format an @peculiar/x509 name the same way as formatDistinguishedName
+   */
+  private static formatX509Name(name: x509.Name): string {
+    return name.toJSON()
+      .flatMap(rdn => Object.entries(rdn).flatMap(([type, values]) => values.map(value => `${type}=${value}`)))
+      .join(',');
+  }
+
   /**
    * Format distinguished name from forge attributes
    */
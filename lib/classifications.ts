@@ -0,0 +1,28 @@
+// Classification levels shared by drives, information systems and requests.
+// Drives store the uppercase marking and systems and requests the form value; both normalize to the same level.
+
+// Lowest to highest
+export const CLASSIFICATIONS = ['unclassified', 'cui', 'confidential', 'secret', 'top-secret', 'top-secret-sci'] as const;
+export type Classification = typeof CLASSIFICATIONS[number];
+
+export const CLASSIFICATION_LABELS: Record<Classification, string> = {
+  'unclassified': 'UNCLASSIFIED',
+  'cui': 'CUI',
+  'confidential': 'CONFIDENTIAL',
+  'secret': 'SECRET',
+  'top-secret': 'TOP SECRET',
+  'top-secret-sci': 'TOP SECRET//SCI',
+};
+
+// Accepts both the form values and the uppercase markings used on drives, e.g. TOP SECRET//SCI
+export function normalizeClassification(classification: string): string {
+  return classification.trim().toLowerCase().replace(/\/\/|[\s_]+/g, '-');
+}
+
+export function getClassificationLevel(classification: string): number {
+  return CLASSIFICATIONS.indexOf(normalizeClassification(classification) as Classification);
+}
+
+export function getClassificationLabel(classification: string): string {
+  return CLASSIFICATION_LABELS[normalizeClassification(classification) as Classification] || classification.toUpperCase();
+}
@@ -0,0 +1,39 @@
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { getClientAddress } from './client-address';
+
+function requestFrom(forwardedFor?: string): NextRequest {
+  return new NextRequest('http://localhost/api/auth/login', {
+    headers: forwardedFor === undefined ? {} : { 'x-forwarded-for': forwardedFor },
+  });
+}
+
+describe('getClientAddress', () => {
+  afterEach(() => {
+    delete process.env.AFT_TRUSTED_PROXIES;
+  });
+
+  test('ignores X-Forwarded-For when no trusted proxy is configured', () => {
+    assert.equal(getClientAddress(requestFrom('198.51.100.7')), null);
+    assert.equal(getClientAddress(requestFrom('203.0.113.9, 198.51.100.7')), null);
+  });
+
+  test('takes the rightmost hop that is not a trusted proxy', () => {
+    process.env.AFT_TRUSTED_PROXIES = '10.0.0.1, 10.0.0.2';
+    // The client claims 192.0.2.1; the proxy appended the address it saw
+    assert.equal(getClientAddress(requestFrom('192.0.2.1, 198.51.100.7')), '198.51.100.7');
+    assert.equal(getClientAddress(requestFrom('192.0.2.1, 198.51.100.7, 10.0.0.2')), '198.51.100.7');
+  });
+
+  test('reads IPv4-mapped IPv6 addresses as IPv4', () => {
+    process.env.AFT_TRUSTED_PROXIES = '::ffff:10.0.0.1';
+    assert.equal(getClientAddress(requestFrom('::FFFF:198.51.100.7, 10.0.0.1')), '198.51.100.7');
+  });
+
+  test('falls back to the furthest hop when every hop is a trusted proxy', () => {
+    process.env.AFT_TRUSTED_PROXIES = '10.0.0.1,10.0.0.2';
+    assert.equal(getClientAddress(requestFrom('10.0.0.2, 10.0.0.1')), '10.0.0.2');
+    assert.equal(getClientAddress(requestFrom()), null);
+  });
+});
@@ -0,0 +1,32 @@
+// Address a request came from, for sign-in throttling, sessions and the audit log.
+// Next.js fills X-Forwarded-For with the socket address only when a request arrives
+// without one, so without a reverse proxy the header is whatever the client sent and
+// is ignored. Behind one, the proxy appends its peer to the header, so only the
+// rightmost entries can be trusted: walking in from the right, the first address that
+// is not one of AFT_TRUSTED_PROXIES is the client.
+
+import type { NextRequest } from 'next/server';
+
+// IPv4 peers show up as IPv4-mapped IPv6 addresses on a dual-stack socket
+function normalizeAddress(address: string): string {
+  const trimmed = address.trim().toLowerCase();
+  return trimmed.startsWith('::ffff:') && trimmed.includes('.') ? trimmed.slice(7) : trimmed;
+}
+
+export function getTrustedProxies(): Set<string> {
+  return new Set((process.env.AFT_TRUSTED_PROXIES || '').split(',').map(normalizeAddress).filter(Boolean));
+}
+
+// Null when no proxy is configured or the proxy sent no address
+export function getClientAddress(request: NextRequest): string | null {
+  const trustedProxies = getTrustedProxies();
+  if (trustedProxies.size === 0) return null;
+
+  const hops = (request.headers.get('x-forwarded-for') || '').split(',').map(normalizeAddress).filter(Boolean);
+
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (!trustedProxies.has(hops[i])) return hops[i];
+  }
+  // Every hop is a trusted proxy; the furthest one is the closest thing to the client
+  return hops[0] ?? null;
+}
@@ -56,6 +56,7 @@ export async function initializeDatabase() {
         organization: 'System',
         phone: '555-0000',
         isActive: true,
+        mustChangePassword: true, // The default password has to be replaced at first sign-in
       });
       
       console.log('Default admin user created:');
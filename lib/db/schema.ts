@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, type AnySQLiteColumn } from 'drizzle-orm/sqlite-core';
 import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
 import { z } from 'zod';
 
@@ -48,10 +48,49 @@ export const users = sqliteTable('users', {
   organization: text('organization'),
   phone: text('phone'),
   isActive: integer('is_active', { mode: 'boolean' }).notNull().default(true),
+  failedLoginCount: integer('failed_login_count').notNull().default(0), // Consecutive failed password sign-ins within the lockout window
+  lastFailedLoginAt: integer('last_failed_login_at', { mode: 'timestamp' }),
+  lockedAt: integer('locked_at', { mode: 'timestamp' }), // Set while the account is locked out
+  lockedUntil: integer('locked_until', { mode: 'timestamp' }), // Automatic unlock; null keeps a lock until an admin clears it
+  passwordChangedAt: integer('password_changed_at', { mode: 'timestamp' }), // For the maximum password age; null means since the account was created
+  mustChangePassword: integer('must_change_password', { mode: 'boolean' }).notNull().default(false), // Set when an admin assigns the password
+  mfaSecret: text('mfa_secret'), // Encrypted TOTP secret; set without mfaEnabledAt while enrollment is unconfirmed
+  mfaEnabledAt: integer('mfa_enabled_at', { mode: 'timestamp' }), // Set once the user has confirmed a code from their authenticator
+  mfaLastUsedStep: integer('mfa_last_used_step'), // TOTP time step of the last accepted code, so a code can't be replayed
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
+// Password History table - Hashes of each user's recent passwords, which may not be reused
+export const passwordHistory = sqliteTable('password_history', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  passwordHash: text('password_hash').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// MFA Recovery Codes table - One-time codes for signing in without the authenticator
+export const mfaRecoveryCodes = sqliteTable('mfa_recovery_codes', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  codeHash: text('code_hash').notNull(), // SHA-256 of the normalized code
+  usedAt: integer('used_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Login Attempts table - Every sign-in, for lockout, per-address throttling and login history
+export const loginAttempts = sqliteTable('login_attempts', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  email: text('email').notNull(), // As entered, so attempts against unknown accounts are kept too
+  userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }),
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
+  method: text('method').notNull().default('password'), // password, cac
+  successful: integer('successful', { mode: 'boolean' }).notNull(),
+  failureReason: text('failure_reason'), // invalid_credentials, invalid_mfa_code, account_locked
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
 // User Roles junction table - supports multiple roles per user
 export const userRoles = sqliteTable('user_roles', {
   id: integer('id').primaryKey({ autoIncrement: true }),
@@ -59,7 +98,47 @@ export const userRoles = sqliteTable('user_roles', {
   role: text('role').notNull().$type<UserRoleType>(),
   isActive: integer('is_active', { mode: 'boolean' }).notNull().default(true),
   assignedBy: integer('assigned_by').references(() => users.id), // Who assigned this role
+  delegatedFromUserId: integer('delegated_from_user_id').references(() => users.id), // Set when the role is held on behalf of another user while they are away
+  delegationReason: text('delegation_reason'),
+  startsAt: integer('starts_at', { mode: 'timestamp' }), // Delegations stay inactive until this time
+  expiresAt: integer('expires_at', { mode: 'timestamp' }), // Delegations are deactivated at this time; null for permanent roles
+  revokedAt: integer('revoked_at', { mode: 'timestamp' }), // Set when the role was removed or the delegation revoked before it ran out
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// User Sessions table - One row per sign-in. The session's JWT carries the jti, and the
+// middleware rejects tokens whose session has ended even while their signature is valid.
+export const userSessions = sqliteTable('user_sessions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  jti: text('jti').notNull().unique(), // JWT ID of the session's token
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  lastActivityAt: integer('last_activity_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()), // For the idle timeout
+  expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(), // Absolute end, whatever the activity
+  passwordChangeRequired: integer('password_change_required', { mode: 'boolean' }).notNull().default(false), // Signed in with an expired password; limited to changing it
+  consentAcknowledgedAt: integer('consent_acknowledged_at', { mode: 'timestamp' }), // When the user accepted the USG consent banner for this session
+  mfaEnrollmentRequired: integer('mfa_enrollment_required', { mode: 'boolean' }).notNull().default(false), // The user's role requires MFA they haven't set up; limited to enrolling
+  endedAt: integer('ended_at', { mode: 'timestamp' }), // Set once the session is over for any reason
+  endReason: text('end_reason'), // logout, idle_timeout, expired, session_limit, terminated, user_deactivated
+  endedBy: integer('ended_by').references(() => users.id), // Admin who terminated the session
+});
+
+// Information Systems - Admin-managed catalog of the systems media moves between
+export const informationSystems = sqliteTable('information_systems', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull().unique(),
+  atoId: text('ato_id').notNull(), // Authorization to Operate identifier
+  classification: text('classification').notNull(), // unclassified, cui, secret, top-secret, top-secret-sci
+  issmId: integer('issm_id').references(() => users.id), // Owning ISSM
+  allowOutbound: integer('allow_outbound', { mode: 'boolean' }).notNull().default(true), // May be a transfer source
+  allowInbound: integer('allow_inbound', { mode: 'boolean' }).notNull().default(true), // May be a transfer destination
+  isActive: integer('is_active', { mode: 'boolean' }).notNull().default(true),
+  createdBy: integer('created_by').references(() => users.id),
+  updatedBy: integer('updated_by').references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
 // Drive Inventory - Master list of all external drives
@@ -72,6 +151,9 @@ export const driveInventory = sqliteTable('drive_inventory', {
   mediaType: text('media_type').notNull().default('SSD'), // CD-R, DVD-R, DVD-RDL, SSD, SSD-T
   classification: text('classification').notNull(), // UNCLASSIFIED, SECRET, etc.
   status: text('status').notNull().default('available'), // available, issued, maintenance, retired
+  // Request the drive is bound to from submission until its media disposition
+  lockedRequestId: integer('locked_request_id').references((): AnySQLiteColumn => aftRequests.id),
+  lockedAt: integer('locked_at', { mode: 'timestamp' }),
   notes: text('notes'),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
@@ -107,13 +189,15 @@ export const aftRequests = sqliteTable('aft_requests', {
   dataDescription: text('data_description').notNull(),
   
   // Section 3: Source Information
-  sourceSystem: text('source_system'),
+  sourceSystemId: integer('source_system_id').references(() => informationSystems.id),
+  sourceSystem: text('source_system'), // System name as it was when the request was saved
   sourceLocation: text('source_location'),
   sourceContact: text('source_contact'),
   sourcePhone: text('source_phone'),
   sourceEmail: text('source_email'),
   
   // Section 4: Destination Information
+  destSystemId: integer('dest_system_id').references(() => informationSystems.id), // Primary destination
   destSystem: text('dest_system'),
   destLocation: text('dest_location'),
   destContact: text('dest_contact'),
@@ -148,12 +232,26 @@ export const aftRequests = sqliteTable('aft_requests', {
   approvalNotes: text('approval_notes'),
   approvalData: text('approval_data'), // JSON string containing approval signatures and details
   rejectionReason: text('rejection_reason'),
+
+  // Request wizard step to resume an autosaved draft at; null once the wizard is finished
+  wizardStep: integer('wizard_step'),
   
   // System fields
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
+// Request Templates table - Named starting points for recurring transfers
+export const requestTemplates = sqliteTable('request_templates', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  ownerId: integer('owner_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  organization: text('organization'), // Set when shared with the owner's organization; null keeps it personal
+  formData: text('form_data').notNull(), // JSON of the wizard fields the template fills in
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
 // File attachments table
 export const aftAttachments = sqliteTable('aft_attachments', {
   id: integer('id').primaryKey({ autoIncrement: true }),
@@ -169,16 +267,22 @@ export const aftAttachments = sqliteTable('aft_attachments', {
 });
 
 // Audit log table for tracking changes
+// Append-only and hash-chained - write through appendAuditLog in lib/audit-log.ts
 export const aftAuditLog = sqliteTable('aft_audit_log', {
   id: integer('id').primaryKey({ autoIncrement: true }),
-  requestId: integer('request_id').references(() => aftRequests.id, { onDelete: 'cascade' }),
+  requestId: integer('request_id'), // No foreign key: entries must outlive deleted draft requests unchanged
   userId: integer('user_id').notNull().references(() => users.id),
   action: text('action').notNull(), // created, updated, approved, rejected, etc.
   oldStatus: text('old_status'),
   newStatus: text('new_status'),
   changes: text('changes'), // JSON string of changed fields
   notes: text('notes'),
+  actorRole: text('actor_role'), // Role the user was acting in when the entry was written
+  ipAddress: text('ip_address'),
+  userAgent: text('user_agent'),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  previousHash: text('previous_hash'), // entryHash of the preceding entry, or 64 zeros for the first
+  entryHash: text('entry_hash'), // SHA-256 of the canonical entry content and previousHash
 });
 
 // Drive Issue/Return Tracking
@@ -187,17 +291,101 @@ export const driveTracking = sqliteTable('drive_tracking', {
   driveId: integer('drive_id').notNull().references(() => driveInventory.id),
   userId: integer('user_id').notNull().references(() => users.id), // Who has the drive
   custodianId: integer('custodian_id').notNull().references(() => users.id), // Who issued it
-  sourceIS: text('source_is').notNull(), // Source Information System
-  destinationIS: text('destination_is').notNull(), // Destination Information System
+  sourceSystemId: integer('source_system_id').references(() => informationSystems.id),
+  sourceIS: text('source_is').notNull(), // Source Information System name
+  destinationSystemId: integer('destination_system_id').references(() => informationSystems.id),
+  destinationIS: text('destination_is').notNull(), // Destination Information System name
   issuedAt: integer('issued_at', { mode: 'timestamp' }).notNull(),
   expectedReturnAt: integer('expected_return_at', { mode: 'timestamp' }), // Optional expected return date
   returnedAt: integer('returned_at', { mode: 'timestamp' }), // NULL if not yet returned
   status: text('status').notNull().default('issued'), // issued, returned, overdue
+  overdueAt: integer('overdue_at', { mode: 'timestamp' }), // When the overdue check flagged the issue
+  escalatedAt: integer('escalated_at', { mode: 'timestamp' }), // When admins were notified after the grace period
   issueNotes: text('issue_notes'),
   returnNotes: text('return_notes'),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
+// Drive Custody Ledger - Every hand-off of a drive from intake to retirement
+export const driveCustodyEvents = sqliteTable('drive_custody_events', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  driveId: integer('drive_id').notNull().references(() => driveInventory.id),
+  eventType: text('event_type').notNull(), // intake, issue, dta_handoff, sme_review, return, sanitization, destruction, retirement
+  fromUserId: integer('from_user_id').references(() => users.id), // Holder before the event, null at intake
+  toUserId: integer('to_user_id').references(() => users.id), // Holder after the event, null once destroyed or retired
+  requestId: integer('request_id').references(() => aftRequests.id),
+  trackingId: integer('tracking_id').references(() => driveTracking.id),
+  location: text('location'),
+  signedBy: integer('signed_by').notNull().references(() => users.id), // User who recorded and attested the hand-off
+  signature: text('signature'), // Signature text captured with the event, when the step collects one
+  notes: text('notes'),
+  occurredAt: integer('occurred_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Drive Sanitization Records - NIST SP 800-88 sanitization or destruction of a drive, with evidence
+export const driveSanitizationRecords = sqliteTable('drive_sanitization_records', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  driveId: integer('drive_id').notNull().references(() => driveInventory.id),
+  batchId: text('batch_id'), // Shared by every record of a batch destruction signed once
+  requestId: integer('request_id').references(() => aftRequests.id), // Request whose media disposition this fulfils, if any
+  method: text('method').notNull(), // clear, purge, destroy
+  tool: text('tool').notNull(), // Software or device used, e.g. degausser or shredder model
+  toolVersion: text('tool_version').notNull(),
+  verificationResult: text('verification_result').notNull(), // pass, fail
+  performedBy: integer('performed_by').notNull().references(() => users.id),
+  witnessId: integer('witness_id').notNull().references(() => users.id),
+  signature: text('signature').notNull(), // Performer's signature attesting the record
+  notes: text('notes'),
+  certificateOriginalName: text('certificate_original_name'), // Uploaded certificate of destruction, if any
+  certificateFilePath: text('certificate_file_path'), // Relative to the attachment storage directory
+  certificateMimeType: text('certificate_mime_type'),
+  certificateSize: integer('certificate_size'),
+  certificateChecksum: text('certificate_checksum'), // SHA-256
+  performedAt: integer('performed_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Inventory Campaigns - Physical inventory of the drive inventory, signed and archived once completed
+export const inventoryCampaigns = sqliteTable('inventory_campaigns', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  status: text('status').notNull().default('in_progress'), // in_progress, completed, cancelled
+  startedBy: integer('started_by').notNull().references(() => users.id),
+  startedAt: integer('started_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  completedBy: integer('completed_by').references(() => users.id),
+  completedAt: integer('completed_at', { mode: 'timestamp' }),
+  signature: text('signature'), // Custodian's signature attesting the completed results
+  expectedCount: integer('expected_count'), // Drives expected on hand when the campaign was completed
+  sightedCount: integer('sighted_count'),
+  notes: text('notes'),
+});
+
+// Inventory Sightings - Serial numbers scanned or typed during a campaign
+export const inventorySightings = sqliteTable('inventory_sightings', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  campaignId: integer('campaign_id').notNull().references(() => inventoryCampaigns.id, { onDelete: 'cascade' }),
+  serialNumber: text('serial_number').notNull(), // As scanned; matched to the inventory without regard to case
+  driveId: integer('drive_id').references(() => driveInventory.id), // Null when the serial number is not in the inventory
+  location: text('location'), // Where the drive was sighted
+  sightedBy: integer('sighted_by').notNull().references(() => users.id),
+  sightedAt: integer('sighted_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Inventory Discrepancies - Exceptions found when a campaign is completed, each resolved separately
+export const inventoryDiscrepancies = sqliteTable('inventory_discrepancies', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  campaignId: integer('campaign_id').notNull().references(() => inventoryCampaigns.id, { onDelete: 'cascade' }),
+  type: text('type').notNull(), // missing, unexpected, mislocated
+  serialNumber: text('serial_number').notNull(),
+  driveId: integer('drive_id').references(() => driveInventory.id),
+  expected: text('expected'), // Expected custody state, e.g. location or holder
+  observed: text('observed'), // What the campaign found
+  status: text('status').notNull().default('open'), // open, resolved
+  resolution: text('resolution'), // found, record_corrected, reported_lost, other
+  resolutionNotes: text('resolution_notes'),
+  resolvedBy: integer('resolved_by').references(() => users.id),
+  resolvedAt: integer('resolved_at', { mode: 'timestamp' }),
+});
+
 // CAC Digital Signatures table - Stores CAC-based digital signatures for each workflow step
 export const cacSignatures = sqliteTable('cac_signatures', {
   id: integer('id').primaryKey({ autoIncrement: true }),
@@ -212,6 +400,8 @@ export const cacSignatures = sqliteTable('cac_signatures', {
   certificateThumbprint: text('certificate_thumbprint').notNull(), // SHA-1 thumbprint for identification
   certificateNotBefore: integer('certificate_not_before', { mode: 'timestamp' }).notNull(),
   certificateNotAfter: integer('certificate_not_after', { mode: 'timestamp' }).notNull(),
+  certificateData: text('certificate_data'), // Base64-encoded DER signer certificate
+  certificateChain: text('certificate_chain'), // JSON array of Base64-encoded intermediate certificates
   
   // Digital Signature Data
   signatureData: text('signature_data').notNull(), // Base64-encoded signature
@@ -223,6 +413,7 @@ export const cacSignatures = sqliteTable('cac_signatures', {
   signatureLocation: text('signature_location'), // Geographic location
   ipAddress: text('ip_address'), // Client IP address
   userAgent: text('user_agent'), // Browser/client information
+  onBehalfOfUserId: integer('on_behalf_of_user_id').references(() => users.id), // Delegator, when the signer held the step's role through a delegation
   
   // Verification Status
   isVerified: integer('is_verified', { mode: 'boolean' }).notNull().default(false),
@@ -247,6 +438,24 @@ export const cacTrustStore = sqliteTable('cac_trust_store', {
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
+// CAC certificates bound to user accounts for certificate (mTLS) login
+export const userCertificates = sqliteTable('user_certificates', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  certificateThumbprint: text('certificate_thumbprint').notNull().unique(), // Uppercase SHA-1 of the DER certificate
+  certificateData: text('certificate_data').notNull(), // Base64-encoded DER certificate
+  subjectDN: text('subject_dn').notNull(),
+  issuerDN: text('issuer_dn').notNull(),
+  serialNumber: text('serial_number').notNull(),
+  edipi: text('edipi'), // DoD EDIPI from the subject CN, stays the same when a CAC is reissued
+  email: text('email'), // RFC 822 name from the subject alternative name
+  notBefore: integer('not_before', { mode: 'timestamp' }).notNull(),
+  notAfter: integer('not_after', { mode: 'timestamp' }).notNull(),
+  boundBy: integer('bound_by').references(() => users.id), // Admin who bound the certificate
+  lastUsedAt: integer('last_used_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
 // User Guides table
 export const userGuides = sqliteTable('user_guides', {
   id: text('id').primaryKey(), // URL-friendly ID like 'requestor-creating-aft-request'
@@ -262,6 +471,63 @@ export const userGuides = sqliteTable('user_guides', {
   updatedBy: integer('updated_by').references(() => users.id),
 });
 
+// Approval Policies - Admin-managed approver steps keyed on request attributes
+export const approvalPolicies = sqliteTable('approval_policies', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  description: text('description'),
+  // Matching criteria - null matches any value
+  transferType: text('transfer_type'), // low-to-low, low-to-high, high-to-low, high-to-high
+  classification: text('classification'), // UNCLASSIFIED, SECRET, etc.
+  mediaType: text('media_type'), // CD-R, DVD-R, DVD-RDL, SSD, SSD-T
+  priority: integer('priority').notNull().default(0), // Higher priority wins when several policies match
+  steps: text('steps').notNull(), // JSON array of approval steps (id, name, role, order, quorum)
+  isActive: integer('is_active', { mode: 'boolean' }).notNull().default(true),
+  createdBy: integer('created_by').references(() => users.id),
+  updatedBy: integer('updated_by').references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Certificate Revocation Lists - imported CRLs cached for offline revocation checking
+export const certificateRevocationLists = sqliteTable('certificate_revocation_lists', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  issuerDN: text('issuer_dn').notNull(), // Distinguished Name of the issuing CA
+  issuerThumbprint: text('issuer_thumbprint').notNull(), // Trust store certificate the CRL signature was verified with
+  crlNumber: text('crl_number'), // CRL Number extension (hex), when present
+  thisUpdate: integer('this_update', { mode: 'timestamp' }).notNull(),
+  nextUpdate: integer('next_update', { mode: 'timestamp' }),
+  crlData: text('crl_data').notNull(), // Base64-encoded DER CRL
+  crlHash: text('crl_hash').notNull().unique(), // SHA-256 of the DER CRL, used to skip re-imports
+  revokedCount: integer('revoked_count').notNull().default(0),
+  source: text('source').notNull(), // 'upload' or 'directory'
+  fileName: text('file_name'),
+  importedBy: integer('imported_by').references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Revoked certificate entries from the current CRL of each issuer
+export const revokedCertificates = sqliteTable('revoked_certificates', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  crlId: integer('crl_id').notNull().references(() => certificateRevocationLists.id, { onDelete: 'cascade' }),
+  issuerDN: text('issuer_dn').notNull(),
+  serialNumber: text('serial_number').notNull(), // Uppercase hex serial number
+  revocationDate: integer('revocation_date', { mode: 'timestamp' }).notNull(),
+  reason: text('reason'), // keyCompromise, superseded, etc.
+});
+
+// In-app notifications shown in each user's navigation bar
+export const notifications = sqliteTable('notifications', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  type: text('type').notNull(), // drive_overdue, drive_overdue_escalation, role_delegated
+  title: text('title').notNull(),
+  message: text('message').notNull(),
+  link: text('link'), // App path the notification opens
+  readAt: integer('read_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
 // Zod schemas for validation
 export const insertUserSchema = createInsertSchema(users);
 export const selectUserSchema = createSelectSchema(users);
@@ -295,13 +561,44 @@ export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 export type AFTRequest = typeof aftRequests.$inferSelect;
 export type NewAFTRequest = typeof aftRequests.$inferInsert;
+export type RequestTemplate = typeof requestTemplates.$inferSelect;
+export type NewRequestTemplate = typeof requestTemplates.$inferInsert;
+export type UserSession = typeof userSessions.$inferSelect;
+export type NewUserSession = typeof userSessions.$inferInsert;
+export type PasswordHistoryEntry = typeof passwordHistory.$inferSelect;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type NewLoginAttempt = typeof loginAttempts.$inferInsert;
+export type InformationSystem = typeof informationSystems.$inferSelect;
+export type NewInformationSystem = typeof informationSystems.$inferInsert;
 export type DriveInventory = typeof driveInventory.$inferSelect;
 export type NewDriveInventory = typeof driveInventory.$inferInsert;
 export type DriveTracking = typeof driveTracking.$inferSelect;
 export type NewDriveTracking = typeof driveTracking.$inferInsert;
+export type DriveCustodyEvent = typeof driveCustodyEvents.$inferSelect;
+export type NewDriveCustodyEvent = typeof driveCustodyEvents.$inferInsert;
+export type DriveSanitizationRecord = typeof driveSanitizationRecords.$inferSelect;
+export type NewDriveSanitizationRecord = typeof driveSanitizationRecords.$inferInsert;
+export type InventoryCampaign = typeof inventoryCampaigns.$inferSelect;
+export type NewInventoryCampaign = typeof inventoryCampaigns.$inferInsert;
+export type InventorySighting = typeof inventorySightings.$inferSelect;
+export type NewInventorySighting = typeof inventorySightings.$inferInsert;
+export type InventoryDiscrepancy = typeof inventoryDiscrepancies.$inferSelect;
+export type NewInventoryDiscrepancy = typeof inventoryDiscrepancies.$inferInsert;
+export type AuditLogEntry = typeof aftAuditLog.$inferSelect;
+export type NewAuditLogEntry = typeof aftAuditLog.$inferInsert;
 export type CACSignature = typeof cacSignatures.$inferSelect;
 export type NewCACSignature = typeof cacSignatures.$inferInsert;
 export type CACTrustStore = typeof cacTrustStore.$inferSelect;
 export type NewCACTrustStore = typeof cacTrustStore.$inferInsert;
+export type ApprovalPolicy = typeof approvalPolicies.$inferSelect;
+export type NewApprovalPolicy = typeof approvalPolicies.$inferInsert;
+export type CertificateRevocationList = typeof certificateRevocationLists.$inferSelect;
+export type NewCertificateRevocationList = typeof certificateRevocationLists.$inferInsert;
+export type RevokedCertificate = typeof revokedCertificates.$inferSelect;
+export type NewRevokedCertificate = typeof revokedCertificates.$inferInsert;
+export type UserCertificate = typeof userCertificates.$inferSelect;
+export type NewUserCertificate = typeof userCertificates.$inferInsert;
 export type UserGuide = typeof userGuides.$inferSelect;
-export type NewUserGuide = typeof userGuides.$inferInsert;
\ No newline at end of file
+export type NewUserGuide = typeof userGuides.$inferInsert;
+export type Notification = typeof notifications.$inferSelect;
+export type NewNotification = typeof notifications.$inferInsert;
@@ -0,0 +1,214 @@
+// Drive binding
+// A request names the drive the custodian issued to its requestor. At submission
+// the drive must still be issued to that requestor and be cleared for the request's
+// classification; it is then locked to the request so it cannot be returned or used
+// for another transfer until the media disposition is recorded.
+
+import { db } from '@/lib/db/server';
+import { aftRequests, driveInventory, driveTracking, users, type AFTRequest, type DriveInventory, type DriveTracking, type NewAFTRequest } from '@/lib/db/schema';
+import { and, desc, eq, exists, isNull, or, TransactionRollbackError } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/sqlite-core';
+import type { NextRequest } from 'next/server';
+import type { AuthUser } from './auth-server';
+import { recordAudit } from './audit-log';
+import { recordCustodyEvent } from './drive-custody-server';
+import type { CustodyEventType } from './drive-custody';
+import { getClassificationLabel, getClassificationLevel } from './classifications';
+
+export type DriveBindingResult =
+  | { ok: true; drive: DriveInventory; issue: DriveTracking }
+  | { ok: false; error: string; httpStatus: 400 | 404 | 409 };
+
+// The open issue record for a drive, if it is out with a user
+export async function getCurrentDriveIssue(driveId: number): Promise<DriveTracking | null> {
+  const issues = await db
+    .select()
+    .from(driveTracking)
+    .where(and(eq(driveTracking.driveId, driveId), isNull(driveTracking.returnedAt)))
+    .orderBy(desc(driveTracking.issuedAt))
+    .limit(1);
+  return issues[0] ?? null;
+}
+
+// Check that a drive can carry the given request
+export async function checkDriveBinding(
+  driveId: number,
+  request: { id: number; requestorId: number; classification: string }
+): Promise<DriveBindingResult> {
+  const drives = await db.select().from(driveInventory).where(eq(driveInventory.id, driveId)).limit(1);
+  if (drives.length === 0) {
+    return { ok: false, error: 'Selected drive not found', httpStatus: 404 };
+  }
+  const drive = drives[0];
+
+  const issue = await getCurrentDriveIssue(driveId);
+  if (!issue || issue.userId !== request.requestorId) {
+    return { ok: false, error: `Drive ${drive.serialNumber} is not currently issued to the requestor`, httpStatus: 400 };
+  }
+
+  if (drive.lockedRequestId && drive.lockedRequestId !== request.id) {
+    return { ok: false, error: `Drive ${drive.serialNumber} is already bound to another request`, httpStatus: 409 };
+  }
+
+  const driveLevel = getClassificationLevel(drive.classification);
+  const requestLevel = getClassificationLevel(request.classification);
+  if (driveLevel < 0 || requestLevel < 0 || driveLevel < requestLevel) {
+    return {
+      ok: false,
+      error: `Drive ${drive.serialNumber} is ${getClassificationLabel(drive.classification)} and cannot carry a ${getClassificationLabel(request.classification)} transfer`,
+      httpStatus: 400,
+    };
+  }
+
+  return { ok: true, drive, issue };
+}
+
+export type DriveLockResult =
+  | { ok: true; request: AFTRequest; drive: DriveInventory }
+  | { ok: false; error: string; httpStatus: 409 };
+
+// Move a request on and lock its drive to it in one transaction. The lock only takes a
+// drive that is still issued to the requestor and not held by another request, and the
+// request only moves if its status is still the one that was checked, so two submissions
+// racing for the same drive cannot both bind it.
+export function lockDriveToRequest(
+  driveId: number,
+  aftRequest: Pick<AFTRequest, 'id' | 'requestorId' | 'status'>,
+  changes: Partial<NewAFTRequest>
+): DriveLockResult {
+  let failure = null as string | null;
+  const now = new Date();
+
+  try {
+    return db.transaction(tx => {
+      const drive = tx
+        .update(driveInventory)
+        .set({ lockedRequestId: aftRequest.id, lockedAt: now, updatedAt: now })
+        .where(and(
+          eq(driveInventory.id, driveId),
+          or(isNull(driveInventory.lockedRequestId), eq(driveInventory.lockedRequestId, aftRequest.id)),
+          exists(tx
+            .select({ id: driveTracking.id })
+            .from(driveTracking)
+            .where(and(eq(driveTracking.driveId, driveId), eq(driveTracking.userId, aftRequest.requestorId), isNull(driveTracking.returnedAt))))
+        ))
+        .returning()
+        .get();
+      if (!drive) {
+        failure = 'The drive was bound to another request or returned - select the drive issued to you and try again';
+        tx.rollback();
+      }
+
+      const request = tx
+        .update(aftRequests)
+        .set({ ...changes, updatedAt: now })
+        .where(and(eq(aftRequests.id, aftRequest.id), eq(aftRequests.status, aftRequest.status)))
+        .returning()
+        .get();
+      if (!request) {
+        failure = 'The request was changed while it was being submitted - reload it and try again';
+        tx.rollback();
+      }
+
+      return { ok: true as const, request, drive };
+    });
+  } catch (error) {
+    if (failure && error instanceof TransactionRollbackError) {
+      return { ok: false, error: failure, httpStatus: 409 };
+    }
+    throw error;
+  }
+}
+
+// Release whatever drive is locked to the request; returns the released drive, if any
+export async function releaseDriveLock(requestId: number): Promise<DriveInventory | null> {
+  const released = await db
+    .update(driveInventory)
+    .set({ lockedRequestId: null, lockedAt: null, updatedAt: new Date() })
+    .where(eq(driveInventory.lockedRequestId, requestId))
+    .returning();
+  return released[0] ?? null;
+}
+
+// Close out a request's drive once the custodian signs off its disposition: record the
+// custody events the disposition covered, then free the drive for return and reuse
+export async function completeDriveDisposition(
+  request: NextRequest,
+  user: AuthUser,
+  aftRequest: { id: number; requestNumber: string; selectedDriveId: number | null },
+  custodyEvents: CustodyEventType[],
+  signature?: string
+): Promise<void> {
+  if (aftRequest.selectedDriveId) {
+    for (const eventType of custodyEvents) {
+      await recordCustodyEvent({
+        driveId: aftRequest.selectedDriveId,
+        eventType,
+        toUserId: user.id,
+        signedBy: user.id,
+        requestId: aftRequest.id,
+        signature,
+      });
+    }
+  }
+
+  const releasedDrive = await releaseDriveLock(aftRequest.id);
+  if (releasedDrive) {
+    recordAudit(request, user, {
+      action: 'drive_released',
+      requestId: aftRequest.id,
+      notes: `Drive ${releasedDrive.serialNumber} released from request ${aftRequest.requestNumber} after media disposition`,
+    });
+  }
+}
+
+// Inventory record, current issue and the requests that have named the drive
+export async function getDriveDetail(driveId: number) {
+  const drives = await db.select().from(driveInventory).where(eq(driveInventory.id, driveId)).limit(1);
+  if (drives.length === 0) {
+    return null;
+  }
+
+  const custodians = alias(users, 'custodians');
+  const issues = await db
+    .select({
+      id: driveTracking.id,
+      userId: driveTracking.userId,
+      userFirstName: users.firstName,
+      userLastName: users.lastName,
+      userEmail: users.email,
+      custodianId: driveTracking.custodianId,
+      custodianFirstName: custodians.firstName,
+      custodianLastName: custodians.lastName,
+      sourceIS: driveTracking.sourceIS,
+      destinationIS: driveTracking.destinationIS,
+      issuedAt: driveTracking.issuedAt,
+      expectedReturnAt: driveTracking.expectedReturnAt,
+      status: driveTracking.status,
+      issueNotes: driveTracking.issueNotes,
+    })
+    .from(driveTracking)
+    .innerJoin(users, eq(driveTracking.userId, users.id))
+    .innerJoin(custodians, eq(driveTracking.custodianId, custodians.id))
+    .where(and(eq(driveTracking.driveId, driveId), isNull(driveTracking.returnedAt)))
+    .orderBy(desc(driveTracking.issuedAt))
+    .limit(1);
+
+  const requests = await db
+    .select({
+      id: aftRequests.id,
+      requestNumber: aftRequests.requestNumber,
+      status: aftRequests.status,
+      requestorId: aftRequests.requestorId,
+      requestorName: aftRequests.requestorName,
+      classification: aftRequests.classification,
+      transferType: aftRequests.transferType,
+      createdAt: aftRequests.createdAt,
+      updatedAt: aftRequests.updatedAt,
+    })
+    .from(aftRequests)
+    .where(eq(aftRequests.selectedDriveId, driveId))
+    .orderBy(desc(aftRequests.createdAt));
+
+  return { ...drives[0], currentIssue: issues[0] ?? null, requests };
+}
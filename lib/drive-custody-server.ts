@@ -0,0 +1,131 @@
+// Custody ledger reads and writes. Routes record an event alongside the change that
+// moved the drive; the previous holder is taken from the ledger itself.
+
+import { db } from '@/lib/db/server';
+import { driveCustodyEvents, driveInventory, users, type DriveCustodyEvent } from '@/lib/db/schema';
+import { asc, desc, eq, inArray, max } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/sqlite-core';
+import { TERMINAL_CUSTODY_EVENTS, type CustodyEventType } from './drive-custody';
+
+export interface CustodyEventInput {
+  driveId: number;
+  eventType: CustodyEventType;
+  toUserId: number | null;
+  signedBy: number;
+  requestId?: number | null;
+  trackingId?: number | null;
+  location?: string | null;
+  signature?: string | null;
+  notes?: string | null;
+}
+
+// Holder after the most recent event, or null before intake and after destruction or retirement
+export async function getCurrentCustodian(driveId: number): Promise<number | null> {
+  const latest = await db
+    .select({ toUserId: driveCustodyEvents.toUserId })
+    .from(driveCustodyEvents)
+    .where(eq(driveCustodyEvents.driveId, driveId))
+    .orderBy(desc(driveCustodyEvents.id))
+    .limit(1);
+  return latest[0]?.toUserId ?? null;
+}
+
+export async function recordCustodyEvent(input: CustodyEventInput): Promise<DriveCustodyEvent> {
+  const fromUserId = await getCurrentCustodian(input.driveId);
+  const inserted = await db.insert(driveCustodyEvents).values({
+    driveId: input.driveId,
+    eventType: input.eventType,
+    fromUserId,
+    toUserId: TERMINAL_CUSTODY_EVENTS.includes(input.eventType) ? null : input.toUserId,
+    requestId: input.requestId ?? null,
+    trackingId: input.trackingId ?? null,
+    location: input.location || null,
+    signedBy: input.signedBy,
+    signature: input.signature || null,
+    notes: input.notes || null,
+    occurredAt: new Date(),
+  }).returning();
+  return inserted[0];
+}
+
+// The drive's full ledger, oldest first, with the names of everyone involved
+export async function getCustodyLedger(driveId: number) {
+  const fromUsers = alias(users, 'from_users');
+  const toUsers = alias(users, 'to_users');
+  const signers = alias(users, 'signers');
+
+  return db
+    .select({
+      id: driveCustodyEvents.id,
+      eventType: driveCustodyEvents.eventType,
+      requestId: driveCustodyEvents.requestId,
+      trackingId: driveCustodyEvents.trackingId,
+      location: driveCustodyEvents.location,
+      signature: driveCustodyEvents.signature,
+      notes: driveCustodyEvents.notes,
+      occurredAt: driveCustodyEvents.occurredAt,
+      fromUserId: driveCustodyEvents.fromUserId,
+      fromFirstName: fromUsers.firstName,
+      fromLastName: fromUsers.lastName,
+      toUserId: driveCustodyEvents.toUserId,
+      toFirstName: toUsers.firstName,
+      toLastName: toUsers.lastName,
+      signedBy: driveCustodyEvents.signedBy,
+      signerFirstName: signers.firstName,
+      signerLastName: signers.lastName,
+      signerEmail: signers.email,
+    })
+    .from(driveCustodyEvents)
+    .leftJoin(fromUsers, eq(driveCustodyEvents.fromUserId, fromUsers.id))
+    .leftJoin(toUsers, eq(driveCustodyEvents.toUserId, toUsers.id))
+    .innerJoin(signers, eq(driveCustodyEvents.signedBy, signers.id))
+    .where(eq(driveCustodyEvents.driveId, driveId))
+    .orderBy(asc(driveCustodyEvents.occurredAt), asc(driveCustodyEvents.id));
+}
+
+// Each drive's most recent event with the holder's name, keyed by drive ID
+export async function getLatestCustodyEvents() {
+  const latestIds = await db
+    .select({ id: max(driveCustodyEvents.id) })
+    .from(driveCustodyEvents)
+    .groupBy(driveCustodyEvents.driveId);
+  const eventIds = latestIds.map(latest => latest.id).filter((id): id is number => id !== null);
+  const events = eventIds.length === 0 ? [] : await db
+    .select({
+      driveId: driveCustodyEvents.driveId,
+      eventType: driveCustodyEvents.eventType,
+      location: driveCustodyEvents.location,
+      occurredAt: driveCustodyEvents.occurredAt,
+      toUserId: driveCustodyEvents.toUserId,
+      toFirstName: users.firstName,
+      toLastName: users.lastName,
+    })
+    .from(driveCustodyEvents)
+    .leftJoin(users, eq(driveCustodyEvents.toUserId, users.id))
+    .where(inArray(driveCustodyEvents.id, eventIds));
+  return new Map(events.map(event => [event.driveId, event]));
+}
+
+// A drive that never left intake can be deleted along with its ledger; returns false
+// once the drive has any later custody history, which must be kept
+export async function clearIntakeOnlyLedger(driveId: number): Promise<boolean> {
+  const events = await db
+    .select({ eventType: driveCustodyEvents.eventType })
+    .from(driveCustodyEvents)
+    .where(eq(driveCustodyEvents.driveId, driveId));
+  if (events.some(event => event.eventType !== 'intake')) {
+    return false;
+  }
+
+  await db.delete(driveCustodyEvents).where(eq(driveCustodyEvents.driveId, driveId));
+  return true;
+}
+
+export async function findDriveBySerialNumber(serialNumber: string) {
+  const drives = await db
+    .select()
+    .from(driveInventory)
+    .where(eq(driveInventory.serialNumber, serialNumber))
+    .limit(1);
+  return drives[0] ?? null;
+}
@@ -0,0 +1,32 @@
+// Drive chain of custody
+// Append-only ledger of who held each drive, where, and who signed for it
+
+export const CUSTODY_EVENT_TYPES = [
+  'intake',
+  'issue',
+  'dta_handoff',
+  'sme_review',
+  'return',
+  'sanitization',
+  'destruction',
+  'retirement',
+] as const;
+export type CustodyEventType = typeof CUSTODY_EVENT_TYPES[number];
+
+export const CUSTODY_EVENT_LABELS: Record<CustodyEventType, string> = {
+  intake: 'Inventory intake',
+  issue: 'Issued to requestor',
+  dta_handoff: 'Handed to DTA',
+  sme_review: 'SME review',
+  return: 'Returned to custodian',
+  sanitization: 'Sanitized',
+  destruction: 'Destroyed',
+  retirement: 'Retired',
+};
+
+// Events after which the drive is out of circulation and has no holder
+export const TERMINAL_CUSTODY_EVENTS: CustodyEventType[] = ['destruction', 'retirement'];
+
+export function getCustodyEventLabel(eventType: string): string {
+  return CUSTODY_EVENT_LABELS[eventType as CustodyEventType] || eventType;
+}
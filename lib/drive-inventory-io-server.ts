@@ -0,0 +1,103 @@
+// Inventory import writes and the export query. An import is all-or-nothing: the
+// drives and their intake custody events are inserted in one transaction.
+
+import { db } from '@/lib/db/server';
+import { aftRequests, driveCustodyEvents, driveInventory, driveTracking, users, type DriveInventory } from '@/lib/db/schema';
+import { and, asc, eq, isNull } from 'drizzle-orm';
+import { getLatestCustodyEvents } from './drive-custody-server';
+import type { DriveImportRow } from './drive-inventory-io';
+
+// Rows per insert statement, well under SQLite's bound parameter limit
+const INSERT_BATCH_SIZE = 200;
+
+export async function getInventorySerialNumbers(): Promise<string[]> {
+  const drives = await db.select({ serialNumber: driveInventory.serialNumber }).from(driveInventory);
+  return drives.map(drive => drive.serialNumber);
+}
+
+// Insert validated rows, taking each drive into the importing custodian's custody
+export function importDrives(rows: DriveImportRow[], custodianId: number): DriveInventory[] {
+  const now = new Date();
+
+  return db.transaction(tx => {
+    const imported: DriveInventory[] = [];
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      const batch = rows.slice(i, i + INSERT_BATCH_SIZE);
+      const drives = tx.insert(driveInventory).values(batch.map(row => ({
+        serialNumber: row.serialNumber,
+        model: row.model,
+        capacity: row.capacity,
+        mediaController: row.mediaController,
+        mediaType: row.mediaType,
+        classification: row.classification,
+        status: row.status,
+        notes: row.notes ?? null,
+        createdAt: now,
+        updatedAt: now,
+      }))).returning().all();
+
+      // New drives have no previous holder, so intake events are written directly
+      tx.insert(driveCustodyEvents).values(drives.map((drive, index) => ({
+        driveId: drive.id,
+        eventType: 'intake',
+        fromUserId: null,
+        toUserId: custodianId,
+        location: batch[index].location ?? null,
+        signedBy: custodianId,
+        notes: 'Bulk inventory import',
+        occurredAt: now,
+      }))).run();
+
+      imported.push(...drives);
+    }
+    return imported;
+  });
+}
+
+// Every drive with its open issue, request lock and latest custody event, by serial number
+export async function getInventoryExport() {
+  const drives = await db
+    .select({
+      drive: driveInventory,
+      issuedToFirstName: users.firstName,
+      issuedToLastName: users.lastName,
+      issuedToEmail: users.email,
+      issuedAt: driveTracking.issuedAt,
+      expectedReturnAt: driveTracking.expectedReturnAt,
+      issueStatus: driveTracking.status,
+      lockedRequestNumber: aftRequests.requestNumber,
+    })
+    .from(driveInventory)
+    .leftJoin(driveTracking, and(eq(driveTracking.driveId, driveInventory.id), isNull(driveTracking.returnedAt)))
+    .leftJoin(users, eq(driveTracking.userId, users.id))
+    .leftJoin(aftRequests, eq(driveInventory.lockedRequestId, aftRequests.id))
+    .orderBy(asc(driveInventory.serialNumber));
+
+  const latestByDrive = await getLatestCustodyEvents();
+
+  return drives.map(({ drive, ...issue }) => {
+    const custody = latestByDrive.get(drive.id);
+    return {
+      serialNumber: drive.serialNumber,
+      model: drive.model,
+      capacity: drive.capacity,
+      mediaController: drive.mediaController,
+      mediaType: drive.mediaType,
+      classification: drive.classification,
+      status: drive.status,
+      notes: drive.notes,
+      issuedTo: issue.issuedToFirstName ? `${issue.issuedToFirstName} ${issue.issuedToLastName}` : null,
+      issuedToEmail: issue.issuedToEmail,
+      issuedAt: issue.issuedAt,
+      expectedReturnAt: issue.expectedReturnAt,
+      issueStatus: issue.issueStatus,
+      lockedRequestNumber: issue.lockedRequestNumber,
+      currentCustodian: custody?.toFirstName ? `${custody.toFirstName} ${custody.toLastName}` : null,
+      lastCustodyEvent: custody?.eventType ?? null,
+      lastCustodyEventAt: custody?.occurredAt ?? null,
+      lastCustodyLocation: custody?.location ?? null,
+      createdAt: drive.createdAt,
+      updatedAt: drive.updatedAt,
+    };
+  });
+}
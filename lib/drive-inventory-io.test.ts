@@ -0,0 +1,125 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCsv, parseDriveImport, toCsv, validateDriveImport } from './drive-inventory-io';
+
+const HEADER = 'Serial Number,Model,Capacity,Media Controller,Media Type,Classification,Status,Location,Notes';
+
+function importCsv(...lines: string[]) {
+  const parsed = parseDriveImport([HEADER, ...lines].join('\r\n'), 'csv');
+  assert.ok(parsed.ok);
+  return parsed.records;
+}
+
+describe('parseCsv', () => {
+  test('reads quoted fields with commas, doubled quotes and line breaks', () => {
+    assert.deepEqual(parseCsv('a,"b, c","say ""hi""","two\nlines"\r\nd,e,f,g'), [
+      ['a', 'b, c', 'say "hi"', 'two\nlines'],
+      ['d', 'e', 'f', 'g'],
+    ]);
+  });
+
+  test('skips blank lines and keeps a last line without a line break', () => {
+    assert.deepEqual(parseCsv('a,b\n\n , \nc,d'), [['a', 'b'], ['c', 'd']]);
+  });
+});
+
+describe('toCsv', () => {
+  test('quotes cells with commas, quotes and line breaks', () => {
+    const csv = toCsv(['serialNumber', 'notes'], [{ serialNumber: 'SN-1', notes: 'Scratched, "label" faded\nReplaced case' }]);
+    assert.equal(csv, 'serialNumber,notes\nSN-1,"Scratched, ""label"" faded\nReplaced case"');
+  });
+
+  test('writes dates as ISO timestamps and missing values as empty cells', () => {
+    const csv = toCsv(['createdAt', 'issuedTo', 'lockedRequestNumber'], [
+      { createdAt: new Date('2026-01-02T03:04:05.000Z'), issuedTo: null },
+    ]);
+    assert.equal(csv, 'createdAt,issuedTo,lockedRequestNumber\n2026-01-02T03:04:05.000Z,,');
+  });
+
+  test('prefixes text that a spreadsheet would evaluate as a formula', () => {
+    const formulas = ['=HYPERLINK("http://example.com","x")', '+1+1', '-2+3', '@SUM(A1)', '\tTAB', '\rCR'];
+    const csv = toCsv(['notes'], formulas.map(notes => ({ notes })));
+    assert.deepEqual(parseCsv(csv).slice(1).map(([cell]) => cell), [
+      `'=HYPERLINK("http://example.com","x")`,
+      `'+1+1`,
+      `'-2+3`,
+      `'@SUM(A1)`,
+      `'\tTAB`,
+      `'\rCR`,
+    ]);
+  });
+
+  test('leaves numbers and text with formula characters later on alone', () => {
+    const csv = toCsv(['capacity', 'notes'], [{ capacity: -1, notes: 'Serial A=B' }]);
+    assert.equal(csv, 'capacity,notes\n-1,Serial A=B');
+  });
+});
+
+describe('parseDriveImport', () => {
+  test('matches headers without regard to case, spaces or underscores', () => {
+    const parsed = parseDriveImport('\uFEFFserial_number,MEDIA TYPE,Other\nSN-1,ssd,x', 'csv');
+    assert.deepEqual(parsed, { ok: true, records: [{ serialNumber: 'SN-1', mediaType: 'ssd', Other: 'x' }] });
+  });
+
+  test('accepts a JSON array or an object with a drives array', () => {
+    const drive = { serial_number: 'SN-1', model: 'X' };
+    const expected = { ok: true, records: [{ serialNumber: 'SN-1', model: 'X' }] };
+    assert.deepEqual(parseDriveImport(JSON.stringify([drive]), 'json'), expected);
+    assert.deepEqual(parseDriveImport(JSON.stringify({ drives: [drive] }), 'json'), expected);
+  });
+
+  test('reports files with nothing to import', () => {
+    assert.deepEqual(parseDriveImport('', 'csv'), { ok: false, error: 'CSV file is empty' });
+    assert.deepEqual(parseDriveImport(HEADER, 'csv'), { ok: false, error: 'File contains no drives' });
+    assert.deepEqual(parseDriveImport('{"drives": "none"}', 'json'), {
+      ok: false,
+      error: 'JSON must be an array of drive objects, or an object with a "drives" array',
+    });
+    assert.deepEqual(parseDriveImport('not json', 'json'), { ok: false, error: 'File is not valid JSON' });
+  });
+});
+
+describe('validateDriveImport', () => {
+  test('normalizes media type, classification and status', () => {
+    const report = validateDriveImport(importCsv('SN-1,Model X,1TB,USB 3.0,ssd-t,top secret//sci,,Vault A,'), []);
+    assert.equal(report.valid, 1);
+    assert.deepEqual(report.rows[0].data, {
+      serialNumber: 'SN-1',
+      model: 'Model X',
+      capacity: '1TB',
+      mediaController: 'USB 3.0',
+      mediaType: 'SSD-T',
+      classification: 'TOP SECRET//SCI',
+      status: 'available',
+      location: 'Vault A',
+      notes: undefined,
+    });
+  });
+
+  test('reports every problem on a row', () => {
+    const report = validateDriveImport(importCsv(',Model X,1TB,USB,TAPE,restricted,issued,,'), []);
+    assert.equal(report.invalid, 1);
+    assert.equal(report.rows[0].data, null);
+    assert.deepEqual(report.rows[0].errors, [
+      'Serial number is required',
+      'Media type must be one of CD-R, DVD-R, DVD-RDL, SSD, SSD-T',
+      'Classification must be one of UNCLASSIFIED, CUI, CONFIDENTIAL, SECRET, TOP SECRET, TOP SECRET//SCI',
+      'Status must be available or maintenance',
+    ]);
+  });
+
+  test('refuses serial numbers already in the inventory or repeated in the file', () => {
+    const report = validateDriveImport(importCsv(
+      'sn-1,Model X,1TB,USB,SSD,SECRET,,,',
+      'SN-2,Model X,1TB,USB,SSD,SECRET,,,',
+      'sn-2 ,Model X,1TB,USB,SSD,SECRET,,,',
+    ), ['SN-1']);
+
+    assert.deepEqual(report.rows.map(row => row.errors), [
+      ['Serial number sn-1 is already in the inventory'],
+      [],
+      ['Serial number sn-2 is repeated from row 2'],
+    ]);
+    assert.deepEqual({ total: report.total, valid: report.valid, invalid: report.invalid }, { total: 3, valid: 1, invalid: 2 });
+  });
+});
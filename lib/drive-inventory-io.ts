@@ -0,0 +1,214 @@
+// Drive inventory CSV/JSON import and export
+// Import rows are validated one by one, so a dry run reports every error without writing
+
+import { z } from 'zod';
+import { CLASSIFICATIONS, CLASSIFICATION_LABELS, normalizeClassification } from './classifications';
+
+export const DRIVE_MEDIA_TYPES = ['CD-R', 'DVD-R', 'DVD-RDL', 'SSD', 'SSD-T'] as const;
+// Drives are marked with the uppercase labels
+export const DRIVE_CLASSIFICATIONS = CLASSIFICATIONS.map(classification => CLASSIFICATION_LABELS[classification]);
+// Imported drives go into stock; issue and retirement happen through their own workflows
+export const IMPORTABLE_DRIVE_STATUSES = ['available', 'maintenance'] as const;
+
+export const DRIVE_IMPORT_FORMATS = ['csv', 'json'] as const;
+export type DriveImportFormat = typeof DRIVE_IMPORT_FORMATS[number];
+
+export const MAX_DRIVE_IMPORT_ROWS = 5000;
+
+export const DRIVE_IMPORT_COLUMNS = ['serialNumber', 'model', 'capacity', 'mediaController', 'mediaType', 'classification', 'status', 'location', 'notes'] as const;
+
+const requiredText = (label: string, max: number) =>
+  z.string({ message: `${label} is required` }).trim().min(1, `${label} is required`).max(max);
+const optionalText = (max: number) => z.string().trim().max(max).optional().transform(value => value || undefined);
+
+export const driveImportRowSchema = z.object({
+  serialNumber: requiredText('Serial number', 100),
+  model: requiredText('Model', 200),
+  capacity: requiredText('Capacity', 50),
+  mediaController: requiredText('Media controller', 100),
+  mediaType: z.string({ message: 'Media type is required' }).trim().toUpperCase().pipe(z.enum(DRIVE_MEDIA_TYPES, { message: `Media type must be one of ${DRIVE_MEDIA_TYPES.join(', ')}` })),
+  classification: z.string({ message: 'Classification is required' }).transform(normalizeClassification)
+    .pipe(z.enum(CLASSIFICATIONS, { message: `Classification must be one of ${DRIVE_CLASSIFICATIONS.join(', ')}` }))
+    .transform(classification => CLASSIFICATION_LABELS[classification]),
+  status: z.string().trim().toLowerCase().optional().transform(value => value || 'available')
+    .pipe(z.enum(IMPORTABLE_DRIVE_STATUSES, { message: 'Status must be available or maintenance' })),
+  location: optionalText(200),
+  notes: optionalText(2000),
+});
+
+export type DriveImportRow = z.infer<typeof driveImportRowSchema>;
+
+export interface DriveImportRowResult {
+  rowNumber: number; // 1-based data row, not counting the CSV header
+  serialNumber: string | null;
+  data: DriveImportRow | null;
+  errors: string[];
+}
+
+export interface DriveImportReport {
+  total: number;
+  valid: number;
+  invalid: number;
+  rows: DriveImportRowResult[];
+}
+
+// RFC 4180 CSV: quoted fields may contain commas, doubled quotes and line breaks
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+function escapeCsvCell(value: unknown): string {
+  let text = value === null || value === undefined ? '' : value instanceof Date ? value.toISOString() : String(value);
+  // Text starting like a formula is prefixed so spreadsheets show it instead of evaluating it
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(columns: readonly string[], records: Record<string, unknown>[]): string {
+  return [
+    columns.join(','),
+    ...records.map(record => columns.map(column => escapeCsvCell(record[column])).join(',')),
+  ].join('\n');
+}
+
+// Headers are matched without regard to case, spaces or underscores, e.g. "Serial Number"
+function normalizeHeader(header: string): string {
+  const compact = header.trim().toLowerCase().replace(/[\s_-]+/g, '');
+  return DRIVE_IMPORT_COLUMNS.find(column => column.toLowerCase() === compact) ?? header.trim();
+}
+
+export type ParsedDriveImport =
+  | { ok: true; records: Record<string, unknown>[] }
+  | { ok: false; error: string };
+
+export function parseDriveImport(content: string, format: DriveImportFormat): ParsedDriveImport {
+  let records: Record<string, unknown>[];
+
+  if (format === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      return { ok: false, error: 'File is not valid JSON' };
+    }
+    const list = Array.isArray(parsed) ? parsed : (parsed as { drives?: unknown })?.drives;
+    if (!Array.isArray(list) || list.some(item => typeof item !== 'object' || item === null || Array.isArray(item))) {
+      return { ok: false, error: 'JSON must be an array of drive objects, or an object with a "drives" array' };
+    }
+    records = list.map(item => Object.fromEntries(
+      Object.entries(item as Record<string, unknown>).map(([key, value]) => [normalizeHeader(key), value])
+    ));
+  } else {
+    const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+    if (!header) {
+      return { ok: false, error: 'CSV file is empty' };
+    }
+    const columns = header.map(normalizeHeader);
+    records = rows.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ''])));
+  }
+
+  if (records.length === 0) {
+    return { ok: false, error: 'File contains no drives' };
+  }
+  if (records.length > MAX_DRIVE_IMPORT_ROWS) {
+    return { ok: false, error: `A single import is limited to ${MAX_DRIVE_IMPORT_ROWS} drives` };
+  }
+  return { ok: true, records };
+}
+
+// Validate every row; serial numbers are compared without regard to case
+export function validateDriveImport(records: Record<string, unknown>[], existingSerialNumbers: Iterable<string>): DriveImportReport {
+  const existing = new Set([...existingSerialNumbers].map(serial => serial.trim().toUpperCase()));
+  const firstRowBySerial = new Map<string, number>();
+
+  const rows = records.map((record, index): DriveImportRowResult => {
+    const rowNumber = index + 1;
+    const input = Object.fromEntries(
+      Object.entries(record).map(([key, value]) => [key, value === null || value === undefined ? undefined : String(value)])
+    );
+    const parsed = driveImportRowSchema.safeParse(input);
+    const errors = parsed.success ? [] : parsed.error.issues.map(issue => issue.message);
+    const serialNumber = typeof input.serialNumber === 'string' && input.serialNumber.trim() ? input.serialNumber.trim() : null;
+
+    if (serialNumber) {
+      const key = serialNumber.toUpperCase();
+      if (existing.has(key)) {
+        errors.push(`Serial number ${serialNumber} is already in the inventory`);
+      }
+      const firstRow = firstRowBySerial.get(key);
+      if (firstRow) {
+        errors.push(`Serial number ${serialNumber} is repeated from row ${firstRow}`);
+      } else {
+        firstRowBySerial.set(key, rowNumber);
+      }
+    }
+
+    return { rowNumber, serialNumber, data: errors.length === 0 && parsed.success ? parsed.data : null, errors };
+  });
+
+  const valid = rows.filter(row => row.errors.length === 0).length;
+  return { total: rows.length, valid, invalid: rows.length - valid, rows };
+}
+
+// Columns of the inventory export, in order
+export const DRIVE_EXPORT_COLUMNS = [
+  'serialNumber',
+  'model',
+  'capacity',
+  'mediaController',
+  'mediaType',
+  'classification',
+  'status',
+  'notes',
+  'issuedTo',
+  'issuedToEmail',
+  'issuedAt',
+  'expectedReturnAt',
+  'issueStatus',
+  'lockedRequestNumber',
+  'currentCustodian',
+  'lastCustodyEvent',
+  'lastCustodyEventAt',
+  'lastCustodyLocation',
+  'createdAt',
+  'updatedAt',
+] as const;
@@ -0,0 +1,225 @@
+// Sanitization record reads and writes. Routes check the drives and the witness with
+// prepareSanitization before storing any uploaded certificate, then write the records,
+// inventory status changes and custody events in one transaction with recordSanitization.
+
+import { randomUUID } from 'crypto';
+import { db } from '@/lib/db/server';
+import {
+  aftRequests,
+  driveCustodyEvents,
+  driveInventory,
+  driveSanitizationRecords,
+  users,
+  type DriveInventory,
+  type DriveSanitizationRecord,
+} from '@/lib/db/schema';
+import { desc, eq, inArray } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/sqlite-core';
+import { commitStagedUpload, discardCommittedUpload, type StagedUpload } from './attachments';
+import { getCurrentDriveIssue } from './drive-binding';
+import { getCurrentCustodian } from './drive-custody-server';
+import { TERMINAL_CUSTODY_EVENTS, type CustodyEventType } from './drive-custody';
+import {
+  getSanitizationMethodLabel,
+  getSanitizedDriveStatus,
+  isOpticalMedia,
+  type SanitizationMethod,
+  type VerificationResult,
+} from './drive-sanitization';
+
+export interface SanitizationDetails {
+  method: SanitizationMethod;
+  tool: string;
+  toolVersion: string;
+  verificationResult: VerificationResult;
+  witnessId: number;
+  signature: string;
+  notes?: string;
+  requestId?: number;
+}
+
+export interface SanitizationCertificate {
+  originalName: string;
+  filePath: string;
+  mimeType: string;
+  size: number;
+  checksum: string;
+}
+
+export type PrepareSanitizationResult =
+  | { ok: true; drives: DriveInventory[] }
+  | { ok: false; error: string; httpStatus: 400 | 404 | 409 };
+
+// Check that every drive is in the custodian's hands and can take the method, and
+// that the witness is another active user
+export async function prepareSanitization(
+  driveIds: number[],
+  details: SanitizationDetails,
+  performedBy: number
+): Promise<PrepareSanitizationResult> {
+  if (details.witnessId === performedBy) {
+    return { ok: false, error: 'The witness must be someone other than the person performing the sanitization', httpStatus: 400 };
+  }
+  const witnesses = await db
+    .select({ id: users.id, isActive: users.isActive })
+    .from(users)
+    .where(eq(users.id, details.witnessId))
+    .limit(1);
+  if (witnesses.length === 0 || !witnesses[0].isActive) {
+    return { ok: false, error: 'Witness not found or inactive', httpStatus: 400 };
+  }
+
+  if (details.requestId) {
+    const requests = await db
+      .select({ id: aftRequests.id })
+      .from(aftRequests)
+      .where(eq(aftRequests.id, details.requestId))
+      .limit(1);
+    if (requests.length === 0) {
+      return { ok: false, error: 'AFT request not found', httpStatus: 404 };
+    }
+  }
+
+  const uniqueIds = [...new Set(driveIds)];
+  const drives = await db.select().from(driveInventory).where(inArray(driveInventory.id, uniqueIds));
+  if (drives.length !== uniqueIds.length) {
+    return { ok: false, error: 'One or more drives were not found', httpStatus: 404 };
+  }
+
+  for (const drive of drives) {
+    if (drive.status === 'retired') {
+      return { ok: false, error: `Drive ${drive.serialNumber} is already retired`, httpStatus: 409 };
+    }
+    if (drive.lockedRequestId) {
+      return { ok: false, error: `Drive ${drive.serialNumber} is locked to an AFT request awaiting media disposition`, httpStatus: 409 };
+    }
+    if (await getCurrentDriveIssue(drive.id)) {
+      return { ok: false, error: `Drive ${drive.serialNumber} is issued and must be returned before sanitization`, httpStatus: 409 };
+    }
+    if (details.method !== 'destroy' && isOpticalMedia(drive.mediaType)) {
+      return { ok: false, error: `Drive ${drive.serialNumber} is ${drive.mediaType} optical media and can only be destroyed`, httpStatus: 400 };
+    }
+  }
+
+  return { ok: true, drives };
+}
+
+// Move an uploaded certificate of destruction into storage under sanitization/
+export async function storeSanitizationCertificate(upload: StagedUpload, directory: string): Promise<SanitizationCertificate> {
+  const { filePath } = await commitStagedUpload(upload, `sanitization/${directory}`);
+  return {
+    originalName: upload.originalName,
+    filePath,
+    mimeType: upload.mimeType,
+    size: upload.size,
+    checksum: upload.checksum,
+  };
+}
+
+// Write one record per drive, move each drive to its post-sanitization status and add
+// its custody event. Several drives are written as one batch sharing a batch ID,
+// signature and certificate; the batch is all-or-nothing, and a certificate already
+// stored for it is removed if it fails.
+export async function recordSanitization(
+  drives: DriveInventory[],
+  details: SanitizationDetails,
+  performedBy: number,
+  certificate: SanitizationCertificate | null
+): Promise<{ batchId: string | null; records: DriveSanitizationRecord[] }> {
+  const batchId = drives.length > 1 ? randomUUID() : null;
+  const status = getSanitizedDriveStatus(details.method, details.verificationResult);
+  const verified = details.verificationResult === 'pass';
+  const eventType: CustodyEventType = details.method === 'destroy' && verified ? 'destruction' : 'sanitization';
+  const holders = await Promise.all(drives.map(drive => getCurrentCustodian(drive.id)));
+  const now = new Date();
+
+  try {
+    const records = db.transaction(tx => {
+      const records = tx.insert(driveSanitizationRecords).values(drives.map(drive => ({
+        driveId: drive.id,
+        batchId,
+        requestId: details.requestId ?? null,
+        method: details.method,
+        tool: details.tool,
+        toolVersion: details.toolVersion,
+        verificationResult: details.verificationResult,
+        performedBy,
+        witnessId: details.witnessId,
+        signature: details.signature,
+        notes: details.notes || null,
+        certificateOriginalName: certificate?.originalName ?? null,
+        certificateFilePath: certificate?.filePath ?? null,
+        certificateMimeType: certificate?.mimeType ?? null,
+        certificateSize: certificate?.size ?? null,
+        certificateChecksum: certificate?.checksum ?? null,
+        performedAt: now,
+      }))).returning().all();
+
+      tx.update(driveInventory)
+        .set({ status, updatedAt: now })
+        .where(inArray(driveInventory.id, drives.map(drive => drive.id)))
+        .run();
+
+      tx.insert(driveCustodyEvents).values(drives.map((drive, index) => ({
+        driveId: drive.id,
+        eventType,
+        fromUserId: holders[index],
+        toUserId: TERMINAL_CUSTODY_EVENTS.includes(eventType) ? null : performedBy,
+        requestId: details.requestId ?? null,
+        signedBy: performedBy,
+        signature: details.signature,
+        notes: `${getSanitizationMethodLabel(details.method)} with ${details.tool} ${details.toolVersion}, verification ${verified ? 'passed' : 'failed'}`,
+        occurredAt: now,
+      }))).run();
+
+      return records;
+    });
+
+    return { batchId, records };
+  } catch (error) {
+    await discardCommittedUpload(certificate?.filePath ?? null);
+    throw error;
+  }
+}
+
+// A drive's sanitization history, newest first, with performer and witness names
+export async function getSanitizationRecords(driveId: number) {
+  const witnesses = alias(users, 'witnesses');
+
+  return db
+    .select({
+      id: driveSanitizationRecords.id,
+      driveId: driveSanitizationRecords.driveId,
+      batchId: driveSanitizationRecords.batchId,
+      requestId: driveSanitizationRecords.requestId,
+      method: driveSanitizationRecords.method,
+      tool: driveSanitizationRecords.tool,
+      toolVersion: driveSanitizationRecords.toolVersion,
+      verificationResult: driveSanitizationRecords.verificationResult,
+      signature: driveSanitizationRecords.signature,
+      notes: driveSanitizationRecords.notes,
+      certificateOriginalName: driveSanitizationRecords.certificateOriginalName,
+      certificateChecksum: driveSanitizationRecords.certificateChecksum,
+      performedAt: driveSanitizationRecords.performedAt,
+      performedBy: driveSanitizationRecords.performedBy,
+      performerFirstName: users.firstName,
+      performerLastName: users.lastName,
+      witnessId: driveSanitizationRecords.witnessId,
+      witnessFirstName: witnesses.firstName,
+      witnessLastName: witnesses.lastName,
+    })
+    .from(driveSanitizationRecords)
+    .innerJoin(users, eq(driveSanitizationRecords.performedBy, users.id))
+    .innerJoin(witnesses, eq(driveSanitizationRecords.witnessId, witnesses.id))
+    .where(eq(driveSanitizationRecords.driveId, driveId))
+    .orderBy(desc(driveSanitizationRecords.performedAt), desc(driveSanitizationRecords.id));
+}
+
+export async function getSanitizationRecord(recordId: number): Promise<DriveSanitizationRecord | null> {
+  const records = await db
+    .select()
+    .from(driveSanitizationRecords)
+    .where(eq(driveSanitizationRecords.id, recordId))
+    .limit(1);
+  return records[0] ?? null;
+}
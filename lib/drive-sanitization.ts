@@ -0,0 +1,62 @@
+// Drive sanitization records (NIST SP 800-88)
+// The clear, purge or destroy outcome decides whether a drive goes back into circulation
+
+import { z } from 'zod';
+
+export const SANITIZATION_METHODS = ['clear', 'purge', 'destroy'] as const;
+export type SanitizationMethod = typeof SANITIZATION_METHODS[number];
+
+export const SANITIZATION_METHOD_LABELS: Record<SanitizationMethod, string> = {
+  clear: 'NIST 800-88 Clear',
+  purge: 'NIST 800-88 Purge',
+  destroy: 'NIST 800-88 Destroy',
+};
+
+export const VERIFICATION_RESULTS = ['pass', 'fail'] as const;
+export type VerificationResult = typeof VERIFICATION_RESULTS[number];
+
+export const OPTICAL_MEDIA_TYPES = ['CD-R', 'DVD-R', 'DVD-RDL'];
+
+// Drives destroyed together under one signature
+export const MAX_DESTRUCTION_BATCH_SIZE = 100;
+
+export function isOpticalMedia(mediaType: string): boolean {
+  return OPTICAL_MEDIA_TYPES.includes(mediaType.toUpperCase());
+}
+
+// Fields arrive as multipart form strings, so numbers are coerced
+const sanitizationFields = {
+  tool: z.string().trim().min(1, 'Tool is required').max(200),
+  toolVersion: z.string().trim().min(1, 'Tool version is required').max(100),
+  verificationResult: z.enum(VERIFICATION_RESULTS, { message: 'Verification result must be pass or fail' }),
+  witnessId: z.coerce.number().int().positive('A witness is required'),
+  signature: z.string().trim().min(1, 'Signature is required'),
+  notes: z.string().trim().max(2000).optional(),
+};
+
+export const sanitizationSchema = z.object({
+  method: z.enum(SANITIZATION_METHODS, { message: 'Valid sanitization method is required' }),
+  requestId: z.coerce.number().int().positive().optional(),
+  ...sanitizationFields,
+});
+
+export const destructionBatchSchema = z.object({
+  driveIds: z.array(z.coerce.number().int().positive())
+    .min(1, 'Select at least one drive')
+    .max(MAX_DESTRUCTION_BATCH_SIZE, `A batch can destroy at most ${MAX_DESTRUCTION_BATCH_SIZE} drives`),
+  ...sanitizationFields,
+});
+
+export type SanitizationInput = z.infer<typeof sanitizationSchema>;
+export type DestructionBatchInput = z.infer<typeof destructionBatchSchema>;
+
+// Inventory status after sanitization: a failed verification holds the drive for another
+// pass, a verified destruction retires it and a verified clear or purge returns it to stock
+export function getSanitizedDriveStatus(method: SanitizationMethod, verificationResult: VerificationResult): string {
+  if (verificationResult === 'fail') return 'maintenance';
+  return method === 'destroy' ? 'retired' : 'available';
+}
+
+export function getSanitizationMethodLabel(method: string): string {
+  return SANITIZATION_METHOD_LABELS[method as SanitizationMethod] || method;
+}
@@ -0,0 +1,190 @@
+// File manifests
+// Per-file path, size and SHA-256 lists, compared with the destination hash list on completion
+
+import { z } from 'zod';
+import { parseCsv } from './drive-inventory-io';
+
+export const MANIFEST_FORMATS = ['csv', 'sha256sum'] as const;
+export type ManifestFormat = typeof MANIFEST_FORMATS[number];
+
+export const MAX_MANIFEST_FILES = 5000;
+
+export const MANIFEST_COLUMNS = ['path', 'size', 'sha256'] as const;
+
+// Paths are compared as written by either tool: "./" prefixes and Windows separators are dropped
+export function normalizeManifestPath(path: string): string {
+  return path.trim().replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+}
+
+export const manifestEntrySchema = z.object({
+  path: z.string().trim().min(1, 'File path is required').max(1024).transform(normalizeManifestPath),
+  // sha256sum output carries no sizes
+  size: z.number({ message: 'File size must be a number of bytes' }).int('File size must be a number of bytes').nonnegative('File size cannot be negative').nullable(),
+  sha256: z.string().trim().toLowerCase().regex(/^[0-9a-f]{64}$/, 'SHA-256 must be 64 hexadecimal characters'),
+});
+
+export type ManifestEntry = z.infer<typeof manifestEntrySchema>;
+
+export const fileManifestSchema = z.array(manifestEntrySchema)
+  .max(MAX_MANIFEST_FILES, `A manifest is limited to ${MAX_MANIFEST_FILES} files`)
+  .superRefine((entries, ctx) => {
+    const seen = new Set<string>();
+    for (const entry of entries) {
+      if (seen.has(entry.path)) {
+        ctx.addIssue({ code: 'custom', message: `File ${entry.path} is listed more than once` });
+      }
+      seen.add(entry.path);
+    }
+  });
+
+// "<hash>  <path>" in text mode or "<hash> *<path>" in binary mode; a leading backslash
+// marks a path with escaped characters
+const SHA256SUM_LINE = /^\\?([0-9a-fA-F]{64}) [ *](.+)$/;
+
+export function detectManifestFormat(content: string): ManifestFormat {
+  const firstLine = content.replace(/^\uFEFF/, '').split(/\r?\n/).find(line => line.trim() !== '') ?? '';
+  return SHA256SUM_LINE.test(firstLine.trim()) ? 'sha256sum' : 'csv';
+}
+
+// Headers are matched without regard to case, spaces or dashes, e.g. "SHA-256"
+function normalizeHeader(header: string): string {
+  const compact = header.trim().toLowerCase().replace(/[\s_-]+/g, '');
+  return MANIFEST_COLUMNS.find(column => column === compact) ?? header.trim();
+}
+
+export type ParsedManifest =
+  | { ok: true; format: ManifestFormat; entries: ManifestEntry[] }
+  | { ok: false; errors: string[] };
+
+export function parseManifest(content: string, format: ManifestFormat = detectManifestFormat(content)): ParsedManifest {
+  const text = content.replace(/^\uFEFF/, '');
+  const records: { line: number; input: Record<string, unknown> }[] = [];
+  const errors: string[] = [];
+
+  if (format === 'sha256sum') {
+    text.split(/\r?\n/).forEach((line, index) => {
+      if (line.trim() === '') return;
+      const match = SHA256SUM_LINE.exec(line.trim());
+      if (!match) {
+        errors.push(`Line ${index + 1}: not a sha256sum line`);
+        return;
+      }
+      const path = line.trim().startsWith('\\') ? match[2].replace(/\\(\\|n)/g, (_, char) => char === 'n' ? '\n' : '\\') : match[2];
+      records.push({ line: index + 1, input: { path, size: null, sha256: match[1] } });
+    });
+  } else {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) {
+      return { ok: false, errors: ['Manifest file is empty'] };
+    }
+    const columns = header.map(normalizeHeader);
+    const missing = MANIFEST_COLUMNS.filter(column => column !== 'size' && !columns.includes(column));
+    if (missing.length > 0) {
+      return { ok: false, errors: [`CSV manifest needs a header row with ${MANIFEST_COLUMNS.join(', ')} (missing ${missing.join(', ')})`] };
+    }
+    rows.forEach((cells, index) => {
+      const record = Object.fromEntries(columns.map((column, cell) => [column, cells[cell]?.trim() ?? '']));
+      const size = record.size === undefined || record.size === '' ? null : Number(record.size);
+      // Line numbers count the header
+      records.push({ line: index + 2, input: { path: record.path, size, sha256: record.sha256 } });
+    });
+  }
+
+  if (records.length === 0 && errors.length === 0) {
+    return { ok: false, errors: ['Manifest lists no files'] };
+  }
+  if (records.length > MAX_MANIFEST_FILES) {
+    return { ok: false, errors: [`A manifest is limited to ${MAX_MANIFEST_FILES} files`] };
+  }
+
+  const entries: ManifestEntry[] = [];
+  const lineByPath = new Map<string, number>();
+  for (const { line, input } of records) {
+    const parsed = manifestEntrySchema.safeParse(input);
+    if (!parsed.success) {
+      errors.push(...parsed.error.issues.map(issue => `Line ${line}: ${issue.message}`));
+      continue;
+    }
+    const firstLine = lineByPath.get(parsed.data.path);
+    if (firstLine) {
+      errors.push(`Line ${line}: ${parsed.data.path} is repeated from line ${firstLine}`);
+      continue;
+    }
+    lineByPath.set(parsed.data.path, line);
+    entries.push(parsed.data);
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, format, entries };
+}
+
+export const MANIFEST_MATCH_RESULTS = ['match', 'mismatch', 'missing', 'unexpected'] as const;
+export type ManifestMatchResult = typeof MANIFEST_MATCH_RESULTS[number];
+
+export const MANIFEST_MATCH_LABELS: Record<ManifestMatchResult, string> = {
+  match: 'Match',
+  mismatch: 'Hash mismatch',
+  missing: 'Missing at destination',
+  unexpected: 'Not in manifest',
+};
+
+export interface ManifestComparisonEntry {
+  path: string;
+  expectedSize: number | null;
+  actualSize: number | null;
+  expectedSha256: string | null;
+  actualSha256: string | null;
+  result: ManifestMatchResult;
+}
+
+export interface ManifestComparison {
+  verified: boolean; // Every manifest file arrived with its hash and nothing else came with them
+  total: number;
+  matched: number;
+  mismatched: number;
+  missing: number;
+  unexpected: number;
+  entries: ManifestComparisonEntry[];
+}
+
+// Compare the request's manifest with the destination hash list. A file whose hash
+// differs, or whose size differs where both lists give one, is a mismatch.
+export function compareManifests(expected: ManifestEntry[], actual: ManifestEntry[]): ManifestComparison {
+  const actualByPath = new Map(actual.map(entry => [normalizeManifestPath(entry.path), entry]));
+  const entries: ManifestComparisonEntry[] = [];
+
+  for (const file of expected) {
+    const path = normalizeManifestPath(file.path);
+    const received = actualByPath.get(path);
+    actualByPath.delete(path);
+
+    if (!received) {
+      entries.push({ path, expectedSize: file.size, actualSize: null, expectedSha256: file.sha256, actualSha256: null, result: 'missing' });
+      continue;
+    }
+    const sizeDiffers = file.size !== null && received.size !== null && file.size !== received.size;
+    entries.push({
+      path,
+      expectedSize: file.size,
+      actualSize: received.size,
+      expectedSha256: file.sha256,
+      actualSha256: received.sha256,
+      result: file.sha256 === received.sha256 && !sizeDiffers ? 'match' : 'mismatch',
+    });
+  }
+
+  for (const [path, received] of actualByPath) {
+    entries.push({ path, expectedSize: null, actualSize: received.size, expectedSha256: null, actualSha256: received.sha256, result: 'unexpected' });
+  }
+
+  const count = (result: ManifestMatchResult) => entries.filter(entry => entry.result === result).length;
+  const matched = count('match');
+  return {
+    verified: matched === entries.length,
+    total: expected.length,
+    matched,
+    mismatched: count('mismatch'),
+    missing: count('missing'),
+    unexpected: count('unexpected'),
+    entries,
+  };
+}
@@ -0,0 +1,82 @@
+// Catalog lookups for routes that record a transfer between information systems.
+// The systems' own classifications decide the transfer type; whatever the client
+// sent for either is ignored.
+
+import { db } from '@/lib/db/server';
+import { informationSystems, users, type InformationSystem } from '@/lib/db/schema';
+import { asc, eq, inArray } from 'drizzle-orm';
+import { deriveRequestTransferType, type TransferType } from './information-systems';
+
+// Catalog entries with the owning ISSM's name, alphabetically
+export async function listInformationSystems(activeOnly = false) {
+  return db
+    .select({
+      id: informationSystems.id,
+      name: informationSystems.name,
+      atoId: informationSystems.atoId,
+      classification: informationSystems.classification,
+      issmId: informationSystems.issmId,
+      issmFirstName: users.firstName,
+      issmLastName: users.lastName,
+      allowOutbound: informationSystems.allowOutbound,
+      allowInbound: informationSystems.allowInbound,
+      isActive: informationSystems.isActive,
+      createdAt: informationSystems.createdAt,
+      updatedAt: informationSystems.updatedAt,
+    })
+    .from(informationSystems)
+    .leftJoin(users, eq(informationSystems.issmId, users.id))
+    .where(activeOnly ? eq(informationSystems.isActive, true) : undefined)
+    .orderBy(asc(informationSystems.name));
+}
+
+export type TransferSystemsResult =
+  | { ok: true; source: InformationSystem; destinations: InformationSystem[]; transferType: TransferType }
+  | { ok: false; error: string };
+
+// Resolve the chosen systems, checking each is active and allows its direction.
+// Destinations come back in the order given; the first is the primary destination.
+export async function resolveTransferSystems(sourceId: number, destinationIds: number[]): Promise<TransferSystemsResult> {
+  if (destinationIds.length === 0) {
+    return { ok: false, error: 'At least one destination information system is required' };
+  }
+  if (destinationIds.includes(sourceId)) {
+    return { ok: false, error: 'The destination information system must differ from the source' };
+  }
+
+  const systems = await db
+    .select()
+    .from(informationSystems)
+    .where(inArray(informationSystems.id, [sourceId, ...destinationIds]));
+  const byId = new Map(systems.map(system => [system.id, system]));
+
+  const source = byId.get(sourceId);
+  if (!source || !source.isActive) {
+    return { ok: false, error: 'Source information system not found or inactive' };
+  }
+  if (!source.allowOutbound) {
+    return { ok: false, error: `${source.name} does not allow outbound transfers` };
+  }
+
+  const destinations: InformationSystem[] = [];
+  for (const destinationId of destinationIds) {
+    const destination = byId.get(destinationId);
+    if (!destination || !destination.isActive) {
+      return { ok: false, error: 'Destination information system not found or inactive' };
+    }
+    if (!destination.allowInbound) {
+      return { ok: false, error: `${destination.name} does not allow inbound transfers` };
+    }
+    destinations.push(destination);
+  }
+
+  const transferType = deriveRequestTransferType(
+    source.classification,
+    destinations.map(destination => destination.classification)
+  );
+  if (!transferType) {
+    return { ok: false, error: 'Information system classification is not recognized' };
+  }
+
+  return { ok: true, source, destinations, transferType };
+}
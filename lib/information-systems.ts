@@ -0,0 +1,47 @@
+// Information systems catalog
+// Requests and drive issues pick systems from the catalog; the transfer type follows from their classifications
+
+import { z } from 'zod';
+import type { TRANSFER_TYPES } from './approval-policy';
+import { CLASSIFICATIONS, getClassificationLevel } from './classifications';
+
+export type TransferType = typeof TRANSFER_TYPES[number];
+
+// CONFIDENTIAL and above are classified and sit on the high side
+const HIGH_SIDE_LEVEL = CLASSIFICATIONS.indexOf('confidential');
+
+export const informationSystemSchema = z.object({
+  name: z.string().trim().min(1, 'System name is required').max(200),
+  atoId: z.string().trim().min(1, 'ATO ID is required').max(100),
+  classification: z.enum(CLASSIFICATIONS, { message: 'Valid classification is required' }),
+  issmId: z.number().int().positive().nullable().default(null),
+  allowOutbound: z.boolean().default(true),
+  allowInbound: z.boolean().default(true),
+  isActive: z.boolean().default(true),
+}).refine(system => system.allowOutbound || system.allowInbound, {
+  message: 'A system must allow at least one transfer direction',
+  path: ['allowInbound'],
+});
+
+export type InformationSystemInput = z.infer<typeof informationSystemSchema>;
+
+// Transfer type between two systems: moving to a lower classification is high-to-low,
+// to a higher one low-to-high, and between equal ones follows the side they sit on
+export function deriveTransferType(sourceClassification: string, destinationClassification: string): TransferType | null {
+  const source = getClassificationLevel(sourceClassification);
+  const destination = getClassificationLevel(destinationClassification);
+  if (source < 0 || destination < 0) return null;
+
+  if (source > destination) return 'high-to-low';
+  if (source < destination) return 'low-to-high';
+  return source >= HIGH_SIDE_LEVEL ? 'high-to-high' : 'low-to-low';
+}
+
+// Most restrictive first - a request with several destinations is reviewed as its riskiest leg
+const TRANSFER_TYPE_PRECEDENCE: TransferType[] = ['high-to-low', 'low-to-high', 'high-to-high', 'low-to-low'];
+
+export function deriveRequestTransferType(sourceClassification: string, destinationClassifications: string[]): TransferType | null {
+  const types = destinationClassifications.map(classification => deriveTransferType(sourceClassification, classification));
+  if (types.length === 0 || types.some(type => type === null)) return null;
+  return TRANSFER_TYPE_PRECEDENCE.find(type => types.includes(type)) ?? null;
+}
@@ -0,0 +1,278 @@
+// Campaign reads and writes. While a campaign is in progress its reconciliation is
+// computed live from the sightings; completing it freezes the result as discrepancies.
+
+import { db } from '@/lib/db/server';
+import {
+  driveInventory,
+  driveTracking,
+  inventoryCampaigns,
+  inventoryDiscrepancies,
+  inventorySightings,
+  users,
+  type InventoryCampaign,
+  type InventoryDiscrepancy,
+  type InventorySighting,
+} from '@/lib/db/schema';
+import { and, asc, count, desc, eq, isNull, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/sqlite-core';
+import { getLatestCustodyEvents } from './drive-custody-server';
+import {
+  reconcileInventory,
+  type ExpectedDrive,
+  type Reconciliation,
+} from './inventory-campaigns';
+
+export type CampaignResult<T> =
+  | ({ ok: true } & T)
+  | { ok: false; error: string; httpStatus: 400 | 404 | 409 };
+
+export async function listCampaigns() {
+  const completers = alias(users, 'completers');
+  const openDiscrepancies = db
+    .select({ campaignId: inventoryDiscrepancies.campaignId, openCount: count().as('open_count') })
+    .from(inventoryDiscrepancies)
+    .where(eq(inventoryDiscrepancies.status, 'open'))
+    .groupBy(inventoryDiscrepancies.campaignId)
+    .as('open_discrepancies');
+
+  return db
+    .select({
+      id: inventoryCampaigns.id,
+      name: inventoryCampaigns.name,
+      status: inventoryCampaigns.status,
+      startedAt: inventoryCampaigns.startedAt,
+      starterFirstName: users.firstName,
+      starterLastName: users.lastName,
+      completedAt: inventoryCampaigns.completedAt,
+      completerFirstName: completers.firstName,
+      completerLastName: completers.lastName,
+      expectedCount: inventoryCampaigns.expectedCount,
+      sightedCount: inventoryCampaigns.sightedCount,
+      openDiscrepancies: openDiscrepancies.openCount,
+    })
+    .from(inventoryCampaigns)
+    .innerJoin(users, eq(inventoryCampaigns.startedBy, users.id))
+    .leftJoin(completers, eq(inventoryCampaigns.completedBy, completers.id))
+    .leftJoin(openDiscrepancies, eq(openDiscrepancies.campaignId, inventoryCampaigns.id))
+    .orderBy(desc(inventoryCampaigns.startedAt));
+}
+
+export async function getCampaign(campaignId: number): Promise<InventoryCampaign | null> {
+  const campaigns = await db.select().from(inventoryCampaigns).where(eq(inventoryCampaigns.id, campaignId)).limit(1);
+  return campaigns[0] ?? null;
+}
+
+// Only one campaign runs at a time, so every sighting counts against the same inventory
+export async function startCampaign(
+  input: { name: string; notes?: string },
+  userId: number
+): Promise<CampaignResult<{ campaign: InventoryCampaign }>> {
+  const running = await db
+    .select({ id: inventoryCampaigns.id, name: inventoryCampaigns.name })
+    .from(inventoryCampaigns)
+    .where(eq(inventoryCampaigns.status, 'in_progress'))
+    .limit(1);
+  if (running.length > 0) {
+    return { ok: false, error: `Campaign "${running[0].name}" is already in progress`, httpStatus: 409 };
+  }
+
+  const inserted = await db.insert(inventoryCampaigns).values({
+    name: input.name,
+    notes: input.notes || null,
+    status: 'in_progress',
+    startedBy: userId,
+    startedAt: new Date(),
+  }).returning();
+  return { ok: true, campaign: inserted[0] };
+}
+
+// Every drive in the inventory as the records say it should be found
+export async function getExpectedInventory(): Promise<ExpectedDrive[]> {
+  const drives = await db
+    .select({
+      driveId: driveInventory.id,
+      serialNumber: driveInventory.serialNumber,
+      status: driveInventory.status,
+      issuedToFirstName: users.firstName,
+      issuedToLastName: users.lastName,
+    })
+    .from(driveInventory)
+    .leftJoin(driveTracking, and(eq(driveTracking.driveId, driveInventory.id), isNull(driveTracking.returnedAt)))
+    .leftJoin(users, eq(driveTracking.userId, users.id))
+    .orderBy(asc(driveInventory.serialNumber));
+  const latestByDrive = await getLatestCustodyEvents();
+
+  return drives.map(drive => ({
+    driveId: drive.driveId,
+    serialNumber: drive.serialNumber,
+    status: drive.status,
+    location: latestByDrive.get(drive.driveId)?.location ?? null,
+    issuedTo: drive.issuedToFirstName ? `${drive.issuedToFirstName} ${drive.issuedToLastName}` : null,
+  }));
+}
+
+export async function getCampaignSightings(campaignId: number) {
+  return db
+    .select({
+      id: inventorySightings.id,
+      serialNumber: inventorySightings.serialNumber,
+      driveId: inventorySightings.driveId,
+      location: inventorySightings.location,
+      sightedAt: inventorySightings.sightedAt,
+      sighterFirstName: users.firstName,
+      sighterLastName: users.lastName,
+    })
+    .from(inventorySightings)
+    .innerJoin(users, eq(inventorySightings.sightedBy, users.id))
+    .where(eq(inventorySightings.campaignId, campaignId))
+    .orderBy(desc(inventorySightings.sightedAt), desc(inventorySightings.id));
+}
+
+export async function getCampaignReconciliation(campaignId: number): Promise<Reconciliation> {
+  const [expected, sightings] = await Promise.all([getExpectedInventory(), getCampaignSightings(campaignId)]);
+  return reconcileInventory(expected, sightings);
+}
+
+// Serial numbers are matched without regard to case; a drive is sighted once per campaign
+export async function recordSighting(
+  campaignId: number,
+  input: { serialNumber: string; location?: string },
+  userId: number
+): Promise<CampaignResult<{ sighting: InventorySighting }>> {
+  const serialKey = input.serialNumber.toUpperCase();
+
+  const repeated = await db
+    .select({ id: inventorySightings.id })
+    .from(inventorySightings)
+    .where(and(
+      eq(inventorySightings.campaignId, campaignId),
+      sql`upper(${inventorySightings.serialNumber}) = ${serialKey}`
+    ))
+    .limit(1);
+  if (repeated.length > 0) {
+    return { ok: false, error: `${input.serialNumber} has already been sighted in this campaign`, httpStatus: 409 };
+  }
+
+  const drives = await db
+    .select({ id: driveInventory.id, serialNumber: driveInventory.serialNumber })
+    .from(driveInventory)
+    .where(sql`upper(${driveInventory.serialNumber}) = ${serialKey}`)
+    .limit(1);
+
+  const inserted = await db.insert(inventorySightings).values({
+    campaignId,
+    serialNumber: drives[0]?.serialNumber ?? input.serialNumber,
+    driveId: drives[0]?.id ?? null,
+    location: input.location || null,
+    sightedBy: userId,
+    sightedAt: new Date(),
+  }).returning();
+  return { ok: true, sighting: inserted[0] };
+}
+
+export async function removeSighting(campaignId: number, sightingId: number): Promise<InventorySighting | null> {
+  const removed = await db
+    .delete(inventorySightings)
+    .where(and(eq(inventorySightings.id, sightingId), eq(inventorySightings.campaignId, campaignId)))
+    .returning();
+  return removed[0] ?? null;
+}
+
+// Sign the campaign and open a discrepancy for each exception, in one transaction
+export async function completeCampaign(
+  campaignId: number,
+  userId: number,
+  signature: string
+): Promise<CampaignResult<{ campaign: InventoryCampaign; discrepancies: InventoryDiscrepancy[] }>> {
+  const reconciliation = await getCampaignReconciliation(campaignId);
+  const now = new Date();
+
+  const completed = db.transaction(tx => {
+    const campaigns = tx
+      .update(inventoryCampaigns)
+      .set({
+        status: 'completed',
+        completedBy: userId,
+        completedAt: now,
+        signature,
+        expectedCount: reconciliation.expectedCount,
+        sightedCount: reconciliation.sightedCount,
+      })
+      .where(and(eq(inventoryCampaigns.id, campaignId), eq(inventoryCampaigns.status, 'in_progress')))
+      .returning()
+      .all();
+    if (campaigns.length === 0) {
+      return null;
+    }
+
+    const discrepancies = reconciliation.discrepancies.length === 0 ? [] : tx
+      .insert(inventoryDiscrepancies)
+      .values(reconciliation.discrepancies.map(discrepancy => ({ ...discrepancy, campaignId, status: 'open' })))
+      .returning()
+      .all();
+    return { campaign: campaigns[0], discrepancies };
+  });
+
+  if (!completed) {
+    return { ok: false, error: 'Campaign is no longer in progress', httpStatus: 409 };
+  }
+  return { ok: true, ...completed };
+}
+
+export async function cancelCampaign(campaignId: number): Promise<InventoryCampaign | null> {
+  const cancelled = await db
+    .update(inventoryCampaigns)
+    .set({ status: 'cancelled', completedAt: new Date() })
+    .where(and(eq(inventoryCampaigns.id, campaignId), eq(inventoryCampaigns.status, 'in_progress')))
+    .returning();
+  return cancelled[0] ?? null;
+}
+
+export async function getCampaignDiscrepancies(campaignId: number) {
+  return db
+    .select({
+      id: inventoryDiscrepancies.id,
+      type: inventoryDiscrepancies.type,
+      serialNumber: inventoryDiscrepancies.serialNumber,
+      driveId: inventoryDiscrepancies.driveId,
+      expected: inventoryDiscrepancies.expected,
+      observed: inventoryDiscrepancies.observed,
+      status: inventoryDiscrepancies.status,
+      resolution: inventoryDiscrepancies.resolution,
+      resolutionNotes: inventoryDiscrepancies.resolutionNotes,
+      resolvedAt: inventoryDiscrepancies.resolvedAt,
+      resolverFirstName: users.firstName,
+      resolverLastName: users.lastName,
+    })
+    .from(inventoryDiscrepancies)
+    .leftJoin(users, eq(inventoryDiscrepancies.resolvedBy, users.id))
+    .where(eq(inventoryDiscrepancies.campaignId, campaignId))
+    .orderBy(asc(inventoryDiscrepancies.type), asc(inventoryDiscrepancies.serialNumber));
+}
+
+export async function resolveDiscrepancy(
+  campaignId: number,
+  discrepancyId: number,
+  input: { resolution: string; notes: string },
+  userId: number
+): Promise<CampaignResult<{ discrepancy: InventoryDiscrepancy }>> {
+  const resolved = await db
+    .update(inventoryDiscrepancies)
+    .set({
+      status: 'resolved',
+      resolution: input.resolution,
+      resolutionNotes: input.notes,
+      resolvedBy: userId,
+      resolvedAt: new Date(),
+    })
+    .where(and(
+      eq(inventoryDiscrepancies.id, discrepancyId),
+      eq(inventoryDiscrepancies.campaignId, campaignId),
+      eq(inventoryDiscrepancies.status, 'open')
+    ))
+    .returning();
+  if (resolved.length === 0) {
+    return { ok: false, error: 'Discrepancy not found or already resolved', httpStatus: 404 };
+  }
+  return { ok: true, discrepancy: resolved[0] };
+}
@@ -0,0 +1,161 @@
+// Inventory campaigns
+// Drives sighted during a campaign are compared with the custody ledger to find discrepancies
+
+import { z } from 'zod';
+
+export const CAMPAIGN_STATUSES = ['in_progress', 'completed', 'cancelled'] as const;
+export type CampaignStatus = typeof CAMPAIGN_STATUSES[number];
+
+export const DISCREPANCY_TYPES = ['missing', 'unexpected', 'mislocated'] as const;
+export type DiscrepancyType = typeof DISCREPANCY_TYPES[number];
+
+export const DISCREPANCY_TYPE_LABELS: Record<DiscrepancyType, string> = {
+  missing: 'Missing',
+  unexpected: 'Unexpected',
+  mislocated: 'Mis-located',
+};
+
+export const DISCREPANCY_RESOLUTIONS = ['located', 'record_corrected', 'reported_lost', 'other'] as const;
+export type DiscrepancyResolution = typeof DISCREPANCY_RESOLUTIONS[number];
+
+export const DISCREPANCY_RESOLUTION_LABELS: Record<DiscrepancyResolution, string> = {
+  located: 'Drive located',
+  record_corrected: 'Inventory record corrected',
+  reported_lost: 'Reported as lost',
+  other: 'Other',
+};
+
+export const startCampaignSchema = z.object({
+  name: z.string().trim().min(1, 'Campaign name is required').max(200),
+  notes: z.string().trim().max(2000).optional(),
+});
+
+export const sightingSchema = z.object({
+  serialNumber: z.string().trim().min(1, 'Serial number is required').max(100),
+  location: z.string().trim().max(200).optional(),
+});
+
+export const completeCampaignSchema = z.object({
+  signature: z.string().trim().min(1, 'Signature is required'),
+});
+
+export const resolveDiscrepancySchema = z.object({
+  resolution: z.enum(DISCREPANCY_RESOLUTIONS, { message: 'Valid resolution is required' }),
+  notes: z.string().trim().min(1, 'Resolution notes are required').max(2000),
+});
+
+// A drive as the records say it should be found
+export interface ExpectedDrive {
+  driveId: number;
+  serialNumber: string;
+  status: string;
+  location: string | null; // Location of the latest custody event
+  issuedTo: string | null; // Holder's name while the drive is out on issue
+}
+
+export interface CampaignSighting {
+  serialNumber: string;
+  driveId: number | null;
+  location: string | null;
+}
+
+export interface ReconciliationDiscrepancy {
+  type: DiscrepancyType;
+  serialNumber: string;
+  driveId: number | null;
+  expected: string | null;
+  observed: string | null;
+}
+
+export interface Reconciliation {
+  expectedCount: number; // Drives that should be on hand
+  sightedCount: number;
+  onIssueCount: number; // Drives accounted for by an open issue
+  discrepancies: ReconciliationDiscrepancy[];
+}
+
+function sameLocation(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function reconcileInventory(drives: ExpectedDrive[], sightings: CampaignSighting[]): Reconciliation {
+  const sightingByDrive = new Map(
+    sightings.filter(sighting => sighting.driveId !== null).map(sighting => [sighting.driveId as number, sighting])
+  );
+  const discrepancies: ReconciliationDiscrepancy[] = [];
+  let expectedCount = 0;
+  let onIssueCount = 0;
+
+  for (const drive of drives) {
+    const sighting = sightingByDrive.get(drive.driveId);
+
+    // Retired drives should have left the inventory for good
+    if (drive.status === 'retired') {
+      if (sighting) {
+        discrepancies.push({
+          type: 'unexpected',
+          serialNumber: drive.serialNumber,
+          driveId: drive.driveId,
+          expected: 'Retired',
+          observed: sighting.location ? `Sighted at ${sighting.location}` : 'Sighted',
+        });
+      }
+      continue;
+    }
+
+    if (drive.issuedTo) {
+      onIssueCount++;
+      if (sighting) {
+        discrepancies.push({
+          type: 'mislocated',
+          serialNumber: drive.serialNumber,
+          driveId: drive.driveId,
+          expected: `Issued to ${drive.issuedTo}`,
+          observed: sighting.location ? `Sighted at ${sighting.location}` : 'Sighted in stock',
+        });
+      }
+      continue;
+    }
+
+    expectedCount++;
+    if (!sighting) {
+      discrepancies.push({
+        type: 'missing',
+        serialNumber: drive.serialNumber,
+        driveId: drive.driveId,
+        expected: drive.location ? `On hand at ${drive.location}` : 'On hand',
+        observed: 'Not sighted',
+      });
+    } else if (drive.location && sighting.location && !sameLocation(drive.location, sighting.location)) {
+      discrepancies.push({
+        type: 'mislocated',
+        serialNumber: drive.serialNumber,
+        driveId: drive.driveId,
+        expected: `On hand at ${drive.location}`,
+        observed: `Sighted at ${sighting.location}`,
+      });
+    }
+  }
+
+  for (const sighting of sightings) {
+    if (sighting.driveId === null) {
+      discrepancies.push({
+        type: 'unexpected',
+        serialNumber: sighting.serialNumber,
+        driveId: null,
+        expected: 'Not in inventory',
+        observed: sighting.location ? `Sighted at ${sighting.location}` : 'Sighted',
+      });
+    }
+  }
+
+  return { expectedCount, sightedCount: sightings.length, onIssueCount, discrepancies };
+}
+
+export function getDiscrepancyTypeLabel(type: string): string {
+  return DISCREPANCY_TYPE_LABELS[type as DiscrepancyType] || type;
+}
+
+export function getDiscrepancyResolutionLabel(resolution: string): string {
+  return DISCREPANCY_RESOLUTION_LABELS[resolution as DiscrepancyResolution] || resolution;
+}
@@ -0,0 +1,166 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import bcrypt from 'bcryptjs';
+import { eq, sql } from 'drizzle-orm';
+import { NextRequest } from 'next/server';
+import { loginAttempts, passwordHistory, users } from './db/schema';
+import { createTableStatement, useTemporaryWorkingDirectory } from './test-helpers/database';
+
+type LoginSecurity = typeof import('./login-security-server');
+type Database = typeof import('./db/server')['db'];
+
+const MINUTE_MS = 60 * 1000;
+const PROXY = '10.0.0.1';
+
+let loginSecurity: LoginSecurity;
+let db: Database;
+let userCount = 0;
+
+function requestFrom(address: string): NextRequest {
+  return new NextRequest('http://localhost/api/auth/login', { headers: { 'x-forwarded-for': address } });
+}
+
+async function createUser(password = 'Correct-Horse-Battery-1'): Promise<{ id: number; email: string }> {
+  const email = `login${++userCount}@example.mil`;
+  const [user] = await db.insert(users).values({
+    email,
+    password: await bcrypt.hash(password, 4),
+    firstName: 'Test',
+    lastName: 'User',
+    primaryRole: 'requestor',
+  }).returning({ id: users.id });
+  return { id: user.id, email };
+}
+
+async function getAccount(id: number) {
+  const [account] = await db.select().from(users).where(eq(users.id, id));
+  return account;
+}
+
+before(async () => {
+  process.env.JWT_SECRET = 'test-jwt-secret';
+  process.env.AFT_TRUSTED_PROXIES = PROXY;
+  process.env.AFT_LOCKOUT_THRESHOLD = '3';
+  process.env.AFT_LOCKOUT_WINDOW_MINUTES = '15';
+  process.env.AFT_LOCKOUT_DURATION_MINUTES = '15';
+  process.env.AFT_LOGIN_IP_MAX_ATTEMPTS = '5';
+  process.env.AFT_PASSWORD_HISTORY = '3';
+  useTemporaryWorkingDirectory();
+  db = (await import('./db/server')).db;
+  for (const table of [users, loginAttempts, passwordHistory]) {
+    db.run(sql.raw(createTableStatement(table)));
+  }
+  loginSecurity = await import('./login-security-server');
+});
+
+describe('account lockout', () => {
+  test('locks the account once failures reach the threshold and lifts the lock when it runs out', async () => {
+    const { id, email } = await createUser();
+    const request = requestFrom('198.51.100.1');
+
+    assert.equal(await loginSecurity.recordFailedLogin(email, request), 'Invalid credentials');
+    assert.equal(await loginSecurity.recordFailedLogin(email, request), 'Invalid credentials');
+    assert.match(await loginSecurity.recordFailedLogin(email, request), /locked after too many failed sign-in attempts/);
+
+    const refused = await loginSecurity.checkLoginAllowed(email, request);
+    assert.ok(!refused.ok);
+    assert.equal(refused.httpStatus, 403);
+
+    const later = new Date(Date.now() + 16 * MINUTE_MS);
+    assert.deepEqual(await loginSecurity.checkLoginAllowed(email, request, later), { ok: true });
+    const account = await getAccount(id);
+    assert.equal(account.lockedAt, null);
+    assert.equal(account.failedLoginCount, 0);
+  });
+
+  test('counts every one of several failures made at the same time', async () => {
+    const { id, email } = await createUser();
+    const request = requestFrom('198.51.100.2');
+
+    await Promise.all([1, 2, 3].map(() => loginSecurity.recordFailedLogin(email, request)));
+
+    const account = await getAccount(id);
+    assert.equal(account.failedLoginCount, 3);
+    assert.ok(account.lockedAt);
+  });
+
+  test('starts the count over once the earlier failures leave the window', async () => {
+    const { id, email } = await createUser();
+    const request = requestFrom('198.51.100.3');
+    const earlier = new Date(Date.now() - 20 * MINUTE_MS);
+
+    await loginSecurity.recordFailedLogin(email, request, 'invalid_credentials', earlier);
+    await loginSecurity.recordFailedLogin(email, request, 'invalid_credentials', earlier);
+    await loginSecurity.recordFailedLogin(email, request);
+
+    const account = await getAccount(id);
+    assert.equal(account.failedLoginCount, 1);
+    assert.equal(account.lockedAt, null);
+  });
+
+  test('resets the count on a successful sign-in', async () => {
+    const { id, email } = await createUser();
+    const request = requestFrom('198.51.100.4');
+
+    await loginSecurity.recordFailedLogin(email, request);
+    await loginSecurity.recordFailedLogin(email, request);
+    const { lastLogin } = await loginSecurity.recordSuccessfulLogin(id, email, request);
+
+    assert.equal(lastLogin.failedAttemptsSince, 2);
+    assert.equal((await getAccount(id)).failedLoginCount, 0);
+  });
+});
+
+describe('address throttling', () => {
+  test('refuses an address with too many recent failures and no other', async () => {
+    const attacker = requestFrom('203.0.113.10');
+    for (let i = 0; i < 5; i++) {
+      await loginSecurity.recordFailedLogin(`unknown${i}@example.mil`, attacker);
+    }
+
+    const throttled = await loginSecurity.checkLoginAllowed('someone@example.mil', attacker);
+    assert.ok(!throttled.ok);
+    assert.equal(throttled.httpStatus, 429);
+    assert.ok(throttled.retryAfterSeconds && throttled.retryAfterSeconds > 0);
+
+    assert.deepEqual(await loginSecurity.checkLoginAllowed('someone@example.mil', requestFrom('203.0.113.11')), { ok: true });
+  });
+
+  test('throttles everyone together when no trusted proxy is configured', async () => {
+    delete process.env.AFT_TRUSTED_PROXIES;
+    try {
+      // A forged header on each attempt must not give each one a fresh bucket
+      for (let i = 0; i < 5; i++) {
+        await loginSecurity.recordFailedLogin(`spoofed${i}@example.mil`, requestFrom(`192.0.2.${i}`));
+      }
+      const throttled = await loginSecurity.checkLoginAllowed('someone@example.mil', requestFrom('192.0.2.99'));
+      assert.ok(!throttled.ok);
+      assert.equal(throttled.httpStatus, 429);
+    } finally {
+      process.env.AFT_TRUSTED_PROXIES = PROXY;
+    }
+  });
+});
+
+describe('password history', () => {
+  test('refuses the current password and the recent ones', async () => {
+    const { id } = await createUser('Current-Password-1');
+    await loginSecurity.recordPasswordHistory(id, await bcrypt.hash('Previous-Password-1', 4));
+
+    assert.equal(await loginSecurity.isPasswordReused(id, 'Current-Password-1'), true);
+    assert.equal(await loginSecurity.isPasswordReused(id, 'Previous-Password-1'), true);
+    assert.equal(await loginSecurity.isPasswordReused(id, 'Brand-New-Password-1'), false);
+  });
+
+  test('keeps only as many passwords as the history size', async () => {
+    const { id } = await createUser('Current-Password-1');
+    for (const password of ['Oldest-Password-1', 'Older-Password-1', 'Old-Password-1', 'Recent-Password-1']) {
+      await loginSecurity.recordPasswordHistory(id, await bcrypt.hash(password, 4));
+    }
+
+    const kept = await db.select().from(passwordHistory).where(eq(passwordHistory.userId, id));
+    assert.equal(kept.length, 3);
+    assert.equal(await loginSecurity.isPasswordReused(id, 'Oldest-Password-1'), false);
+    assert.equal(await loginSecurity.isPasswordReused(id, 'Older-Password-1'), true);
+  });
+});
@@ -0,0 +1,293 @@
+// Account lockout, sign-in throttling, password history and login history. Every sign-in
+// is recorded in login_attempts; failed passwords count toward locking the account and
+// toward throttling the address they came from. CAC sign-in does not use the password
+// and is not affected by a lockout.
+
+import { db } from '@/lib/db/server';
+import { loginAttempts, passwordHistory, users, type User } from '@/lib/db/schema';
+import { and, desc, eq, gt, gte, inArray, isNotNull, isNull, sql } from 'drizzle-orm';
+import type { NextRequest } from 'next/server';
+import { verifyPassword } from './auth';
+import { appLogger } from './logger';
+import { getClientAddress } from './client-address';
+import {
+  describeAccountLock,
+  isPasswordExpired,
+  LOGIN_FAILURE_REASON_LABELS,
+  type LastLoginNotice,
+  type LoginFailureReason,
+  type LoginMethod,
+} from './login-security';
+
+const MINUTE_MS = 60 * 1000;
+
+export interface LoginSecurityConfig {
+  // Failed sign-ins within the window that lock an account
+  lockoutThreshold: number;
+  lockoutWindowMinutes: number;
+  // How long a lock lasts; 0 keeps the account locked until an admin unlocks it
+  lockoutDurationMinutes: number;
+  // Failed sign-ins from one address within the window before it is refused
+  ipMaxAttempts: number;
+  ipWindowMinutes: number;
+  // Recent passwords that may not be reused
+  passwordHistorySize: number;
+  // Days before a password must be changed; 0 disables expiry
+  passwordMaxAgeDays: number;
+}
+
+function setting(value: string | undefined, fallback: number, min: number): number {
+  const parsed = parseInt(value || '');
+  return isNaN(parsed) || parsed < min ? fallback : parsed;
+}
+
+export function getLoginSecurityConfig(): LoginSecurityConfig {
+  return {
+    lockoutThreshold: setting(process.env.AFT_LOCKOUT_THRESHOLD, 3, 1),
+    lockoutWindowMinutes: setting(process.env.AFT_LOCKOUT_WINDOW_MINUTES, 15, 1),
+    lockoutDurationMinutes: setting(process.env.AFT_LOCKOUT_DURATION_MINUTES, 15, 0),
+    ipMaxAttempts: setting(process.env.AFT_LOGIN_IP_MAX_ATTEMPTS, 20, 1),
+    ipWindowMinutes: setting(process.env.AFT_LOGIN_IP_WINDOW_MINUTES, 15, 1),
+    passwordHistorySize: setting(process.env.AFT_PASSWORD_HISTORY, 24, 1),
+    passwordMaxAgeDays: setting(process.env.AFT_PASSWORD_MAX_AGE_DAYS, 60, 0),
+  };
+}
+
+async function recordLoginAttempt(
+  request: NextRequest,
+  attempt: { email: string; userId: number | null; method?: LoginMethod; successful: boolean; failureReason?: LoginFailureReason }
+) {
+  const ipAddress = getClientAddress(request);
+  await db.insert(loginAttempts).values({
+    email: attempt.email,
+    userId: attempt.userId,
+    ipAddress,
+    userAgent: request.headers.get('user-agent'),
+    method: attempt.method ?? 'password',
+    successful: attempt.successful,
+    failureReason: attempt.failureReason ?? null,
+  });
+  appLogger.loginAttempt(attempt.successful, attempt.email, {
+    userId: attempt.userId?.toString(),
+    ip: ipAddress ?? undefined,
+    userAgent: request.headers.get('user-agent') ?? undefined,
+    action: attempt.failureReason,
+  });
+}
+
+async function findAccount(email: string): Promise<User | null> {
+  const rows = await db.select().from(users).where(eq(users.email, email)).limit(1);
+  return rows[0] ?? null;
+}
+
+export type LoginGate =
+  | { ok: true }
+  | { ok: false; error: string; httpStatus: number; retryAfterSeconds?: number };
+
+// Whether a password sign-in may be tried at all: the address must not be throttled and
+// the account must not be locked. A lock whose time is up is lifted here.
+export async function checkLoginAllowed(email: string, request: NextRequest, now: Date = new Date()): Promise<LoginGate> {
+  const config = getLoginSecurityConfig();
+  const ipAddress = getClientAddress(request);
+
+  // Requests whose address can't be determined are throttled together rather than not at all
+  const windowStart = new Date(now.getTime() - config.ipWindowMinutes * MINUTE_MS);
+  const recentFailures = await db
+    .select({ createdAt: loginAttempts.createdAt })
+    .from(loginAttempts)
+    .where(and(
+      ipAddress ? eq(loginAttempts.ipAddress, ipAddress) : isNull(loginAttempts.ipAddress),
+      eq(loginAttempts.successful, false),
+      gte(loginAttempts.createdAt, windowStart)
+    ))
+    .orderBy(desc(loginAttempts.createdAt))
+    .limit(config.ipMaxAttempts);
+  if (recentFailures.length >= config.ipMaxAttempts) {
+    // Throttled until the oldest counted failure leaves the window
+    const oldest = recentFailures[recentFailures.length - 1].createdAt;
+    const retryAfterSeconds = Math.max(1, Math.ceil((oldest.getTime() + config.ipWindowMinutes * MINUTE_MS - now.getTime()) / 1000));
+    appLogger.securityEvent('LOGIN_THROTTLED', { email, failedAttempts: recentFailures.length, retryAfterSeconds }, { ip: ipAddress ?? undefined });
+    return { ok: false, error: 'Too many failed sign-in attempts from this address. Try again later.', httpStatus: 429, retryAfterSeconds };
+  }
+
+  const account = await findAccount(email);
+  if (!account?.lockedAt) {
+    return { ok: true };
+  }
+
+  if (account.lockedUntil && account.lockedUntil <= now) {
+    await db
+      .update(users)
+      .set({ failedLoginCount: 0, lastFailedLoginAt: null, lockedAt: null, lockedUntil: null })
+      .where(eq(users.id, account.id));
+    appLogger.securityEvent('ACCOUNT_UNLOCKED', { email, automatic: true }, { userId: account.id.toString() });
+    return { ok: true };
+  }
+
+  await recordLoginAttempt(request, { email, userId: account.id, successful: false, failureReason: 'account_locked' });
+  return { ok: false, error: describeAccountLock(account.lockedUntil, now), httpStatus: 403 };
+}
+
+// Record a wrong password or MFA code and lock the account once it reaches the threshold.
+// Returns the message for the sign-in form.
+export async function recordFailedLogin(
+  email: string,
+  request: NextRequest,
+  failureReason: Extract<LoginFailureReason, 'invalid_credentials' | 'invalid_mfa_code'> = 'invalid_credentials',
+  now: Date = new Date()
+): Promise<string> {
+  const config = getLoginSecurityConfig();
+  const account = await findAccount(email);
+  const message = LOGIN_FAILURE_REASON_LABELS[failureReason];
+  await recordLoginAttempt(request, { email, userId: account?.id ?? null, successful: false, failureReason });
+  if (!account) {
+    return message;
+  }
+
+  // Counted in SQL so parallel guesses can't overwrite each other's increments
+  const windowStart = new Date(now.getTime() - config.lockoutWindowMinutes * MINUTE_MS);
+  const [counted] = await db
+    .update(users)
+    .set({
+      failedLoginCount: sql`CASE WHEN ${users.lastFailedLoginAt} > ${sql.param(windowStart, users.lastFailedLoginAt)} THEN ${users.failedLoginCount} + 1 ELSE 1 END`,
+      lastFailedLoginAt: now,
+    })
+    .where(eq(users.id, account.id))
+    .returning({ failedLoginCount: users.failedLoginCount });
+  if (!counted || counted.failedLoginCount < config.lockoutThreshold) {
+    return message;
+  }
+
+  const lockedUntil = config.lockoutDurationMinutes > 0
+    ? new Date(now.getTime() + config.lockoutDurationMinutes * MINUTE_MS)
+    : null;
+  const locked = await db
+    .update(users)
+    .set({ lockedAt: now, lockedUntil })
+    .where(and(eq(users.id, account.id), isNull(users.lockedAt)))
+    .returning({ id: users.id });
+  if (locked.length > 0) {
+    appLogger.securityEvent('ACCOUNT_LOCKED', {
+      email,
+      failedAttempts: counted.failedLoginCount,
+      lockedUntil: lockedUntil?.toISOString() ?? null,
+    }, { userId: account.id.toString(), ip: getClientAddress(request) ?? undefined });
+  }
+  return describeAccountLock(lockedUntil, now);
+}
+
+// The previous successful sign-in and the failures since, read before this sign-in is recorded
+async function getLastLoginNotice(userId: number): Promise<LastLoginNotice> {
+  const previous = await db
+    .select({ createdAt: loginAttempts.createdAt, ipAddress: loginAttempts.ipAddress })
+    .from(loginAttempts)
+    .where(and(eq(loginAttempts.userId, userId), eq(loginAttempts.successful, true)))
+    .orderBy(desc(loginAttempts.createdAt), desc(loginAttempts.id))
+    .limit(1);
+  const failures = await db
+    .select({ id: loginAttempts.id })
+    .from(loginAttempts)
+    .where(and(
+      eq(loginAttempts.userId, userId),
+      eq(loginAttempts.successful, false),
+      previous.length > 0 ? gt(loginAttempts.createdAt, previous[0].createdAt) : undefined
+    ));
+  return {
+    lastLoginAt: previous[0]?.createdAt.toISOString() ?? null,
+    lastLoginIpAddress: previous[0]?.ipAddress ?? null,
+    failedAttemptsSince: failures.length,
+  };
+}
+
+// Record a successful password sign-in, reset the failure count and report whether the
+// password has to be changed before the session can be used
+export async function recordSuccessfulLogin(
+  userId: number,
+  email: string,
+  request: NextRequest
+): Promise<{ passwordChangeRequired: boolean; lastLogin: LastLoginNotice }> {
+  const lastLogin = await getLastLoginNotice(userId);
+  await recordLoginAttempt(request, { email, userId, successful: true });
+  const updated = await db
+    .update(users)
+    .set({ failedLoginCount: 0, lastFailedLoginAt: null })
+    .where(eq(users.id, userId))
+    .returning();
+  return { passwordChangeRequired: updated.length > 0 && isPasswordChangeRequired(updated[0]), lastLogin };
+}
+
+// Record a CAC sign-in in the login history
+export async function recordCacLogin(userId: number, email: string, request: NextRequest): Promise<LastLoginNotice> {
+  const lastLogin = await getLastLoginNotice(userId);
+  await recordLoginAttempt(request, { email, userId, method: 'cac', successful: true });
+  return lastLogin;
+}
+
+// A user's sign-ins and failed attempts, newest first
+export async function listLoginHistory(userId: number, limit = 100) {
+  return db
+    .select({
+      id: loginAttempts.id,
+      ipAddress: loginAttempts.ipAddress,
+      userAgent: loginAttempts.userAgent,
+      method: loginAttempts.method,
+      successful: loginAttempts.successful,
+      failureReason: loginAttempts.failureReason,
+      createdAt: loginAttempts.createdAt,
+    })
+    .from(loginAttempts)
+    .where(eq(loginAttempts.userId, userId))
+    .orderBy(desc(loginAttempts.createdAt), desc(loginAttempts.id))
+    .limit(limit);
+}
+
+export function isPasswordChangeRequired(user: Pick<User, 'mustChangePassword' | 'passwordChangedAt' | 'createdAt'>): boolean {
+  return user.mustChangePassword
+    || isPasswordExpired(user.passwordChangedAt ?? user.createdAt, getLoginSecurityConfig().passwordMaxAgeDays);
+}
+
+// Lift a lock before it runs out; returns false if the account was not locked
+export async function unlockAccount(userId: number): Promise<boolean> {
+  const unlocked = await db
+    .update(users)
+    .set({ failedLoginCount: 0, lastFailedLoginAt: null, lockedAt: null, lockedUntil: null })
+    .where(and(eq(users.id, userId), isNotNull(users.lockedAt)))
+    .returning({ id: users.id });
+  return unlocked.length > 0;
+}
+
+// Whether a new password matches the current one or any in the user's history
+export async function isPasswordReused(userId: number, password: string): Promise<boolean> {
+  const config = getLoginSecurityConfig();
+  const current = await db.select({ password: users.password }).from(users).where(eq(users.id, userId)).limit(1);
+  const history = await db
+    .select({ passwordHash: passwordHistory.passwordHash })
+    .from(passwordHistory)
+    .where(eq(passwordHistory.userId, userId))
+    .orderBy(desc(passwordHistory.createdAt), desc(passwordHistory.id))
+    .limit(config.passwordHistorySize);
+
+  const hashes = new Set([...current.map(row => row.password), ...history.map(row => row.passwordHash)]);
+  for (const hash of hashes) {
+    if (await verifyPassword(password, hash)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Keep a newly set password hash, dropping entries older than the history size
+export async function recordPasswordHistory(userId: number, passwordHash: string): Promise<void> {
+  const config = getLoginSecurityConfig();
+  await db.insert(passwordHistory).values({ userId, passwordHash });
+
+  const entries = await db
+    .select({ id: passwordHistory.id })
+    .from(passwordHistory)
+    .where(eq(passwordHistory.userId, userId))
+    .orderBy(desc(passwordHistory.createdAt), desc(passwordHistory.id));
+  const stale = entries.slice(config.passwordHistorySize);
+  if (stale.length > 0) {
+    await db.delete(passwordHistory).where(inArray(passwordHistory.id, stale.map(entry => entry.id)));
+  }
+}
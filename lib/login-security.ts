@@ -0,0 +1,68 @@
+// Login security
+// DoD password complexity rules, plus lockout, throttling, password history and maximum age
+
+import { z } from 'zod';
+
+export const PASSWORD_MIN_LENGTH = 15;
+// bcrypt ignores everything past 72 bytes
+export const PASSWORD_MAX_LENGTH = 72;
+
+const PASSWORD_CHARACTER_RULES = [
+  { pattern: /[A-Z]/, label: 'an uppercase letter' },
+  { pattern: /[a-z]/, label: 'a lowercase letter' },
+  { pattern: /[0-9]/, label: 'a number' },
+  { pattern: /[^A-Za-z0-9]/, label: 'a special character' },
+];
+
+export const PASSWORD_REQUIREMENTS = `At least ${PASSWORD_MIN_LENGTH} characters, including an uppercase letter, a lowercase letter, a number and a special character`;
+
+export const passwordSchema = z.string()
+  .min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`)
+  .max(PASSWORD_MAX_LENGTH, `Password cannot be longer than ${PASSWORD_MAX_LENGTH} characters`)
+  .superRefine((password, ctx) => {
+    for (const rule of PASSWORD_CHARACTER_RULES) {
+      if (!rule.pattern.test(password)) {
+        ctx.addIssue({ code: 'custom', message: `Password must contain ${rule.label}` });
+      }
+    }
+  });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whether a password set at changedAt has reached the maximum age; a maximum of 0 never expires
+export function isPasswordExpired(changedAt: Date, maxAgeDays: number, now: Date = new Date()): boolean {
+  return maxAgeDays > 0 && changedAt.getTime() + maxAgeDays * DAY_MS <= now.getTime();
+}
+
+export const LOGIN_METHODS = ['password', 'cac'] as const;
+export type LoginMethod = typeof LOGIN_METHODS[number];
+
+export const LOGIN_METHOD_LABELS: Record<LoginMethod, string> = {
+  password: 'Password',
+  cac: 'CAC',
+};
+
+// Shown after sign-in so the user can spot use of their account they don't recognize
+export interface LastLoginNotice {
+  lastLoginAt: string | null; // Previous successful sign-in; null on the first
+  lastLoginIpAddress: string | null;
+  failedAttemptsSince: number;
+}
+
+export const LOGIN_FAILURE_REASONS = ['invalid_credentials', 'invalid_mfa_code', 'account_locked'] as const;
+export type LoginFailureReason = typeof LOGIN_FAILURE_REASONS[number];
+
+export const LOGIN_FAILURE_REASON_LABELS: Record<LoginFailureReason, string> = {
+  invalid_credentials: 'Invalid credentials',
+  invalid_mfa_code: 'Invalid MFA code',
+  account_locked: 'Account locked',
+};
+
+// Message for a sign-in refused because the account is locked
+export function describeAccountLock(lockedUntil: Date | null, now: Date = new Date()): string {
+  if (!lockedUntil) {
+    return 'This account is locked after too many failed sign-in attempts. Contact an administrator to unlock it.';
+  }
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - now.getTime()) / 60000));
+  return `This account is locked after too many failed sign-in attempts. Try again in ${minutes} minute(s) or contact an administrator.`;
+}
@@ -0,0 +1,120 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { eq, sql } from 'drizzle-orm';
+import { mfaRecoveryCodes, users } from './db/schema';
+import { createTableStatement, useTemporaryWorkingDirectory } from './test-helpers/database';
+import { generateTotp, getTotpStep } from './totp';
+
+type MfaServer = typeof import('./mfa-server');
+
+let mfa: MfaServer;
+let userCount = 0;
+
+async function createUser(): Promise<number> {
+  const { db } = await import('./db/server');
+  const [user] = await db.insert(users).values({
+    email: `mfa${++userCount}@example.mil`,
+    password: 'not-used',
+    firstName: 'Test',
+    lastName: 'User',
+    primaryRole: 'admin',
+  }).returning({ id: users.id });
+  return user.id;
+}
+
+// An enrolled user along with their secret, the step they enrolled at and their recovery codes
+async function enrollUser(): Promise<{ userId: number; secret: string; enrolledStep: number; recoveryCodes: string[] }> {
+  const userId = await createUser();
+  const started = await mfa.startMfaEnrollment(userId, `mfa${userCount}@example.mil`);
+  assert.ok(started.ok);
+  const enrolledStep = getTotpStep();
+  const recoveryCodes = await mfa.confirmMfaEnrollment(userId, generateTotp(started.secret, enrolledStep));
+  assert.ok(recoveryCodes);
+  return { userId, secret: started.secret, enrolledStep, recoveryCodes };
+}
+
+before(async () => {
+  process.env.JWT_SECRET = 'test-jwt-secret';
+  useTemporaryWorkingDirectory();
+  const { db } = await import('./db/server');
+  for (const table of [users, mfaRecoveryCodes]) {
+    db.run(sql.raw(createTableStatement(table)));
+  }
+  mfa = await import('./mfa-server');
+});
+
+describe('enrollment', () => {
+  test('stays pending until a correct code confirms it', async () => {
+    const userId = await createUser();
+    const started = await mfa.startMfaEnrollment(userId, 'pending@example.mil');
+    assert.ok(started.ok);
+    assert.match(started.qrCode, /^data:image\/png;base64,/);
+
+    assert.equal(await mfa.confirmMfaEnrollment(userId, generateTotp(started.secret, getTotpStep() + 5)), null);
+    assert.equal(await mfa.isMfaEnabled(userId), false);
+
+    const codes = await mfa.confirmMfaEnrollment(userId, generateTotp(started.secret, getTotpStep()));
+    assert.equal(codes?.length, 10);
+    assert.equal(await mfa.isMfaEnabled(userId), true);
+  });
+
+  test('stores the secret encrypted', async () => {
+    const { db } = await import('./db/server');
+    const { userId, secret } = await enrollUser();
+    const [row] = await db.select({ mfaSecret: users.mfaSecret }).from(users).where(eq(users.id, userId));
+    assert.ok(row.mfaSecret);
+    assert.ok(!row.mfaSecret.includes(secret));
+  });
+
+  test('refuses to start over once enabled', async () => {
+    const { userId } = await enrollUser();
+    assert.deepEqual(await mfa.startMfaEnrollment(userId, 'again@example.mil'), { ok: false, error: 'MFA is already enabled', httpStatus: 409 });
+  });
+});
+
+describe('verifyMfaCode', () => {
+  test('accepts each authenticator code once', async () => {
+    const { userId, secret, enrolledStep } = await enrollUser();
+    const next = generateTotp(secret, enrolledStep + 1);
+
+    assert.equal(await mfa.verifyMfaCode(userId, next), 'totp');
+    assert.equal(await mfa.verifyMfaCode(userId, next), null);
+    // The enrollment code was for an earlier step, so it can't be replayed either
+    assert.equal(await mfa.verifyMfaCode(userId, generateTotp(secret, enrolledStep)), null);
+  });
+
+  test('spends a recovery code however it is typed', async () => {
+    const { userId, recoveryCodes } = await enrollUser();
+    const [code] = recoveryCodes;
+
+    assert.equal(await mfa.verifyMfaCode(userId, code.toLowerCase().replace('-', ' ')), 'recovery');
+    assert.equal(await mfa.verifyMfaCode(userId, code), null);
+    assert.equal((await mfa.getMfaStatus(userId, ['admin'])).recoveryCodesRemaining, 9);
+  });
+
+  test('invalidates old recovery codes when new ones are generated', async () => {
+    const { userId, recoveryCodes } = await enrollUser();
+    const replacements = await mfa.regenerateRecoveryCodes(userId);
+
+    assert.equal(await mfa.verifyMfaCode(userId, recoveryCodes[0]), null);
+    assert.equal(await mfa.verifyMfaCode(userId, replacements[0]), 'recovery');
+  });
+
+  test('accepts nothing once MFA is disabled', async () => {
+    const { userId, secret, enrolledStep, recoveryCodes } = await enrollUser();
+    assert.equal(await mfa.disableMfa(userId), true);
+    assert.equal(await mfa.disableMfa(userId), false);
+
+    assert.equal(await mfa.verifyMfaCode(userId, generateTotp(secret, enrolledStep + 1)), null);
+    assert.equal(await mfa.verifyMfaCode(userId, recoveryCodes[1]), null);
+  });
+});
+
+describe('MFA challenge', () => {
+  test('round-trips the first-factor details and refuses a tampered token', () => {
+    const challenge = { userId: 7, email: 'jane.doe@example.mil', consentAcknowledgedAt: 1767225600000 };
+    const token = mfa.createMfaChallenge(challenge);
+    assert.deepEqual(mfa.readMfaChallenge(token), challenge);
+    assert.equal(mfa.readMfaChallenge(`${token}x`), null);
+  });
+});
@@ -0,0 +1,218 @@
+// TOTP multi-factor authentication for password sign-in. A user enrolls by scanning a
+// QR code and confirming a code, and receives one-time recovery codes. Once enrolled,
+// a correct password only earns a short-lived challenge token; the session is opened
+// when the code is verified. Roles listed in AFT_MFA_REQUIRED_ROLES must enroll before
+// they can use the application. CAC sign-in is already multi-factor and skips this.
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import { db } from '@/lib/db/server';
+import { mfaRecoveryCodes, users, UserRole, type UserRoleType } from '@/lib/db/schema';
+import { and, eq, isNotNull, isNull } from 'drizzle-orm';
+import {
+  buildOtpauthUrl,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from './totp';
+
+// A challenge must be answered within this long after the password was accepted
+const MFA_CHALLENGE_SECONDS = 5 * 60;
+const MFA_CHALLENGE_AUDIENCE = 'aft-mfa-challenge';
+
+export interface MfaConfig {
+  // Roles that must enroll; a user holding any of them is required to use MFA
+  requiredRoles: UserRoleType[];
+  // Shown as the account's issuer in authenticator apps
+  issuer: string;
+}
+
+export function getMfaConfig(): MfaConfig {
+  const knownRoles = Object.values(UserRole) as string[];
+  const requiredRoles = (process.env.AFT_MFA_REQUIRED_ROLES ?? 'admin')
+    .split(',')
+    .map(role => role.trim())
+    .filter(role => knownRoles.includes(role)) as UserRoleType[];
+  return {
+    requiredRoles,
+    issuer: process.env.AFT_MFA_ISSUER || 'AFT System',
+  };
+}
+
+export function isMfaRequiredFor(roles: string[]): boolean {
+  const { requiredRoles } = getMfaConfig();
+  return roles.some(role => (requiredRoles as string[]).includes(role));
+}
+
+// Secrets are stored encrypted so a copy of the database alone can't generate codes
+function getSecretKey(): Buffer {
+  const keyMaterial = process.env.AFT_MFA_ENCRYPTION_KEY || process.env.JWT_SECRET;
+  if (!keyMaterial) {
+    throw new Error('AFT_MFA_ENCRYPTION_KEY or JWT_SECRET is required for MFA');
+  }
+  return createHash('sha256').update(keyMaterial).digest();
+}
+
+function encryptSecret(secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getSecretKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+}
+
+function decryptSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', getSecretKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+async function getMfaRecord(userId: number) {
+  const rows = await db
+    .select({ mfaSecret: users.mfaSecret, mfaEnabledAt: users.mfaEnabledAt, mfaLastUsedStep: users.mfaLastUsedStep })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+export async function isMfaEnabled(userId: number): Promise<boolean> {
+  const record = await getMfaRecord(userId);
+  return !!record?.mfaEnabledAt;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+}
+
+export async function getMfaStatus(userId: number, roles: string[]): Promise<MfaStatus> {
+  const record = await getMfaRecord(userId);
+  const unused = await db
+    .select({ id: mfaRecoveryCodes.id })
+    .from(mfaRecoveryCodes)
+    .where(and(eq(mfaRecoveryCodes.userId, userId), isNull(mfaRecoveryCodes.usedAt)));
+  return {
+    enabled: !!record?.mfaEnabledAt,
+    required: isMfaRequiredFor(roles),
+    enabledAt: record?.mfaEnabledAt ?? null,
+    recoveryCodesRemaining: record?.mfaEnabledAt ? unused.length : 0,
+  };
+}
+
+export type MfaEnrollmentResult =
+  | { ok: true; secret: string; otpauthUrl: string; qrCode: string }
+  | { ok: false; error: string; httpStatus: number };
+
+// Generate a new secret for the user to add to their authenticator. It takes effect
+// once confirmed with a code, so starting over is harmless.
+export async function startMfaEnrollment(userId: number, email: string): Promise<MfaEnrollmentResult> {
+  if (await isMfaEnabled(userId)) {
+    return { ok: false, error: 'MFA is already enabled', httpStatus: 409 };
+  }
+
+  const secret = generateTotpSecret();
+  await db
+    .update(users)
+    .set({ mfaSecret: encryptSecret(secret), mfaLastUsedStep: null })
+    .where(eq(users.id, userId));
+
+  const otpauthUrl = buildOtpauthUrl(secret, email, getMfaConfig().issuer);
+  const qrCode = await QRCode.toDataURL(otpauthUrl, { errorCorrectionLevel: 'M', margin: 2, width: 240 });
+  return { ok: true, secret, otpauthUrl, qrCode };
+}
+
+async function replaceRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await db.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId));
+  await db.insert(mfaRecoveryCodes).values(codes.map(code => ({ userId, codeHash: hashRecoveryCode(code) })));
+  return codes;
+}
+
+// Enable MFA with the first code from the authenticator; returns the recovery codes,
+// which are shown once, or null if the code is wrong
+export async function confirmMfaEnrollment(userId: number, code: string): Promise<string[] | null> {
+  const record = await getMfaRecord(userId);
+  if (!record?.mfaSecret || record.mfaEnabledAt) {
+    return null;
+  }
+
+  const step = verifyTotp(decryptSecret(record.mfaSecret), code);
+  if (step === null) {
+    return null;
+  }
+
+  await db
+    .update(users)
+    .set({ mfaEnabledAt: new Date(), mfaLastUsedStep: step })
+    .where(eq(users.id, userId));
+  return replaceRecoveryCodes(userId);
+}
+
+// Check a code from the authenticator or an unused recovery code. An authenticator
+// code is accepted once; a recovery code is spent.
+export async function verifyMfaCode(userId: number, code: string): Promise<'totp' | 'recovery' | null> {
+  const record = await getMfaRecord(userId);
+  if (!record?.mfaSecret || !record.mfaEnabledAt) {
+    return null;
+  }
+
+  const step = verifyTotp(decryptSecret(record.mfaSecret), code);
+  if (step !== null) {
+    if (record.mfaLastUsedStep !== null && step <= record.mfaLastUsedStep) {
+      return null;
+    }
+    await db.update(users).set({ mfaLastUsedStep: step }).where(eq(users.id, userId));
+    return 'totp';
+  }
+
+  const spent = await db
+    .update(mfaRecoveryCodes)
+    .set({ usedAt: new Date() })
+    .where(and(
+      eq(mfaRecoveryCodes.userId, userId),
+      eq(mfaRecoveryCodes.codeHash, hashRecoveryCode(code)),
+      isNull(mfaRecoveryCodes.usedAt)
+    ))
+    .returning({ id: mfaRecoveryCodes.id });
+  return spent.length > 0 ? 'recovery' : null;
+}
+
+export async function regenerateRecoveryCodes(userId: number): Promise<string[]> {
+  return replaceRecoveryCodes(userId);
+}
+
+// Remove the user's authenticator and recovery codes; returns false if MFA was not set up
+export async function disableMfa(userId: number): Promise<boolean> {
+  const cleared = await db
+    .update(users)
+    .set({ mfaSecret: null, mfaEnabledAt: null, mfaLastUsedStep: null })
+    .where(and(eq(users.id, userId), isNotNull(users.mfaSecret)))
+    .returning({ id: users.id });
+  await db.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId));
+  return cleared.length > 0;
+}
+
+export interface MfaChallenge {
+  userId: number;
+  email: string;
+  consentAcknowledgedAt: number; // Epoch milliseconds
+}
+
+// Token handed back after a correct password, proving the first factor to the verify step
+export function createMfaChallenge(challenge: MfaChallenge): string {
+  return jwt.sign(challenge, process.env.JWT_SECRET!, { audience: MFA_CHALLENGE_AUDIENCE, expiresIn: MFA_CHALLENGE_SECONDS });
+}
+
+export function readMfaChallenge(token: string): MfaChallenge | null {
+  try {
+    const payload = jwt.verify(token, process.env.JWT_SECRET!, { audience: MFA_CHALLENGE_AUDIENCE }) as MfaChallenge;
+    return { userId: payload.userId, email: payload.email, consentAcknowledgedAt: payload.consentAcknowledgedAt };
+  } catch {
+    return null;
+  }
+}
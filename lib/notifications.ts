@@ -0,0 +1,67 @@
+// In-app notifications
+// Background jobs and routes notify users by writing a row per recipient; the
+// navigation bar polls for unread ones. Admin recipients are resolved from both
+// the primary role and the user_roles table.
+
+import { db } from '@/lib/db/server';
+import { notifications, userRoles, users, type Notification, type UserRoleType } from '@/lib/db/schema';
+import { and, desc, eq, inArray, isNull, or } from 'drizzle-orm';
+
+export interface NotificationInput {
+  type: string;
+  title: string;
+  message: string;
+  link?: string | null;
+}
+
+const NOTIFICATION_LIST_LIMIT = 50;
+
+export async function notifyUsers(userIds: number[], notification: NotificationInput): Promise<Notification[]> {
+  const recipients = [...new Set(userIds)];
+  if (recipients.length === 0) return [];
+
+  return db.insert(notifications).values(recipients.map(userId => ({
+    userId,
+    type: notification.type,
+    title: notification.title,
+    message: notification.message,
+    link: notification.link ?? null,
+  }))).returning();
+}
+
+// Active users holding a role, either as their primary role or an assigned one
+export async function getActiveUserIdsWithRole(role: UserRoleType): Promise<number[]> {
+  const holders = await db
+    .selectDistinct({ id: users.id })
+    .from(users)
+    .leftJoin(userRoles, and(eq(userRoles.userId, users.id), eq(userRoles.isActive, true)))
+    .where(and(
+      eq(users.isActive, true),
+      or(eq(users.primaryRole, role), eq(userRoles.role, role))
+    ));
+  return holders.map(holder => holder.id);
+}
+
+// Most recent notifications for a user, newest first
+export async function listNotifications(userId: number) {
+  return db
+    .select()
+    .from(notifications)
+    .where(eq(notifications.userId, userId))
+    .orderBy(desc(notifications.createdAt), desc(notifications.id))
+    .limit(NOTIFICATION_LIST_LIMIT);
+}
+
+// Mark the given notifications read, or all of the user's unread ones when no ids are given
+export async function markNotificationsRead(userId: number, ids?: number[]): Promise<number> {
+  const updated = await db
+    .update(notifications)
+    .set({ readAt: new Date() })
+    .where(and(
+      eq(notifications.userId, userId),
+      isNull(notifications.readAt),
+      ids ? inArray(notifications.id, ids) : undefined
+    ))
+    .returning({ id: notifications.id });
+  return updated.length;
+}
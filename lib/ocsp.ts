@@ -0,0 +1,229 @@
+// Minimal OCSP client (RFC 6960)
+// Builds a single-certificate request, posts it to the configured responder and
+// checks the signed response against the issuing CA or a delegated OCSP signer.
+
+import * as crypto from 'crypto';
+import * as forge from 'node-forge';
+import * as x509 from '@peculiar/x509';
+
+const { asn1 } = forge;
+
+const OID_SHA1 = '1.3.14.3.2.26';
+const OID_OCSP_BASIC = '1.3.6.1.5.5.7.48.1.1';
+const OID_OCSP_SIGNING = '1.3.6.1.5.5.7.3.9';
+
+// Signature algorithms accepted on OCSP responses
+const RESPONSE_SIGNATURE_HASHES: Record<string, string> = {
+  '1.2.840.113549.1.1.5': 'sha1', // sha1WithRSAEncryption
+  '1.2.840.113549.1.1.11': 'sha256',
+  '1.2.840.113549.1.1.12': 'sha384',
+  '1.2.840.113549.1.1.13': 'sha512',
+  '1.2.840.10045.4.3.2': 'sha256', // ecdsa-with-SHA256
+  '1.2.840.10045.4.3.3': 'sha384',
+  '1.2.840.10045.4.3.4': 'sha512',
+};
+
+const REVOCATION_REASONS = [
+  'unspecified', 'keyCompromise', 'cACompromise', 'affiliationChanged', 'superseded',
+  'cessationOfOperation', 'certificateHold', 'unused', 'removeFromCRL', 'privilegeWithdrawn', 'aACompromise',
+];
+
+// Allowed clock difference between this server and the responder
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export interface OcspResponse {
+  status: 'good' | 'revoked' | 'unknown';
+  revokedAt?: Date;
+  reason?: string;
+  thisUpdate: Date;
+  nextUpdate?: Date;
+}
+
+// @types/node-forge only declares the boolean form of the options argument
+const fromDer = asn1.fromDer as unknown as (bytes: string, options: { decodeBitStrings: boolean }) => forge.asn1.Asn1;
+
+function toBinary(data: ArrayBuffer | Buffer): string {
+  return Buffer.from(data as ArrayBuffer).toString('binary');
+}
+
+function children(node: forge.asn1.Asn1): forge.asn1.Asn1[] {
+  if (!Array.isArray(node.value)) {
+    throw new Error('Malformed OCSP response');
+  }
+  return node.value;
+}
+
+function sha1(data: string): string {
+  return crypto.createHash('sha1').update(Buffer.from(data, 'binary')).digest('binary');
+}
+
+function reasonName(code: number): string {
+  return REVOCATION_REASONS[code] || 'unspecified';
+}
+
+// Subject name and public key bytes of the issuing CA, as hashed into the CertID
+function getIssuerHashes(issuer: x509.X509Certificate): { nameHash: string; keyHash: string } {
+  const tbs = children(children(fromDer(toBinary(issuer.rawData), { decodeBitStrings: false }))[0]);
+  const offset = tbs[0].tagClass === asn1.Class.CONTEXT_SPECIFIC ? 1 : 0; // optional version
+  const subject = tbs[offset + 4];
+  const subjectPublicKey = children(tbs[offset + 5])[1].value as string;
+
+  return {
+    nameHash: sha1(asn1.toDer(subject).getBytes()),
+    keyHash: sha1(subjectPublicKey.substring(1)), // drop the unused-bits byte
+  };
+}
+
+function buildRequest(cert: x509.X509Certificate, issuer: x509.X509Certificate): Buffer {
+  const { nameHash, keyHash } = getIssuerHashes(issuer);
+  const serial = Buffer.from(cert.serialNumber, 'hex').toString('binary');
+
+  const certId = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(OID_SHA1).getBytes()),
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, ''),
+    ]),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, nameHash),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, keyHash),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, serial),
+  ]);
+
+  const request = asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [ // tbsRequest
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [ // requestList
+        asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [certId]),
+      ]),
+    ]),
+  ]);
+
+  return Buffer.from(asn1.toDer(request).getBytes(), 'binary');
+}
+
+function verifyResponseSignature(tbs: string, algorithmOid: string, signature: string, signer: x509.X509Certificate): boolean {
+  const hash = RESPONSE_SIGNATURE_HASHES[algorithmOid];
+  if (!hash) {
+    throw new Error(`Unsupported OCSP response signature algorithm ${algorithmOid}`);
+  }
+  const publicKey = new crypto.X509Certificate(Buffer.from(signer.rawData)).publicKey;
+  return crypto.verify(hash, Buffer.from(tbs, 'binary'), publicKey, Buffer.from(signature, 'binary'));
+}
+
+// The response must be signed by the CA itself or by a responder certificate it issued for OCSP signing
+async function findResponseSigner(
+  tbs: string,
+  algorithmOid: string,
+  signature: string,
+  issuer: x509.X509Certificate,
+  responseCerts: forge.asn1.Asn1[]
+): Promise<boolean> {
+  if (verifyResponseSignature(tbs, algorithmOid, signature, issuer)) {
+    return true;
+  }
+
+  for (const node of responseCerts) {
+    const responder = new x509.X509Certificate(Buffer.from(asn1.toDer(node).getBytes(), 'binary'));
+    const eku = responder.getExtension(x509.ExtendedKeyUsageExtension);
+    if (!eku?.usages.includes(OID_OCSP_SIGNING)) continue;
+    if (responder.issuer !== issuer.subject) continue;
+    if (!(await responder.verify({ publicKey: issuer.publicKey, date: new Date() }))) continue;
+    if (verifyResponseSignature(tbs, algorithmOid, signature, responder)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function parseResponse(der: Buffer, cert: x509.X509Certificate, issuer: x509.X509Certificate) {
+  const response = children(fromDer(der.toString('binary'), { decodeBitStrings: false }));
+  const responseStatus = (response[0].value as string).charCodeAt(0);
+  if (responseStatus !== 0) {
+    throw new Error(`OCSP responder returned status ${responseStatus}`);
+  }
+
+  const responseBytes = children(children(response[1])[0]);
+  if (asn1.derToOid(responseBytes[0].value as string) !== OID_OCSP_BASIC) {
+    throw new Error('OCSP responder returned an unsupported response type');
+  }
+
+  const basic = children(fromDer(responseBytes[1].value as string, { decodeBitStrings: false }));
+  const tbs = basic[0];
+  const algorithmOid = asn1.derToOid(children(basic[1])[0].value as string);
+  const signature = (basic[2].value as string).substring(1);
+  const responseCerts = basic[3] ? children(children(basic[3])[0]) : [];
+
+  const data = children(tbs);
+  const offset = data[0].tagClass === asn1.Class.CONTEXT_SPECIFIC && data[0].type === 0 ? 1 : 0; // optional version
+  const responses = children(data[offset + 2]);
+
+  const { keyHash } = getIssuerHashes(issuer);
+  const serial = Buffer.from(cert.serialNumber, 'hex').toString('binary');
+
+  const single = responses.find(node => {
+    const certId = children(children(node)[0]);
+    return certId[2].value === keyHash && certId[3].value === serial;
+  });
+  if (!single) {
+    throw new Error('OCSP response does not cover the requested certificate');
+  }
+
+  const fields = children(single);
+  const certStatus = fields[1];
+  const thisUpdate = asn1.generalizedTimeToDate(fields[2].value as string);
+  const nextUpdateNode = fields.find((node, index) => index > 2 && node.tagClass === asn1.Class.CONTEXT_SPECIFIC && node.type === 0);
+  const nextUpdate = nextUpdateNode ? asn1.generalizedTimeToDate(children(nextUpdateNode)[0].value as string) : undefined;
+
+  let result: OcspResponse;
+  if (certStatus.type === 0) {
+    result = { status: 'good', thisUpdate, nextUpdate };
+  } else if (certStatus.type === 1) {
+    const revokedInfo = children(certStatus);
+    const reasonNode = revokedInfo[1] ? children(revokedInfo[1])[0] : null;
+    result = {
+      status: 'revoked',
+      revokedAt: asn1.generalizedTimeToDate(revokedInfo[0].value as string),
+      reason: reasonNode ? reasonName((reasonNode.value as string).charCodeAt(0)) : undefined,
+      thisUpdate,
+      nextUpdate,
+    };
+  } else {
+    result = { status: 'unknown', thisUpdate, nextUpdate };
+  }
+
+  return { result, tbs: asn1.toDer(tbs).getBytes(), algorithmOid, signature, responseCerts };
+}
+
+// Query an OCSP responder for the status of a certificate
+export async function queryOcspResponder(
+  url: string,
+  cert: x509.X509Certificate,
+  issuer: x509.X509Certificate,
+  timeoutMs: number
+): Promise<OcspResponse> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/ocsp-request', Accept: 'application/ocsp-response' },
+    body: new Uint8Array(buildRequest(cert, issuer)),
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+
+  if (!response.ok) {
+    throw new Error(`OCSP responder returned HTTP ${response.status}`);
+  }
+
+  const { result, tbs, algorithmOid, signature, responseCerts } =
+    parseResponse(Buffer.from(await response.arrayBuffer()), cert, issuer);
+
+  if (!(await findResponseSigner(tbs, algorithmOid, signature, issuer, responseCerts))) {
+    throw new Error('OCSP response signature could not be verified');
+  }
+
+  const now = Date.now();
+  if (result.thisUpdate.getTime() > now + CLOCK_SKEW_MS) {
+    throw new Error('OCSP response is not yet valid');
+  }
+  if (result.nextUpdate && result.nextUpdate.getTime() < now - CLOCK_SKEW_MS) {
+    throw new Error('OCSP response has expired');
+  }
+
+  return result;
+}
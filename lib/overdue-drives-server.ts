@@ -0,0 +1,161 @@
+// Overdue drive check
+// Flags issues whose expected return has passed, notifies the holder and the issuing
+// custodian, and escalates to admins once an issue stays overdue past the grace period.
+// Runs on a timer from instrumentation.ts and on demand from the custodian dashboard.
+// Each step only touches rows still in the previous state, so overlapping runs from
+// several server instances do not flag or escalate the same issue twice.
+
+import { db } from '@/lib/db/server';
+import { driveInventory, driveTracking, users } from '@/lib/db/schema';
+import { and, asc, eq, isNotNull, isNull, lt } from 'drizzle-orm';
+import { appendAuditLog, diffAuditFields } from '@/lib/audit-log';
+import { appLogger } from '@/lib/logger';
+import { getActiveUserIdsWithRole, notifyUsers } from '@/lib/notifications';
+import { getDaysOverdue, getOverdueAgingBucket } from './overdue-drives';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface OverdueDriveConfig {
+  // Days an issue may stay overdue before admins are notified
+  escalationGraceDays: number;
+  // Minutes between background checks; 0 disables the timer
+  checkIntervalMinutes: number;
+}
+
+export function getOverdueDriveConfig(): OverdueDriveConfig {
+  const graceDays = parseInt(process.env.AFT_DRIVE_ESCALATION_GRACE_DAYS || '3');
+  const intervalMinutes = parseInt(process.env.AFT_DRIVE_OVERDUE_CHECK_MINUTES || '15');
+  return {
+    escalationGraceDays: isNaN(graceDays) || graceDays < 0 ? 3 : graceDays,
+    checkIntervalMinutes: isNaN(intervalMinutes) || intervalMinutes < 0 ? 15 : intervalMinutes,
+  };
+}
+
+export interface OverdueDriveCheckResult {
+  flagged: number;
+  escalated: number;
+}
+
+function getOpenIssues(where: ReturnType<typeof and>) {
+  return db
+    .select({
+      issue: driveTracking,
+      serialNumber: driveInventory.serialNumber,
+      holderFirstName: users.firstName,
+      holderLastName: users.lastName,
+    })
+    .from(driveTracking)
+    .innerJoin(driveInventory, eq(driveTracking.driveId, driveInventory.id))
+    .innerJoin(users, eq(driveTracking.userId, users.id))
+    .where(and(isNull(driveTracking.returnedAt), where));
+}
+
+export async function runOverdueDriveCheck(now: Date = new Date()): Promise<OverdueDriveCheckResult> {
+  const { escalationGraceDays } = getOverdueDriveConfig();
+  const result: OverdueDriveCheckResult = { flagged: 0, escalated: 0 };
+
+  // Issued drives past their expected return
+  const late = await getOpenIssues(and(
+    eq(driveTracking.status, 'issued'),
+    isNotNull(driveTracking.expectedReturnAt),
+    lt(driveTracking.expectedReturnAt, now)
+  ));
+
+  for (const { issue, serialNumber, holderFirstName, holderLastName } of late) {
+    const flagged = await db
+      .update(driveTracking)
+      .set({ status: 'overdue', overdueAt: now })
+      .where(and(eq(driveTracking.id, issue.id), eq(driveTracking.status, 'issued')))
+      .returning();
+    if (flagged.length === 0) continue;
+    result.flagged++;
+
+    // Recorded against the issuing custodian, who is accountable for the drive
+    const diff = diffAuditFields(issue, flagged[0]);
+    appendAuditLog({
+      userId: issue.custodianId,
+      action: 'drive_overdue',
+      oldStatus: issue.status,
+      newStatus: 'overdue',
+      changes: JSON.stringify(diff),
+      notes: `Drive ${serialNumber} issued to ${holderFirstName} ${holderLastName} was due back ${issue.expectedReturnAt!.toISOString()}`,
+      actorRole: 'system',
+    });
+
+    await notifyUsers([issue.userId], {
+      type: 'drive_overdue',
+      title: `Drive ${serialNumber} is overdue`,
+      message: `Drive ${serialNumber} was due back to the media custodian on ${issue.expectedReturnAt!.toLocaleString()}. Return it as soon as possible.`,
+    });
+    await notifyUsers([issue.custodianId], {
+      type: 'drive_overdue',
+      title: `Drive ${serialNumber} is overdue`,
+      message: `Drive ${serialNumber} issued to ${holderFirstName} ${holderLastName} was due back on ${issue.expectedReturnAt!.toLocaleString()}.`,
+      link: '/custodian',
+    });
+  }
+
+  // Overdue issues still out after the grace period
+  const escalationCutoff = new Date(now.getTime() - escalationGraceDays * DAY_MS);
+  const stale = await getOpenIssues(and(
+    eq(driveTracking.status, 'overdue'),
+    isNull(driveTracking.escalatedAt),
+    lt(driveTracking.expectedReturnAt, escalationCutoff)
+  ));
+
+  const adminIds = stale.length > 0 ? await getActiveUserIdsWithRole('admin') : [];
+  for (const { issue, serialNumber, holderFirstName, holderLastName } of stale) {
+    const escalated = await db
+      .update(driveTracking)
+      .set({ escalatedAt: now })
+      .where(and(eq(driveTracking.id, issue.id), isNull(driveTracking.escalatedAt)))
+      .returning();
+    if (escalated.length === 0) continue;
+    result.escalated++;
+
+    const daysOverdue = getDaysOverdue(issue.expectedReturnAt, now);
+    appendAuditLog({
+      userId: issue.custodianId,
+      action: 'drive_overdue_escalated',
+      notes: `Drive ${serialNumber} issued to ${holderFirstName} ${holderLastName} is ${daysOverdue} days overdue; escalated to ${adminIds.length} admin(s)`,
+      actorRole: 'system',
+    });
+
+    await notifyUsers(adminIds, {
+      type: 'drive_overdue_escalation',
+      title: `Drive ${serialNumber} is ${daysOverdue} days overdue`,
+      message: `Drive ${serialNumber} issued to ${holderFirstName} ${holderLastName} has not been returned ${escalationGraceDays} days after it became overdue.`,
+      link: '/custodian',
+    });
+  }
+
+  if (result.flagged > 0 || result.escalated > 0) {
+    appLogger.info(`Overdue drive check flagged ${result.flagged} and escalated ${result.escalated} issue(s)`, { action: 'drive_overdue_check' });
+  }
+  return result;
+}
+
+// Open overdue issues with their aging bucket, longest overdue first
+export async function getOverdueQueue(now: Date = new Date()) {
+  const overdue = await getOpenIssues(eq(driveTracking.status, 'overdue'))
+    .orderBy(asc(driveTracking.expectedReturnAt));
+
+  return overdue.map(({ issue, serialNumber, holderFirstName, holderLastName }) => {
+    const daysOverdue = getDaysOverdue(issue.expectedReturnAt, now);
+    return {
+      id: issue.id,
+      driveId: issue.driveId,
+      serialNumber,
+      userId: issue.userId,
+      holderName: `${holderFirstName} ${holderLastName}`,
+      sourceIS: issue.sourceIS,
+      destinationIS: issue.destinationIS,
+      issuedAt: issue.issuedAt,
+      expectedReturnAt: issue.expectedReturnAt,
+      overdueAt: issue.overdueAt,
+      escalatedAt: issue.escalatedAt,
+      daysOverdue,
+      agingBucket: getOverdueAgingBucket(daysOverdue),
+    };
+  });
+}
@@ -0,0 +1,25 @@
+// Overdue drive aging
+// Groups issues past their expected return by how long each drive has been late
+
+export const OVERDUE_AGING_BUCKETS = [
+  { key: '1-3', label: '1-3 days', maxDays: 3 },
+  { key: '4-7', label: '4-7 days', maxDays: 7 },
+  { key: '8-14', label: '8-14 days', maxDays: 14 },
+  { key: '15-30', label: '15-30 days', maxDays: 30 },
+  { key: '30+', label: 'Over 30 days', maxDays: Infinity },
+] as const;
+
+export type OverdueAgingBucket = typeof OVERDUE_AGING_BUCKETS[number]['key'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days late, counting a partly elapsed day; 0 when not yet due
+export function getDaysOverdue(expectedReturnAt: Date | string | null, now: Date = new Date()): number {
+  if (!expectedReturnAt) return 0;
+  const lateMs = now.getTime() - new Date(expectedReturnAt).getTime();
+  return lateMs > 0 ? Math.ceil(lateMs / DAY_MS) : 0;
+}
+
+export function getOverdueAgingBucket(daysOverdue: number): OverdueAgingBucket {
+  return (OVERDUE_AGING_BUCKETS.find(bucket => daysOverdue <= bucket.maxDays) ?? OVERDUE_AGING_BUCKETS[OVERDUE_AGING_BUCKETS.length - 1]).key;
+}
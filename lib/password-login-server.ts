@@ -0,0 +1,64 @@
+// Finishing a password sign-in once every factor has been checked: record it, open the
+// session and set the auth cookie. Shared by the password step and, for users with MFA,
+// the code step.
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { AuthUser } from '@/lib/auth-server';
+import { generateToken, getRoleRedirect, getSessionMaxAge } from './auth';
+import { createSession } from './sessions-server';
+import { recordSuccessfulLogin } from './login-security-server';
+import { isMfaEnabled, isMfaRequiredFor } from './mfa-server';
+
+export async function completePasswordLogin(
+  user: AuthUser,
+  email: string,
+  request: NextRequest,
+  consentAcknowledgedAt: Date
+): Promise<NextResponse> {
+  const { passwordChangeRequired, lastLogin } = await recordSuccessfulLogin(user.id, email, request);
+
+  // Check if user has multiple active roles
+  const activeRoles = user.roles || [user.role];
+  const hasMultipleRoles = activeRoles.length > 1;
+  const mfaEnrollmentRequired = isMfaRequiredFor(activeRoles) && !(await isMfaEnabled(user.id));
+
+  // Open a server-side session and issue its JWT; with an expired password the session
+  // can only be used to change it, and without required MFA only to enroll
+  const session = await createSession(user.id, request, { passwordChangeRequired, mfaEnrollmentRequired, consentAcknowledgedAt });
+  const token = generateToken(user, session);
+
+  const redirectTo = passwordChangeRequired
+    ? '/change-password'
+    : mfaEnrollmentRequired
+      ? '/mfa-setup'
+      : hasMultipleRoles ? '/role-selection' : getRoleRedirect(user.role);
+
+  const response = NextResponse.json({
+    success: true,
+    user: {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: user.role,
+      primaryRole: user.primaryRole,
+      roles: user.roles,
+      organization: user.organization,
+    },
+    hasMultipleRoles,
+    passwordChangeRequired,
+    mfaEnrollmentRequired,
+    lastLogin,
+    redirectTo,
+  });
+
+  response.cookies.set('aft-auth-token', token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: getSessionMaxAge(session.expiresAt),
+    path: '/',
+  });
+
+  return response;
+}
@@ -0,0 +1,68 @@
+// Request wizard drafts are the requestor's own draft requests that still carry a wizard
+// step; completing the wizard clears it and leaves an ordinary draft request.
+
+import { db } from '@/lib/db/server';
+import { aftRequests, AFTStatus, type AFTRequest } from '@/lib/db/schema';
+import { and, desc, eq, isNotNull } from 'drizzle-orm';
+import type { AuthUser } from './auth-server';
+import { buildRequestUpdate, insertDraftRequest } from './aft-request-form-server';
+import { pickDraftFields, type RequestDraftInput } from './aft-request-form';
+
+export type RequestDraftResult =
+  | { ok: true; before: AFTRequest | null; draft: AFTRequest }
+  | { ok: false; error: string; httpStatus: number };
+
+function isRequestDraft(requestorId: number) {
+  return and(
+    eq(aftRequests.requestorId, requestorId),
+    eq(aftRequests.status, AFTStatus.DRAFT),
+    isNotNull(aftRequests.wizardStep)
+  );
+}
+
+export async function listRequestDrafts(userId: number): Promise<AFTRequest[]> {
+  return db
+    .select()
+    .from(aftRequests)
+    .where(isRequestDraft(userId))
+    .orderBy(desc(aftRequests.updatedAt));
+}
+
+export async function getRequestDraft(requestId: number, userId: number): Promise<AFTRequest | null> {
+  const drafts = await db
+    .select()
+    .from(aftRequests)
+    .where(and(eq(aftRequests.id, requestId), isRequestDraft(userId)))
+    .limit(1);
+  return drafts[0] ?? null;
+}
+
+const EMPTY_REQUEST = { sourceSystemId: null, destSystemId: null, destSystem: null, transferData: null };
+
+export async function createRequestDraft(input: RequestDraftInput, user: AuthUser): Promise<RequestDraftResult> {
+  const update = await buildRequestUpdate(pickDraftFields(input.data), EMPTY_REQUEST);
+  if (!update.ok) return update;
+
+  const draft = await insertDraftRequest(user, { ...update.values, wizardStep: input.currentStep });
+  return { ok: true, before: null, draft };
+}
+
+export async function updateRequestDraft(requestId: number, input: RequestDraftInput, user: AuthUser): Promise<RequestDraftResult> {
+  const current = await getRequestDraft(requestId, user.id);
+  if (!current) {
+    return { ok: false, error: 'Draft not found', httpStatus: 404 };
+  }
+
+  const update = await buildRequestUpdate(pickDraftFields(input.data), current);
+  if (!update.ok) return update;
+
+  const updated = await db
+    .update(aftRequests)
+    .set({ ...update.values, wizardStep: input.currentStep, updatedAt: new Date() })
+    .where(and(eq(aftRequests.id, requestId), isRequestDraft(user.id)))
+    .returning();
+  if (updated.length === 0) {
+    return { ok: false, error: 'Draft not found', httpStatus: 404 };
+  }
+  return { ok: true, before: current, draft: updated[0] };
+}
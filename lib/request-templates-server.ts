@@ -0,0 +1,104 @@
+// Request templates. A template belongs to the user who saved it and, when shared,
+// is also offered to everyone else in their organization. Templates and clones are
+// built from requests the user submitted themselves, or any request for an admin.
+
+import { db } from '@/lib/db/server';
+import { aftRequests, requestTemplates, users, type AFTRequest, type RequestTemplate } from '@/lib/db/schema';
+import { and, asc, eq, or } from 'drizzle-orm';
+import { buildRequestPrefill, type RequestTemplateInput } from './request-templates';
+
+export interface TemplateUser {
+  id: number;
+  organization?: string;
+}
+
+export type PrefillSourceResult =
+  | { ok: true; request: AFTRequest }
+  | { ok: false; error: string; httpStatus: 403 | 404 };
+
+export type CreateTemplateResult =
+  | { ok: true; template: RequestTemplate }
+  | { ok: false; error: string; httpStatus: 400 | 403 | 404 };
+
+// The user's own templates and those shared with their organization
+function visibleTo(user: TemplateUser) {
+  return user.organization
+    ? or(eq(requestTemplates.ownerId, user.id), eq(requestTemplates.organization, user.organization))
+    : eq(requestTemplates.ownerId, user.id);
+}
+
+export async function listRequestTemplates(user: TemplateUser) {
+  return db
+    .select({
+      id: requestTemplates.id,
+      name: requestTemplates.name,
+      ownerId: requestTemplates.ownerId,
+      ownerFirstName: users.firstName,
+      ownerLastName: users.lastName,
+      organization: requestTemplates.organization,
+      createdAt: requestTemplates.createdAt,
+      updatedAt: requestTemplates.updatedAt,
+    })
+    .from(requestTemplates)
+    .innerJoin(users, eq(requestTemplates.ownerId, users.id))
+    .where(visibleTo(user))
+    .orderBy(asc(requestTemplates.name));
+}
+
+export async function getRequestTemplate(templateId: number, user: TemplateUser): Promise<RequestTemplate | null> {
+  const templates = await db
+    .select()
+    .from(requestTemplates)
+    .where(and(eq(requestTemplates.id, templateId), visibleTo(user)))
+    .limit(1);
+  return templates[0] ?? null;
+}
+
+// A request the user may repeat, as a clone or through a template
+export async function getPrefillSourceRequest(requestId: number, userId: number, isAdmin: boolean): Promise<PrefillSourceResult> {
+  const requests = await db.select().from(aftRequests).where(eq(aftRequests.id, requestId)).limit(1);
+  if (requests.length === 0) {
+    return { ok: false, error: 'Request not found', httpStatus: 404 };
+  }
+  if (requests[0].requestorId !== userId && !isAdmin) {
+    return { ok: false, error: 'Only the requestor can reuse this request', httpStatus: 403 };
+  }
+  return { ok: true, request: requests[0] };
+}
+
+export async function createRequestTemplate(
+  input: RequestTemplateInput,
+  user: TemplateUser,
+  isAdmin: boolean
+): Promise<CreateTemplateResult> {
+  if (input.shared && !user.organization) {
+    return { ok: false, error: 'Your account has no organization to share the template with', httpStatus: 400 };
+  }
+
+  const source = await getPrefillSourceRequest(input.requestId, user.id, isAdmin);
+  if (!source.ok) {
+    return source;
+  }
+
+  const now = new Date();
+  const inserted = await db.insert(requestTemplates).values({
+    name: input.name,
+    ownerId: user.id,
+    organization: input.shared ? user.organization : null,
+    formData: JSON.stringify(buildRequestPrefill(source.request)),
+    createdAt: now,
+    updatedAt: now,
+  }).returning();
+  return { ok: true, template: inserted[0] };
+}
+
+// Only the owner removes a template, or an admin
+export async function deleteRequestTemplate(templateId: number, userId: number, isAdmin: boolean): Promise<RequestTemplate | null> {
+  const deleted = await db
+    .delete(requestTemplates)
+    .where(isAdmin
+      ? eq(requestTemplates.id, templateId)
+      : and(eq(requestTemplates.id, templateId), eq(requestTemplates.ownerId, userId)))
+    .returning();
+  return deleted[0] ?? null;
+}
@@ -0,0 +1,85 @@
+// Request templates and clones
+// Start a new request from an earlier one, leaving out details that belong to one transfer only
+
+import { z } from 'zod';
+
+export const MAX_TEMPLATE_NAME_LENGTH = 100;
+
+export const requestTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Template name is required').max(MAX_TEMPLATE_NAME_LENGTH),
+  requestId: z.number().int().positive(),
+  // Shared templates are visible to everyone in the owner's organization
+  shared: z.boolean().default(false),
+});
+
+export type RequestTemplateInput = z.infer<typeof requestTemplateSchema>;
+
+// The request columns a prefill is built from
+export interface PrefillSourceRequest {
+  sourceSystemId: number | null;
+  sourceSystem: string | null;
+  destSystemId: number | null;
+  destSystem: string | null;
+  classification: string;
+  transferType: string;
+  transferPurpose: string;
+  caveatInfo: string | null;
+  transferData: string | null;
+}
+
+interface StoredDestination {
+  id?: number;
+  name?: string;
+  classification?: string;
+}
+
+// Wizard fields for a new request that repeats the given one
+export function buildRequestPrefill(request: PrefillSourceRequest): Record<string, unknown> {
+  let transferData: Record<string, unknown> = {};
+  try {
+    transferData = request.transferData ? JSON.parse(request.transferData) : {};
+  } catch {
+    transferData = {};
+  }
+
+  // Requests from before multiple destinations only name the primary one
+  const storedDestinations = Array.isArray(transferData.destinationISList)
+    ? transferData.destinationISList as StoredDestination[]
+    : request.destSystemId
+      ? [{ id: request.destSystemId, name: request.destSystem ?? '', classification: String(transferData.destinationISClassification ?? '') }]
+      : [];
+  const destinationISList = storedDestinations
+    .filter(destination => typeof destination.id === 'number')
+    .map((destination, index) => ({
+      id: `${index + 1}`,
+      systemId: destination.id,
+      name: destination.name ?? '',
+      classification: destination.classification ?? '',
+    }));
+  const primaryDestination = destinationISList[0];
+
+  return {
+    sourceISId: request.sourceSystemId ?? undefined,
+    sourceIS: request.sourceSystem ?? '',
+    sourceISClassification: String(transferData.sourceISClassification ?? ''),
+    destinationISList,
+    destinationISIds: destinationISList.map(destination => destination.systemId),
+    destinationIS: primaryDestination?.name ?? '',
+    destinationISClassification: primaryDestination?.classification ?? '',
+    overallClassification: request.classification,
+    transferType: request.transferType,
+    mediaDisposition: request.caveatInfo ?? '',
+    destinationFile: transferData.destinationFile ?? '',
+    isNonHumanReadable: transferData.isNonHumanReadable === true,
+    processName: String(transferData.processName ?? ''),
+    justificationForTransfer: request.transferPurpose,
+    numberOfFiles: typeof transferData.numberOfFiles === 'number' ? transferData.numberOfFiles : 0,
+    files: Array.isArray(transferData.files) ? transferData.files : [],
+    additionalFileListAttached: transferData.additionalFileListAttached === true,
+    mediaTransportedOutside: transferData.mediaTransportedOutside === true,
+    mediaDestination: String(transferData.mediaDestination ?? ''),
+    destinationPOC: String(transferData.destinationPOC ?? ''),
+    destinationAddress: String(transferData.destinationAddress ?? ''),
+    mediaEncrypted: transferData.mediaEncrypted === true,
+  };
+}
@@ -0,0 +1,128 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { sql } from 'drizzle-orm';
+import { cacTrustStore, certificateRevocationLists, revokedCertificates } from './db/schema';
+import { createTableStatement, useTemporaryWorkingDirectory } from './test-helpers/database';
+import { createTestRootCa, issueTestCertificate, issueTestCrl, type TestAuthority } from './test-helpers/test-ca';
+
+type Revocation = typeof import('./revocation');
+type SignatureVerification = typeof import('./signature-verification');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let revocation: Revocation;
+let verification: SignatureVerification;
+let root: TestAuthority;
+let intermediate: TestAuthority;
+let revokedSigner: TestAuthority;
+let goodSigner: TestAuthority;
+
+before(async () => {
+  useTemporaryWorkingDirectory();
+  const { db } = await import('./db/server');
+  for (const table of [cacTrustStore, certificateRevocationLists, revokedCertificates]) {
+    db.run(sql.raw(createTableStatement(table)));
+  }
+  revocation = await import('./revocation');
+  verification = await import('./signature-verification');
+
+  root = await createTestRootCa();
+  intermediate = await issueTestCertificate(root, { subject: 'CN=AFT Test Intermediate CA, O=AFT Test', serialNumber: '10', isCa: true });
+  revokedSigner = await issueTestCertificate(intermediate, { subject: 'CN=REVOKED.SIGNER.1234567890, O=AFT Test', serialNumber: '0A01' });
+  goodSigner = await issueTestCertificate(intermediate, { subject: 'CN=GOOD.SIGNER.1234567891, O=AFT Test', serialNumber: '0A02' });
+
+  for (const [authority, isRootCA] of [[root, true], [intermediate, false]] as const) {
+    await db.insert(cacTrustStore).values({
+      certificateName: authority.certificate.subject,
+      certificateData: verification.encodeCertificate(authority.certificate),
+      certificateThumbprint: verification.getCertificateThumbprint(authority.certificate),
+      issuerDN: authority.certificate.issuer,
+      subjectDN: authority.certificate.subject,
+      notBefore: authority.certificate.notBefore,
+      notAfter: authority.certificate.notAfter,
+      isActive: true,
+      isRootCA,
+    });
+  }
+});
+
+describe('CRL import', () => {
+  test('rejects a CRL not signed by a trust store certificate', async () => {
+    const stranger = await createTestRootCa('CN=Unknown CA, O=Elsewhere');
+    const result = await revocation.importCrl(await issueTestCrl(stranger, []), { source: 'upload' });
+    assert.ok(!result.ok);
+    assert.match(result.error, /could not be verified against an active trust store certificate/);
+  });
+
+  test('rejects data that is not a CRL', async () => {
+    const result = await revocation.importCrl(Buffer.from('not a crl'), { source: 'upload' });
+    assert.deepEqual(result, { ok: false, error: 'File is not a valid DER or PEM encoded CRL' });
+  });
+
+  test('reports the status as unknown until a CRL for the issuer is loaded', async () => {
+    const result = await revocation.checkCertificateRevocation(goodSigner.certificate, intermediate.certificate);
+    assert.equal(result.status, 'unknown');
+  });
+
+  test('caches a verified CRL and skips re-importing it', async () => {
+    const crl = await issueTestCrl(intermediate, [
+      { serialNumber: '0A01', revocationDate: new Date(Date.now() - 2 * DAY_MS), reason: 1 },
+    ], { thisUpdate: new Date(Date.now() - DAY_MS) });
+
+    const imported = await revocation.importCrl(crl, { source: 'upload', fileName: 'intermediate.crl' });
+    assert.ok(imported.ok);
+    assert.equal(imported.status, 'imported');
+    assert.equal(imported.crl.revokedCount, 1);
+
+    const again = await revocation.importCrl(crl, { source: 'upload' });
+    assert.ok(again.ok);
+    assert.equal(again.status, 'duplicate');
+  });
+
+  test('refuses a CRL older than the one already loaded', async () => {
+    const older = await issueTestCrl(intermediate, [], { thisUpdate: new Date(Date.now() - 3 * DAY_MS) });
+    const result = await revocation.importCrl(older, { source: 'upload' });
+    assert.ok(!result.ok);
+    assert.match(result.error, /as recent or newer is already loaded/);
+  });
+});
+
+describe('revocation checks', () => {
+  test('finds a revoked serial on the cached CRL', async () => {
+    const result = await revocation.checkCertificateRevocation(revokedSigner.certificate, intermediate.certificate);
+    assert.equal(result.status, 'revoked');
+    assert.equal(result.source, 'crl');
+    assert.equal(result.reason, 'keyCompromise');
+  });
+
+  test('reports a serial missing from a current CRL as good', async () => {
+    const result = await revocation.checkCertificateRevocation(goodSigner.certificate, intermediate.certificate);
+    assert.equal(result.status, 'good');
+  });
+
+  test('checks a new signer against the CRL of the issuer found in the trust store', async () => {
+    assert.equal((await verification.checkSignerRevocation(revokedSigner.certificate)).status, 'revoked');
+    assert.equal((await verification.checkSignerRevocation(goodSigner.certificate)).status, 'good');
+  });
+
+  test('fails certificate validation for a revoked certificate', async () => {
+    const result = await verification.validateCertificate(revokedSigner.certificate);
+    assert.equal(result.isValid, false);
+    assert.equal(result.checks.revocation.status, 'fail');
+    assert.equal(result.checks.chain.status, 'pass');
+  });
+
+  test('treats a serial missing from an expired CRL as unknown', async () => {
+    // Newer than the cached CRL, so it replaces it, but already past its nextUpdate
+    const expired = await issueTestCrl(intermediate, [], {
+      thisUpdate: new Date(Date.now() - DAY_MS / 2),
+      nextUpdate: new Date(Date.now() - 60 * 1000),
+    });
+    const imported = await revocation.importCrl(expired, { source: 'directory', fileName: 'expired.crl' });
+    assert.ok(imported.ok);
+
+    const result = await revocation.checkCertificateRevocation(goodSigner.certificate, intermediate.certificate);
+    assert.equal(result.status, 'unknown');
+    assert.match(result.message, /expired/);
+  });
+});
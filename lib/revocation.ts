@@ -0,0 +1,334 @@
+// Certificate revocation checking
+// CRLs are imported from the admin page or picked up from AFT_CRL_DIR, verified
+// against the trust store and cached in the database, so revocation checks work
+// on air-gapped networks. When AFT_OCSP_RESPONDER_URL is set the responder is
+// asked first and the cached CRLs are the fallback.
+
+import * as crypto from 'crypto';
+import path from 'path';
+import { readdir, readFile, stat } from 'fs/promises';
+import * as x509 from '@peculiar/x509';
+import { db } from '@/lib/db/server';
+import {
+  cacTrustStore,
+  certificateRevocationLists,
+  revokedCertificates,
+  type CertificateRevocationList,
+} from '@/lib/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { appLogger } from '@/lib/logger';
+import { queryOcspResponder } from '@/lib/ocsp';
+
+x509.cryptoProvider.set(crypto.webcrypto as Crypto);
+
+const CRL_FILE_EXTENSIONS = ['.crl', '.der', '.pem'];
+const DIRECTORY_SCAN_INTERVAL_MS = 5 * 60 * 1000;
+const OID_CRL_NUMBER = '2.5.29.20';
+// Rows per insert statement, well under SQLite's bound parameter limit
+const INSERT_BATCH_SIZE = 500;
+
+export type RevocationStatus = 'good' | 'revoked' | 'unknown';
+
+export interface RevocationResult {
+  status: RevocationStatus;
+  source: 'ocsp' | 'crl' | null;
+  message: string;
+  revokedAt?: Date;
+  reason?: string;
+}
+
+export type CrlImportResult =
+  | { ok: true; status: 'imported' | 'duplicate'; crl: CertificateRevocationList }
+  | { ok: false; error: string };
+
+export interface CrlDirectoryScanResult {
+  directory: string | null;
+  imported: number;
+  duplicates: number;
+  errors: { fileName: string; error: string }[];
+}
+
+export interface RevocationConfig {
+  ocspResponderUrl: string | null;
+  ocspTimeoutMs: number;
+  crlDirectory: string | null;
+  // Treat an undetermined revocation status as a failure
+  requireRevocationCheck: boolean;
+}
+
+export function getRevocationConfig(): RevocationConfig {
+  return {
+    ocspResponderUrl: process.env.AFT_OCSP_RESPONDER_URL || null,
+    ocspTimeoutMs: parseInt(process.env.AFT_OCSP_TIMEOUT_MS || '5000') || 5000,
+    crlDirectory: process.env.AFT_CRL_DIR ? path.resolve(process.env.AFT_CRL_DIR) : null,
+    requireRevocationCheck: process.env.AFT_REQUIRE_REVOCATION_CHECK === 'true',
+  };
+}
+
+// Serial numbers are compared as uppercase hex without leading zero bytes
+export function normalizeSerialNumber(serial: string): string {
+  return serial.replace(/[^0-9a-f]/gi, '').toUpperCase().replace(/^(00)+(?=.)/, '');
+}
+
+// Parse a CRL supplied as DER or PEM
+export function parseCrl(data: Buffer): x509.X509Crl {
+  const text = data.toString('utf8');
+  if (text.includes('-----BEGIN X509 CRL-----')) {
+    return new x509.X509Crl(text.trim());
+  }
+  return new x509.X509Crl(Buffer.from(data));
+}
+
+function getCrlNumber(crl: x509.X509Crl): string | null {
+  const extension = crl.getExtension(OID_CRL_NUMBER);
+  if (!extension) return null;
+  // DER INTEGER - skip the tag and short-form length bytes
+  return normalizeSerialNumber(Buffer.from(extension.value).subarray(2).toString('hex'));
+}
+
+function isNewerCrl(crl: x509.X509Crl, crlNumber: string | null, existing: CertificateRevocationList): boolean {
+  if (crlNumber && existing.crlNumber) {
+    return BigInt(`0x${crlNumber}`) > BigInt(`0x${existing.crlNumber}`);
+  }
+  return crl.thisUpdate > existing.thisUpdate;
+}
+
+// Find the active trust store certificate that signed the CRL
+async function findCrlIssuer(crl: x509.X509Crl): Promise<{ cert: x509.X509Certificate; thumbprint: string } | null> {
+  const entries = await db.select()
+    .from(cacTrustStore)
+    .where(and(eq(cacTrustStore.isActive, true), eq(cacTrustStore.subjectDN, crl.issuer)));
+
+  // Fall back to parsing every entry in case the stored DN is formatted differently
+  const candidates = entries.length > 0
+    ? entries
+    : await db.select().from(cacTrustStore).where(eq(cacTrustStore.isActive, true));
+
+  for (const entry of candidates) {
+    try {
+      const data = entry.certificateData.trim();
+      const cert = data.startsWith('-----BEGIN')
+        ? new x509.X509Certificate(data)
+        : new x509.X509Certificate(Buffer.from(data, 'base64'));
+      if (cert.subject !== crl.issuer) continue;
+      if (await crl.verify({ publicKey: cert })) {
+        return { cert, thumbprint: entry.certificateThumbprint };
+      }
+    } catch {
+      // Skip unparseable trust store entries
+    }
+  }
+  return null;
+}
+
+// Verify a CRL against the trust store and make it the current CRL for its issuer
+export async function importCrl(
+  data: Buffer,
+  options: { source: 'upload' | 'directory'; fileName?: string; importedBy?: number }
+): Promise<CrlImportResult> {
+  let crl: x509.X509Crl;
+  try {
+    crl = parseCrl(data);
+  } catch {
+    return { ok: false, error: 'File is not a valid DER or PEM encoded CRL' };
+  }
+
+  const der = Buffer.from(crl.rawData);
+  const crlHash = crypto.createHash('sha256').update(der).digest('hex');
+
+  const duplicate = await db.select()
+    .from(certificateRevocationLists)
+    .where(eq(certificateRevocationLists.crlHash, crlHash))
+    .limit(1);
+  if (duplicate.length > 0) {
+    return { ok: true, status: 'duplicate', crl: duplicate[0] };
+  }
+
+  const issuer = await findCrlIssuer(crl);
+  if (!issuer) {
+    return { ok: false, error: `CRL signature could not be verified against an active trust store certificate for ${crl.issuer}` };
+  }
+
+  const crlNumber = getCrlNumber(crl);
+  const existing = await db.select()
+    .from(certificateRevocationLists)
+    .where(eq(certificateRevocationLists.issuerDN, crl.issuer));
+
+  if (existing.some(current => !isNewerCrl(crl, crlNumber, current))) {
+    return { ok: false, error: `A CRL for ${crl.issuer} that is as recent or newer is already loaded` };
+  }
+
+  const entries = crl.entries.map(entry => ({
+    issuerDN: crl.issuer,
+    serialNumber: normalizeSerialNumber(entry.serialNumber),
+    revocationDate: entry.revocationDate,
+    reason: entry.reason !== undefined ? x509.X509CrlReason[entry.reason] : null,
+  }));
+
+  // Replace the previous CRL for the issuer in one transaction
+  const imported = db.transaction(tx => {
+    for (const current of existing) {
+      tx.delete(revokedCertificates).where(eq(revokedCertificates.crlId, current.id)).run();
+      tx.delete(certificateRevocationLists).where(eq(certificateRevocationLists.id, current.id)).run();
+    }
+
+    const row = tx.insert(certificateRevocationLists).values({
+      issuerDN: crl.issuer,
+      issuerThumbprint: issuer.thumbprint,
+      crlNumber,
+      thisUpdate: crl.thisUpdate,
+      nextUpdate: crl.nextUpdate ?? null,
+      crlData: der.toString('base64'),
+      crlHash,
+      revokedCount: entries.length,
+      source: options.source,
+      fileName: options.fileName ?? null,
+      importedBy: options.importedBy ?? null,
+      createdAt: new Date(),
+    }).returning().get();
+
+    for (let i = 0; i < entries.length; i += INSERT_BATCH_SIZE) {
+      tx.insert(revokedCertificates)
+        .values(entries.slice(i, i + INSERT_BATCH_SIZE).map(entry => ({ ...entry, crlId: row.id })))
+        .run();
+    }
+
+    return row;
+  });
+
+  appLogger.info(`Imported CRL for ${crl.issuer} with ${entries.length} revoked certificates (${options.source}${options.fileName ? `: ${options.fileName}` : ''})`, {
+    userId: options.importedBy?.toString(),
+    resource: `crl_${imported.id}`
+  });
+
+  return { ok: true, status: 'imported', crl: imported };
+}
+
+// Files already processed from the CRL directory, keyed by path and modification time
+const scannedFiles = new Map<string, number>();
+let lastDirectoryScan = 0;
+
+// Import new or changed CRL files from AFT_CRL_DIR
+export async function scanCrlDirectory(): Promise<CrlDirectoryScanResult> {
+  const { crlDirectory } = getRevocationConfig();
+  const result: CrlDirectoryScanResult = { directory: crlDirectory, imported: 0, duplicates: 0, errors: [] };
+  lastDirectoryScan = Date.now();
+  if (!crlDirectory) return result;
+
+  let fileNames: string[];
+  try {
+    fileNames = await readdir(crlDirectory);
+  } catch (error) {
+    appLogger.error(`CRL directory ${crlDirectory} could not be read: ${error instanceof Error ? error.message : String(error)}`);
+    result.errors.push({ fileName: crlDirectory, error: 'Directory could not be read' });
+    return result;
+  }
+
+  for (const fileName of fileNames.sort()) {
+    if (!CRL_FILE_EXTENSIONS.includes(path.extname(fileName).toLowerCase())) continue;
+
+    const filePath = path.join(crlDirectory, fileName);
+    try {
+      const { mtimeMs, isFile } = await stat(filePath).then(info => ({ mtimeMs: info.mtimeMs, isFile: info.isFile() }));
+      if (!isFile || scannedFiles.get(filePath) === mtimeMs) continue;
+
+      const outcome = await importCrl(await readFile(filePath), { source: 'directory', fileName });
+      scannedFiles.set(filePath, mtimeMs);
+
+      if (!outcome.ok) {
+        result.errors.push({ fileName, error: outcome.error });
+        appLogger.error(`CRL file ${fileName} was not imported: ${outcome.error}`);
+      } else if (outcome.status === 'imported') {
+        result.imported++;
+      } else {
+        result.duplicates++;
+      }
+    } catch (error) {
+      result.errors.push({ fileName, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return result;
+}
+
+// Pick up files dropped into the CRL directory since the last scan
+async function refreshCrlDirectory(): Promise<void> {
+  if (!getRevocationConfig().crlDirectory || Date.now() - lastDirectoryScan < DIRECTORY_SCAN_INTERVAL_MS) return;
+  try {
+    await scanCrlDirectory();
+  } catch (error) {
+    appLogger.error(`CRL directory scan failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function checkCachedCrl(cert: x509.X509Certificate, now: Date): Promise<RevocationResult> {
+  const crls = await db.select()
+    .from(certificateRevocationLists)
+    .where(eq(certificateRevocationLists.issuerDN, cert.issuer))
+    .limit(1);
+
+  if (crls.length === 0) {
+    return { status: 'unknown', source: null, message: `No CRL is loaded for ${cert.issuer}` };
+  }
+
+  const crl = crls[0];
+  const revoked = await db.select()
+    .from(revokedCertificates)
+    .where(and(
+      eq(revokedCertificates.crlId, crl.id),
+      eq(revokedCertificates.serialNumber, normalizeSerialNumber(cert.serialNumber))
+    ))
+    .limit(1);
+
+  if (revoked.length > 0) {
+    return {
+      status: 'revoked',
+      source: 'crl',
+      message: `Certificate was revoked on ${revoked[0].revocationDate.toISOString()}${revoked[0].reason ? ` (${revoked[0].reason})` : ''}`,
+      revokedAt: revoked[0].revocationDate,
+      reason: revoked[0].reason ?? undefined,
+    };
+  }
+
+  // A serial missing from an expired CRL proves nothing about revocations since
+  if (crl.nextUpdate && crl.nextUpdate < now) {
+    return {
+      status: 'unknown',
+      source: 'crl',
+      message: `CRL for ${cert.issuer} expired on ${crl.nextUpdate.toISOString()} - import a current CRL`,
+    };
+  }
+
+  return { status: 'good', source: 'crl', message: `Not listed on the CRL issued ${crl.thisUpdate.toISOString()}` };
+}
+
+// Check whether a certificate has been revoked, using OCSP when configured and the cached CRLs otherwise
+export async function checkCertificateRevocation(
+  cert: x509.X509Certificate,
+  issuer: x509.X509Certificate | null
+): Promise<RevocationResult> {
+  const config = getRevocationConfig();
+
+  if (config.ocspResponderUrl && issuer) {
+    try {
+      const ocsp = await queryOcspResponder(config.ocspResponderUrl, cert, issuer, config.ocspTimeoutMs);
+      if (ocsp.status === 'revoked') {
+        return {
+          status: 'revoked',
+          source: 'ocsp',
+          message: `OCSP responder reports the certificate revoked on ${ocsp.revokedAt?.toISOString()}${ocsp.reason ? ` (${ocsp.reason})` : ''}`,
+          revokedAt: ocsp.revokedAt,
+          reason: ocsp.reason,
+        };
+      }
+      if (ocsp.status === 'good') {
+        return { status: 'good', source: 'ocsp', message: 'OCSP responder reports the certificate as good' };
+      }
+    } catch (error) {
+      appLogger.error(`OCSP check failed, falling back to cached CRLs: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  await refreshCrlDirectory();
+  return checkCachedCrl(cert, new Date());
+}
@@ -0,0 +1,158 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { eq, sql } from 'drizzle-orm';
+import { aftAuditLog, aftRequests, userRoles, users, type UserRoleType } from './db/schema';
+import { createTableStatement, useTemporaryWorkingDirectory } from './test-helpers/database';
+import type { AuthUser } from './auth-server';
+
+type RoleDelegation = typeof import('./role-delegation-server');
+type Database = typeof import('./db/server')['db'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+let delegation: RoleDelegation;
+let getUserRoles: typeof import('./auth-server')['getUserRoles'];
+let db: Database;
+let userCount = 0;
+
+async function createUser(primaryRole: UserRoleType): Promise<AuthUser> {
+  const email = `delegation${++userCount}@example.mil`;
+  const [user] = await db.insert(users).values({
+    email,
+    password: 'not-used',
+    firstName: 'Test',
+    lastName: `User ${userCount}`,
+    primaryRole,
+  }).returning({ id: users.id });
+  await db.insert(userRoles).values({ userId: user.id, role: primaryRole });
+  return { id: user.id, email, firstName: 'Test', lastName: `User ${userCount}`, role: primaryRole, roles: [primaryRole] };
+}
+
+function period(startOffsetMs: number, lengthMs: number, now = new Date()) {
+  const startsAt = new Date(now.getTime() + startOffsetMs);
+  return { startsAt, expiresAt: new Date(startsAt.getTime() + lengthMs) };
+}
+
+before(async () => {
+  process.env.JWT_SECRET = 'test-jwt-secret';
+  useTemporaryWorkingDirectory();
+  db = (await import('./db/server')).db;
+  for (const table of [users, userRoles, aftRequests, aftAuditLog]) {
+    db.run(sql.raw(createTableStatement(table)));
+  }
+  delegation = await import('./role-delegation-server');
+  getUserRoles = (await import('./auth-server')).getUserRoles;
+});
+
+describe('createDelegation', () => {
+  test('grants the role right away when the period has started', async () => {
+    const delegator = await createUser('approver');
+    const delegate = await createUser('cpso');
+
+    const result = await delegation.createDelegation({ role: 'approver', delegateId: delegate.id, ...period(0, 24 * HOUR_MS) }, delegator);
+    assert.ok(result.ok);
+    assert.equal(result.delegation.isActive, true);
+
+    assert.deepEqual((await getUserRoles(delegate.id)).sort(), ['approver', 'cpso']);
+    const actingFor = await delegation.getActingOnBehalfOf(delegate.id);
+    assert.equal(actingFor.approver?.userId, delegator.id);
+  });
+
+  test('refuses roles the delegator does not hold and delegates without a workflow role', async () => {
+    const delegator = await createUser('approver');
+    const requestor = await createUser('requestor');
+    const delegate = await createUser('cpso');
+
+    const notHeld = await delegation.createDelegation({ role: 'dta', delegateId: delegate.id, ...period(0, HOUR_MS) }, delegator);
+    assert.deepEqual(notHeld, { ok: false, error: 'You can only delegate a role assigned to you', httpStatus: 400 });
+
+    const untrusted = await delegation.createDelegation({ role: 'approver', delegateId: requestor.id, ...period(0, HOUR_MS) }, delegator);
+    assert.ok(!untrusted.ok);
+    assert.match(untrusted.error, /holds no approval or transfer role/);
+  });
+
+  test('refuses a second delegation overlapping the first', async () => {
+    const delegator = await createUser('approver');
+    const delegate = await createUser('dta');
+
+    assert.ok((await delegation.createDelegation({ role: 'approver', delegateId: delegate.id, ...period(HOUR_MS, 4 * HOUR_MS) }, delegator)).ok);
+    const overlapping = await delegation.createDelegation({ role: 'approver', delegateId: delegate.id, ...period(2 * HOUR_MS, 4 * HOUR_MS) }, delegator);
+    assert.ok(!overlapping.ok);
+    assert.equal(overlapping.httpStatus, 409);
+  });
+});
+
+describe('delegation period', () => {
+  test('starts a scheduled delegation once its start arrives', async () => {
+    const delegator = await createUser('approver');
+    const delegate = await createUser('cpso');
+    const { startsAt, expiresAt } = period(HOUR_MS, 24 * HOUR_MS);
+
+    const result = await delegation.createDelegation({ role: 'approver', delegateId: delegate.id, startsAt, expiresAt }, delegator);
+    assert.ok(result.ok);
+    assert.equal(result.delegation.isActive, false);
+    assert.deepEqual(await getUserRoles(delegate.id), ['cpso']);
+
+    const afterStart = new Date(startsAt.getTime() + 1000);
+    assert.ok((await delegation.runDelegationCheck(afterStart)).started >= 1);
+    assert.deepEqual((await getUserRoles(delegate.id, afterStart)).sort(), ['approver', 'cpso']);
+
+    const audits = await db.select().from(aftAuditLog).where(eq(aftAuditLog.action, 'role_delegation_started'));
+    assert.ok(audits.some(audit => audit.userId === delegator.id));
+  });
+
+  test('stops granting an expired delegation before the background check runs', async () => {
+    const delegator = await createUser('approver');
+    const delegate = await createUser('cpso');
+    const { startsAt, expiresAt } = period(0, HOUR_MS);
+    assert.ok((await delegation.createDelegation({ role: 'approver', delegateId: delegate.id, startsAt, expiresAt }, delegator)).ok);
+
+    const afterEnd = new Date(expiresAt.getTime() + 1000);
+    assert.deepEqual(await getUserRoles(delegate.id, afterEnd), ['cpso']);
+
+    const check = await delegation.runDelegationCheck(afterEnd);
+    assert.ok(check.expired >= 1);
+    const [row] = await db.select().from(userRoles).where(eq(userRoles.delegatedFromUserId, delegator.id));
+    assert.equal(row.isActive, false);
+  });
+});
+
+describe('revokeDelegation', () => {
+  test('ends the delegation for good, once', async () => {
+    const delegator = await createUser('approver');
+    const delegate = await createUser('cpso');
+    const created = await delegation.createDelegation({ role: 'approver', delegateId: delegate.id, ...period(0, 24 * HOUR_MS) }, delegator);
+    assert.ok(created.ok);
+
+    const revoked = await delegation.revokeDelegation(created.delegation.id, delegate);
+    assert.ok(revoked.ok);
+    assert.ok(revoked.after.revokedAt);
+    assert.deepEqual(await getUserRoles(delegate.id), ['cpso']);
+
+    assert.deepEqual(await delegation.revokeDelegation(created.delegation.id, delegator), {
+      ok: false,
+      error: 'Delegation has already ended',
+      httpStatus: 400,
+    });
+  });
+
+  test('refuses users who are neither party nor admin', async () => {
+    const delegator = await createUser('approver');
+    const delegate = await createUser('cpso');
+    const outsider = await createUser('dta');
+    const created = await delegation.createDelegation({ role: 'approver', delegateId: delegate.id, ...period(0, HOUR_MS) }, delegator);
+    assert.ok(created.ok);
+
+    assert.deepEqual(await delegation.revokeDelegation(created.delegation.id, outsider), { ok: false, error: 'Forbidden', httpStatus: 403 });
+  });
+
+  test('no longer grants a revoked role even if the row was left active', async () => {
+    const delegator = await createUser('approver');
+    const delegate = await createUser('cpso');
+    const created = await delegation.createDelegation({ role: 'approver', delegateId: delegate.id, ...period(0, HOUR_MS) }, delegator);
+    assert.ok(created.ok);
+
+    await db.update(userRoles).set({ revokedAt: new Date() }).where(eq(userRoles.id, created.delegation.id));
+    assert.deepEqual(await getUserRoles(delegate.id), ['cpso']);
+  });
+});
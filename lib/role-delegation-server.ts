@@ -0,0 +1,383 @@
+// Role delegation storage and the background check that starts and ends delegations.
+// Role lookups only read active user_roles rows, so a delegation grants the role while
+// active and stops granting it once deactivated, everywhere the role is checked.
+// Runs on a timer from instrumentation.ts; each update only touches rows still in the
+// previous state, so overlapping runs from several server instances are harmless.
+
+import { db } from '@/lib/db/server';
+import { aftRequests, AFTStatus, userRoles, users, type AFTStatusType, type UserRoleType } from '@/lib/db/schema';
+import { alias } from 'drizzle-orm/sqlite-core';
+import { and, desc, eq, gt, inArray, isNotNull, isNull, lt, lte, or } from 'drizzle-orm';
+import type { AuthUser } from '@/lib/auth-server';
+import { appendAuditLog } from '@/lib/audit-log';
+import { appLogger } from '@/lib/logger';
+import { getAwaitingApprovalRoles } from '@/lib/approval-policy';
+import { DELEGABLE_ROLES, isDelegableRole, type CreateDelegationInput, type DelegableRole, type OnBehalfOf } from './role-delegation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DELEGATION_LIST_LIMIT = 200;
+
+// Statuses in which a request waits on each role; approval steps come from the request's approval policy
+const APPROVAL_STATUSES: AFTStatusType[] = [AFTStatus.SUBMITTED, AFTStatus.PENDING_DAO, AFTStatus.PENDING_APPROVER, AFTStatus.PENDING_CPSO];
+const TRANSFER_STATUSES: Partial<Record<DelegableRole, AFTStatusType[]>> = {
+  dta: [AFTStatus.PENDING_DTA, AFTStatus.ACTIVE_TRANSFER],
+  sme: [AFTStatus.PENDING_SME_SIGNATURE, AFTStatus.PENDING_SME],
+  media_custodian: [AFTStatus.PENDING_MEDIA_CUSTODIAN],
+};
+
+export interface DelegationConfig {
+  // Longest a single delegation may run
+  maxDays: number;
+  // Minutes between background checks; 0 disables the timer
+  checkIntervalMinutes: number;
+}
+
+export function getDelegationConfig(): DelegationConfig {
+  const maxDays = parseInt(process.env.AFT_DELEGATION_MAX_DAYS || '90');
+  const intervalMinutes = parseInt(process.env.AFT_DELEGATION_CHECK_MINUTES || '5');
+  return {
+    maxDays: isNaN(maxDays) || maxDays < 1 ? 90 : maxDays,
+    checkIntervalMinutes: isNaN(intervalMinutes) || intervalMinutes < 0 ? 5 : intervalMinutes,
+  };
+}
+
+export type Delegation = typeof userRoles.$inferSelect;
+
+export type DelegationResult =
+  | { ok: true; delegation: Delegation; description: string }
+  | { ok: false; error: string; httpStatus: number };
+
+async function getActiveUser(userId: number) {
+  const rows = await db
+    .select({ id: users.id, email: users.email, firstName: users.firstName, lastName: users.lastName, primaryRole: users.primaryRole })
+    .from(users)
+    .where(and(eq(users.id, userId), eq(users.isActive, true)))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+async function getUserEmails(userIds: number[]): Promise<Map<number, string>> {
+  if (userIds.length === 0) return new Map();
+  const rows = await db
+    .select({ id: users.id, email: users.email })
+    .from(users)
+    .where(inArray(users.id, [...new Set(userIds)]));
+  return new Map(rows.map(row => [row.id, row.email]));
+}
+
+// "cpso from a@example.mil to b@example.mil" for audit notes
+async function describeDelegations(delegations: Delegation[]): Promise<Map<number, string>> {
+  const emails = await getUserEmails(delegations.flatMap(delegation => [delegation.userId, delegation.delegatedFromUserId!]));
+  return new Map(delegations.map(delegation => [
+    delegation.id,
+    `${delegation.role} from ${emails.get(delegation.delegatedFromUserId!)} to ${emails.get(delegation.userId)}`,
+  ]));
+}
+
+async function getActiveRoleRows(userId: number, role: UserRoleType) {
+  return db
+    .select({ id: userRoles.id, delegatedFromUserId: userRoles.delegatedFromUserId })
+    .from(userRoles)
+    .where(and(eq(userRoles.userId, userId), eq(userRoles.role, role), eq(userRoles.isActive, true)));
+}
+
+// Users holding an approval or transfer role of their own, not only through a delegation
+async function getWorkflowRoleHolderIds(userIds?: number[]): Promise<Set<number>> {
+  const rows = await db
+    .select({ userId: userRoles.userId })
+    .from(userRoles)
+    .where(and(
+      inArray(userRoles.role, [...DELEGABLE_ROLES]),
+      eq(userRoles.isActive, true),
+      isNull(userRoles.delegatedFromUserId),
+      userIds ? inArray(userRoles.userId, userIds) : undefined
+    ));
+  return new Set(rows.map(row => row.userId));
+}
+
+// Requestors with a request currently waiting on the role - taking the role on would let
+// them act on their own request
+async function getRequestorsAwaitingRole(role: DelegableRole, requestorId?: number): Promise<Set<number>> {
+  const transferStatuses = TRANSFER_STATUSES[role] ?? [];
+  const rows = await db
+    .select({
+      requestorId: aftRequests.requestorId,
+      status: aftRequests.status,
+      approvalData: aftRequests.approvalData,
+      transferType: aftRequests.transferType,
+    })
+    .from(aftRequests)
+    .where(and(
+      inArray(aftRequests.status, [...APPROVAL_STATUSES, ...transferStatuses]),
+      requestorId !== undefined ? eq(aftRequests.requestorId, requestorId) : undefined
+    ));
+
+  return new Set(rows
+    .filter(row => transferStatuses.includes(row.status) ||
+      (getAwaitingApprovalRoles(row.approvalData, row.transferType) as string[]).includes(role))
+    .map(row => row.requestorId));
+}
+
+// Users may only delegate their own roles; admins may set one up for any holder
+export async function createDelegation(
+  input: CreateDelegationInput,
+  actor: AuthUser,
+  now: Date = new Date()
+): Promise<DelegationResult> {
+  const { maxDays } = getDelegationConfig();
+  const delegatorId = input.delegatorId ?? actor.id;
+  const actingForSelf = delegatorId === actor.id;
+
+  if (!actingForSelf && !actor.roles.includes('admin')) {
+    return { ok: false, error: 'You can only delegate your own roles', httpStatus: 403 };
+  }
+  if (input.delegateId === delegatorId) {
+    return { ok: false, error: 'A role cannot be delegated to the same user', httpStatus: 400 };
+  }
+  if (input.expiresAt <= now) {
+    return { ok: false, error: 'The delegation must end in the future', httpStatus: 400 };
+  }
+  if (input.expiresAt.getTime() - input.startsAt.getTime() > maxDays * DAY_MS) {
+    return { ok: false, error: `A delegation cannot run longer than ${maxDays} days`, httpStatus: 400 };
+  }
+
+  const delegator = await getActiveUser(delegatorId);
+  if (!delegator) {
+    return { ok: false, error: 'Delegating user not found', httpStatus: 404 };
+  }
+  // A role held through someone else's delegation can't be passed on
+  const delegatorRows = await getActiveRoleRows(delegatorId, input.role);
+  if (delegator.primaryRole !== input.role && !delegatorRows.some(row => row.delegatedFromUserId === null)) {
+    return {
+      ok: false,
+      error: actingForSelf ? 'You can only delegate a role assigned to you' : `${delegator.email} does not hold this role`,
+      httpStatus: 400,
+    };
+  }
+
+  const delegate = await getActiveUser(input.delegateId);
+  if (!delegate) {
+    return { ok: false, error: 'User to delegate to not found or inactive', httpStatus: 404 };
+  }
+  if (delegate.primaryRole === input.role || (await getActiveRoleRows(delegate.id, input.role)).length > 0) {
+    return { ok: false, error: `${delegate.email} already holds this role`, httpStatus: 409 };
+  }
+  // Only users already trusted with approvals may take one over
+  if (!isDelegableRole(delegate.primaryRole) && !(await getWorkflowRoleHolderIds([delegate.id])).has(delegate.id)) {
+    return { ok: false, error: `${delegate.email} holds no approval or transfer role and cannot take a delegation`, httpStatus: 400 };
+  }
+  if ((await getRequestorsAwaitingRole(input.role, delegate.id)).has(delegate.id)) {
+    return { ok: false, error: `${delegate.email} has a request waiting on this role and cannot take it over`, httpStatus: 400 };
+  }
+
+  const overlapping = await db
+    .select({ id: userRoles.id })
+    .from(userRoles)
+    .where(and(
+      eq(userRoles.userId, delegate.id),
+      eq(userRoles.role, input.role),
+      isNotNull(userRoles.delegatedFromUserId),
+      isNull(userRoles.revokedAt),
+      gt(userRoles.expiresAt, input.startsAt),
+      lt(userRoles.startsAt, input.expiresAt)
+    ))
+    .limit(1);
+  if (overlapping.length > 0) {
+    return { ok: false, error: `${delegate.email} already has this role delegated for part of that period`, httpStatus: 409 };
+  }
+
+  const inserted = await db.insert(userRoles).values({
+    userId: delegate.id,
+    role: input.role,
+    // A delegation starting later is switched on by the background check
+    isActive: input.startsAt <= now,
+    assignedBy: actor.id,
+    delegatedFromUserId: delegatorId,
+    delegationReason: input.reason || null,
+    startsAt: input.startsAt,
+    expiresAt: input.expiresAt,
+    createdAt: now,
+  }).returning();
+
+  return { ok: true, delegation: inserted[0], description: `${input.role} from ${delegator.email} to ${delegate.email}` };
+}
+
+export type RevokeDelegationResult =
+  | { ok: true; before: Delegation; after: Delegation; description: string }
+  | { ok: false; error: string; httpStatus: number };
+
+// End a delegation early. The delegator, the delegate handing it back, or an admin may revoke.
+export async function revokeDelegation(id: number, actor: AuthUser, now: Date = new Date()): Promise<RevokeDelegationResult> {
+  const rows = await db
+    .select()
+    .from(userRoles)
+    .where(and(eq(userRoles.id, id), isNotNull(userRoles.delegatedFromUserId)))
+    .limit(1);
+  const delegation = rows[0];
+  if (!delegation) {
+    return { ok: false, error: 'Delegation not found', httpStatus: 404 };
+  }
+
+  const involved = delegation.userId === actor.id || delegation.delegatedFromUserId === actor.id;
+  if (!involved && !actor.roles.includes('admin')) {
+    return { ok: false, error: 'Forbidden', httpStatus: 403 };
+  }
+  if (delegation.revokedAt || (delegation.expiresAt && delegation.expiresAt <= now)) {
+    return { ok: false, error: 'Delegation has already ended', httpStatus: 400 };
+  }
+
+  const updated = await db
+    .update(userRoles)
+    .set({ isActive: false, revokedAt: now })
+    .where(and(eq(userRoles.id, id), isNull(userRoles.revokedAt)))
+    .returning();
+  if (updated.length === 0) {
+    return { ok: false, error: 'Delegation has already ended', httpStatus: 400 };
+  }
+
+  const descriptions = await describeDelegations([delegation]);
+  return { ok: true, before: delegation, after: updated[0], description: descriptions.get(delegation.id)! };
+}
+
+// Delegations a user has given or received, or every delegation for admins, newest first
+export async function listDelegations(userId?: number) {
+  const delegates = alias(users, 'delegates');
+  const delegators = alias(users, 'delegators');
+
+  return db
+    .select({
+      id: userRoles.id,
+      role: userRoles.role,
+      isActive: userRoles.isActive,
+      reason: userRoles.delegationReason,
+      startsAt: userRoles.startsAt,
+      expiresAt: userRoles.expiresAt,
+      revokedAt: userRoles.revokedAt,
+      createdAt: userRoles.createdAt,
+      delegateId: userRoles.userId,
+      delegateFirstName: delegates.firstName,
+      delegateLastName: delegates.lastName,
+      delegateEmail: delegates.email,
+      delegatorId: userRoles.delegatedFromUserId,
+      delegatorFirstName: delegators.firstName,
+      delegatorLastName: delegators.lastName,
+      delegatorEmail: delegators.email,
+    })
+    .from(userRoles)
+    .innerJoin(delegates, eq(userRoles.userId, delegates.id))
+    .innerJoin(delegators, eq(userRoles.delegatedFromUserId, delegators.id))
+    .where(userId === undefined
+      ? isNotNull(userRoles.delegatedFromUserId)
+      : or(eq(userRoles.userId, userId), eq(userRoles.delegatedFromUserId, userId)))
+    .orderBy(desc(userRoles.createdAt), desc(userRoles.id))
+    .limit(DELEGATION_LIST_LIMIT);
+}
+
+// Active users a role could be delegated to: holders of another approval or transfer role,
+// other than the delegator, who don't already hold it and have no request waiting on it
+export async function listDelegationCandidates(role: DelegableRole, delegatorId: number) {
+  const holders = await db
+    .select({ userId: userRoles.userId })
+    .from(userRoles)
+    .where(and(eq(userRoles.role, role), eq(userRoles.isActive, true)));
+  const holderIds = new Set(holders.map(holder => holder.userId));
+  const workflowRoleHolderIds = await getWorkflowRoleHolderIds();
+  const awaitingRequestorIds = await getRequestorsAwaitingRole(role);
+
+  const candidates = await db
+    .select({ id: users.id, firstName: users.firstName, lastName: users.lastName, email: users.email, primaryRole: users.primaryRole })
+    .from(users)
+    .where(eq(users.isActive, true))
+    .orderBy(users.lastName, users.firstName);
+
+  return candidates
+    .filter(candidate =>
+      candidate.id !== delegatorId &&
+      candidate.primaryRole !== role &&
+      !holderIds.has(candidate.id) &&
+      (isDelegableRole(candidate.primaryRole) || workflowRoleHolderIds.has(candidate.id)) &&
+      !awaitingRequestorIds.has(candidate.id)
+    )
+    .map(({ id, firstName, lastName, email }) => ({ id, firstName, lastName, email }));
+}
+
+// Roles the user currently holds through a delegation, with whom they act for in each
+export async function getActingOnBehalfOf(userId: number, now: Date = new Date()): Promise<Partial<Record<UserRoleType, OnBehalfOf>>> {
+  const rows = await db
+    .select({
+      role: userRoles.role,
+      delegatorId: users.id,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      email: users.email,
+    })
+    .from(userRoles)
+    .innerJoin(users, eq(userRoles.delegatedFromUserId, users.id))
+    .where(and(eq(userRoles.userId, userId), eq(userRoles.isActive, true), gt(userRoles.expiresAt, now)));
+
+  const actingFor: Partial<Record<UserRoleType, OnBehalfOf>> = {};
+  for (const row of rows) {
+    actingFor[row.role] = { userId: row.delegatorId, name: `${row.firstName} ${row.lastName}`, email: row.email };
+  }
+  return actingFor;
+}
+
+export interface DelegationCheckResult {
+  started: number;
+  expired: number;
+}
+
+export async function runDelegationCheck(now: Date = new Date()): Promise<DelegationCheckResult> {
+  // Scheduled delegations whose start has arrived
+  const started = await db
+    .update(userRoles)
+    .set({ isActive: true })
+    .where(and(
+      isNotNull(userRoles.delegatedFromUserId),
+      eq(userRoles.isActive, false),
+      isNull(userRoles.revokedAt),
+      lte(userRoles.startsAt, now),
+      gt(userRoles.expiresAt, now)
+    ))
+    .returning();
+
+  // Active delegations past their end
+  const expired = await db
+    .update(userRoles)
+    .set({ isActive: false })
+    .where(and(
+      isNotNull(userRoles.delegatedFromUserId),
+      eq(userRoles.isActive, true),
+      lte(userRoles.expiresAt, now)
+    ))
+    .returning();
+
+  const changed = [...started, ...expired];
+  if (changed.length === 0) {
+    return { started: 0, expired: 0 };
+  }
+
+  const descriptions = await describeDelegations(changed);
+
+  // Recorded against the delegator, on whose behalf the role was held
+  for (const delegation of started) {
+    appendAuditLog({
+      userId: delegation.delegatedFromUserId!,
+      action: 'role_delegation_started',
+      notes: `Delegation of ${descriptions.get(delegation.id)} started`,
+      actorRole: 'system',
+    });
+  }
+  for (const delegation of expired) {
+    appendAuditLog({
+      userId: delegation.delegatedFromUserId!,
+      action: 'role_delegation_expired',
+      notes: `Delegation of ${descriptions.get(delegation.id)} expired`,
+      actorRole: 'system',
+    });
+  }
+
+  appLogger.info(`Role delegation check started ${started.length} and expired ${expired.length} delegation(s)`, { action: 'role_delegation_check' });
+
+  return { started: started.length, expired: expired.length };
+}
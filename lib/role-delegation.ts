@@ -0,0 +1,68 @@
+// Role delegation
+// Hand an approval or transfer role to a colleague for a date range; signatures record the delegator
+
+import { z } from 'zod';
+
+// Administrator and requestor access is granted by admins, never delegated
+export const DELEGABLE_ROLES = ['dao', 'approver', 'cpso', 'dta', 'sme', 'media_custodian'] as const;
+export type DelegableRole = typeof DELEGABLE_ROLES[number];
+
+export const DELEGABLE_ROLE_LABELS: Record<DelegableRole, string> = {
+  dao: 'DAO',
+  approver: 'Approver',
+  cpso: 'CPSO',
+  dta: 'Data Transfer Agent',
+  sme: 'Subject Matter Expert',
+  media_custodian: 'Media Custodian',
+};
+
+export function isDelegableRole(role: string): role is DelegableRole {
+  return (DELEGABLE_ROLES as readonly string[]).includes(role);
+}
+
+export const createDelegationSchema = z.object({
+  role: z.enum(DELEGABLE_ROLES, { message: 'Select a role to delegate' }),
+  delegateId: z.number().int().positive('Select a user to delegate to'),
+  // Admins may set up a delegation for a user who is already away
+  delegatorId: z.number().int().positive().optional(),
+  startsAt: z.coerce.date(),
+  expiresAt: z.coerce.date(),
+  reason: z.string().trim().max(500).optional(),
+}).refine(data => data.expiresAt > data.startsAt, {
+  message: 'The delegation must end after it starts',
+  path: ['expiresAt'],
+});
+
+export type CreateDelegationInput = z.infer<typeof createDelegationSchema>;
+
+// The delegator a signature was made for
+export interface OnBehalfOf {
+  userId: number;
+  name: string;
+  email: string;
+}
+
+export type DelegationStatus = 'scheduled' | 'active' | 'expired' | 'revoked';
+
+export const DELEGATION_STATUS_LABELS: Record<DelegationStatus, string> = {
+  scheduled: 'Scheduled',
+  active: 'Active',
+  expired: 'Expired',
+  revoked: 'Revoked',
+};
+
+export function getDelegationStatus(
+  delegation: { startsAt: Date | string | null; expiresAt: Date | string | null; revokedAt: Date | string | null },
+  now: Date = new Date()
+): DelegationStatus {
+  if (delegation.revokedAt) return 'revoked';
+  if (delegation.expiresAt && new Date(delegation.expiresAt) <= now) return 'expired';
+  if (delegation.startsAt && new Date(delegation.startsAt) > now) return 'scheduled';
+  return 'active';
+}
+
+// "Jane Doe on behalf of John Smith" for a signature made under a delegation
+export function formatSignerName(signer: { name?: string; onBehalfOf?: OnBehalfOf | null }): string | undefined {
+  if (!signer.name) return undefined;
+  return signer.onBehalfOf ? `${signer.name} on behalf of ${signer.onBehalfOf.name}` : signer.name;
+}
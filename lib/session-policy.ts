@@ -0,0 +1,22 @@
+// Session policy
+// Idle timeout, absolute lifetime and concurrent session limits for server-side sessions
+
+export const SESSION_END_REASONS = ['logout', 'idle_timeout', 'expired', 'session_limit', 'terminated', 'user_deactivated'] as const;
+export type SessionEndReason = typeof SESSION_END_REASONS[number];
+
+export const SESSION_END_REASON_LABELS: Record<SessionEndReason, string> = {
+  logout: 'Signed out',
+  idle_timeout: 'Idle timeout',
+  expired: 'Session lifetime reached',
+  session_limit: 'Replaced by a newer session',
+  terminated: 'Terminated by an administrator',
+  user_deactivated: 'Account deactivated',
+};
+
+// Background polls send this header so that a page left open does not keep its session
+// alive past the idle timeout
+export const PASSIVE_REQUEST_HEADER = 'x-aft-passive-request';
+
+export const passiveRequestInit: RequestInit = {
+  headers: { [PASSIVE_REQUEST_HEADER]: '1' },
+};
@@ -0,0 +1,146 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { eq, sql } from 'drizzle-orm';
+import { NextRequest } from 'next/server';
+import { userSessions, users } from './db/schema';
+import { createTableStatement, useTemporaryWorkingDirectory } from './test-helpers/database';
+
+type Sessions = typeof import('./sessions-server');
+type Database = typeof import('./db/server')['db'];
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+let sessions: Sessions;
+let db: Database;
+let userCount = 0;
+
+const signIn = new NextRequest('http://localhost/api/auth/login', { headers: { 'user-agent': 'test-browser' } });
+
+async function createUser(): Promise<number> {
+  const [user] = await db.insert(users).values({
+    email: `session${++userCount}@example.mil`,
+    password: 'not-used',
+    firstName: 'Test',
+    lastName: 'User',
+    primaryRole: 'requestor',
+  }).returning({ id: users.id });
+  return user.id;
+}
+
+function minutesFromNow(minutes: number): Date {
+  return new Date(Date.now() + minutes * MINUTE_MS);
+}
+
+before(async () => {
+  process.env.JWT_SECRET = 'test-jwt-secret';
+  process.env.AFT_SESSION_IDLE_MINUTES = '15';
+  process.env.AFT_SESSION_MAX_HOURS = '12';
+  process.env.AFT_MAX_CONCURRENT_SESSIONS = '3';
+  useTemporaryWorkingDirectory();
+  db = (await import('./db/server')).db;
+  for (const table of [users, userSessions]) {
+    db.run(sql.raw(createTableStatement(table)));
+  }
+  sessions = await import('./sessions-server');
+});
+
+describe('session lifetime', () => {
+  test('ends a session left idle past the timeout', async () => {
+    const session = await sessions.createSession(await createUser(), signIn);
+
+    assert.ok((await sessions.checkSession(session.jti, true, minutesFromNow(14))).ok);
+    assert.deepEqual(await sessions.checkSession(session.jti, true, minutesFromNow(30)), { ok: false, reason: 'idle_timeout' });
+
+    // Once ended it stays ended, whatever the time
+    assert.deepEqual(await sessions.checkSession(session.jti, true), { ok: false, reason: 'idle_timeout' });
+  });
+
+  test('restarts the idle timer on activity but not on background polls', async () => {
+    const active = await sessions.createSession(await createUser(), signIn);
+    const polled = await sessions.createSession(await createUser(), signIn);
+
+    assert.ok((await sessions.checkSession(active.jti, true, minutesFromNow(10))).ok);
+    assert.ok((await sessions.checkSession(polled.jti, false, minutesFromNow(10))).ok);
+
+    assert.ok((await sessions.checkSession(active.jti, true, minutesFromNow(20))).ok);
+    assert.deepEqual(await sessions.checkSession(polled.jti, false, minutesFromNow(20)), { ok: false, reason: 'idle_timeout' });
+  });
+
+  test('ends a session at its maximum lifetime however active it is', async () => {
+    const session = await sessions.createSession(await createUser(), signIn);
+    assert.ok(session.expiresAt.getTime() <= Date.now() + 12 * HOUR_MS);
+
+    // Keep it active right up to the end of its lifetime
+    for (let minutes = 10; minutes < 12 * 60; minutes += 10) {
+      assert.ok((await sessions.checkSession(session.jti, true, minutesFromNow(minutes))).ok);
+    }
+    assert.deepEqual(await sessions.checkSession(session.jti, true, minutesFromNow(12 * 60 + 1)), { ok: false, reason: 'expired' });
+  });
+
+  test('refuses sessions of deactivated users and unknown tokens', async () => {
+    const userId = await createUser();
+    const session = await sessions.createSession(userId, signIn);
+    await db.update(users).set({ isActive: false }).where(eq(users.id, userId));
+
+    assert.deepEqual(await sessions.checkSession(session.jti, true), { ok: false, reason: 'user_deactivated' });
+    assert.deepEqual(await sessions.checkSession('not-a-session', true), { ok: false, reason: 'unknown' });
+    assert.deepEqual(await sessions.checkSession(undefined, true), { ok: false, reason: 'unknown' });
+  });
+
+  test('refuses a signed-out session', async () => {
+    const session = await sessions.createSession(await createUser(), signIn);
+    assert.equal(await sessions.endSession(session.jti, 'logout'), true);
+    assert.equal(await sessions.endSession(session.jti, 'logout'), false);
+    assert.deepEqual(await sessions.checkSession(session.jti, true), { ok: false, reason: 'logout' });
+  });
+});
+
+describe('concurrent session limit', () => {
+  test('ends the least recently used session when a sign-in goes past the limit', async () => {
+    const userId = await createUser();
+    const opened = [];
+    for (let i = 0; i < 3; i++) {
+      opened.push(await sessions.createSession(userId, signIn));
+    }
+    // Stored times are whole seconds, so spread the last activity out explicitly
+    for (const [index, minutesAgo] of [5, 1, 3].entries()) {
+      await db.update(userSessions).set({ lastActivityAt: minutesFromNow(-minutesAgo) }).where(eq(userSessions.id, opened[index].id));
+    }
+
+    const newest = await sessions.createSession(userId, signIn);
+
+    assert.deepEqual(await sessions.checkSession(opened[0].jti, false), { ok: false, reason: 'session_limit' });
+    for (const session of [opened[1], opened[2], newest]) {
+      assert.ok((await sessions.checkSession(session.jti, false)).ok);
+    }
+    assert.deepEqual((await sessions.listActiveSessions(userId)).map(session => session.id), [newest.id, opened[1].id, opened[2].id]);
+  });
+
+  test('does not count lapsed sessions against the limit', async () => {
+    const userId = await createUser();
+    const stale = await sessions.createSession(userId, signIn);
+    await db.update(userSessions).set({ lastActivityAt: minutesFromNow(-30) }).where(eq(userSessions.id, stale.id));
+    const current = [await sessions.createSession(userId, signIn), await sessions.createSession(userId, signIn)];
+
+    await sessions.createSession(userId, signIn);
+
+    assert.deepEqual(await sessions.checkSession(stale.jti, false), { ok: false, reason: 'idle_timeout' });
+    for (const session of current) {
+      assert.ok((await sessions.checkSession(session.jti, false)).ok);
+    }
+  });
+
+  test('lets an admin end every session a user has', async () => {
+    const userId = await createUser();
+    const admin = await createUser();
+    const open = [await sessions.createSession(userId, signIn), await sessions.createSession(userId, signIn)];
+
+    assert.equal(await sessions.endUserSessions(userId, 'terminated', admin), 2);
+    for (const session of open) {
+      assert.deepEqual(await sessions.checkSession(session.jti, false), { ok: false, reason: 'terminated' });
+    }
+    const [row] = await db.select().from(userSessions).where(eq(userSessions.id, open[0].id));
+    assert.equal(row.endedBy, admin);
+  });
+});
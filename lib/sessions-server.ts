@@ -0,0 +1,209 @@
+// Server-side session store. Sign-in creates the session and puts its jti in the JWT;
+// the middleware checks it on every request, so a session that has been signed out,
+// timed out or terminated stops working even though its token is still correctly signed.
+
+import { randomUUID } from 'crypto';
+import { db } from '@/lib/db/server';
+import { userSessions, users, type UserSession } from '@/lib/db/schema';
+import { and, asc, desc, eq, gt, inArray, isNull, lt } from 'drizzle-orm';
+import type { NextRequest } from 'next/server';
+import type { SessionEndReason } from './session-policy';
+import { getClientAddress } from './client-address';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Last activity is written at most this often, so page loads don't each cost a write
+const ACTIVITY_WRITE_INTERVAL_MS = MINUTE_MS;
+// Ended sessions are kept this long for review before sign-in prunes them
+const ENDED_SESSION_RETENTION_MS = 30 * 24 * HOUR_MS;
+
+export interface SessionConfig {
+  // Minutes without activity before a session ends
+  idleTimeoutMinutes: number;
+  // Hours from sign-in after which a session ends regardless of activity
+  maxLifetimeHours: number;
+  // Sessions a user may hold at once; signing in past the limit ends the least recently used
+  maxConcurrentSessions: number;
+}
+
+function positiveSetting(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '');
+  return isNaN(parsed) || parsed < 1 ? fallback : parsed;
+}
+
+export function getSessionConfig(): SessionConfig {
+  return {
+    idleTimeoutMinutes: positiveSetting(process.env.AFT_SESSION_IDLE_MINUTES, 15),
+    maxLifetimeHours: positiveSetting(process.env.AFT_SESSION_MAX_HOURS, 12),
+    maxConcurrentSessions: positiveSetting(process.env.AFT_MAX_CONCURRENT_SESSIONS, 3),
+  };
+}
+
+async function endSessions(ids: number[], reason: SessionEndReason, endedBy: number | null = null): Promise<number> {
+  if (ids.length === 0) return 0;
+  const ended = await db
+    .update(userSessions)
+    .set({ endedAt: new Date(), endReason: reason, endedBy })
+    .where(and(inArray(userSessions.id, ids), isNull(userSessions.endedAt)))
+    .returning({ id: userSessions.id });
+  return ended.length;
+}
+
+// Why a session that has not been ended yet should end now, if it should
+function getLapse(session: UserSession, config: SessionConfig, now: Date): SessionEndReason | null {
+  if (session.expiresAt <= now) return 'expired';
+  if (session.lastActivityAt.getTime() + config.idleTimeoutMinutes * MINUTE_MS <= now.getTime()) return 'idle_timeout';
+  return null;
+}
+
+// Open a session for a user who has just authenticated, making room under the concurrent limit.
+// A session opened with an expired password can only be used to change it, and one
+// whose role requires MFA the user hasn't set up only to enroll.
+export async function createSession(
+  userId: number,
+  request: NextRequest,
+  options: { passwordChangeRequired?: boolean; mfaEnrollmentRequired?: boolean; consentAcknowledgedAt?: Date } = {}
+): Promise<UserSession> {
+  const config = getSessionConfig();
+  const now = new Date();
+
+  await db
+    .delete(userSessions)
+    .where(and(eq(userSessions.userId, userId), lt(userSessions.endedAt, new Date(now.getTime() - ENDED_SESSION_RETENTION_MS))));
+
+  const open = await db
+    .select()
+    .from(userSessions)
+    .where(and(eq(userSessions.userId, userId), isNull(userSessions.endedAt)))
+    .orderBy(asc(userSessions.lastActivityAt));
+
+  const active: UserSession[] = [];
+  for (const session of open) {
+    const lapse = getLapse(session, config, now);
+    if (lapse) {
+      await endSessions([session.id], lapse);
+    } else {
+      active.push(session);
+    }
+  }
+
+  // Leave room for the new session
+  const excess = active.length - (config.maxConcurrentSessions - 1);
+  if (excess > 0) {
+    await endSessions(active.slice(0, excess).map(session => session.id), 'session_limit');
+  }
+
+  const inserted = await db.insert(userSessions).values({
+    jti: randomUUID(),
+    userId,
+    ipAddress: getClientAddress(request),
+    userAgent: request.headers.get('user-agent'),
+    createdAt: now,
+    lastActivityAt: now,
+    expiresAt: new Date(now.getTime() + config.maxLifetimeHours * HOUR_MS),
+    passwordChangeRequired: options.passwordChangeRequired ?? false,
+    mfaEnrollmentRequired: options.mfaEnrollmentRequired ?? false,
+    consentAcknowledgedAt: options.consentAcknowledgedAt ?? null,
+  }).returning();
+  return inserted[0];
+}
+
+export type SessionCheckResult =
+  | { ok: true; session: UserSession }
+  | { ok: false; reason: SessionEndReason | 'unknown' };
+
+// Whether the token's session is still live. A request that counts as activity restarts
+// the idle timer; a session found lapsed is ended so it shows why in the admin view.
+export async function checkSession(jti: string | undefined, countsAsActivity: boolean, now: Date = new Date()): Promise<SessionCheckResult> {
+  if (!jti) {
+    return { ok: false, reason: 'unknown' };
+  }
+
+  const rows = await db
+    .select({ session: userSessions, userActive: users.isActive })
+    .from(userSessions)
+    .innerJoin(users, eq(userSessions.userId, users.id))
+    .where(eq(userSessions.jti, jti))
+    .limit(1);
+  if (rows.length === 0) {
+    return { ok: false, reason: 'unknown' };
+  }
+
+  const { session, userActive } = rows[0];
+  if (session.endedAt) {
+    return { ok: false, reason: (session.endReason as SessionEndReason | null) ?? 'unknown' };
+  }
+
+  const lapse = userActive ? getLapse(session, getSessionConfig(), now) : 'user_deactivated';
+  if (lapse) {
+    await endSessions([session.id], lapse);
+    return { ok: false, reason: lapse };
+  }
+
+  if (countsAsActivity && now.getTime() - session.lastActivityAt.getTime() >= ACTIVITY_WRITE_INTERVAL_MS) {
+    await db
+      .update(userSessions)
+      .set({ lastActivityAt: now })
+      .where(and(eq(userSessions.id, session.id), isNull(userSessions.endedAt)));
+  }
+
+  return { ok: true, session };
+}
+
+export async function endSession(jti: string, reason: SessionEndReason): Promise<boolean> {
+  const ended = await db
+    .update(userSessions)
+    .set({ endedAt: new Date(), endReason: reason })
+    .where(and(eq(userSessions.jti, jti), isNull(userSessions.endedAt)))
+    .returning({ id: userSessions.id });
+  return ended.length > 0;
+}
+
+// Lift the password change restriction from a user's sessions once the password has been changed
+export async function clearPasswordChangeRequired(userId: number): Promise<void> {
+  await db
+    .update(userSessions)
+    .set({ passwordChangeRequired: false })
+    .where(and(eq(userSessions.userId, userId), isNull(userSessions.endedAt)));
+}
+
+// Lift the MFA enrollment restriction from a user's sessions once they have enrolled
+export async function clearMfaEnrollmentRequired(userId: number): Promise<void> {
+  await db
+    .update(userSessions)
+    .set({ mfaEnrollmentRequired: false })
+    .where(and(eq(userSessions.userId, userId), isNull(userSessions.endedAt)));
+}
+
+// End every open session a user has, e.g. when an admin terminates them; returns how many ended
+export async function endUserSessions(userId: number, reason: SessionEndReason, endedBy: number | null = null): Promise<number> {
+  const open = await db
+    .select({ id: userSessions.id })
+    .from(userSessions)
+    .where(and(eq(userSessions.userId, userId), isNull(userSessions.endedAt)));
+  return endSessions(open.map(session => session.id), reason, endedBy);
+}
+
+// Sessions that have not ended or run past their lifetime, most recently used first
+export async function listActiveSessions(userId: number) {
+  const config = getSessionConfig();
+  const now = new Date();
+  const open = await db
+    .select()
+    .from(userSessions)
+    .where(and(eq(userSessions.userId, userId), isNull(userSessions.endedAt), gt(userSessions.expiresAt, now)))
+    .orderBy(desc(userSessions.lastActivityAt));
+
+  return open
+    .filter(session => getLapse(session, config, now) === null)
+    .map(session => ({
+      id: session.id,
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      createdAt: session.createdAt,
+      lastActivityAt: session.lastActivityAt,
+      expiresAt: session.expiresAt,
+      consentAcknowledgedAt: session.consentAcknowledgedAt,
+    }));
+}
@@ -0,0 +1,529 @@
+// CAC signature verification
+// Verifies a stored cacSignatures row cryptographically: the signer certificate
+// is parsed, its chain is built up to an active root in cacTrustStore, its
+// revocation status is checked, and the signature value is checked against the
+// certificate's public key.
+// Server-only - uses Node crypto and the database.
+
+import * as crypto from 'crypto';
+import * as x509 from '@peculiar/x509';
+import { db } from '@/lib/db/server';
+import { cacTrustStore, type CACSignature } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { checkCertificateRevocation, getRevocationConfig, type RevocationResult } from '@/lib/revocation';
+
+x509.cryptoProvider.set(crypto.webcrypto as Crypto);
+
+const MAX_CHAIN_DEPTH = 10;
+
+export type VerificationCheckStatus = 'pass' | 'fail' | 'skipped';
+
+export interface VerificationCheck {
+  status: VerificationCheckStatus;
+  message: string;
+}
+
+export interface VerificationChecks {
+  certificateParsed: VerificationCheck;
+  thumbprintMatch: VerificationCheck;
+  validityPeriod: VerificationCheck;
+  keyUsage: VerificationCheck;
+  chain: VerificationCheck;
+  trustAnchor: VerificationCheck;
+  revocation: VerificationCheck;
+  dataIntegrity: VerificationCheck;
+  signature: VerificationCheck;
+}
+
+export interface ChainCertificate {
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  thumbprint: string;
+  notBefore: string;
+  notAfter: string;
+  source: 'signer' | 'supplied' | 'trust_store';
+}
+
+export interface SignatureVerificationResult {
+  isValid: boolean;
+  error?: string;
+  checks: VerificationChecks;
+  chain: ChainCertificate[];
+  // Summary flags kept for clients of the original verification response
+  details: {
+    certificateValid: boolean;
+    signatureValid: boolean;
+    certificateExpired: boolean;
+    certificateTrusted: boolean;
+    timestampValid: boolean;
+  };
+}
+
+export interface CertificateValidationResult {
+  isValid: boolean;
+  error?: string;
+  checks: Pick<VerificationChecks, 'validityPeriod' | 'chain' | 'trustAnchor' | 'revocation'>;
+  chain: ChainCertificate[];
+}
+
+type SignatureScheme = 'rsa-pkcs1' | 'rsa-pss' | 'ecdsa';
+
+interface SignatureAlgorithm {
+  scheme: SignatureScheme;
+  hash: 'sha256' | 'sha384' | 'sha512';
+}
+
+interface CandidateCertificate {
+  cert: x509.X509Certificate;
+  thumbprint: string;
+  source: ChainCertificate['source'];
+  isRootCA: boolean;
+}
+
+// Uppercase SHA-1 hex of the DER encoding, matching CertificateParser and the trust store
+export function getCertificateThumbprint(cert: x509.X509Certificate): string {
+  return crypto.createHash('sha1').update(Buffer.from(cert.rawData)).digest('hex').toUpperCase();
+}
+
+export function normalizeThumbprint(thumbprint: string): string {
+  return thumbprint.replace(/[^0-9a-f]/gi, '').toUpperCase();
+}
+
+// Parse a certificate supplied as PEM or Base64 DER
+export function parseCertificate(data: string): x509.X509Certificate {
+  const trimmed = data.trim();
+  if (trimmed.startsWith('-----BEGIN')) {
+    return new x509.X509Certificate(trimmed);
+  }
+  return new x509.X509Certificate(Buffer.from(trimmed, 'base64'));
+}
+
+// Base64 DER, the form certificates are stored in
+export function encodeCertificate(cert: x509.X509Certificate): string {
+  return Buffer.from(cert.rawData).toString('base64');
+}
+
+export function parseSignatureAlgorithm(algorithm: string): SignatureAlgorithm | null {
+  const match = /^(RSA-PSS|RSA|ECDSA)-SHA(256|384|512)$/i.exec(algorithm.trim());
+  if (!match) return null;
+
+  const scheme: SignatureScheme = match[1].toUpperCase() === 'RSA-PSS'
+    ? 'rsa-pss'
+    : match[1].toUpperCase() === 'RSA' ? 'rsa-pkcs1' : 'ecdsa';
+  return { scheme, hash: `sha${match[2]}` as SignatureAlgorithm['hash'] };
+}
+
+function describeCertificate(candidate: CandidateCertificate): ChainCertificate {
+  return {
+    subject: candidate.cert.subject,
+    issuer: candidate.cert.issuer,
+    serialNumber: candidate.cert.serialNumber,
+    thumbprint: candidate.thumbprint,
+    notBefore: candidate.cert.notBefore.toISOString(),
+    notAfter: candidate.cert.notAfter.toISOString(),
+    source: candidate.source,
+  };
+}
+
+function isWithinValidity(cert: x509.X509Certificate, date: Date): boolean {
+  return date >= cert.notBefore && date <= cert.notAfter;
+}
+
+function isCertificateAuthority(cert: x509.X509Certificate): boolean {
+  const constraints = cert.getExtension(x509.BasicConstraintsExtension);
+  return !!constraints?.ca;
+}
+
+async function loadTrustAnchors(): Promise<CandidateCertificate[]> {
+  const entries = await db.select()
+    .from(cacTrustStore)
+    .where(eq(cacTrustStore.isActive, true));
+
+  const anchors: CandidateCertificate[] = [];
+  for (const entry of entries) {
+    try {
+      const cert = parseCertificate(entry.certificateData);
+      anchors.push({ cert, thumbprint: getCertificateThumbprint(cert), source: 'trust_store', isRootCA: entry.isRootCA });
+    } catch {
+      // Unparseable trust store entries cannot anchor a chain
+    }
+  }
+  return anchors;
+}
+
+function parseSuppliedChain(certificateChain: string | null): CandidateCertificate[] {
+  if (!certificateChain) return [];
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(certificateChain);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(entries)) return [];
+
+  const chain: CandidateCertificate[] = [];
+  for (const entry of entries) {
+    if (typeof entry !== 'string') continue;
+    try {
+      const cert = parseCertificate(entry);
+      chain.push({ cert, thumbprint: getCertificateThumbprint(cert), source: 'supplied', isRootCA: false });
+    } catch {
+      // Ignore malformed intermediates - chain building reports the missing issuer
+    }
+  }
+  return chain;
+}
+
+// Walk from the signer certificate to an active root CA in the trust store
+async function buildChain(
+  leaf: CandidateCertificate,
+  anchors: CandidateCertificate[],
+  supplied: CandidateCertificate[],
+  signedAt: Date
+): Promise<{ chain: CandidateCertificate[]; chainCheck: VerificationCheck; trustCheck: VerificationCheck }> {
+  const chain: CandidateCertificate[] = [leaf];
+  const candidates = [...anchors, ...supplied];
+
+  for (let depth = 0; depth < MAX_CHAIN_DEPTH; depth++) {
+    const current = chain[chain.length - 1];
+
+    // The chain ends at an active root CA in the trust store
+    const anchor = anchors.find(a => a.thumbprint === current.thumbprint && a.isRootCA);
+    if (anchor) {
+      return {
+        chain,
+        chainCheck: { status: 'pass', message: `Chain of ${chain.length} certificate(s) validated` },
+        trustCheck: { status: 'pass', message: `Anchored at trusted root ${anchor.cert.subject}` },
+      };
+    }
+
+    // A self-signed certificate that is not a trusted root ends the chain
+    if (await current.cert.isSelfSigned()) {
+      return {
+        chain,
+        chainCheck: { status: 'pass', message: `Chain of ${chain.length} certificate(s) validated` },
+        trustCheck: { status: 'fail', message: `Root ${current.cert.subject} is not an active root CA in the trust store` },
+      };
+    }
+
+    // Trust store entries come first, so they win over a supplied copy of the same certificate
+    let issuer: CandidateCertificate | null = null;
+    for (const candidate of candidates) {
+      if (candidate.cert.subject !== current.cert.issuer) continue;
+      if (chain.some(link => link.thumbprint === candidate.thumbprint)) continue;
+      if (await current.cert.verify({ publicKey: candidate.cert.publicKey, signatureOnly: true })) {
+        issuer = candidate;
+        break;
+      }
+    }
+
+    if (!issuer) {
+      return {
+        chain,
+        chainCheck: { status: 'fail', message: `Issuer certificate not found for ${current.cert.subject}` },
+        trustCheck: { status: 'fail', message: 'Chain does not reach an active root CA in the trust store' },
+      };
+    }
+
+    if (!isCertificateAuthority(issuer.cert)) {
+      return {
+        chain,
+        chainCheck: { status: 'fail', message: `Issuer ${issuer.cert.subject} is not a certificate authority` },
+        trustCheck: { status: 'fail', message: 'Chain does not reach an active root CA in the trust store' },
+      };
+    }
+
+    chain.push(issuer);
+
+    if (!isWithinValidity(issuer.cert, signedAt)) {
+      return {
+        chain,
+        chainCheck: { status: 'fail', message: `Issuer ${issuer.cert.subject} was not valid at signing time` },
+        trustCheck: { status: 'fail', message: 'Chain does not reach an active root CA in the trust store' },
+      };
+    }
+  }
+
+  return {
+    chain,
+    chainCheck: { status: 'fail', message: `Chain exceeds the maximum depth of ${MAX_CHAIN_DEPTH}` },
+    trustCheck: { status: 'fail', message: 'Chain does not reach an active root CA in the trust store' },
+  };
+}
+
+// Find the issuer of a certificate among the trust store and the supplied intermediates
+async function findIssuer(cert: x509.X509Certificate, candidates: CandidateCertificate[]): Promise<x509.X509Certificate | null> {
+  for (const candidate of candidates) {
+    if (candidate.cert.subject !== cert.issuer) continue;
+    if (await cert.verify({ publicKey: candidate.cert.publicKey, signatureOnly: true })) {
+      return candidate.cert;
+    }
+  }
+  return null;
+}
+
+// Validate a certificate presented for use right now, such as a client certificate at CAC login
+export async function validateCertificate(
+  certificate: x509.X509Certificate,
+  certificateChain: string[] = []
+): Promise<CertificateValidationResult> {
+  const now = new Date();
+  const leaf: CandidateCertificate = {
+    cert: certificate,
+    thumbprint: getCertificateThumbprint(certificate),
+    source: 'signer',
+    isRootCA: false,
+  };
+
+  const validityPeriod: VerificationCheck = isWithinValidity(certificate, now)
+    ? { status: 'pass', message: `Certificate is valid until ${certificate.notAfter.toISOString()}` }
+    : { status: 'fail', message: 'Certificate is expired or not yet valid' };
+
+  const built = await buildChain(leaf, await loadTrustAnchors(), parseSuppliedChain(JSON.stringify(certificateChain)), now);
+  const checks = {
+    validityPeriod,
+    chain: built.chainCheck,
+    trustAnchor: built.trustCheck,
+    revocation: await checkRevocation(certificate, built.chain[1]?.cert ?? null, now),
+  };
+
+  const failed = Object.values(checks).filter(check => check.status === 'fail');
+  return {
+    isValid: failed.length === 0,
+    error: failed.length > 0 ? failed.map(check => check.message).join('; ') : undefined,
+    checks,
+    chain: built.chain.map(describeCertificate),
+  };
+}
+
+// Revocation status of a signer certificate before a new signature is recorded
+export async function checkSignerRevocation(certificate: x509.X509Certificate, certificateChain: string[] = []): Promise<RevocationResult> {
+  const supplied = parseSuppliedChain(JSON.stringify(certificateChain));
+  const issuer = await findIssuer(certificate, [...await loadTrustAnchors(), ...supplied]);
+  return checkCertificateRevocation(certificate, issuer);
+}
+
+async function checkRevocation(
+  cert: x509.X509Certificate,
+  issuer: x509.X509Certificate | null,
+  signedAt: Date
+): Promise<VerificationCheck> {
+  const revocation = await checkCertificateRevocation(cert, issuer);
+
+  if (revocation.status === 'revoked') {
+    // A signature applied before the revocation stays valid unless the key was compromised
+    const revokedAfterSigning = !!revocation.revokedAt && revocation.revokedAt > signedAt && revocation.reason !== 'keyCompromise';
+    return revokedAfterSigning
+      ? { status: 'pass', message: `${revocation.message}, after the signature was applied` }
+      : { status: 'fail', message: revocation.message };
+  }
+  if (revocation.status === 'unknown') {
+    return { status: getRevocationConfig().requireRevocationCheck ? 'fail' : 'skipped', message: revocation.message };
+  }
+  return { status: 'pass', message: revocation.message };
+}
+
+function checkKeyUsage(cert: x509.X509Certificate): VerificationCheck {
+  const keyUsage = cert.getExtension(x509.KeyUsagesExtension);
+  if (!keyUsage) {
+    return { status: 'pass', message: 'No key usage restrictions' };
+  }
+  const allowed = x509.KeyUsageFlags.digitalSignature | x509.KeyUsageFlags.nonRepudiation;
+  return keyUsage.usages & allowed
+    ? { status: 'pass', message: 'Certificate permits digital signatures' }
+    : { status: 'fail', message: 'Certificate key usage does not permit digital signatures' };
+}
+
+function verifyWithOriginalData(
+  publicKey: crypto.KeyObject,
+  algorithm: SignatureAlgorithm,
+  originalData: string,
+  signature: Buffer
+): boolean {
+  const data = Buffer.from(originalData, 'utf8');
+
+  switch (algorithm.scheme) {
+    case 'rsa-pkcs1':
+      return crypto.verify(algorithm.hash, data, { key: publicKey, padding: crypto.constants.RSA_PKCS1_PADDING }, signature);
+    case 'rsa-pss':
+      return crypto.verify(algorithm.hash, data, {
+        key: publicKey,
+        padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+        saltLength: crypto.constants.RSA_PSS_SALTLEN_AUTO,
+      }, signature);
+    case 'ecdsa':
+      // Browsers produce raw (r || s) signatures, other signers DER
+      return crypto.verify(algorithm.hash, data, { key: publicKey, dsaEncoding: 'der' }, signature) ||
+        crypto.verify(algorithm.hash, data, { key: publicKey, dsaEncoding: 'ieee-p1363' }, signature);
+  }
+}
+
+// Recover the DigestInfo from an RSA PKCS#1 v1.5 signature and compare it with the stored hash
+function verifyPkcs1AgainstHash(
+  publicKey: crypto.KeyObject,
+  algorithm: SignatureAlgorithm,
+  storedHash: string,
+  signature: Buffer
+): boolean {
+  const digestInfo = crypto.publicDecrypt({ key: publicKey, padding: crypto.constants.RSA_PKCS1_PADDING }, signature);
+  const expected = Buffer.concat([DIGEST_INFO_PREFIX[algorithm.hash], Buffer.from(storedHash, 'hex')]);
+  return digestInfo.length === expected.length && crypto.timingSafeEqual(digestInfo, expected);
+}
+
+// DER DigestInfo headers preceding the hash in PKCS#1 v1.5 signatures
+const DIGEST_INFO_PREFIX: Record<SignatureAlgorithm['hash'], Buffer> = {
+  sha256: Buffer.from('3031300d060960864801650304020105000420', 'hex'),
+  sha384: Buffer.from('3041300d060960864801650304020205000430', 'hex'),
+  sha512: Buffer.from('3051300d060960864801650304020305000440', 'hex'),
+};
+
+function checkSignature(
+  cert: x509.X509Certificate,
+  signature: Pick<CACSignature, 'signatureData' | 'signedData' | 'signatureAlgorithm'>,
+  originalData?: string
+): VerificationCheck {
+  const algorithm = parseSignatureAlgorithm(signature.signatureAlgorithm);
+  if (!algorithm) {
+    return { status: 'fail', message: `Unsupported signature algorithm: ${signature.signatureAlgorithm}` };
+  }
+
+  const publicKey = crypto.createPublicKey({ key: Buffer.from(cert.publicKey.rawData), format: 'der', type: 'spki' });
+  const keyType = publicKey.asymmetricKeyType;
+  const keyMatches = algorithm.scheme === 'ecdsa'
+    ? keyType === 'ec'
+    : keyType === 'rsa' || (algorithm.scheme === 'rsa-pss' && keyType === 'rsa-pss');
+  if (!keyMatches) {
+    return { status: 'fail', message: `${signature.signatureAlgorithm} does not match the certificate's ${keyType} key` };
+  }
+
+  const signatureValue = Buffer.from(signature.signatureData, 'base64');
+  if (signatureValue.length === 0) {
+    return { status: 'fail', message: 'Signature value is empty' };
+  }
+
+  try {
+    if (originalData !== undefined) {
+      return verifyWithOriginalData(publicKey, algorithm, originalData, signatureValue)
+        ? { status: 'pass', message: `${signature.signatureAlgorithm} signature verified against the original data` }
+        : { status: 'fail', message: 'Signature does not match the signer public key' };
+    }
+
+    // Without the original data only PKCS#1 v1.5 signatures can be checked against the stored hash
+    if (algorithm.scheme !== 'rsa-pkcs1') {
+      return { status: 'skipped', message: `Original data is required to verify ${signature.signatureAlgorithm} signatures` };
+    }
+    return verifyPkcs1AgainstHash(publicKey, algorithm, signature.signedData, signatureValue)
+      ? { status: 'pass', message: `${signature.signatureAlgorithm} signature verified against the stored hash` }
+      : { status: 'fail', message: 'Signature does not match the signer public key' };
+  } catch (error) {
+    return { status: 'fail', message: `Signature check failed: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+function checkDataIntegrity(
+  signature: Pick<CACSignature, 'signedData' | 'signatureAlgorithm'>,
+  originalData?: string
+): VerificationCheck {
+  if (originalData === undefined) {
+    return { status: 'skipped', message: 'No original data supplied' };
+  }
+  const hash = parseSignatureAlgorithm(signature.signatureAlgorithm)?.hash || 'sha256';
+  const calculatedHash = crypto.createHash(hash).update(originalData, 'utf8').digest('hex');
+  return calculatedHash === signature.signedData.toLowerCase()
+    ? { status: 'pass', message: 'Original data matches the signed hash' }
+    : { status: 'fail', message: 'Original data does not match the signed hash' };
+}
+
+const NOT_RUN: VerificationCheck = { status: 'skipped', message: 'Not checked - signer certificate unavailable' };
+
+export async function verifyCacSignature(
+  signature: CACSignature,
+  originalData?: string
+): Promise<SignatureVerificationResult> {
+  const anchors = await loadTrustAnchors();
+  const checks: VerificationChecks = {
+    certificateParsed: NOT_RUN,
+    thumbprintMatch: NOT_RUN,
+    validityPeriod: NOT_RUN,
+    keyUsage: NOT_RUN,
+    chain: NOT_RUN,
+    trustAnchor: NOT_RUN,
+    revocation: NOT_RUN,
+    dataIntegrity: checkDataIntegrity(signature, originalData),
+    signature: NOT_RUN,
+  };
+  let chain: CandidateCertificate[] = [];
+
+  // Signatures recorded before certificates were stored can still be verified
+  // when the signer certificate is in the trust store
+  let leaf: CandidateCertificate | null = null;
+  if (signature.certificateData) {
+    try {
+      const cert = parseCertificate(signature.certificateData);
+      leaf = { cert, thumbprint: getCertificateThumbprint(cert), source: 'signer', isRootCA: false };
+      checks.certificateParsed = { status: 'pass', message: cert.subject };
+    } catch (error) {
+      checks.certificateParsed = {
+        status: 'fail',
+        message: `Stored signer certificate could not be parsed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  } else {
+    const stored = anchors.find(a => a.thumbprint === normalizeThumbprint(signature.certificateThumbprint));
+    if (stored) {
+      leaf = { ...stored, source: 'signer' };
+      checks.certificateParsed = { status: 'pass', message: `${stored.cert.subject} (from trust store)` };
+    } else {
+      checks.certificateParsed = { status: 'fail', message: 'No signer certificate is stored with this signature' };
+    }
+  }
+
+  if (leaf) {
+    checks.thumbprintMatch = leaf.thumbprint === normalizeThumbprint(signature.certificateThumbprint)
+      ? { status: 'pass', message: leaf.thumbprint }
+      : { status: 'fail', message: `Certificate thumbprint ${leaf.thumbprint} does not match recorded ${signature.certificateThumbprint}` };
+
+    const signedAt = signature.createdAt;
+    checks.validityPeriod = isWithinValidity(leaf.cert, signedAt)
+      ? { status: 'pass', message: `Certificate was valid when signed (${signedAt.toISOString()})` }
+      : { status: 'fail', message: `Certificate was expired or not yet valid when signed (${signedAt.toISOString()})` };
+
+    checks.keyUsage = checkKeyUsage(leaf.cert);
+
+    const built = await buildChain(leaf, anchors, parseSuppliedChain(signature.certificateChain), signedAt);
+    chain = built.chain;
+    checks.chain = built.chainCheck;
+    checks.trustAnchor = built.trustCheck;
+    checks.revocation = await checkRevocation(leaf.cert, chain[1]?.cert ?? null, signedAt);
+
+    checks.signature = checkSignature(leaf.cert, signature, originalData);
+  }
+
+  const failed = (Object.keys(checks) as (keyof VerificationChecks)[])
+    .filter(name => checks[name].status === 'fail');
+  const isValid = failed.length === 0 && checks.signature.status === 'pass';
+
+  let error: string | undefined;
+  if (failed.length > 0) {
+    error = `Verification failed: ${failed.map(name => checks[name].message).join('; ')}`;
+  } else if (!isValid) {
+    error = checks.signature.message;
+  }
+
+  return {
+    isValid,
+    error,
+    checks,
+    chain: chain.map(describeCertificate),
+    details: {
+      certificateValid: checks.certificateParsed.status === 'pass' && checks.keyUsage.status === 'pass' &&
+        checks.revocation.status !== 'fail',
+      signatureValid: checks.signature.status === 'pass' && checks.dataIntegrity.status !== 'fail',
+      certificateExpired: checks.validityPeriod.status !== 'pass',
+      certificateTrusted: checks.chain.status === 'pass' && checks.trustAnchor.status === 'pass',
+      timestampValid: checks.validityPeriod.status === 'pass',
+    },
+  };
+}
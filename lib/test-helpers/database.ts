@@ -0,0 +1,46 @@
+// Test database
+// lib/db/server opens data/aft.db under the working directory when it is first imported,
+// so tests move into a fresh temporary directory before importing anything that uses the
+// database, then create the tables they need from the Drizzle schema.
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { getTableConfig, type SQLiteTable } from 'drizzle-orm/sqlite-core';
+import { SQL } from 'drizzle-orm';
+
+export function useTemporaryWorkingDirectory(): string {
+  const directory = mkdtempSync(path.join(tmpdir(), 'aft-test-'));
+  process.chdir(directory);
+  process.once('exit', () => rmSync(directory, { recursive: true, force: true }));
+  return directory;
+}
+
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+function literal(value: unknown): string {
+  if (typeof value === 'number') return String(value);
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+// CREATE TABLE for a schema table: columns, primary keys, NOT NULL, UNIQUE and literal
+// defaults. Foreign keys are left out so tests can insert rows in any order.
+export function createTableStatement(table: SQLiteTable): string {
+  const config = getTableConfig(table);
+  const columns = config.columns.map(column => {
+    const parts = [quote(column.name), column.getSQLType()];
+    if (column.primary) {
+      parts.push('PRIMARY KEY');
+      if ((column as { autoIncrement?: boolean }).autoIncrement) parts.push('AUTOINCREMENT');
+    }
+    if (column.notNull && !column.primary) parts.push('NOT NULL');
+    if (column.isUnique) parts.push('UNIQUE');
+    if (column.hasDefault && column.default !== undefined && !(column.default instanceof SQL)) {
+      parts.push(`DEFAULT ${literal(column.mapToDriverValue(column.default))}`);
+    }
+    return parts.join(' ');
+  });
+  return `CREATE TABLE ${quote(config.name)} (${columns.join(', ')})`;
+}
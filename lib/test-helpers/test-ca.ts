@@ -0,0 +1,94 @@
+// Local test CA
+// Issues a root, intermediates, end-entity certificates and CRLs with ECDSA P-256 keys
+// so the CAC chain, login and revocation code can be tested without real DoD PKI.
+
+import * as crypto from 'crypto';
+import * as x509 from '@peculiar/x509';
+
+x509.cryptoProvider.set(crypto.webcrypto as Crypto);
+
+const KEY_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNING_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TestAuthority {
+  certificate: x509.X509Certificate;
+  keys: CryptoKeyPair;
+}
+
+export interface TestCertificateOptions {
+  subject: string;
+  serialNumber: string;
+  isCa?: boolean;
+  emails?: string[];
+  extendedKeyUsages?: string[];
+  notBefore?: Date;
+  notAfter?: Date;
+}
+
+function generateKeys(): Promise<CryptoKeyPair> {
+  return crypto.webcrypto.subtle.generateKey(KEY_ALGORITHM, true, ['sign', 'verify']) as Promise<CryptoKeyPair>;
+}
+
+function caExtensions(): x509.Extension[] {
+  return [
+    new x509.BasicConstraintsExtension(true, undefined, true),
+    new x509.KeyUsagesExtension(x509.KeyUsageFlags.keyCertSign | x509.KeyUsageFlags.cRLSign, true),
+  ];
+}
+
+export async function createTestRootCa(subject = 'CN=AFT Test Root CA, O=AFT Test'): Promise<TestAuthority> {
+  const keys = await generateKeys();
+  const certificate = await x509.X509CertificateGenerator.createSelfSigned({
+    serialNumber: '01',
+    name: subject,
+    notBefore: new Date(Date.now() - DAY_MS),
+    notAfter: new Date(Date.now() + 365 * DAY_MS),
+    keys,
+    signingAlgorithm: SIGNING_ALGORITHM,
+    extensions: caExtensions(),
+  });
+  return { certificate, keys };
+}
+
+export async function issueTestCertificate(issuer: TestAuthority, options: TestCertificateOptions): Promise<TestAuthority> {
+  const keys = await generateKeys();
+  const extensions: x509.Extension[] = options.isCa
+    ? caExtensions()
+    : [new x509.KeyUsagesExtension(x509.KeyUsageFlags.digitalSignature | x509.KeyUsageFlags.nonRepudiation, true)];
+  if (options.emails?.length) {
+    extensions.push(new x509.SubjectAlternativeNameExtension(options.emails.map(value => ({ type: 'email' as const, value }))));
+  }
+  if (options.extendedKeyUsages?.length) {
+    extensions.push(new x509.ExtendedKeyUsageExtension(options.extendedKeyUsages));
+  }
+
+  const certificate = await x509.X509CertificateGenerator.create({
+    serialNumber: options.serialNumber,
+    subject: options.subject,
+    issuer: issuer.certificate.subject,
+    notBefore: options.notBefore ?? new Date(Date.now() - DAY_MS),
+    notAfter: options.notAfter ?? new Date(Date.now() + 180 * DAY_MS),
+    publicKey: keys.publicKey,
+    signingKey: issuer.keys.privateKey,
+    signingAlgorithm: SIGNING_ALGORITHM,
+    extensions,
+  });
+  return { certificate, keys };
+}
+
+export async function issueTestCrl(
+  issuer: TestAuthority,
+  revoked: { serialNumber: string; revocationDate: Date; reason?: x509.X509CrlReason }[],
+  options: { thisUpdate?: Date; nextUpdate?: Date } = {}
+): Promise<Buffer> {
+  const crl = await x509.X509CrlGenerator.create({
+    issuer: issuer.certificate.subject,
+    thisUpdate: options.thisUpdate ?? new Date(Date.now() - DAY_MS),
+    nextUpdate: options.nextUpdate ?? new Date(Date.now() + 7 * DAY_MS),
+    entries: revoked,
+    signingKey: issuer.keys.privateKey,
+    signingAlgorithm: SIGNING_ALGORITHM,
+  });
+  return Buffer.from(crl.rawData);
+}
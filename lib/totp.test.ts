@@ -0,0 +1,102 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUrl,
+  generateRecoveryCodes,
+  generateTotp,
+  getTotpStep,
+  hashRecoveryCode,
+  verifyTotp,
+} from './totp';
+
+// RFC 6238 appendix B SHA-1 key, "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+function at(seconds: number): Date {
+  return new Date(seconds * 1000);
+}
+
+describe('base32', () => {
+  test('round-trips the RFC 6238 key', () => {
+    assert.equal(base32Encode(Buffer.from('12345678901234567890')), RFC_SECRET);
+    assert.equal(base32Decode(RFC_SECRET).toString(), '12345678901234567890');
+  });
+
+  test('ignores case, spaces, dashes and padding', () => {
+    assert.equal(base32Decode('gezd gnbv-gy3t qojq====').toString(), '1234567890');
+  });
+
+  test('rejects characters outside the alphabet', () => {
+    assert.throws(() => base32Decode('GEZD1'), /Invalid base32 character: 1/);
+  });
+});
+
+describe('generateTotp', () => {
+  test('matches the RFC 6238 SHA-1 test vectors', () => {
+    const vectors: [number, string][] = [
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+    ];
+    for (const [seconds, code] of vectors) {
+      assert.equal(generateTotp(RFC_SECRET, getTotpStep(at(seconds))), code);
+    }
+  });
+});
+
+describe('verifyTotp', () => {
+  test('accepts a code from one step either side and returns its step', () => {
+    const now = at(1111111109);
+    const step = getTotpStep(now);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), now), step);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), now), step - 1);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), now), step + 1);
+  });
+
+  test('refuses codes outside the drift window', () => {
+    const now = at(1111111109);
+    const step = getTotpStep(now);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), now), null);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 2), now), null);
+  });
+
+  test('accepts a code typed with a space and refuses malformed codes', () => {
+    const now = at(1111111109);
+    assert.equal(verifyTotp(RFC_SECRET, '081 804', now), getTotpStep(now));
+    assert.equal(verifyTotp(RFC_SECRET, '81804', now), null);
+    assert.equal(verifyTotp(RFC_SECRET, '08180a', now), null);
+  });
+});
+
+describe('buildOtpauthUrl', () => {
+  test('describes the account, issuer and code parameters', () => {
+    const otpauthUrl = buildOtpauthUrl(RFC_SECRET, 'jane.doe@example.mil', 'AFT System');
+    assert.ok(otpauthUrl.startsWith('otpauth://totp/AFT%20System:jane.doe%40example.mil?'));
+    const url = new URL(otpauthUrl);
+    assert.equal(url.searchParams.get('secret'), RFC_SECRET);
+    assert.equal(url.searchParams.get('issuer'), 'AFT System');
+    assert.equal(url.searchParams.get('digits'), '6');
+    assert.equal(url.searchParams.get('period'), '30');
+  });
+});
+
+describe('recovery codes', () => {
+  test('generates distinct codes in two groups of five', () => {
+    const codes = generateRecoveryCodes();
+    assert.equal(codes.length, 10);
+    assert.equal(new Set(codes).size, codes.length);
+    for (const code of codes) {
+      assert.match(code, /^[A-Z2-7]{5}-[A-Z2-7]{5}$/);
+    }
+  });
+
+  test('hashes a code the same however it is typed', () => {
+    const hash = hashRecoveryCode('K7QPM-3XW2D');
+    assert.equal(hashRecoveryCode('k7qpm 3xw2d'), hash);
+    assert.equal(hashRecoveryCode('K7QPM3XW2D'), hash);
+    assert.notEqual(hashRecoveryCode('K7QPM-3XW2E'), hash);
+  });
+});
@@ -0,0 +1,46 @@
+// CAC trust store helpers shared by the admin trust store routes
+
+import { CertificateParser, type ParsedCertificate } from '@/lib/certificate-parser';
+import type { CACTrustStore } from '@/lib/db/schema';
+
+// Anchors expiring within this many days are flagged in the admin UI
+export const EXPIRY_WARNING_DAYS = 90;
+
+// Parse a stored (Base64 DER) trust store certificate, or null if it cannot be read
+export function parseTrustStoreCertificate(entry: Pick<CACTrustStore, 'certificateData'>): ParsedCertificate | null {
+  try {
+    return CertificateParser.parseDerCertificate(new Uint8Array(Buffer.from(entry.certificateData, 'base64')).buffer);
+  } catch {
+    return null;
+  }
+}
+
+export function toTrustStoreResponse(entry: CACTrustStore) {
+  const daysUntilExpiry = Math.floor((entry.notAfter.getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+
+  // Entries that cannot be parsed are still listed so they can be removed
+  const parsed = parseTrustStoreCertificate(entry);
+
+  return {
+    id: entry.id,
+    certificateName: entry.certificateName,
+    certificateThumbprint: entry.certificateThumbprint,
+    subjectDN: entry.subjectDN,
+    issuerDN: entry.issuerDN,
+    notBefore: entry.notBefore,
+    notAfter: entry.notAfter,
+    isActive: entry.isActive,
+    isRootCA: entry.isRootCA,
+    createdAt: entry.createdAt,
+    serialNumber: parsed?.serialNumber ?? null,
+    isDoD: parsed?.isDoD ?? false,
+    isSelfSigned: parsed?.isSelfSigned ?? false,
+    isCertificateAuthority: parsed?.isCertificateAuthority ?? false,
+    daysUntilExpiry,
+    expiryStatus: daysUntilExpiry < 0 ? 'expired' : daysUntilExpiry <= EXPIRY_WARNING_DAYS ? 'expiring' : 'valid',
+  };
+}
+
+export function getCommonName(dn: string): string {
+  return /(?:^|,)CN=([^,]+)/.exec(dn)?.[1] || dn;
+}
@@ -0,0 +1,70 @@
+// User guides
+// Markdown guides shown under /user-guides. A guide with a role is only listed
+// for users holding that role; a null role means every user sees it. Drafts are
+// visible to admins only until they are published.
+
+import { z } from 'zod';
+import { db } from '@/lib/db/server';
+import { userGuides, users, UserRole, type UserGuide, type UserRoleType } from '@/lib/db/schema';
+import { asc, eq } from 'drizzle-orm';
+
+const GUIDE_ROLES = Object.values(UserRole) as [UserRoleType, ...UserRoleType[]];
+
+export const userGuideSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required'),
+  description: z.string().trim().min(1, 'Description is required'),
+  role: z.enum(GUIDE_ROLES, { message: 'Valid role is required' }).nullable().default(null),
+  content: z.string().trim().min(1, 'Content is required'),
+  isPublished: z.boolean().default(false),
+  sortOrder: z.number().int().default(0),
+});
+
+export const createUserGuideSchema = userGuideSchema.extend({
+  id: z.string().min(1, 'ID is required').max(100)
+    .regex(/^[a-z0-9-]+$/, 'ID must contain only lowercase letters, numbers, and hyphens'),
+});
+
+export const publishUserGuideSchema = z.object({
+  isPublished: z.boolean(),
+});
+
+export type UserGuideInput = z.infer<typeof userGuideSchema>;
+
+interface GuideViewer {
+  role: UserRoleType;
+  roles: UserRoleType[];
+}
+
+export function isGuideAdmin(viewer: GuideViewer): boolean {
+  return viewer.role === 'admin' || viewer.roles.includes('admin');
+}
+
+// Whether a guide is listed for the viewer - admins see every guide, drafts included
+export function canViewGuide(viewer: GuideViewer, guide: Pick<UserGuide, 'role' | 'isPublished'>): boolean {
+  if (isGuideAdmin(viewer)) return true;
+  if (!guide.isPublished) return false;
+  return guide.role === null || viewer.roles.includes(guide.role) || viewer.role === guide.role;
+}
+
+// Guides with the author's name, in display order. createdBy carries the author's
+// first name, as the guide pages expect.
+export async function listUserGuides(guideId?: string) {
+  return db
+    .select({
+      id: userGuides.id,
+      title: userGuides.title,
+      description: userGuides.description,
+      role: userGuides.role,
+      content: userGuides.content,
+      isPublished: userGuides.isPublished,
+      sortOrder: userGuides.sortOrder,
+      createdAt: userGuides.createdAt,
+      updatedAt: userGuides.updatedAt,
+      createdBy: users.firstName,
+      createdByLastName: users.lastName,
+    })
+    .from(userGuides)
+    .leftJoin(users, eq(userGuides.createdBy, users.id))
+    .where(guideId === undefined ? undefined : eq(userGuides.id, guideId))
+    .orderBy(asc(userGuides.sortOrder), asc(userGuides.title));
+}
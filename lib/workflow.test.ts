@@ -0,0 +1,88 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getAvailableTransitions, resolveTransition } from './workflow';
+
+describe('resolveTransition', () => {
+  test('submits a draft to the status the approval policy starts at', () => {
+    const result = resolveTransition('submit', { status: 'draft', roles: ['requestor'] }, { signature: 'J. Doe' }, 'pending_dao');
+    assert.ok(result.ok);
+    assert.equal(result.nextStatus, 'pending_dao');
+    assert.equal(result.actingRole, 'requestor');
+  });
+
+  test('refuses an action the current status has no transition for', () => {
+    const result = resolveTransition('approve', { status: 'draft', roles: ['approver'], awaitingRoles: ['approver'] }, { signature: 'x', date: '2026-01-01' });
+    assert.deepEqual(result, {
+      ok: false,
+      error: 'Action "approve" is not allowed while the request is draft',
+      httpStatus: 400,
+    });
+  });
+
+  test('only lets roles the approval policy is waiting on approve', () => {
+    const payload = { signature: 'x', date: '2026-01-01' };
+    const context = { status: 'pending_approver', roles: ['cpso'], awaitingRoles: ['approver'] };
+
+    const refused = resolveTransition('approve', context, payload, 'pending_cpso');
+    assert.ok(!refused.ok);
+    assert.equal(refused.httpStatus, 403);
+    assert.match(refused.error, /approver, admin/);
+
+    const allowed = resolveTransition('approve', { ...context, roles: ['approver'] }, payload, 'pending_cpso');
+    assert.ok(allowed.ok);
+    assert.equal(allowed.actingRole, 'approver');
+  });
+
+  test('prefers a workflow role over admin', () => {
+    const result = resolveTransition('approve', {
+      status: 'pending_cpso',
+      roles: ['admin', 'cpso'],
+      awaitingRoles: ['cpso'],
+    }, { signature: 'x', date: '2026-01-01' }, 'pending_dta');
+    assert.ok(result.ok);
+    assert.equal(result.actingRole, 'cpso');
+  });
+
+  test('lets an admin act on a step whose role they do not hold', () => {
+    const result = resolveTransition('reject', { status: 'pending_dao', roles: ['admin'], awaitingRoles: ['dao'] }, { reason: 'Incomplete' });
+    assert.ok(result.ok);
+    assert.equal(result.actingRole, 'admin');
+    assert.equal(result.nextStatus, 'rejected');
+  });
+
+  test('reports missing and blank payload fields', () => {
+    const result = resolveTransition('dta_sign', { status: 'pending_dta', roles: ['dta'] }, { signature: 'x', assignedSME: '  ' });
+    assert.deepEqual(result, {
+      ok: false,
+      error: 'Missing required fields for "dta_sign": assignedSME, assignedMediaCustodian',
+      httpStatus: 400,
+    });
+  });
+
+  test('refuses a target status the transition cannot reach', () => {
+    const result = resolveTransition('dispose', { status: 'pending_media_custodian', roles: ['media_custodian'] }, {}, 'draft');
+    assert.ok(!result.ok);
+    assert.equal(result.error, 'Action "dispose" cannot move the request from pending_media_custodian to draft');
+  });
+
+  test('moves to the first target status when none is requested', () => {
+    const result = resolveTransition('custodian_sign', { status: 'pending_media_custodian', roles: ['media_custodian'] }, { signature: 'x' });
+    assert.ok(result.ok);
+    assert.equal(result.nextStatus, 'disposed');
+  });
+});
+
+describe('getAvailableTransitions', () => {
+  test('lists what the user can do in the current status', () => {
+    const actions = getAvailableTransitions({ status: 'pending_dta', roles: ['dta'] }).map(transition => transition.action);
+    assert.deepEqual(actions, ['dta_sign', 'initiate_transfer', 'primary_sign']);
+  });
+
+  test('hides approval actions from roles the policy is not waiting on', () => {
+    assert.deepEqual(getAvailableTransitions({ status: 'pending_dao', roles: ['cpso'], awaitingRoles: ['dao'] }), []);
+  });
+
+  test('offers nothing on a terminal status', () => {
+    assert.deepEqual(getAvailableTransitions({ status: 'completed', roles: ['admin'] }), []);
+  });
+});
@@ -0,0 +1,327 @@
+// Central AFT workflow definition
+// Every status change made by the API goes through resolveTransition(), and the
+// progress UI renders its steps from WORKFLOW_STAGES, so both stay in sync.
+
+import { AFTStatus, type AFTStatusType, type UserRoleType } from './db/schema';
+import type { ApprovalStepRole } from './approval-policy';
+
+export type WorkflowAction =
+  | 'submit'
+  | 'return_to_draft'
+  | 'approve'
+  | 'reject'
+  | 'dta_sign'
+  | 'initiate_transfer'
+  | 'complete_transfer'
+  | 'legacy_transfer'
+  | 'primary_sign'
+  | 'secondary_sign'
+  | 'sme_sign'
+  | 'custodian_sign'
+  | 'dispose';
+
+// Request attributes that influence which transitions apply
+export interface WorkflowContext {
+  status: string;
+  transferType?: string | null;
+  roles: string[];
+  // Roles the approval policy is waiting on at the current approval stage
+  awaitingRoles?: string[];
+}
+
+export interface WorkflowTransition {
+  action: WorkflowAction;
+  label: string;
+  from: AFTStatusType[];
+  // Allowed target statuses - when more than one, the caller chooses among them
+  to: AFTStatusType[];
+  roles: UserRoleType[];
+  // Payload fields that must be present and non-empty
+  requiredPayload: string[];
+  // Extra condition on the request, e.g. transfer type
+  when?: (context: WorkflowContext) => boolean;
+  // Only roles in context.awaitingRoles (plus admin) may act
+  policyRoles?: boolean;
+}
+
+export interface WorkflowStage {
+  id: string;
+  title: string;
+  description: string;
+  statuses: AFTStatusType[];
+  // Approval stage - skipped when the request's approval policy has no step for the role
+  approvalRole?: ApprovalStepRole;
+}
+
+export type TransitionResult =
+  | { ok: true; transition: WorkflowTransition; nextStatus: AFTStatusType; actingRole: UserRoleType }
+  | { ok: false; error: string; httpStatus: 400 | 403 };
+
+const APPROVAL_STATUSES: AFTStatusType[] = [
+  AFTStatus.SUBMITTED,
+  AFTStatus.PENDING_DAO,
+  AFTStatus.PENDING_APPROVER,
+  AFTStatus.PENDING_CPSO,
+];
+
+export const WORKFLOW_TRANSITIONS: WorkflowTransition[] = [
+  // Requestor submission - the approval policy picks the first review status
+  {
+    action: 'submit',
+    label: 'Submit for approval',
+    from: [AFTStatus.DRAFT, AFTStatus.REJECTED],
+    to: APPROVAL_STATUSES,
+    roles: ['requestor', 'admin'],
+    requiredPayload: ['signature'],
+  },
+  {
+    action: 'return_to_draft',
+    label: 'Return to draft for editing',
+    from: APPROVAL_STATUSES,
+    to: [AFTStatus.DRAFT],
+    roles: ['requestor', 'admin'],
+    requiredPayload: [],
+  },
+
+  // Approval chain - the request's approval policy decides which roles are awaited
+  {
+    action: 'approve',
+    label: 'Approve',
+    from: APPROVAL_STATUSES,
+    to: [...APPROVAL_STATUSES, AFTStatus.PENDING_DTA],
+    roles: ['dao', 'approver', 'cpso', 'sme', 'admin'],
+    requiredPayload: ['signature', 'date'],
+    policyRoles: true,
+  },
+  {
+    action: 'reject',
+    label: 'Reject',
+    from: APPROVAL_STATUSES,
+    to: [AFTStatus.REJECTED],
+    roles: ['dao', 'approver', 'cpso', 'sme', 'admin'],
+    requiredPayload: ['reason'],
+    policyRoles: true,
+  },
+
+  // Transfer chain of custody
+  {
+    action: 'dta_sign',
+    label: 'Sign and assign SME / Media Custodian',
+    from: [AFTStatus.PENDING_DTA],
+    to: [AFTStatus.PENDING_SME],
+    roles: ['dta', 'admin'],
+    requiredPayload: ['signature', 'assignedSME', 'assignedMediaCustodian'],
+  },
+  {
+    action: 'initiate_transfer',
+    label: 'Initiate transfer',
+    from: [AFTStatus.PENDING_DTA],
+    to: [AFTStatus.ACTIVE_TRANSFER],
+    roles: ['dta', 'admin'],
+    requiredPayload: [],
+  },
+  {
+    action: 'complete_transfer',
+    label: 'Complete transfer',
+    from: [AFTStatus.ACTIVE_TRANSFER],
+    to: [AFTStatus.PENDING_SME_SIGNATURE],
+    roles: ['dta', 'admin'],
+    requiredPayload: ['dtaName', 'dtaSignature', 'transferDate'],
+  },
+  {
+    action: 'legacy_transfer',
+    label: 'Record transfer (legacy form)',
+    from: [AFTStatus.APPROVED],
+    to: [AFTStatus.COMPLETED],
+    roles: ['dta', 'admin'],
+    requiredPayload: ['dtaSignature', 'smeSignature', 'transferDate'],
+  },
+  {
+    action: 'primary_sign',
+    label: 'Primary DTA transfer signature',
+    from: [AFTStatus.PENDING_DTA],
+    to: [AFTStatus.PENDING_SME],
+    roles: ['dta', 'admin'],
+    requiredPayload: ['signature'],
+  },
+  {
+    action: 'secondary_sign',
+    label: 'Secondary transfer signature',
+    from: [AFTStatus.PENDING_SME],
+    to: [AFTStatus.PENDING_MEDIA_CUSTODIAN],
+    roles: ['dta', 'sme', 'admin'],
+    requiredPayload: ['signature'],
+  },
+  {
+    action: 'sme_sign',
+    label: 'SME signature',
+    from: [AFTStatus.PENDING_SME_SIGNATURE, AFTStatus.PENDING_SME],
+    to: [AFTStatus.PENDING_MEDIA_CUSTODIAN],
+    roles: ['sme', 'admin'],
+    requiredPayload: ['signature'],
+  },
+  {
+    action: 'custodian_sign',
+    label: 'Media Custodian signature',
+    from: [AFTStatus.PENDING_MEDIA_CUSTODIAN],
+    to: [AFTStatus.DISPOSED],
+    roles: ['media_custodian', 'admin'],
+    requiredPayload: ['signature'],
+  },
+  {
+    action: 'dispose',
+    label: 'Record media disposition',
+    from: [AFTStatus.PENDING_MEDIA_CUSTODIAN],
+    to: [AFTStatus.DISPOSED, AFTStatus.COMPLETED],
+    roles: ['media_custodian', 'admin'],
+    requiredPayload: [],
+  },
+];
+
+// Ordered stages shown by the workflow progress UI
+export const WORKFLOW_STAGES: WorkflowStage[] = [
+  {
+    id: 'submitted',
+    title: 'Request Submitted',
+    description: 'AFT request created and submitted for review',
+    statuses: [AFTStatus.DRAFT, AFTStatus.SUBMITTED],
+  },
+  {
+    id: 'pending_dao',
+    title: 'DAO Review',
+    description: 'Designated Authorizing Official review',
+    statuses: [AFTStatus.PENDING_DAO],
+    approvalRole: 'dao',
+  },
+  {
+    id: 'pending_approver',
+    title: 'ISSM/ISSO Review',
+    description: 'Information System Security Manager review',
+    statuses: [AFTStatus.PENDING_APPROVER],
+    approvalRole: 'approver',
+  },
+  {
+    id: 'pending_cpso',
+    title: 'CPSO Review',
+    description: 'Contractor Program Security Officer review',
+    statuses: [AFTStatus.PENDING_CPSO],
+    approvalRole: 'cpso',
+  },
+  {
+    id: 'pending_dta',
+    title: 'DTA Processing',
+    description: 'Data Transfer Agent conducting virus scan and transfer',
+    statuses: [AFTStatus.APPROVED, AFTStatus.PENDING_DTA, AFTStatus.ACTIVE_TRANSFER],
+  },
+  {
+    id: 'pending_sme',
+    title: 'SME Signature',
+    description: 'Subject Matter Expert verification and sign-off',
+    statuses: [AFTStatus.PENDING_SME_SIGNATURE, AFTStatus.PENDING_SME],
+  },
+  {
+    id: 'pending_media_custodian',
+    title: 'Media Disposition',
+    description: 'Media custodian handles final disposition',
+    statuses: [AFTStatus.PENDING_MEDIA_CUSTODIAN],
+  },
+  {
+    id: 'completed',
+    title: 'Transfer Complete',
+    description: 'AFT process successfully completed',
+    statuses: [AFTStatus.COMPLETED, AFTStatus.DISPOSED],
+  },
+];
+
+// Statuses with no outgoing transitions
+export const TERMINAL_STATUSES: AFTStatusType[] = [AFTStatus.COMPLETED, AFTStatus.DISPOSED, AFTStatus.CANCELLED];
+
+// Index of the stage a status belongs to, or -1 for statuses outside the main flow (rejected, cancelled)
+export function getStageIndex(status: string): number {
+  return WORKFLOW_STAGES.findIndex(stage => (stage.statuses as string[]).includes(status));
+}
+
+function matchesState(transition: WorkflowTransition, context: WorkflowContext): boolean {
+  return (transition.from as string[]).includes(context.status) && (!transition.when || transition.when(context));
+}
+
+// Roles allowed to perform a transition on a request in the given context
+function getAllowedRoles(transition: WorkflowTransition, context: WorkflowContext): UserRoleType[] {
+  if (!transition.policyRoles) return transition.roles;
+  return transition.roles.filter(role => role === 'admin' || context.awaitingRoles?.includes(role));
+}
+
+// Pick the role the user acts under, preferring a workflow role over admin
+function findActingRole(transition: WorkflowTransition, context: WorkflowContext): UserRoleType | null {
+  const allowedRoles = getAllowedRoles(transition, context);
+  const specific = allowedRoles.find(role => role !== 'admin' && context.roles.includes(role));
+  if (specific) return specific;
+  return context.roles.includes('admin') && allowedRoles.includes('admin') ? 'admin' : null;
+}
+
+// Transitions the given user may perform on a request in its current state
+export function getAvailableTransitions(context: WorkflowContext): WorkflowTransition[] {
+  return WORKFLOW_TRANSITIONS.filter(transition =>
+    matchesState(transition, context) && findActingRole(transition, context) !== null
+  );
+}
+
+// Validate an action against the workflow and work out the resulting status
+export function resolveTransition(
+  action: WorkflowAction,
+  context: WorkflowContext,
+  payload: Record<string, unknown> = {},
+  requestedStatus?: string
+): TransitionResult {
+  const candidates = WORKFLOW_TRANSITIONS.filter(transition =>
+    transition.action === action && matchesState(transition, context)
+  );
+
+  if (candidates.length === 0) {
+    return {
+      ok: false,
+      error: `Action "${action}" is not allowed while the request is ${context.status}`,
+      httpStatus: 400,
+    };
+  }
+
+  const permitted = candidates
+    .map(transition => ({ transition, actingRole: findActingRole(transition, context) }))
+    .filter((candidate): candidate is { transition: WorkflowTransition; actingRole: UserRoleType } => candidate.actingRole !== null);
+
+  if (permitted.length === 0) {
+    const allowedRoles = Array.from(new Set(candidates.flatMap(transition => getAllowedRoles(transition, context))));
+    return {
+      ok: false,
+      error: `Action "${action}" requires one of the roles: ${allowedRoles.join(', ')}`,
+      httpStatus: 403,
+    };
+  }
+
+  // Prefer a transition the user holds a specific (non-admin) role for
+  const { transition, actingRole } = permitted.find(candidate => candidate.actingRole !== 'admin') || permitted[0];
+
+  const missing = transition.requiredPayload.filter(field => {
+    const value = payload[field];
+    return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+  });
+
+  if (missing.length > 0) {
+    return {
+      ok: false,
+      error: `Missing required fields for "${action}": ${missing.join(', ')}`,
+      httpStatus: 400,
+    };
+  }
+
+  const nextStatus = requestedStatus ?? transition.to[0];
+  if (!(transition.to as string[]).includes(nextStatus)) {
+    return {
+      ok: false,
+      error: `Action "${action}" cannot move the request from ${context.status} to ${nextStatus}`,
+      httpStatus: 400,
+    };
+  }
+
+  return { ok: true, transition, nextStatus: nextStatus as AFTStatusType, actingRole };
+}
@@ -1,13 +1,42 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { verifyToken } from './lib/auth';
+import { checkSession } from './lib/sessions-server';
+import { PASSIVE_REQUEST_HEADER } from './lib/session-policy';
+
+// Send the user back to sign in and clear the cookie of a token that can no longer be used
+function rejectToken(request: NextRequest) {
+  let response;
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    response = NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  } else {
+    response = NextResponse.redirect(new URL('/login?session_expired=true', request.url));
+  }
+
+  // Clear the invalid cookie
+  response.cookies.set('aft-auth-token', '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: 0,
+    path: '/',
+    expires: new Date(0),
+  });
+
+  return response;
+}
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
-  // Public routes that don't require authentication
-  const publicRoutes = ['/login', '/api/auth/login'];
+  // Public routes that don't require authentication; logout must work once the session has ended
+  const publicRoutes = ['/login', '/api/auth/login', '/api/auth/cac-login', '/api/auth/logout', '/api/auth/mfa/verify'];
   
+  // Routes open to a session that must change its password first
+  const passwordChangeRoutes = ['/change-password', '/api/auth/change-password', '/api/auth/me'];
+  // Routes open to a session whose role requires MFA the user hasn't set up
+  const mfaEnrollmentRoutes = ['/mfa-setup', '/api/auth/mfa', '/api/auth/me'];
+
   // Routes that require authentication but no role check (kept for future use)
   // const authOnlyRoutes = ['/role-selection', '/api/auth/set-role', '/api/auth/me'];
   
@@ -43,26 +72,29 @@ export async function middleware(request: NextRequest) {
   
   if (!payload) {
     // Token invalid, redirecting to login
-    
-    // Create response and clear the invalid token
-    let response;
+    return rejectToken(request);
+  }
+
+  // A valid signature is not enough: the session must not have been signed out, timed
+  // out or terminated, and the user must still be active
+  const session = await checkSession(payload.jti, request.headers.get(PASSIVE_REQUEST_HEADER) !== '1');
+  if (!session.ok) {
+    return rejectToken(request);
+  }
+
+  // A session opened with an expired or admin-assigned password can only change it
+  if (session.session.passwordChangeRequired && !passwordChangeRoutes.some(route => pathname.startsWith(route))) {
+    if (pathname.startsWith('/api/')) {
+      return NextResponse.json({ error: 'Password change required', passwordChangeRequired: true }, { status: 403 });
+    }
+    return NextResponse.redirect(new URL('/change-password', request.url));
+  }
+
+  if (session.session.mfaEnrollmentRequired && !mfaEnrollmentRoutes.some(route => pathname.startsWith(route))) {
     if (pathname.startsWith('/api/')) {
-      response = NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    } else {
-      response = NextResponse.redirect(new URL('/login?session_expired=true', request.url));
+      return NextResponse.json({ error: 'MFA enrollment required', mfaEnrollmentRequired: true }, { status: 403 });
     }
-    
-    // Clear the invalid cookie
-    response.cookies.set('aft-auth-token', '', {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 0,
-      path: '/',
-      expires: new Date(0),
-    });
-    
-    return response;
+    return NextResponse.redirect(new URL('/mfa-setup', request.url));
   }
 
   // Get current role - prefer currentRole from token, fallback to primary role
@@ -138,6 +170,8 @@ export async function middleware(request: NextRequest) {
 }
 
 export const config = {
+  // The session check reads the database
+  runtime: 'nodejs',
   matcher: [
     // Match all paths except static files and images
     '/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)',
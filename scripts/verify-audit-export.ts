@@ -0,0 +1,42 @@
+// Offline verification of a signed audit log export
+// Usage: npx tsx scripts/verify-audit-export.ts <export.json> [--fingerprint <signing key SHA-256>]
+// Needs only Node - no database or application configuration.
+
+import { readFileSync } from 'fs';
+import { verifySignedAuditExport, type SignedAuditExport } from '../lib/audit-chain';
+
+function main() {
+  const args = process.argv.slice(2);
+  const fingerprintIndex = args.indexOf('--fingerprint');
+  const fingerprint = fingerprintIndex >= 0 ? args[fingerprintIndex + 1] : undefined;
+  const file = args.find((arg, index) => !arg.startsWith('--') && (fingerprintIndex < 0 || index !== fingerprintIndex + 1));
+
+  if (!file || (fingerprintIndex >= 0 && !fingerprint)) {
+    console.error('Usage: npx tsx scripts/verify-audit-export.ts <export.json> [--fingerprint <signing key SHA-256>]');
+    process.exit(2);
+  }
+
+  const auditExport = JSON.parse(readFileSync(file, 'utf8')) as SignedAuditExport;
+  const result = verifySignedAuditExport(auditExport, fingerprint);
+
+  console.log(`Export:           ${file}`);
+  console.log(`Exported at:      ${auditExport.exportedAt} by ${auditExport.exportedBy}`);
+  console.log(`Entries:          ${auditExport.entryCount}`);
+  console.log(`Head hash:        ${auditExport.headHash}`);
+  console.log(`Signing key:      ${result.keyFingerprint ?? 'unreadable'}${fingerprint ? '' : ' (not pinned - compare with the fingerprint shown in the admin audit trail)'}`);
+  if (result.chain) {
+    console.log(`Verified entries: ${result.chain.verifiedEntries}`);
+  }
+
+  if (result.valid) {
+    console.log('✅ Audit log export is intact');
+    process.exit(0);
+  }
+
+  for (const error of result.errors) {
+    console.error(`❌ ${error}`);
+  }
+  process.exit(1);
+}
+
+main();